@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEmbeddingStatus, triggerReembed } from '@/services/agents-memory-service'
+
+/**
+ * GET /api/agents/:id/embeddings
+ * Embedding model recorded for each vector relation, plus the re-embed job status
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+
+  const result = await getEmbeddingStatus(agentId)
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+/**
+ * POST /api/agents/:id/embeddings
+ * Re-embed relations built with another model ({ "force": true } re-embeds everything)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+  const body = await request.json().catch(() => ({}))
+
+  const result = await triggerReembed(agentId, { force: body.force === true })
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
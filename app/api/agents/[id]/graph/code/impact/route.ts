@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { analyzeCodeImpact } from '@/services/agents-graph-service'
+
+/**
+ * POST /api/agents/:id/graph/code/impact
+ * What is affected by changing a set of files, e.g.
+ * { "files": ["lib/auth.ts"], "depth": 3 } or { "diff": "<git diff output>" } or { "gitRef": "main" }
+ * Add "format": "markdown" for a summary that can be attached to a review task.
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+  const body = await request.json().catch(() => ({}))
+
+  const result = await analyzeCodeImpact(agentId, body)
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -27,7 +27,7 @@ export async function GET(
 
 /**
  * POST /api/agents/:id/graph/db
- * Index a PostgreSQL database schema into the graph
+ * Index a PostgreSQL, MySQL or SQLite database schema into the graph
  */
 export async function POST(
   request: NextRequest,
@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { updateInboxRuleOnAgent, removeInboxRuleFromAgent } from '@/services/agents-messaging-service'
+
+/**
+ * PATCH /api/agents/[id]/inbox-rules/[ruleId]
+ * Update an inbox rule (name, enabled, conditions, actions)
+ */
+export async function PATCH(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  const { id, ruleId } = await params
+  const body = await request.json()
+
+  const result = updateInboxRuleOnAgent(id, ruleId, body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+/**
+ * DELETE /api/agents/[id]/inbox-rules/[ruleId]
+ * Remove an inbox rule from an agent
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; ruleId: string }> }
+) {
+  const { id, ruleId } = await params
+
+  const result = removeInboxRuleFromAgent(id, ruleId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
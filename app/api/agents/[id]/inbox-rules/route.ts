@@ -0,0 +1,39 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listInboxRules, addInboxRuleToAgent } from '@/services/agents-messaging-service'
+
+/**
+ * GET /api/agents/[id]/inbox-rules
+ * List an agent's inbox rules in evaluation order
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const result = listInboxRules(id)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+/**
+ * POST /api/agents/[id]/inbox-rules
+ * Add an inbox rule to an agent
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const body = await request.json()
+
+  const result = addInboxRuleToAgent(id, body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
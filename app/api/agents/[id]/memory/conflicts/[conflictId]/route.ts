@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { reviewMemoryConflict } from '@/services/agents-memory-service'
+
+/**
+ * POST /api/agents/:id/memory/conflicts/:conflictId
+ * Accept or reject a conflict resolution
+ *
+ * Body:
+ * - action: "accept" supersedes the losing memory, "reject" keeps both (required)
+ * - winnerId: Memory to keep when accepting (default: the suggested winner)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; conflictId: string }> }
+) {
+  const { id: agentId, conflictId } = await params
+  const body = await request.json()
+
+  const result = await reviewMemoryConflict(agentId, conflictId, {
+    action: body.action,
+    winnerId: body.winnerId,
+  })
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listMemoryConflicts } from '@/services/agents-memory-service'
+
+/**
+ * GET /api/agents/:id/memory/conflicts
+ * List contradicting memory pairs detected during consolidation
+ *
+ * Query parameters:
+ * - status: pending (default), accepted, rejected or all
+ * - limit: Max results (default: 100)
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+  const searchParams = request.nextUrl.searchParams
+
+  const result = await listMemoryConflicts(agentId, {
+    status: searchParams.get('status'),
+    limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined,
+  })
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -28,7 +28,7 @@ export async function GET(
  *
  * Query parameters:
  * - dryRun: If true, only report what would be extracted (default: false)
- * - provider: LLM provider to use ('ollama', 'claude', 'auto') (default: 'auto')
+ * - provider: LLM provider to use ('ollama', 'claude', 'openai', 'auto') (default: the agent's memory settings)
  * - maxConversations: Maximum conversations to process (default: 50)
  */
 export async function POST(
@@ -62,6 +62,7 @@ export async function POST(
  * Actions:
  * - promote: Promote warm memories to long-term
  * - prune: Prune old short-term messages
+ * - maintain: Prune, apply decay/retention, promote, and record the run
  */
 export async function PATCH(
   request: NextRequest,
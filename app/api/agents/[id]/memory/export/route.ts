@@ -0,0 +1,30 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exportAgentMemories } from '@/services/agents-memory-service'
+
+/**
+ * GET /api/agents/:id/memory/export
+ * Download the agent's consolidated memories, links and embeddings as JSONL
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+
+  const result = await exportAgentMemories(agentId)
+
+  if (result.error || !result.data) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+
+  const { content, filename, memories, links } = result.data
+  return new Response(content, {
+    status: 200,
+    headers: {
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Memory-Count': memories.toString(),
+      'X-Link-Count': links.toString()
+    }
+  })
+}
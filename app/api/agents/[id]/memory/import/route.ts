@@ -0,0 +1,33 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importAgentMemories } from '@/services/agents-memory-service'
+
+/**
+ * POST /api/agents/:id/memory/import
+ * Import a memory export. The body is the JSONL file from /memory/export.
+ *
+ * Query parameters:
+ * - reembed: Recompute embeddings with this host's model (default: false)
+ * - dedupe: Reinforce near-duplicate memories instead of creating them (default: false)
+ * - remap: Category remapping, e.g. "pattern:insight,reasoning:insight"
+ * - dryRun: Report what would be imported without writing (default: false)
+ */
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+  const searchParams = request.nextUrl.searchParams
+  const content = await request.text()
+
+  const result = await importAgentMemories(agentId, content, {
+    reembed: searchParams.get('reembed') === 'true',
+    dedupe: searchParams.get('dedupe') === 'true',
+    categoryMap: searchParams.get('remap'),
+    dryRun: searchParams.get('dryRun') === 'true',
+  })
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
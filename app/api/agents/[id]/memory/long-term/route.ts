@@ -70,13 +70,14 @@ export async function DELETE(
 
 /**
  * PATCH /api/agents/:id/memory/long-term
- * Update a memory's content or category
+ * Update a memory's content or category, or pin it
  *
  * Body:
  * - id: Memory ID (required)
  * - content: New content (optional)
  * - category: New category (optional)
  * - context: New context (optional)
+ * - pinned: Pin (exempt from decay) or unpin the memory (optional)
  */
 export async function PATCH(
   request: NextRequest,
@@ -90,6 +91,7 @@ export async function PATCH(
     content: body.content,
     category: body.category,
     context: body.context,
+    pinned: body.pinned,
   })
 
   if (result.error) {
@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMemorySettings, updateMemorySettings } from '@/services/agents-memory-service'
+
+/**
+ * GET /api/agents/:id/memory/settings
+ * Get the agent's effective memory settings (the OpenAI key is reported as openaiApiKeySet)
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+
+  const result = getMemorySettings(agentId)
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+/**
+ * PUT /api/agents/:id/memory/settings
+ * Update memory settings. Body holds any subset of { consolidation, retention, search },
+ * e.g. { "consolidation": { "llmProvider": "openai", "openaiBaseUrl": "http://gpu-box:8000/v1" } }
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id: agentId } = await params
+  const body = await request.json()
+
+  const result = updateMemorySettings(agentId, body)
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
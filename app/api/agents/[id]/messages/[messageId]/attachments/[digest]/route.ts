@@ -0,0 +1,23 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMessageAttachment } from '@/services/agents-messaging-service'
+
+/**
+ * GET /api/agents/[id]/messages/[messageId]/attachments/[digest]?box=inbox|sent
+ * Download a file attached to one of the agent's messages
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string; digest: string }> }
+) {
+  const { id, messageId, digest } = await params
+  const { searchParams } = new URL(request.url)
+  const box = (searchParams.get('box') || 'inbox') as 'inbox' | 'sent'
+
+  const result = await getMessageAttachment(id, messageId, digest, box)
+
+  if (result.error || !result.data) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+
+  return new Response(new Uint8Array(result.data.data), { headers: result.headers })
+}
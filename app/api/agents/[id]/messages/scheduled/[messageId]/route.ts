@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { cancelScheduledMessage } from '@/services/agents-messaging-service'
+
+/**
+ * DELETE /api/agents/[id]/messages/scheduled/[messageId]
+ * Cancel a scheduled message before it is sent
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; messageId: string }> }
+) {
+  const { id, messageId } = await params
+
+  const result = await cancelScheduledMessage(id, messageId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listScheduledMessages } from '@/services/agents-messaging-service'
+
+/**
+ * GET /api/agents/[id]/messages/scheduled
+ * List messages this agent has scheduled to send later (send_at), earliest first.
+ * Failed sends stay listed with their last error until cancelled.
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+
+  const result = await listScheduledMessages(id)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
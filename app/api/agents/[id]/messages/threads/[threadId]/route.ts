@@ -0,0 +1,20 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getMessageThread } from '@/services/agents-messaging-service'
+
+/**
+ * GET /api/agents/[id]/messages/threads/[threadId]
+ * Get every message of a thread, merging inbox and sent items oldest first
+ */
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; threadId: string }> }
+) {
+  const { id, threadId } = await params
+
+  const result = await getMessageThread(id, threadId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listMessageThreads } from '@/services/agents-messaging-service'
+
+/**
+ * GET /api/agents/[id]/messages/threads
+ * List an agent's conversations grouped by AMP thread, newest activity first.
+ * Each thread has its participants, last message and unread count.
+ *
+ * Query parameters:
+ *   - limit: maximum number of threads to return
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+
+  const result = await listMessageThreads(id, {
+    limit: searchParams.get('limit') || undefined,
+  })
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
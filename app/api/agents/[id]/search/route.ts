@@ -17,6 +17,10 @@ import { searchConversations, ingestConversations } from '@/services/agents-memo
  * - useRrf: Use Reciprocal Rank Fusion (true | false) (default: true)
  * - bm25Weight: Weight for BM25 results (0-1) (default: 0.4)
  * - semanticWeight: Weight for semantic results (0-1) (default: 0.6)
+ * - rerank: Second-stage reranker for hybrid mode (none | bm25 | cross-encoder) (default: none)
+ * - rerankDepth: Fused candidates passed to the reranker (default: 50)
+ *   limit and rerankDepth must be positive integers (400 otherwise)
+ * - explain: Attach lexical/vector scores, fused rank and matched terms to each result (true | false)
  */
 export async function GET(
   request: NextRequest,
@@ -28,7 +32,8 @@ export async function GET(
   const result = await searchConversations(agentId, {
     query: searchParams.get('q') || '',
     mode: searchParams.get('mode') || undefined,
-    limit: searchParams.get('limit') ? parseInt(searchParams.get('limit')!) : undefined,
+    // Number() rather than parseInt so '10abc' is rejected instead of read as 10
+    limit: searchParams.get('limit') ? Number(searchParams.get('limit')) : undefined,
     minScore: searchParams.get('minScore') ? parseFloat(searchParams.get('minScore')!) : undefined,
     roleFilter: searchParams.get('role') as 'user' | 'assistant' | 'system' | null,
     conversationFile: searchParams.get('conversation_file') || undefined,
@@ -37,6 +42,9 @@ export async function GET(
     useRrf: searchParams.get('useRrf') !== 'false',
     bm25Weight: searchParams.get('bm25Weight') ? parseFloat(searchParams.get('bm25Weight')!) : undefined,
     semanticWeight: searchParams.get('semanticWeight') ? parseFloat(searchParams.get('semanticWeight')!) : undefined,
+    rerank: searchParams.get('rerank') || undefined,
+    rerankDepth: searchParams.get('rerankDepth') ? Number(searchParams.get('rerankDepth')) : undefined,
+    explain: searchParams.get('explain') === 'true',
   })
 
   if (result.error) {
@@ -3,16 +3,17 @@
  *
  * GET /api/agents/directory
  *   Returns the agent directory for this host
- *   Used by peer hosts to sync agent locations
+ *   Used by peer hosts to sync agent locations (signed mesh request required)
  *
  * Thin wrapper — business logic in services/agents-directory-service.ts
  */
 
 import { NextRequest, NextResponse } from 'next/server'
 import { getDirectory } from '@/services/agents-directory-service'
+import { readMeshHeaders } from '@/lib/mesh-auth'
 
-export async function GET(_request: NextRequest) {
-  const result = getDirectory()
+export async function GET(request: NextRequest) {
+  const result = getDirectory({ headers: readMeshHeaders(name => request.headers.get(name)), body: '' })
   if (result.error) {
     return NextResponse.json({ success: false, error: result.error }, { status: result.status })
   }
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAccessDenials } from '@/services/access-service'
+
+/**
+ * GET /api/auth/audit
+ * Denied requests, newest first (admin)
+ *
+ * Query: ?limit=N (default 100)
+ */
+export async function GET(request: NextRequest) {
+  const result = listAccessDenials(request.nextUrl.searchParams.get('limit'))
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from 'next/server'
+import { loginWithToken } from '@/services/access-service'
+
+/**
+ * POST /api/auth/login
+ * Exchange an API token for a session cookie
+ *
+ * Body: { token }
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}))
+  const result = loginWithToken(body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status, headers: result.headers })
+}
@@ -0,0 +1,11 @@
+import { NextResponse } from 'next/server'
+import { logout } from '@/services/access-service'
+
+/**
+ * POST /api/auth/logout
+ * Clear the session cookie
+ */
+export async function POST() {
+  const result = logout()
+  return NextResponse.json(result.data, { status: result.status, headers: result.headers })
+}
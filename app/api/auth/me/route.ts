@@ -0,0 +1,11 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getCurrentAccess } from '@/services/access-service'
+
+/**
+ * GET /api/auth/me
+ * Whether access control is enabled, and who the caller is
+ */
+export async function GET(request: NextRequest) {
+  const result = getCurrentAccess(request.headers.get('Authorization'), request.headers.get('Cookie'))
+  return NextResponse.json(result.data, { status: result.status })
+}
@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { getAccessControlSettings, updateAccessControlSettings } from '@/services/access-service'
+
+/**
+ * GET /api/auth/settings
+ * Access control settings (admin)
+ */
+export async function GET() {
+  const result = getAccessControlSettings()
+  return NextResponse.json(result.data, { status: result.status })
+}
+
+/**
+ * PUT /api/auth/settings
+ * Enable/disable access control and set AMP admin agents (admin)
+ *
+ * Body: { enabled?, trustLocal?, adminAgents? }
+ */
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => ({}))
+  const result = updateAccessControlSettings(body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { revokeToken } from '@/services/access-service'
+
+/**
+ * DELETE /api/auth/tokens/[id]
+ * Revoke an API token (admin)
+ */
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const result = revokeToken(id)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
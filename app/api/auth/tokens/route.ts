@@ -0,0 +1,27 @@
+import { NextResponse } from 'next/server'
+import { listTokens, createToken } from '@/services/access-service'
+
+/**
+ * GET /api/auth/tokens
+ * List API tokens (admin, secrets never included)
+ */
+export async function GET() {
+  const result = listTokens()
+  return NextResponse.json(result.data, { status: result.status })
+}
+
+/**
+ * POST /api/auth/tokens
+ * Issue an API token (admin). The secret is only returned in this response.
+ *
+ * Body: { name, grants: [{ role, teamId? }], expiresAt? }
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => ({}))
+  const result = createToken(body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
@@ -0,0 +1,28 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getEmbeddingSettings, updateEmbeddingSettings } from '@/services/config-service'
+
+/**
+ * GET /api/config/embeddings
+ * Get the host's embedding provider (the API key is reported as apiKeySet)
+ */
+export async function GET() {
+  const result = getEmbeddingSettings()
+  return NextResponse.json(result.data, { status: result.status })
+}
+
+/**
+ * PUT /api/config/embeddings
+ * Switch embedding provider/model, e.g.
+ * { "provider": "ollama", "model": "nomic-embed-text", "dimension": 768 }
+ * Agents whose vectors were built with another model are re-embedded in the background.
+ */
+export async function PUT(request: NextRequest) {
+  const body = await request.json()
+
+  const result = await updateEmbeddingSettings(body)
+
+  if (result.error) {
+    return NextResponse.json({ success: false, error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { exchangePeers } from '@/services/hosts-service'
+import { readMeshHeaders } from '@/lib/mesh-auth'
 
 /**
  * POST /api/hosts/exchange-peers
@@ -7,8 +8,10 @@ import { exchangePeers } from '@/services/hosts-service'
  * Exchange known hosts with a peer to achieve mesh connectivity.
  */
 export async function POST(request: NextRequest) {
-  const body = await request.json()
+  // The raw body is needed to verify the mesh signature
+  const raw = await request.text()
+  const body = JSON.parse(raw || '{}')
 
-  const result = await exchangePeers(body)
+  const result = await exchangePeers(body, { headers: readMeshHeaders(name => request.headers.get(name)), body: raw })
   return NextResponse.json(result.data, { status: result.status })
 }
@@ -10,6 +10,6 @@ export const dynamic = 'force-dynamic'
  * Returns this host's identity information for peer registration.
  */
 export async function GET() {
-  const result = getHostIdentity()
+  const result = await getHostIdentity()
   return NextResponse.json(result.data, { status: result.status })
 }
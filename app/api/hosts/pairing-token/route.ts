@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { createHostPairingToken } from '@/services/hosts-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * POST /api/hosts/pairing-token
+ *
+ * Issue a one-time token a new peer can present to be trusted on first contact.
+ */
+export async function POST() {
+  const result = createHostPairingToken()
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
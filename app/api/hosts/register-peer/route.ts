@@ -1,5 +1,6 @@
 import { NextRequest, NextResponse } from 'next/server'
 import { registerPeer } from '@/services/hosts-service'
+import { readMeshHeaders } from '@/lib/mesh-auth'
 
 /**
  * POST /api/hosts/register-peer
@@ -7,8 +8,10 @@ import { registerPeer } from '@/services/hosts-service'
  * Accept registration from a remote host and add it to local hosts.json.
  */
 export async function POST(request: NextRequest) {
-  const body = await request.json()
+  // The raw body is needed to verify the mesh signature
+  const raw = await request.text()
+  const body = JSON.parse(raw || '{}')
 
-  const result = await registerPeer(body)
+  const result = await registerPeer(body, { headers: readMeshHeaders(name => request.headers.get(name)), body: raw })
   return NextResponse.json(result.data, { status: result.status })
 }
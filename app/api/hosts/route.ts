@@ -21,12 +21,13 @@ export async function GET() {
  * POST /api/hosts
  *
  * Add a new host to the configuration with bidirectional sync.
+ * An optional pairingToken (issued by the remote host) lets it trust us immediately.
  */
 export async function POST(request: NextRequest) {
   const syncEnabled = request.nextUrl.searchParams.get('sync') !== 'false'
-  const host = await request.json()
+  const { pairingToken, ...host } = await request.json()
 
-  const result = await addNewHost({ host, syncEnabled })
+  const result = await addNewHost({ host, syncEnabled, pairingToken })
   if (result.error) {
     return NextResponse.json({ error: result.error }, { status: result.status })
   }
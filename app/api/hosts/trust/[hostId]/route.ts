@@ -0,0 +1,41 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { updatePeerTrust, forgetPeerTrust } from '@/services/hosts-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * PUT /api/hosts/trust/[hostId]
+ *
+ * Approve (state: "trusted") or revoke (state: "revoked") a peer's key.
+ */
+export async function PUT(
+  request: NextRequest,
+  { params }: { params: Promise<{ hostId: string }> }
+) {
+  const { hostId } = await params
+  const body = await request.json()
+
+  const result = updatePeerTrust(hostId, body)
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
+
+/**
+ * DELETE /api/hosts/trust/[hostId]
+ *
+ * Forget a peer's pinned key. Its next request will show up as pending again.
+ */
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ hostId: string }> }
+) {
+  const { hostId } = await params
+
+  const result = forgetPeerTrust(hostId)
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
@@ -0,0 +1,17 @@
+import { NextResponse } from 'next/server'
+import { getMeshTrust } from '@/services/hosts-service'
+
+export const dynamic = 'force-dynamic'
+
+/**
+ * GET /api/hosts/trust
+ *
+ * This host's mesh key fingerprint and the keys pinned for its peers.
+ */
+export async function GET() {
+  const result = await getMeshTrust()
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
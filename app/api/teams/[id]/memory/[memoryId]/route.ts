@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { deleteTeamMemoryEntry } from '@/services/teams-service'
+
+// DELETE /api/teams/[id]/memory/[memoryId] - Remove a memory from the team pool
+export async function DELETE(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; memoryId: string }> }
+) {
+  const { id, memoryId } = await params
+  const result = deleteTeamMemoryEntry(id, memoryId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,37 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listTeamMemory, publishTeamMemoryEntry } from '@/services/teams-service'
+
+// GET /api/teams/[id]/memory - List the team's shared memories (?q= for semantic search, ?category=, ?limit=)
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const searchParams = request.nextUrl.searchParams
+  const limit = searchParams.get('limit')
+  const result = await listTeamMemory(id, {
+    query: searchParams.get('q'),
+    category: searchParams.get('category'),
+    limit: limit ? parseInt(limit, 10) : undefined,
+  })
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+// POST /api/teams/[id]/memory - Publish a memory to the team pool
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const body = await request.json()
+  const result = await publishTeamMemoryEntry(id, body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
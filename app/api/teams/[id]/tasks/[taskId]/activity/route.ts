@@ -0,0 +1,16 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listTaskActivity } from '@/services/teams-service'
+
+// GET /api/teams/[id]/tasks/[taskId]/activity - Activity timeline of a task
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  const { id, taskId } = await params
+  const result = listTaskActivity(id, taskId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
@@ -0,0 +1,24 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { getTaskAttachmentFile } from '@/services/teams-service'
+
+// GET /api/teams/[id]/tasks/[taskId]/attachments/[attachmentId] - Download an attachment
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string; attachmentId: string }> }
+) {
+  const { id, taskId, attachmentId } = await params
+  const result = getTaskAttachmentFile(id, taskId, attachmentId)
+
+  if (result.error || !result.data) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+
+  const { attachment, data } = result.data
+  return new Response(new Uint8Array(data), {
+    headers: {
+      'Content-Type': attachment.mimeType,
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.filename)}"`,
+      'Content-Length': data.length.toString(),
+    },
+  })
+}
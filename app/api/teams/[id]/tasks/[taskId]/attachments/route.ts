@@ -0,0 +1,38 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listAttachmentsOfTask, uploadTaskAttachment } from '@/services/teams-service'
+
+// GET /api/teams/[id]/tasks/[taskId]/attachments - List files attached to a task
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  const { id, taskId } = await params
+  const result = listAttachmentsOfTask(id, taskId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+// POST /api/teams/[id]/tasks/[taskId]/attachments?filename=...&actorAgentId=...
+// Body is the raw file; Content-Type is stored as the attachment's MIME type.
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  const { id, taskId } = await params
+  const searchParams = request.nextUrl.searchParams
+  const data = Buffer.from(await request.arrayBuffer())
+  const result = uploadTaskAttachment(id, taskId, {
+    filename: searchParams.get('filename') || '',
+    mimeType: request.headers.get('content-type') || undefined,
+    data,
+    actorAgentId: searchParams.get('actorAgentId') || undefined,
+  })
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
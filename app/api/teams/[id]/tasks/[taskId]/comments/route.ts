@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listTaskComments, addTaskCommentToTask } from '@/services/teams-service'
+
+// GET /api/teams/[id]/tasks/[taskId]/comments - Threaded comments on a task
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  const { id, taskId } = await params
+  const result = listTaskComments(id, taskId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
+
+// POST /api/teams/[id]/tasks/[taskId]/comments - Post a comment or reply
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  const { id, taskId } = await params
+  const body = await request.json()
+  const result = addTaskCommentToTask(id, taskId, body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
@@ -1,5 +1,19 @@
 import { NextRequest, NextResponse } from 'next/server'
-import { updateTeamTask, deleteTeamTask } from '@/services/teams-service'
+import { getTeamTask, updateTeamTask, deleteTeamTask } from '@/services/teams-service'
+
+// GET /api/teams/[id]/tasks/[taskId] - Get a single task
+export async function GET(
+  _request: NextRequest,
+  { params }: { params: Promise<{ id: string; taskId: string }> }
+) {
+  const { id, taskId } = await params
+  const result = getTeamTask(id, taskId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
 
 // PUT /api/teams/[id]/tasks/[taskId] - Update a task
 export async function PUT(
@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { exportTeamPlan } from '@/services/teams-service'
+
+// POST /api/teams/[id]/tasks/export - Save the board as a markdown plan document
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const body = await request.json().catch(() => ({}))
+  const result = exportTeamPlan(id, body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
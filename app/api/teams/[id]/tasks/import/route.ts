@@ -0,0 +1,17 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { importTeamPlan } from '@/services/teams-service'
+
+// POST /api/teams/[id]/tasks/import - Bulk-create tasks from a markdown/JSON/YAML plan
+export async function POST(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const body = await request.json()
+  const result = importTeamPlan(id, body)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data, { status: result.status })
+}
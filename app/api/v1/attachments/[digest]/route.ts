@@ -0,0 +1,26 @@
+/**
+ * AMP v1 Attachment Download
+ *
+ * GET /api/v1/attachments/:digest?name=<file name>
+ *
+ * Thin wrapper - business logic in services/amp-service.ts
+ */
+
+import { NextRequest, NextResponse } from 'next/server'
+import { getAttachment } from '@/services/amp-service'
+
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ digest: string }> }
+) {
+  const authHeader = request.headers.get('Authorization')
+  const { digest } = await params
+  const { searchParams } = new URL(request.url)
+
+  const result = await getAttachment(authHeader, digest, searchParams.get('name'))
+  if (result.status !== 200 || !result.data || !('data' in result.data)) {
+    return NextResponse.json(result.data!, { status: result.status })
+  }
+
+  return new Response(new Uint8Array(result.data.data), { headers: result.headers })
+}
@@ -8,13 +8,17 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { deliverFederated } from '@/services/amp-service'
+import { readMeshHeaders } from '@/lib/mesh-auth'
 
 export async function POST(request: NextRequest) {
   const providerName = request.headers.get('X-AMP-Provider')
 
-  const body = await request.json()
+  // Keep the raw body so deliveries from mesh hosts can be verified
+  const raw = await request.text()
+  const body = JSON.parse(raw || '{}')
+  const mesh = { headers: readMeshHeaders(name => request.headers.get(name)), body: raw }
 
-  const result = await deliverFederated(providerName, body)
+  const result = await deliverFederated(providerName, body, mesh)
   return NextResponse.json(result.data!, {
     status: result.status,
     headers: result.headers
@@ -9,6 +9,7 @@
 
 import { NextRequest, NextResponse } from 'next/server'
 import { routeMessage } from '@/services/amp-service'
+import { readMeshHeaders } from '@/lib/mesh-auth'
 import type { AMPRouteRequest, AMPRouteResponse, AMPError } from '@/lib/types/amp'
 
 export async function POST(request: NextRequest): Promise<NextResponse<AMPRouteResponse | AMPError>> {
@@ -18,9 +19,12 @@ export async function POST(request: NextRequest): Promise<NextResponse<AMPRouteR
   const signatureHeader = request.headers.get('X-AMP-Signature')
   const contentLength = request.headers.get('Content-Length')
 
-  const body = await request.json() as AMPRouteRequest
+  // Keep the raw body so mesh-forwarded requests can be verified
+  const raw = await request.text()
+  const body = JSON.parse(raw || '{}') as AMPRouteRequest
+  const mesh = { headers: readMeshHeaders(name => request.headers.get(name)), body: raw }
 
-  const result = await routeMessage(body, authHeader, forwardedFrom, envelopeIdHeader, signatureHeader, contentLength)
+  const result = await routeMessage(body, authHeader, forwardedFrom, envelopeIdHeader, signatureHeader, contentLength, mesh)
   return NextResponse.json(result.data!, {
     status: result.status,
     headers: result.headers
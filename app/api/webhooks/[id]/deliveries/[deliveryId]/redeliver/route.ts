@@ -0,0 +1,19 @@
+import { NextResponse } from 'next/server'
+import { redeliverWebhookDelivery } from '@/services/webhooks-service'
+
+/**
+ * POST /api/webhooks/[id]/deliveries/[deliveryId]/redeliver
+ * Re-send a past delivery's request body as a new delivery
+ */
+export async function POST(
+  _request: Request,
+  { params }: { params: Promise<{ id: string; deliveryId: string }> }
+) {
+  const { id, deliveryId } = await params
+  const result = await redeliverWebhookDelivery(id, deliveryId)
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
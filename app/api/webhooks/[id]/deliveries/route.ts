@@ -0,0 +1,27 @@
+import { NextRequest, NextResponse } from 'next/server'
+import { listWebhookDeliveriesById } from '@/services/webhooks-service'
+
+/**
+ * GET /api/webhooks/[id]/deliveries
+ * List delivery history (request body, response code, latency per attempt)
+ *
+ * Query: ?status=pending|retrying|delivered|dead&limit=N
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  const { id } = await params
+  const { searchParams } = new URL(request.url)
+  const limit = searchParams.get('limit')
+
+  const result = listWebhookDeliveriesById(id, {
+    status: searchParams.get('status') || undefined,
+    limit: limit ? parseInt(limit, 10) : undefined,
+  })
+
+  if (result.error) {
+    return NextResponse.json({ error: result.error }, { status: result.status })
+  }
+  return NextResponse.json(result.data)
+}
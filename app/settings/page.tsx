@@ -5,6 +5,7 @@ import SettingsSidebar from '@/components/SettingsSidebar'
 import HostsSection from '@/components/settings/HostsSection'
 import DomainsSection from '@/components/settings/DomainsSection'
 import WebhooksSection from '@/components/settings/WebhooksSection'
+import AccessControlSection from '@/components/settings/AccessControlSection'
 import HelpSection from '@/components/settings/HelpSection'
 import AboutSection from '@/components/settings/AboutSection'
 import OnboardingSection from '@/components/settings/OnboardingSection'
@@ -15,7 +16,7 @@ import Link from 'next/link'
 import { ArrowLeft } from 'lucide-react'
 
 export default function SettingsPage() {
-  const [activeSection, setActiveSection] = useState<'hosts' | 'domains' | 'webhooks' | 'help' | 'about' | 'onboarding' | 'experiments' | 'marketplace'>('hosts')
+  const [activeSection, setActiveSection] = useState<'hosts' | 'domains' | 'webhooks' | 'access' | 'help' | 'about' | 'onboarding' | 'experiments' | 'marketplace'>('hosts')
 
   return (
     <div className="flex flex-col h-screen bg-gray-950 text-white">
@@ -42,6 +43,7 @@ export default function SettingsPage() {
           {activeSection === 'hosts' && <HostsSection />}
           {activeSection === 'domains' && <DomainsSection />}
           {activeSection === 'webhooks' && <WebhooksSection />}
+          {activeSection === 'access' && <AccessControlSection />}
           {activeSection === 'marketplace' && <MarketplaceSection />}
           {activeSection === 'experiments' && <ExperimentsSection />}
           {activeSection === 'onboarding' && <OnboardingSection />}
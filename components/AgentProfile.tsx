@@ -19,6 +19,7 @@ import SkillsSection from './SkillsSection'
 import { AgentSkillEditor } from './marketplace'
 import AvatarPicker from './AvatarPicker'
 import EmailAddressesSection from './EmailAddressesSection'
+import InboxRulesSection from './InboxRulesSection'
 
 interface AgentProfileProps {
   isOpen: boolean
@@ -59,6 +60,7 @@ export default function AgentProfile({ isOpen, onClose, agentId, sessionStatus,
     work: true,
     deployment: true,
     email: false,
+    inboxRules: false,
     repositories: false,
     memory: false,
     installedSkills: false,
@@ -697,6 +699,14 @@ export default function AgentProfile({ isOpen, onClose, agentId, sessionStatus,
                 onToggle={() => toggleSection('email')}
               />
 
+              {/* Inbox Rules Section */}
+              <InboxRulesSection
+                agentId={agent.id}
+                hostUrl={hostUrl}
+                isExpanded={expandedSections.inboxRules}
+                onToggle={() => toggleSection('inboxRules')}
+              />
+
               {/* Repositories Section */}
               <section>
                 <button
@@ -1,7 +1,7 @@
 'use client'
 
 import { useState, useEffect, useRef } from 'react'
-import { X, Clock, FileCode, GitBranch, MessageSquare, Wrench, ChevronRight, User, Bot, Terminal, Sparkles, List, MessageCircle, Search, ChevronUp, ChevronDown, Copy, Check } from 'lucide-react'
+import { X, Clock, FileCode, GitBranch, MessageSquare, Wrench, ChevronRight, User, Bot, Terminal, Sparkles, List, MessageCircle, Search, ChevronUp, ChevronDown, Copy, Check, HelpCircle } from 'lucide-react'
 
 interface ConversationDetailPanelProps {
   conversationFile: string
@@ -42,6 +42,21 @@ interface Message {
   thinking?: string
 }
 
+interface SearchExplanation {
+  lexical_score: number
+  lexical_rank: number | null
+  vector_score: number | null
+  vector_rank: number | null
+  fused_score: number
+  fused_rank: number
+  fusion: 'rrf' | 'weighted'
+  matched_terms: string[]
+  reranker: 'none' | 'bm25' | 'cross-encoder'
+  rerank_score: number | null
+  matched_symbols: string[]
+  final_rank: number
+}
+
 interface ConversationMetadata {
   sessionId?: string
   cwd?: string
@@ -66,8 +81,10 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
   const [currentMatchIndex, setCurrentMatchIndex] = useState(0)
   const [copiedMessageIndex, setCopiedMessageIndex] = useState<number | null>(null)
   const [useSemanticSearch, setUseSemanticSearch] = useState(false)
-  const [semanticResults, setSemanticResults] = useState<Array<{msg_id: string, score: number, index: number}>>([])
+  const [semanticResults, setSemanticResults] = useState<Array<{msg_id: string, score: number, index: number, explain?: SearchExplanation}>>([])
   const [isSearching, setIsSearching] = useState(false)
+  const [reranker, setReranker] = useState<'none' | 'bm25' | 'cross-encoder'>('bm25')
+  const [showExplain, setShowExplain] = useState(false)
   const messageRefs = useRef<{ [key: number]: HTMLDivElement | null }>({})
   const scrollContainerRef = useRef<HTMLDivElement>(null)
 
@@ -451,7 +468,7 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
 
     setIsSearching(true)
     try {
-      const response = await fetch(`${hostUrl}/api/agents/${agentId}/search?q=${encodeURIComponent(query)}&conversation_file=${encodeURIComponent(conversationFile)}&limit=50`)
+      const response = await fetch(`${hostUrl}/api/agents/${agentId}/search?q=${encodeURIComponent(query)}&conversation_file=${encodeURIComponent(conversationFile)}&limit=50&rerank=${reranker}&explain=true`)
       if (response.ok) {
         const data = await response.json()
         // Map results to message indices
@@ -461,7 +478,7 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
             const msgText = getSearchableText(msg)
             return msgText === result.text.toLowerCase()
           })
-          return { msg_id: result.msg_id, score: result.score, index }
+          return { msg_id: result.msg_id, score: result.score, index, explain: result.explain }
         }).filter((r: any) => r.index !== -1)
 
         setSemanticResults(results)
@@ -481,7 +498,7 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
     } else {
       setSemanticResults([])
     }
-  }, [searchQuery, useSemanticSearch, agentId, conversationFile, messages])
+  }, [searchQuery, useSemanticSearch, reranker, agentId, conversationFile, messages])
 
   // Check if a message matches the search query
   const messageMatchesSearch = (message: Message): boolean => {
@@ -500,6 +517,7 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
     : []
 
   const totalMatches = matchIndices.length
+  const currentExplain = useSemanticSearch ? semanticResults[currentMatchIndex]?.explain : undefined
 
   const goToNextMatch = () => {
     if (totalMatches > 0) {
@@ -659,6 +677,18 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
               <span>{useSemanticSearch ? 'AI Search' : 'Text Search'}</span>
             </button>
           )}
+          {agentId && useSemanticSearch && (
+            <select
+              value={reranker}
+              onChange={(e) => setReranker(e.target.value as typeof reranker)}
+              className="px-2 py-2 bg-gray-800 border border-gray-700 rounded-lg text-xs text-gray-300 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              title="Reranking applied to AI search results"
+            >
+              <option value="none">No rerank</option>
+              <option value="bm25">BM25 + symbols</option>
+              <option value="cross-encoder">Cross-encoder</option>
+            </select>
+          )}
           {searchQuery && (
             <>
               <div className="flex items-center gap-1 text-xs text-gray-400 min-w-[80px] justify-end">
@@ -685,10 +715,62 @@ export default function ConversationDetailPanel({ conversationFile, projectPath,
                 >
                   <ChevronDown className="w-4 h-4" />
                 </button>
+                {currentExplain && (
+                  <button
+                    onClick={() => setShowExplain(!showExplain)}
+                    className={`p-1.5 rounded transition-colors ${
+                      showExplain ? 'text-purple-300 bg-purple-900/40' : 'text-gray-400 hover:text-white hover:bg-gray-700'
+                    }`}
+                    title="Why this result?"
+                  >
+                    <HelpCircle className="w-4 h-4" />
+                  </button>
+                )}
               </div>
             </>
           )}
         </div>
+
+        {/* Why this result */}
+        {showExplain && currentExplain && (
+          <div className="px-3 py-2 bg-gray-800/60 border border-gray-700 rounded-lg text-xs text-gray-300 space-y-1.5">
+            <div className="flex items-center justify-between">
+              <span className="font-medium text-purple-300">Why this result (rank {currentExplain.final_rank})</span>
+              <span className="text-gray-500">
+                {currentExplain.fusion === 'rrf' ? 'Reciprocal rank fusion' : 'Weighted fusion'}
+                {currentExplain.reranker !== 'none' && ` + ${currentExplain.reranker} rerank`}
+              </span>
+            </div>
+            <div className="grid grid-cols-4 gap-2 font-mono">
+              <div>
+                <div className="text-gray-500">Lexical</div>
+                <div>{currentExplain.lexical_score.toFixed(2)}{currentExplain.lexical_rank !== null && <span className="text-gray-500"> #{currentExplain.lexical_rank}</span>}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Vector</div>
+                <div>{currentExplain.vector_score !== null ? currentExplain.vector_score.toFixed(3) : '—'}{currentExplain.vector_rank !== null && <span className="text-gray-500"> #{currentExplain.vector_rank}</span>}</div>
+              </div>
+              <div>
+                <div className="text-gray-500">Fused</div>
+                <div>{currentExplain.fused_score.toFixed(4)}<span className="text-gray-500"> #{currentExplain.fused_rank}</span></div>
+              </div>
+              <div>
+                <div className="text-gray-500">Rerank</div>
+                <div>{currentExplain.rerank_score !== null ? currentExplain.rerank_score.toFixed(3) : '—'}</div>
+              </div>
+            </div>
+            {(currentExplain.matched_terms.length > 0 || currentExplain.matched_symbols.length > 0) && (
+              <div className="flex flex-wrap gap-1">
+                {currentExplain.matched_terms.map(term => (
+                  <span key={`t-${term}`} className="px-1.5 py-0.5 bg-yellow-400/20 text-yellow-200 rounded">{term}</span>
+                ))}
+                {currentExplain.matched_symbols.map(symbol => (
+                  <span key={`s-${symbol}`} className="px-1.5 py-0.5 bg-blue-500/20 text-blue-200 rounded font-mono">{symbol}</span>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
       </div>
 
       {/* Metadata */}
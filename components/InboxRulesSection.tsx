@@ -0,0 +1,453 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Filter, Plus, Trash2, Pencil, RefreshCw, X,
+  ChevronDown, ChevronRight, AlertCircle, ToggleLeft, ToggleRight
+} from 'lucide-react'
+import type { InboxRule, InboxRuleActions, InboxRuleConditions, InboxRulePriority } from '@/types/inbox-rule'
+
+interface InboxRulesSectionProps {
+  agentId: string
+  hostUrl?: string
+  isExpanded: boolean
+  onToggle: () => void
+}
+
+type ContentType = NonNullable<InboxRuleConditions['contentTypes']>[number]
+
+const PRIORITIES: InboxRulePriority[] = ['low', 'normal', 'high', 'urgent']
+const CONTENT_TYPES: ContentType[] = ['request', 'response', 'notification', 'alert', 'task', 'status', 'handoff', 'ack', 'update', 'system']
+
+interface RuleForm {
+  name: string
+  from: string
+  subjectPattern: string
+  priorities: InboxRulePriority[]
+  contentTypes: ContentType[]
+  fromVerified: '' | 'true' | 'false'
+  archive: boolean
+  markRead: boolean
+  suppressNotification: boolean
+  forwardTo: string
+  escalatePriority: '' | InboxRulePriority
+  webhookUrl: string
+}
+
+const EMPTY_FORM: RuleForm = {
+  name: '',
+  from: '',
+  subjectPattern: '',
+  priorities: [],
+  contentTypes: [],
+  fromVerified: '',
+  archive: false,
+  markRead: false,
+  suppressNotification: false,
+  forwardTo: '',
+  escalatePriority: '',
+  webhookUrl: '',
+}
+
+function ruleToForm(rule: InboxRule): RuleForm {
+  const { conditions: c, actions: a } = rule
+  return {
+    name: rule.name,
+    from: c.from || '',
+    subjectPattern: c.subjectPattern || '',
+    priorities: c.priorities || [],
+    contentTypes: c.contentTypes || [],
+    fromVerified: c.fromVerified === undefined ? '' : c.fromVerified ? 'true' : 'false',
+    archive: !!a.archive,
+    markRead: !!a.markRead,
+    suppressNotification: !!a.suppressNotification,
+    forwardTo: a.forwardTo || '',
+    escalatePriority: a.escalatePriority || '',
+    webhookUrl: a.webhookUrl || '',
+  }
+}
+
+function formToBody(form: RuleForm) {
+  const conditions: InboxRuleConditions = {}
+  if (form.from.trim()) conditions.from = form.from.trim()
+  if (form.subjectPattern) conditions.subjectPattern = form.subjectPattern
+  if (form.priorities.length > 0) conditions.priorities = form.priorities
+  if (form.contentTypes.length > 0) conditions.contentTypes = form.contentTypes
+  if (form.fromVerified) conditions.fromVerified = form.fromVerified === 'true'
+
+  const actions: InboxRuleActions = {
+    archive: form.archive,
+    markRead: form.markRead,
+    suppressNotification: form.suppressNotification,
+  }
+  if (form.forwardTo) actions.forwardTo = form.forwardTo
+  if (form.escalatePriority) actions.escalatePriority = form.escalatePriority
+  if (form.webhookUrl.trim()) actions.webhookUrl = form.webhookUrl.trim()
+
+  return { name: form.name, conditions, actions }
+}
+
+function toggleItem<T>(list: T[], item: T): T[] {
+  return list.includes(item) ? list.filter(i => i !== item) : [...list, item]
+}
+
+export default function InboxRulesSection({
+  agentId,
+  hostUrl,
+  isExpanded,
+  onToggle
+}: InboxRulesSectionProps) {
+  const baseUrl = hostUrl || ''
+  const [rules, setRules] = useState<InboxRule[]>([])
+  const [agents, setAgents] = useState<{ id: string; name: string; label?: string }[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [saving, setSaving] = useState(false)
+  // null = form closed, 'new' = creating, otherwise the ID of the rule being edited
+  const [editing, setEditing] = useState<string | null>(null)
+  const [form, setForm] = useState<RuleForm>(EMPTY_FORM)
+
+  // Fetch rules and the agents that can be forwarded to
+  const fetchRules = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const [rulesResponse, agentsResponse] = await Promise.all([
+        fetch(`${baseUrl}/api/agents/${agentId}/inbox-rules`),
+        fetch(`${baseUrl}/api/agents`),
+      ])
+      if (rulesResponse.ok) {
+        const data = await rulesResponse.json()
+        setRules(data.rules || [])
+      } else {
+        const err = await rulesResponse.json()
+        setError(err.error || 'Failed to load inbox rules')
+      }
+      if (agentsResponse.ok) {
+        const data = await agentsResponse.json()
+        setAgents((data.agents || []).filter((a: { id: string }) => a.id !== agentId))
+      }
+    } catch (err) {
+      setError('Failed to connect to server')
+    } finally {
+      setLoading(false)
+    }
+  }, [baseUrl, agentId])
+
+  useEffect(() => {
+    if (isExpanded && agentId) {
+      fetchRules()
+    }
+  }, [isExpanded, agentId, fetchRules])
+
+  const openForm = (rule?: InboxRule) => {
+    setError(null)
+    setEditing(rule ? rule.id : 'new')
+    setForm(rule ? ruleToForm(rule) : EMPTY_FORM)
+  }
+
+  // Create or update a rule; both endpoints return the full rule list
+  const saveRule = async (ruleId: string | null, body: Record<string, unknown>) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(
+        ruleId
+          ? `${baseUrl}/api/agents/${agentId}/inbox-rules/${ruleId}`
+          : `${baseUrl}/api/agents/${agentId}/inbox-rules`,
+        {
+          method: ruleId ? 'PATCH' : 'POST',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify(body)
+        }
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        setRules(data.rules || [])
+        return true
+      }
+      const err = await response.json()
+      setError(err.error || 'Failed to save inbox rule')
+    } catch (err) {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+    return false
+  }
+
+  const handleSubmit = async () => {
+    const saved = await saveRule(editing === 'new' ? null : editing, formToBody(form))
+    if (saved) setEditing(null)
+  }
+
+  const handleDelete = async (ruleId: string) => {
+    setSaving(true)
+    setError(null)
+    try {
+      const response = await fetch(`${baseUrl}/api/agents/${agentId}/inbox-rules/${ruleId}`, { method: 'DELETE' })
+      if (response.ok) {
+        const data = await response.json()
+        setRules(data.rules || [])
+        if (editing === ruleId) setEditing(null)
+      } else {
+        const err = await response.json()
+        setError(err.error || 'Failed to delete inbox rule')
+      }
+    } catch (err) {
+      setError('Failed to connect to server')
+    } finally {
+      setSaving(false)
+    }
+  }
+
+  const agentName = (id: string) => {
+    const agent = agents.find(a => a.id === id)
+    return agent ? (agent.label || agent.name) : id
+  }
+
+  const describeRule = (rule: InboxRule) => {
+    const { conditions: c, actions: a } = rule
+    const when = [
+      c.from && `from ${c.from}`,
+      c.subjectPattern && `subject /${c.subjectPattern}/`,
+      c.priorities && `priority ${c.priorities.join('/')}`,
+      c.contentTypes && `type ${c.contentTypes.join('/')}`,
+      c.fromVerified !== undefined && (c.fromVerified ? 'verified sender' : 'unverified sender'),
+    ].filter(Boolean)
+    const then = [
+      a.archive && 'archive',
+      a.markRead && 'mark read',
+      a.suppressNotification && 'no notification',
+      a.escalatePriority && `escalate to ${a.escalatePriority}`,
+      a.forwardTo && `forward to ${agentName(a.forwardTo)}`,
+      a.webhookUrl && 'webhook',
+    ].filter(Boolean)
+    return `${when.length > 0 ? when.join(', ') : 'any message'} → ${then.join(', ')}`
+  }
+
+  const checkbox = (label: string, checked: boolean, onChange: () => void) => (
+    <label key={label} className="flex items-center gap-1.5 text-xs text-gray-300 cursor-pointer">
+      <input type="checkbox" checked={checked} onChange={onChange} className="accent-purple-500" />
+      {label}
+    </label>
+  )
+
+  const inputClass = 'w-full px-3 py-1.5 bg-gray-900 border border-gray-700 rounded text-sm text-gray-100 focus:outline-none focus:border-purple-500'
+
+  return (
+    <section>
+      {/* Section Header */}
+      <button
+        onClick={onToggle}
+        className="flex items-center gap-2 text-xs font-bold uppercase tracking-wider text-gray-500 mb-4 hover:text-gray-400 transition-all w-full"
+      >
+        {isExpanded ? (
+          <ChevronDown className="w-4 h-4" />
+        ) : (
+          <ChevronRight className="w-4 h-4" />
+        )}
+        <Filter className="w-4 h-4" />
+        Inbox Rules
+        {rules.length > 0 && (
+          <span className="ml-1 px-1.5 py-0.5 text-xs bg-purple-500/20 text-purple-400 rounded">
+            {rules.length}
+          </span>
+        )}
+      </button>
+
+      {isExpanded && (
+        <div className="space-y-3">
+          {/* Error message */}
+          {error && (
+            <div className="flex items-center gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-sm text-red-300">
+              <AlertCircle className="w-4 h-4 flex-shrink-0" />
+              <span>{error}</span>
+              <button
+                onClick={() => setError(null)}
+                className="ml-auto hover:text-red-200"
+              >
+                <X className="w-4 h-4" />
+              </button>
+            </div>
+          )}
+
+          {loading ? (
+            <div className="flex items-center gap-2 text-gray-400 text-sm p-4 bg-gray-800/50 rounded-lg">
+              <RefreshCw className="w-4 h-4 animate-spin" />
+              Loading inbox rules...
+            </div>
+          ) : (
+            <>
+              {rules.length === 0 && editing === null && (
+                <p className="text-xs text-gray-500 px-1">
+                  No inbox rules. Rules run on every incoming message, in order, and all matching rules apply.
+                </p>
+              )}
+
+              {/* Rule list */}
+              {rules.map((rule) => (
+                <div
+                  key={rule.id}
+                  className={`bg-gray-800/50 rounded-lg p-3 border border-gray-700 hover:border-gray-600 transition-all group ${
+                    rule.enabled ? '' : 'opacity-60'
+                  }`}
+                >
+                  <div className="flex items-start gap-3">
+                    <button
+                      onClick={() => saveRule(rule.id, { enabled: !rule.enabled })}
+                      disabled={saving}
+                      className="mt-0.5 text-gray-400 hover:text-purple-400 transition-all"
+                      title={rule.enabled ? 'Disable rule' : 'Enable rule'}
+                    >
+                      {rule.enabled ? (
+                        <ToggleRight className="w-5 h-5 text-purple-400" />
+                      ) : (
+                        <ToggleLeft className="w-5 h-5" />
+                      )}
+                    </button>
+                    <div className="flex-1 min-w-0">
+                      <div className="text-sm text-gray-100 truncate">{rule.name}</div>
+                      <div className="text-xs text-gray-400 break-words">{describeRule(rule)}</div>
+                    </div>
+                    {/* Actions */}
+                    <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+                      <button
+                        onClick={() => openForm(rule)}
+                        disabled={saving}
+                        className="p-2 rounded-lg hover:bg-gray-700 text-gray-400 hover:text-purple-400 transition-all"
+                        title="Edit rule"
+                      >
+                        <Pencil className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule.id)}
+                        disabled={saving}
+                        className="p-2 rounded-lg hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-all"
+                        title="Delete rule"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </div>
+                </div>
+              ))}
+
+              {/* Rule editor */}
+              {editing !== null ? (
+                <div className="bg-gray-800/50 rounded-lg p-4 border border-purple-500/40 space-y-4">
+                  <input
+                    value={form.name}
+                    onChange={(e) => setForm({ ...form, name: e.target.value })}
+                    placeholder="Rule name"
+                    className={inputClass}
+                  />
+
+                  <div className="space-y-2">
+                    <div className="text-xs font-medium text-gray-400">When a message matches</div>
+                    <input
+                      value={form.from}
+                      onChange={(e) => setForm({ ...form, from: e.target.value })}
+                      placeholder="From (name or address, * wildcards)"
+                      className={inputClass}
+                    />
+                    <input
+                      value={form.subjectPattern}
+                      onChange={(e) => setForm({ ...form, subjectPattern: e.target.value })}
+                      placeholder="Subject regex (case-insensitive)"
+                      className={`${inputClass} font-mono`}
+                    />
+                    <div className="flex flex-wrap gap-3">
+                      <span className="text-xs text-gray-500">Priority:</span>
+                      {PRIORITIES.map(p => checkbox(p, form.priorities.includes(p), () =>
+                        setForm({ ...form, priorities: toggleItem(form.priorities, p) })
+                      ))}
+                    </div>
+                    <div className="flex flex-wrap gap-3">
+                      <span className="text-xs text-gray-500">Type:</span>
+                      {CONTENT_TYPES.map(t => checkbox(t, form.contentTypes.includes(t), () =>
+                        setForm({ ...form, contentTypes: toggleItem(form.contentTypes, t) })
+                      ))}
+                    </div>
+                    <select
+                      value={form.fromVerified}
+                      onChange={(e) => setForm({ ...form, fromVerified: e.target.value as RuleForm['fromVerified'] })}
+                      className={inputClass}
+                    >
+                      <option value="">Any sender</option>
+                      <option value="true">Verified (signed) senders only</option>
+                      <option value="false">Unverified senders only</option>
+                    </select>
+                  </div>
+
+                  <div className="space-y-2">
+                    <div className="text-xs font-medium text-gray-400">Then</div>
+                    <div className="flex flex-wrap gap-3">
+                      {checkbox('Archive', form.archive, () => setForm({ ...form, archive: !form.archive }))}
+                      {checkbox('Mark read', form.markRead, () => setForm({ ...form, markRead: !form.markRead }))}
+                      {checkbox('Suppress notification', form.suppressNotification, () =>
+                        setForm({ ...form, suppressNotification: !form.suppressNotification })
+                      )}
+                    </div>
+                    <select
+                      value={form.escalatePriority}
+                      onChange={(e) => setForm({ ...form, escalatePriority: e.target.value as RuleForm['escalatePriority'] })}
+                      className={inputClass}
+                    >
+                      <option value="">Keep priority</option>
+                      {PRIORITIES.filter(p => p !== 'low').map(p => (
+                        <option key={p} value={p}>Escalate to at least {p}</option>
+                      ))}
+                    </select>
+                    <select
+                      value={form.forwardTo}
+                      onChange={(e) => setForm({ ...form, forwardTo: e.target.value })}
+                      className={inputClass}
+                    >
+                      <option value="">Don&apos;t forward</option>
+                      {agents.map(a => (
+                        <option key={a.id} value={a.id}>Forward to {a.label || a.name}</option>
+                      ))}
+                    </select>
+                    <input
+                      value={form.webhookUrl}
+                      onChange={(e) => setForm({ ...form, webhookUrl: e.target.value })}
+                      placeholder="Webhook URL (optional)"
+                      className={inputClass}
+                    />
+                  </div>
+
+                  <div className="flex justify-end gap-2">
+                    <button
+                      onClick={() => setEditing(null)}
+                      disabled={saving}
+                      className="px-4 py-2 rounded-lg text-sm text-gray-400 hover:text-gray-200 hover:bg-gray-700 transition-all"
+                    >
+                      Cancel
+                    </button>
+                    <button
+                      onClick={handleSubmit}
+                      disabled={saving || !form.name.trim()}
+                      className="px-4 py-2 bg-purple-600 hover:bg-purple-500 disabled:opacity-50 text-white rounded-lg text-sm font-medium transition-all"
+                    >
+                      {saving ? 'Saving...' : editing === 'new' ? 'Add Rule' : 'Save Rule'}
+                    </button>
+                  </div>
+                </div>
+              ) : (
+                <button
+                  onClick={() => openForm()}
+                  className="flex items-center gap-2 px-4 py-2 border border-dashed border-gray-600 rounded-lg text-sm text-gray-400 hover:border-purple-500 hover:text-purple-400 transition-all w-full justify-center"
+                >
+                  <Plus className="w-4 h-4" />
+                  Add Inbox Rule
+                </button>
+              )}
+            </>
+          )}
+        </div>
+      )}
+    </section>
+  )
+}
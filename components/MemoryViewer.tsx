@@ -4,8 +4,10 @@ import React, { useState, useEffect, useRef, useCallback } from 'react'
 import {
   Brain, List, Share2, Search, Filter, Edit2, Trash2, Save, X,
   ChevronDown, RefreshCw, Lightbulb, Settings, FileText, Heart,
-  GitBranch, Zap, ArrowRight, Clock, TrendingUp, AlertCircle, Play
+  GitBranch, Zap, ArrowRight, Clock, TrendingUp, AlertCircle, Play,
+  GitCompare, Check, MessageSquare, Pin, PinOff
 } from 'lucide-react'
+import ConversationDetailPanel from './ConversationDetailPanel'
 
 // Types
 interface Memory {
@@ -18,6 +20,7 @@ interface Memory {
   reinforcement_count: number
   created_at?: number
   access_count?: number
+  pinned?: boolean
   related?: Array<{
     memory_id: string
     relationship: string
@@ -46,6 +49,27 @@ interface GraphLink {
   relationship: string
 }
 
+interface ConflictMemory {
+  memory_id: string
+  category: string
+  tier: string
+  content: string
+  context: string | null
+  confidence: number
+  reinforcement_count: number
+  created_at: number
+  source_conversations: string[]
+}
+
+interface MemoryConflict {
+  conflict_id: string
+  relationship: string
+  suggested_winner: string
+  status: string
+  detected_at: number
+  memories: { a: ConflictMemory; b: ConflictMemory }
+}
+
 interface MemoryStats {
   total_memories: number
   by_category: Record<string, number>
@@ -92,7 +116,7 @@ const RELATIONSHIP_COLORS: Record<string, string> = {
 }
 
 export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }: MemoryViewerProps) {
-  const [view, setView] = useState<'list' | 'graph'>('list')
+  const [view, setView] = useState<'list' | 'graph' | 'review'>('list')
   const [memories, setMemories] = useState<Memory[]>([])
   const [stats, setStats] = useState<MemoryStats | null>(null)
   const [loading, setLoading] = useState(true)
@@ -104,6 +128,7 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
     success: boolean
     memoriesCreated?: number
     memoriesReinforced?: number
+    conflictsDetected?: number
     error?: string
   } | null>(null)
 
@@ -116,6 +141,11 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
   // Graph state
   const [graphData, setGraphData] = useState<{ nodes: GraphNode[], links: GraphLink[] } | null>(null)
 
+  // Review state
+  const [conflicts, setConflicts] = useState<MemoryConflict[]>([])
+  const [resolvingConflict, setResolvingConflict] = useState<string | null>(null)
+  const [openConversation, setOpenConversation] = useState<string | null>(null)
+
   // Fetch memories
   const fetchMemories = useCallback(async () => {
     setLoading(true)
@@ -166,6 +196,19 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
     }
   }, [agentId, hostUrl])
 
+  // Fetch pending contradictions
+  const fetchConflicts = useCallback(async () => {
+    try {
+      const response = await fetch(`${hostUrl}/api/agents/${agentId}/memory/conflicts`)
+      if (response.ok) {
+        const data = await response.json()
+        setConflicts(data.conflicts || [])
+      }
+    } catch (error) {
+      console.error('Failed to fetch conflicts:', error)
+    }
+  }, [agentId, hostUrl])
+
   // Trigger consolidation
   const triggerConsolidation = async () => {
     setConsolidating(true)
@@ -181,6 +224,7 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
         success: data.success,
         memoriesCreated: data.memories_created,
         memoriesReinforced: data.memories_reinforced,
+        conflictsDetected: data.conflicts_detected,
         error: data.error
       })
 
@@ -188,6 +232,7 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
         // Refresh memories and stats after consolidation
         await fetchMemories()
         await fetchStats()
+        await fetchConflicts()
         if (view === 'graph') {
           await fetchGraph()
         }
@@ -205,7 +250,7 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
   // Only fetch when this agent is active (prevents API flood with many agents)
   useEffect(() => {
     if (!isActive) return
-    Promise.all([fetchMemories(), fetchStats()])
+    Promise.all([fetchMemories(), fetchStats(), fetchConflicts()])
   }, [agentId, isActive])
 
   // Fetch graph when view changes to graph
@@ -273,6 +318,44 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
     }
   }
 
+  // Handle pin toggle (pinned memories are exempt from decay)
+  const togglePin = async (memory: Memory) => {
+    try {
+      const response = await fetch(`${hostUrl}/api/agents/${agentId}/memory/long-term`, {
+        method: 'PATCH',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ id: memory.memory_id, pinned: !memory.pinned })
+      })
+
+      if (response.ok) {
+        await fetchMemories()
+      }
+    } catch (error) {
+      console.error('Failed to pin memory:', error)
+    }
+  }
+
+  // Handle conflict review
+  const resolveConflict = async (conflictId: string, action: 'accept' | 'reject', winnerId?: string) => {
+    setResolvingConflict(conflictId)
+    try {
+      const response = await fetch(`${hostUrl}/api/agents/${agentId}/memory/conflicts/${conflictId}`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ action, winnerId })
+      })
+
+      if (response.ok) {
+        await fetchConflicts()
+        await fetchMemories()
+      }
+    } catch (error) {
+      console.error('Failed to resolve conflict:', error)
+    } finally {
+      setResolvingConflict(null)
+    }
+  }
+
   const categories = Object.keys(CATEGORY_COLORS)
 
   return (
@@ -324,6 +407,7 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
               <TrendingUp className="w-4 h-4" />
               <span>
                 Created {consolidationResult.memoriesCreated || 0} memories, reinforced {consolidationResult.memoriesReinforced || 0}
+                {consolidationResult.conflictsDetected ? `, ${consolidationResult.conflictsDetected} contradictions to review` : ''}
               </span>
             </div>
           ) : (
@@ -384,6 +468,22 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
             <Share2 className="w-4 h-4" />
             Graph
           </button>
+          <button
+            onClick={() => setView('review')}
+            className={`flex items-center gap-2 px-4 py-2 rounded-lg font-medium text-sm transition-all ${
+              view === 'review'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-800 text-gray-400 hover:bg-gray-700'
+            }`}
+          >
+            <GitCompare className="w-4 h-4" />
+            Review
+            {conflicts.length > 0 && (
+              <span className="px-1.5 py-0.5 rounded-full bg-red-500/80 text-white text-xs leading-none">
+                {conflicts.length}
+              </span>
+            )}
+          </button>
         </div>
 
         <div className="flex items-center gap-2">
@@ -446,7 +546,7 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
 
           {/* Refresh */}
           <button
-            onClick={() => { fetchMemories(); fetchStats(); if (view === 'graph') fetchGraph(); }}
+            onClick={() => { fetchMemories(); fetchStats(); fetchConflicts(); if (view === 'graph') fetchGraph(); }}
             className="p-2 bg-gray-800 border border-gray-700 rounded-lg text-gray-400 hover:text-gray-200 hover:bg-gray-700 transition-all"
           >
             <RefreshCw className="w-4 h-4" />
@@ -461,12 +561,31 @@ export default function MemoryViewer({ agentId, hostUrl = '', isActive = false }
           loading={loading}
           onEdit={startEdit}
           onDelete={deleteMemory}
+          onTogglePin={togglePin}
         />
-      ) : (
+      ) : view === 'graph' ? (
         <MemoryGraph
           data={graphData}
           loading={loading}
         />
+      ) : (
+        <ConflictQueue
+          conflicts={conflicts}
+          resolving={resolvingConflict}
+          onResolve={resolveConflict}
+          onOpenConversation={setOpenConversation}
+        />
+      )}
+
+      {/* Source conversation of a memory under review */}
+      {openConversation && (
+        <ConversationDetailPanel
+          conversationFile={openConversation}
+          projectPath=""
+          agentId={agentId}
+          hostUrl={hostUrl}
+          onClose={() => setOpenConversation(null)}
+        />
       )}
 
       {/* Edit Modal */}
@@ -555,12 +674,14 @@ function MemoryList({
   memories,
   loading,
   onEdit,
-  onDelete
+  onDelete,
+  onTogglePin
 }: {
   memories: Memory[]
   loading: boolean
   onEdit: (memory: Memory) => void
   onDelete: (memoryId: string) => void
+  onTogglePin: (memory: Memory) => void
 }) {
   if (loading) {
     return (
@@ -616,6 +737,12 @@ function MemoryList({
                 <span className="text-xs text-gray-500">
                   {memory.tier}
                 </span>
+                {memory.pinned && (
+                  <span className="text-xs text-sky-400 flex items-center gap-1" title="Pinned memories never decay">
+                    <Pin className="w-3 h-3" />
+                    pinned
+                  </span>
+                )}
                 {memory.reinforcement_count > 1 && (
                   <span className="text-xs text-amber-400 flex items-center gap-1">
                     <TrendingUp className="w-3 h-3" />
@@ -667,6 +794,13 @@ function MemoryList({
 
             {/* Actions */}
             <div className="flex items-center gap-1 opacity-0 group-hover:opacity-100 transition-opacity">
+              <button
+                onClick={() => onTogglePin(memory)}
+                className="p-2 hover:bg-gray-700 rounded-lg transition-all text-gray-400 hover:text-sky-400"
+                title={memory.pinned ? 'Unpin memory' : 'Pin memory (never decays)'}
+              >
+                {memory.pinned ? <PinOff className="w-4 h-4" /> : <Pin className="w-4 h-4" />}
+              </button>
               <button
                 onClick={() => onEdit(memory)}
                 className="p-2 hover:bg-gray-700 rounded-lg transition-all text-gray-400 hover:text-blue-400"
@@ -689,6 +823,163 @@ function MemoryList({
   )
 }
 
+// Word-level diff between two memories (longest common subsequence)
+function diffWords(left: string, right: string): { left: Array<{ text: string; changed: boolean }>; right: Array<{ text: string; changed: boolean }> } {
+  const a = left.split(/(\s+)/)
+  const b = right.split(/(\s+)/)
+  const lcs: number[][] = Array.from({ length: a.length + 1 }, () => new Array(b.length + 1).fill(0))
+  for (let i = a.length - 1; i >= 0; i--) {
+    for (let j = b.length - 1; j >= 0; j--) {
+      lcs[i][j] = a[i] === b[j] ? lcs[i + 1][j + 1] + 1 : Math.max(lcs[i + 1][j], lcs[i][j + 1])
+    }
+  }
+
+  const leftParts: Array<{ text: string; changed: boolean }> = []
+  const rightParts: Array<{ text: string; changed: boolean }> = []
+  let i = 0
+  let j = 0
+  while (i < a.length && j < b.length) {
+    if (a[i] === b[j]) {
+      leftParts.push({ text: a[i], changed: false })
+      rightParts.push({ text: b[j], changed: false })
+      i++
+      j++
+    } else if (lcs[i + 1][j] >= lcs[i][j + 1]) {
+      leftParts.push({ text: a[i++], changed: true })
+    } else {
+      rightParts.push({ text: b[j++], changed: true })
+    }
+  }
+  while (i < a.length) leftParts.push({ text: a[i++], changed: true })
+  while (j < b.length) rightParts.push({ text: b[j++], changed: true })
+
+  return { left: leftParts, right: rightParts }
+}
+
+// Contradiction Review Queue Component
+function ConflictQueue({
+  conflicts,
+  resolving,
+  onResolve,
+  onOpenConversation
+}: {
+  conflicts: MemoryConflict[]
+  resolving: string | null
+  onResolve: (conflictId: string, action: 'accept' | 'reject', winnerId?: string) => void
+  onOpenConversation: (conversationFile: string) => void
+}) {
+  if (conflicts.length === 0) {
+    return (
+      <div className="flex flex-col items-center justify-center py-12 text-gray-400">
+        <Check className="w-12 h-12 mb-3 opacity-50" />
+        <p className="text-lg font-medium">No contradictions to review</p>
+        <p className="text-sm">Conflicting memories found during consolidation will appear here</p>
+      </div>
+    )
+  }
+
+  return (
+    <div className="space-y-4 max-h-[500px] overflow-y-auto pr-2">
+      {conflicts.map(conflict => {
+        const { a, b } = conflict.memories
+        // Older memory on the left, the newer one on the right
+        const [older, newer] = a.created_at <= b.created_at ? [a, b] : [b, a]
+        const diff = diffWords(older.content, newer.content)
+        const busy = resolving === conflict.conflict_id
+
+        return (
+          <div key={conflict.conflict_id} className="bg-gray-800/50 rounded-lg p-4 border border-gray-700">
+            <div className="flex items-center gap-2 mb-3 text-xs">
+              <span
+                className="font-medium px-2 py-0.5 rounded"
+                style={{
+                  backgroundColor: `${RELATIONSHIP_COLORS[conflict.relationship]}20`,
+                  color: RELATIONSHIP_COLORS[conflict.relationship]
+                }}
+              >
+                {conflict.relationship}
+              </span>
+              <span className="text-gray-500 flex items-center gap-1">
+                <Clock className="w-3 h-3" />
+                Detected {new Date(conflict.detected_at).toLocaleString()}
+              </span>
+            </div>
+
+            <div className="grid grid-cols-2 gap-3">
+              {[
+                { memory: older, parts: diff.left, label: 'Older', highlight: 'bg-red-500/20 text-red-300 line-through' },
+                { memory: newer, parts: diff.right, label: 'Newer', highlight: 'bg-green-500/20 text-green-300' }
+              ].map(({ memory, parts, label, highlight }) => (
+                <div
+                  key={memory.memory_id}
+                  className={`rounded-lg p-3 border flex flex-col ${
+                    memory.memory_id === conflict.suggested_winner ? 'border-blue-500/40 bg-blue-500/5' : 'border-gray-700 bg-gray-900/40'
+                  }`}
+                >
+                  <div className="flex items-center gap-2 mb-2 text-xs">
+                    <span className="text-gray-400 font-medium">{label}</span>
+                    <span style={{ color: CATEGORY_COLORS[memory.category] }}>{memory.category}</span>
+                    <span className="text-gray-500">{(memory.confidence * 100).toFixed(0)}%</span>
+                    {memory.reinforcement_count > 1 && (
+                      <span className="text-amber-400">{memory.reinforcement_count}x</span>
+                    )}
+                    {memory.memory_id === conflict.suggested_winner && (
+                      <span className="ml-auto text-blue-400">suggested</span>
+                    )}
+                  </div>
+
+                  <p className="text-gray-200 text-sm mb-2 whitespace-pre-wrap">
+                    {parts.map((part, index) => (
+                      <span key={index} className={part.changed && part.text.trim() ? highlight : undefined}>
+                        {part.text}
+                      </span>
+                    ))}
+                  </p>
+
+                  {memory.context && (
+                    <p className="text-gray-500 text-xs italic mb-2">Context: {memory.context}</p>
+                  )}
+
+                  <div className="mt-auto space-y-1">
+                    {memory.source_conversations.map(file => (
+                      <button
+                        key={file}
+                        onClick={() => onOpenConversation(file)}
+                        className="flex items-center gap-1 text-xs text-blue-400 hover:text-blue-300 truncate max-w-full"
+                        title={file}
+                      >
+                        <MessageSquare className="w-3 h-3 flex-shrink-0" />
+                        <span className="truncate">{file.split('/').pop()}</span>
+                      </button>
+                    ))}
+                    <button
+                      onClick={() => onResolve(conflict.conflict_id, 'accept', memory.memory_id)}
+                      disabled={busy}
+                      className="w-full mt-2 px-3 py-1.5 bg-blue-600 hover:bg-blue-500 disabled:opacity-50 text-white rounded-lg text-xs font-medium transition-all"
+                    >
+                      Keep this one
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+
+            <div className="flex justify-end mt-3">
+              <button
+                onClick={() => onResolve(conflict.conflict_id, 'reject')}
+                disabled={busy}
+                className="px-3 py-1.5 bg-gray-800 hover:bg-gray-700 disabled:opacity-50 text-gray-300 rounded-lg text-xs border border-gray-700 transition-all"
+              >
+                Not a contradiction — keep both
+              </button>
+            </div>
+          </div>
+        )
+      })}
+    </div>
+  )
+}
+
 // Force-Directed Graph Component
 function MemoryGraph({
   data,
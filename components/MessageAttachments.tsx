@@ -0,0 +1,156 @@
+'use client'
+
+import { useEffect, useState } from 'react'
+import { Download, Paperclip } from 'lucide-react'
+import type { AMPAttachment } from '@/lib/types/amp'
+
+interface MessageAttachmentsProps {
+  attachments?: AMPAttachment[]
+  /** Download URL of a stored attachment */
+  urlFor: (attachment: AMPAttachment) => string
+}
+
+const IMAGE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp'])
+const TEXT_TYPES = new Set(['text/plain', 'text/x-diff', 'application/json'])
+const MAX_TEXT_PREVIEW_BYTES = 256 * 1024
+const MAX_TEXT_PREVIEW_LINES = 400
+
+export function formatAttachmentSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+function isDiff(attachment: AMPAttachment): boolean {
+  return attachment.type === 'text/x-diff' || /\.(diff|patch)$/i.test(attachment.name)
+}
+
+function diffLineClass(line: string): string {
+  if (line.startsWith('+++') || line.startsWith('---')) return 'text-gray-400 font-semibold'
+  if (line.startsWith('@@')) return 'text-blue-400'
+  if (line.startsWith('+')) return 'text-green-400 bg-green-900/20'
+  if (line.startsWith('-')) return 'text-red-400 bg-red-900/20'
+  return 'text-gray-300'
+}
+
+/**
+ * Text preview (logs, diffs, JSON). Large files show their first lines only.
+ */
+function TextPreview({ attachment, url }: { attachment: AMPAttachment; url: string }) {
+  const [text, setText] = useState<string | null>(null)
+  const [error, setError] = useState<string | null>(null)
+
+  useEffect(() => {
+    let cancelled = false
+    fetch(url)
+      .then(async response => {
+        if (!response.ok) {
+          const body = await response.json().catch(() => ({}))
+          throw new Error(body.error || body.message || `HTTP ${response.status}`)
+        }
+        return response.text()
+      })
+      .then(body => { if (!cancelled) setText(body) })
+      .catch(err => { if (!cancelled) setError(err instanceof Error ? err.message : 'Failed to load preview') })
+    return () => { cancelled = true }
+  }, [url])
+
+  if (error) return <p className="text-xs text-red-400 px-3 py-2">{error}</p>
+  if (text === null) return <p className="text-xs text-gray-500 px-3 py-2">Loading preview...</p>
+
+  const lines = text.split('\n')
+  const shown = lines.slice(0, MAX_TEXT_PREVIEW_LINES)
+  const diff = isDiff(attachment)
+
+  return (
+    <pre className="max-h-96 overflow-auto p-3 text-xs font-mono bg-gray-900">
+      {shown.map((line, i) => (
+        <div key={i} className={diff ? diffLineClass(line) : 'text-gray-300'}>{line || ' '}</div>
+      ))}
+      {lines.length > shown.length && (
+        <div className="text-gray-500 mt-2">... {lines.length - shown.length} more lines - download to see the rest</div>
+      )}
+    </pre>
+  )
+}
+
+/**
+ * Files attached to a message, with inline previews for images, diffs and logs
+ */
+export default function MessageAttachments({ attachments, urlFor }: MessageAttachmentsProps) {
+  const [collapsed, setCollapsed] = useState<Set<string>>(new Set())
+
+  if (!attachments || attachments.length === 0) return null
+
+  const toggle = (key: string) => {
+    setCollapsed(prev => {
+      const next = new Set(prev)
+      if (next.has(key)) next.delete(key)
+      else next.add(key)
+      return next
+    })
+  }
+
+  return (
+    <div className="mt-4">
+      <h3 className="text-sm font-semibold text-gray-300 mb-2 flex items-center gap-1">
+        <Paperclip className="w-4 h-4" />
+        Attachments ({attachments.length})
+      </h3>
+      <div className="space-y-3">
+        {attachments.map((attachment, index) => {
+          const key = attachment.digest || `${attachment.name}-${index}`
+
+          // Legacy attachments are plain paths on the sender's host
+          if (!attachment.digest) {
+            return (
+              <div key={key} className="text-xs text-gray-400 px-3 py-2 bg-gray-800 rounded">
+                {attachment.name}
+                {(attachment.path || attachment.url) && (
+                  <span className="text-gray-600"> - {attachment.path || attachment.url}</span>
+                )}
+              </div>
+            )
+          }
+
+          const url = urlFor(attachment)
+          const previewable = IMAGE_TYPES.has(attachment.type) ||
+            (TEXT_TYPES.has(attachment.type) && (attachment.size || 0) <= MAX_TEXT_PREVIEW_BYTES)
+          const open = previewable && !collapsed.has(key)
+
+          return (
+            <div key={key} className="bg-gray-800 rounded-lg overflow-hidden">
+              <div className="flex items-center justify-between gap-2 px-3 py-2">
+                <button
+                  onClick={() => previewable && toggle(key)}
+                  className={`text-sm truncate text-left ${previewable ? 'text-gray-200 hover:text-white' : 'text-gray-300 cursor-default'}`}
+                  title={previewable ? (open ? 'Hide preview' : 'Show preview') : attachment.name}
+                >
+                  {attachment.name}
+                  {attachment.size !== undefined && (
+                    <span className="text-xs text-gray-500 ml-2">{formatAttachmentSize(attachment.size)}</span>
+                  )}
+                </button>
+                <a
+                  href={url}
+                  download={attachment.name}
+                  className="p-1 text-gray-400 hover:text-gray-200 flex-shrink-0"
+                  title="Download"
+                >
+                  <Download className="w-4 h-4" />
+                </a>
+              </div>
+              {open && IMAGE_TYPES.has(attachment.type) && (
+                // eslint-disable-next-line @next/next/no-img-element
+                <img src={url} alt={attachment.name} className="max-h-96 max-w-full mx-auto block bg-gray-900" />
+              )}
+              {open && TEXT_TYPES.has(attachment.type) && (
+                <TextPreview attachment={attachment} url={url} />
+              )}
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -1,8 +1,27 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Mail, Send, Inbox, Archive, Trash2, AlertCircle, Clock, CheckCircle, Forward, Copy, ChevronDown, Server, ShieldCheck, Globe, HelpCircle } from 'lucide-react'
-import type { Message, MessageSummary } from '@/lib/messageQueue'
+import { Mail, Send, Inbox, Archive, Trash2, AlertCircle, Clock, CheckCircle, Forward, Copy, ChevronDown, Server, ShieldCheck, Globe, HelpCircle, MessagesSquare, Paperclip, X } from 'lucide-react'
+import type { Message, MessageSummary, MessageThread, MessageThreadSummary } from '@/lib/messageQueue'
+import type { ScheduledMessageSummary } from '@/lib/message-scheduler'
+import MessageAttachments, { formatAttachmentSize } from '@/components/MessageAttachments'
+
+const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024 // Matches lib/attachment-store.ts
+
+interface ComposeAttachment {
+  name: string
+  size: number
+  data: string  // base64
+}
+
+function readFileAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader()
+    reader.onload = () => resolve(String(reader.result).split(',')[1] || '')
+    reader.onerror = () => reject(reader.error)
+    reader.readAsDataURL(file)
+  })
+}
 
 /**
  * Agent recipient info for messaging
@@ -31,7 +50,7 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
   const [messages, setMessages] = useState<MessageSummary[]>([])
   const [sentMessages, setSentMessages] = useState<MessageSummary[]>([])
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null)
-  const [view, setView] = useState<'inbox' | 'sent' | 'compose'>('inbox')
+  const [view, setView] = useState<'inbox' | 'sent' | 'threads' | 'compose'>('inbox')
   const [unreadCount, setUnreadCount] = useState(0)
   const [sentCount, setSentCount] = useState(0)
   const [loading, setLoading] = useState(false)
@@ -41,6 +60,10 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
   const [sentLimit, setSentLimit] = useState(25)    // Pagination: number of sent messages to load
   const [hasMoreInbox, setHasMoreInbox] = useState(false)
   const [hasMoreSent, setHasMoreSent] = useState(false)
+  const [threads, setThreads] = useState<MessageThreadSummary[]>([])
+  const [selectedThread, setSelectedThread] = useState<MessageThread | null>(null)
+  const [threadReply, setThreadReply] = useState('')
+  const [scheduledMessages, setScheduledMessages] = useState<ScheduledMessageSummary[]>([])
 
   // Compose form state
   const [composeTo, setComposeTo] = useState('')
@@ -48,6 +71,10 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
   const [composeMessage, setComposeMessage] = useState('')
   const [composePriority, setComposePriority] = useState<'low' | 'normal' | 'high' | 'urgent'>('normal')
   const [composeType, setComposeType] = useState<'request' | 'response' | 'notification' | 'update'>('request')
+  const [composeInReplyTo, setComposeInReplyTo] = useState<string | null>(null)
+  const [composeAttachments, setComposeAttachments] = useState<ComposeAttachment[]>([])
+  const [composeSendAt, setComposeSendAt] = useState('')  // datetime-local value; empty sends now
+  const attachmentInputRef = useRef<HTMLInputElement>(null)
 
   // Copy dropdown state
   const [showCopyDropdown, setShowCopyDropdown] = useState(false)
@@ -105,6 +132,30 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     }
   }, [messageIdentifier, apiBaseUrl, sentLimit])
 
+  // Fetch messages waiting to be sent (send_at)
+  const fetchScheduledMessages = useCallback(async () => {
+    try {
+      const response = await fetch(`${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/scheduled`)
+      if (!response.ok) return
+      const data = await response.json()
+      setScheduledMessages(data.scheduled || [])
+    } catch (error) {
+      console.error('Error fetching scheduled messages:', error)
+    }
+  }, [messageIdentifier, apiBaseUrl])
+
+  // Fetch conversation threads (inbox + sent grouped by AMP thread ID)
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetch(`${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/threads`)
+      if (!response.ok) return
+      const data = await response.json()
+      setThreads(data.threads || [])
+    } catch (error) {
+      console.error('Error fetching threads:', error)
+    }
+  }, [messageIdentifier, apiBaseUrl])
+
   // Load more inbox messages
   const loadMoreInbox = useCallback(() => {
     const newLimit = inboxLimit + 25
@@ -164,6 +215,98 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     }
   }
 
+  // Load a thread and mark its unread inbox messages as read
+  const loadThread = async (threadId: string) => {
+    try {
+      const response = await fetch(`${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/threads/${encodeURIComponent(threadId)}`)
+      if (!response.ok) return
+      const data = await response.json()
+      const thread: MessageThread = data.thread
+      setSelectedThread(thread)
+
+      const unread = thread.messages.filter(m => m.box === 'inbox' && m.status === 'unread')
+      if (unread.length > 0) {
+        await Promise.all(unread.map(m =>
+          fetch(`${apiBaseUrl}/api/messages?agent=${encodeURIComponent(messageIdentifier)}&id=${m.id}&action=read`, {
+            method: 'PATCH',
+          })
+        ))
+        fetchThreads()
+        fetchMessages()
+        fetchUnreadCount()
+      }
+    } catch (error) {
+      console.error('Error loading thread:', error)
+    }
+  }
+
+  // Reply in the open thread, to the other side of its latest message
+  const sendThreadReply = async () => {
+    if (!selectedThread || !threadReply.trim()) return
+    const last = selectedThread.messages[selectedThread.messages.length - 1]
+    if (!last) return
+    const to = last.box === 'inbox'
+      ? `${last.from}@${last.fromHost || 'unknown-host'}`
+      : `${last.to}@${last.toHost || 'unknown-host'}`
+
+    setLoading(true)
+    try {
+      const response = await fetch(`${apiBaseUrl}/api/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from: sessionName,
+          to,
+          subject: replySubject(selectedThread.subject),
+          priority: 'normal',
+          content: {
+            type: 'response',
+            message: threadReply,
+          },
+          inReplyTo: last.id,
+          threadId: selectedThread.threadId,
+        }),
+      })
+
+      if (response.ok) {
+        setThreadReply('')
+        loadThread(selectedThread.threadId)
+        fetchThreads()
+        fetchSentMessages()
+        fetchSentCount()
+      } else {
+        showToast('Failed to send reply', 'error')
+      }
+    } catch (error) {
+      console.error('Error sending reply:', error)
+      showToast('Error sending reply', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
+  // Attach files to the message being composed
+  const addComposeAttachments = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || [])
+    e.target.value = ''
+    for (const file of files) {
+      if (file.size > MAX_ATTACHMENT_BYTES) {
+        showToast(`${file.name} exceeds ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB limit`, 'error')
+        continue
+      }
+      try {
+        const data = await readFileAsBase64(file)
+        setComposeAttachments(prev => [...prev, { name: file.name, size: file.size, data }])
+      } catch (error) {
+        console.error('Error reading attachment:', error)
+        showToast(`Could not read ${file.name}`, 'error')
+      }
+    }
+  }
+
+  const attachmentUrl = (messageId: string, box: 'inbox' | 'sent') => (attachment: { digest?: string }) =>
+    `${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/${encodeURIComponent(messageId)}/attachments/${attachment.digest}?box=${box}`
+
   // Send message
   const sendMessage = async () => {
     if (!composeTo || !composeSubject || !composeMessage) {
@@ -219,21 +362,36 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
             content: {
               type: composeType,
               message: composeMessage,
+              attachments: composeAttachments.length > 0
+                ? composeAttachments.map(({ name, data }) => ({ name, data }))
+                : undefined,
             },
+            inReplyTo: composeInReplyTo || undefined,
+            sendAt: composeSendAt ? new Date(composeSendAt).toISOString() : undefined,
           }),
         })
 
         if (response.ok) {
+          const data = await response.json().catch(() => ({}))
           // Reset form
           setComposeTo('')
           setComposeSubject('')
           setComposeMessage('')
           setComposePriority('normal')
           setComposeType('request')
+          setComposeInReplyTo(null)
+          setComposeAttachments([])
+          setComposeSendAt('')
           setView('inbox')
-          showToast('Message sent successfully!', 'success')
+          if (data.scheduledFor) {
+            showToast(`Message scheduled for ${new Date(data.scheduledFor).toLocaleString()}`, 'success')
+            fetchScheduledMessages()
+          } else {
+            showToast('Message sent successfully!', 'success')
+          }
         } else {
-          showToast('Failed to send message', 'error')
+          const error = await response.json().catch(() => ({}))
+          showToast(error.error ? `Failed to send message: ${error.error}` : 'Failed to send message', 'error')
         }
       }
     } catch (error) {
@@ -244,6 +402,25 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     }
   }
 
+  // Cancel a scheduled message before it is sent
+  const cancelScheduledMessage = async (messageId: string) => {
+    try {
+      const response = await fetch(`${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/scheduled/${encodeURIComponent(messageId)}`, {
+        method: 'DELETE',
+      })
+      if (response.ok) {
+        showToast('Scheduled message cancelled', 'success')
+      } else {
+        const error = await response.json().catch(() => ({}))
+        showToast(`Failed to cancel: ${error.error || response.status}`, 'error')
+      }
+      fetchScheduledMessages()
+    } catch (error) {
+      console.error('Error cancelling scheduled message:', error)
+      showToast('Error cancelling scheduled message', 'error')
+    }
+  }
+
   // Delete message (with confirmation via pendingDelete state)
   const deleteMessage = async (messageId: string) => {
     if (pendingDelete !== messageId) {
@@ -371,6 +548,7 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     setComposeType('notification')
     setIsForwarding(true)
     setForwardingOriginalMessage(message)
+    setComposeInReplyTo(null)
     setView('compose')
   }
 
@@ -379,6 +557,8 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     if (!isActive) return
     fetchMessages()
     fetchSentMessages()
+    fetchScheduledMessages()
+    fetchThreads()
     fetchUnreadCount()
     fetchSentCount()
   }, [messageIdentifier, isActive])
@@ -389,6 +569,8 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     const interval = setInterval(() => {
       fetchMessages()
       fetchSentMessages()
+      fetchScheduledMessages()
+      fetchThreads()
       fetchUnreadCount()
       fetchSentCount()
     }, 10000)
@@ -503,6 +685,9 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
     return `${displayName}@${hostName}`
   }
 
+  // "Re:" prefix for replies, without stacking on subjects that already have one
+  const replySubject = (subject: string) => /^re:/i.test(subject) ? subject : `Re: ${subject}`
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'urgent': return 'text-red-600 bg-red-100'
@@ -588,6 +773,17 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
             <Send className="w-4 h-4 inline-block mr-1" />
             Sent
           </button>
+          <button
+            onClick={() => setView('threads')}
+            className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
+              view === 'threads'
+                ? 'bg-blue-600 text-white'
+                : 'bg-gray-700 text-gray-300 hover:bg-gray-600'
+            }`}
+          >
+            <MessagesSquare className="w-4 h-4 inline-block mr-1" />
+            Threads
+          </button>
           <button
             onClick={() => setView('compose')}
             className={`px-3 py-1.5 rounded-md text-sm font-medium transition-colors ${
@@ -724,7 +920,10 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                     <h3 className={`text-sm mb-1 ${msg.status === 'unread' ? 'font-semibold text-gray-200' : 'font-medium text-gray-300'}`}>
                       {msg.subject}
                     </h3>
-                    <p className="text-xs text-gray-400 line-clamp-2">{msg.preview}</p>
+                    <p className="text-xs text-gray-400 line-clamp-2">
+                      {msg.attachmentCount ? <Paperclip className="w-3 h-3 inline mr-1 text-gray-500" /> : null}
+                      {msg.preview}
+                    </p>
                     <div className="flex items-center justify-between mt-2">
                       <span className="text-xs text-gray-500">
                         {new Date(msg.timestamp).toLocaleString()}
@@ -777,6 +976,14 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                           <span className="truncate">{selectedMessage.fromAlias || selectedMessage.from}@{selectedMessage.fromHost || 'unknown-host'}</span>
                           <span className="flex-shrink-0">•</span>
                           <span className="flex-shrink-0">{new Date(selectedMessage.timestamp).toLocaleString()}</span>
+                          {selectedMessage.expiresAt && (
+                            <>
+                              <span className="flex-shrink-0">•</span>
+                              <span className={`flex-shrink-0 ${new Date(selectedMessage.expiresAt).getTime() <= Date.now() ? 'text-red-400' : ''}`}>
+                                {new Date(selectedMessage.expiresAt).getTime() <= Date.now() ? 'Expired' : 'Expires'} {new Date(selectedMessage.expiresAt).toLocaleString()}
+                              </span>
+                            </>
+                          )}
                         </div>
                       </div>
                     </div>
@@ -865,6 +1072,11 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                       </pre>
                     </div>
                   )}
+
+                  <MessageAttachments
+                    attachments={selectedMessage.content.attachments}
+                    urlFor={attachmentUrl(selectedMessage.id, 'inbox')}
+                  />
                 </div>
 
                 <div className="mt-6 pt-4 border-t border-gray-800 flex gap-3">
@@ -873,8 +1085,9 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                       // Use technical name (from) for routing, not display alias
                       const replyHost = selectedMessage.fromHost || 'unknown-host'
                       setComposeTo(`${selectedMessage.from}@${replyHost}`)
-                      setComposeSubject(`Re: ${selectedMessage.subject}`)
+                      setComposeSubject(replySubject(selectedMessage.subject))
                       setComposeType('response')
+                      setComposeInReplyTo(selectedMessage.id)
                       setIsForwarding(false)
                       setForwardingOriginalMessage(null)
                       setView('compose')
@@ -910,6 +1123,36 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
         <div className="flex flex-1 overflow-hidden">
           {/* Message List */}
           <div className="w-1/3 border-r border-gray-700 bg-gray-800 overflow-y-auto">
+            {scheduledMessages.length > 0 && (
+              <div className="border-b border-gray-700 bg-gray-900/40">
+                <div className="px-4 pt-3 pb-1 text-xs font-semibold text-gray-400 uppercase flex items-center gap-1">
+                  <Clock className="w-3 h-3" />
+                  Scheduled ({scheduledMessages.length})
+                </div>
+                {scheduledMessages.map((scheduled) => (
+                  <div key={scheduled.id} className="px-4 py-2 flex items-start justify-between gap-2">
+                    <div className="min-w-0">
+                      <div className="text-sm text-gray-300 truncate">{scheduled.subject}</div>
+                      <div className="text-xs text-gray-500 truncate">
+                        To {scheduled.to} - {new Date(scheduled.sendAt).toLocaleString()}
+                      </div>
+                      {scheduled.status === 'failed' && (
+                        <div className="text-xs text-red-400 truncate" title={scheduled.lastError}>
+                          Failed: {scheduled.lastError}
+                        </div>
+                      )}
+                    </div>
+                    <button
+                      onClick={() => cancelScheduledMessage(scheduled.id)}
+                      className="p-1 text-gray-500 hover:text-red-400 flex-shrink-0"
+                      title={scheduled.status === 'failed' ? 'Dismiss' : 'Cancel scheduled message'}
+                    >
+                      <X className="w-4 h-4" />
+                    </button>
+                  </div>
+                ))}
+              </div>
+            )}
             {sentMessages.length === 0 ? (
               <div className="p-8 text-center text-gray-500">
                 <Send className="w-12 h-12 mx-auto mb-2 text-gray-300" />
@@ -947,7 +1190,10 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                     <h3 className="text-sm mb-1 font-medium text-gray-300">
                       {msg.subject}
                     </h3>
-                    <p className="text-xs text-gray-400 line-clamp-2">{msg.preview}</p>
+                    <p className="text-xs text-gray-400 line-clamp-2">
+                      {msg.attachmentCount ? <Paperclip className="w-3 h-3 inline mr-1 text-gray-500" /> : null}
+                      {msg.preview}
+                    </p>
                     <div className="flex items-center justify-between mt-2">
                       <span className="text-xs text-gray-500">
                         {new Date(msg.timestamp).toLocaleString()}
@@ -1057,6 +1303,11 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                       </pre>
                     </div>
                   )}
+
+                  <MessageAttachments
+                    attachments={selectedMessage.content.attachments}
+                    urlFor={attachmentUrl(selectedMessage.id, 'sent')}
+                  />
                 </div>
               </div>
             ) : (
@@ -1071,6 +1322,111 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
         </div>
       )}
 
+      {/* Threads View */}
+      {view === 'threads' && (
+        <div className="flex flex-1 overflow-hidden">
+          {/* Thread List */}
+          <div className="w-1/3 border-r border-gray-700 bg-gray-800 overflow-y-auto">
+            {threads.length === 0 ? (
+              <div className="p-8 text-center text-gray-500">
+                <MessagesSquare className="w-12 h-12 mx-auto mb-2 text-gray-300" />
+                <p>No conversations</p>
+              </div>
+            ) : (
+              threads.map((thread) => (
+                <div
+                  key={thread.threadId}
+                  onClick={() => loadThread(thread.threadId)}
+                  className={`p-4 border-b border-gray-700 cursor-pointer hover:bg-gray-700 transition-colors ${
+                    thread.unreadCount > 0 ? 'bg-blue-900/30' : ''
+                  } ${selectedThread?.threadId === thread.threadId ? 'bg-blue-900/50' : ''}`}
+                >
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <span className={`text-sm truncate ${thread.unreadCount > 0 ? 'font-semibold text-gray-100' : 'font-medium text-gray-300'}`}>
+                      {thread.participants.join(', ')}
+                    </span>
+                    {thread.unreadCount > 0 && (
+                      <span className="px-1.5 py-0.5 text-xs font-bold text-white bg-red-500 rounded-full flex-shrink-0">
+                        {thread.unreadCount}
+                      </span>
+                    )}
+                  </div>
+                  <h3 className="text-sm text-gray-300 mb-1 truncate">{thread.subject}</h3>
+                  <p className="text-xs text-gray-400 line-clamp-2">
+                    <span className="text-gray-500">
+                      {thread.lastMessage.box === 'sent' ? 'You' : thread.lastMessage.fromAlias || thread.lastMessage.from}:
+                    </span>{' '}
+                    {thread.lastMessage.preview}
+                  </p>
+                  <div className="flex items-center justify-between mt-2 text-xs text-gray-500">
+                    <span>{new Date(thread.lastMessage.timestamp).toLocaleString()}</span>
+                    <span>{thread.messageCount} {thread.messageCount === 1 ? 'message' : 'messages'}</span>
+                  </div>
+                </div>
+              ))
+            )}
+          </div>
+
+          {/* Thread Detail */}
+          <div className="flex-1 flex flex-col bg-gray-900 overflow-hidden">
+            {selectedThread ? (
+              <>
+                <div className="p-4 border-b border-gray-800">
+                  <h2 className="text-lg font-bold text-gray-100 truncate">{selectedThread.subject}</h2>
+                  <p className="text-xs text-gray-500 truncate">{selectedThread.participants.join(', ')}</p>
+                </div>
+                <div className="flex-1 overflow-y-auto p-4 space-y-3">
+                  {selectedThread.messages.map((msg) => (
+                    <div key={`${msg.box}-${msg.id}`} className={`flex ${msg.box === 'sent' ? 'justify-end' : 'justify-start'}`}>
+                      <div className={`max-w-[80%] p-3 rounded-lg border ${
+                        msg.box === 'sent' ? 'bg-blue-900/40 border-blue-800' : 'bg-gray-800 border-gray-700'
+                      }`}>
+                        <div className="flex items-center gap-2 mb-1 text-xs text-gray-400">
+                          <span className="font-medium text-gray-300">
+                            {msg.box === 'sent' ? 'You' : formatAgentName(msg.from, msg.fromAlias, msg.fromHost)}
+                          </span>
+                          <span>•</span>
+                          <span>{new Date(msg.timestamp).toLocaleString()}</span>
+                          {getPriorityIcon(msg.priority)}
+                        </div>
+                        <pre className="whitespace-pre-wrap text-sm text-gray-200 font-sans">
+                          {msg.content.message}
+                        </pre>
+                      </div>
+                    </div>
+                  ))}
+                </div>
+                <div className="p-3 border-t border-gray-800 flex gap-2">
+                  <textarea
+                    aria-label="Reply to thread"
+                    value={threadReply}
+                    onChange={(e) => setThreadReply(e.target.value)}
+                    rows={2}
+                    className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 text-sm resize-none"
+                    placeholder="Reply to this thread..."
+                  />
+                  <button
+                    onClick={sendThreadReply}
+                    disabled={loading || !threadReply.trim()}
+                    className="px-4 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+                    title="Send reply"
+                  >
+                    <Send className="w-4 h-4" />
+                  </button>
+                </div>
+              </>
+            ) : (
+              <div className="flex items-center justify-center h-full text-gray-500">
+                <div className="text-center">
+                  <MessagesSquare className="w-16 h-16 mx-auto mb-2 text-gray-600" />
+                  <p>Select a conversation to read</p>
+                </div>
+              </div>
+            )}
+          </div>
+        </div>
+      )}
+
       {/* Compose View */}
       {view === 'compose' && (
         <div className="flex-1 bg-gray-900 p-6 overflow-y-auto">
@@ -1212,6 +1568,21 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
                   <option value="update">Update</option>
                 </select>
               </div>
+
+              {!isForwarding && (
+                <div className="flex-1">
+                  <label className="block text-sm font-medium text-gray-300 mb-1">
+                    Send at:
+                  </label>
+                  <input
+                    type="datetime-local"
+                    value={composeSendAt}
+                    onChange={(e) => setComposeSendAt(e.target.value)}
+                    className="w-full px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500"
+                    title="Leave empty to send now"
+                  />
+                </div>
+              )}
             </div>
 
             <div>
@@ -1230,13 +1601,53 @@ export default function MessageCenter({ sessionName, agentId, allAgents, hostUrl
               />
             </div>
 
+            {isForwarding ? (
+              forwardingOriginalMessage?.content.attachments?.length ? (
+                <p className="text-xs text-gray-500 flex items-center gap-1">
+                  <Paperclip className="w-3 h-3" />
+                  {forwardingOriginalMessage.content.attachments.length} attachment(s) will be forwarded with the message
+                </p>
+              ) : null
+            ) : (
+              <div>
+                <div className="flex items-center gap-3">
+                  <button
+                    onClick={() => attachmentInputRef.current?.click()}
+                    className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-300 bg-gray-800 border border-gray-700 rounded-md hover:bg-gray-700 transition-colors"
+                  >
+                    <Paperclip className="w-4 h-4" />
+                    Attach files
+                  </button>
+                  <span className="text-xs text-gray-500">Up to {MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB each</span>
+                  <input ref={attachmentInputRef} type="file" multiple className="hidden" onChange={addComposeAttachments} />
+                </div>
+                {composeAttachments.length > 0 && (
+                  <div className="flex flex-wrap gap-2 mt-2">
+                    {composeAttachments.map((attachment, index) => (
+                      <span key={`${attachment.name}-${index}`} className="flex items-center gap-1 px-2 py-1 text-xs text-gray-300 bg-gray-800 rounded">
+                        {attachment.name}
+                        <span className="text-gray-500">{formatAttachmentSize(attachment.size)}</span>
+                        <button
+                          onClick={() => setComposeAttachments(prev => prev.filter((_, i) => i !== index))}
+                          className="text-gray-500 hover:text-gray-200"
+                          title="Remove attachment"
+                        >
+                          <X className="w-3 h-3" />
+                        </button>
+                      </span>
+                    ))}
+                  </div>
+                )}
+              </div>
+            )}
+
             <div className="flex gap-3">
               <button
                 onClick={sendMessage}
                 disabled={loading}
                 className="px-6 py-2 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
               >
-                {loading ? (isForwarding ? 'Forwarding...' : 'Sending...') : (isForwarding ? 'Forward Message' : 'Send Message')}
+                {loading ? (isForwarding ? 'Forwarding...' : 'Sending...') : (isForwarding ? 'Forward Message' : composeSendAt ? 'Schedule Message' : 'Send Message')}
               </button>
               <button
                 onClick={() => {
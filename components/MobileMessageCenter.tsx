@@ -1,8 +1,8 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef } from 'react'
-import { Send, Inbox, Archive, Trash2, AlertCircle, Clock, CheckCircle, Forward, Copy, Edit, MoreVertical, Server, ShieldCheck, Globe, HelpCircle } from 'lucide-react'
-import type { Message, MessageSummary } from '@/lib/messageQueue'
+import { Send, Inbox, Archive, Trash2, AlertCircle, Clock, CheckCircle, Forward, Copy, Edit, MoreVertical, Server, ShieldCheck, Globe, HelpCircle, MessagesSquare } from 'lucide-react'
+import type { Message, MessageSummary, MessageThread, MessageThreadSummary } from '@/lib/messageQueue'
 import type { AgentRecipient } from './MessageCenter'
 
 // Timeout for message API calls - 15 seconds for remote hosts
@@ -50,11 +50,14 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
   const [messages, setMessages] = useState<MessageSummary[]>([])
   const [sentMessages, setSentMessages] = useState<MessageSummary[]>([])
   const [selectedMessage, setSelectedMessage] = useState<Message | null>(null)
-  const [view, setView] = useState<'inbox' | 'sent' | 'compose'>('inbox')
+  const [view, setView] = useState<'inbox' | 'sent' | 'threads' | 'compose'>('inbox')
   const [unreadCount, setUnreadCount] = useState(0)
   const [loading, setLoading] = useState(false)
   const [isForwarding, setIsForwarding] = useState(false)
   const [forwardingOriginalMessage, setForwardingOriginalMessage] = useState<Message | null>(null)
+  const [threads, setThreads] = useState<MessageThreadSummary[]>([])
+  const [selectedThread, setSelectedThread] = useState<MessageThread | null>(null)
+  const [threadReply, setThreadReply] = useState('')
 
   // Compose form state
   const [composeTo, setComposeTo] = useState('')
@@ -62,6 +65,7 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
   const [composeMessage, setComposeMessage] = useState('')
   const [composePriority, setComposePriority] = useState<'low' | 'normal' | 'high' | 'urgent'>('normal')
   const [composeType, setComposeType] = useState<'request' | 'response' | 'notification' | 'update'>('request')
+  const [composeInReplyTo, setComposeInReplyTo] = useState<string | null>(null)
 
   // Copy dropdown state
   const [showCopyDropdown, setShowCopyDropdown] = useState(false)
@@ -114,6 +118,18 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
     }
   }, [messageIdentifier, apiBaseUrl])
 
+  // Fetch conversation threads (inbox + sent grouped by AMP thread ID)
+  const fetchThreads = useCallback(async () => {
+    try {
+      const response = await fetchWithTimeout(`${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/threads`)
+      if (!response.ok) return
+      const data = await response.json()
+      setThreads(data.threads || [])
+    } catch (error) {
+      console.error('Error fetching threads:', error)
+    }
+  }, [messageIdentifier, apiBaseUrl])
+
   // Fetch unread count
   const fetchUnreadCount = useCallback(async () => {
     try {
@@ -147,6 +163,75 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
     }
   }
 
+  // Load a thread and mark its unread inbox messages as read
+  const loadThread = async (threadId: string) => {
+    try {
+      const response = await fetchWithTimeout(`${apiBaseUrl}/api/agents/${encodeURIComponent(messageIdentifier)}/messages/threads/${encodeURIComponent(threadId)}`)
+      if (!response.ok) return
+      const data = await response.json()
+      const thread: MessageThread = data.thread
+      setSelectedThread(thread)
+
+      const unread = thread.messages.filter(m => m.box === 'inbox' && m.status === 'unread')
+      if (unread.length > 0) {
+        await Promise.all(unread.map(m =>
+          fetchWithTimeout(`${apiBaseUrl}/api/messages?agent=${encodeURIComponent(messageIdentifier)}&id=${m.id}&action=read`, {
+            method: 'PATCH',
+          })
+        ))
+        fetchThreads()
+        fetchMessages()
+        fetchUnreadCount()
+      }
+    } catch (error) {
+      console.error('Error loading thread:', error)
+    }
+  }
+
+  // Reply in the open thread, to the other side of its latest message
+  const sendThreadReply = async () => {
+    if (!selectedThread || !threadReply.trim()) return
+    const last = selectedThread.messages[selectedThread.messages.length - 1]
+    if (!last) return
+    const to = last.box === 'inbox'
+      ? `${last.from}@${last.fromHost || 'unknown-host'}`
+      : `${last.to}@${last.toHost || 'unknown-host'}`
+
+    setLoading(true)
+    try {
+      const response = await fetchWithTimeout(`${apiBaseUrl}/api/messages`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          from: messageIdentifier,
+          to,
+          subject: replySubject(selectedThread.subject),
+          priority: 'normal',
+          content: {
+            type: 'response',
+            message: threadReply,
+          },
+          inReplyTo: last.id,
+          threadId: selectedThread.threadId,
+        }),
+      })
+
+      if (response.ok) {
+        setThreadReply('')
+        loadThread(selectedThread.threadId)
+        fetchThreads()
+        fetchSentMessages()
+      } else {
+        showToast('Failed to send reply', 'error')
+      }
+    } catch (error) {
+      console.error('Error sending reply:', error)
+      showToast('Error sending reply', 'error')
+    } finally {
+      setLoading(false)
+    }
+  }
+
   // Send message
   const sendMessage = async () => {
     if (!composeTo || !composeSubject || !composeMessage) {
@@ -199,6 +284,7 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
               type: composeType,
               message: composeMessage,
             },
+            inReplyTo: composeInReplyTo || undefined,
           }),
         })
 
@@ -208,6 +294,7 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
           setComposeMessage('')
           setComposePriority('normal')
           setComposeType('request')
+          setComposeInReplyTo(null)
           setView('inbox')
           showToast('Message sent!', 'success')
         } else {
@@ -338,6 +425,7 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
     setComposeType('notification')
     setIsForwarding(true)
     setForwardingOriginalMessage(message)
+    setComposeInReplyTo(null)
     setShowActionsMenu(false)
     setView('compose')
   }
@@ -345,14 +433,16 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
   useEffect(() => {
     fetchMessages()
     fetchSentMessages()
+    fetchThreads()
     fetchUnreadCount()
     const interval = setInterval(() => {
       fetchMessages()
       fetchSentMessages()
+      fetchThreads()
       fetchUnreadCount()
     }, 10000)
     return () => clearInterval(interval)
-  }, [messageIdentifier, fetchMessages, fetchSentMessages, fetchUnreadCount])
+  }, [messageIdentifier, fetchMessages, fetchSentMessages, fetchThreads, fetchUnreadCount])
 
   // Filter agents based on input for autocomplete
   useEffect(() => {
@@ -419,6 +509,9 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
     return `${displayName}@${hostName}`
   }
 
+  // "Re:" prefix for replies, without stacking on subjects that already have one
+  const replySubject = (subject: string) => /^re:/i.test(subject) ? subject : `Re: ${subject}`
+
   const getPriorityColor = (priority: string) => {
     switch (priority) {
       case 'urgent': return 'text-red-600 bg-red-900/30'
@@ -525,6 +618,17 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
             <Send className="w-4 h-4" />
             Sent
           </button>
+          <button
+            onClick={() => { setView('threads'); setSelectedMessage(null); setSelectedThread(null); }}
+            className={`flex-1 flex items-center justify-center gap-2 py-3 text-sm font-medium transition-colors ${
+              view === 'threads'
+                ? 'text-blue-400 bg-gray-800/50 border-b-2 border-blue-400'
+                : 'text-gray-400 hover:text-gray-300'
+            }`}
+          >
+            <MessagesSquare className="w-4 h-4" />
+            Threads
+          </button>
           <button
             onClick={() => { setView('compose'); setSelectedMessage(null); }}
             className={`flex-1 flex items-center justify-center gap-2 py-3 text-sm font-medium transition-colors ${
@@ -686,8 +790,9 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
                           // Use technical name (from) for routing, not display alias
                           const replyHost = selectedMessage.fromHost || 'unknown-host'
                           setComposeTo(`${selectedMessage.from}@${replyHost}`)
-                          setComposeSubject(`Re: ${selectedMessage.subject}`)
+                          setComposeSubject(replySubject(selectedMessage.subject))
                           setComposeType('response')
+                          setComposeInReplyTo(selectedMessage.id)
                           setIsForwarding(false)
                           setForwardingOriginalMessage(null)
                           setShowActionsMenu(false)
@@ -818,6 +923,105 @@ export default function MobileMessageCenter({ sessionName, agentId, allAgents, h
         </div>
       )}
 
+      {/* Threads View */}
+      {view === 'threads' && !selectedThread && (
+        <div className="flex-1 overflow-y-auto">
+          {threads.length === 0 ? (
+            <div className="flex flex-col items-center justify-center h-full px-6 text-center">
+              <MessagesSquare className="w-16 h-16 text-gray-600 mb-4" />
+              <p className="text-sm text-gray-400">No conversations</p>
+            </div>
+          ) : (
+            <div className="divide-y divide-gray-800">
+              {threads.map((thread) => (
+                <button
+                  key={thread.threadId}
+                  onClick={() => loadThread(thread.threadId)}
+                  className={`w-full px-4 py-3 text-left transition-colors ${
+                    thread.unreadCount > 0 ? 'bg-blue-900/20' : ''
+                  } hover:bg-gray-800/50 active:bg-gray-800`}
+                >
+                  <div className="flex items-start justify-between gap-2 mb-1">
+                    <span className={`text-sm truncate ${thread.unreadCount > 0 ? 'font-semibold text-gray-100' : 'font-medium text-gray-300'}`}>
+                      {thread.participants.join(', ')}
+                    </span>
+                    {thread.unreadCount > 0 && (
+                      <span className="px-1.5 py-0.5 text-xs font-bold text-white bg-red-500 rounded-full flex-shrink-0">
+                        {thread.unreadCount}
+                      </span>
+                    )}
+                  </div>
+                  <h3 className="text-sm mb-1 font-medium text-gray-300 truncate">{thread.subject}</h3>
+                  <p className="text-xs text-gray-500 line-clamp-2 mb-2">
+                    {thread.lastMessage.box === 'sent' ? 'You' : thread.lastMessage.fromAlias || thread.lastMessage.from}: {thread.lastMessage.preview}
+                  </p>
+                  <div className="flex items-center justify-between text-xs text-gray-500">
+                    <span>{new Date(thread.lastMessage.timestamp).toLocaleString()}</span>
+                    <span>{thread.messageCount} {thread.messageCount === 1 ? 'message' : 'messages'}</span>
+                  </div>
+                </button>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Thread Detail View */}
+      {view === 'threads' && selectedThread && (
+        <div className="flex flex-col h-full min-h-0">
+          <div className="flex-shrink-0 px-4 py-2 bg-gray-800 border-b border-gray-700">
+            <button
+              onClick={() => setSelectedThread(null)}
+              className="text-blue-400 text-sm font-medium"
+            >
+              ← Back
+            </button>
+            <h2 className="text-base font-bold text-gray-100 truncate mt-1">{selectedThread.subject}</h2>
+            <p className="text-xs text-gray-500 truncate">{selectedThread.participants.join(', ')}</p>
+          </div>
+
+          <div className="flex-1 overflow-y-auto p-3 space-y-3">
+            {selectedThread.messages.map((msg) => (
+              <div key={`${msg.box}-${msg.id}`} className={`flex ${msg.box === 'sent' ? 'justify-end' : 'justify-start'}`}>
+                <div className={`max-w-[85%] p-3 rounded-lg border ${
+                  msg.box === 'sent' ? 'bg-blue-900/40 border-blue-800' : 'bg-gray-800 border-gray-700'
+                }`}>
+                  <div className="flex items-center gap-1 mb-1 text-xs text-gray-400">
+                    <span className="font-medium text-gray-300 truncate">
+                      {msg.box === 'sent' ? 'You' : msg.fromAlias || msg.from}
+                    </span>
+                    {getPriorityIcon(msg.priority)}
+                  </div>
+                  <pre className="whitespace-pre-wrap text-sm text-gray-200 font-sans">
+                    {msg.content.message}
+                  </pre>
+                  <div className="text-[10px] text-gray-500 mt-1">{new Date(msg.timestamp).toLocaleString()}</div>
+                </div>
+              </div>
+            ))}
+          </div>
+
+          <div className="flex-shrink-0 p-3 border-t border-gray-800 flex gap-2">
+            <textarea
+              aria-label="Reply to thread"
+              value={threadReply}
+              onChange={(e) => setThreadReply(e.target.value)}
+              rows={2}
+              className="flex-1 px-3 py-2 bg-gray-800 border border-gray-700 rounded-md text-sm text-gray-100 focus:outline-none focus:ring-2 focus:ring-blue-500 resize-none"
+              placeholder="Reply..."
+            />
+            <button
+              onClick={sendThreadReply}
+              disabled={loading || !threadReply.trim()}
+              className="px-4 bg-blue-600 text-white rounded-md hover:bg-blue-700 transition-colors disabled:opacity-50"
+              aria-label="Send reply"
+            >
+              <Send className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      )}
+
       {/* Compose View */}
       {view === 'compose' && (
         <div className="flex-1 overflow-y-auto p-4">
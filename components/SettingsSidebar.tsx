@@ -1,10 +1,10 @@
 'use client'
 
-import { Server, HelpCircle, Info, Compass, FlaskConical, Webhook, Globe, Store } from 'lucide-react'
+import { Server, HelpCircle, Info, Compass, FlaskConical, Webhook, Globe, Store, Shield } from 'lucide-react'
 
 interface SettingsSidebarProps {
-  activeSection: 'hosts' | 'domains' | 'webhooks' | 'help' | 'about' | 'onboarding' | 'experiments' | 'marketplace'
-  onSectionChange: (section: 'hosts' | 'domains' | 'webhooks' | 'help' | 'about' | 'onboarding' | 'experiments' | 'marketplace') => void
+  activeSection: 'hosts' | 'domains' | 'webhooks' | 'access' | 'help' | 'about' | 'onboarding' | 'experiments' | 'marketplace'
+  onSectionChange: (section: 'hosts' | 'domains' | 'webhooks' | 'access' | 'help' | 'about' | 'onboarding' | 'experiments' | 'marketplace') => void
 }
 
 export default function SettingsSidebar({ activeSection, onSectionChange }: SettingsSidebarProps) {
@@ -27,6 +27,12 @@ export default function SettingsSidebar({ activeSection, onSectionChange }: Sett
       icon: Webhook,
       description: 'Event subscriptions',
     },
+    {
+      id: 'access' as const,
+      label: 'Access',
+      icon: Shield,
+      description: 'Roles & API tokens',
+    },
     {
       id: 'marketplace' as const,
       label: 'Marketplace',
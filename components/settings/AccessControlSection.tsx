@@ -0,0 +1,409 @@
+'use client'
+
+import React, { useState, useEffect, useCallback } from 'react'
+import {
+  Shield, ShieldOff, Plus, Trash2, RefreshCw, X, AlertCircle, Copy, Check, KeyRound, LogIn, LogOut
+} from 'lucide-react'
+import type { AccessAuditEntry, AccessPrincipal, AccessRole, AccessTokenSummary } from '@/types/access'
+import type { Team } from '@/types/team'
+import type { Agent } from '@/types/agent'
+
+const ROLES: { id: AccessRole; description: string }[] = [
+  { id: 'viewer', description: 'Read-only access to agents, sessions and teams' },
+  { id: 'operator', description: 'Run commands, manage agents, hosts and tasks' },
+  { id: 'admin', description: 'Everything, including tokens and these settings' },
+]
+
+function formatDate(dateStr?: string): string {
+  return dateStr ? new Date(dateStr).toLocaleString() : 'never'
+}
+
+/**
+ * Role-based access control: enable/disable enforcement, issue and revoke
+ * API tokens (optionally scoped to a team), and review denied requests.
+ */
+export default function AccessControlSection() {
+  const [enabled, setEnabled] = useState(false)
+  const [trustLocal, setTrustLocal] = useState(true)
+  const [adminAgents, setAdminAgents] = useState<string[]>([])
+  const [agents, setAgents] = useState<Agent[]>([])
+  const [principal, setPrincipal] = useState<AccessPrincipal | null>(null)
+  const [tokens, setTokens] = useState<AccessTokenSummary[]>([])
+  const [audit, setAudit] = useState<AccessAuditEntry[]>([])
+  const [teams, setTeams] = useState<Team[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [forbidden, setForbidden] = useState(false)
+
+  // Sign in
+  const [loginToken, setLoginToken] = useState('')
+
+  // New token form
+  const [name, setName] = useState('')
+  const [role, setRole] = useState<AccessRole>('viewer')
+  const [teamId, setTeamId] = useState('')
+  const [createdSecret, setCreatedSecret] = useState<string | null>(null)
+  const [copied, setCopied] = useState(false)
+
+  const fetchAll = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const meRes = await fetch('/api/auth/me')
+      const me = await meRes.json()
+      setPrincipal(me.principal || null)
+
+      const [settingsRes, tokensRes, auditRes, teamsRes, agentsRes] = await Promise.all([
+        fetch('/api/auth/settings'),
+        fetch('/api/auth/tokens'),
+        fetch('/api/auth/audit?limit=50'),
+        fetch('/api/teams'),
+        fetch('/api/agents'),
+      ])
+      if (settingsRes.status === 401 || settingsRes.status === 403) {
+        setEnabled(me.enabled)
+        setForbidden(true)
+        return
+      }
+      setForbidden(false)
+      const settings = await settingsRes.json()
+      setEnabled(settings.enabled)
+      setTrustLocal(settings.trustLocal)
+      setAdminAgents(settings.adminAgents || [])
+      setTokens((await tokensRes.json()).tokens || [])
+      setAudit((await auditRes.json()).entries || [])
+      if (teamsRes.ok) setTeams((await teamsRes.json()).teams || [])
+      if (agentsRes.ok) setAgents((await agentsRes.json()).agents || [])
+    } catch (err) {
+      setError('Failed to connect to server')
+    } finally {
+      setLoading(false)
+    }
+  }, [])
+
+  useEffect(() => {
+    fetchAll()
+  }, [fetchAll])
+
+  const updateSettings = async (updates: { enabled?: boolean; trustLocal?: boolean; adminAgents?: string[] }) => {
+    setError(null)
+    const response = await fetch('/api/auth/settings', {
+      method: 'PUT',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(updates),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || 'Failed to update settings')
+      return
+    }
+    setEnabled(data.enabled)
+    setTrustLocal(data.trustLocal)
+    setAdminAgents(data.adminAgents || [])
+  }
+
+  const toggleAdminAgent = (id: string) => {
+    updateSettings({
+      adminAgents: adminAgents.includes(id) ? adminAgents.filter(a => a !== id) : [...adminAgents, id],
+    })
+  }
+
+  const handleLogin = async () => {
+    setError(null)
+    const response = await fetch('/api/auth/login', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ token: loginToken }),
+    })
+    if (!response.ok) {
+      const data = await response.json()
+      setError(data.error || 'Sign in failed')
+      return
+    }
+    setLoginToken('')
+    fetchAll()
+  }
+
+  const handleLogout = async () => {
+    await fetch('/api/auth/logout', { method: 'POST' })
+    fetchAll()
+  }
+
+  const handleCreate = async () => {
+    setError(null)
+    const response = await fetch('/api/auth/tokens', {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ name, grants: [{ role, ...(teamId ? { teamId } : {}) }] }),
+    })
+    const data = await response.json()
+    if (!response.ok) {
+      setError(data.error || 'Failed to create token')
+      return
+    }
+    setCreatedSecret(data.token)
+    setCopied(false)
+    setName('')
+    setTeamId('')
+    fetchAll()
+  }
+
+  const handleRevoke = async (id: string) => {
+    if (!confirm('Revoke this token? Anything using it will lose access immediately.')) return
+    const response = await fetch(`/api/auth/tokens/${id}`, { method: 'DELETE' })
+    if (!response.ok) {
+      const data = await response.json()
+      setError(data.error || 'Failed to revoke token')
+    }
+    fetchAll()
+  }
+
+  const copySecret = async () => {
+    if (!createdSecret) return
+    await navigator.clipboard.writeText(createdSecret)
+    setCopied(true)
+  }
+
+  const teamName = (id?: string) => (id ? teams.find(t => t.id === id)?.name || id.slice(0, 8) : 'all teams')
+
+  return (
+    <div className="p-8 max-w-4xl">
+      <div className="flex items-center justify-between mb-6">
+        <div>
+          <h1 className="text-2xl font-bold text-white mb-1">Access Control</h1>
+          <p className="text-gray-400">
+            API tokens with viewer, operator and admin roles
+          </p>
+        </div>
+        <button
+          onClick={fetchAll}
+          disabled={loading}
+          className="flex items-center gap-2 px-3 py-2 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded-lg transition-all disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${loading ? 'animate-spin' : ''}`} />
+          Refresh
+        </button>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 p-4 mb-6 bg-red-500/10 border border-red-500/30 rounded-lg text-red-300">
+          <AlertCircle className="w-5 h-5 flex-shrink-0" />
+          <span>{error}</span>
+          <button onClick={() => setError(null)} className="ml-auto hover:text-red-200">
+            <X className="w-4 h-4" />
+          </button>
+        </div>
+      )}
+
+      {/* Session */}
+      <div className="p-5 mb-6 bg-gray-800/50 rounded-xl border border-gray-700">
+        {principal ? (
+          <div className="flex items-center gap-3">
+            <KeyRound className="w-5 h-5 text-blue-400" />
+            <span className="text-gray-300">
+              Signed in as <span className="font-semibold text-white">{principal.name}</span>
+              <span className="text-gray-500"> ({principal.grants.map(g => `${g.role} · ${teamName(g.teamId)}`).join(', ')})</span>
+            </span>
+            <button
+              onClick={handleLogout}
+              className="ml-auto flex items-center gap-2 px-3 py-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded-lg text-sm transition-all"
+            >
+              <LogOut className="w-4 h-4" />
+              Sign out
+            </button>
+          </div>
+        ) : (
+          <div className="flex items-center gap-3">
+            <input
+              type="password"
+              value={loginToken}
+              onChange={e => setLoginToken(e.target.value)}
+              onKeyDown={e => e.key === 'Enter' && loginToken && handleLogin()}
+              placeholder="Paste an API token to sign in"
+              className="flex-1 px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+            />
+            <button
+              onClick={handleLogin}
+              disabled={!loginToken}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+            >
+              <LogIn className="w-4 h-4" />
+              Sign in
+            </button>
+          </div>
+        )}
+      </div>
+
+      {forbidden ? (
+        <div className="p-5 bg-gray-800/50 rounded-xl border border-gray-700 text-gray-400">
+          Access control is {enabled ? 'enabled' : 'disabled'}. Sign in with an admin token to manage it.
+        </div>
+      ) : (
+        <>
+          {/* Enforcement */}
+          <div className="p-5 mb-6 bg-gray-800/50 rounded-xl border border-gray-700 space-y-4">
+            <div className="flex items-center gap-4">
+              <div className={`w-12 h-12 rounded-lg flex items-center justify-center ${enabled ? 'bg-green-500/10' : 'bg-yellow-500/10'}`}>
+                {enabled ? <Shield className="w-6 h-6 text-green-400" /> : <ShieldOff className="w-6 h-6 text-yellow-400" />}
+              </div>
+              <div className="flex-1">
+                <h3 className="font-semibold text-white">{enabled ? 'Enforced' : 'Disabled'}</h3>
+                <p className="text-sm text-gray-400">
+                  {enabled
+                    ? 'Every API request and terminal connection needs a token with the right role.'
+                    : 'Anyone who can reach this host has full access. Create an admin token, then enable.'}
+                </p>
+              </div>
+              <button
+                onClick={() => updateSettings({ enabled: !enabled })}
+                className={`px-4 py-2 rounded-lg text-sm font-medium transition-all ${
+                  enabled ? 'bg-gray-700 hover:bg-gray-600 text-gray-200' : 'bg-blue-600 hover:bg-blue-500 text-white'
+                }`}
+              >
+                {enabled ? 'Disable' : 'Enable'}
+              </button>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-300">
+              <input
+                type="checkbox"
+                checked={trustLocal}
+                onChange={e => updateSettings({ trustLocal: e.target.checked })}
+                className="rounded border-gray-600 bg-gray-900"
+              />
+              Trust requests from this machine (local agents and scripts act as admin)
+            </label>
+          </div>
+
+          {/* AMP admin agents */}
+          <h2 className="text-lg font-semibold text-white mb-3">Admin Agents</h2>
+          <div className="p-5 mb-6 bg-gray-800/50 rounded-xl border border-gray-700">
+            <p className="text-sm text-gray-400 mb-3">
+              Agents authenticate to AMP with their own API keys. Admin agents may broadcast to every agent with <code className="text-gray-300">*@tenant</code>.
+            </p>
+            {agents.length === 0 ? (
+              <p className="text-sm text-gray-500">No agents registered.</p>
+            ) : (
+              <div className="grid grid-cols-2 gap-2">
+                {agents.map(agent => (
+                  <label key={agent.id} className="flex items-center gap-2 text-sm text-gray-300">
+                    <input
+                      type="checkbox"
+                      checked={adminAgents.includes(agent.id)}
+                      onChange={() => toggleAdminAgent(agent.id)}
+                      className="rounded border-gray-600 bg-gray-900"
+                    />
+                    <span className="truncate">{agent.label || agent.name || agent.alias || agent.id.slice(0, 8)}</span>
+                  </label>
+                ))}
+              </div>
+            )}
+          </div>
+
+          {/* Tokens */}
+          <h2 className="text-lg font-semibold text-white mb-3">Tokens</h2>
+          <div className="p-5 mb-4 bg-gray-800/50 rounded-xl border border-gray-700">
+            <div className="flex flex-wrap items-center gap-3">
+              <input
+                value={name}
+                onChange={e => setName(e.target.value)}
+                placeholder="Name (person or integration)"
+                className="flex-1 min-w-[12rem] px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-white placeholder-gray-500 focus:outline-none focus:border-blue-500"
+              />
+              <select
+                value={role}
+                onChange={e => setRole(e.target.value as AccessRole)}
+                title={ROLES.find(r => r.id === role)?.description}
+                className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none"
+              >
+                {ROLES.map(r => <option key={r.id} value={r.id}>{r.id}</option>)}
+              </select>
+              <select
+                value={teamId}
+                onChange={e => setTeamId(e.target.value)}
+                className="px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-sm text-gray-200 focus:outline-none"
+              >
+                <option value="">All teams</option>
+                {teams.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+              </select>
+              <button
+                onClick={handleCreate}
+                disabled={!name.trim()}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 hover:bg-blue-500 text-white rounded-lg text-sm font-medium transition-all disabled:opacity-50"
+              >
+                <Plus className="w-4 h-4" />
+                Create
+              </button>
+            </div>
+            <p className="text-xs text-gray-500 mt-2">{ROLES.find(r => r.id === role)?.description}</p>
+
+            {createdSecret && (
+              <div className="mt-4 p-3 bg-green-500/10 border border-green-500/30 rounded-lg">
+                <p className="text-sm text-green-300 mb-2">Copy this token now - it will not be shown again.</p>
+                <div className="flex items-center gap-2">
+                  <code className="flex-1 text-xs font-mono text-gray-200 break-all">{createdSecret}</code>
+                  <button onClick={copySecret} className="p-1.5 rounded hover:bg-gray-700 text-gray-300" title="Copy">
+                    {copied ? <Check className="w-4 h-4 text-green-400" /> : <Copy className="w-4 h-4" />}
+                  </button>
+                  <button onClick={() => setCreatedSecret(null)} className="p-1.5 rounded hover:bg-gray-700 text-gray-400" title="Dismiss">
+                    <X className="w-4 h-4" />
+                  </button>
+                </div>
+              </div>
+            )}
+          </div>
+
+          <div className="space-y-2 mb-8">
+            {tokens.length === 0 && <p className="text-sm text-gray-500">No tokens yet</p>}
+            {tokens.map(token => (
+              <div
+                key={token.id}
+                className={`flex items-center gap-4 px-4 py-3 bg-gray-800/50 rounded-lg border border-gray-700 text-sm ${token.revokedAt ? 'opacity-50' : ''}`}
+              >
+                <KeyRound className="w-4 h-4 text-gray-400 flex-shrink-0" />
+                <div className="flex-1 min-w-0">
+                  <div className="text-white font-medium">
+                    {token.name} <span className="font-mono text-xs text-gray-500">{token.prefix}…</span>
+                  </div>
+                  <div className="text-xs text-gray-400">
+                    {token.grants.map(g => `${g.role} · ${teamName(g.teamId)}`).join(', ')}
+                    {' · '}last used {formatDate(token.lastUsedAt)}
+                    {token.expiresAt && ` · expires ${formatDate(token.expiresAt)}`}
+                    {token.revokedAt && ` · revoked ${formatDate(token.revokedAt)}`}
+                  </div>
+                </div>
+                {!token.revokedAt && (
+                  <button
+                    onClick={() => handleRevoke(token.id)}
+                    className="p-2 rounded-lg hover:bg-gray-700 text-gray-400 hover:text-red-400 transition-all"
+                    title="Revoke"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                )}
+              </div>
+            ))}
+          </div>
+
+          {/* Audit */}
+          <h2 className="text-lg font-semibold text-white mb-3">Denied requests</h2>
+          {audit.length === 0 ? (
+            <p className="text-sm text-gray-500">Nothing denied yet</p>
+          ) : (
+            <div className="space-y-1">
+              {audit.map(entry => (
+                <div key={entry.id} className="flex items-center gap-3 px-3 py-2 bg-gray-800/40 rounded text-xs">
+                  <span className="text-gray-500">{formatDate(entry.timestamp)}</span>
+                  <span className="font-mono text-gray-300">{entry.method} {entry.path}</span>
+                  <span className="ml-auto text-gray-400">
+                    {entry.principalName || entry.remoteAddress || 'anonymous'} · {entry.reason} · needs {entry.requiredRole}
+                    {entry.teamId && ` (${teamName(entry.teamId)})`}
+                  </span>
+                </div>
+              ))}
+            </div>
+          )}
+        </>
+      )}
+    </div>
+  )
+}
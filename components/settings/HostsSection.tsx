@@ -1,8 +1,9 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { Server, Plus, Trash2, Edit2, CheckCircle, X, AlertCircle, Loader2, ArrowUpCircle, Package, Users, Wifi, RefreshCw, Link2, Building2 } from 'lucide-react'
+import { Server, Plus, Trash2, Edit2, CheckCircle, X, AlertCircle, Loader2, ArrowUpCircle, Package, Users, Wifi, RefreshCw, Link2, Building2, ShieldCheck, ShieldAlert, ShieldOff, KeyRound, Fingerprint } from 'lucide-react'
 import type { Host } from '@/types/host'
+import type { PeerTrust } from '@/types/host-sync'
 import localVersion from '@/version.json'
 
 interface OrganizationInfo {
@@ -12,6 +13,11 @@ interface OrganizationInfo {
   isSet: boolean
 }
 
+interface MeshTrustInfo {
+  self: { hostId: string; publicKey: string; fingerprint: string }
+  peers: PeerTrust[]
+}
+
 interface SyncResult {
   localAdd: boolean
   backRegistered: boolean
@@ -47,6 +53,8 @@ export default function HostsSection() {
   const [hostVersions, setHostVersions] = useState<Record<string, string>>({})
   const [hostSessionCounts, setHostSessionCounts] = useState<Record<string, number>>({})
   const [organizationInfo, setOrganizationInfo] = useState<OrganizationInfo | null>(null)
+  const [meshTrust, setMeshTrust] = useState<MeshTrustInfo | null>(null)
+  const [pairingToken, setPairingToken] = useState<{ token: string; expiresAt: string } | null>(null)
 
   // Form state
   const [formData, setFormData] = useState<Partial<Host>>({
@@ -63,6 +71,7 @@ export default function HostsSection() {
   useEffect(() => {
     fetchHosts()
     fetchOrganization()
+    fetchMeshTrust()
   }, [])
 
   const fetchOrganization = async () => {
@@ -160,6 +169,70 @@ export default function HostsSection() {
     }
   }
 
+  const fetchMeshTrust = async () => {
+    try {
+      const response = await fetch('/api/hosts/trust')
+      if (response.ok) {
+        setMeshTrust(await response.json())
+      }
+    } catch (err) {
+      console.error('Failed to fetch mesh trust:', err)
+    }
+  }
+
+  const handleTrustChange = async (hostId: string, state: 'trusted' | 'revoked') => {
+    if (state === 'revoked' && !confirm(`Revoke ${hostId}? It will no longer be able to sync with this host.`)) return
+
+    try {
+      const response = await fetch(`/api/hosts/trust/${encodeURIComponent(hostId)}`, {
+        method: 'PUT',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ state }),
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to update peer trust')
+      }
+
+      await Promise.all([fetchHosts(), fetchMeshTrust()])
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to update peer trust')
+    }
+  }
+
+  const handleForgetPeer = async (hostId: string) => {
+    try {
+      const response = await fetch(`/api/hosts/trust/${encodeURIComponent(hostId)}`, {
+        method: 'DELETE',
+      })
+
+      if (!response.ok) {
+        const data = await response.json()
+        throw new Error(data.error || 'Failed to forget peer')
+      }
+
+      await fetchMeshTrust()
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to forget peer')
+    }
+  }
+
+  const handleCreatePairingToken = async () => {
+    try {
+      const response = await fetch('/api/hosts/pairing-token', { method: 'POST' })
+      const data = await response.json()
+
+      if (!response.ok) {
+        throw new Error(data.error || 'Failed to create pairing token')
+      }
+
+      setPairingToken(data)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to create pairing token')
+    }
+  }
+
   const checkHealth = async (host: Host) => {
     setHealthStatus(prev => ({ ...prev, [host.id]: 'checking' }))
 
@@ -189,7 +262,7 @@ export default function HostsSection() {
     }
   }
 
-  const handleAdd = async (hostData: Partial<Host>): Promise<SyncResult | void> => {
+  const handleAdd = async (hostData: Partial<Host> & { pairingToken?: string }): Promise<SyncResult | void> => {
     try {
       const response = await fetch('/api/hosts', {
         method: 'POST',
@@ -203,7 +276,7 @@ export default function HostsSection() {
         throw new Error(data.error || 'Failed to add host')
       }
 
-      await fetchHosts()
+      await Promise.all([fetchHosts(), fetchMeshTrust()])
 
       // Return sync result if available
       if (data.sync) {
@@ -293,6 +366,45 @@ export default function HostsSection() {
     return <div className="w-3 h-3 rounded-full bg-gray-600" />
   }
 
+  const getTrustBadge = (host: Host) => {
+    if (host.isSelf) return null
+
+    const state = host.meshTrust?.state
+    if (state === 'trusted') {
+      return (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-green-500/10 border border-green-500/30 text-green-400 rounded">
+          <ShieldCheck className="w-3 h-3" />
+          Trusted
+        </span>
+      )
+    }
+    if (state === 'pending') {
+      return (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-yellow-500/10 border border-yellow-500/30 text-yellow-400 rounded">
+          <ShieldAlert className="w-3 h-3" />
+          Pending approval
+        </span>
+      )
+    }
+    if (state === 'revoked') {
+      return (
+        <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-red-500/10 border border-red-500/30 text-red-400 rounded">
+          <ShieldOff className="w-3 h-3" />
+          Revoked
+        </span>
+      )
+    }
+    return (
+      <span className="flex items-center gap-1 px-2 py-0.5 text-xs bg-gray-500/10 border border-gray-500/30 text-gray-400 rounded">
+        <ShieldAlert className="w-3 h-3" />
+        Key not pinned
+      </span>
+    )
+  }
+
+  // Peers that have signed requests to us but are not in the host list
+  const unlistedPeers = (meshTrust?.peers || []).filter(peer => !hosts.some(h => h.id === peer.hostId))
+
   if (loading) {
     return (
       <div className="flex items-center justify-center h-64">
@@ -390,6 +502,89 @@ export default function HostsSection() {
         </div>
       )}
 
+      {/* Mesh Identity */}
+      {meshTrust && (
+        <div className="p-4 bg-gray-800/30 border border-gray-700 rounded-lg">
+          <div className="flex items-start justify-between gap-4">
+            <div className="min-w-0">
+              <div className="flex items-center gap-2 mb-1">
+                <Fingerprint className="w-4 h-4 text-blue-400" />
+                <h3 className="text-sm font-medium text-white">This host&apos;s mesh key</h3>
+              </div>
+              <code className="block text-xs text-gray-400 break-all">{meshTrust.self.fingerprint}</code>
+              <p className="text-xs text-gray-500 mt-1">
+                Peers pin this key on first contact. Compare it with what they show before approving.
+              </p>
+            </div>
+            <button
+              onClick={handleCreatePairingToken}
+              className="flex items-center gap-2 px-3 py-1.5 text-sm bg-gray-700 hover:bg-gray-600 rounded-lg transition-colors flex-shrink-0"
+              title="Let a new host join without manual approval"
+            >
+              <KeyRound className="w-4 h-4" />
+              Pairing token
+            </button>
+          </div>
+
+          {pairingToken && (
+            <div className="mt-3 p-3 bg-blue-500/10 border border-blue-500/30 rounded-lg">
+              <div className="flex items-center justify-between gap-2">
+                <code className="text-sm text-blue-300 break-all select-all">{pairingToken.token}</code>
+                <button
+                  onClick={() => setPairingToken(null)}
+                  className="text-gray-400 hover:text-white"
+                  title="Dismiss"
+                >
+                  <X className="w-4 h-4" />
+                </button>
+              </div>
+              <p className="text-xs text-gray-500 mt-1">
+                Enter this on the other host when adding this one. Works once, expires {new Date(pairingToken.expiresAt).toLocaleTimeString()}.
+              </p>
+            </div>
+          )}
+
+          {unlistedPeers.length > 0 && (
+            <div className="mt-4 pt-3 border-t border-gray-700 space-y-2">
+              <h4 className="text-xs font-medium text-gray-400 uppercase tracking-wide">Other known keys</h4>
+              {unlistedPeers.map(peer => (
+                <div key={peer.hostId} className="flex items-center justify-between gap-3 text-sm">
+                  <div className="min-w-0">
+                    <div className="flex items-center gap-2">
+                      <span className="text-white">{peer.name || peer.hostId}</span>
+                      <span className={`text-xs ${
+                        peer.state === 'trusted' ? 'text-green-400' : peer.state === 'revoked' ? 'text-red-400' : 'text-yellow-400'
+                      }`}>
+                        {peer.state}
+                      </span>
+                    </div>
+                    <code className="block text-xs text-gray-500 truncate" title={peer.fingerprint}>{peer.fingerprint}</code>
+                  </div>
+                  <div className="flex items-center gap-1 flex-shrink-0">
+                    {peer.state !== 'trusted' && (
+                      <button
+                        onClick={() => handleTrustChange(peer.hostId, 'trusted')}
+                        className="p-1.5 hover:bg-gray-700 rounded transition-colors"
+                        title="Approve"
+                      >
+                        <ShieldCheck className="w-4 h-4 text-green-400" />
+                      </button>
+                    )}
+                    <button
+                      onClick={() => handleForgetPeer(peer.hostId)}
+                      className="p-1.5 hover:bg-gray-700 rounded transition-colors"
+                      title="Forget key"
+                    >
+                      <Trash2 className="w-4 h-4 text-gray-400" />
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      )}
+
       {/* Edit Form */}
       {editingId && (
         <EditHostForm
@@ -429,11 +624,23 @@ export default function HostsSection() {
                         Disabled
                       </span>
                     )}
+                    {getTrustBadge(host)}
                   </div>
 
                   {/* URL */}
                   <div className="text-sm text-gray-400 mb-3">
                     <code className="text-gray-500">{host.url}</code>
+                    {host.meshTrust && (
+                      <div className="flex items-center gap-1.5 mt-1 text-xs text-gray-500" title="Mesh key fingerprint">
+                        <Fingerprint className="w-3 h-3 flex-shrink-0" />
+                        <code className="truncate">{host.meshTrust.fingerprint}</code>
+                      </div>
+                    )}
+                    {host.meshTrust?.state === 'pending' && host.meshTrust.introducedBy && (
+                      <div className="mt-1 text-xs text-yellow-400/80">
+                        Introduced by {host.meshTrust.introducedBy}; compare the fingerprint before approving
+                      </div>
+                    )}
                   </div>
 
                   {host.description && (
@@ -533,6 +740,25 @@ export default function HostsSection() {
 
               {/* Actions */}
               <div className="flex items-center gap-2 ml-4">
+                {host.meshTrust && host.meshTrust.state !== 'trusted' && (
+                  <button
+                    onClick={() => handleTrustChange(host.id, 'trusted')}
+                    className="p-2 hover:bg-gray-700 rounded transition-colors"
+                    title="Approve this host's key"
+                  >
+                    <ShieldCheck className="w-4 h-4 text-green-400" />
+                  </button>
+                )}
+                {host.meshTrust?.state === 'trusted' && (
+                  <button
+                    onClick={() => handleTrustChange(host.id, 'revoked')}
+                    className="p-2 hover:bg-gray-700 rounded transition-colors"
+                    title="Revoke this host's key"
+                  >
+                    <ShieldOff className="w-4 h-4 text-gray-400" />
+                  </button>
+                )}
+
                 {host.type === 'remote' && (
                   <button
                     onClick={() => checkHealth(host)}
@@ -594,7 +820,7 @@ function AddHostWizard({
   onAdd,
   onClose,
 }: {
-  onAdd: (host: Partial<Host>) => Promise<SyncResult | void>
+  onAdd: (host: Partial<Host> & { pairingToken?: string }) => Promise<SyncResult | void>
   onClose: () => void
 }) {
   const [step, setStep] = useState<'url' | 'details' | 'success'>('url')
@@ -602,6 +828,8 @@ function AddHostWizard({
   const [discovering, setDiscovering] = useState(false)
   const [discoveryError, setDiscoveryError] = useState<string | null>(null)
   const [syncResult, setSyncResult] = useState<SyncResult | null>(null)
+  const [remoteFingerprint, setRemoteFingerprint] = useState<string | null>(null)
+  const [pairingToken, setPairingToken] = useState('')
   const [hostData, setHostData] = useState<Partial<Host>>({
     id: '',
     name: '',
@@ -635,6 +863,8 @@ function AddHostWizard({
       if (!response.ok) {
         throw new Error('Host is not reachable or is not an AI Maestro instance')
       }
+      const health = await response.json()
+      setRemoteFingerprint(health.fingerprint || null)
 
       // Generate suggested ID from hostname
       const hostname = parsedUrl.hostname.replace(/\./g, '-')
@@ -666,7 +896,7 @@ function AddHostWizard({
 
   const handleSave = async () => {
     try {
-      const result = await onAdd(hostData)
+      const result = await onAdd({ ...hostData, pairingToken: pairingToken.trim() || undefined })
       if (result) {
         setSyncResult(result)
       }
@@ -820,6 +1050,29 @@ function AddHostWizard({
                 </label>
               </div>
 
+              <div className="p-3 bg-gray-900/50 border border-gray-700 rounded-lg">
+                <div className="flex items-center gap-1.5 text-xs text-gray-400 mb-1">
+                  <Fingerprint className="w-3.5 h-3.5" />
+                  Remote key fingerprint
+                </div>
+                <code className="block text-xs text-gray-300 break-all">
+                  {remoteFingerprint || 'Not reported (host may need updating)'}
+                </code>
+                <label className="block text-sm font-medium text-gray-300 mt-3 mb-2">
+                  Pairing Token (Optional)
+                </label>
+                <input
+                  type="text"
+                  value={pairingToken}
+                  onChange={(e) => setPairingToken(e.target.value)}
+                  placeholder="pair_..."
+                  className="w-full px-3 py-2 bg-gray-900 border border-gray-700 rounded-lg text-white placeholder-gray-500 focus:outline-none focus:border-blue-500 font-mono text-sm"
+                />
+                <p className="mt-1 text-xs text-gray-500">
+                  Generate one on the remote host so it trusts this host right away. Without it, approve this host there.
+                </p>
+              </div>
+
               {discoveryError && (
                 <div className="flex items-start gap-2 p-3 bg-red-500/10 border border-red-500/30 rounded-lg text-red-400">
                   <AlertCircle className="w-5 h-5 flex-shrink-0 mt-0.5" />
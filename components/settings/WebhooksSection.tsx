@@ -1,19 +1,193 @@
 'use client'
 
-import React, { useState, useEffect } from 'react'
+import React, { useState, useEffect, useCallback } from 'react'
 import {
   Webhook, Plus, Trash2, RefreshCw, X, AlertCircle,
-  Check, Copy, PlayCircle, CheckCircle, XCircle, Clock
+  Check, Copy, PlayCircle, CheckCircle, XCircle, Clock, History, RotateCcw,
+  ChevronDown, ChevronRight
 } from 'lucide-react'
-import type { WebhookSubscription, CreateWebhookRequest, WebhookEventType } from '@/types/agent'
+import type {
+  WebhookSubscription,
+  CreateWebhookRequest,
+  WebhookEventType,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+} from '@/types/agent'
 
 const VALID_EVENTS: { id: WebhookEventType; label: string; description: string }[] = [
   { id: 'agent.email.changed', label: 'Email Changed', description: 'When an agent adds or removes email addresses' },
   { id: 'agent.created', label: 'Agent Created', description: 'When a new agent is registered' },
   { id: 'agent.deleted', label: 'Agent Deleted', description: 'When an agent is removed' },
   { id: 'agent.updated', label: 'Agent Updated', description: 'When agent metadata is modified' },
+  { id: 'task.created', label: 'Task Created', description: 'When a task is added to a team board' },
+  { id: 'task.status_changed', label: 'Task Status Changed', description: 'When a task moves between kanban columns' },
+  { id: 'task.assigned', label: 'Task Assigned', description: 'When a task is assigned or reassigned to an agent' },
+  { id: 'task.unblocked', label: 'Task Unblocked', description: 'When completing or deleting a task frees its dependents' },
+  { id: 'task.deleted', label: 'Task Deleted', description: 'When a task is removed from a team board' },
+  { id: 'meeting.started', label: 'Meeting Started', description: 'When a team meeting begins' },
+  { id: 'meeting.ended', label: 'Meeting Ended', description: 'When a team meeting ends' },
 ]
 
+const DELIVERY_STATUS_STYLES: Record<WebhookDeliveryStatus, string> = {
+  pending: 'bg-gray-500/20 text-gray-300',
+  retrying: 'bg-yellow-500/20 text-yellow-400',
+  delivered: 'bg-green-500/20 text-green-400',
+  dead: 'bg-red-500/20 text-red-400',
+}
+
+/**
+ * Delivery history for one webhook: status, attempts (response code, latency)
+ * and the exact request body, with manual redelivery.
+ */
+function WebhookDeliveries({ webhookId, formatDate }: {
+  webhookId: string
+  formatDate: (dateStr: string) => string
+}) {
+  const [deliveries, setDeliveries] = useState<WebhookDelivery[]>([])
+  const [loading, setLoading] = useState(true)
+  const [error, setError] = useState<string | null>(null)
+  const [expandedId, setExpandedId] = useState<string | null>(null)
+  const [redeliveringId, setRedeliveringId] = useState<string | null>(null)
+
+  const fetchDeliveries = useCallback(async () => {
+    setLoading(true)
+    setError(null)
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}/deliveries?limit=25`)
+      const data = await response.json()
+      if (response.ok) {
+        setDeliveries(data.deliveries || [])
+      } else {
+        setError(data.error || 'Failed to load deliveries')
+      }
+    } catch (err) {
+      setError('Failed to connect to server')
+    } finally {
+      setLoading(false)
+    }
+  }, [webhookId])
+
+  useEffect(() => {
+    fetchDeliveries()
+  }, [fetchDeliveries])
+
+  const handleRedeliver = async (deliveryId: string) => {
+    setRedeliveringId(deliveryId)
+    try {
+      const response = await fetch(`/api/webhooks/${webhookId}/deliveries/${deliveryId}/redeliver`, {
+        method: 'POST',
+      })
+      if (!response.ok) {
+        const err = await response.json()
+        setError(err.error || 'Redelivery failed')
+      }
+      fetchDeliveries()
+    } catch (err) {
+      setError('Failed to connect to server')
+    } finally {
+      setRedeliveringId(null)
+    }
+  }
+
+  return (
+    <div className="border-t border-gray-700 bg-gray-900/40 px-5 py-4">
+      <div className="flex items-center justify-between mb-3">
+        <h4 className="text-sm font-semibold text-gray-300">Recent deliveries</h4>
+        <button
+          onClick={fetchDeliveries}
+          disabled={loading}
+          className="p-1 rounded hover:bg-gray-700 text-gray-400 hover:text-gray-200 transition-all disabled:opacity-50"
+          title="Refresh deliveries"
+        >
+          <RefreshCw className={`w-3.5 h-3.5 ${loading ? 'animate-spin' : ''}`} />
+        </button>
+      </div>
+
+      {error && <p className="text-sm text-red-300 mb-2">{error}</p>}
+
+      {!loading && deliveries.length === 0 ? (
+        <p className="text-sm text-gray-500">No deliveries yet</p>
+      ) : (
+        <div className="space-y-1.5">
+          {deliveries.map((delivery) => {
+            const lastAttempt = delivery.attempts[delivery.attempts.length - 1]
+            const expanded = expandedId === delivery.id
+            return (
+              <div key={delivery.id} className="rounded-lg bg-gray-800/60 border border-gray-700/60">
+                <div className="flex items-center gap-3 px-3 py-2 text-xs">
+                  <button
+                    onClick={() => setExpandedId(expanded ? null : delivery.id)}
+                    className="text-gray-400 hover:text-gray-200"
+                  >
+                    {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                  </button>
+                  <span className={`px-2 py-0.5 rounded ${DELIVERY_STATUS_STYLES[delivery.status]}`}>
+                    {delivery.status}
+                  </span>
+                  <span className="font-mono text-gray-300">{delivery.event}</span>
+                  <span className="text-gray-500">{formatDate(delivery.createdAt)}</span>
+                  <span className="ml-auto flex items-center gap-3 text-gray-400">
+                    {lastAttempt && (
+                      <>
+                        <span>{lastAttempt.responseStatus ?? 'no response'}</span>
+                        <span>{lastAttempt.latencyMs} ms</span>
+                      </>
+                    )}
+                    <span>{delivery.attempts.length} attempt{delivery.attempts.length === 1 ? '' : 's'}</span>
+                    <button
+                      onClick={() => handleRedeliver(delivery.id)}
+                      disabled={redeliveringId === delivery.id}
+                      className="p-1 rounded hover:bg-gray-700 hover:text-blue-400 transition-all disabled:opacity-50"
+                      title="Redeliver"
+                    >
+                      <RotateCcw className={`w-3.5 h-3.5 ${redeliveringId === delivery.id ? 'animate-spin' : ''}`} />
+                    </button>
+                  </span>
+                </div>
+
+                {expanded && (
+                  <div className="px-3 pb-3 space-y-2">
+                    {delivery.nextAttemptAt && delivery.status === 'retrying' && (
+                      <p className="text-xs text-yellow-400">Next retry {formatDate(delivery.nextAttemptAt)}</p>
+                    )}
+                    {delivery.attempts.length > 0 && (
+                      <table className="w-full text-xs text-gray-400">
+                        <thead>
+                          <tr className="text-left text-gray-500">
+                            <th className="font-normal pr-3">#</th>
+                            <th className="font-normal pr-3">Time</th>
+                            <th className="font-normal pr-3">Response</th>
+                            <th className="font-normal pr-3">Latency</th>
+                            <th className="font-normal">Error</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {delivery.attempts.map((attempt) => (
+                            <tr key={attempt.attempt}>
+                              <td className="pr-3">{attempt.attempt}</td>
+                              <td className="pr-3">{formatDate(attempt.attemptedAt)}</td>
+                              <td className="pr-3">{attempt.responseStatus ?? '-'}</td>
+                              <td className="pr-3">{attempt.latencyMs} ms</td>
+                              <td className="text-red-300 truncate">{attempt.error || ''}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    )}
+                    <pre className="text-xs text-gray-300 bg-gray-950/60 rounded p-2 overflow-x-auto max-h-48">
+                      {JSON.stringify(JSON.parse(delivery.requestBody), null, 2)}
+                    </pre>
+                  </div>
+                )}
+              </div>
+            )
+          })}
+        </div>
+      )}
+    </div>
+  )
+}
+
 export default function WebhooksSection() {
   const [webhooks, setWebhooks] = useState<WebhookSubscription[]>([])
   const [loading, setLoading] = useState(true)
@@ -23,6 +197,7 @@ export default function WebhooksSection() {
   const [testingId, setTestingId] = useState<string | null>(null)
   const [testResult, setTestResult] = useState<{ id: string; success: boolean; message: string } | null>(null)
   const [copiedSecret, setCopiedSecret] = useState<string | null>(null)
+  const [historyId, setHistoryId] = useState<string | null>(null)
 
   // Create form state
   const [newUrl, setNewUrl] = useState('')
@@ -329,6 +504,15 @@ export default function WebhooksSection() {
                         <PlayCircle className="w-4 h-4" />
                       )}
                     </button>
+                    <button
+                      onClick={() => setHistoryId(historyId === webhook.id ? null : webhook.id)}
+                      className={`p-2 rounded-lg hover:bg-gray-700 transition-all ${
+                        historyId === webhook.id ? 'text-blue-400' : 'text-gray-400 hover:text-gray-200'
+                      }`}
+                      title="Delivery history"
+                    >
+                      <History className="w-4 h-4" />
+                    </button>
                     <button
                       onClick={() => copySecret(webhook.id)}
                       className="p-2 rounded-lg hover:bg-gray-700 text-gray-400 hover:text-gray-200 transition-all"
@@ -350,6 +534,10 @@ export default function WebhooksSection() {
                   </div>
                 </div>
               </div>
+
+              {historyId === webhook.id && (
+                <WebhookDeliveries webhookId={webhook.id} formatDate={formatDate} />
+              )}
             </div>
           ))}
         </div>
@@ -365,7 +553,8 @@ export default function WebhooksSection() {
           <li>• When an event occurs, AI Maestro sends an HTTP POST to your URL</li>
           <li>• Payloads include a <code className="text-blue-300 bg-blue-500/10 px-1 rounded">X-Webhook-Signature</code> header (HMAC SHA-256)</li>
           <li>• Use your webhook secret to verify the signature and ensure authenticity</li>
-          <li>• Failed deliveries are retried with exponential backoff</li>
+          <li>• Failed deliveries are retried with exponential backoff; after 8 attempts they are marked dead</li>
+          <li>• Open a webhook&apos;s delivery history to inspect attempts or redeliver a payload</li>
         </ul>
       </div>
 
@@ -379,7 +568,7 @@ export default function WebhooksSection() {
               </div>
               <div>
                 <h3 className="text-lg font-semibold text-gray-100">Create Webhook</h3>
-                <p className="text-sm text-gray-400">Subscribe to agent identity events</p>
+                <p className="text-sm text-gray-400">Subscribe to agent, task and meeting events</p>
               </div>
             </div>
 
@@ -1,6 +1,6 @@
 'use client'
 
-import { Archive, Circle, PlayCircle, Eye, CheckCircle2, Lock, User } from 'lucide-react'
+import { Archive, Circle, PlayCircle, Eye, CheckCircle2, Lock, User, Repeat, CalendarClock } from 'lucide-react'
 import type { TaskWithDeps, TaskStatus } from '@/types/task'
 
 interface KanbanCardProps {
@@ -18,6 +18,7 @@ const statusIcon: Record<TaskStatus, typeof Circle> = {
 
 export default function KanbanCard({ task, onSelect }: KanbanCardProps) {
   const Icon = statusIcon[task.status]
+  const isOverdue = !!task.dueAt && task.status !== 'completed' && new Date(task.dueAt).getTime() < Date.now()
 
   const handleDragStart = (e: React.DragEvent) => {
     if (task.isBlocked) {
@@ -61,6 +62,19 @@ export default function KanbanCard({ task, onSelect }: KanbanCardProps) {
 
         <div className="flex-1" />
 
+        {task.recurrence && (
+          <span title="Recurring template">
+            <Repeat className="w-3 h-3 text-violet-400/80 flex-shrink-0" />
+          </span>
+        )}
+
+        {task.dueAt && (
+          <span className={`flex items-center gap-1 text-[10px] flex-shrink-0 ${isOverdue ? 'text-red-400' : 'text-gray-500'}`}>
+            <CalendarClock className="w-2.5 h-2.5" />
+            {new Date(task.dueAt).toLocaleDateString(undefined, { month: 'short', day: 'numeric' })}
+          </span>
+        )}
+
         {task.blockedBy.length > 0 && (
           <span className="text-[10px] text-amber-500/70 flex-shrink-0">
             {task.blockedBy.length} dep{task.blockedBy.length > 1 ? 's' : ''}
@@ -593,6 +593,8 @@ export default function MeetingRoom({ meetingId, teamParam }: MeetingRoomProps)
                   onUpdateTask={taskHook.updateTask}
                   onDeleteTask={taskHook.deleteTask}
                   onCreateTask={taskHook.createTask}
+                  onImportPlan={taskHook.importPlan}
+                  onExportPlan={taskHook.exportPlan}
                   onClose={() => dispatch({ type: 'CLOSE_KANBAN' })}
                   teamName={state.teamName}
                 />
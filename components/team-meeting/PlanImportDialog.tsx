@@ -0,0 +1,124 @@
+'use client'
+
+import { useState } from 'react'
+import { X, Upload, FileDown } from 'lucide-react'
+import type { TaskPlanFormat } from '@/types/task'
+import type { TeamDocument } from '@/types/document'
+
+interface PlanImportDialogProps {
+  onImport: (content: string, format?: TaskPlanFormat) => Promise<number>
+  onExport?: (title?: string) => Promise<TeamDocument | null>
+  onClose: () => void
+}
+
+const PLACEHOLDER = `## Release
+1. [ ] Design the schema @backend
+2. [ ] Build the API @backend
+   - [ ] Auth endpoints
+   - [ ] CRUD endpoints
+- [ ] Write docs @writer {after=item-1}`
+
+export default function PlanImportDialog({ onImport, onExport, onClose }: PlanImportDialogProps) {
+  const [content, setContent] = useState('')
+  const [format, setFormat] = useState<TaskPlanFormat | ''>('')
+  const [busy, setBusy] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const [notice, setNotice] = useState<string | null>(null)
+
+  const handleImport = async () => {
+    if (!content.trim()) return
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const count = await onImport(content, format || undefined)
+      setNotice(`Imported ${count} task${count !== 1 ? 's' : ''}`)
+      setContent('')
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to import plan')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  const handleExport = async () => {
+    if (!onExport) return
+    setBusy(true)
+    setError(null)
+    setNotice(null)
+    try {
+      const document = await onExport()
+      if (document) setNotice(`Saved board to document "${document.title}"`)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to export plan')
+    } finally {
+      setBusy(false)
+    }
+  }
+
+  return (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
+      <div
+        className="w-full max-w-lg bg-gray-900 border border-gray-700 rounded-xl shadow-2xl overflow-hidden p-4 space-y-3"
+        onClick={e => e.stopPropagation()}
+      >
+        <div className="flex items-center justify-between">
+          <h4 className="text-sm font-medium text-gray-200">Import plan</h4>
+          <button onClick={onClose} className="p-1 hover:bg-gray-800 rounded">
+            <X className="w-4 h-4 text-gray-500" />
+          </button>
+        </div>
+
+        <p className="text-[11px] text-gray-500">
+          Paste a markdown checklist or a JSON/YAML plan. Nested items block their parent,
+          numbered items run in order, and <span className="font-mono">@agent</span> assigns a task.
+        </p>
+
+        <textarea
+          value={content}
+          onChange={e => setContent(e.target.value)}
+          placeholder={PLACEHOLDER}
+          rows={10}
+          className="w-full text-xs font-mono bg-gray-800/60 text-gray-300 placeholder-gray-600 rounded-lg px-3 py-2 resize-none focus:outline-none focus:ring-1 focus:ring-emerald-600 border border-gray-700"
+        />
+
+        {error && <p className="text-[11px] text-red-400">{error}</p>}
+        {notice && <p className="text-[11px] text-emerald-400">{notice}</p>}
+
+        <div className="flex items-center justify-between gap-2">
+          <div className="flex items-center gap-2">
+            <select
+              value={format}
+              onChange={e => setFormat(e.target.value as TaskPlanFormat | '')}
+              className="text-xs bg-gray-800/60 text-gray-300 rounded px-2 py-1.5 border border-gray-700 focus:outline-none"
+            >
+              <option value="">Auto-detect</option>
+              <option value="markdown">Markdown</option>
+              <option value="json">JSON</option>
+              <option value="yaml">YAML</option>
+            </select>
+            {onExport && (
+              <button
+                onClick={handleExport}
+                disabled={busy}
+                className="flex items-center gap-1 text-xs px-2.5 py-1.5 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors disabled:opacity-50"
+                title="Save the current board as a team document"
+              >
+                <FileDown className="w-3 h-3" />
+                Export board
+              </button>
+            )}
+          </div>
+          <button
+            onClick={handleImport}
+            disabled={busy || !content.trim()}
+            className="flex items-center gap-1 text-xs px-3 py-1.5 bg-emerald-600 hover:bg-emerald-500 text-white rounded transition-colors disabled:opacity-50"
+          >
+            <Upload className="w-3 h-3" />
+            {busy ? 'Working...' : 'Import'}
+          </button>
+        </div>
+      </div>
+    </div>
+  )
+}
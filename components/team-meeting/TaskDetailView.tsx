@@ -1,25 +1,46 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { X, Trash2, Archive, Circle, PlayCircle, Eye, CheckCircle2, Lock } from 'lucide-react'
+import { X, Trash2, Archive, Circle, PlayCircle, Eye, CheckCircle2, Lock, Repeat } from 'lucide-react'
 import type { Agent } from '@/types/agent'
-import type { TaskWithDeps, TaskStatus } from '@/types/task'
+import type { TaskWithDeps, TaskStatus, TaskRecurrenceInput } from '@/types/task'
+import type { TaskUpdate } from '@/hooks/useTasks'
 import DependencyPicker from './DependencyPicker'
+import TaskTimeline from './TaskTimeline'
 
 interface TaskDetailViewProps {
   task: TaskWithDeps
   agents: Agent[]
   allTasks: TaskWithDeps[]
-  onUpdate: (taskId: string, updates: { subject?: string; description?: string; status?: TaskStatus; assigneeAgentId?: string | null; blockedBy?: string[] }) => Promise<void>
+  onUpdate: (taskId: string, updates: TaskUpdate) => Promise<void>
   onDelete: (taskId: string) => Promise<void>
   onClose: () => void
 }
 
+type RepeatMode = 'none' | 'cron' | 'interval'
+
+/** ISO timestamp -> value for a datetime-local input (local time) */
+function toLocalInput(iso?: string): string {
+  if (!iso) return ''
+  const date = new Date(iso)
+  return new Date(date.getTime() - date.getTimezoneOffset() * 60000).toISOString().slice(0, 16)
+}
+
+function repeatModeOf(recurrence: TaskWithDeps['recurrence']): RepeatMode {
+  if (recurrence?.cron) return 'cron'
+  if (recurrence?.intervalMinutes) return 'interval'
+  return 'none'
+}
+
 export default function TaskDetailView({ task, agents, allTasks, onUpdate, onDelete, onClose }: TaskDetailViewProps) {
   const [subject, setSubject] = useState(task.subject)
   const [description, setDescription] = useState(task.description || '')
   const [assigneeAgentId, setAssigneeAgentId] = useState(task.assigneeAgentId || '')
   const [blockedBy, setBlockedBy] = useState<string[]>(task.blockedBy)
+  const [dueAt, setDueAt] = useState(toLocalInput(task.dueAt))
+  const [repeatMode, setRepeatMode] = useState<RepeatMode>(repeatModeOf(task.recurrence))
+  const [cron, setCron] = useState(task.recurrence?.cron || '0 9 * * 1')
+  const [intervalMinutes, setIntervalMinutes] = useState(String(task.recurrence?.intervalMinutes || 1440))
   const [saving, setSaving] = useState(false)
   const [confirmDelete, setConfirmDelete] = useState(false)
 
@@ -29,7 +50,22 @@ export default function TaskDetailView({ task, agents, allTasks, onUpdate, onDel
     setDescription(task.description || '')
     setAssigneeAgentId(task.assigneeAgentId || '')
     setBlockedBy(task.blockedBy)
-  }, [task.id, task.subject, task.description, task.assigneeAgentId, task.blockedBy])
+    setDueAt(toLocalInput(task.dueAt))
+    setRepeatMode(repeatModeOf(task.recurrence))
+    setCron(task.recurrence?.cron || '0 9 * * 1')
+    setIntervalMinutes(String(task.recurrence?.intervalMinutes || 1440))
+  }, [task.id, task.subject, task.description, task.assigneeAgentId, task.blockedBy, task.dueAt, task.recurrence])
+
+  const recurrenceInput: TaskRecurrenceInput | null = repeatMode === 'cron'
+    ? { cron: cron.trim(), dueInMinutes: task.recurrence?.dueInMinutes }
+    : repeatMode === 'interval'
+      ? { intervalMinutes: parseInt(intervalMinutes, 10) || 0, dueInMinutes: task.recurrence?.dueInMinutes }
+      : null
+
+  const dueAtChanged = dueAt !== toLocalInput(task.dueAt)
+  const recurrenceChanged = repeatMode !== repeatModeOf(task.recurrence)
+    || (repeatMode === 'cron' && cron.trim() !== task.recurrence?.cron)
+    || (repeatMode === 'interval' && parseInt(intervalMinutes, 10) !== task.recurrence?.intervalMinutes)
 
   const handleSave = async () => {
     setSaving(true)
@@ -39,6 +75,8 @@ export default function TaskDetailView({ task, agents, allTasks, onUpdate, onDel
         description: description.trim() || undefined,
         assigneeAgentId: assigneeAgentId || null,
         blockedBy,
+        ...(dueAtChanged ? { dueAt: dueAt ? new Date(dueAt).toISOString() : null } : {}),
+        ...(recurrenceChanged ? { recurrence: recurrenceInput } : {}),
       })
     } finally {
       setSaving(false)
@@ -63,6 +101,8 @@ export default function TaskDetailView({ task, agents, allTasks, onUpdate, onDel
     || description !== (task.description || '')
     || assigneeAgentId !== (task.assigneeAgentId || '')
     || JSON.stringify(blockedBy) !== JSON.stringify(task.blockedBy)
+    || dueAtChanged
+    || recurrenceChanged
 
   return (
     <div className="flex flex-col h-full">
@@ -154,12 +194,67 @@ export default function TaskDetailView({ task, agents, allTasks, onUpdate, onDel
           excludeTaskId={task.id}
         />
 
+        {/* Schedule */}
+        <div>
+          <label className="text-[10px] text-gray-500 uppercase tracking-wider">Due</label>
+          <input
+            type="datetime-local"
+            value={dueAt}
+            onChange={e => setDueAt(e.target.value)}
+            className="w-full text-[11px] bg-gray-800/50 text-gray-300 rounded px-2 py-1 mt-1 focus:outline-none focus:ring-1 focus:ring-gray-600"
+          />
+        </div>
+
+        <div>
+          <label className="flex items-center gap-1 text-[10px] text-gray-500 uppercase tracking-wider">
+            <Repeat className="w-3 h-3" />
+            Repeat
+          </label>
+          <div className="flex gap-1 mt-1">
+            <select
+              value={repeatMode}
+              onChange={e => setRepeatMode(e.target.value as RepeatMode)}
+              className="text-[11px] bg-gray-800/50 text-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-600"
+            >
+              <option value="none">Never</option>
+              <option value="cron">Cron</option>
+              <option value="interval">Every N minutes</option>
+            </select>
+            {repeatMode === 'cron' && (
+              <input
+                type="text"
+                value={cron}
+                onChange={e => setCron(e.target.value)}
+                placeholder="0 9 * * 1"
+                className="flex-1 min-w-0 text-[11px] font-mono bg-gray-800/50 text-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-600"
+              />
+            )}
+            {repeatMode === 'interval' && (
+              <input
+                type="number"
+                min={1}
+                value={intervalMinutes}
+                onChange={e => setIntervalMinutes(e.target.value)}
+                className="flex-1 min-w-0 text-[11px] bg-gray-800/50 text-gray-300 rounded px-2 py-1 focus:outline-none focus:ring-1 focus:ring-gray-600"
+              />
+            )}
+          </div>
+          {task.recurrence && (
+            <p className="text-[10px] text-violet-400/80 mt-1">
+              Template — next instance {new Date(task.recurrence.nextRunAt).toLocaleString()}
+            </p>
+          )}
+        </div>
+
         {/* Timestamps */}
         <div className="text-[10px] text-gray-600 space-y-0.5 pt-2 border-t border-gray-800/50">
           <p>Created: {new Date(task.createdAt).toLocaleString()}</p>
           {task.startedAt && <p>Started: {new Date(task.startedAt).toLocaleString()}</p>}
           {task.completedAt && <p>Completed: {new Date(task.completedAt).toLocaleString()}</p>}
         </div>
+
+        {/* Activity, comments & attachments */}
+        <TaskTimeline task={task} agents={agents} allTasks={allTasks} />
       </div>
 
       {/* Footer */}
@@ -1,12 +1,14 @@
 'use client'
 
 import { useState, useEffect } from 'react'
-import { X, Archive, Circle, PlayCircle, Eye, CheckCircle2 } from 'lucide-react'
+import { X, Archive, Circle, PlayCircle, Eye, CheckCircle2, ListChecks } from 'lucide-react'
 import type { Agent } from '@/types/agent'
-import type { TaskWithDeps, TaskStatus } from '@/types/task'
+import type { TaskWithDeps, TaskStatus, TaskPlanFormat } from '@/types/task'
+import type { TeamDocument } from '@/types/document'
 import KanbanColumn from './KanbanColumn'
 import TaskDetailView from './TaskDetailView'
 import TaskCreateForm from './TaskCreateForm'
+import PlanImportDialog from './PlanImportDialog'
 
 const COLUMNS: { status: TaskStatus; label: string; dotColor: string; icon: typeof Circle }[] = [
   { status: 'backlog', label: 'Backlog', dotColor: 'bg-gray-500', icon: Archive },
@@ -23,6 +25,8 @@ interface TaskKanbanBoardProps {
   onUpdateTask: (taskId: string, updates: { status?: TaskStatus; [key: string]: unknown }) => Promise<{ unblocked: TaskWithDeps[] }>
   onDeleteTask: (taskId: string) => Promise<void>
   onCreateTask: (data: { subject: string; description?: string; assigneeAgentId?: string; blockedBy?: string[]; priority?: number }) => Promise<void>
+  onImportPlan?: (content: string, format?: TaskPlanFormat) => Promise<number>
+  onExportPlan?: (title?: string) => Promise<TeamDocument | null>
   onClose?: () => void
   teamName: string
 }
@@ -34,23 +38,27 @@ export default function TaskKanbanBoard({
   onUpdateTask,
   onDeleteTask,
   onCreateTask,
+  onImportPlan,
+  onExportPlan,
   onClose,
   teamName,
 }: TaskKanbanBoardProps) {
   const [selectedTask, setSelectedTask] = useState<TaskWithDeps | null>(null)
   const [quickAddStatus, setQuickAddStatus] = useState<TaskStatus | null>(null)
+  const [planOpen, setPlanOpen] = useState(false)
 
   useEffect(() => {
     const handleKeyDown = (e: KeyboardEvent) => {
       if (e.key === 'Escape') {
         if (selectedTask) { setSelectedTask(null) }
         else if (quickAddStatus !== null) { setQuickAddStatus(null) }
+        else if (planOpen) { setPlanOpen(false) }
         else { onClose?.() }
       }
     }
     window.addEventListener('keydown', handleKeyDown)
     return () => window.removeEventListener('keydown', handleKeyDown)
-  }, [selectedTask, quickAddStatus, onClose])
+  }, [selectedTask, quickAddStatus, planOpen, onClose])
 
   const handleDrop = async (taskId: string, newStatus: TaskStatus) => {
     const task = tasks.find(t => t.id === taskId)
@@ -90,15 +98,27 @@ export default function TaskKanbanBoard({
             {tasks.length} task{tasks.length !== 1 ? 's' : ''}
           </span>
         </div>
-        {onClose && (
-          <button
-            onClick={onClose}
-            className="flex items-center gap-1.5 text-xs px-2.5 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors"
-          >
-            <X className="w-3 h-3" />
-            Close
-          </button>
-        )}
+        <div className="flex items-center gap-2">
+          {onImportPlan && (
+            <button
+              onClick={() => setPlanOpen(true)}
+              className="flex items-center gap-1.5 text-xs px-2.5 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors"
+              title="Import or export a plan"
+            >
+              <ListChecks className="w-3 h-3" />
+              Plan
+            </button>
+          )}
+          {onClose && (
+            <button
+              onClick={onClose}
+              className="flex items-center gap-1.5 text-xs px-2.5 py-1 bg-gray-800 hover:bg-gray-700 text-gray-300 rounded transition-colors"
+            >
+              <X className="w-3 h-3" />
+              Close
+            </button>
+          )}
+        </div>
       </div>
 
       {/* Board */}
@@ -136,6 +156,15 @@ export default function TaskKanbanBoard({
         </div>
       )}
 
+      {/* Plan import / export */}
+      {planOpen && onImportPlan && (
+        <PlanImportDialog
+          onImport={onImportPlan}
+          onExport={onExportPlan}
+          onClose={() => setPlanOpen(false)}
+        />
+      )}
+
       {/* Quick-add modal */}
       {quickAddStatus !== null && (
         <div className="fixed inset-0 z-50 flex items-center justify-center bg-black/60 backdrop-blur-sm">
@@ -0,0 +1,214 @@
+'use client'
+
+import { useState, useEffect, useRef } from 'react'
+import { MessageSquare, Paperclip, Reply, Send } from 'lucide-react'
+import type { Agent } from '@/types/agent'
+import type { TaskActivity, TaskActor, TaskWithDeps } from '@/types/task'
+import { useTaskActivity } from '@/hooks/useTaskActivity'
+
+interface TaskTimelineProps {
+  task: TaskWithDeps
+  agents: Agent[]
+  allTasks: TaskWithDeps[]
+}
+
+const STATUS_LABELS: Record<string, string> = {
+  backlog: 'Backlog',
+  pending: 'To Do',
+  in_progress: 'In Progress',
+  review: 'Review',
+  completed: 'Done',
+}
+
+function formatSize(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`
+  if (bytes < 1024 * 1024) return `${(bytes / 1024).toFixed(1)} KB`
+  return `${(bytes / (1024 * 1024)).toFixed(1)} MB`
+}
+
+export default function TaskTimeline({ task, agents, allTasks }: TaskTimelineProps) {
+  const { activity, addComment, uploadAttachment, attachmentUrl, refreshActivity } = useTaskActivity(task.teamId, task.id)
+  const [comment, setComment] = useState('')
+  const [replyTo, setReplyTo] = useState<TaskActivity | null>(null)
+  const [posting, setPosting] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+
+  // Pick up changes made from this panel without waiting for the next poll
+  useEffect(() => {
+    refreshActivity()
+  }, [task.updatedAt, refreshActivity])
+
+  const agentName = (agentId?: string | null) => {
+    if (!agentId) return 'nobody'
+    const agent = agents.find(a => a.id === agentId)
+    return agent ? agent.label || agent.name || agent.alias || agentId.slice(0, 8) : agentId.slice(0, 8)
+  }
+
+  const actorName = (actor: TaskActor) => {
+    if (actor.type === 'agent') return actor.name || agentName(actor.agentId)
+    if (actor.type === 'system') return actor.name || 'System'
+    return actor.name || 'You'
+  }
+
+  const taskName = (taskId: string) => allTasks.find(t => t.id === taskId)?.subject || taskId.slice(0, 8)
+
+  const describe = (entry: TaskActivity) => {
+    switch (entry.type) {
+      case 'created':
+        return 'created the task'
+      case 'status_changed':
+        return `moved it from ${STATUS_LABELS[entry.from || ''] || entry.from} to ${STATUS_LABELS[entry.to || ''] || entry.to}`
+      case 'assigned':
+        return entry.to ? `assigned it to ${agentName(entry.to)}` : `unassigned ${agentName(entry.from)}`
+      case 'dependencies_changed': {
+        const parts: string[] = []
+        if (entry.added?.length) parts.push(`added dependency on ${entry.added.map(taskName).join(', ')}`)
+        if (entry.removed?.length) parts.push(`removed dependency on ${entry.removed.map(taskName).join(', ')}`)
+        return parts.join('; ')
+      }
+      default:
+        return ''
+    }
+  }
+
+  const handlePost = async () => {
+    if (!comment.trim()) return
+    setPosting(true)
+    setError(null)
+    try {
+      await addComment(comment.trim(), replyTo?.id)
+      setComment('')
+      setReplyTo(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to add comment')
+    } finally {
+      setPosting(false)
+    }
+  }
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0]
+    e.target.value = ''
+    if (!file) return
+    setError(null)
+    try {
+      await uploadAttachment(file)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to upload attachment')
+    }
+  }
+
+  const renderComment = (entry: TaskActivity, depth: number) => (
+    <div key={entry.id} className={depth > 0 ? 'ml-3 pl-2 border-l border-gray-800' : ''}>
+      <div className="rounded bg-gray-800/40 px-2 py-1.5">
+        <div className="flex items-center justify-between gap-2">
+          <span className="text-[10px] text-gray-400">
+            <span className="text-gray-300">{actorName(entry.actor)}</span>
+            {' · '}{new Date(entry.timestamp).toLocaleString()}
+          </span>
+          <button
+            onClick={() => setReplyTo(entry)}
+            className="p-0.5 text-gray-600 hover:text-gray-300 transition-colors"
+            title="Reply"
+          >
+            <Reply className="w-3 h-3" />
+          </button>
+        </div>
+        <p className="text-[11px] text-gray-300 whitespace-pre-wrap break-words mt-0.5">{entry.body}</p>
+      </div>
+      <div className="mt-1 space-y-1">
+        {activity.filter(r => r.type === 'comment' && r.parentId === entry.id).map(r => renderComment(r, depth + 1))}
+      </div>
+    </div>
+  )
+
+  // Replies render under their parent; everything else is one chronological list
+  const commentIds = new Set(activity.filter(e => e.type === 'comment').map(e => e.id))
+  const timeline = activity.filter(e => !(e.type === 'comment' && e.parentId && commentIds.has(e.parentId)))
+
+  return (
+    <div className="pt-2 border-t border-gray-800/50">
+      <div className="flex items-center justify-between">
+        <label className="text-[10px] text-gray-500 uppercase tracking-wider">Activity</label>
+        <button
+          onClick={() => fileInputRef.current?.click()}
+          className="flex items-center gap-1 text-[10px] text-gray-500 hover:text-gray-300 transition-colors"
+        >
+          <Paperclip className="w-3 h-3" />
+          Attach
+        </button>
+        <input ref={fileInputRef} type="file" className="hidden" onChange={handleFile} />
+      </div>
+
+      <div className="mt-2 space-y-1.5">
+        {timeline.length === 0 && (
+          <p className="text-[10px] text-gray-600">No activity yet</p>
+        )}
+        {timeline.map(entry => {
+          if (entry.type === 'comment') return renderComment(entry, 0)
+
+          if (entry.type === 'attachment_added' && entry.attachment) {
+            return (
+              <p key={entry.id} className="flex items-center gap-1 text-[10px] text-gray-500">
+                <Paperclip className="w-3 h-3 flex-shrink-0" />
+                <span className="text-gray-400">{actorName(entry.actor)}</span> attached
+                <a
+                  href={attachmentUrl(entry.attachment.id)}
+                  className="text-blue-400 hover:text-blue-300 truncate"
+                >
+                  {entry.attachment.filename}
+                </a>
+                <span className="text-gray-600">({formatSize(entry.attachment.size)})</span>
+              </p>
+            )
+          }
+
+          return (
+            <p key={entry.id} className="text-[10px] text-gray-500">
+              <span className="text-gray-400">{actorName(entry.actor)}</span> {describe(entry)}
+              <span className="text-gray-600"> · {new Date(entry.timestamp).toLocaleString()}</span>
+            </p>
+          )
+        })}
+      </div>
+
+      {/* Comment composer */}
+      <div className="mt-2">
+        {replyTo && (
+          <div className="flex items-center justify-between text-[10px] text-gray-500 mb-1">
+            <span className="truncate">Replying to {actorName(replyTo.actor)}</span>
+            <button onClick={() => setReplyTo(null)} className="hover:text-gray-300 transition-colors">Cancel</button>
+          </div>
+        )}
+        <div className="flex items-end gap-1">
+          <textarea
+            value={comment}
+            onChange={e => setComment(e.target.value)}
+            onKeyDown={e => {
+              if (e.key === 'Enter' && (e.metaKey || e.ctrlKey)) handlePost()
+            }}
+            placeholder="Add a comment..."
+            rows={2}
+            className="flex-1 text-[11px] bg-gray-800/50 text-gray-300 placeholder-gray-600 rounded px-2 py-1.5 resize-none focus:outline-none focus:ring-1 focus:ring-gray-600"
+          />
+          <button
+            onClick={handlePost}
+            disabled={posting || !comment.trim()}
+            className="p-1.5 bg-gray-700 hover:bg-gray-600 text-gray-200 rounded transition-colors disabled:opacity-50"
+            title="Post comment"
+          >
+            {replyTo ? <Reply className="w-3 h-3" /> : <Send className="w-3 h-3" />}
+          </button>
+        </div>
+        {error && <p className="text-[10px] text-red-400 mt-1">{error}</p>}
+        {!error && (
+          <p className="flex items-center gap-1 text-[10px] text-gray-600 mt-1">
+            <MessageSquare className="w-3 h-3" />
+            Agents can comment via the task&apos;s /comments API
+          </p>
+        )}
+      </div>
+    </div>
+  )
+}
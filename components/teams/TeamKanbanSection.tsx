@@ -15,6 +15,7 @@ export default function TeamKanbanSection({ teamId, teamName, agents, teamAgentI
   const {
     tasks, tasksByStatus,
     createTask, updateTask, deleteTask,
+    importPlan, exportPlan,
   } = useTasks(teamId)
 
   // Filter agents to team members only
@@ -29,6 +30,8 @@ export default function TeamKanbanSection({ teamId, teamName, agents, teamAgentI
         onUpdateTask={updateTask}
         onDeleteTask={deleteTask}
         onCreateTask={createTask}
+        onImportPlan={importPlan}
+        onExportPlan={exportPlan}
         teamName={teamName}
       />
     </div>
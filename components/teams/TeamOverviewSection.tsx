@@ -1,7 +1,7 @@
 'use client'
 
 import { useState } from 'react'
-import { Users, Save, X, Plus, Trash2, ListTodo, FileText, Clock } from 'lucide-react'
+import { Users, Save, X, Plus, Trash2, ListTodo, FileText, Clock, Zap } from 'lucide-react'
 import type { Team } from '@/types/team'
 import type { Agent } from '@/types/agent'
 
@@ -10,7 +10,7 @@ interface TeamOverviewSectionProps {
   agents: Agent[]
   taskCount: number
   docCount: number
-  onUpdateTeam: (updates: { name?: string; description?: string; agentIds?: string[] }) => Promise<void>
+  onUpdateTeam: (updates: { name?: string; description?: string; agentIds?: string[]; autopilot?: boolean }) => Promise<void>
 }
 
 export default function TeamOverviewSection({ team, agents, taskCount, docCount, onUpdateTeam }: TeamOverviewSectionProps) {
@@ -133,6 +133,29 @@ export default function TeamOverviewSection({ team, agents, taskCount, docCount,
         </div>
       </div>
 
+      {/* Autopilot */}
+      <div className="flex items-start justify-between gap-4 mb-8 bg-gray-800/50 border border-gray-700/50 rounded-lg p-4">
+        <div>
+          <div className="flex items-center gap-2 mb-1">
+            <Zap className={`w-4 h-4 ${team.autopilot ? 'text-amber-400' : 'text-gray-400'}`} />
+            <h3 className="text-sm font-medium text-white">Autopilot</h3>
+          </div>
+          <p className="text-xs text-gray-500">
+            When a task is completed, start every To Do task it unblocks that has an assignee,
+            and message the assigned agent with the task and its completed upstream tasks.
+          </p>
+        </div>
+        <button
+          role="switch"
+          aria-checked={!!team.autopilot}
+          onClick={() => onUpdateTeam({ autopilot: !team.autopilot })}
+          className={`relative w-10 h-5 rounded-full flex-shrink-0 transition-colors ${team.autopilot ? 'bg-amber-500' : 'bg-gray-600'}`}
+          title={team.autopilot ? 'Turn autopilot off' : 'Turn autopilot on'}
+        >
+          <span className={`absolute top-0.5 left-0.5 w-4 h-4 rounded-full bg-white transition-transform ${team.autopilot ? 'translate-x-5' : ''}`} />
+        </button>
+      </div>
+
       {/* Agent Roster */}
       <div>
         <div className="flex items-center justify-between mb-3">
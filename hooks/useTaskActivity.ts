@@ -0,0 +1,95 @@
+'use client'
+
+import { useState, useEffect, useCallback, useRef } from 'react'
+import type { TaskActivity } from '@/types/task'
+
+interface UseTaskActivityResult {
+  activity: TaskActivity[]
+  loading: boolean
+  error: string | null
+  addComment: (body: string, parentId?: string) => Promise<void>
+  uploadAttachment: (file: File) => Promise<void>
+  attachmentUrl: (attachmentId: string) => string
+  refreshActivity: () => Promise<void>
+}
+
+export function useTaskActivity(teamId: string | null, taskId: string | null): UseTaskActivityResult {
+  const [activity, setActivity] = useState<TaskActivity[]>([])
+  const [loading, setLoading] = useState(false)
+  const [error, setError] = useState<string | null>(null)
+  const intervalRef = useRef<NodeJS.Timeout | null>(null)
+
+  const baseUrl = teamId && taskId ? `/api/teams/${teamId}/tasks/${taskId}` : null
+
+  const fetchActivity = useCallback(async () => {
+    if (!baseUrl) return
+    try {
+      const res = await fetch(`${baseUrl}/activity`)
+      if (!res.ok) throw new Error('Failed to fetch activity')
+      const data = await res.json()
+      setActivity(data.activity || [])
+      setError(null)
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Failed to fetch activity')
+    }
+  }, [baseUrl])
+
+  // Initial fetch
+  useEffect(() => {
+    if (!baseUrl) {
+      setActivity([])
+      return
+    }
+    setLoading(true)
+    fetchActivity().finally(() => setLoading(false))
+  }, [baseUrl, fetchActivity])
+
+  // Poll every 5s so agent comments show up
+  useEffect(() => {
+    if (!baseUrl) return
+    intervalRef.current = setInterval(fetchActivity, 5000)
+    return () => {
+      if (intervalRef.current) clearInterval(intervalRef.current)
+    }
+  }, [baseUrl, fetchActivity])
+
+  const addComment = useCallback(async (body: string, parentId?: string) => {
+    if (!baseUrl) return
+    const res = await fetch(`${baseUrl}/comments`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ body, parentId }),
+    })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to add comment')
+    }
+    await fetchActivity()
+  }, [baseUrl, fetchActivity])
+
+  const uploadAttachment = useCallback(async (file: File) => {
+    if (!baseUrl) return
+    const res = await fetch(`${baseUrl}/attachments?filename=${encodeURIComponent(file.name)}`, {
+      method: 'POST',
+      headers: { 'Content-Type': file.type || 'application/octet-stream' },
+      body: file,
+    })
+    if (!res.ok) {
+      const data = await res.json().catch(() => ({}))
+      throw new Error(data.error || 'Failed to upload attachment')
+    }
+    await fetchActivity()
+  }, [baseUrl, fetchActivity])
+
+  const attachmentUrl = useCallback((attachmentId: string) => `${baseUrl}/attachments/${attachmentId}`, [baseUrl])
+
+  return {
+    activity,
+    loading,
+    error,
+    addComment,
+    uploadAttachment,
+    attachmentUrl,
+    refreshActivity: fetchActivity,
+  }
+}
@@ -1,7 +1,19 @@
 'use client'
 
 import { useState, useEffect, useCallback, useRef, useMemo } from 'react'
-import type { TaskWithDeps, TaskStatus } from '@/types/task'
+import type { TaskWithDeps, TaskStatus, TaskRecurrenceInput, TaskPlanFormat } from '@/types/task'
+import type { TeamDocument } from '@/types/document'
+
+export type TaskUpdate = {
+  subject?: string
+  description?: string
+  status?: TaskStatus
+  assigneeAgentId?: string | null
+  blockedBy?: string[]
+  priority?: number
+  dueAt?: string | null
+  recurrence?: TaskRecurrenceInput | null
+}
 
 interface UseTasksResult {
   tasks: TaskWithDeps[]
@@ -12,10 +24,12 @@ interface UseTasksResult {
   completedTasks: TaskWithDeps[]
   tasksByStatus: Record<TaskStatus, TaskWithDeps[]>
   tasksByAgent: Record<string, TaskWithDeps[]>
-  createTask: (data: { subject: string; description?: string; assigneeAgentId?: string; blockedBy?: string[]; priority?: number }) => Promise<void>
-  updateTask: (taskId: string, updates: { subject?: string; description?: string; status?: TaskStatus; assigneeAgentId?: string | null; blockedBy?: string[]; priority?: number }) => Promise<{ unblocked: TaskWithDeps[] }>
+  createTask: (data: { subject: string; description?: string; assigneeAgentId?: string; blockedBy?: string[]; priority?: number; dueAt?: string; recurrence?: TaskRecurrenceInput }) => Promise<void>
+  updateTask: (taskId: string, updates: TaskUpdate) => Promise<{ unblocked: TaskWithDeps[] }>
   deleteTask: (taskId: string) => Promise<void>
   assignTask: (taskId: string, agentId: string | null) => Promise<void>
+  importPlan: (content: string, format?: TaskPlanFormat) => Promise<number>
+  exportPlan: (title?: string) => Promise<TeamDocument | null>
   refreshTasks: () => Promise<void>
 }
 
@@ -57,7 +71,7 @@ export function useTasks(teamId: string | null): UseTasksResult {
     }
   }, [teamId, fetchTasks])
 
-  const createTask = useCallback(async (data: { subject: string; description?: string; assigneeAgentId?: string; blockedBy?: string[]; priority?: number }) => {
+  const createTask = useCallback(async (data: { subject: string; description?: string; assigneeAgentId?: string; blockedBy?: string[]; priority?: number; dueAt?: string; recurrence?: TaskRecurrenceInput }) => {
     if (!teamId) return
     const res = await fetch(`/api/teams/${teamId}/tasks`, {
       method: 'POST',
@@ -68,10 +82,11 @@ export function useTasks(teamId: string | null): UseTasksResult {
     await fetchTasks()
   }, [teamId, fetchTasks])
 
-  const updateTask = useCallback(async (taskId: string, updates: { subject?: string; description?: string; status?: TaskStatus; assigneeAgentId?: string | null; blockedBy?: string[]; priority?: number }) => {
+  const updateTask = useCallback(async (taskId: string, updates: TaskUpdate) => {
     if (!teamId) return { unblocked: [] as TaskWithDeps[] }
-    // Optimistic update
-    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...updates, updatedAt: new Date().toISOString() } : t))
+    // Optimistic update (schedule fields are computed server-side, so wait for the refresh)
+    const { dueAt: _dueAt, recurrence: _recurrence, ...optimistic } = updates
+    setTasks(prev => prev.map(t => t.id === taskId ? { ...t, ...optimistic, updatedAt: new Date().toISOString() } : t))
     const res = await fetch(`/api/teams/${teamId}/tasks/${taskId}`, {
       method: 'PUT',
       headers: { 'Content-Type': 'application/json' },
@@ -101,6 +116,31 @@ export function useTasks(teamId: string | null): UseTasksResult {
     await updateTask(taskId, { assigneeAgentId: agentId })
   }, [updateTask])
 
+  const importPlan = useCallback(async (content: string, format?: TaskPlanFormat) => {
+    if (!teamId) return 0
+    const res = await fetch(`/api/teams/${teamId}/tasks/import`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ content, format }),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(data.error || 'Failed to import plan')
+    await fetchTasks()
+    return (data.tasks || []).length
+  }, [teamId, fetchTasks])
+
+  const exportPlan = useCallback(async (title?: string) => {
+    if (!teamId) return null
+    const res = await fetch(`/api/teams/${teamId}/tasks/export`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ title }),
+    })
+    const data = await res.json().catch(() => ({}))
+    if (!res.ok) throw new Error(data.error || 'Failed to export plan')
+    return data.document as TeamDocument
+  }, [teamId])
+
   const pendingTasks = useMemo(() => tasks.filter(t => t.status === 'pending'), [tasks])
   const inProgressTasks = useMemo(() => tasks.filter(t => t.status === 'in_progress'), [tasks])
   const completedTasks = useMemo(() => tasks.filter(t => t.status === 'completed'), [tasks])
@@ -143,6 +183,8 @@ export function useTasks(teamId: string | null): UseTasksResult {
     updateTask,
     deleteTask,
     assignTask,
+    importPlan,
+    exportPlan,
     refreshTasks: fetchTasks,
   }
 }
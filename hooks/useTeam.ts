@@ -7,7 +7,7 @@ interface UseTeamResult {
   team: Team | null
   loading: boolean
   error: string | null
-  updateTeam: (updates: { name?: string; description?: string; agentIds?: string[]; instructions?: string }) => Promise<void>
+  updateTeam: (updates: { name?: string; description?: string; agentIds?: string[]; instructions?: string; autopilot?: boolean }) => Promise<void>
   refreshTeam: () => Promise<void>
 }
 
@@ -39,7 +39,7 @@ export function useTeam(teamId: string | null): UseTeamResult {
     fetchTeam().finally(() => setLoading(false))
   }, [teamId, fetchTeam])
 
-  const updateTeam = useCallback(async (updates: { name?: string; description?: string; agentIds?: string[]; instructions?: string }) => {
+  const updateTeam = useCallback(async (updates: { name?: string; description?: string; agentIds?: string[]; instructions?: string; autopilot?: boolean }) => {
     if (!teamId) return
     // Optimistic update
     setTeam(prev => prev ? { ...prev, ...updates, updatedAt: new Date().toISOString() } : prev)
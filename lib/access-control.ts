@@ -0,0 +1,486 @@
+/**
+ * Access Control - role-based authorization for the HTTP API
+ *
+ * Storage: ~/.aimaestro/access-control.json (settings + API tokens)
+ *          ~/.aimaestro/access-audit.json   (denied requests, most recent first)
+ *
+ * Checked by server.mjs before a request reaches either the headless router
+ * or Next.js, so both modes share the same rules. Access control is off until
+ * an admin token exists and it is explicitly enabled.
+ *
+ * Callers authenticate with `Authorization: Bearer <token>` or the
+ * `aimaestro_token` cookie set by POST /api/auth/login. AMP routes (/api/v1)
+ * keep their own agent API keys, and the host-pairing endpoints stay open so
+ * peers can still join the mesh.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import { getTeam } from '@/lib/team-registry'
+import type {
+  AccessRole,
+  AccessGrant,
+  AccessToken,
+  AccessTokenSummary,
+  AccessControlFile,
+  AccessPrincipal,
+  AccessDenialReason,
+  AccessAuditEntry,
+  AccessAuditFile,
+} from '@/types/access'
+
+const AIMAESTRO_DIR = path.join(os.homedir(), '.aimaestro')
+const ACCESS_FILE = path.join(AIMAESTRO_DIR, 'access-control.json')
+const AUDIT_FILE = path.join(AIMAESTRO_DIR, 'access-audit.json')
+
+export const ACCESS_COOKIE = 'aimaestro_token'
+export const ACCESS_ROLES: AccessRole[] = ['viewer', 'operator', 'admin']
+
+const MAX_AUDIT_ENTRIES = 1000
+const LAST_USED_RESOLUTION_MS = 60 * 1000
+const SAFE_METHODS = new Set(['GET', 'HEAD', 'OPTIONS'])
+
+const ROLE_RANK: Record<AccessRole, number> = { viewer: 1, operator: 2, admin: 3 }
+
+export class AccessControlError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'AccessControlError'
+  }
+}
+
+// ============================================================================
+// Route rules
+// ============================================================================
+
+interface AccessRule {
+  pattern: RegExp
+  methods?: string[]
+  role: AccessRole | null   // null = no authentication required
+}
+
+/**
+ * Checked in order; the first match wins. Anything under /api/ that no rule
+ * matches needs viewer for reads and operator for writes. Pages and static
+ * assets are public - the data behind them is not.
+ */
+const ACCESS_RULES: AccessRule[] = [
+  // AMP authenticates agents with its own API keys
+  { pattern: /^\/api\/v1(\/|$)/, role: null },
+  { pattern: /^\/v1\/ws$/, role: null },
+  // Host pairing and directory sync are called by peer hosts (mesh-signed, see lib/mesh-auth.ts)
+  { pattern: /^\/api\/hosts\/(identity|health|register-peer|exchange-peers)$/, role: null },
+  { pattern: /^\/api\/agents\/directory(\/|$)/, role: null },
+  { pattern: /^\/api\/config$/, methods: ['GET'], role: null },
+  // Signing in must work before you have a session
+  { pattern: /^\/api\/auth\/(login|logout|me)$/, role: null },
+
+  // Administration
+  { pattern: /^\/api\/auth(\/|$)/, role: 'admin' },
+  { pattern: /^\/api\/internal(\/|$)/, role: 'admin' },
+
+  // Destructive endpoints - spelled out so they never fall back to a weaker default
+  { pattern: /^\/api\/agents\/[^/]+$/, methods: ['DELETE'], role: 'operator' },
+  { pattern: /^\/api\/hosts(\/|$)/, methods: ['POST', 'PUT', 'PATCH', 'DELETE'], role: 'operator' },
+  { pattern: /^\/api\/sessions\/[^/]+\/command$/, role: 'operator' },
+
+  // WebSockets: a terminal is full control of the session
+  { pattern: /^\/term$/, role: 'operator' },
+  { pattern: /^\/companion-ws$/, role: 'operator' },
+  { pattern: /^\/status$/, role: 'viewer' },
+]
+
+const TEAM_ROUTE = /^\/api\/teams\/([^/]+)/
+
+export interface RequiredAccess {
+  role: AccessRole
+  teamId?: string
+}
+
+/**
+ * Work out which role a request needs, or null if it is public.
+ */
+export function getRequiredAccess(method: string, pathname: string): RequiredAccess | null {
+  const upperMethod = method.toUpperCase()
+  const rule = ACCESS_RULES.find(r =>
+    r.pattern.test(pathname) && (!r.methods || r.methods.includes(upperMethod))
+  )
+
+  let role: AccessRole
+  if (rule) {
+    if (rule.role === null) return null
+    role = rule.role
+  } else {
+    if (!pathname.startsWith('/api/')) return null
+    role = SAFE_METHODS.has(upperMethod) ? 'viewer' : 'operator'
+  }
+
+  const teamMatch = pathname.match(TEAM_ROUTE)
+  return teamMatch ? { role, teamId: decodeURIComponent(teamMatch[1]) } : { role }
+}
+
+/**
+ * Highest role a principal holds for a request. Team grants only count for
+ * routes under that team.
+ */
+export function getEffectiveRole(grants: AccessGrant[], teamId?: string): AccessRole | null {
+  let best: AccessRole | null = null
+  for (const grant of grants) {
+    if (grant.teamId && grant.teamId !== teamId) continue
+    if (!best || ROLE_RANK[grant.role] > ROLE_RANK[best]) best = grant.role
+  }
+  return best
+}
+
+function hasRole(grants: AccessGrant[], required: RequiredAccess): boolean {
+  const role = getEffectiveRole(grants, required.teamId)
+  return !!role && ROLE_RANK[role] >= ROLE_RANK[required.role]
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+let cachedConfig: { mtimeMs: number; config: AccessControlFile } | null = null
+
+function ensureDir() {
+  if (!fs.existsSync(AIMAESTRO_DIR)) {
+    fs.mkdirSync(AIMAESTRO_DIR, { recursive: true })
+  }
+}
+
+function defaultConfig(): AccessControlFile {
+  return { version: 1, enabled: false, trustLocal: true, tokens: [], adminAgents: [] }
+}
+
+/**
+ * Load settings and tokens. Cached against the file's mtime because this runs
+ * on every request, and the Next.js and server processes both write it.
+ */
+export function loadAccessConfig(): AccessControlFile {
+  try {
+    if (!fs.existsSync(ACCESS_FILE)) {
+      cachedConfig = null
+      return defaultConfig()
+    }
+    const { mtimeMs } = fs.statSync(ACCESS_FILE)
+    if (cachedConfig && cachedConfig.mtimeMs === mtimeMs) {
+      return cachedConfig.config
+    }
+    const parsed = JSON.parse(fs.readFileSync(ACCESS_FILE, 'utf-8'))
+    const config: AccessControlFile = {
+      version: 1,
+      enabled: parsed.enabled === true,
+      trustLocal: parsed.trustLocal !== false,
+      tokens: Array.isArray(parsed.tokens) ? parsed.tokens : [],
+      adminAgents: Array.isArray(parsed.adminAgents) ? parsed.adminAgents.filter((id: unknown) => typeof id === 'string') : [],
+    }
+    cachedConfig = { mtimeMs, config }
+    return config
+  } catch (error) {
+    // Fail closed: a corrupt file must not silently switch access control off
+    console.error('[Access] Failed to load access control settings:', error)
+    return { version: 1, enabled: true, trustLocal: true, tokens: [], adminAgents: [] }
+  }
+}
+
+function saveAccessConfig(config: AccessControlFile): void {
+  ensureDir()
+  fs.writeFileSync(ACCESS_FILE, JSON.stringify(config, null, 2), { encoding: 'utf-8', mode: 0o600 })
+  cachedConfig = null
+}
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+function summarize(token: AccessToken): AccessTokenSummary {
+  const { tokenHash: _tokenHash, ...summary } = token
+  return summary
+}
+
+function isActive(token: AccessToken, now = Date.now()): boolean {
+  if (token.revokedAt) return false
+  return !token.expiresAt || new Date(token.expiresAt).getTime() > now
+}
+
+function hasActiveAdmin(tokens: AccessToken[]): boolean {
+  return tokens.some(t => isActive(t) && t.grants.some(g => g.role === 'admin' && !g.teamId))
+}
+
+// ============================================================================
+// Settings
+// ============================================================================
+
+export interface AccessSettings {
+  enabled: boolean
+  trustLocal: boolean
+  adminAgents: string[]
+}
+
+export function getAccessSettings(): AccessSettings {
+  const { enabled, trustLocal, adminAgents } = loadAccessConfig()
+  return { enabled, trustLocal, adminAgents }
+}
+
+/**
+ * Turn access control on or off. Enabling requires an active, unscoped admin
+ * token so nobody can lock themselves out.
+ */
+export function updateAccessSettings(updates: Partial<AccessSettings>): AccessSettings {
+  const config = loadAccessConfig()
+  if (updates.enabled === true && !hasActiveAdmin(config.tokens)) {
+    throw new AccessControlError('Create an admin token before enabling access control')
+  }
+  const next: AccessControlFile = {
+    ...config,
+    enabled: updates.enabled ?? config.enabled,
+    trustLocal: updates.trustLocal ?? config.trustLocal,
+    adminAgents: updates.adminAgents ? Array.from(new Set(updates.adminAgents)) : config.adminAgents,
+  }
+  saveAccessConfig(next)
+  return { enabled: next.enabled, trustLocal: next.trustLocal, adminAgents: next.adminAgents }
+}
+
+/**
+ * AMP agents authenticate with their own API keys, not access tokens. Admin
+ * rights for them (such as broadcasting to *@tenant) are granted by listing
+ * the agent in adminAgents, independent of whether enforcement is enabled.
+ */
+export function isAdminAgent(agentId: string): boolean {
+  return loadAccessConfig().adminAgents.includes(agentId)
+}
+
+// ============================================================================
+// Tokens
+// ============================================================================
+
+export function listAccessTokens(): AccessTokenSummary[] {
+  return loadAccessConfig().tokens.map(summarize)
+}
+
+function validateGrants(grants: unknown): AccessGrant[] {
+  if (!Array.isArray(grants) || grants.length === 0) {
+    throw new AccessControlError('grants must be a non-empty array')
+  }
+  return grants.map((grant: any) => {
+    if (!grant || !ACCESS_ROLES.includes(grant.role)) {
+      throw new AccessControlError(`role must be one of: ${ACCESS_ROLES.join(', ')}`)
+    }
+    if (grant.teamId === undefined || grant.teamId === null || grant.teamId === '') {
+      return { role: grant.role }
+    }
+    if (typeof grant.teamId !== 'string' || !getTeam(grant.teamId)) {
+      throw new AccessControlError(`Team not found: ${grant.teamId}`)
+    }
+    return { role: grant.role, teamId: grant.teamId }
+  })
+}
+
+/**
+ * Issue a new token. The secret is only ever returned here.
+ */
+export function createAccessToken(data: { name: string; grants: unknown; expiresAt?: string }): { token: string; record: AccessTokenSummary } {
+  const name = typeof data.name === 'string' ? data.name.trim() : ''
+  if (!name) {
+    throw new AccessControlError('name is required')
+  }
+  const grants = validateGrants(data.grants)
+  if (data.expiresAt !== undefined && (typeof data.expiresAt !== 'string' || isNaN(Date.parse(data.expiresAt)))) {
+    throw new AccessControlError('expiresAt must be an ISO date')
+  }
+
+  const secret = `amt_${crypto.randomBytes(32).toString('base64url')}`
+  const record: AccessToken = {
+    id: uuidv4(),
+    name,
+    tokenHash: hashToken(secret),
+    prefix: secret.slice(0, 10),
+    grants,
+    createdAt: new Date().toISOString(),
+    ...(data.expiresAt ? { expiresAt: new Date(data.expiresAt).toISOString() } : {}),
+  }
+
+  const config = loadAccessConfig()
+  saveAccessConfig({ ...config, tokens: [...config.tokens, record] })
+  return { token: secret, record: summarize(record) }
+}
+
+/**
+ * Revoke a token. Returns false if it does not exist. Refuses to revoke the
+ * last admin token while access control is enabled.
+ */
+export function revokeAccessToken(id: string): boolean {
+  const config = loadAccessConfig()
+  const token = config.tokens.find(t => t.id === id)
+  if (!token) return false
+  if (token.revokedAt) return true
+
+  const tokens = config.tokens.map(t => t.id === id ? { ...t, revokedAt: new Date().toISOString() } : t)
+  if (config.enabled && !hasActiveAdmin(tokens)) {
+    throw new AccessControlError('Cannot revoke the last admin token while access control is enabled')
+  }
+  saveAccessConfig({ ...config, tokens })
+  return true
+}
+
+/**
+ * Resolve a token secret to its principal, or null if unknown, revoked or expired.
+ */
+export function resolveAccessToken(secret: string): AccessPrincipal | null {
+  const config = loadAccessConfig()
+  const hash = hashToken(secret)
+  const token = config.tokens.find(t => t.tokenHash === hash)
+  if (!token || !isActive(token)) return null
+
+  const now = Date.now()
+  if (!token.lastUsedAt || now - new Date(token.lastUsedAt).getTime() > LAST_USED_RESOLUTION_MS) {
+    try {
+      saveAccessConfig({
+        ...config,
+        tokens: config.tokens.map(t => t.id === token.id ? { ...t, lastUsedAt: new Date(now).toISOString() } : t),
+      })
+    } catch (error) {
+      console.error('[Access] Failed to record token use:', error)
+    }
+  }
+
+  return { id: token.id, name: token.name, grants: token.grants }
+}
+
+/**
+ * Pull the token from an Authorization header or the session cookie.
+ */
+export function extractAccessToken(authorization?: string | null, cookie?: string | null): string | null {
+  if (authorization?.startsWith('Bearer ')) {
+    const token = authorization.slice(7).trim()
+    if (token) return token
+  }
+  if (cookie) {
+    for (const part of cookie.split(';')) {
+      const [key, ...rest] = part.trim().split('=')
+      if (key === ACCESS_COOKIE && rest.length > 0) {
+        return decodeURIComponent(rest.join('='))
+      }
+    }
+  }
+  return null
+}
+
+// ============================================================================
+// Authorization
+// ============================================================================
+
+export interface AccessCheck {
+  method: string
+  pathname: string
+  remoteAddress?: string | null
+  authorization?: string | null
+  cookie?: string | null
+  forwardedFor?: string | null   // Set by reverse proxies; such requests are never treated as local
+}
+
+export interface AccessDecision {
+  allowed: boolean
+  status?: 401 | 403
+  error?: string
+  principal?: AccessPrincipal
+  required?: RequiredAccess
+}
+
+const LOCAL_PRINCIPAL: AccessPrincipal = { id: 'local', name: 'local', grants: [{ role: 'admin' }] }
+
+function normalizeAddress(address: string): string {
+  return address.startsWith('::ffff:') ? address.slice(7) : address
+}
+
+/**
+ * True when the request comes from this machine - loopback, or one of our
+ * own interface addresses (e.g. calling ourselves via the Tailscale IP).
+ */
+export function isLocalAddress(address?: string | null): boolean {
+  if (!address) return false
+  const normalized = normalizeAddress(address)
+  if (normalized === '::1' || normalized.startsWith('127.')) return true
+  return Object.values(os.networkInterfaces()).some(infos =>
+    infos?.some(info => normalizeAddress(info.address) === normalized)
+  )
+}
+
+/**
+ * Decide whether a request may proceed. Denials are written to the audit log.
+ */
+export function authorizeRequest(check: AccessCheck): AccessDecision {
+  const config = loadAccessConfig()
+  if (!config.enabled) return { allowed: true }
+
+  const required = getRequiredAccess(check.method, check.pathname)
+  if (!required) return { allowed: true }
+
+  if (config.trustLocal && !check.forwardedFor && isLocalAddress(check.remoteAddress)) {
+    return { allowed: true, principal: LOCAL_PRINCIPAL, required }
+  }
+
+  const deny = (status: 401 | 403, reason: AccessDenialReason, error: string, principal?: AccessPrincipal): AccessDecision => {
+    recordAccessDenial({
+      method: check.method.toUpperCase(),
+      path: check.pathname,
+      remoteAddress: check.remoteAddress || undefined,
+      principalId: principal?.id,
+      principalName: principal?.name,
+      requiredRole: required.role,
+      teamId: required.teamId,
+      reason,
+    })
+    return { allowed: false, status, error, principal, required }
+  }
+
+  const secret = extractAccessToken(check.authorization, check.cookie)
+  if (!secret) {
+    return deny(401, 'unauthenticated', 'Authentication required')
+  }
+
+  const principal = resolveAccessToken(secret)
+  if (!principal) {
+    return deny(401, 'invalid_token', 'Invalid or expired token')
+  }
+
+  if (!hasRole(principal.grants, required)) {
+    const scope = required.teamId ? ` for team ${required.teamId}` : ''
+    return deny(403, 'forbidden', `Requires ${required.role} role${scope}`, principal)
+  }
+
+  return { allowed: true, principal, required }
+}
+
+// ============================================================================
+// Audit log
+// ============================================================================
+
+export function loadAccessAudit(): AccessAuditEntry[] {
+  try {
+    if (!fs.existsSync(AUDIT_FILE)) return []
+    const parsed: AccessAuditFile = JSON.parse(fs.readFileSync(AUDIT_FILE, 'utf-8'))
+    return Array.isArray(parsed.entries) ? parsed.entries : []
+  } catch (error) {
+    console.error('[Access] Failed to load audit log:', error)
+    return []
+  }
+}
+
+function recordAccessDenial(entry: Omit<AccessAuditEntry, 'id' | 'timestamp'>): void {
+  try {
+    ensureDir()
+    const entries = [
+      { id: uuidv4(), timestamp: new Date().toISOString(), ...entry },
+      ...loadAccessAudit(),
+    ].slice(0, MAX_AUDIT_ENTRIES)
+    const file: AccessAuditFile = { version: 1, entries }
+    fs.writeFileSync(AUDIT_FILE, JSON.stringify(file, null, 2), 'utf-8')
+  } catch (error) {
+    console.error('[Access] Failed to write audit log:', error)
+  }
+}
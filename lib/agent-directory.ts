@@ -16,6 +16,7 @@ import path from 'path'
 import os from 'os'
 import { getSelfHostId, getPeerHosts } from './hosts-config'
 import { loadAgents, normalizeHostId } from './agent-registry'
+import { signMeshRequest } from './mesh-auth'
 
 const AIMAESTRO_DIR = path.join(os.homedir(), '.aimaestro')
 const DIRECTORY_FILE = path.join(AIMAESTRO_DIR, 'agent-directory.json')
@@ -286,7 +287,9 @@ export async function syncWithPeers(timeout: number = 5000): Promise<{
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), timeout)
 
-      const response = await fetch(`${host.url}/api/agents/directory`, {
+      const url = `${host.url}/api/agents/directory`
+      const response = await fetch(url, {
+        headers: await signMeshRequest('GET', url),
         signal: controller.signal
       })
       clearTimeout(timeoutId)
@@ -1,5 +1,8 @@
 import { resolveAlias, getAgent } from './agent-registry'
 import * as sessionMessaging from './messageQueue'
+import { readStoredAttachment, type StoredAttachmentInfo } from './attachment-store'
+import { listScheduledMessages, cancelScheduledMessage, summarizeScheduledMessage, type ScheduledMessageSummary } from './message-scheduler'
+import type { AMPAttachment } from './types/amp'
 
 /**
  * Agent-based messaging layer
@@ -91,6 +94,98 @@ export async function getAgentMessage(
   return sessionMessaging.getMessage(agentId, messageId, box)
 }
 
+/**
+ * Get one attachment of a message together with its stored bytes.
+ * Only files referenced by a message in the agent's own mailbox are served.
+ */
+export async function getAgentMessageAttachment(
+  agent: string,  // Agent ID or alias
+  messageId: string,
+  digest: string,
+  box: 'inbox' | 'sent' = 'inbox'
+): Promise<{ attachment: AMPAttachment; info: StoredAttachmentInfo; data: Buffer; filePath: string } | null> {
+  const agentId = resolveAlias(agent) || agent
+  const agentObj = getAgent(agentId)
+
+  if (!agentObj) {
+    throw new Error(`Agent not found: ${agent}`)
+  }
+
+  const message = await sessionMessaging.getMessage(agentId, messageId, box)
+  const attachment = message?.content.attachments?.find(a => a.digest === digest)
+  if (!attachment) return null
+
+  const stored = readStoredAttachment(agentId, digest)
+  return stored ? { attachment, ...stored } : null
+}
+
+/**
+ * List conversation threads for an agent (inbox and sent combined)
+ */
+export async function listAgentMessageThreads(
+  agent: string,  // Agent ID or alias
+  options?: { limit?: number }
+): Promise<sessionMessaging.MessageThreadSummary[]> {
+  const agentId = resolveAlias(agent) || agent
+  const agentObj = getAgent(agentId)
+
+  if (!agentObj) {
+    throw new Error(`Agent not found: ${agent}`)
+  }
+
+  return sessionMessaging.listMessageThreads(agentId, options)
+}
+
+/**
+ * Get all messages of one thread for an agent, oldest first
+ */
+export async function getAgentMessageThread(
+  agent: string,  // Agent ID or alias
+  threadId: string
+): Promise<sessionMessaging.MessageThread | null> {
+  const agentId = resolveAlias(agent) || agent
+  const agentObj = getAgent(agentId)
+
+  if (!agentObj) {
+    throw new Error(`Agent not found: ${agent}`)
+  }
+
+  return sessionMessaging.getMessageThread(agentId, threadId)
+}
+
+/**
+ * List messages an agent has scheduled to send later
+ */
+export function listAgentScheduledMessages(
+  agent: string  // Agent ID or alias
+): ScheduledMessageSummary[] {
+  const agentId = resolveAlias(agent) || agent
+  const agentObj = getAgent(agentId)
+
+  if (!agentObj) {
+    throw new Error(`Agent not found: ${agent}`)
+  }
+
+  return listScheduledMessages(agentId).map(summarizeScheduledMessage)
+}
+
+/**
+ * Cancel a message the agent scheduled (only its own)
+ */
+export function cancelAgentScheduledMessage(
+  agent: string,  // Agent ID or alias
+  messageId: string
+): boolean {
+  const agentId = resolveAlias(agent) || agent
+  const agentObj = getAgent(agentId)
+
+  if (!agentObj) {
+    throw new Error(`Agent not found: ${agent}`)
+  }
+
+  return cancelScheduledMessage(messageId, agentId)
+}
+
 /**
  * Mark a message as read for an agent
  */
@@ -2,14 +2,23 @@
  * Agent Runtime Abstraction
  *
  * Consolidates ALL tmux operations behind a single TmuxRuntime class
- * implementing the AgentRuntime interface. Future runtimes (Docker, API-only,
- * direct-process) can be plugged in without touching business logic.
+ * implementing the AgentRuntime interface. DockerRuntime drives tmux inside an
+ * agent container via `docker exec`, and DirectRuntime (lib/direct-runtime.ts)
+ * runs sessions under node-pty on hosts without tmux. Future runtimes (API-only)
+ * can be plugged in without touching business logic.
  *
  * Phase 4 of the service-layer refactoring.
  */
 
 import { exec, execSync as nodeExecSync } from 'child_process'
 import { promisify } from 'util'
+import type { Agent } from '@/types/agent'
+import {
+  DirectRuntime,
+  directSessionExistsSync,
+  killDirectSessionSync,
+  renameDirectSessionSync,
+} from '@/lib/direct-runtime'
 
 const execAsync = promisify(exec)
 
@@ -60,11 +69,17 @@ export interface AgentRuntime {
 export class TmuxRuntime implements AgentRuntime {
   readonly type = 'tmux' as const
 
+  /**
+   * @param tmux - Command prefix used to invoke tmux. DockerRuntime passes
+   *               a `docker exec` prefix so the same logic runs in a container.
+   */
+  constructor(protected readonly tmux: string = 'tmux') {}
+
   // -- Discovery -----------------------------------------------------------
 
   async listSessions(): Promise<DiscoveredSession[]> {
     try {
-      const { stdout } = await execAsync('tmux list-sessions 2>/dev/null || echo ""')
+      const { stdout } = await execAsync(`${this.tmux} list-sessions 2>/dev/null || echo ""`)
       if (!stdout.trim()) return []
 
       const lines = stdout.trim().split('\n')
@@ -88,7 +103,7 @@ export class TmuxRuntime implements AgentRuntime {
         let workingDirectory = ''
         try {
           const { stdout: cwdOutput } = await execAsync(
-            `tmux display-message -t "${name}" -p "#{pane_current_path}" 2>/dev/null || echo ""`
+            `${this.tmux} display-message -t "${name}" -p "#{pane_current_path}" 2>/dev/null || echo ""`
           )
           workingDirectory = cwdOutput.trim()
         } catch {
@@ -113,7 +128,7 @@ export class TmuxRuntime implements AgentRuntime {
 
   async sessionExists(name: string): Promise<boolean> {
     try {
-      await execAsync(`tmux has-session -t "${name}" 2>/dev/null`)
+      await execAsync(`${this.tmux} has-session -t "${name}" 2>/dev/null`)
       return true
     } catch {
       return false
@@ -123,7 +138,7 @@ export class TmuxRuntime implements AgentRuntime {
   async getWorkingDirectory(name: string): Promise<string> {
     try {
       const { stdout } = await execAsync(
-        `tmux display-message -t "${name}" -p "#{pane_current_path}" 2>/dev/null || echo ""`
+        `${this.tmux} display-message -t "${name}" -p "#{pane_current_path}" 2>/dev/null || echo ""`
       )
       return stdout.trim()
     } catch {
@@ -134,7 +149,7 @@ export class TmuxRuntime implements AgentRuntime {
   async isInCopyMode(name: string): Promise<boolean> {
     try {
       const { stdout } = await execAsync(
-        `tmux display-message -t "${name}" -p "#{pane_in_mode}"`
+        `${this.tmux} display-message -t "${name}" -p "#{pane_in_mode}"`
       )
       return stdout.trim() === '1'
     } catch {
@@ -146,7 +161,7 @@ export class TmuxRuntime implements AgentRuntime {
     try {
       const inCopyMode = await this.isInCopyMode(name)
       if (inCopyMode) {
-        await execAsync(`tmux send-keys -t "${name}" q`)
+        await execAsync(`${this.tmux} send-keys -t "${name}" q`)
         await new Promise(resolve => setTimeout(resolve, 50))
       }
     } catch {
@@ -157,15 +172,15 @@ export class TmuxRuntime implements AgentRuntime {
   // -- Lifecycle -----------------------------------------------------------
 
   async createSession(name: string, cwd: string): Promise<void> {
-    await execAsync(`tmux new-session -d -s "${name}" -c "${cwd}"`)
+    await execAsync(`${this.tmux} new-session -d -s "${name}" -c "${cwd}"`)
   }
 
   async killSession(name: string): Promise<void> {
-    await execAsync(`tmux kill-session -t "${name}"`)
+    await execAsync(`${this.tmux} kill-session -t "${name}"`)
   }
 
   async renameSession(oldName: string, newName: string): Promise<void> {
-    await execAsync(`tmux rename-session -t "${oldName}" "${newName}"`)
+    await execAsync(`${this.tmux} rename-session -t "${oldName}" "${newName}"`)
   }
 
   // -- I/O -----------------------------------------------------------------
@@ -181,17 +196,17 @@ export class TmuxRuntime implements AgentRuntime {
       const escaped = keys.replace(/'/g, "'\\''")
       if (enter) {
         await execAsync(
-          `tmux send-keys -t "${name}" -l '${escaped}' \\; send-keys -t "${name}" Enter`
+          `${this.tmux} send-keys -t "${name}" -l '${escaped}' \\; send-keys -t "${name}" Enter`
         )
       } else {
-        await execAsync(`tmux send-keys -t "${name}" -l '${escaped}'`)
+        await execAsync(`${this.tmux} send-keys -t "${name}" -l '${escaped}'`)
       }
     } else {
       // Non-literal: keys is a raw key sequence (e.g. "C-c", "exit Enter", quoted command)
       if (enter) {
-        await execAsync(`tmux send-keys -t "${name}" ${keys} Enter`)
+        await execAsync(`${this.tmux} send-keys -t "${name}" ${keys} Enter`)
       } else {
-        await execAsync(`tmux send-keys -t "${name}" ${keys}`)
+        await execAsync(`${this.tmux} send-keys -t "${name}" ${keys}`)
       }
     }
   }
@@ -199,7 +214,7 @@ export class TmuxRuntime implements AgentRuntime {
   async capturePane(name: string, lines: number = 2000): Promise<string> {
     try {
       const { stdout } = await execAsync(
-        `tmux capture-pane -t "${name}" -p -S -${lines} 2>/dev/null || tmux capture-pane -t "${name}" -p`,
+        `${this.tmux} capture-pane -t "${name}" -p -S -${lines} 2>/dev/null || ${this.tmux} capture-pane -t "${name}" -p`,
         { encoding: 'utf8', timeout: 3000, shell: '/bin/bash' }
       )
       return stdout
@@ -211,11 +226,11 @@ export class TmuxRuntime implements AgentRuntime {
   // -- Environment ---------------------------------------------------------
 
   async setEnvironment(name: string, key: string, value: string): Promise<void> {
-    await execAsync(`tmux set-environment -t "${name}" ${key} "${value}"`)
+    await execAsync(`${this.tmux} set-environment -t "${name}" ${key} "${value}"`)
   }
 
   async unsetEnvironment(name: string, key: string): Promise<void> {
-    await execAsync(`tmux set-environment -t "${name}" -r ${key} 2>/dev/null || true`)
+    await execAsync(`${this.tmux} set-environment -t "${name}" -r ${key} 2>/dev/null || true`)
   }
 
   // -- PTY -----------------------------------------------------------------
@@ -225,13 +240,142 @@ export class TmuxRuntime implements AgentRuntime {
   }
 }
 
+// ---------------------------------------------------------------------------
+// DockerRuntime
+// ---------------------------------------------------------------------------
+
+/** Workspace mount point inside containers built from agent-container/Dockerfile */
+const CONTAINER_WORKSPACE = '/workspace'
+
+export interface DockerRuntimeOptions {
+  /** Host directory mounted at /workspace (used to translate working directories) */
+  hostWorkspace?: string
+}
+
+/**
+ * Runs tmux inside an agent container (see agent-container/Dockerfile).
+ * Every tmux command is prefixed with `docker exec <container>`, so sessions,
+ * keys and scrollback behave exactly like local tmux sessions.
+ */
+export class DockerRuntime implements AgentRuntime {
+  readonly type = 'docker' as const
+
+  private readonly tmux: TmuxRuntime
+  private readonly hostWorkspace?: string
+
+  constructor(readonly containerName: string, opts: DockerRuntimeOptions = {}) {
+    this.tmux = new TmuxRuntime(`docker exec "${containerName}" tmux`)
+    this.hostWorkspace = opts.hostWorkspace
+  }
+
+  /** Map a host path to its location inside the container mount */
+  private toContainerPath(cwd: string): string {
+    if (!cwd || cwd.startsWith(CONTAINER_WORKSPACE)) return cwd || CONTAINER_WORKSPACE
+    if (this.hostWorkspace && cwd.startsWith(this.hostWorkspace)) {
+      return CONTAINER_WORKSPACE + cwd.slice(this.hostWorkspace.length)
+    }
+    return CONTAINER_WORKSPACE
+  }
+
+  // -- Discovery -----------------------------------------------------------
+
+  listSessions(): Promise<DiscoveredSession[]> {
+    return this.tmux.listSessions()
+  }
+
+  // -- Existence / status --------------------------------------------------
+
+  sessionExists(name: string): Promise<boolean> {
+    return this.tmux.sessionExists(name)
+  }
+
+  getWorkingDirectory(name: string): Promise<string> {
+    return this.tmux.getWorkingDirectory(name)
+  }
+
+  isInCopyMode(name: string): Promise<boolean> {
+    return this.tmux.isInCopyMode(name)
+  }
+
+  cancelCopyMode(name: string): Promise<void> {
+    return this.tmux.cancelCopyMode(name)
+  }
+
+  // -- Lifecycle -----------------------------------------------------------
+
+  async createSession(name: string, cwd: string): Promise<void> {
+    await this.tmux.createSession(name, this.toContainerPath(cwd))
+  }
+
+  killSession(name: string): Promise<void> {
+    return this.tmux.killSession(name)
+  }
+
+  renameSession(oldName: string, newName: string): Promise<void> {
+    return this.tmux.renameSession(oldName, newName)
+  }
+
+  // -- I/O -----------------------------------------------------------------
+
+  sendKeys(name: string, keys: string, opts?: { literal?: boolean; enter?: boolean }): Promise<void> {
+    return this.tmux.sendKeys(name, keys, opts)
+  }
+
+  capturePane(name: string, lines?: number): Promise<string> {
+    return this.tmux.capturePane(name, lines)
+  }
+
+  // -- Environment ---------------------------------------------------------
+
+  setEnvironment(name: string, key: string, value: string): Promise<void> {
+    return this.tmux.setEnvironment(name, key, value)
+  }
+
+  unsetEnvironment(name: string, key: string): Promise<void> {
+    return this.tmux.unsetEnvironment(name, key)
+  }
+
+  // -- PTY -----------------------------------------------------------------
+
+  getAttachCommand(name: string): { command: string; args: string[] } {
+    return {
+      command: 'docker',
+      args: ['exec', '-it', this.containerName, 'tmux', 'attach-session', '-t', name],
+    }
+  }
+}
+
 // ---------------------------------------------------------------------------
 // Singleton + factory
 // ---------------------------------------------------------------------------
 
-let defaultRuntime: AgentRuntime = new TmuxRuntime()
+let defaultRuntime: AgentRuntime | null = null
+let directRuntime: DirectRuntime | null = null
+
+function getDirectRuntime(): DirectRuntime {
+  if (!directRuntime) directRuntime = new DirectRuntime()
+  return directRuntime
+}
+
+function isTmuxAvailable(): boolean {
+  try {
+    nodeExecSync('command -v tmux', { stdio: 'ignore', timeout: 2000 })
+    return true
+  } catch {
+    return false
+  }
+}
 
+/**
+ * Host default: tmux, unless AIMAESTRO_RUNTIME=direct or tmux is not installed
+ * (e.g. CI boxes), in which case sessions run under the direct runtime.
+ */
 export function getRuntime(): AgentRuntime {
+  if (!defaultRuntime) {
+    defaultRuntime = process.env.AIMAESTRO_RUNTIME === 'direct' || !isTmuxAvailable()
+      ? getDirectRuntime()
+      : new TmuxRuntime()
+  }
   return defaultRuntime
 }
 
@@ -239,11 +383,54 @@ export function setRuntime(r: AgentRuntime): void {
   defaultRuntime = r
 }
 
+const dockerRuntimes = new Map<string, DockerRuntime>()
+
+/**
+ * Select the runtime that owns an agent's sessions based on `agent.runtime`.
+ * Falls back to the default (host tmux) runtime for unknown agents and for
+ * runtimes that are not implemented yet.
+ */
+export function getRuntimeForAgent(
+  agent?: Pick<Agent, 'name' | 'runtime' | 'deployment' | 'workingDirectory'> | null
+): AgentRuntime {
+  if (agent?.runtime === 'docker') {
+    const containerName = agent.deployment?.cloud?.containerName || `aim-${agent.name}`
+    let runtime = dockerRuntimes.get(containerName)
+    if (!runtime) {
+      runtime = new DockerRuntime(containerName, { hostWorkspace: agent.workingDirectory })
+      dockerRuntimes.set(containerName, runtime)
+    }
+    return runtime
+  }
+  if (agent?.runtime === 'direct') {
+    return getDirectRuntime()
+  }
+  return getRuntime()
+}
+
+/**
+ * Distinct runtimes backing a set of agents, default runtime first.
+ * Used for session discovery across the host and its containers.
+ */
+export function getRuntimesForAgents(
+  agents: Array<Pick<Agent, 'name' | 'runtime' | 'deployment' | 'workingDirectory' | 'deletedAt'>>
+): AgentRuntime[] {
+  const runtimes = new Set<AgentRuntime>([getRuntime()])
+  for (const agent of agents) {
+    if (agent.deletedAt) continue
+    runtimes.add(getRuntimeForAgent(agent))
+  }
+  return Array.from(runtimes)
+}
+
 // ---------------------------------------------------------------------------
 // Sync helpers for lib/agent-registry.ts (uses execSync, can't be async)
 // ---------------------------------------------------------------------------
 
+// These also cover direct-runtime sessions, which are cheap to check on disk.
+
 export function sessionExistsSync(name: string): boolean {
+  if (directSessionExistsSync(name)) return true
   try {
     nodeExecSync(`tmux has-session -t "${name}" 2>/dev/null`, { timeout: 2000 })
     return true
@@ -253,6 +440,7 @@ export function sessionExistsSync(name: string): boolean {
 }
 
 export function killSessionSync(name: string): void {
+  killDirectSessionSync(name)
   try {
     nodeExecSync(`tmux kill-session -t "${name}" 2>/dev/null || true`, { encoding: 'utf-8' })
   } catch {
@@ -261,5 +449,9 @@ export function killSessionSync(name: string): void {
 }
 
 export function renameSessionSync(oldName: string, newName: string): void {
+  if (directSessionExistsSync(oldName)) {
+    renameDirectSessionSync(oldName, newName)
+    return
+  }
   nodeExecSync(`tmux rename-session -t "${oldName}" "${newName}"`)
 }
@@ -348,6 +348,21 @@ class AgentSubconscious {
       }
 
       console.log(`[Agent ${this.agentId.substring(0, 8)}] ✓ Consolidation complete: ${result.memories_created} created, ${result.memories_reinforced} reinforced (${result.provider_used})`)
+
+      // Maintenance pass: prune, decay, promote (best-effort)
+      try {
+        const maintenance = await fetch(`${getSelfApiBase()}/api/agents/${this.agentId}/memory/consolidate`, {
+          method: 'PATCH',
+          headers: { 'Content-Type': 'application/json' },
+          body: JSON.stringify({ action: 'maintain' })
+        })
+        if (maintenance.ok) {
+          const stats = await maintenance.json()
+          console.log(`[Agent ${this.agentId.substring(0, 8)}] ✓ Memory maintenance: ${stats.promoted} promoted, ${stats.demoted} demoted, ${stats.archived} archived, ${stats.pruned} pruned`)
+        }
+      } catch (maintenanceError) {
+        console.error(`[Agent ${this.agentId.substring(0, 8)}] Memory maintenance error:`, maintenanceError)
+      }
     } catch (error) {
       this.lastConsolidationResult = {
         success: false,
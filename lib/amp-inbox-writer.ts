@@ -300,6 +300,13 @@ export async function initAgentAMPHome(agentName: string, agentId?: string): Pro
 // Inbox / Sent Writers
 // ============================================================================
 
+/** Local state set on delivery (e.g. by inbox rules); the envelope is never changed */
+export interface InboxWriteOptions {
+  status?: 'unread' | 'read' | 'archived'
+  priority?: AMPEnvelope['priority']   // Escalated priority, shown instead of the envelope's
+  inboxRules?: string[]                // IDs of the inbox rules that matched
+}
+
 /**
  * Write a message to a specific agent's AMP inbox in envelope format.
  * Prefers UUID-based directory when recipientAgentId is provided.
@@ -309,7 +316,8 @@ export async function writeToAMPInbox(
   payload: AMPPayload,
   recipientAgent?: string,
   senderPublicKey?: string,
-  recipientAgentId?: string
+  recipientAgentId?: string,
+  options: InboxWriteOptions = {}
 ): Promise<string | null> {
   try {
     const agentName = recipientAgent || extractAgentName(envelope.to)
@@ -342,17 +350,20 @@ export async function writeToAMPInbox(
       payload: {
         type: payload.type,
         message: payload.message,
-        context: payload.context || null
+        context: payload.context || null,
+        ...(payload.attachments?.length ? { attachments: payload.attachments } : {})
       },
       metadata: {
-        status: 'unread',
+        status: options.status || 'unread',
         queued_at: envelope.timestamp,
         delivery_attempts: 1
       },
       local: {
         received_at: new Date().toISOString(),
         delivery_method: 'local',
-        status: 'unread'
+        status: options.status || 'unread',
+        ...(options.priority ? { priority: options.priority } : {}),
+        ...(options.inboxRules?.length ? { inbox_rules: options.inboxRules } : {})
       },
       ...(senderPublicKey ? { sender_public_key: senderPublicKey } : {})
     }
@@ -408,7 +419,8 @@ export async function writeToAMPSent(
       payload: {
         type: payload.type,
         message: payload.message,
-        context: payload.context || null
+        context: payload.context || null,
+        ...(payload.attachments?.length ? { attachments: payload.attachments } : {})
       },
       local: {
         sent_at: new Date().toISOString()
@@ -137,30 +137,27 @@ export function calculateFingerprint(publicKeyHex: string): string {
 // ============================================================================
 
 /**
- * Save keypair to agent's keys directory
+ * Write a keypair to a directory (private.pem + public.pem).
+ * Shared by agent keys and the host's mesh identity (lib/mesh-auth.ts).
  */
-export function saveKeyPair(agentId: string, keyPair: KeyPair): void {
-  ensureAgentDirs(agentId)
-  const keysDir = getKeysDir(agentId)
+export function saveKeyPairToDir(dir: string, keyPair: KeyPair): void {
+  if (!fs.existsSync(dir)) {
+    fs.mkdirSync(dir, { recursive: true, mode: 0o700 })
+  }
 
   // Write private key with restricted permissions
-  const privateKeyPath = path.join(keysDir, 'private.pem')
-  fs.writeFileSync(privateKeyPath, keyPair.privatePem, { mode: 0o600 })
+  fs.writeFileSync(path.join(dir, 'private.pem'), keyPair.privatePem, { mode: 0o600 })
 
   // Write public key
-  const publicKeyPath = path.join(keysDir, 'public.pem')
-  fs.writeFileSync(publicKeyPath, keyPair.publicPem, { mode: 0o644 })
-
-  console.log(`[AMP Keys] Saved keypair for agent ${agentId.substring(0, 8)}...`)
+  fs.writeFileSync(path.join(dir, 'public.pem'), keyPair.publicPem, { mode: 0o644 })
 }
 
 /**
- * Load keypair from agent's keys directory
+ * Read a keypair written by saveKeyPairToDir. Returns null if missing or unreadable.
  */
-export function loadKeyPair(agentId: string): KeyPair | null {
-  const keysDir = getKeysDir(agentId)
-  const privateKeyPath = path.join(keysDir, 'private.pem')
-  const publicKeyPath = path.join(keysDir, 'public.pem')
+export function loadKeyPairFromDir(dir: string): KeyPair | null {
+  const privateKeyPath = path.join(dir, 'private.pem')
+  const publicKeyPath = path.join(dir, 'public.pem')
 
   if (!fs.existsSync(privateKeyPath) || !fs.existsSync(publicKeyPath)) {
     return null
@@ -186,11 +183,28 @@ export function loadKeyPair(agentId: string): KeyPair | null {
       fingerprint
     }
   } catch (error) {
-    console.error(`[AMP Keys] Failed to load keypair for agent ${agentId}:`, error)
+    console.error(`[AMP Keys] Failed to load keypair from ${dir}:`, error)
     return null
   }
 }
 
+/**
+ * Save keypair to agent's keys directory
+ */
+export function saveKeyPair(agentId: string, keyPair: KeyPair): void {
+  ensureAgentDirs(agentId)
+  saveKeyPairToDir(getKeysDir(agentId), keyPair)
+
+  console.log(`[AMP Keys] Saved keypair for agent ${agentId.substring(0, 8)}...`)
+}
+
+/**
+ * Load keypair from agent's keys directory
+ */
+export function loadKeyPair(agentId: string): KeyPair | null {
+  return loadKeyPairFromDir(getKeysDir(agentId))
+}
+
 /**
  * Check if agent has a keypair
  */
@@ -409,9 +423,17 @@ export function signMessage(agentId: string, message: string): string | null {
     return null
   }
 
+  return signWithPrivateKey(keyPair.privatePem, message)
+}
+
+/**
+ * Sign a message with a PEM private key
+ * Returns base64-encoded signature
+ */
+export function signWithPrivateKey(privatePem: string, message: string): string | null {
   try {
     const { sign, createPrivateKey } = require('crypto')
-    const privateKey = createPrivateKey(keyPair.privatePem)
+    const privateKey = createPrivateKey(privatePem)
     const signature = sign(null, Buffer.from(message), privateKey)
     return signature.toString('base64')
   } catch (error) {
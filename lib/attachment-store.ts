@@ -0,0 +1,391 @@
+/**
+ * Attachment Store - Content-addressed file storage for agent messages
+ *
+ * Storage:
+ *   ~/.agent-messaging/agents/{agentId}/attachments/{sha256}        (raw bytes)
+ *   ~/.agent-messaging/agents/{agentId}/attachments/{sha256}.json   (sniffed type, size)
+ *
+ * Messages only carry references ({ name, type, size, digest }). The bytes travel
+ * beside the payload (attachment_data on /api/v1/route and federation deliveries)
+ * so signatures keep covering the references instead of megabytes of base64.
+ * Every agent that sent or received a file holds its own copy.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import crypto from 'crypto'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
+import type { AMPAttachment } from '@/lib/types/amp'
+
+const execFileAsync = promisify(execFile)
+
+const AMP_AGENTS_DIR = path.join(os.homedir(), '.agent-messaging', 'agents')
+
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024 // 10 MB per file
+export const MAX_MESSAGE_ATTACHMENT_BYTES = 25 * 1024 * 1024 // 25 MB per message
+export const MAX_ATTACHMENTS_PER_MESSAGE = 10
+
+/**
+ * Scanner command run before downloads, e.g. "clamdscan --no-summary".
+ * The file path is appended; exit 0 means clean, exit 1 means infected.
+ */
+const SCAN_COMMAND = process.env.AMP_ATTACHMENT_SCAN_COMMAND || ''
+
+/** Types the UI may render in place. SVG is deliberately absent - it can carry script. */
+const INLINE_TYPES = new Set(['image/png', 'image/jpeg', 'image/gif', 'image/webp', 'text/plain', 'text/x-diff', 'application/json'])
+
+const DIGEST_PATTERN = /^[a-f0-9]{64}$/
+
+export interface AttachmentUpload {
+  name: string
+  data: Buffer
+}
+
+export interface StoredAttachmentInfo {
+  digest: string
+  type: string
+  size: number
+  stored_at: string
+}
+
+export interface AttachmentScanResult {
+  clean: boolean
+  reason?: string
+}
+
+export type AttachmentScanner = (file: { path: string; name: string; type: string; digest: string }) => Promise<AttachmentScanResult>
+
+let customScanner: AttachmentScanner | null = null
+
+function attachmentsDir(agentId: string): string {
+  return path.join(AMP_AGENTS_DIR, agentId, 'attachments')
+}
+
+export function isValidDigest(digest: string): boolean {
+  return DIGEST_PATTERN.test(digest)
+}
+
+export function attachmentDigest(data: Buffer): string {
+  return crypto.createHash('sha256').update(data).digest('hex')
+}
+
+// ============================================================================
+// MIME sniffing
+// ============================================================================
+
+const MAGIC_NUMBERS: Array<{ type: string; bytes: number[] }> = [
+  { type: 'image/png', bytes: [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a] },
+  { type: 'image/jpeg', bytes: [0xff, 0xd8, 0xff] },
+  { type: 'image/gif', bytes: [0x47, 0x49, 0x46, 0x38] },
+  { type: 'application/pdf', bytes: [0x25, 0x50, 0x44, 0x46, 0x2d] },
+  { type: 'application/zip', bytes: [0x50, 0x4b, 0x03, 0x04] },
+  { type: 'application/gzip', bytes: [0x1f, 0x8b] },
+]
+
+function startsWith(data: Buffer, bytes: number[], offset = 0): boolean {
+  return data.length >= offset + bytes.length && bytes.every((b, i) => data[offset + i] === b)
+}
+
+function isUtf8Text(data: Buffer): boolean {
+  const sample = data.subarray(0, 8192)
+  if (sample.includes(0)) return false
+  try {
+    // Streaming mode tolerates a multi-byte character cut at the sample boundary
+    new TextDecoder('utf-8', { fatal: true }).decode(sample, { stream: sample.length < data.length })
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Content type from the bytes themselves. The sender's declared type is never
+ * trusted: anything that is not a known binary format or plain UTF-8 text is
+ * served as application/octet-stream.
+ */
+export function sniffMimeType(data: Buffer, name = ''): string {
+  for (const magic of MAGIC_NUMBERS) {
+    if (startsWith(data, magic.bytes)) return magic.type
+  }
+  // RIFF....WEBP
+  if (startsWith(data, [0x52, 0x49, 0x46, 0x46]) && startsWith(data, [0x57, 0x45, 0x42, 0x50], 8)) {
+    return 'image/webp'
+  }
+
+  if (data.length === 0 || !isUtf8Text(data)) return 'application/octet-stream'
+
+  const head = data.subarray(0, 8192).toString('utf-8')
+  if (/\.(diff|patch)$/i.test(name) || /^(diff --git |Index: |--- \S.*\n\+\+\+ \S)/m.test(head)) {
+    return 'text/x-diff'
+  }
+  if (/\.json$/i.test(name)) {
+    try {
+      JSON.parse(data.toString('utf-8'))
+      return 'application/json'
+    } catch { /* Not valid JSON - plain text */ }
+  }
+  return 'text/plain'
+}
+
+export function isInlineAttachmentType(type: string): boolean {
+  return INLINE_TYPES.has(type)
+}
+
+/**
+ * Response headers for serving a stored attachment. Previewable types are shown
+ * inline, everything else downloads; nosniff stops browsers second-guessing the type.
+ */
+export function attachmentResponseHeaders(file: { name: string; type: string; size: number }): Record<string, string> {
+  const disposition = isInlineAttachmentType(file.type) ? 'inline' : 'attachment'
+  return {
+    'Content-Type': file.type.startsWith('text/') ? `${file.type}; charset=utf-8` : file.type,
+    'Content-Disposition': `${disposition}; filename="${encodeURIComponent(file.name)}"`,
+    'Content-Length': file.size.toString(),
+    'X-Content-Type-Options': 'nosniff',
+    'Content-Security-Policy': "default-src 'none'; sandbox",
+  }
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+/**
+ * Check a message's new files against the count and size limits.
+ * Returns null when they fit.
+ */
+export function validateAttachmentUploads(uploads: AttachmentUpload[]): { error: string; status: number } | null {
+  if (uploads.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return { error: `A message can carry at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`, status: 400 }
+  }
+
+  let total = 0
+  for (const upload of uploads) {
+    if (!upload.name || typeof upload.name !== 'string' || !upload.name.trim()) {
+      return { error: 'Attachment name is required', status: 400 }
+    }
+    if (!upload.data || upload.data.length === 0) {
+      return { error: `Attachment ${upload.name} is empty`, status: 400 }
+    }
+    if (upload.data.length > MAX_ATTACHMENT_BYTES) {
+      return { error: `Attachment ${upload.name} exceeds ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB limit`, status: 413 }
+    }
+    total += upload.data.length
+  }
+
+  if (total > MAX_MESSAGE_ATTACHMENT_BYTES) {
+    return { error: `Attachments exceed ${MAX_MESSAGE_ATTACHMENT_BYTES / (1024 * 1024)} MB per message`, status: 413 }
+  }
+  return null
+}
+
+/**
+ * Split content.attachments from a send request into new files (items carrying
+ * base64 `data`) and references to files already stored, then check the limits.
+ */
+export function readAttachmentInput(
+  input: unknown
+): { attachments: AMPAttachment[]; uploads: AttachmentUpload[]; error?: undefined } | { error: string; status: number } {
+  if (input === undefined || input === null) return { attachments: [], uploads: [] }
+  if (!Array.isArray(input)) {
+    return { error: 'content.attachments must be an array', status: 400 }
+  }
+  if (input.length > MAX_ATTACHMENTS_PER_MESSAGE) {
+    return { error: `A message can carry at most ${MAX_ATTACHMENTS_PER_MESSAGE} attachments`, status: 400 }
+  }
+
+  const attachments: AMPAttachment[] = []
+  const uploads: AttachmentUpload[] = []
+  for (const item of input) {
+    if (!item || typeof item !== 'object' || typeof item.name !== 'string') {
+      return { error: 'Each attachment needs a name', status: 400 }
+    }
+    if (typeof item.data === 'string') {
+      uploads.push({ name: item.name, data: Buffer.from(item.data, 'base64') })
+    } else if (typeof item.digest === 'string' && isValidDigest(item.digest)) {
+      attachments.push({ name: item.name, type: item.type || 'application/octet-stream', size: item.size, digest: item.digest })
+    } else {
+      return { error: `Attachment ${item.name} needs base64 data or a stored digest`, status: 400 }
+    }
+  }
+
+  const invalid = validateAttachmentUploads(uploads)
+  return invalid || { attachments, uploads }
+}
+
+/**
+ * Reference to put in a message payload for a new file
+ */
+export function describeAttachment(upload: AttachmentUpload): AMPAttachment {
+  // Keep only the base name; the stored file is addressed by digest
+  const name = path.basename(upload.name.trim())
+  return {
+    name,
+    type: sniffMimeType(upload.data, name),
+    size: upload.data.length,
+    digest: attachmentDigest(upload.data),
+  }
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+/**
+ * Store bytes in an agent's attachment store. Storing the same content twice is
+ * a no-op, so senders and recipients can call this without checking first.
+ */
+export function storeAttachment(agentId: string, data: Buffer, name = ''): StoredAttachmentInfo {
+  const digest = attachmentDigest(data)
+  const dir = attachmentsDir(agentId)
+  const metaPath = path.join(dir, `${digest}.json`)
+
+  if (fs.existsSync(metaPath) && fs.existsSync(path.join(dir, digest))) {
+    return JSON.parse(fs.readFileSync(metaPath, 'utf-8'))
+  }
+
+  const info: StoredAttachmentInfo = {
+    digest,
+    type: sniffMimeType(data, name),
+    size: data.length,
+    stored_at: new Date().toISOString(),
+  }
+
+  fs.mkdirSync(dir, { recursive: true })
+  // Write bytes before metadata so a crash never leaves metadata without a file
+  const tmpPath = path.join(dir, `${digest}.tmp-${process.pid}`)
+  fs.writeFileSync(tmpPath, data)
+  fs.renameSync(tmpPath, path.join(dir, digest))
+  fs.writeFileSync(metaPath, JSON.stringify(info, null, 2))
+  return info
+}
+
+/**
+ * Read a stored attachment back. Returns null if it is unknown or its bytes are missing.
+ */
+export function readStoredAttachment(agentId: string, digest: string): { info: StoredAttachmentInfo; data: Buffer; filePath: string } | null {
+  if (!isValidDigest(digest)) return null
+
+  const dir = attachmentsDir(agentId)
+  const filePath = path.join(dir, digest)
+  const metaPath = path.join(dir, `${digest}.json`)
+  if (!fs.existsSync(filePath) || !fs.existsSync(metaPath)) return null
+
+  const info: StoredAttachmentInfo = JSON.parse(fs.readFileSync(metaPath, 'utf-8'))
+  return { info, data: fs.readFileSync(filePath), filePath }
+}
+
+/**
+ * Store the bytes for each reference that has them. References without bytes
+ * (legacy path/url attachments, or files the sender did not include) are skipped.
+ */
+export function storeAttachmentFiles(agentId: string, attachments: AMPAttachment[] | undefined, files: Map<string, Buffer>): void {
+  for (const attachment of attachments || []) {
+    const data = attachment.digest ? files.get(attachment.digest) : undefined
+    if (data) storeAttachment(agentId, data, attachment.name)
+  }
+}
+
+/**
+ * Bytes of the referenced attachments an agent already holds, keyed by digest.
+ * Used when forwarding or re-sending a message to another agent.
+ */
+export function loadAttachmentFiles(agentId: string, attachments: AMPAttachment[] | undefined): Map<string, Buffer> {
+  const files = new Map<string, Buffer>()
+  for (const attachment of attachments || []) {
+    if (!attachment.digest || files.has(attachment.digest)) continue
+    const stored = readStoredAttachment(agentId, attachment.digest)
+    if (stored) files.set(attachment.digest, stored.data)
+  }
+  return files
+}
+
+// ============================================================================
+// Transfer encoding
+// ============================================================================
+
+/**
+ * attachment_data for an outgoing request (digest -> base64)
+ */
+export function encodeAttachmentData(files: Map<string, Buffer>): Record<string, string> | undefined {
+  if (files.size === 0) return undefined
+  const encoded: Record<string, string> = {}
+  for (const [digest, data] of files) {
+    encoded[digest] = data.toString('base64')
+  }
+  return encoded
+}
+
+/**
+ * Decode and verify incoming attachment_data. Every entry must belong to a
+ * reference in the payload and hash to its digest; the limits apply as for uploads.
+ */
+export function decodeAttachmentData(
+  attachments: AMPAttachment[] | undefined,
+  encoded: unknown
+): { files: Map<string, Buffer>; error?: undefined } | { error: string; status: number } {
+  const files = new Map<string, Buffer>()
+  if (encoded === undefined || encoded === null) return { files }
+  if (typeof encoded !== 'object' || Array.isArray(encoded)) {
+    return { error: 'attachment_data must be an object of digest -> base64', status: 400 }
+  }
+
+  const referenced = new Map((attachments || []).filter(a => a.digest).map(a => [a.digest!, a.name]))
+  const uploads: AttachmentUpload[] = []
+
+  for (const [digest, value] of Object.entries(encoded as Record<string, unknown>)) {
+    const name = referenced.get(digest)
+    if (!name) {
+      return { error: `attachment_data entry ${digest} is not referenced by the payload`, status: 400 }
+    }
+    if (typeof value !== 'string') {
+      return { error: `attachment_data entry ${digest} must be base64`, status: 400 }
+    }
+    const data = Buffer.from(value, 'base64')
+    if (attachmentDigest(data) !== digest) {
+      return { error: `Attachment ${name} does not match its digest`, status: 400 }
+    }
+    files.set(digest, data)
+    uploads.push({ name, data })
+  }
+
+  const invalid = validateAttachmentUploads(uploads)
+  return invalid || { files }
+}
+
+// ============================================================================
+// Scanning
+// ============================================================================
+
+/**
+ * Replace the download scanner (null restores the AMP_ATTACHMENT_SCAN_COMMAND default)
+ */
+export function setAttachmentScanner(scanner: AttachmentScanner | null): void {
+  customScanner = scanner
+}
+
+async function runScanCommand(filePath: string): Promise<AttachmentScanResult> {
+  const [command, ...args] = SCAN_COMMAND.split(/\s+/).filter(Boolean)
+  try {
+    await execFileAsync(command, [...args, filePath], { timeout: 60_000 })
+    return { clean: true }
+  } catch (error) {
+    const err = error as { code?: number | string; stdout?: string }
+    if (err.code === 1) {
+      return { clean: false, reason: (err.stdout || '').trim() || 'Flagged by scanner' }
+    }
+    throw error
+  }
+}
+
+/**
+ * Scan a file before it is handed out. Without a scanner every file is clean.
+ * Throws if the scanner itself fails, so callers can refuse rather than serve unscanned.
+ */
+export async function scanAttachment(file: { path: string; name: string; type: string; digest: string }): Promise<AttachmentScanResult> {
+  if (customScanner) return customScanner(file)
+  if (SCAN_COMMAND) return runScanCommand(file.path)
+  return { clean: true }
+}
@@ -64,6 +64,9 @@ export class AgentDatabase {
 
       // Auto-migrate: Initialize Phase 5 schema if not present
       await this.ensurePhase5Schema()
+
+      // Re-embed vectors built with a different embedding model (background)
+      await this.ensureVectorModels()
     } catch (error) {
       console.error(`[CozoDB] Failed to initialize database:`, error)
       throw error
@@ -112,6 +115,20 @@ export class AgentDatabase {
     }
   }
 
+  /**
+   * Record the embedding model of each vector relation; relations built with
+   * another model are re-embedded in the background
+   */
+  private async ensureVectorModels(): Promise<void> {
+    try {
+      const { ensureVectorModels } = await import('./rag/vector-models')
+      await ensureVectorModels(this, this.agentId)
+    } catch (error) {
+      console.error(`[CozoDB] Failed to check vector models:`, error)
+      // Don't throw - search falls back to lexical results for stale relations
+    }
+  }
+
   /**
    * Initialize agent metadata table and store basic info
    */
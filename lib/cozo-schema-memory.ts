@@ -12,8 +12,11 @@
  * - Cognee: Graph relationships between memories
  */
 
+import { v4 as uuidv4 } from 'uuid'
 import { AgentDatabase } from './cozo-db'
 import { escapeForCozo } from './cozo-utils'
+import { loadEmbeddingConfig } from './rag/embedding-providers'
+import { isVectorRelationCurrent } from './rag/vector-models'
 
 /**
  * Memory categories following System 1/2 model
@@ -26,7 +29,11 @@ export type MemoryCategory =
   | 'insight'     // System 2: Learned understanding
   | 'reasoning'   // System 2: How problems were solved
 
-export type MemoryTier = 'warm' | 'long'
+// superseded = lost a contradiction review; archived = decayed out by the retention policy
+export type MemoryTier = 'warm' | 'long' | 'superseded' | 'archived'
+
+// Superseded and archived memories are kept for history but never reach agent context
+export const ACTIVE_TIER_FILTER = `tier != 'superseded', tier != 'archived'`
 export type MemorySystem = 1 | 2  // 1 = knowledge, 2 = reasoning
 
 export type RelationshipType =
@@ -35,6 +42,83 @@ export type RelationshipType =
   | 'supports'    // This memory supports another
   | 'supersedes'  // This memory replaces another
 
+export type MemoryConflictStatus = 'pending' | 'accepted' | 'rejected'
+
+/**
+ * A contradicting pair of memories awaiting review
+ */
+export interface MemoryConflict {
+  conflict_id: string
+  agent_id: string
+  memory_a: string            // The newer memory (the one consolidation just created)
+  memory_b: string            // The existing memory it was compared against
+  relationship: RelationshipType
+  suggested_winner: string
+  status: MemoryConflictStatus
+  winner_id: string | null
+  run_id: string | null
+  detected_at: number
+  resolved_at: number | null
+}
+
+function memoryVecDdl(dimension: number): string {
+  return `
+    :create memory_vec {
+      memory_id: String
+      =>
+      vec: <F32; ${dimension}>
+    }
+  `
+}
+
+function memoryVecHnswDdl(dimension: number): string {
+  return `
+    ::hnsw create memory_vec:hnsw {
+        dim: ${dimension},
+        m: 50,
+        dtype: F32,
+        fields: [vec],
+        distance: Cosine,
+        ef_construction: 200,
+    }
+  `
+}
+
+/**
+ * Drop and recreate memory_vec (and its HNSW index) for a new embedding
+ * dimension. All memory vectors are discarded; the caller re-embeds.
+ */
+export async function rebuildMemoryVectors(agentDb: AgentDatabase, dimension: number): Promise<void> {
+  try {
+    await agentDb.run(`::hnsw drop memory_vec:hnsw`)
+  } catch {
+    // Index missing (older or partially initialized database)
+  }
+  await agentDb.run(`::remove memory_vec`)
+  await agentDb.run(memoryVecDdl(dimension))
+  await agentDb.run(memoryVecHnswDdl(dimension))
+}
+
+const CONSOLIDATION_RUNS_COLUMNS = `
+      run_id: String
+      =>
+      agent_id: String,
+      started_at: Int,
+      completed_at: Int?,
+      status: String,
+      conversations_processed: Int,
+      memories_created: Int,
+      memories_reinforced: Int,
+      memories_linked: Int,
+      llm_provider: String,
+      error: String?,
+      run_type: String default 'consolidation',
+      memories_promoted: Int default 0,
+      memories_demoted: Int default 0,
+      memories_archived: Int default 0,
+      messages_pruned: Int default 0
+    `
+
 /**
  * Initialize long-term memory schema
  */
@@ -107,27 +191,14 @@ export async function initializeMemorySchema(agentDb: AgentDatabase): Promise<vo
     }
   `)
 
-  // 2. Memory vectors - Embeddings for semantic search
-  await createTableIfNotExists('memory_vec', `
-    :create memory_vec {
-      memory_id: String
-      =>
-      vec: <F32; 384>
-    }
-  `)
+  // 2. Memory vectors - Embeddings for semantic search, sized for the active
+  // embedding model (a later model switch rebuilds it, see lib/rag/reembed.ts)
+  const { dimension } = loadEmbeddingConfig()
+  await createTableIfNotExists('memory_vec', memoryVecDdl(dimension))
 
   // 2b. HNSW vector index for semantic search on memory_vec
   // Required by searchMemoriesByEmbedding() which queries ~memory_vec:hnsw{...}
-  await createHnswIndexIfNotExists(agentDb, `
-    ::hnsw create memory_vec:hnsw {
-        dim: 384,
-        m: 50,
-        dtype: F32,
-        fields: [vec],
-        distance: Cosine,
-        ef_construction: 200,
-    }
-  `)
+  await createHnswIndexIfNotExists(agentDb, memoryVecHnswDdl(dimension))
 
   // 3. Memory links - Graph relationships between memories
   await createTableIfNotExists('memory_links', `
@@ -140,24 +211,33 @@ export async function initializeMemorySchema(agentDb: AgentDatabase): Promise<vo
     }
   `)
 
-  // 4. Consolidation runs - Track consolidation history
+  // 4. Consolidation runs - Track consolidation and maintenance history
   await createTableIfNotExists('consolidation_runs', `
-    :create consolidation_runs {
-      run_id: String
-      =>
-      agent_id: String,
-      started_at: Int,
-      completed_at: Int?,
-      status: String,
-      conversations_processed: Int,
-      memories_created: Int,
-      memories_reinforced: Int,
-      memories_linked: Int,
-      llm_provider: String,
-      error: String?
-    }
+    :create consolidation_runs {${CONSOLIDATION_RUNS_COLUMNS}}
   `)
 
+  // 4a. Maintenance statistics columns were added later; rebuild older tables in place
+  try {
+    await agentDb.run(`?[run_id] := *consolidation_runs{run_id, run_type} :limit 1`)
+  } catch {
+    console.log('[MEMORY-SCHEMA] ℹ Adding maintenance columns to consolidation_runs...')
+    await agentDb.run(`
+      ?[run_id, agent_id, started_at, completed_at, status, conversations_processed,
+        memories_created, memories_reinforced, memories_linked, llm_provider, error,
+        run_type, memories_promoted, memories_demoted, memories_archived, messages_pruned] :=
+        *consolidation_runs{run_id, agent_id, started_at, completed_at, status, conversations_processed,
+          memories_created, memories_reinforced, memories_linked, llm_provider, error},
+        run_type = 'consolidation',
+        memories_promoted = 0,
+        memories_demoted = 0,
+        memories_archived = 0,
+        messages_pruned = 0
+
+      :replace consolidation_runs {${CONSOLIDATION_RUNS_COLUMNS}}
+    `)
+    console.log('[MEMORY-SCHEMA] ✓ Migrated consolidation_runs')
+  }
+
   // 5. Consolidated conversations - Track which conversations have been processed
   await createTableIfNotExists('consolidated_conversations', `
     :create consolidated_conversations {
@@ -171,6 +251,33 @@ export async function initializeMemorySchema(agentDb: AgentDatabase): Promise<vo
     }
   `)
 
+  // 6. Memory conflicts - Contradicting pairs queued for review
+  await createTableIfNotExists('memory_conflicts', `
+    :create memory_conflicts {
+      conflict_id: String
+      =>
+      agent_id: String,
+      memory_a: String,
+      memory_b: String,
+      relationship: String,
+      suggested_winner: String,
+      status: String,
+      winner_id: String?,
+      run_id: String?,
+      detected_at: Int,
+      resolved_at: Int?
+    }
+  `)
+
+  // 7. Memory pins - Memories the user protected from decay
+  await createTableIfNotExists('memory_pins', `
+    :create memory_pins {
+      memory_id: String
+      =>
+      pinned_at: Int
+    }
+  `)
+
   console.log('[MEMORY-SCHEMA] ✅ Long-term memory schema initialized')
 }
 
@@ -189,6 +296,10 @@ export async function createMemory(agentDb: AgentDatabase, memory: {
   source_message_ids?: string[]
   related_memories?: string[]
   confidence: number
+  // Preserved when importing memories from another agent
+  created_at?: number
+  reinforcement_count?: number
+  promoted_at?: number | null
 }): Promise<void> {
   const now = Date.now()
 
@@ -208,12 +319,12 @@ export async function createMemory(agentDb: AgentDatabase, memory: {
       ${escapeForCozo(memory.source_message_ids ? JSON.stringify(memory.source_message_ids) : undefined)},
       ${escapeForCozo(memory.related_memories ? JSON.stringify(memory.related_memories) : undefined)},
       ${memory.confidence},
+      ${memory.created_at ?? now},
       ${now},
-      ${now},
-      1,
+      ${memory.reinforcement_count ?? 1},
       0,
       null,
-      null
+      ${memory.promoted_at ?? null}
     ]]
     :put memories
   `)
@@ -304,6 +415,162 @@ export async function linkMemories(
   `)
 }
 
+/**
+ * Queue a contradicting pair for review. Returns the new conflict ID, or null
+ * if the pair (in either direction) is already queued or was resolved before.
+ */
+export async function recordMemoryConflict(
+  agentDb: AgentDatabase,
+  conflict: {
+    agent_id: string
+    memory_a: string
+    memory_b: string
+    relationship: RelationshipType
+    suggested_winner: string
+    run_id?: string
+  }
+): Promise<string | null> {
+  const a = escapeForCozo(conflict.memory_a)
+  const b = escapeForCozo(conflict.memory_b)
+  const existing = await agentDb.run(`
+    ?[conflict_id] := *memory_conflicts{conflict_id, memory_a, memory_b}, memory_a = ${a}, memory_b = ${b}
+    ?[conflict_id] := *memory_conflicts{conflict_id, memory_a, memory_b}, memory_a = ${b}, memory_b = ${a}
+  `)
+  if (existing.rows.length > 0) {
+    return null
+  }
+
+  const conflictId = `conflict-${Date.now()}-${uuidv4().substring(0, 8)}`
+  await agentDb.run(`
+    ?[conflict_id, agent_id, memory_a, memory_b, relationship, suggested_winner,
+      status, winner_id, run_id, detected_at, resolved_at] <- [[
+      ${escapeForCozo(conflictId)},
+      ${escapeForCozo(conflict.agent_id)},
+      ${a},
+      ${b},
+      ${escapeForCozo(conflict.relationship)},
+      ${escapeForCozo(conflict.suggested_winner)},
+      'pending',
+      null,
+      ${escapeForCozo(conflict.run_id)},
+      ${Date.now()},
+      null
+    ]]
+    :put memory_conflicts
+  `)
+  return conflictId
+}
+
+function rowToConflict(row: unknown[]): MemoryConflict {
+  return {
+    conflict_id: row[0] as string,
+    agent_id: row[1] as string,
+    memory_a: row[2] as string,
+    memory_b: row[3] as string,
+    relationship: row[4] as RelationshipType,
+    suggested_winner: row[5] as string,
+    status: row[6] as MemoryConflictStatus,
+    winner_id: row[7] as string | null,
+    run_id: row[8] as string | null,
+    detected_at: row[9] as number,
+    resolved_at: row[10] as number | null
+  }
+}
+
+const CONFLICT_COLUMNS = `conflict_id, agent_id, memory_a, memory_b, relationship, suggested_winner,
+      status, winner_id, run_id, detected_at, resolved_at`
+
+/**
+ * List an agent's conflicts, newest first
+ */
+export async function getMemoryConflicts(
+  agentDb: AgentDatabase,
+  agentId: string,
+  options: { status?: MemoryConflictStatus; limit?: number } = {}
+): Promise<MemoryConflict[]> {
+  const statusFilter = options.status ? `, status = ${escapeForCozo(options.status)}` : ''
+  const result = await agentDb.run(`
+    ?[${CONFLICT_COLUMNS}] :=
+      *memory_conflicts{${CONFLICT_COLUMNS}},
+      agent_id = ${escapeForCozo(agentId)}
+      ${statusFilter}
+
+    :order -detected_at
+    :limit ${options.limit || 100}
+  `)
+  return result.rows.map(rowToConflict)
+}
+
+/**
+ * Get a single conflict
+ */
+export async function getMemoryConflict(
+  agentDb: AgentDatabase,
+  conflictId: string
+): Promise<MemoryConflict | null> {
+  const result = await agentDb.run(`
+    ?[${CONFLICT_COLUMNS}] :=
+      *memory_conflicts{${CONFLICT_COLUMNS}},
+      conflict_id = ${escapeForCozo(conflictId)}
+  `)
+  return result.rows.length > 0 ? rowToConflict(result.rows[0]) : null
+}
+
+/**
+ * Record the outcome of a review
+ */
+export async function resolveMemoryConflict(
+  agentDb: AgentDatabase,
+  conflictId: string,
+  status: Exclude<MemoryConflictStatus, 'pending'>,
+  winnerId?: string
+): Promise<void> {
+  await agentDb.run(`
+    ?[conflict_id, status, winner_id, resolved_at] <- [[
+      ${escapeForCozo(conflictId)},
+      ${escapeForCozo(status)},
+      ${escapeForCozo(winnerId)},
+      ${Date.now()}
+    ]]
+    :update memory_conflicts
+  `)
+}
+
+/**
+ * Delete every conflict that involves a memory (used when the memory is deleted)
+ */
+export async function deleteMemoryConflicts(
+  agentDb: AgentDatabase,
+  memoryId: string
+): Promise<void> {
+  const id = escapeForCozo(memoryId)
+  await agentDb.run(`
+    ?[conflict_id] := *memory_conflicts{conflict_id, memory_a}, memory_a = ${id}
+    ?[conflict_id] := *memory_conflicts{conflict_id, memory_b}, memory_b = ${id}
+    :delete memory_conflicts
+  `)
+}
+
+/**
+ * Replace one memory with another: link winner -> loser as `supersedes` and
+ * move the loser to the superseded tier so it drops out of semantic search
+ * and memory context injection.
+ */
+export async function supersedeMemory(
+  agentDb: AgentDatabase,
+  winnerId: string,
+  loserId: string
+): Promise<void> {
+  await linkMemories(agentDb, winnerId, loserId, 'supersedes')
+  await agentDb.run(`
+    ?[memory_id, tier] <- [[
+      ${escapeForCozo(loserId)},
+      'superseded'
+    ]]
+    :update memories
+  `)
+}
+
 /**
  * Search memories by embedding similarity
  */
@@ -330,6 +597,11 @@ export async function searchMemoriesByEmbedding(
   const minConfidence = options.minConfidence || 0.5
   const vecString = `<${queryEmbedding.join(', ')}>`
 
+  // memory_vec built with another embedding model (re-embed pending or running)
+  if (!(await isVectorRelationCurrent(agentDb, 'memory_vec'))) {
+    return []
+  }
+
   // Build category filter
   let categoryFilter = ''
   if (options.categories && options.categories.length > 0) {
@@ -337,8 +609,8 @@ export async function searchMemoriesByEmbedding(
     categoryFilter = `, category in [${cats}]`
   }
 
-  // Build tier filter
-  let tierFilter = ''
+  // Build tier filter (superseded and archived memories never surface unless asked for)
+  let tierFilter = `, ${ACTIVE_TIER_FILTER}`
   if (options.tier) {
     tierFilter = `, tier = ${escapeForCozo(options.tier)}`
   }
@@ -401,9 +673,10 @@ export async function getMemoriesByCategory(
 }>> {
   const result = await agentDb.run(`
     ?[memory_id, content, context, confidence, reinforcement_count, created_at] :=
-      *memories{memory_id, agent_id, category, content, context, confidence, reinforcement_count, created_at},
+      *memories{memory_id, agent_id, category, content, context, confidence, reinforcement_count, created_at, tier},
       agent_id = ${escapeForCozo(agentId)},
-      category = ${escapeForCozo(category)}
+      category = ${escapeForCozo(category)},
+      ${ACTIVE_TIER_FILTER}
 
     :order -reinforcement_count, -created_at
     :limit ${limit}
@@ -447,7 +720,8 @@ export async function getRelatedMemories(
 
     ?[memory_id, relationship, content, distance] :=
       related[memory_id, relationship, distance],
-      *memories{memory_id, content}
+      *memories{memory_id, content, tier},
+      ${ACTIVE_TIER_FILTER}
 
     :order distance
   `)
@@ -681,6 +955,94 @@ export async function promoteMemory(
   `)
 }
 
+/**
+ * Move a memory to another tier
+ */
+export async function setMemoryTier(
+  agentDb: AgentDatabase,
+  memoryId: string,
+  tier: MemoryTier
+): Promise<void> {
+  await agentDb.run(`
+    ?[memory_id, tier] <- [[
+      ${escapeForCozo(memoryId)},
+      ${escapeForCozo(tier)}
+    ]]
+    :update memories
+  `)
+}
+
+/**
+ * Pin a memory so decay never demotes or archives it
+ */
+export async function pinMemory(
+  agentDb: AgentDatabase,
+  memoryId: string
+): Promise<void> {
+  await agentDb.run(`
+    ?[memory_id, pinned_at] <- [[${escapeForCozo(memoryId)}, ${Date.now()}]]
+    :put memory_pins
+  `)
+}
+
+export async function unpinMemory(
+  agentDb: AgentDatabase,
+  memoryId: string
+): Promise<void> {
+  await agentDb.run(`
+    ?[memory_id] <- [[${escapeForCozo(memoryId)}]]
+    :rm memory_pins
+  `)
+}
+
+export async function getPinnedMemoryIds(agentDb: AgentDatabase): Promise<Set<string>> {
+  const result = await agentDb.run(`?[memory_id] := *memory_pins{memory_id}`)
+  return new Set(result.rows.map((row: unknown[]) => row[0] as string))
+}
+
+/**
+ * Record a completed maintenance pass (pruning, promotion and decay)
+ */
+export async function recordMaintenanceRun(
+  agentDb: AgentDatabase,
+  run: {
+    run_id: string
+    agent_id: string
+    started_at: number
+    status: 'completed' | 'failed'
+    memories_promoted: number
+    memories_demoted: number
+    memories_archived: number
+    messages_pruned: number
+    error?: string
+  }
+): Promise<void> {
+  await agentDb.run(`
+    ?[run_id, agent_id, started_at, completed_at, status,
+      conversations_processed, memories_created, memories_reinforced,
+      memories_linked, llm_provider, error, run_type,
+      memories_promoted, memories_demoted, memories_archived, messages_pruned] <- [[
+      ${escapeForCozo(run.run_id)},
+      ${escapeForCozo(run.agent_id)},
+      ${run.started_at},
+      ${Date.now()},
+      ${escapeForCozo(run.status)},
+      0,
+      0,
+      0,
+      0,
+      'none',
+      ${escapeForCozo(run.error)},
+      'maintenance',
+      ${run.memories_promoted},
+      ${run.memories_demoted},
+      ${run.memories_archived},
+      ${run.messages_pruned}
+    ]]
+    :put consolidation_runs
+  `)
+}
+
 /**
  * Get recent consolidation runs
  */
@@ -698,13 +1060,20 @@ export async function getConsolidationRuns(
   memories_reinforced: number
   llm_provider: string
   error: string | null
+  run_type: string
+  memories_promoted: number
+  memories_demoted: number
+  memories_archived: number
+  messages_pruned: number
 }>> {
   const result = await agentDb.run(`
     ?[run_id, started_at, completed_at, status, conversations_processed,
-      memories_created, memories_reinforced, llm_provider, error] :=
+      memories_created, memories_reinforced, llm_provider, error, run_type,
+      memories_promoted, memories_demoted, memories_archived, messages_pruned] :=
       *consolidation_runs{run_id, agent_id, started_at, completed_at, status,
         conversations_processed, memories_created, memories_reinforced,
-        llm_provider, error},
+        llm_provider, error, run_type, memories_promoted, memories_demoted,
+        memories_archived, messages_pruned},
       agent_id = ${escapeForCozo(agentId)}
 
     :order -started_at
@@ -720,6 +1089,11 @@ export async function getConsolidationRuns(
     memories_created: row[5] as number,
     memories_reinforced: row[6] as number,
     llm_provider: row[7] as string,
-    error: row[8] as string | null
+    error: row[8] as string | null,
+    run_type: row[9] as string,
+    memories_promoted: row[10] as number,
+    memories_demoted: row[11] as number,
+    memories_archived: row[12] as number,
+    messages_pruned: row[13] as number
   }))
 }
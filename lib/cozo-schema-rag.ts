@@ -792,9 +792,79 @@ export async function initializeRagSchema(agentDb: AgentDatabase): Promise<void>
     }
   }
 
+  // Vector models - which embedding model/dimension each vector relation was built with
+  try {
+    await agentDb.run(`
+      :create vector_models {
+        relation: String
+        =>
+        provider: String,
+        model: String,
+        dimension: Int,
+        status: String,
+        updated_at: Int
+      }
+    `)
+    console.log('[SCHEMA-RAG] ✓ Created vector_models table')
+  } catch (error: any) {
+    if (error.code === 'eval::stored_relation_conflict') {
+      console.log('[SCHEMA-RAG] ℹ vector_models table already exists')
+    } else {
+      throw error
+    }
+  }
+
   console.log('[SCHEMA-RAG] ✅ RAG extensions initialized')
 }
 
+export type VectorRelation = 'msg_vec' | 'doc_chunk_vec' | 'memory_vec'
+export type VectorModelStatus = 'ready' | 'reembedding' | 'failed'
+
+export interface VectorModelRecord {
+  relation: VectorRelation
+  provider: string
+  model: string
+  dimension: number
+  status: VectorModelStatus
+  updated_at: number
+}
+
+/**
+ * Embedding model recorded for each vector relation
+ */
+export async function getVectorModels(agentDb: AgentDatabase): Promise<VectorModelRecord[]> {
+  const result = await agentDb.run(`
+    ?[relation, provider, model, dimension, status, updated_at] :=
+      *vector_models{relation, provider, model, dimension, status, updated_at}
+  `)
+
+  return result.rows.map((row: any[]) => ({
+    relation: row[0],
+    provider: row[1],
+    model: row[2],
+    dimension: row[3],
+    status: row[4],
+    updated_at: row[5],
+  }))
+}
+
+export async function setVectorModel(
+  agentDb: AgentDatabase,
+  record: Omit<VectorModelRecord, 'updated_at'>
+): Promise<void> {
+  await agentDb.run(`
+    ?[relation, provider, model, dimension, status, updated_at] <- [[
+      ${escapeForCozo(record.relation)},
+      ${escapeForCozo(record.provider)},
+      ${escapeForCozo(record.model)},
+      ${record.dimension},
+      ${escapeForCozo(record.status)},
+      ${Date.now()}
+    ]]
+    :put vector_models
+  `)
+}
+
 /**
  * Upsert a message with embeddings and terms
  */
@@ -0,0 +1,315 @@
+/**
+ * Direct-Process Runtime
+ *
+ * AgentRuntime for hosts without tmux. Each session is a detached
+ * lib/direct-session-host.mjs process that owns the agent's PTY (via node-pty),
+ * keeps a ring-buffered scrollback, and serves a unix socket under
+ * ~/.aimaestro/direct-sessions/. The state file next to each socket lets the
+ * runtime rediscover live sessions after an AI Maestro restart.
+ */
+
+import { spawn } from 'child_process'
+import fs from 'fs'
+import net from 'net'
+import os from 'os'
+import path from 'path'
+import type { AgentRuntime, DiscoveredSession } from '@/lib/agent-runtime'
+
+const STATE_DIR = path.join(os.homedir(), '.aimaestro', 'direct-sessions')
+const REQUEST_TIMEOUT_MS = 3000
+const STARTUP_TIMEOUT_MS = 5000
+
+interface DirectSessionState {
+  name: string
+  pid: number
+  childPid: number
+  cwd: string
+  command: string[]
+  socket: string
+  environment?: Record<string, string>
+  createdAt: string
+}
+
+/** Named keys accepted by non-literal sendKeys (tmux key names) */
+const KEY_SEQUENCES: Record<string, string> = {
+  Enter: '\r',
+  'C-m': '\r',
+  Escape: '\x1b',
+  Tab: '\t',
+  BSpace: '\x7f',
+  Space: ' ',
+  Up: '\x1b[A',
+  Down: '\x1b[B',
+  Right: '\x1b[C',
+  Left: '\x1b[D',
+}
+
+/**
+ * Translate a tmux-style key sequence (e.g. `C-c`, `exit Enter`, `"echo hi"`)
+ * into the bytes to write to the PTY. Quoted strings are typed verbatim,
+ * named keys are mapped, and other words are typed as-is (like tmux, words
+ * are concatenated without separators).
+ */
+export function translateKeys(keys: string): string {
+  const tokens = keys.match(/"(?:[^"\\]|\\.)*"|'[^']*'|\S+/g) || []
+  let out = ''
+  for (const token of tokens) {
+    if (token.startsWith('"') && token.endsWith('"') && token.length >= 2) {
+      out += token.slice(1, -1).replace(/\\(["\\$`])/g, '$1')
+    } else if (token.startsWith("'") && token.endsWith("'") && token.length >= 2) {
+      out += token.slice(1, -1)
+    } else if (KEY_SEQUENCES[token]) {
+      out += KEY_SEQUENCES[token]
+    } else if (/^C-[a-z]$/i.test(token)) {
+      out += String.fromCharCode(token.toLowerCase().charCodeAt(2) - 96)
+    } else {
+      out += token
+    }
+  }
+  return out
+}
+
+// ---------------------------------------------------------------------------
+// State file helpers
+// ---------------------------------------------------------------------------
+
+function statePath(name: string): string {
+  return path.join(STATE_DIR, `${name}.json`)
+}
+
+function isProcessAlive(pid: number): boolean {
+  try {
+    process.kill(pid, 0)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/** Read a session's state, removing it if its host process is gone */
+function readState(name: string): DirectSessionState | null {
+  const file = statePath(name)
+  try {
+    const state = JSON.parse(fs.readFileSync(file, 'utf-8')) as DirectSessionState
+    if (isProcessAlive(state.pid)) return state
+    fs.rmSync(file, { force: true })
+    fs.rmSync(state.socket, { force: true })
+  } catch {
+    // Missing or unreadable
+  }
+  return null
+}
+
+function listStates(): DirectSessionState[] {
+  if (!fs.existsSync(STATE_DIR)) return []
+  return fs.readdirSync(STATE_DIR)
+    .filter(file => file.endsWith('.json'))
+    .map(file => readState(file.slice(0, -'.json'.length)))
+    .filter((state): state is DirectSessionState => state !== null)
+}
+
+// ---------------------------------------------------------------------------
+// Sync helpers for lib/agent-registry.ts (via agent-runtime sync helpers)
+// ---------------------------------------------------------------------------
+
+export function directSessionExistsSync(name: string): boolean {
+  return readState(name) !== null
+}
+
+export function killDirectSessionSync(name: string): void {
+  const state = readState(name)
+  if (!state) return
+  try {
+    process.kill(state.pid, 'SIGTERM')
+  } catch {
+    // Already gone
+  }
+}
+
+/**
+ * Rename a session in place. The host keeps listening on the renamed socket
+ * inode and finds its state file by pid, so no round-trip is needed.
+ */
+export function renameDirectSessionSync(oldName: string, newName: string): void {
+  const state = readState(oldName)
+  if (!state) {
+    throw new Error(`Direct session not found: ${oldName}`)
+  }
+  if (readState(newName)) {
+    throw new Error(`Direct session already exists: ${newName}`)
+  }
+
+  const newSocket = path.join(STATE_DIR, `${newName}.sock`)
+  fs.renameSync(state.socket, newSocket)
+  fs.writeFileSync(statePath(newName), JSON.stringify({ ...state, name: newName, socket: newSocket }, null, 2))
+  fs.rmSync(statePath(oldName), { force: true })
+}
+
+// ---------------------------------------------------------------------------
+// DirectRuntime
+// ---------------------------------------------------------------------------
+
+export interface DirectRuntimeOptions {
+  /** Program spawned for new sessions (default: $SHELL, then /bin/bash) */
+  shell?: string
+}
+
+export class DirectRuntime implements AgentRuntime {
+  readonly type = 'direct' as const
+
+  private readonly shell: string
+
+  constructor(opts: DirectRuntimeOptions = {}) {
+    this.shell = opts.shell || process.env.SHELL || '/bin/bash'
+  }
+
+  /** Send one control request to a session host and return its reply */
+  private request(name: string, msg: Record<string, unknown>): Promise<Record<string, any>> {
+    const state = readState(name)
+    if (!state) {
+      return Promise.reject(new Error(`Direct session not found: ${name}`))
+    }
+
+    return new Promise((resolve, reject) => {
+      const socket = net.createConnection(state.socket)
+      let buffered = ''
+
+      socket.setTimeout(REQUEST_TIMEOUT_MS, () => {
+        socket.destroy()
+        reject(new Error(`Direct session ${name} did not respond`))
+      })
+      socket.on('connect', () => socket.write(JSON.stringify(msg) + '\n'))
+      socket.on('data', chunk => { buffered += chunk.toString('utf8') })
+      socket.on('error', reject)
+      socket.on('end', () => {
+        try {
+          const reply = JSON.parse(buffered.trim())
+          if (reply.ok) resolve(reply)
+          else reject(new Error(reply.error || 'Direct session request failed'))
+        } catch {
+          reject(new Error(`Invalid reply from direct session ${name}`))
+        }
+      })
+    })
+  }
+
+  // -- Discovery -----------------------------------------------------------
+
+  async listSessions(): Promise<DiscoveredSession[]> {
+    try {
+      return listStates().map(state => ({
+        name: state.name,
+        windows: 1,
+        createdAt: state.createdAt,
+        workingDirectory: state.cwd,
+      }))
+    } catch {
+      return []
+    }
+  }
+
+  // -- Existence / status --------------------------------------------------
+
+  async sessionExists(name: string): Promise<boolean> {
+    return directSessionExistsSync(name)
+  }
+
+  async getWorkingDirectory(name: string): Promise<string> {
+    try {
+      const reply = await this.request(name, { op: 'cwd' })
+      return reply.cwd || ''
+    } catch {
+      return ''
+    }
+  }
+
+  async isInCopyMode(): Promise<boolean> {
+    // No copy mode: scrollback lives in the host's ring buffer
+    return false
+  }
+
+  async cancelCopyMode(): Promise<void> {
+    // No copy mode
+  }
+
+  // -- Lifecycle -----------------------------------------------------------
+
+  async createSession(name: string, cwd: string): Promise<void> {
+    if (readState(name)) {
+      throw new Error(`Direct session already exists: ${name}`)
+    }
+
+    fs.mkdirSync(STATE_DIR, { recursive: true })
+    const hostScript = path.join(process.cwd(), 'lib', 'direct-session-host.mjs')
+    const child = spawn(process.execPath, [hostScript, STATE_DIR, name, cwd, this.shell], {
+      cwd,
+      detached: true,
+      stdio: 'ignore',
+      env: process.env,
+    })
+    child.unref()
+
+    // The host writes its state file once the socket is listening
+    const deadline = Date.now() + STARTUP_TIMEOUT_MS
+    while (Date.now() < deadline) {
+      if (readState(name)) return
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+    throw new Error(`Direct session ${name} failed to start`)
+  }
+
+  async killSession(name: string): Promise<void> {
+    await this.request(name, { op: 'kill' })
+  }
+
+  async renameSession(oldName: string, newName: string): Promise<void> {
+    renameDirectSessionSync(oldName, newName)
+  }
+
+  // -- I/O -----------------------------------------------------------------
+
+  async sendKeys(
+    name: string,
+    keys: string,
+    opts: { literal?: boolean; enter?: boolean } = {}
+  ): Promise<void> {
+    const { literal = false, enter = false } = opts
+    const data = (literal ? keys : translateKeys(keys)) + (enter ? '\r' : '')
+    await this.request(name, { op: 'send', data })
+  }
+
+  async capturePane(name: string, lines: number = 2000): Promise<string> {
+    try {
+      const reply = await this.request(name, { op: 'capture', lines })
+      return reply.text || ''
+    } catch {
+      return ''
+    }
+  }
+
+  // -- Environment ---------------------------------------------------------
+
+  async setEnvironment(name: string, key: string, value: string): Promise<void> {
+    await this.request(name, { op: 'env', key, value })
+  }
+
+  async unsetEnvironment(name: string, key: string): Promise<void> {
+    try {
+      await this.request(name, { op: 'env', key, value: null })
+    } catch {
+      // Match tmux: unsetting on a missing session is not an error
+    }
+  }
+
+  // -- PTY -----------------------------------------------------------------
+
+  getAttachCommand(name: string): { command: string; args: string[] } {
+    return {
+      command: process.execPath,
+      args: [
+        path.join(process.cwd(), 'lib', 'direct-session-attach.mjs'),
+        path.join(STATE_DIR, `${name}.sock`),
+      ],
+    }
+  }
+}
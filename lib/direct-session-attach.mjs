@@ -0,0 +1,45 @@
+#!/usr/bin/env node
+/**
+ * Direct Session Attach
+ *
+ * Bridges the current terminal to a direct-runtime session host
+ * (lib/direct-session-host.mjs). DirectRuntime.getAttachCommand() returns this
+ * script so server.mjs can spawn it under node-pty just like `tmux attach-session`.
+ *
+ * Usage: node direct-session-attach.mjs <socketPath>
+ */
+
+import net from 'net'
+
+const socketPath = process.argv[2]
+
+if (!socketPath) {
+  console.error('Usage: direct-session-attach.mjs <socketPath>')
+  process.exit(2)
+}
+
+const socket = net.createConnection(socketPath)
+
+function send(msg) {
+  socket.write(JSON.stringify(msg) + '\n')
+}
+
+socket.on('connect', () => {
+  send({ op: 'attach', cols: process.stdout.columns || 80, rows: process.stdout.rows || 24 })
+
+  if (process.stdin.isTTY) {
+    process.stdin.setRawMode(true)
+  }
+  process.stdin.on('data', (data) => send({ t: 'i', d: data.toString('utf8') }))
+
+  process.stdout.on('resize', () => {
+    send({ t: 'r', cols: process.stdout.columns, rows: process.stdout.rows })
+  })
+})
+
+socket.on('data', (data) => process.stdout.write(data))
+socket.on('close', () => process.exit(0))
+socket.on('error', (err) => {
+  console.error(`[direct] Cannot attach to ${socketPath}: ${err.message}`)
+  process.exit(1)
+})
@@ -0,0 +1,211 @@
+#!/usr/bin/env node
+/**
+ * Direct Session Host
+ *
+ * One detached process per session of the 'direct' runtime (lib/direct-runtime.ts).
+ * Owns the session's PTY so it survives AI Maestro restarts, keeps a ring-buffered
+ * scrollback for capture, and serves a unix socket for control and attach clients.
+ *
+ * Usage: node direct-session-host.mjs <stateDir> <name> <cwd> [command args...]
+ *
+ * Socket protocol (newline-delimited JSON):
+ *   {"op":"send","data":"..."}            -> {"ok":true}
+ *   {"op":"capture","lines":2000}         -> {"ok":true,"text":"..."}
+ *   {"op":"cwd"}                          -> {"ok":true,"cwd":"/path"}
+ *   {"op":"env","key":"K","value":"V"}    -> {"ok":true}   (value null unsets)
+ *   {"op":"kill"}                         -> {"ok":true}
+ *   {"op":"attach","cols":80,"rows":24}   -> raw PTY output stream; client then sends
+ *                                            {"t":"i","d":"..."} input and
+ *                                            {"t":"r","cols":N,"rows":N} resize frames
+ */
+
+import fs from 'fs'
+import net from 'net'
+import path from 'path'
+import pty from 'node-pty'
+import { createScrollback } from './direct-session-scrollback.mjs'
+
+const [stateDir, name, cwd, ...command] = process.argv.slice(2)
+
+if (!stateDir || !name || !cwd) {
+  console.error('Usage: direct-session-host.mjs <stateDir> <name> <cwd> [command args...]')
+  process.exit(2)
+}
+
+const SCROLLBACK_LINES = parseInt(process.env.AIMAESTRO_DIRECT_SCROLLBACK || '5000', 10)
+
+const program = command[0] || process.env.SHELL || '/bin/bash'
+const programArgs = command.slice(1)
+const environment = {}
+
+const term = pty.spawn(program, programArgs, {
+  name: 'xterm-256color',
+  cols: 120,
+  rows: 40,
+  cwd,
+  env: process.env,
+})
+
+// ---------------------------------------------------------------------------
+// Scrollback ring buffer (plain text, like `tmux capture-pane -p`)
+// ---------------------------------------------------------------------------
+
+const scrollback = createScrollback(SCROLLBACK_LINES)
+
+// ---------------------------------------------------------------------------
+// State file + cleanup
+// ---------------------------------------------------------------------------
+
+const socketPath = path.join(stateDir, `${name}.sock`)
+const statePath = path.join(stateDir, `${name}.json`)
+
+function writeState() {
+  fs.writeFileSync(statePath, JSON.stringify({
+    name,
+    pid: process.pid,
+    childPid: term.pid,
+    cwd,
+    command: [program, ...programArgs],
+    socket: socketPath,
+    environment,
+    createdAt,
+  }, null, 2))
+}
+
+/**
+ * Locate this host's state file. The session may have been renamed since
+ * startup (the runtime renames files in place), so match on pid, not name.
+ */
+function findOwnState() {
+  try {
+    for (const file of fs.readdirSync(stateDir)) {
+      if (!file.endsWith('.json')) continue
+      const fullPath = path.join(stateDir, file)
+      try {
+        const state = JSON.parse(fs.readFileSync(fullPath, 'utf-8'))
+        if (state.pid === process.pid) return { path: fullPath, state }
+      } catch { /* ignore unreadable entries */ }
+    }
+  } catch { /* state dir gone */ }
+  return null
+}
+
+function cleanup() {
+  const own = findOwnState()
+  if (!own) return
+  fs.rmSync(own.state.socket, { force: true })
+  fs.rmSync(own.path, { force: true })
+}
+
+function shutdown(code) {
+  cleanup()
+  process.exit(code)
+}
+
+const createdAt = new Date().toISOString()
+const attachClients = new Set()
+
+term.onData((data) => {
+  scrollback.record(data)
+  for (const client of attachClients) {
+    client.write(data)
+  }
+})
+
+term.onExit(({ exitCode }) => {
+  for (const client of attachClients) {
+    client.end()
+  }
+  shutdown(exitCode || 0)
+})
+
+process.on('SIGTERM', () => {
+  try { term.kill() } catch { /* already gone */ }
+  shutdown(0)
+})
+process.on('SIGHUP', () => { /* detached: ignore hangups */ })
+
+// ---------------------------------------------------------------------------
+// Socket server
+// ---------------------------------------------------------------------------
+
+function handleControl(socket, msg) {
+  const reply = (body) => socket.end(JSON.stringify({ ok: true, ...body }) + '\n')
+
+  switch (msg.op) {
+    case 'send':
+      term.write(String(msg.data ?? ''))
+      return reply({})
+    case 'capture':
+      return reply({ text: scrollback.capture(Math.max(1, parseInt(msg.lines, 10) || 2000)) })
+    case 'cwd': {
+      let current = cwd
+      try { current = fs.readlinkSync(`/proc/${term.pid}/cwd`) } catch { /* non-Linux */ }
+      return reply({ cwd: current })
+    }
+    case 'env': {
+      if (msg.value === null || msg.value === undefined) delete environment[msg.key]
+      else environment[msg.key] = String(msg.value)
+      const own = findOwnState()
+      if (own) fs.writeFileSync(own.path, JSON.stringify({ ...own.state, environment }, null, 2))
+      return reply({})
+    }
+    case 'kill':
+      reply({})
+      try { term.kill() } catch { /* already gone */ }
+      return
+    default:
+      socket.end(JSON.stringify({ ok: false, error: `Unknown op: ${msg.op}` }) + '\n')
+  }
+}
+
+function handleAttachFrame(msg) {
+  if (msg.t === 'i' && typeof msg.d === 'string') {
+    term.write(msg.d)
+  } else if (msg.t === 'r' && msg.cols && msg.rows) {
+    term.resize(msg.cols, msg.rows)
+  }
+}
+
+const server = net.createServer((socket) => {
+  let buffered = ''
+  let attached = false
+
+  socket.on('data', (chunk) => {
+    buffered += chunk.toString('utf8')
+    let newline
+    while ((newline = buffered.indexOf('\n')) !== -1) {
+      const line = buffered.slice(0, newline)
+      buffered = buffered.slice(newline + 1)
+      if (!line.trim()) continue
+
+      let msg
+      try {
+        msg = JSON.parse(line)
+      } catch {
+        socket.end(JSON.stringify({ ok: false, error: 'Invalid JSON' }) + '\n')
+        return
+      }
+
+      if (attached) {
+        handleAttachFrame(msg)
+      } else if (msg.op === 'attach') {
+        attached = true
+        attachClients.add(socket)
+        if (msg.cols && msg.rows) term.resize(msg.cols, msg.rows)
+      } else {
+        handleControl(socket, msg)
+        return
+      }
+    }
+  })
+
+  socket.on('close', () => attachClients.delete(socket))
+  socket.on('error', () => attachClients.delete(socket))
+})
+
+fs.mkdirSync(stateDir, { recursive: true })
+fs.rmSync(socketPath, { force: true })
+server.listen(socketPath, () => {
+  writeState()
+})
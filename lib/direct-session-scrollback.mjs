@@ -0,0 +1,62 @@
+/**
+ * Direct Session Scrollback
+ *
+ * Plain-text ring buffer of PTY output for lib/direct-session-host.mjs, captured
+ * like `tmux capture-pane -p`: escape sequences stripped, carriage returns and
+ * backspaces applied, the unfinished last line included.
+ */
+
+/** Strip escape sequences and apply carriage returns/backspaces to a line */
+export function cleanLine(raw) {
+  const text = raw
+    .replace(/\r$/, '')                                 // CRLF line ending
+    .replace(/\x1b\][^\x07\x1b]*(?:\x07|\x1b\\)/g, '')   // OSC
+    .replace(/\x1b\[[0-9;?]*[ -/]*[@-~]/g, '')          // CSI
+    .replace(/\x1b[()][A-Za-z0-9]/g, '')                // charset
+    .replace(/\x1b[=>78cDEHMNOZ]/g, '')
+  const segment = text.slice(text.lastIndexOf('\r') + 1)
+  let out = ''
+  for (const ch of segment) {
+    if (ch === '\b') out = out.slice(0, -1)
+    else if (ch >= ' ' || ch === '\t') out += ch
+  }
+  return out
+}
+
+/** Ring buffer keeping the last `size` complete lines */
+export function createScrollback(size) {
+  const ring = new Array(size)
+  let ringStart = 0
+  let ringCount = 0
+  let partialLine = ''
+
+  function pushLine(line) {
+    if (ringCount < size) {
+      ring[(ringStart + ringCount) % size] = line
+      ringCount++
+    } else {
+      ring[ringStart] = line
+      ringStart = (ringStart + 1) % size
+    }
+  }
+
+  return {
+    record(data) {
+      const parts = (partialLine + data).split('\n')
+      partialLine = parts.pop() || ''
+      for (const part of parts) {
+        pushLine(cleanLine(part))
+      }
+    },
+
+    capture(lines) {
+      const count = Math.min(lines, ringCount)
+      const out = []
+      for (let i = ringCount - count; i < ringCount; i++) {
+        out.push(ring[(ringStart + i) % size])
+      }
+      out.push(cleanLine(partialLine))
+      return out.join('\n') + '\n'
+    },
+  }
+}
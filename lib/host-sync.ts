@@ -8,6 +8,7 @@
  * - Circular propagation prevention via propagationId tracking
  * - Concurrent health checks for performance
  * - Proper error handling and partial success reporting
+ * - Every outgoing request is signed with this host's mesh key (lib/mesh-auth.ts)
  */
 
 import { Host } from '@/types/host'
@@ -20,6 +21,7 @@ import {
   PeerExchangeResponse,
 } from '@/types/host-sync'
 import { getHosts, getSelfHost, addHost, addHostAsync, getHostById, clearHostsCache, getSelfAliases, isSelf, getOrganizationInfo, adoptOrganization } from './hosts-config'
+import { signMeshRequest, getHostKeyPair, getTrustedPublicKey, getPeerTrust, trustPeerKey, introducePeer } from './mesh-auth'
 import os from 'os'
 
 // Track processed propagation IDs to prevent infinite loops
@@ -129,6 +131,54 @@ async function fetchWithTimeout(
   }
 }
 
+/**
+ * POST a signed JSON body to a peer
+ */
+async function postToPeer(
+  url: string,
+  payload: unknown,
+  timeoutMs: number,
+  options?: { pairingToken?: string }
+): Promise<Response> {
+  const body = JSON.stringify(payload)
+  const meshHeaders = await signMeshRequest('POST', url, body, options)
+  return fetchWithTimeout(
+    url,
+    {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json', ...meshHeaders },
+      body,
+    },
+    timeoutMs
+  )
+}
+
+/**
+ * Pin the key a host presents at /api/hosts/identity. Used when an operator
+ * adds the host by URL from this machine, which is our decision to trust it.
+ */
+async function pinHostIdentity(host: Host): Promise<{ pinned: boolean; error?: string }> {
+  try {
+    const response = await fetchWithTimeout(`${host.url}/api/hosts/identity`, {}, HEALTH_CHECK_TIMEOUT)
+    if (!response.ok) {
+      return { pinned: false, error: `Identity lookup returned ${response.status}` }
+    }
+    const data = await response.json()
+    const publicKey: string | undefined = data.host?.publicKey
+    if (!publicKey) {
+      return { pinned: false, error: `${host.name} did not present a mesh key (older AI Maestro version?)` }
+    }
+    const signingId: string = data.host?.id || host.id
+    trustPeerKey(signingId, publicKey, 'manual', { name: host.name, url: host.url })
+    if (signingId !== host.id) {
+      console.warn(`[Host Sync] ${host.url} identifies as "${signingId}" but was added as "${host.id}"`)
+    }
+    return { pinned: true }
+  } catch (error) {
+    return { pinned: false, error: error instanceof Error ? error.message : 'Identity lookup failed' }
+  }
+}
+
 /**
  * Check if a host is reachable - with timeout
  */
@@ -194,6 +244,8 @@ export async function addHostWithSync(
     skipPropagation?: boolean
     propagationId?: string
     propagationDepth?: number
+    /** One-time token issued by the remote host, so it trusts us right away */
+    pairingToken?: string
   }
 ): Promise<HostSyncResult> {
   const result: HostSyncResult = {
@@ -241,13 +293,19 @@ export async function addHostWithSync(
     console.log(`[Host Sync] Added host ${host.name} locally`)
   }
 
+  // Trust the host we were asked to add, so its calls back to us are accepted
+  const pin = await pinHostIdentity(host)
+  if (!pin.pinned && pin.error) {
+    result.errors.push(`Could not pin host key: ${pin.error}`)
+  }
+
   // Step 2: Register ourselves with the remote host
   if (!options?.skipBackRegistration) {
     try {
       const registrationResult = await registerWithPeer(host.url, selfHost, {
         propagationId,
         propagationDepth: propagationDepth + 1,
-      })
+      }, options?.pairingToken)
       result.backRegistered = registrationResult.success
 
       if (!registrationResult.success) {
@@ -302,7 +360,8 @@ export async function addHostWithSync(
 async function registerWithPeer(
   peerUrl: string,
   localHost: Host,
-  propagation?: { propagationId: string; propagationDepth: number }
+  propagation?: { propagationId: string; propagationDepth: number },
+  pairingToken?: string
 ): Promise<{
   success: boolean
   alreadyKnown: boolean
@@ -324,6 +383,7 @@ async function registerWithPeer(
         url: getPublicUrl(localHost),
         description: localHost.description,
         aliases,
+        publicKey: (await getHostKeyPair()).publicHex,
       },
       source: {
         initiator: localHost.id,
@@ -337,14 +397,11 @@ async function registerWithPeer(
       organizationSetBy: orgInfo.setBy || undefined,
     }
 
-    const response = await fetchWithTimeout(
+    const response = await postToPeer(
       `${peerUrl}/api/hosts/register-peer`,
-      {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(request),
-      },
-      PEER_REGISTRATION_TIMEOUT
+      request,
+      PEER_REGISTRATION_TIMEOUT,
+      { pairingToken }
     )
 
     if (!response.ok) {
@@ -359,6 +416,15 @@ async function registerWithPeer(
 
     const data: PeerRegistrationResponse = await response.json()
 
+    // A peer we trust shares the keys of the hosts it knows; they await approval
+    if (data.host?.id && getPeerTrust(data.host.id)?.state === 'trusted') {
+      for (const known of data.knownHosts || []) {
+        if (known.publicKey && known.id !== localHost.id) {
+          introducePeer(known.id, known.publicKey, data.host.id, { name: known.name, url: known.url })
+        }
+      }
+    }
+
     // Handle organization sync - adopt from peer if we don't have one
     let organizationAdopted = false
     if (data.organization && data.organizationSetAt && data.organizationSetBy) {
@@ -489,13 +555,9 @@ async function processPeerExchange(
         organizationSetBy: orgInfo.setBy || undefined,
       }
 
-      const response = await fetchWithTimeout(
+      const response = await postToPeer(
         `${peerUrl}/api/hosts/exchange-peers`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(request),
-        },
+        request,
         PEER_EXCHANGE_TIMEOUT
       )
 
@@ -566,17 +628,14 @@ async function propagateToExistingPeers(
           name: newHost.name,
           url: newHost.url,
           description: newHost.description,
+          publicKey: getTrustedPublicKey(newHost.id),
         }],
         propagationId,
       }
 
-      const response = await fetchWithTimeout(
+      const response = await postToPeer(
         `${peer.url}/api/hosts/exchange-peers`,
-        {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify(request),
-        },
+        request,
         PEER_EXCHANGE_TIMEOUT
       )
 
@@ -623,6 +682,7 @@ function getKnownHostIdentities(excludeId?: string): HostIdentity[] {
       name: h.name,
       url: h.url,
       description: h.description,
+      publicKey: getTrustedPublicKey(h.id),
     }))
 }
 
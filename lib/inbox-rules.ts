@@ -0,0 +1,421 @@
+/**
+ * Inbox Rules - Per-agent rules applied when a message is delivered
+ *
+ * deliver() (lib/message-delivery.ts) evaluates the recipient's rules before
+ * writing the inbox and applies the combined actions of every matching rule:
+ * archive, mark read, forward, suppress the tmux notification, escalate
+ * priority and fire a webhook. The envelope itself is never changed, so
+ * signatures still verify; escalated priority is stored as local metadata.
+ *
+ * Storage: ~/.agent-messaging/agents/{agentId}/inbox-rules.json
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { v4 as uuidv4 } from 'uuid'
+import { resolveAgentIdentifier } from '@/lib/messageQueue'
+import type {
+  InboxRule,
+  InboxRuleActions,
+  InboxRuleConditions,
+  InboxRulePriority,
+  InboxRulesFile,
+} from '@/types/inbox-rule'
+import type { AMPPayload } from '@/lib/types/amp'
+
+const AMP_AGENTS_DIR = path.join(os.homedir(), '.agent-messaging', 'agents')
+
+export const INBOX_RULE_PRIORITIES: InboxRulePriority[] = ['low', 'normal', 'high', 'urgent']
+export const INBOX_RULE_CONTENT_TYPES: AMPPayload['type'][] = [
+  'request', 'response', 'notification', 'alert', 'task', 'status', 'handoff', 'ack', 'update', 'system',
+]
+
+const MAX_INBOX_RULES = 100
+const MAX_RULE_NAME_LENGTH = 100
+const MAX_PATTERN_LENGTH = 200
+const MAX_MATCHED_SUBJECT_LENGTH = 512
+
+const PRIORITY_RANK: Record<InboxRulePriority, number> = { low: 0, normal: 1, high: 2, urgent: 3 }
+
+/**
+ * payload.context key on the copy a rule's forward action sends. It travels
+ * with the copy to other hosts, so wherever the copy lands no rule forwards it
+ * again (two agents forwarding to each other would otherwise loop).
+ */
+export const INBOX_RULE_FORWARD_MARKER = 'inbox_rule_forward'
+
+export function isInboxRuleForward(payload: AMPPayload): boolean {
+  return payload.context?.[INBOX_RULE_FORWARD_MARKER] === true
+}
+
+export class InboxRuleError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'InboxRuleError'
+  }
+}
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function getRulesPath(agentId: string): string {
+  if (!/^[A-Za-z0-9_-]{1,128}$/.test(agentId)) {
+    throw new InboxRuleError(`Invalid agent ID: ${agentId}`)
+  }
+  return path.join(AMP_AGENTS_DIR, agentId, 'inbox-rules.json')
+}
+
+/**
+ * An agent's rules, in evaluation order
+ */
+export function loadInboxRules(agentId: string): InboxRule[] {
+  const filePath = getRulesPath(agentId)
+  try {
+    if (!fs.existsSync(filePath)) {
+      return []
+    }
+    const parsed: InboxRulesFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    return Array.isArray(parsed.rules) ? parsed.rules : []
+  } catch (error) {
+    console.error(`[Inbox Rules] Failed to load rules for ${agentId}:`, error)
+    return []
+  }
+}
+
+function saveInboxRules(agentId: string, rules: InboxRule[]): void {
+  const filePath = getRulesPath(agentId)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const file: InboxRulesFile = { version: 1, rules }
+  const tmpPath = `${filePath}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(file, null, 2), 'utf-8')
+  fs.renameSync(tmpPath, filePath)
+}
+
+// ============================================================================
+// Validation
+// ============================================================================
+
+function isRecord(value: unknown): value is Record<string, unknown> {
+  return typeof value === 'object' && value !== null && !Array.isArray(value)
+}
+
+function readList<T extends string>(value: unknown, allowed: T[], field: string): T[] | undefined {
+  if (value === undefined) return undefined
+  if (!Array.isArray(value) || value.length === 0 || !value.every(v => allowed.includes(v as T))) {
+    throw new InboxRuleError(`${field} must be a non-empty array of: ${allowed.join(', ')}`)
+  }
+  return Array.from(new Set(value as T[]))
+}
+
+/**
+ * Whether a regular expression repeats a group that itself contains a
+ * quantifier or an alternation, e.g. (a+)+, (\w*\s?)* or (a|aa)+. Those
+ * backtrack exponentially on a near-miss, and subject patterns run against
+ * every delivered message.
+ */
+export function hasNestedQuantifier(pattern: string): boolean {
+  const groups: boolean[] = []  // Per open group: contains a quantifier or alternation
+  let inClass = false
+
+  for (let i = 0; i < pattern.length; i++) {
+    const char = pattern[i]
+    if (char === '\\') {
+      i++
+    } else if (inClass) {
+      if (char === ']') inClass = false
+    } else if (char === '[') {
+      inClass = true
+    } else if (char === '(') {
+      groups.push(false)
+    } else if (char === ')') {
+      const quantified = groups.pop() ?? false
+      if (quantified && /[*+{]/.test(pattern[i + 1] ?? '')) return true
+      if (quantified && groups.length > 0) groups[groups.length - 1] = true
+    } else if (/[*+{|]/.test(char) && groups.length > 0) {
+      groups[groups.length - 1] = true
+    }
+  }
+  return false
+}
+
+function validateConditions(value: unknown): InboxRuleConditions {
+  if (value === undefined) return {}
+  if (!isRecord(value)) {
+    throw new InboxRuleError('conditions must be an object')
+  }
+
+  const conditions: InboxRuleConditions = {}
+
+  if (value.from !== undefined) {
+    if (typeof value.from !== 'string' || !value.from.trim() || value.from.length > MAX_PATTERN_LENGTH) {
+      throw new InboxRuleError('conditions.from must be a sender name or address')
+    }
+    conditions.from = value.from.trim()
+  }
+
+  if (value.subjectPattern !== undefined) {
+    if (typeof value.subjectPattern !== 'string' || !value.subjectPattern || value.subjectPattern.length > MAX_PATTERN_LENGTH) {
+      throw new InboxRuleError(`conditions.subjectPattern must be a regular expression of at most ${MAX_PATTERN_LENGTH} characters`)
+    }
+    try {
+      new RegExp(value.subjectPattern, 'i')
+    } catch {
+      throw new InboxRuleError(`conditions.subjectPattern is not a valid regular expression: ${value.subjectPattern}`)
+    }
+    if (hasNestedQuantifier(value.subjectPattern)) {
+      throw new InboxRuleError('conditions.subjectPattern cannot repeat a group that contains a quantifier or alternation, e.g. (a+)+ or (a|aa)+')
+    }
+    conditions.subjectPattern = value.subjectPattern
+  }
+
+  const priorities = readList(value.priorities, INBOX_RULE_PRIORITIES, 'conditions.priorities')
+  if (priorities) conditions.priorities = priorities
+  const contentTypes = readList(value.contentTypes, INBOX_RULE_CONTENT_TYPES, 'conditions.contentTypes')
+  if (contentTypes) conditions.contentTypes = contentTypes
+
+  if (value.fromVerified !== undefined) {
+    if (typeof value.fromVerified !== 'boolean') {
+      throw new InboxRuleError('conditions.fromVerified must be a boolean')
+    }
+    conditions.fromVerified = value.fromVerified
+  }
+
+  return conditions
+}
+
+function validateActions(value: unknown, agentId: string): InboxRuleActions {
+  if (!isRecord(value)) {
+    throw new InboxRuleError('actions must be an object')
+  }
+
+  const actions: InboxRuleActions = {}
+
+  for (const flag of ['archive', 'markRead', 'suppressNotification'] as const) {
+    if (value[flag] === undefined) continue
+    if (typeof value[flag] !== 'boolean') {
+      throw new InboxRuleError(`actions.${flag} must be a boolean`)
+    }
+    if (value[flag]) actions[flag] = true
+  }
+
+  if (value.forwardTo !== undefined && value.forwardTo !== '') {
+    if (typeof value.forwardTo !== 'string') {
+      throw new InboxRuleError('actions.forwardTo must be an agent name or ID')
+    }
+    const target = resolveAgentIdentifier(value.forwardTo)
+    if (!target?.agentId) {
+      throw new InboxRuleError(`actions.forwardTo: agent not found: ${value.forwardTo}`)
+    }
+    if (target.agentId === agentId) {
+      throw new InboxRuleError('actions.forwardTo cannot be the agent itself')
+    }
+    actions.forwardTo = target.agentId
+  }
+
+  if (value.escalatePriority !== undefined) {
+    if (!INBOX_RULE_PRIORITIES.includes(value.escalatePriority as InboxRulePriority)) {
+      throw new InboxRuleError(`actions.escalatePriority must be one of: ${INBOX_RULE_PRIORITIES.join(', ')}`)
+    }
+    actions.escalatePriority = value.escalatePriority as InboxRulePriority
+  }
+
+  if (value.webhookUrl !== undefined && value.webhookUrl !== '') {
+    let url: URL | null = null
+    try {
+      url = typeof value.webhookUrl === 'string' ? new URL(value.webhookUrl) : null
+    } catch {
+      // Reported below
+    }
+    if (!url || (url.protocol !== 'http:' && url.protocol !== 'https:')) {
+      throw new InboxRuleError('actions.webhookUrl must be an http(s) URL')
+    }
+    actions.webhookUrl = url.toString()
+  }
+
+  if (Object.keys(actions).length === 0) {
+    throw new InboxRuleError('A rule needs at least one action')
+  }
+  return actions
+}
+
+function validateName(value: unknown): string {
+  if (typeof value !== 'string' || !value.trim()) {
+    throw new InboxRuleError('name is required')
+  }
+  if (value.length > MAX_RULE_NAME_LENGTH) {
+    throw new InboxRuleError(`name cannot be longer than ${MAX_RULE_NAME_LENGTH} characters`)
+  }
+  return value.trim()
+}
+
+// ============================================================================
+// CRUD
+// ============================================================================
+
+export function createInboxRule(agentId: string, input: Record<string, unknown>): InboxRule {
+  const rules = loadInboxRules(agentId)
+  if (rules.length >= MAX_INBOX_RULES) {
+    throw new InboxRuleError(`An agent can have at most ${MAX_INBOX_RULES} inbox rules`)
+  }
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    throw new InboxRuleError('enabled must be a boolean')
+  }
+
+  const now = new Date().toISOString()
+  const rule: InboxRule = {
+    id: uuidv4(),
+    name: validateName(input.name),
+    enabled: input.enabled !== false,
+    conditions: validateConditions(input.conditions),
+    actions: validateActions(input.actions, agentId),
+    createdAt: now,
+    updatedAt: now,
+  }
+
+  rules.push(rule)
+  saveInboxRules(agentId, rules)
+  return rule
+}
+
+/**
+ * Update a rule. conditions and actions are replaced as a whole when given.
+ */
+export function updateInboxRule(agentId: string, ruleId: string, input: Record<string, unknown>): InboxRule | null {
+  const rules = loadInboxRules(agentId)
+  const index = rules.findIndex(r => r.id === ruleId)
+  if (index === -1) return null
+
+  if (input.enabled !== undefined && typeof input.enabled !== 'boolean') {
+    throw new InboxRuleError('enabled must be a boolean')
+  }
+
+  const current = rules[index]
+  rules[index] = {
+    ...current,
+    name: input.name !== undefined ? validateName(input.name) : current.name,
+    enabled: input.enabled !== undefined ? input.enabled as boolean : current.enabled,
+    conditions: input.conditions !== undefined ? validateConditions(input.conditions) : current.conditions,
+    actions: input.actions !== undefined ? validateActions(input.actions, agentId) : current.actions,
+    updatedAt: new Date().toISOString(),
+  }
+
+  saveInboxRules(agentId, rules)
+  return rules[index]
+}
+
+export function deleteInboxRule(agentId: string, ruleId: string): boolean {
+  const rules = loadInboxRules(agentId)
+  const filtered = rules.filter(r => r.id !== ruleId)
+  if (filtered.length === rules.length) return false
+  saveInboxRules(agentId, filtered)
+  return true
+}
+
+// ============================================================================
+// Evaluation
+// ============================================================================
+
+/** What rules are matched against */
+export interface InboxRuleMessage {
+  from: string            // Sender address
+  senderName: string
+  subject: string
+  priority: InboxRulePriority
+  contentType: AMPPayload['type']
+  fromVerified: boolean
+}
+
+/** Combined actions of every matching rule */
+export interface InboxRuleOutcome {
+  ruleIds: string[]
+  archive: boolean
+  markRead: boolean
+  suppressNotification: boolean
+  priority?: InboxRulePriority   // Set when a rule escalated the priority
+  forwardTo: string[]            // Agent IDs
+  webhookUrls: string[]
+}
+
+// Compiled patterns, shared by every rule that uses them. null marks a
+// pattern that is invalid or unsafe (saved before the nested-quantifier check).
+const MAX_COMPILED_PATTERNS = 1000
+const compiledPatterns = new Map<string, RegExp | null>()
+
+function compilePattern(key: string, build: () => RegExp | null): RegExp | null {
+  const cached = compiledPatterns.get(key)
+  if (cached !== undefined) return cached
+
+  let regex: RegExp | null
+  try {
+    regex = build()
+  } catch {
+    regex = null
+  }
+  if (compiledPatterns.size >= MAX_COMPILED_PATTERNS) compiledPatterns.clear()
+  compiledPatterns.set(key, regex)
+  return regex
+}
+
+function matchesSender(pattern: string, message: InboxRuleMessage): boolean {
+  const regex = compilePattern(`from:${pattern}`, () => new RegExp(
+    `^${pattern.split('*').map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&')).join('.*')}$`,
+    'i'
+  ))
+  return !!regex && (regex.test(message.senderName) || regex.test(message.from))
+}
+
+function matchesSubject(pattern: string, message: InboxRuleMessage): boolean {
+  const regex = compilePattern(`subject:${pattern}`, () =>
+    hasNestedQuantifier(pattern) ? null : new RegExp(pattern, 'i')
+  )
+  // Only the start of a subject is matched, which bounds the work of any pattern
+  return !!regex && regex.test(message.subject.slice(0, MAX_MATCHED_SUBJECT_LENGTH))
+}
+
+export function matchesInboxRule(rule: InboxRule, message: InboxRuleMessage): boolean {
+  const { from, subjectPattern, priorities, contentTypes, fromVerified } = rule.conditions
+
+  if (from && !matchesSender(from, message)) return false
+  if (priorities && !priorities.includes(message.priority)) return false
+  if (contentTypes && !contentTypes.includes(message.contentType)) return false
+  if (fromVerified !== undefined && fromVerified !== message.fromVerified) return false
+  if (subjectPattern && !matchesSubject(subjectPattern, message)) return false
+  return true
+}
+
+/**
+ * Evaluate an agent's enabled rules against an incoming message.
+ * Returns null when no rule matches.
+ */
+export function evaluateInboxRules(agentId: string, message: InboxRuleMessage): InboxRuleOutcome | null {
+  const matched = loadInboxRules(agentId).filter(rule => rule.enabled && matchesInboxRule(rule, message))
+  if (matched.length === 0) return null
+
+  const outcome: InboxRuleOutcome = {
+    ruleIds: matched.map(r => r.id),
+    archive: false,
+    markRead: false,
+    suppressNotification: false,
+    forwardTo: [],
+    webhookUrls: [],
+  }
+
+  let priority = message.priority
+  for (const { actions } of matched) {
+    if (actions.archive) outcome.archive = true
+    if (actions.markRead) outcome.markRead = true
+    if (actions.suppressNotification) outcome.suppressNotification = true
+    if (actions.escalatePriority && PRIORITY_RANK[actions.escalatePriority] > PRIORITY_RANK[priority]) {
+      priority = actions.escalatePriority
+    }
+    if (actions.forwardTo && !outcome.forwardTo.includes(actions.forwardTo)) outcome.forwardTo.push(actions.forwardTo)
+    if (actions.webhookUrl && !outcome.webhookUrls.includes(actions.webhookUrl)) outcome.webhookUrls.push(actions.webhookUrl)
+  }
+  if (priority !== message.priority) {
+    outcome.priority = priority
+  }
+
+  return outcome
+}
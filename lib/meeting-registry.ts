@@ -9,6 +9,7 @@ import fs from 'fs'
 import path from 'path'
 import os from 'os'
 import { v4 as uuidv4 } from 'uuid'
+import { emitMeetingEvent } from '@/lib/webhook-service'
 import type { Meeting, MeetingsFile, SidebarMode } from '@/types/team'
 
 const AIMAESTRO_DIR = path.join(os.homedir(), '.aimaestro')
@@ -92,6 +93,10 @@ export function createMeeting(data: {
 
   meetings.push(meeting)
   saveMeetings(meetings)
+
+  emitMeetingEvent('meeting.started', meeting)
+    .catch(err => console.error('[Webhook] Failed to emit meeting.started:', err))
+
   return meeting
 }
 
@@ -108,12 +113,20 @@ export function updateMeeting(
     Object.entries(updates).filter(([, v]) => v !== undefined)
   )
 
+  const wasEnded = meetings[index].status === 'ended'
+
   meetings[index] = {
     ...meetings[index],
     ...cleanUpdates,
   }
 
   saveMeetings(meetings)
+
+  if (!wasEnded && meetings[index].status === 'ended') {
+    emitMeetingEvent('meeting.ended', meetings[index])
+      .catch(err => console.error('[Webhook] Failed to emit meeting.ended:', err))
+  }
+
   return meetings[index]
 }
 
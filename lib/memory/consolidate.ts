@@ -8,13 +8,9 @@
 import { v4 as uuidv4 } from 'uuid'
 import { AgentDatabase } from '../cozo-db'
 import { escapeForCozo } from '../cozo-utils'
-import { embedTexts } from '../rag/embeddings'
-
-// Helper to embed a single text
-async function embed(text: string): Promise<number[]> {
-  const embeddings = await embedTexts([text])
-  return Array.from(embeddings[0])
-}
+import { embedText } from '../rag/embeddings'
+import { loadEmbeddingConfig, embeddingSignature } from '../rag/embedding-providers'
+import { publishToAgentTeams } from '../team-memory'
 import {
   createMemory,
   storeMemoryEmbedding,
@@ -25,6 +21,10 @@ import {
   updateConsolidationRun,
   markConversationConsolidated,
   isConversationConsolidated,
+  recordMemoryConflict,
+  getPinnedMemoryIds,
+  setMemoryTier,
+  recordMaintenanceRun,
   MemoryCategory
 } from '../cozo-schema-memory'
 import {
@@ -35,10 +35,13 @@ import {
   PreparedConversation,
   DeduplicationResult,
   getCategorySystem,
-  DEFAULT_MEMORY_SETTINGS
+  DEFAULT_MEMORY_SETTINGS,
+  MemorySettings
 } from './types'
 import { createOllamaProvider } from './ollama-provider'
 import { createClaudeProvider } from './claude-provider'
+import { createOpenAIProvider } from './openai-provider'
+import { planRetention, type RetentionCandidate, type RetentionPolicy } from './retention'
 
 /**
  * Get LLM provider based on options
@@ -46,9 +49,26 @@ import { createClaudeProvider } from './claude-provider'
 async function getProvider(options: ConsolidationOptions): Promise<LLMProvider | null> {
   const preference = options.provider || 'auto'
 
+  // Only used when explicitly chosen; 'auto' keeps the Ollama -> Claude order
+  if (preference === 'openai') {
+    const openai = createOpenAIProvider({
+      baseUrl: options.openaiBaseUrl || DEFAULT_MEMORY_SETTINGS.consolidation.openaiBaseUrl,
+      model: options.openaiModel || DEFAULT_MEMORY_SETTINGS.consolidation.openaiModel,
+      authHeader: options.openaiAuthHeader || DEFAULT_MEMORY_SETTINGS.consolidation.openaiAuthHeader,
+      apiKey: options.openaiApiKey
+    })
+    if (await openai.isAvailable()) {
+      console.log(`[CONSOLIDATE] Using OpenAI-compatible provider at ${openai.baseUrl}`)
+      return openai
+    }
+    console.log('[CONSOLIDATE] OpenAI-compatible server not available and explicitly requested')
+    return null
+  }
+
   if (preference === 'ollama' || preference === 'auto') {
     const ollama = createOllamaProvider({
-      model: options.ollamaModel || DEFAULT_MEMORY_SETTINGS.consolidation.ollamaModel
+      model: options.ollamaModel || DEFAULT_MEMORY_SETTINGS.consolidation.ollamaModel,
+      endpoint: options.ollamaEndpoint || DEFAULT_MEMORY_SETTINGS.consolidation.ollamaEndpoint
     })
     if (await ollama.isAvailable()) {
       console.log('[CONSOLIDATE] Using Ollama provider')
@@ -81,7 +101,7 @@ async function getProvider(options: ConsolidationOptions): Promise<LLMProvider |
 /**
  * Check if a memory is a duplicate of an existing one
  */
-async function checkDuplicate(
+export async function checkDuplicate(
   agentDb: AgentDatabase,
   agentId: string,
   memory: ExtractedMemory,
@@ -157,6 +177,7 @@ export async function consolidateMemories(
   let memoriesCreated = 0
   let memoriesReinforced = 0
   let memoriesLinked = 0
+  let conflictsDetected = 0
   let providerUsed = 'none'
 
   // Get LLM provider
@@ -169,6 +190,7 @@ export async function consolidateMemories(
       memories_created: 0,
       memories_reinforced: 0,
       memories_linked: 0,
+      conflicts_detected: 0,
       duration_ms: Date.now() - startTime,
       errors: ['No LLM provider available'],
       provider_used: 'none'
@@ -229,7 +251,7 @@ export async function consolidateMemories(
       for (const memory of extraction.memories) {
         try {
           // Generate embedding for the memory
-          const embedding = await embed(memory.content)
+          const embedding = await embedText(memory.content)
 
           // Check for duplicates
           const dedup = await checkDuplicate(agentDb, agentId, memory, embedding)
@@ -269,6 +291,25 @@ export async function consolidateMemories(
             memoriesFromConversation++
             console.log(`[CONSOLIDATE] Created memory: ${memoryId} (${memory.category})`)
 
+            // Share with teams that opted into this category
+            try {
+              const teamIds = publishToAgentTeams(agentId, {
+                category: memory.category,
+                content: memory.content,
+                context: memory.context,
+                confidence: memory.confidence,
+                embedding,
+                embeddingModel: embeddingSignature(loadEmbeddingConfig()),
+                memoryId,
+                conversationFile: conversation.file_path
+              })
+              if (teamIds.length > 0) {
+                console.log(`[CONSOLIDATE] Published ${memoryId} to ${teamIds.length} team memory pool(s)`)
+              }
+            } catch (shareError: any) {
+              console.error(`[CONSOLIDATE] Team memory publish failed:`, shareError.message)
+            }
+
             // Find and create relationships with existing memories
             if (provider.findRelationships) {
               try {
@@ -294,6 +335,22 @@ export async function consolidateMemories(
                     await linkMemories(agentDb, memoryId, rel.memory_id, rel.relationship)
                     memoriesLinked++
                     console.log(`[CONSOLIDATE] Linked ${memoryId} -> ${rel.memory_id} (${rel.relationship})`)
+
+                    // Contradictions go to the review queue; the newer memory is the suggested winner
+                    if (rel.relationship === 'contradicts' || rel.relationship === 'supersedes') {
+                      const conflictId = await recordMemoryConflict(agentDb, {
+                        agent_id: agentId,
+                        memory_a: memoryId,
+                        memory_b: rel.memory_id,
+                        relationship: rel.relationship,
+                        suggested_winner: memoryId,
+                        run_id: runId
+                      })
+                      if (conflictId) {
+                        conflictsDetected++
+                        console.log(`[CONSOLIDATE] Queued conflict for review: ${conflictId}`)
+                      }
+                    }
                   }
                 }
               } catch (relError: any) {
@@ -355,6 +412,7 @@ export async function consolidateMemories(
     memories_created: memoriesCreated,
     memories_reinforced: memoriesReinforced,
     memories_linked: memoriesLinked,
+    conflicts_detected: conflictsDetected,
     duration_ms: Date.now() - startTime,
     errors,
     provider_used: providerUsed
@@ -365,7 +423,76 @@ export async function consolidateMemories(
 }
 
 /**
- * Promote warm memories to long-term based on reinforcement
+ * Apply the decay policy: demote fading long-term memories to warm and
+ * archive fading warm memories. Pinned memories are left alone.
+ */
+export async function applyMemoryDecay(
+  agentDb: AgentDatabase,
+  agentId: string,
+  options: {
+    policy?: Partial<RetentionPolicy>
+    dryRun?: boolean
+  } = {}
+): Promise<{ demoted: number; archived: number; scores: Map<string, number> }> {
+  const defaults = DEFAULT_MEMORY_SETTINGS.retention
+  const policy: RetentionPolicy = {
+    decayHalfLifeDays: options.policy?.decayHalfLifeDays ?? defaults.decayHalfLifeDays,
+    categoryHalfLifeDays: options.policy?.categoryHalfLifeDays ?? defaults.categoryHalfLifeDays,
+    demoteBelowScore: options.policy?.demoteBelowScore ?? defaults.demoteBelowScore,
+    archiveBelowScore: options.policy?.archiveBelowScore ?? defaults.archiveBelowScore
+  }
+
+  const result = await agentDb.run(`
+    ?[memory_id, category, tier, confidence, created_at, last_reinforced_at, last_accessed_at] :=
+      *memories{memory_id, agent_id, category, tier, confidence, created_at, last_reinforced_at, last_accessed_at},
+      agent_id = ${escapeForCozo(agentId)},
+      tier in ['warm', 'long']
+  `)
+
+  const candidates: RetentionCandidate[] = result.rows.map((row: unknown[]) => ({
+    memory_id: row[0] as string,
+    category: row[1] as MemoryCategory,
+    tier: row[2] as 'warm' | 'long',
+    confidence: row[3] as number,
+    created_at: row[4] as number,
+    last_reinforced_at: row[5] as number,
+    last_accessed_at: row[6] as number | null
+  }))
+
+  const pinned = await getPinnedMemoryIds(agentDb)
+  const plan = planRetention(candidates, pinned, policy)
+
+  if (options.dryRun) {
+    return { demoted: plan.demote.length, archived: plan.archive.length, scores: plan.scores }
+  }
+
+  let demoted = 0
+  let archived = 0
+  for (const memoryId of plan.demote) {
+    try {
+      await setMemoryTier(agentDb, memoryId, 'warm')
+      demoted++
+      console.log(`[CONSOLIDATE] Demoted to warm (decayed): ${memoryId}`)
+    } catch (error: any) {
+      console.error(`[CONSOLIDATE] Failed to demote ${memoryId}:`, error.message)
+    }
+  }
+  for (const memoryId of plan.archive) {
+    try {
+      await setMemoryTier(agentDb, memoryId, 'archived')
+      archived++
+      console.log(`[CONSOLIDATE] Archived (decayed): ${memoryId}`)
+    } catch (error: any) {
+      console.error(`[CONSOLIDATE] Failed to archive ${memoryId}:`, error.message)
+    }
+  }
+
+  return { demoted, archived, scores: plan.scores }
+}
+
+/**
+ * Promote warm memories to long-term based on reinforcement, after applying
+ * the decay policy so fading memories are not promoted straight back.
  */
 export async function promoteMemories(
   agentDb: AgentDatabase,
@@ -373,13 +500,17 @@ export async function promoteMemories(
   options: {
     minReinforcements?: number
     minAgeDays?: number
+    decay?: Partial<RetentionPolicy>
     dryRun?: boolean
   } = {}
-): Promise<{ promoted: number; eligible: number }> {
+): Promise<{ promoted: number; eligible: number; demoted: number; archived: number }> {
   const minReinforcements = options.minReinforcements || DEFAULT_MEMORY_SETTINGS.retention.warmToLongMinReinforcements
   const minAgeDays = options.minAgeDays || DEFAULT_MEMORY_SETTINGS.retention.warmToLongPromotionDays
   const minAgeMs = minAgeDays * 24 * 60 * 60 * 1000
   const cutoffTime = Date.now() - minAgeMs
+  const demoteBelowScore = options.decay?.demoteBelowScore ?? DEFAULT_MEMORY_SETTINGS.retention.demoteBelowScore
+
+  const decay = await applyMemoryDecay(agentDb, agentId, { policy: options.decay, dryRun: options.dryRun })
 
   // Find eligible memories
   const result = await agentDb.run(`
@@ -391,11 +522,16 @@ export async function promoteMemories(
       created_at <= ${cutoffTime}
   `)
 
-  const eligible = result.rows.length
+  const eligibleRows = result.rows.filter((row: unknown[]) => {
+    const memoryId = row[0] as string
+    const score = decay.scores.get(memoryId)
+    return score === undefined || score >= demoteBelowScore
+  })
+  const eligible = eligibleRows.length
   let promoted = 0
 
   if (!options.dryRun) {
-    for (const row of result.rows) {
+    for (const row of eligibleRows) {
       const memoryId = row[0] as string
       try {
         await agentDb.run(`
@@ -416,7 +552,65 @@ export async function promoteMemories(
     promoted = eligible
   }
 
-  return { promoted, eligible }
+  return { promoted, eligible, demoted: decay.demoted, archived: decay.archived }
+}
+
+/**
+ * Full maintenance pass: prune short-term memory, apply decay, promote, and
+ * record the statistics as a 'maintenance' row in consolidation_runs.
+ */
+export async function runMemoryMaintenance(
+  agentDb: AgentDatabase,
+  agentId: string,
+  options: {
+    retention?: Partial<MemorySettings['retention']>
+    dryRun?: boolean
+  } = {}
+): Promise<{ run_id: string; status: 'completed' | 'failed'; pruned: number; promoted: number; demoted: number; archived: number; error?: string }> {
+  const startedAt = Date.now()
+  const runId = `maint-${startedAt}-${uuidv4().substring(0, 8)}`
+  const retention = options.retention || {}
+  const stats = { pruned: 0, promoted: 0, demoted: 0, archived: 0 }
+  let error: string | undefined
+
+  try {
+    const pruneResult = await pruneShortTermMemory(agentDb, agentId, {
+      retentionDays: retention.shortTermDays,
+      dryRun: options.dryRun
+    })
+    stats.pruned = pruneResult.pruned
+
+    const promoteResult = await promoteMemories(agentDb, agentId, {
+      minReinforcements: retention.warmToLongMinReinforcements,
+      minAgeDays: retention.warmToLongPromotionDays,
+      decay: retention,
+      dryRun: options.dryRun
+    })
+    stats.promoted = promoteResult.promoted
+    stats.demoted = promoteResult.demoted
+    stats.archived = promoteResult.archived
+  } catch (maintenanceError: any) {
+    error = maintenanceError.message
+    console.error(`[CONSOLIDATE] Maintenance failed:`, maintenanceError.message)
+  }
+
+  const status = error ? 'failed' : 'completed'
+  if (!options.dryRun) {
+    await recordMaintenanceRun(agentDb, {
+      run_id: runId,
+      agent_id: agentId,
+      started_at: startedAt,
+      status,
+      memories_promoted: stats.promoted,
+      memories_demoted: stats.demoted,
+      memories_archived: stats.archived,
+      messages_pruned: stats.pruned,
+      error
+    })
+  }
+
+  console.log(`[CONSOLIDATE] Maintenance ${status}:`, stats)
+  return { run_id: runId, status, ...stats, error }
 }
 
 /**
@@ -16,7 +16,17 @@ export {
   linkMemories,
   getMemoryStats,
   promoteMemory,
-  getConsolidationRuns
+  getConsolidationRuns,
+  recordMemoryConflict,
+  getMemoryConflicts,
+  getMemoryConflict,
+  resolveMemoryConflict,
+  supersedeMemory,
+  setMemoryTier,
+  pinMemory,
+  unpinMemory,
+  getPinnedMemoryIds,
+  recordMaintenanceRun
 } from '../cozo-schema-memory'
 
 // Schema types (must use export type with isolatedModules)
@@ -24,20 +34,44 @@ export type {
   MemoryCategory,
   MemoryTier,
   MemorySystem,
-  RelationshipType
+  RelationshipType,
+  MemoryConflict,
+  MemoryConflictStatus
 } from '../cozo-schema-memory'
 
 // Providers
 export { OllamaProvider, createOllamaProvider } from './ollama-provider'
 export { ClaudeProvider, createClaudeProvider } from './claude-provider'
+export { OpenAICompatibleProvider, createOpenAIProvider } from './openai-provider'
+
+// Retention
+export { computeDecayScore, planRetention, getHalfLifeDays } from './retention'
+export type { RetentionPolicy, RetentionCandidate, RetentionPlan } from './retention'
+
+// Settings
+export { loadMemorySettings, saveMemorySettings } from './settings'
 
 // Consolidation
 export {
   consolidateMemories,
   promoteMemories,
-  pruneShortTermMemory
+  pruneShortTermMemory,
+  applyMemoryDecay,
+  runMemoryMaintenance
 } from './consolidate'
 
+// Export / Import
+export { exportMemories, importMemories } from './transfer'
+export {
+  serializeMemoryExport,
+  parseMemoryExport,
+  parseCategoryMap,
+  MEMORY_EXPORT_FORMAT,
+  MEMORY_EXPORT_VERSION
+} from './portable'
+export type { MemoryImportOptions, MemoryImportResult } from './transfer'
+export type { MemoryExportHeader, PortableMemory, ParsedMemoryExport } from './portable'
+
 // Search
 export {
   searchMemories,
@@ -0,0 +1,307 @@
+/**
+ * OpenAI-Compatible LLM Provider for Memory Extraction
+ *
+ * Talks to any server exposing /v1/chat/completions (llama.cpp server, vLLM,
+ * LM Studio, OpenAI itself). Output is constrained with a JSON schema via
+ * response_format so small local models return parseable memories.
+ */
+
+import {
+  LLMProvider,
+  MemoryExtractionResult,
+  ExtractedMemory,
+  MEMORY_EXTRACTION_PROMPT
+} from './types'
+import { MemoryCategory, RelationshipType } from '../cozo-schema-memory'
+
+const VALID_CATEGORIES: MemoryCategory[] = ['fact', 'decision', 'preference', 'pattern', 'insight', 'reasoning']
+const VALID_RELATIONSHIPS: RelationshipType[] = ['leads_to', 'contradicts', 'supports', 'supersedes']
+
+export const MEMORY_EXTRACTION_SCHEMA = {
+  type: 'object',
+  properties: {
+    memories: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          category: { type: 'string', enum: VALID_CATEGORIES },
+          content: { type: 'string' },
+          context: { type: 'string' },
+          confidence: { type: 'number' }
+        },
+        required: ['category', 'content', 'context', 'confidence'],
+        additionalProperties: false
+      }
+    },
+    conversation_summary: { type: 'string' }
+  },
+  required: ['memories', 'conversation_summary'],
+  additionalProperties: false
+}
+
+export const RELATIONSHIP_SCHEMA = {
+  type: 'object',
+  properties: {
+    relationships: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          index: { type: 'integer' },
+          relationship: { type: 'string', enum: VALID_RELATIONSHIPS },
+          confidence: { type: 'number' }
+        },
+        required: ['index', 'relationship', 'confidence'],
+        additionalProperties: false
+      }
+    }
+  },
+  required: ['relationships'],
+  additionalProperties: false
+}
+
+interface ChatCompletionResponse {
+  model?: string
+  choices: Array<{ message: { content: string | null } }>
+  usage?: { prompt_tokens?: number; completion_tokens?: number; total_tokens?: number }
+}
+
+export class OpenAICompatibleProvider implements LLMProvider {
+  name = 'openai'
+  model: string
+  baseUrl: string
+  authHeader: string
+  private apiKey?: string
+
+  constructor(options?: { model?: string; baseUrl?: string; authHeader?: string; apiKey?: string }) {
+    this.model = options?.model || 'default'
+    this.baseUrl = (options?.baseUrl || 'http://localhost:8000/v1').replace(/\/+$/, '')
+    this.authHeader = options?.authHeader || 'Authorization'
+    this.apiKey = options?.apiKey || process.env.OPENAI_API_KEY || undefined
+  }
+
+  /**
+   * Request headers, including the auth header when a key is configured.
+   * The standard Authorization header gets a Bearer prefix; custom headers
+   * (e.g. api-key, X-API-Key) carry the key as-is.
+   */
+  private headers(): Record<string, string> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers[this.authHeader] = this.authHeader.toLowerCase() === 'authorization'
+        ? `Bearer ${this.apiKey}`
+        : this.apiKey
+    }
+    return headers
+  }
+
+  private async complete(
+    prompt: string,
+    schemaName: string,
+    schema: object,
+    options: { maxTokens: number; temperature: number; timeoutMs: number }
+  ): Promise<ChatCompletionResponse> {
+    const response = await fetch(`${this.baseUrl}/chat/completions`, {
+      method: 'POST',
+      headers: this.headers(),
+      body: JSON.stringify({
+        model: this.model,
+        messages: [{ role: 'user', content: prompt }],
+        temperature: options.temperature,
+        max_tokens: options.maxTokens,
+        response_format: {
+          type: 'json_schema',
+          json_schema: { name: schemaName, strict: true, schema }
+        }
+      }),
+      signal: AbortSignal.timeout(options.timeoutMs)
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible API error: ${response.status} ${response.statusText}`)
+    }
+
+    return await response.json() as ChatCompletionResponse
+  }
+
+  /**
+   * Check if the server is reachable and accepts our credentials
+   */
+  async isAvailable(): Promise<boolean> {
+    try {
+      const response = await fetch(`${this.baseUrl}/models`, {
+        method: 'GET',
+        headers: this.headers(),
+        signal: AbortSignal.timeout(5000)
+      })
+
+      if (!response.ok) {
+        console.log(`[OPENAI] Server at ${this.baseUrl} responded ${response.status}`)
+        return false
+      }
+
+      const data = await response.json() as { data?: Array<{ id: string }> }
+      const models = data.data?.map(m => m.id) || []
+      // Single-model servers (llama.cpp) may report a file path, so a missing id is only logged
+      if (models.length > 0 && !models.includes(this.model)) {
+        console.log(`[OPENAI] Model ${this.model} not listed. Available: ${models.join(', ')}`)
+      }
+
+      return true
+    } catch (error: any) {
+      if (error.name === 'TimeoutError') {
+        console.log('[OPENAI] Connection timeout')
+      } else {
+        console.log('[OPENAI] Not available:', error.message)
+      }
+      return false
+    }
+  }
+
+  /**
+   * Extract memories from conversation text
+   */
+  async extractMemories(
+    conversationText: string,
+    options?: {
+      maxMemories?: number
+      minConfidence?: number
+      categories?: MemoryCategory[]
+    }
+  ): Promise<MemoryExtractionResult> {
+    const startTime = Date.now()
+    const prompt = MEMORY_EXTRACTION_PROMPT.replace('{conversation_text}', conversationText)
+
+    try {
+      const data = await this.complete(prompt, 'memory_extraction', MEMORY_EXTRACTION_SCHEMA, {
+        maxTokens: 2048,
+        temperature: 0.3,
+        timeoutMs: 120000  // 2 minute timeout for extraction
+      })
+
+      const text = data.choices?.[0]?.message?.content || ''
+      const metadata = {
+        model: data.model || this.model,
+        tokens_used: data.usage?.total_tokens,
+        processing_time_ms: Date.now() - startTime
+      }
+
+      let parsed: { memories: ExtractedMemory[]; conversation_summary?: string }
+      try {
+        parsed = JSON.parse(text)
+      } catch {
+        console.error('[OPENAI] Failed to parse response:', text.substring(0, 500))
+        return { memories: [], extraction_metadata: metadata }
+      }
+
+      let memories = (parsed.memories || []).filter(m => {
+        if (!m.category || !m.content || typeof m.confidence !== 'number') {
+          return false
+        }
+        if (!VALID_CATEGORIES.includes(m.category)) {
+          return false
+        }
+        if (options?.minConfidence && m.confidence < options.minConfidence) {
+          return false
+        }
+        if (options?.categories && !options.categories.includes(m.category)) {
+          return false
+        }
+        return true
+      })
+
+      if (options?.maxMemories && memories.length > options.maxMemories) {
+        memories = memories
+          .sort((a, b) => b.confidence - a.confidence)
+          .slice(0, options.maxMemories)
+      }
+
+      return {
+        memories,
+        conversation_summary: parsed.conversation_summary,
+        extraction_metadata: metadata
+      }
+    } catch (error: any) {
+      console.error('[OPENAI] Extraction failed:', error.message)
+      throw error
+    }
+  }
+
+  /**
+   * Find relationships between a new memory and existing memories
+   */
+  async findRelationships(
+    newMemory: ExtractedMemory,
+    existingMemories: Array<{ memory_id: string; content: string; category: string }>
+  ): Promise<Array<{
+    memory_id: string
+    relationship: RelationshipType
+    confidence: number
+  }>> {
+    if (existingMemories.length === 0) {
+      return []
+    }
+
+    const prompt = `Analyze the relationship between a new memory and existing memories.
+
+NEW MEMORY:
+Category: ${newMemory.category}
+Content: ${newMemory.content}
+
+EXISTING MEMORIES:
+${existingMemories.map((m, i) => `[${i}] (${m.memory_id}) ${m.category}: ${m.content}`).join('\n')}
+
+For each existing memory that has a meaningful relationship with the new memory, identify the relationship type:
+- leads_to: The new memory is a consequence or follow-up of the existing one
+- contradicts: The new memory contradicts or conflicts with the existing one
+- supports: The new memory provides additional evidence for the existing one
+- supersedes: The new memory replaces or updates the existing one
+
+Only include relationships with confidence > 0.6, referring to existing memories by their [index].
+If no meaningful relationships exist, return an empty relationships list.`
+
+    try {
+      const data = await this.complete(prompt, 'memory_relationships', RELATIONSHIP_SCHEMA, {
+        maxTokens: 512,
+        temperature: 0.2,
+        timeoutMs: 30000
+      })
+
+      let parsed: { relationships: Array<{ index: number; relationship: string; confidence: number }> }
+      try {
+        parsed = JSON.parse(data.choices?.[0]?.message?.content || '')
+      } catch {
+        return []
+      }
+
+      return (parsed.relationships || [])
+        .filter(r =>
+          r.index >= 0 &&
+          r.index < existingMemories.length &&
+          VALID_RELATIONSHIPS.includes(r.relationship as RelationshipType) &&
+          r.confidence > 0.6
+        )
+        .map(r => ({
+          memory_id: existingMemories[r.index].memory_id,
+          relationship: r.relationship as RelationshipType,
+          confidence: r.confidence
+        }))
+    } catch (error) {
+      console.error('[OPENAI] Relationship finding failed:', error)
+      return []
+    }
+  }
+}
+
+/**
+ * Create an OpenAI-compatible provider
+ */
+export function createOpenAIProvider(options?: {
+  model?: string
+  baseUrl?: string
+  authHeader?: string
+  apiKey?: string
+}): OpenAICompatibleProvider {
+  return new OpenAICompatibleProvider(options)
+}
@@ -0,0 +1,181 @@
+/**
+ * Portable Memory Format
+ *
+ * JSONL serialization of an agent's consolidated memories, their links and
+ * embeddings. The first line is a header carrying the schema version and the
+ * embedding model; every following line is one memory or one link:
+ *
+ *   {"type":"header","format":"aimaestro-memory","version":1,...}
+ *   {"type":"memory","memory":{...},"embedding":[...]}
+ *   {"type":"link","from_memory_id":"...","to_memory_id":"...","relationship":"supports"}
+ *
+ * Pure functions only; lib/memory/transfer.ts reads and writes CozoDB.
+ */
+
+import type { MemoryCategory, MemoryTier, MemorySystem, RelationshipType } from '../cozo-schema-memory'
+
+export const MEMORY_EXPORT_FORMAT = 'aimaestro-memory'
+export const MEMORY_EXPORT_VERSION = 1
+
+export const MEMORY_CATEGORIES: MemoryCategory[] = ['fact', 'decision', 'preference', 'pattern', 'insight', 'reasoning']
+const RELATIONSHIPS: RelationshipType[] = ['leads_to', 'contradicts', 'supports', 'supersedes']
+
+export interface MemoryExportHeader {
+  type: 'header'
+  format: typeof MEMORY_EXPORT_FORMAT
+  version: number
+  agent_id: string
+  exported_at: string
+  embedding_model: string
+  embedding_dim: number
+  counts: { memories: number; links: number }
+}
+
+export interface PortableMemory {
+  memory_id: string
+  tier: MemoryTier
+  system: MemorySystem
+  category: MemoryCategory
+  content: string
+  context: string | null
+  source_conversations: string[]
+  confidence: number
+  created_at: number
+  reinforcement_count: number
+  promoted_at: number | null
+  pinned: boolean
+}
+
+export interface MemoryExportRecord {
+  type: 'memory'
+  memory: PortableMemory
+  embedding?: number[]
+}
+
+export interface LinkExportRecord {
+  type: 'link'
+  from_memory_id: string
+  to_memory_id: string
+  relationship: RelationshipType
+  created_at: number
+}
+
+export interface ParsedMemoryExport {
+  header: MemoryExportHeader
+  memories: MemoryExportRecord[]
+  links: LinkExportRecord[]
+}
+
+function isTimestampOrCount(value: unknown): value is number {
+  return Number.isSafeInteger(value) && (value as number) >= 0
+}
+
+export function isMemoryCategory(value: unknown): value is MemoryCategory {
+  return typeof value === 'string' && (MEMORY_CATEGORIES as string[]).includes(value)
+}
+
+/**
+ * Serialize an export to JSONL (one record per line, trailing newline)
+ */
+export function serializeMemoryExport(
+  header: Omit<MemoryExportHeader, 'type' | 'format' | 'version' | 'counts'>,
+  memories: MemoryExportRecord[],
+  links: LinkExportRecord[]
+): string {
+  const fullHeader: MemoryExportHeader = {
+    type: 'header',
+    format: MEMORY_EXPORT_FORMAT,
+    version: MEMORY_EXPORT_VERSION,
+    ...header,
+    counts: { memories: memories.length, links: links.length }
+  }
+  return [fullHeader, ...memories, ...links].map(record => JSON.stringify(record)).join('\n') + '\n'
+}
+
+/**
+ * Parse and validate a JSONL export. Throws with the offending line number.
+ */
+export function parseMemoryExport(text: string): ParsedMemoryExport {
+  const lines = text.split('\n').map(line => line.trim())
+  const records: Array<{ lineNumber: number; record: any }> = []
+  lines.forEach((line, index) => {
+    if (!line) return
+    try {
+      records.push({ lineNumber: index + 1, record: JSON.parse(line) })
+    } catch {
+      throw new Error(`Line ${index + 1}: invalid JSON`)
+    }
+  })
+
+  const first = records[0]?.record
+  if (!first || first.type !== 'header' || first.format !== MEMORY_EXPORT_FORMAT) {
+    throw new Error(`Line 1: expected a ${MEMORY_EXPORT_FORMAT} header`)
+  }
+  if (typeof first.version !== 'number' || first.version > MEMORY_EXPORT_VERSION) {
+    throw new Error(`Unsupported memory export version: ${first.version}`)
+  }
+
+  const parsed: ParsedMemoryExport = { header: first as MemoryExportHeader, memories: [], links: [] }
+
+  for (const { lineNumber, record } of records.slice(1)) {
+    if (record.type === 'memory') {
+      const memory = record.memory
+      if (!memory || typeof memory.memory_id !== 'string' || typeof memory.content !== 'string' || !memory.content.trim()) {
+        throw new Error(`Line ${lineNumber}: memory needs memory_id and content`)
+      }
+      if (typeof memory.category !== 'string') {
+        throw new Error(`Line ${lineNumber}: memory needs a category`)
+      }
+      // These end up in CozoScript as raw numbers, so only finite values get through
+      for (const field of ['created_at', 'reinforcement_count'] as const) {
+        if (!isTimestampOrCount(memory[field])) {
+          throw new Error(`Line ${lineNumber}: ${field} must be a non-negative integer`)
+        }
+      }
+      if (memory.promoted_at !== null && !isTimestampOrCount(memory.promoted_at)) {
+        throw new Error(`Line ${lineNumber}: promoted_at must be a non-negative integer or null`)
+      }
+      if (memory.confidence !== undefined &&
+          (!Number.isFinite(memory.confidence) || memory.confidence < 0 || memory.confidence > 1)) {
+        throw new Error(`Line ${lineNumber}: confidence must be between 0 and 1`)
+      }
+      if (record.embedding !== undefined && (!Array.isArray(record.embedding) || !record.embedding.every((v: unknown) => Number.isFinite(v)))) {
+        throw new Error(`Line ${lineNumber}: embedding must be an array of numbers`)
+      }
+      parsed.memories.push(record as MemoryExportRecord)
+    } else if (record.type === 'link') {
+      if (typeof record.from_memory_id !== 'string' || typeof record.to_memory_id !== 'string') {
+        throw new Error(`Line ${lineNumber}: link needs from_memory_id and to_memory_id`)
+      }
+      if (!RELATIONSHIPS.includes(record.relationship)) {
+        throw new Error(`Line ${lineNumber}: unknown relationship "${record.relationship}"`)
+      }
+      parsed.links.push(record as LinkExportRecord)
+    } else {
+      throw new Error(`Line ${lineNumber}: unknown record type "${record.type}"`)
+    }
+  }
+
+  return parsed
+}
+
+/**
+ * Parse a category remapping, given as an object or as "from:to,from:to".
+ * Both sides must be known categories.
+ */
+export function parseCategoryMap(spec: string | Record<string, string> | undefined | null): Partial<Record<MemoryCategory, MemoryCategory>> {
+  if (!spec) return {}
+
+  const entries = typeof spec === 'string'
+    ? spec.split(',').filter(Boolean).map(pair => pair.split(':').map(part => part.trim()))
+    : Object.entries(spec)
+
+  const map: Partial<Record<MemoryCategory, MemoryCategory>> = {}
+  for (const [from, to] of entries) {
+    if (!isMemoryCategory(from) || !isMemoryCategory(to)) {
+      throw new Error(`Invalid category mapping: ${from}:${to}`)
+    }
+    map[from] = to
+  }
+  return map
+}
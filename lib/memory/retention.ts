@@ -0,0 +1,86 @@
+/**
+ * Memory Retention Policy
+ *
+ * Decay scoring for long-term memories. A memory's score is its confidence,
+ * halved for every half-life that passes without it being reinforced or
+ * recalled. Low scores demote long-term memories back to warm, and warm
+ * memories that keep fading are archived. Pinned memories never decay.
+ *
+ * Pure functions only; lib/memory/consolidate.ts applies the plan.
+ */
+
+import type { MemoryCategory, MemoryTier } from '../cozo-schema-memory'
+import type { MemorySettings } from './types'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export type RetentionPolicy = Pick<
+  MemorySettings['retention'],
+  'decayHalfLifeDays' | 'categoryHalfLifeDays' | 'demoteBelowScore' | 'archiveBelowScore'
+>
+
+export interface RetentionCandidate {
+  memory_id: string
+  category: MemoryCategory
+  tier: MemoryTier
+  confidence: number
+  created_at: number
+  last_reinforced_at: number
+  last_accessed_at: number | null
+}
+
+export interface RetentionPlan {
+  demote: string[]    // long -> warm
+  archive: string[]   // warm -> archived
+  scores: Map<string, number>
+}
+
+/**
+ * Half-life that applies to a category (0 = never decays)
+ */
+export function getHalfLifeDays(category: MemoryCategory, policy: RetentionPolicy): number {
+  return policy.categoryHalfLifeDays?.[category] ?? policy.decayHalfLifeDays
+}
+
+/**
+ * Current decay score between 0 and the memory's confidence.
+ */
+export function computeDecayScore(memory: RetentionCandidate, halfLifeDays: number, now: number = Date.now()): number {
+  if (halfLifeDays <= 0) return memory.confidence
+
+  const lastActive = Math.max(memory.created_at, memory.last_reinforced_at, memory.last_accessed_at || 0)
+  const idleDays = Math.max(0, now - lastActive) / DAY_MS
+  return memory.confidence * Math.pow(0.5, idleDays / halfLifeDays)
+}
+
+/**
+ * Decide which memories to demote or archive. A memory moves at most one
+ * step per pass, so a fading long-term memory is demoted first and only
+ * archived on a later pass.
+ */
+export function planRetention(
+  memories: RetentionCandidate[],
+  pinned: Set<string>,
+  policy: RetentionPolicy,
+  now: number = Date.now()
+): RetentionPlan {
+  const plan: RetentionPlan = { demote: [], archive: [], scores: new Map() }
+
+  for (const memory of memories) {
+    if (pinned.has(memory.memory_id)) continue
+
+    const halfLife = getHalfLifeDays(memory.category, policy)
+    if (halfLife <= 0) continue
+
+    const score = computeDecayScore(memory, halfLife, now)
+    plan.scores.set(memory.memory_id, score)
+
+    if (memory.tier === 'long' && score < policy.demoteBelowScore) {
+      plan.demote.push(memory.memory_id)
+    } else if (memory.tier === 'warm' && score < policy.archiveBelowScore) {
+      plan.archive.push(memory.memory_id)
+    }
+  }
+
+  return plan
+}
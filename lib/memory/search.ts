@@ -6,13 +6,8 @@
  */
 
 import { AgentDatabase } from '../cozo-db'
-import { embedTexts } from '../rag/embeddings'
-
-// Helper to embed a single text
-async function embed(text: string): Promise<number[]> {
-  const embeddings = await embedTexts([text])
-  return Array.from(embeddings[0])
-}
+import { embedText } from '../rag/embeddings'
+import { loadEmbeddingConfig, embeddingSignature } from '../rag/embedding-providers'
 import {
   searchMemoriesByEmbedding,
   getMemoriesByCategory,
@@ -28,6 +23,7 @@ import {
   DEFAULT_MEMORY_SETTINGS
 } from './types'
 import { escapeForCozo } from '../cozo-utils'
+import { getTeamsForAgent, searchTeamMemories } from '../team-memory'
 
 /**
  * Search long-term memories using semantic similarity
@@ -37,14 +33,25 @@ export async function searchMemories(
   agentId: string,
   query: string,
   options: MemorySearchOptions = {}
+): Promise<MemorySearchResult[]> {
+  // Generate embedding for query
+  const queryEmbedding = await embedText(query)
+  return searchMemoriesByVector(agentDb, agentId, queryEmbedding, options)
+}
+
+/**
+ * searchMemories with the query already embedded
+ */
+async function searchMemoriesByVector(
+  agentDb: AgentDatabase,
+  agentId: string,
+  queryEmbedding: number[],
+  options: MemorySearchOptions = {}
 ): Promise<MemorySearchResult[]> {
   const limit = options.limit || DEFAULT_MEMORY_SETTINGS.search.defaultLimit
   const includeRelated = options.includeRelated ?? DEFAULT_MEMORY_SETTINGS.search.includeRelatedByDefault
   const relatedDepth = options.relatedDepth || DEFAULT_MEMORY_SETTINGS.search.relatedDepth
 
-  // Generate embedding for query
-  const queryEmbedding = await embed(query)
-
   // Search by embedding similarity
   const results = await searchMemoriesByEmbedding(
     agentDb,
@@ -202,9 +209,10 @@ export async function getStats(
   // Get last consolidation info
   const lastRun = await agentDb.run(`
     ?[run_id, started_at, memories_created] :=
-      *consolidation_runs{run_id, agent_id, started_at, memories_created, status},
+      *consolidation_runs{run_id, agent_id, started_at, memories_created, status, run_type},
       agent_id = ${escapeForCozo(agentId)},
-      status = 'completed'
+      status = 'completed',
+      run_type = 'consolidation'
 
     :order -started_at
     :limit 1
@@ -292,7 +300,15 @@ export async function getMostReinforcedMemories(
 }
 
 /**
- * Build context from memories for LLM prompt
+ * Rank score for context building: similarity, nudged up by reinforcement
+ */
+function memoryRank(similarity: number, reinforcementCount: number): number {
+  return similarity * (1 + 0.1 * Math.log1p(reinforcementCount))
+}
+
+/**
+ * Build context from memories for LLM prompt.
+ * Merges the agent's own memories with the shared pools of its teams.
  */
 export async function buildMemoryContext(
   agentDb: AgentDatabase,
@@ -301,18 +317,55 @@ export async function buildMemoryContext(
   options: {
     maxTokens?: number
     includeCategories?: MemoryCategory[]
+    includeTeamMemories?: boolean
   } = {}
 ): Promise<string> {
   const maxTokens = options.maxTokens || 2000
-  const categories = options.includeCategories || ['fact', 'preference', 'pattern', 'insight']
+  // decision is one of the categories teams share, so it is recalled by default
+  const categories = options.includeCategories || ['fact', 'decision', 'preference', 'pattern', 'insight']
+  const limit = 10
 
   // Get relevant memories for the query
-  const queryResults = await searchMemories(agentDb, agentId, query, {
-    limit: 10,
+  const queryEmbedding = await embedText(query)
+  const ownResults = await searchMemoriesByVector(agentDb, agentId, queryEmbedding, {
+    limit,
     categories,
     minConfidence: 0.6
   })
 
+  // The HNSW search reports cosine distance; convert so both sources rank on similarity
+  const ranked: Array<MemorySearchResult & { rank: number; team?: string }> = ownResults.map(mem => ({
+    ...mem,
+    rank: memoryRank(1 - mem.similarity, mem.reinforcement_count)
+  }))
+
+  if (options.includeTeamMemories !== false) {
+    const ownIds = new Set(ownResults.map(m => m.memory_id))
+    const seen = new Set(ownResults.map(m => m.content))
+    const embeddingModel = embeddingSignature(loadEmbeddingConfig())
+    for (const team of getTeamsForAgent(agentId)) {
+      for (const { memory, similarity } of searchTeamMemories(team.id, queryEmbedding, embeddingModel, { limit, categories, minConfidence: 0.6 })) {
+        // Skip what this agent published itself and already recalled
+        if (memory.source.agentId === agentId && memory.source.memoryId && ownIds.has(memory.source.memoryId)) continue
+        if (seen.has(memory.content)) continue
+        seen.add(memory.content)
+        ranked.push({
+          memory_id: memory.id,
+          category: memory.category,
+          content: memory.content,
+          context: memory.context || null,
+          confidence: memory.confidence,
+          reinforcement_count: memory.reinforcementCount,
+          similarity,
+          rank: memoryRank(similarity, memory.reinforcementCount),
+          team: team.name
+        })
+      }
+    }
+  }
+
+  const queryResults = ranked.sort((a, b) => b.rank - a.rank).slice(0, limit)
+
   // Get top preferences and patterns
   const preferences = await getPreferences(agentDb, agentId, 5)
   const patterns = await getPatterns(agentDb, agentId, 5)
@@ -323,7 +376,8 @@ export async function buildMemoryContext(
   if (queryResults.length > 0) {
     sections.push('## Relevant Memories')
     for (const mem of queryResults) {
-      sections.push(`- [${mem.category}] ${mem.content}`)
+      const label = mem.team ? `${mem.category}, team ${mem.team}` : mem.category
+      sections.push(`- [${label}] ${mem.content}`)
       if (mem.context) {
         sections.push(`  Context: ${mem.context}`)
       }
@@ -0,0 +1,78 @@
+/**
+ * Per-Agent Memory Settings
+ *
+ * Storage: ~/.aimaestro/agents/{agentId}/memory-settings.json
+ * Only the values an agent overrides are meaningful; everything else
+ * falls back to DEFAULT_MEMORY_SETTINGS.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { DEFAULT_MEMORY_SETTINGS, type MemorySettings } from './types'
+
+export type MemorySettingsUpdate = {
+  [K in keyof MemorySettings]?: Partial<MemorySettings[K]>
+}
+
+interface MemorySettingsFile {
+  version: 1
+  settings: MemorySettingsUpdate
+}
+
+function settingsFilePath(agentId: string): string {
+  return path.join(os.homedir(), '.aimaestro', 'agents', agentId, 'memory-settings.json')
+}
+
+function loadOverrides(agentId: string): MemorySettingsUpdate {
+  try {
+    const filePath = settingsFilePath(agentId)
+    if (!fs.existsSync(filePath)) {
+      return {}
+    }
+    const parsed: MemorySettingsFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    return parsed.settings || {}
+  } catch (error) {
+    console.error(`Failed to load memory settings for agent ${agentId}:`, error)
+    return {}
+  }
+}
+
+function mergeSettings(overrides: MemorySettingsUpdate): MemorySettings {
+  return {
+    consolidation: { ...DEFAULT_MEMORY_SETTINGS.consolidation, ...overrides.consolidation },
+    retention: { ...DEFAULT_MEMORY_SETTINGS.retention, ...overrides.retention },
+    search: { ...DEFAULT_MEMORY_SETTINGS.search, ...overrides.search },
+  }
+}
+
+/**
+ * Effective settings for an agent (defaults plus its overrides)
+ */
+export function loadMemorySettings(agentId: string): MemorySettings {
+  return mergeSettings(loadOverrides(agentId))
+}
+
+/**
+ * Merge an update into the agent's overrides and return the effective settings.
+ * An empty openaiApiKey removes the stored key.
+ */
+export function saveMemorySettings(agentId: string, update: MemorySettingsUpdate): MemorySettings {
+  const current = loadOverrides(agentId)
+  const next: MemorySettingsUpdate = {
+    consolidation: { ...current.consolidation, ...update.consolidation },
+    retention: { ...current.retention, ...update.retention },
+    search: { ...current.search, ...update.search },
+  }
+  if (next.consolidation?.openaiApiKey === '') {
+    delete next.consolidation.openaiApiKey
+  }
+
+  const filePath = settingsFilePath(agentId)
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const file: MemorySettingsFile = { version: 1, settings: next }
+  // The file may hold an API key
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 })
+
+  return mergeSettings(next)
+}
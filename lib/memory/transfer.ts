@@ -0,0 +1,264 @@
+/**
+ * Memory Export / Import
+ *
+ * Moves consolidated knowledge between agents using the portable JSONL format
+ * from ./portable. Superseded and archived memories are not exported; links
+ * are kept only when both ends are exported.
+ */
+
+import { v4 as uuidv4 } from 'uuid'
+import { AgentDatabase } from '../cozo-db'
+import { escapeForCozo } from '../cozo-utils'
+import { embedText, getEmbeddingProvider } from '../rag/embeddings'
+import {
+  createMemory,
+  storeMemoryEmbedding,
+  reinforceMemory,
+  linkMemories,
+  pinMemory,
+  getPinnedMemoryIds,
+  MemoryCategory,
+  MemoryTier,
+  MemorySystem,
+  RelationshipType
+} from '../cozo-schema-memory'
+import { getCategorySystem } from './types'
+import { checkDuplicate } from './consolidate'
+import {
+  serializeMemoryExport,
+  isMemoryCategory,
+  type MemoryExportRecord,
+  type LinkExportRecord,
+  type ParsedMemoryExport
+} from './portable'
+
+export interface MemoryImportOptions {
+  reembed?: boolean         // Recompute embeddings instead of using the exported ones
+  dedupe?: boolean          // Reinforce near-duplicates instead of creating them
+  categoryMap?: Partial<Record<MemoryCategory, MemoryCategory>>
+  dryRun?: boolean
+}
+
+export interface MemoryImportResult {
+  memories_total: number
+  memories_created: number
+  memories_reinforced: number
+  memories_skipped: number
+  memories_reembedded: number
+  links_created: number
+  errors: string[]
+}
+
+/**
+ * Vectors come back from CozoDB as arrays or typed-array bytes
+ */
+function toNumberArray(value: unknown): number[] | undefined {
+  if (Array.isArray(value)) return value as number[]
+  if (value instanceof Uint8Array) {
+    const copy = new Uint8Array(value)
+    return Array.from(new Float32Array(copy.buffer, 0, Math.floor(copy.byteLength / 4)))
+  }
+  return undefined
+}
+
+function parseJsonArray(value: unknown): string[] {
+  if (typeof value !== 'string') return []
+  try {
+    const parsed = JSON.parse(value)
+    return Array.isArray(parsed) ? parsed : []
+  } catch {
+    return []
+  }
+}
+
+/**
+ * Serialize an agent's memories, links and embeddings to JSONL
+ */
+export async function exportMemories(
+  agentDb: AgentDatabase,
+  agentId: string
+): Promise<{ content: string; memories: number; links: number }> {
+  const memoriesResult = await agentDb.run(`
+    ?[memory_id, tier, system, category, content, context, source_conversations,
+      confidence, created_at, reinforcement_count, promoted_at] :=
+      *memories{memory_id, agent_id, tier, system, category, content, context,
+        source_conversations, confidence, created_at, reinforcement_count, promoted_at},
+      agent_id = ${escapeForCozo(agentId)},
+      tier in ['warm', 'long']
+
+    :order created_at
+  `)
+
+  const vecResult = await agentDb.run(`
+    ?[memory_id, vec] :=
+      *memory_vec{memory_id, vec},
+      *memories{memory_id, agent_id, tier},
+      agent_id = ${escapeForCozo(agentId)},
+      tier in ['warm', 'long']
+  `)
+  const vectors = new Map<string, number[] | undefined>()
+  for (const row of vecResult.rows) {
+    vectors.set(row[0] as string, toNumberArray(row[1]))
+  }
+
+  const pinned = await getPinnedMemoryIds(agentDb)
+
+  const memories: MemoryExportRecord[] = memoriesResult.rows.map((row: unknown[]) => {
+    const memoryId = row[0] as string
+    return {
+      type: 'memory',
+      memory: {
+        memory_id: memoryId,
+        tier: row[1] as MemoryTier,
+        system: row[2] as MemorySystem,
+        category: row[3] as MemoryCategory,
+        content: row[4] as string,
+        context: row[5] as string | null,
+        source_conversations: parseJsonArray(row[6]),
+        confidence: row[7] as number,
+        created_at: row[8] as number,
+        reinforcement_count: row[9] as number,
+        promoted_at: row[10] as number | null,
+        pinned: pinned.has(memoryId)
+      },
+      embedding: vectors.get(memoryId)
+    }
+  })
+
+  const exported = new Set(memories.map(m => m.memory.memory_id))
+  const linksResult = await agentDb.run(`
+    ?[from_memory_id, to_memory_id, relationship, created_at] :=
+      *memory_links{from_memory_id, to_memory_id, relationship, created_at}
+  `)
+  const links: LinkExportRecord[] = linksResult.rows
+    .filter((row: unknown[]) => exported.has(row[0] as string) && exported.has(row[1] as string))
+    .map((row: unknown[]) => ({
+      type: 'link',
+      from_memory_id: row[0] as string,
+      to_memory_id: row[1] as string,
+      relationship: row[2] as RelationshipType,
+      created_at: row[3] as number
+    }))
+
+  const provider = getEmbeddingProvider()
+  const content = serializeMemoryExport({
+    agent_id: agentId,
+    exported_at: new Date().toISOString(),
+    embedding_model: provider.model,
+    embedding_dim: provider.dimension
+  }, memories, links)
+
+  return { content, memories: memories.length, links: links.length }
+}
+
+/**
+ * Import a parsed export into an agent. Exported embeddings are reused only
+ * when they come from the same model; otherwise the memory is re-embedded.
+ */
+export async function importMemories(
+  agentDb: AgentDatabase,
+  agentId: string,
+  data: ParsedMemoryExport,
+  options: MemoryImportOptions = {}
+): Promise<MemoryImportResult> {
+  const result: MemoryImportResult = {
+    memories_total: data.memories.length,
+    memories_created: 0,
+    memories_reinforced: 0,
+    memories_skipped: 0,
+    memories_reembedded: 0,
+    links_created: 0,
+    errors: []
+  }
+
+  const provider = getEmbeddingProvider()
+  const sameModel = data.header.embedding_model === provider.model && data.header.embedding_dim === provider.dimension
+  const categoryMap = options.categoryMap || {}
+  // Exported memory ID -> memory ID in this agent (new or reinforced)
+  const idMap = new Map<string, string>()
+  const created = new Set<string>()
+
+  for (const record of data.memories) {
+    const source = record.memory
+    try {
+      const category = categoryMap[source.category] ?? source.category
+      if (!isMemoryCategory(category)) {
+        result.memories_skipped++
+        result.errors.push(`${source.memory_id}: unknown category "${category}"`)
+        continue
+      }
+
+      let embedding = record.embedding
+      if (options.reembed || !sameModel || !embedding || embedding.length !== provider.dimension) {
+        embedding = await embedText(source.content)
+        result.memories_reembedded++
+      }
+
+      const confidence = typeof source.confidence === 'number' ? source.confidence : 0.7
+
+      if (options.dedupe) {
+        const dedup = await checkDuplicate(agentDb, agentId, {
+          category,
+          content: source.content,
+          context: source.context || '',
+          confidence
+        }, embedding)
+
+        if (dedup.action === 'reinforce' && dedup.existing_memory_id) {
+          if (!options.dryRun) {
+            await reinforceMemory(agentDb, dedup.existing_memory_id, source.context || undefined)
+          }
+          idMap.set(source.memory_id, dedup.existing_memory_id)
+          result.memories_reinforced++
+          continue
+        }
+      }
+
+      const memoryId = `mem-${Date.now()}-${uuidv4().substring(0, 8)}`
+      idMap.set(source.memory_id, memoryId)
+      created.add(memoryId)
+      result.memories_created++
+      if (options.dryRun) continue
+
+      await createMemory(agentDb, {
+        memory_id: memoryId,
+        agent_id: agentId,
+        tier: source.tier === 'long' ? 'long' : 'warm',
+        system: getCategorySystem(category),
+        category,
+        content: source.content,
+        context: source.context || undefined,
+        source_conversations: source.source_conversations,
+        confidence,
+        created_at: source.created_at,
+        reinforcement_count: source.reinforcement_count,
+        promoted_at: source.tier === 'long' ? source.promoted_at : null
+      })
+      await storeMemoryEmbedding(agentDb, memoryId, embedding)
+      if (source.pinned) {
+        await pinMemory(agentDb, memoryId)
+      }
+    } catch (error: any) {
+      result.memories_skipped++
+      result.errors.push(`${source.memory_id}: ${error.message}`)
+    }
+  }
+
+  for (const link of data.links) {
+    const from = idMap.get(link.from_memory_id)
+    const to = idMap.get(link.to_memory_id)
+    // Only link memories this import created; reinforced ones keep their own graph
+    if (!from || !to || from === to || (!created.has(from) && !created.has(to))) continue
+    try {
+      if (!options.dryRun) {
+        await linkMemories(agentDb, from, to, link.relationship)
+      }
+      result.links_created++
+    } catch (error: any) {
+      result.errors.push(`link ${link.from_memory_id} -> ${link.to_memory_id}: ${error.message}`)
+    }
+  }
+
+  console.log(`[MEMORY-IMPORT] ${agentId}: ${result.memories_created} created, ${result.memories_reinforced} reinforced, ${result.memories_skipped} skipped, ${result.links_created} links`)
+  return result
+}
@@ -64,17 +64,28 @@ export interface LLMProvider {
   }>>
 }
 
+/**
+ * Which LLM extracts memories. 'auto' tries Ollama, then Claude;
+ * 'openai' is any OpenAI-compatible /v1/chat/completions server.
+ */
+export type LLMProviderPreference = 'ollama' | 'claude' | 'openai' | 'auto'
+
 /**
  * Consolidation options
  */
 export interface ConsolidationOptions {
-  provider?: 'ollama' | 'claude' | 'auto'
+  provider?: LLMProviderPreference
   dryRun?: boolean
   maxConversations?: number
   minConfidence?: number
   categories?: MemoryCategory[]
   ollamaModel?: string
+  ollamaEndpoint?: string
   claudeModel?: string
+  openaiBaseUrl?: string
+  openaiModel?: string
+  openaiAuthHeader?: string
+  openaiApiKey?: string
 }
 
 /**
@@ -87,6 +98,7 @@ export interface ConsolidationResult {
   memories_created: number
   memories_reinforced: number
   memories_linked: number
+  conflicts_detected: number  // Contradicting pairs queued for review
   duration_ms: number
   errors: string[]
   provider_used: string
@@ -131,10 +143,14 @@ export interface MemorySettings {
     enabled: boolean
     schedule: 'nightly' | 'weekly' | 'manual'
     nightlyTime: string  // "02:00" format (24h)
-    llmProvider: 'ollama' | 'claude' | 'auto'
+    llmProvider: LLMProviderPreference
     ollamaModel: string
     ollamaEndpoint: string
     claudeModel: string
+    openaiBaseUrl: string  // Including the /v1 prefix
+    openaiModel: string
+    openaiAuthHeader: string  // "Authorization" sends "Bearer <key>", other headers send the key as-is
+    openaiApiKey?: string  // Falls back to OPENAI_API_KEY
     minConfidence: number
     maxMemoriesPerConversation: number
   }
@@ -143,6 +159,10 @@ export interface MemorySettings {
     pruneAfterConsolidation: boolean
     warmToLongPromotionDays: number  // Days before warm -> long
     warmToLongMinReinforcements: number  // Min reinforcements before promotion
+    decayHalfLifeDays: number  // Days without reinforcement or recall for the decay score to halve; 0 = never decays
+    categoryHalfLifeDays: Partial<Record<MemoryCategory, number>>  // Per-category override; 0 = keep forever
+    demoteBelowScore: number  // Long-term memories below this decay score drop back to warm
+    archiveBelowScore: number  // Warm memories below this decay score are archived (hidden from search)
   }
   search: {
     defaultLimit: number
@@ -163,6 +183,9 @@ export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
     ollamaModel: 'llama3.2',
     ollamaEndpoint: 'http://localhost:11434',
     claudeModel: 'claude-3-haiku-20240307',
+    openaiBaseUrl: 'http://localhost:8000/v1',
+    openaiModel: 'default',
+    openaiAuthHeader: 'Authorization',
     minConfidence: 0.7,
     maxMemoriesPerConversation: 10
   },
@@ -170,7 +193,11 @@ export const DEFAULT_MEMORY_SETTINGS: MemorySettings = {
     shortTermDays: 30,
     pruneAfterConsolidation: false,
     warmToLongPromotionDays: 7,
-    warmToLongMinReinforcements: 3
+    warmToLongMinReinforcements: 3,
+    decayHalfLifeDays: 180,
+    categoryHalfLifeDays: {},
+    demoteBelowScore: 0.3,
+    archiveBelowScore: 0.1
   },
   search: {
     defaultLimit: 10,
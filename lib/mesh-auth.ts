@@ -0,0 +1,434 @@
+/**
+ * Mesh Authentication - signed host-to-host requests and peer trust
+ *
+ * Storage: ~/.aimaestro/host-keys/        (this host's Ed25519 keypair)
+ *          ~/.aimaestro/mesh-trust.json   (pinned peer keys + pairing tokens)
+ *
+ * Every mesh request (register-peer, exchange-peers, directory sync, AMP
+ * forwarding and federation delivery) carries X-Mesh-* headers signed with
+ * the sender's host key. Receivers only act on requests from peers whose key
+ * is pinned as trusted. A new peer becomes trusted by presenting a one-time
+ * pairing token, by operator approval in Settings → Hosts, by being added by
+ * URL from this host, or by being introduced by a peer that is already trusted.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import crypto from 'crypto'
+import { v4 as uuidv4 } from 'uuid'
+import {
+  generateKeyPair,
+  loadKeyPairFromDir,
+  saveKeyPairToDir,
+  signWithPrivateKey,
+  verifySignature,
+  calculateFingerprint,
+  type KeyPair,
+} from './amp-keys'
+import { getSelfHost } from './hosts-config'
+import type { MeshTrustFile, PeerTrust, PeerTrustSource } from '@/types/host-sync'
+
+const AIMAESTRO_DIR = path.join(os.homedir(), '.aimaestro')
+const HOST_KEYS_DIR = path.join(AIMAESTRO_DIR, 'host-keys')
+const TRUST_FILE = path.join(AIMAESTRO_DIR, 'mesh-trust.json')
+
+const SIGNATURE_VERSION = 'aimaestro-mesh-v1'
+const MAX_CLOCK_SKEW_MS = 5 * 60 * 1000        // Also how long nonces are remembered
+const PAIRING_TOKEN_TTL_MS = 60 * 60 * 1000    // 1 hour
+const LAST_SEEN_RESOLUTION_MS = 60 * 1000
+
+export const MESH_HEADERS = {
+  host: 'X-Mesh-Host',
+  publicKey: 'X-Mesh-Public-Key',
+  timestamp: 'X-Mesh-Timestamp',
+  nonce: 'X-Mesh-Nonce',
+  signature: 'X-Mesh-Signature',
+  pairingToken: 'X-Mesh-Pairing-Token',
+} as const
+
+export type MeshHeaders = Partial<Record<keyof typeof MESH_HEADERS, string | null>>
+
+/** What a route hands to a service so it can authenticate the caller */
+export interface MeshRequest {
+  headers: MeshHeaders
+  body: string   // Raw request body exactly as received
+}
+
+/**
+ * Collect the X-Mesh-* headers using whatever header getter the caller has
+ * (NextRequest.headers.get or the headless router's getHeader).
+ */
+export function readMeshHeaders(get: (name: string) => string | null): MeshHeaders {
+  const headers: MeshHeaders = {}
+  for (const [key, name] of Object.entries(MESH_HEADERS)) {
+    headers[key as keyof typeof MESH_HEADERS] = get(name)
+  }
+  return headers
+}
+
+// ============================================================================
+// Host Identity
+// ============================================================================
+
+let hostKeyPairPromise: Promise<KeyPair> | null = null
+
+/**
+ * This host's mesh keypair, generated on first use.
+ */
+export function getHostKeyPair(): Promise<KeyPair> {
+  if (!hostKeyPairPromise) {
+    hostKeyPairPromise = (async () => {
+      const existing = loadKeyPairFromDir(HOST_KEYS_DIR)
+      if (existing) return existing
+      const keyPair = await generateKeyPair()
+      saveKeyPairToDir(HOST_KEYS_DIR, keyPair)
+      console.log(`[Mesh Auth] Generated host key ${keyPair.fingerprint}`)
+      return keyPair
+    })().catch(error => {
+      hostKeyPairPromise = null
+      throw error
+    })
+  }
+  return hostKeyPairPromise
+}
+
+// ============================================================================
+// Signing
+// ============================================================================
+
+function canonicalString(hostId: string, method: string, pathname: string, timestamp: string, nonce: string, body: string): string {
+  const bodyHash = crypto.createHash('sha256').update(body).digest('base64')
+  return [SIGNATURE_VERSION, hostId, method.toUpperCase(), pathname, timestamp, nonce, bodyHash].join('\n')
+}
+
+/**
+ * Build the signed headers for an outgoing mesh request.
+ * Only the URL's path is signed - peers reach each other under many aliases.
+ */
+export async function signMeshRequest(
+  method: string,
+  url: string,
+  body: string = '',
+  options?: { pairingToken?: string }
+): Promise<Record<string, string>> {
+  const keyPair = await getHostKeyPair()
+  const hostId = getSelfHost().id
+  const pathname = new URL(url, 'http://mesh.invalid').pathname
+  const timestamp = new Date().toISOString()
+  const nonce = crypto.randomBytes(16).toString('hex')
+
+  const signature = signWithPrivateKey(keyPair.privatePem, canonicalString(hostId, method, pathname, timestamp, nonce, body))
+  if (!signature) {
+    throw new Error('Failed to sign mesh request')
+  }
+
+  return {
+    [MESH_HEADERS.host]: hostId,
+    [MESH_HEADERS.publicKey]: keyPair.publicHex,
+    [MESH_HEADERS.timestamp]: timestamp,
+    [MESH_HEADERS.nonce]: nonce,
+    [MESH_HEADERS.signature]: signature,
+    ...(options?.pairingToken ? { [MESH_HEADERS.pairingToken]: options.pairingToken } : {}),
+  }
+}
+
+// ============================================================================
+// Verification
+// ============================================================================
+
+const seenNonces = new Map<string, number>()
+
+function rememberNonce(nonce: string): boolean {
+  const now = Date.now()
+  for (const [key, expiresAt] of seenNonces) {
+    if (expiresAt < now) seenNonces.delete(key)
+  }
+  if (seenNonces.has(nonce)) return false
+  seenNonces.set(nonce, now + 2 * MAX_CLOCK_SKEW_MS)
+  return true
+}
+
+export interface MeshVerification {
+  valid: boolean
+  hostId?: string
+  publicKey?: string
+  error?: string
+}
+
+/**
+ * Check a request's signature, freshness and nonce. Says nothing about
+ * whether the signer is trusted - see authenticatePeer.
+ */
+export function verifyMeshRequest(method: string, pathname: string, request: MeshRequest): MeshVerification {
+  const { host, publicKey, timestamp, nonce, signature } = request.headers
+  if (!host || !publicKey || !timestamp || !nonce || !signature) {
+    return { valid: false, error: 'Missing mesh signature headers' }
+  }
+  if (!/^[0-9a-f]{64}$/i.test(publicKey)) {
+    return { valid: false, error: 'Malformed mesh public key' }
+  }
+
+  const sentAt = Date.parse(timestamp)
+  if (isNaN(sentAt) || Math.abs(Date.now() - sentAt) > MAX_CLOCK_SKEW_MS) {
+    return { valid: false, error: 'Mesh request timestamp outside the allowed window' }
+  }
+
+  if (!verifySignature(canonicalString(host, method, pathname, timestamp, nonce, request.body), signature, publicKey)) {
+    return { valid: false, error: 'Invalid mesh signature' }
+  }
+
+  // Only burn the nonce once the signature checks out
+  if (!rememberNonce(`${host}:${nonce}`)) {
+    return { valid: false, error: 'Replayed mesh request' }
+  }
+
+  return { valid: true, hostId: host, publicKey: publicKey.toLowerCase() }
+}
+
+// ============================================================================
+// Trust Store
+// ============================================================================
+
+function loadTrustFile(): MeshTrustFile {
+  try {
+    if (!fs.existsSync(TRUST_FILE)) {
+      return { version: 1, peers: [], pairingTokens: [] }
+    }
+    const parsed = JSON.parse(fs.readFileSync(TRUST_FILE, 'utf-8'))
+    return {
+      version: 1,
+      peers: Array.isArray(parsed.peers) ? parsed.peers : [],
+      pairingTokens: Array.isArray(parsed.pairingTokens) ? parsed.pairingTokens : [],
+    }
+  } catch (error) {
+    console.error('[Mesh Auth] Failed to load trust store:', error)
+    return { version: 1, peers: [], pairingTokens: [] }
+  }
+}
+
+function saveTrustFile(file: MeshTrustFile): void {
+  if (!fs.existsSync(AIMAESTRO_DIR)) {
+    fs.mkdirSync(AIMAESTRO_DIR, { recursive: true })
+  }
+  fs.writeFileSync(TRUST_FILE, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 })
+}
+
+function upsertPeer(
+  file: MeshTrustFile,
+  hostId: string,
+  updates: Partial<PeerTrust> & Pick<PeerTrust, 'publicKey' | 'state' | 'source'>
+): PeerTrust {
+  const now = new Date().toISOString()
+  const index = file.peers.findIndex(p => p.hostId === hostId)
+  const previous = index >= 0 ? file.peers[index] : null
+  const peer: PeerTrust = {
+    ...previous,
+    ...updates,
+    hostId,
+    fingerprint: calculateFingerprint(updates.publicKey),
+    firstSeenAt: previous?.firstSeenAt || now,
+    updatedAt: now,
+  }
+  if (index >= 0) {
+    file.peers[index] = peer
+  } else {
+    file.peers.push(peer)
+  }
+  return peer
+}
+
+export function listPeerTrust(): PeerTrust[] {
+  return loadTrustFile().peers
+}
+
+export function getPeerTrust(hostId: string): PeerTrust | null {
+  return loadTrustFile().peers.find(p => p.hostId === hostId) || null
+}
+
+/**
+ * Pinned key for a trusted peer, used when introducing it to other peers.
+ */
+export function getTrustedPublicKey(hostId: string): string | undefined {
+  const peer = getPeerTrust(hostId)
+  return peer?.state === 'trusted' ? peer.publicKey : undefined
+}
+
+/**
+ * Pin a key as trusted (operator added the host, or approved it).
+ */
+export function trustPeerKey(
+  hostId: string,
+  publicKey: string,
+  source: PeerTrustSource,
+  meta?: { name?: string; url?: string; introducedBy?: string }
+): PeerTrust {
+  const file = loadTrustFile()
+  const peer = upsertPeer(file, hostId, { ...meta, publicKey: publicKey.toLowerCase(), state: 'trusted', source })
+  saveTrustFile(file)
+  return peer
+}
+
+/**
+ * Approve or revoke a peer whose key is already pinned.
+ */
+export function setPeerTrustState(hostId: string, state: 'trusted' | 'revoked'): PeerTrust | null {
+  const file = loadTrustFile()
+  const peer = file.peers.find(p => p.hostId === hostId)
+  if (!peer) return null
+  const source = state === 'trusted' && peer.state !== 'trusted' ? 'manual' : peer.source
+  const updated = upsertPeer(file, hostId, { publicKey: peer.publicKey, state, source })
+  saveTrustFile(file)
+  return updated
+}
+
+/**
+ * Drop a pinned key entirely, so the host can pair again with a new one.
+ */
+export function forgetPeer(hostId: string): boolean {
+  const file = loadTrustFile()
+  const peers = file.peers.filter(p => p.hostId !== hostId)
+  if (peers.length === file.peers.length) return false
+  saveTrustFile({ ...file, peers })
+  return true
+}
+
+/**
+ * A trusted peer vouches for another host's key during peer exchange. The key
+ * is pinned as pending, so an operator still approves the host before its
+ * requests are accepted. Never touches a host we already know.
+ */
+export function introducePeer(
+  hostId: string,
+  publicKey: string,
+  introducedBy: string,
+  meta?: { name?: string; url?: string }
+): boolean {
+  if (!/^[0-9a-f]{64}$/i.test(publicKey)) return false
+  const file = loadTrustFile()
+  const introducer = file.peers.find(p => p.hostId === introducedBy)
+  if (introducer?.state !== 'trusted') return false
+
+  const existing = file.peers.find(p => p.hostId === hostId)
+  if (existing) {
+    if (existing.publicKey !== publicKey.toLowerCase()) {
+      console.warn(`[Mesh Auth] ${introducedBy} introduced ${hostId} with a different key than the one pinned - ignoring`)
+    }
+    return false
+  }
+
+  upsertPeer(file, hostId, { ...meta, publicKey: publicKey.toLowerCase(), state: 'pending', source: 'introduced', introducedBy })
+  saveTrustFile(file)
+  return true
+}
+
+// ============================================================================
+// Pairing Tokens
+// ============================================================================
+
+function hashToken(token: string): string {
+  return crypto.createHash('sha256').update(token).digest('hex')
+}
+
+/**
+ * Issue a one-time token another host can present to pair with this one.
+ */
+export function createPairingToken(ttlMs: number = PAIRING_TOKEN_TTL_MS): { token: string; expiresAt: string } {
+  const token = `pair_${crypto.randomBytes(16).toString('base64url')}`
+  const now = Date.now()
+  const expiresAt = new Date(now + ttlMs).toISOString()
+
+  const file = loadTrustFile()
+  // Drop spent and expired tokens while we're here
+  file.pairingTokens = file.pairingTokens.filter(t => !t.usedAt && Date.parse(t.expiresAt) > now)
+  file.pairingTokens.push({ id: uuidv4(), tokenHash: hashToken(token), createdAt: new Date(now).toISOString(), expiresAt })
+  saveTrustFile(file)
+
+  return { token, expiresAt }
+}
+
+function redeemPairingToken(file: MeshTrustFile, token: string, hostId: string): boolean {
+  const hash = hashToken(token)
+  const entry = file.pairingTokens.find(t => t.tokenHash === hash)
+  if (!entry || entry.usedAt || Date.parse(entry.expiresAt) <= Date.now()) return false
+  entry.usedBy = hostId
+  entry.usedAt = new Date().toISOString()
+  return true
+}
+
+// ============================================================================
+// Authentication
+// ============================================================================
+
+export interface PeerAuthResult {
+  ok: boolean
+  status: number
+  hostId?: string
+  pending?: boolean
+  error?: string
+}
+
+/**
+ * Verify a signed mesh request and check the signer is a trusted peer.
+ *
+ * Unknown signers are recorded as pending so an operator can approve them,
+ * unless they present a valid pairing token (only where allowPairing is set,
+ * i.e. register-peer), which trusts them immediately.
+ */
+export function authenticatePeer(
+  method: string,
+  pathname: string,
+  request: MeshRequest,
+  options?: { allowPairing?: boolean; name?: string; url?: string }
+): PeerAuthResult {
+  const verification = verifyMeshRequest(method, pathname, request)
+  if (!verification.valid) {
+    return { ok: false, status: 401, error: verification.error }
+  }
+  const hostId = verification.hostId!
+  const publicKey = verification.publicKey!
+
+  const file = loadTrustFile()
+  const peer = file.peers.find(p => p.hostId === hostId)
+
+  if (peer && peer.state !== 'pending' && peer.publicKey !== publicKey) {
+    console.warn(`[Mesh Auth] ${hostId} signed with ${calculateFingerprint(publicKey)}, pinned key is ${peer.fingerprint}`)
+    return { ok: false, status: 403, hostId, error: `Key for ${hostId} does not match the pinned key` }
+  }
+
+  if (peer?.state === 'revoked') {
+    return { ok: false, status: 403, hostId, error: `Host ${hostId} has been revoked` }
+  }
+
+  if (peer?.state === 'trusted') {
+    if (!peer.lastSeenAt || Date.now() - Date.parse(peer.lastSeenAt) > LAST_SEEN_RESOLUTION_MS) {
+      peer.lastSeenAt = new Date().toISOString()
+      try {
+        saveTrustFile(file)
+      } catch (error) {
+        console.error('[Mesh Auth] Failed to record peer activity:', error)
+      }
+    }
+    return { ok: true, status: 200, hostId }
+  }
+
+  const meta = { name: options?.name || peer?.name, url: options?.url || peer?.url }
+  const pairingToken = request.headers.pairingToken
+  if (options?.allowPairing && pairingToken && redeemPairingToken(file, pairingToken, hostId)) {
+    upsertPeer(file, hostId, { ...meta, publicKey, state: 'trusted', source: 'pairing', lastSeenAt: new Date().toISOString() })
+    saveTrustFile(file)
+    console.log(`[Mesh Auth] Paired with ${hostId} (${calculateFingerprint(publicKey)})`)
+    return { ok: true, status: 200, hostId }
+  }
+
+  // Keep the latest key for pending peers so the operator approves what is actually calling
+  upsertPeer(file, hostId, { ...meta, publicKey, state: 'pending', source: peer?.source || 'request', lastSeenAt: new Date().toISOString() })
+  saveTrustFile(file)
+  return {
+    ok: false,
+    status: 403,
+    hostId,
+    pending: true,
+    error: `Host ${hostId} is not trusted yet - approve it in Settings → Hosts or pair with a token`,
+  }
+}
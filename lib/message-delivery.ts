@@ -3,8 +3,10 @@
  *
  * Both the AMP route (/api/v1/route) and the web UI (/api/messages)
  * call deliver() for local delivery. It does exactly 2 things:
- *   1. Write to the recipient's AMP inbox
+ *   1. Write to the recipient's AMP inbox (and attachment store)
  *   2. Send a tmux notification
+ * The recipient's inbox rules (lib/inbox-rules.ts) can change both, and
+ * can forward the message or post it to a webhook.
  *
  * No routing. No resolution. No sent write. No remote. No relay.
  */
@@ -15,6 +17,11 @@ import { notifyAgent } from '@/lib/notification-service'
 import { applyContentSecurity } from '@/lib/content-security'
 import { deliverViaWebSocket, isAgentConnectedViaWS } from '@/lib/amp-websocket'
 import { getAgent } from '@/lib/agent-registry'
+import { storeAttachmentFiles } from '@/lib/attachment-store'
+import { evaluateInboxRules, isInboxRuleForward } from '@/lib/inbox-rules'
+import { forwardFromUI } from '@/lib/message-send'
+import { isAMPMessageExpired } from '@/lib/types/amp'
+import { isSelf } from '@/lib/hosts-config-server.mjs'
 import type { AMPEnvelope, AMPPayload } from '@/lib/types/amp'
 
 export interface DeliveryInput {
@@ -22,6 +29,7 @@ export interface DeliveryInput {
   payload: AMPPayload
   recipientAgentName: string
   senderPublicKeyHex?: string
+  attachmentFiles?: Map<string, Buffer>  // Bytes for payload.attachments, keyed by digest
   // Notification context
   senderName: string
   senderHost?: string
@@ -29,6 +37,7 @@ export interface DeliveryInput {
   subject: string
   priority?: string
   messageType?: string
+  forwardedByRule?: boolean  // Sent by an inbox rule's forward action; never forwarded again (loop guard)
 }
 
 export interface DeliveryResult {
@@ -42,11 +51,17 @@ export interface DeliveryResult {
  */
 export async function deliver(input: DeliveryInput): Promise<DeliveryResult> {
   const {
-    envelope, payload, recipientAgentName, senderPublicKeyHex,
+    envelope, payload, recipientAgentName, senderPublicKeyHex, attachmentFiles,
     senderName, senderHost, recipientAgentId,
     subject, priority, messageType,
   } = input
 
+  // 0. Expired messages are never delivered (AMP: providers SHOULD reject them)
+  if (isAMPMessageExpired(envelope.expires_at)) {
+    console.warn(`[Delivery] Dropping ${envelope.id} for ${recipientAgentName}: expired at ${envelope.expires_at}`)
+    return { delivered: false, notified: false, error: 'Message expired' }
+  }
+
   // 1a. Apply content security (S6 fix — previously only applied on Web UI path)
   const fromVerified = !!senderPublicKeyHex
   const { content: securedPayload } = applyContentSecurity(
@@ -67,12 +82,39 @@ export async function deliver(input: DeliveryInput): Promise<DeliveryResult> {
     console.error(`[Delivery] No recipientAgentId for ${recipientAgentName} - cannot write inbox`)
     return { delivered: false, notified: false, error: 'No recipient agent UUID' }
   }
-  const inboxPath = await writeToAMPInbox(envelope, securedEnvelopePayload, recipientAgentName, senderPublicKeyHex, recipientAgentId)
+  // Files first, so the message never points at bytes the recipient does not have
+  if (attachmentFiles && attachmentFiles.size > 0) {
+    try {
+      storeAttachmentFiles(recipientAgentId, payload.attachments, attachmentFiles)
+    } catch (error) {
+      console.error(`[Delivery] Failed to store attachments for ${recipientAgentName}:`, error)
+      return { delivered: false, notified: false, error: 'Failed to store attachments' }
+    }
+  }
+
+  // 1c. Inbox rules decide the stored status and priority, so they run before the write
+  const rules = evaluateInboxRules(recipientAgentId, {
+    from: envelope.from,
+    senderName,
+    subject: envelope.subject,
+    priority: envelope.priority || 'normal',
+    contentType: payload.type,
+    fromVerified,
+  })
+  if (rules) {
+    console.log(`[Delivery] Inbox rules ${rules.ruleIds.join(', ')} matched ${envelope.id} for ${recipientAgentName}`)
+  }
+
+  const inboxPath = await writeToAMPInbox(envelope, securedEnvelopePayload, recipientAgentName, senderPublicKeyHex, recipientAgentId, {
+    status: rules?.archive ? 'archived' : rules?.markRead ? 'read' : 'unread',
+    priority: rules?.priority,
+    inboxRules: rules?.ruleIds,
+  })
   if (!inboxPath) {
     return { delivered: false, notified: false, error: 'Failed to write to AMP inbox' }
   }
 
-  // 1c. Try WebSocket delivery (real-time push, supplementary to disk write)
+  // 1d. Try WebSocket delivery (real-time push, supplementary to disk write)
   const recipientAddress = envelope.to
   if (isAgentConnectedViaWS(recipientAddress)) {
     const wsOk = deliverViaWebSocket(recipientAddress, envelope, securedEnvelopePayload, senderPublicKeyHex)
@@ -83,20 +125,24 @@ export async function deliver(input: DeliveryInput): Promise<DeliveryResult> {
 
   // 2. Send tmux notification (non-fatal)
   let notified = false
-  try {
-    const result = await notifyAgent({
-      agentId: recipientAgentId,
-      agentName: recipientAgentName,
-      fromName: senderName,
-      fromHost: senderHost || 'unknown',
-      subject,
-      messageId: envelope.id,
-      priority,
-      messageType,
-    })
-    notified = result.notified
-  } catch (err) {
-    console.warn('[Delivery] Notification failed (non-fatal):', err)
+  if (rules?.suppressNotification) {
+    console.log(`[Delivery] Notification for ${envelope.id} suppressed by inbox rule`)
+  } else {
+    try {
+      const result = await notifyAgent({
+        agentId: recipientAgentId,
+        agentName: recipientAgentName,
+        fromName: senderName,
+        fromHost: senderHost || 'unknown',
+        subject,
+        messageId: envelope.id,
+        priority: rules?.priority || priority,
+        messageType,
+      })
+      notified = result.notified
+    } catch (err) {
+      console.warn('[Delivery] Notification failed (non-fatal):', err)
+    }
   }
 
   // 3. Webhook delivery (non-fatal, best-effort)
@@ -110,6 +156,36 @@ export async function deliver(input: DeliveryInput): Promise<DeliveryResult> {
     }
   }
 
+  // 4. Inbox rule forwards and webhooks (non-fatal)
+  if (rules) {
+    // The flag covers local forwards; the payload marker covers copies from other hosts
+    if ((input.forwardedByRule || isInboxRuleForward(payload)) && rules.forwardTo.length > 0) {
+      console.log(`[Delivery] Not forwarding ${envelope.id} again: it was forwarded by an inbox rule`)
+    } else {
+      for (const target of rules.forwardTo) {
+        // Agents on another host are reached through that host
+        const targetHostId = getAgent(target)?.hostId
+        try {
+          await forwardFromUI({
+            originalMessageId: envelope.id,
+            fromAgent: recipientAgentId,
+            toAgent: targetHostId && !isSelf(targetHostId) ? `${target}@${targetHostId}` : target,
+            forwardNote: 'Forwarded by inbox rule',
+            byInboxRule: true,
+          })
+        } catch (err) {
+          console.warn(`[Delivery] Inbox rule forward of ${envelope.id} to ${target} failed (non-fatal):`, err)
+        }
+      }
+    }
+
+    for (const webhookUrl of rules.webhookUrls) {
+      deliverViaWebhook(webhookUrl, envelope, securedEnvelopePayload, senderPublicKeyHex).catch((err: unknown) => {
+        console.warn(`[Delivery] Inbox rule webhook failed (non-fatal):`, err)
+      })
+    }
+  }
+
   return { delivered: true, notified }
 }
 
@@ -0,0 +1,230 @@
+/**
+ * Message Scheduler - Persistent store for scheduled sends (send_at)
+ *
+ * sendFromUI() and POST /api/v1/route park messages with a future send time
+ * here. The scheduler worker in services/amp-service.ts routes them once they
+ * are due, so scheduled messages survive restarts. Failed sends are retried
+ * with backoff and kept as 'failed' after MAX_SEND_ATTEMPTS.
+ *
+ * Storage: ~/.agent-messaging/scheduled/{messageId}.json
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+
+const SCHEDULED_DIR = path.join(os.homedir(), '.agent-messaging', 'scheduled')
+
+export const MAX_SCHEDULE_AHEAD_DAYS = 366
+const MAX_SEND_ATTEMPTS = 5
+const RETRY_BASE_DELAY_MS = 60 * 1000      // 1m, 2m, 4m, 8m
+const SCHEDULE_GRACE_MS = 1000             // send_at this close to now is sent immediately
+
+export type ScheduledMessageKind = 'ui' | 'route'
+
+export interface ScheduledMessage<T = unknown> {
+  id: string                  // ID the message is sent with
+  kind: ScheduledMessageKind  // 'ui' -> sendFromUI(), 'route' -> /api/v1/route dispatch
+  status: 'scheduled' | 'failed'
+  senderAgentId?: string      // Owner (agent UUID), for listing and cancelling
+  to: string
+  subject: string
+  sendAt: string
+  expiresAt?: string
+  createdAt: string
+  attempts: number
+  nextAttemptAt?: string
+  lastError?: string
+  request: T                  // Everything needed to route the message later
+}
+
+/** A scheduled message without its request (safe to list) */
+export type ScheduledMessageSummary = Omit<ScheduledMessage, 'request'>
+
+// ============================================================================
+// Storage
+// ============================================================================
+
+function isValidScheduleId(id: string): boolean {
+  return /^[A-Za-z0-9_-]{1,128}$/.test(id)
+}
+
+function getScheduledPath(id: string): string {
+  return path.join(SCHEDULED_DIR, `${id}.json`)
+}
+
+function writeScheduled(job: ScheduledMessage): void {
+  if (!fs.existsSync(SCHEDULED_DIR)) {
+    fs.mkdirSync(SCHEDULED_DIR, { recursive: true, mode: 0o700 })
+  }
+  const filePath = getScheduledPath(job.id)
+  const tmpPath = `${filePath}.tmp`
+  fs.writeFileSync(tmpPath, JSON.stringify(job, null, 2), { mode: 0o600 })
+  fs.renameSync(tmpPath, filePath)
+}
+
+/**
+ * Get a scheduled message by ID
+ */
+export function getScheduledMessage(id: string): ScheduledMessage | null {
+  if (!isValidScheduleId(id)) return null
+  try {
+    return JSON.parse(fs.readFileSync(getScheduledPath(id), 'utf-8')) as ScheduledMessage
+  } catch {
+    return null
+  }
+}
+
+/**
+ * List scheduled messages (optionally for one sender), earliest send time first
+ */
+export function listScheduledMessages(senderAgentId?: string): ScheduledMessage[] {
+  if (!fs.existsSync(SCHEDULED_DIR)) {
+    return []
+  }
+
+  const jobs: ScheduledMessage[] = []
+  for (const file of fs.readdirSync(SCHEDULED_DIR)) {
+    if (!file.endsWith('.json')) continue
+    const job = getScheduledMessage(file.slice(0, -'.json'.length))
+    if (!job) {
+      console.error(`[Scheduler] Skipping unreadable scheduled message ${file}`)
+      continue
+    }
+    if (senderAgentId && job.senderAgentId !== senderAgentId) continue
+    jobs.push(job)
+  }
+
+  return jobs.sort((a, b) => a.sendAt.localeCompare(b.sendAt))
+}
+
+/**
+ * Strip the stored request (message body and attachment bytes)
+ */
+export function summarizeScheduledMessage(job: ScheduledMessage): ScheduledMessageSummary {
+  const summary: ScheduledMessageSummary & { request?: unknown } = { ...job }
+  delete summary.request
+  return summary
+}
+
+// ============================================================================
+// Scheduling
+// ============================================================================
+
+/**
+ * Validate a send_at value.
+ * Returns the normalized send time, or null when the message should go out now
+ * (no send_at, or one that has already passed).
+ */
+export function parseSendAt(
+  value: unknown,
+  expiresAt?: string
+): { sendAt: string | null; error?: undefined } | { error: string } {
+  if (value === undefined || value === null || value === '') {
+    return { sendAt: null }
+  }
+  if (typeof value !== 'string' || isNaN(Date.parse(value))) {
+    return { error: 'send_at must be an ISO 8601 timestamp' }
+  }
+
+  const sendAt = new Date(value)
+  const now = Date.now()
+  if (sendAt.getTime() > now + MAX_SCHEDULE_AHEAD_DAYS * 24 * 60 * 60 * 1000) {
+    return { error: `send_at cannot be more than ${MAX_SCHEDULE_AHEAD_DAYS} days ahead` }
+  }
+  if (expiresAt && sendAt.getTime() >= Date.parse(expiresAt)) {
+    return { error: 'send_at must be before expires_at' }
+  }
+
+  return { sendAt: sendAt.getTime() > now + SCHEDULE_GRACE_MS ? sendAt.toISOString() : null }
+}
+
+/**
+ * Store a message to be sent at job.sendAt
+ */
+export function scheduleMessage<T>(
+  job: Pick<ScheduledMessage<T>, 'id' | 'kind' | 'senderAgentId' | 'to' | 'subject' | 'sendAt' | 'expiresAt' | 'request'>
+): ScheduledMessage<T> {
+  if (!isValidScheduleId(job.id)) {
+    throw new Error(`Invalid scheduled message ID: ${job.id}`)
+  }
+
+  const scheduled: ScheduledMessage<T> = {
+    ...job,
+    status: 'scheduled',
+    createdAt: new Date().toISOString(),
+    attempts: 0,
+  }
+  writeScheduled(scheduled)
+
+  console.log(`[Scheduler] Scheduled ${job.kind} message ${job.id} to ${job.to} for ${job.sendAt}`)
+  return scheduled
+}
+
+/**
+ * Cancel a scheduled (or failed) message. With senderAgentId, only that
+ * sender's messages can be cancelled.
+ */
+export function cancelScheduledMessage(id: string, senderAgentId?: string): boolean {
+  const job = getScheduledMessage(id)
+  if (!job || (senderAgentId && job.senderAgentId !== senderAgentId)) {
+    return false
+  }
+
+  try {
+    fs.unlinkSync(getScheduledPath(id))
+    console.log(`[Scheduler] Cancelled scheduled message ${id}`)
+    return true
+  } catch {
+    return false
+  }
+}
+
+// ============================================================================
+// Worker Helpers
+// ============================================================================
+
+/**
+ * Scheduled messages whose send time (and retry backoff) has passed
+ */
+export function getDueScheduledMessages(now: Date = new Date()): ScheduledMessage[] {
+  const time = now.getTime()
+  return listScheduledMessages().filter(job =>
+    job.status === 'scheduled' &&
+    Date.parse(job.sendAt) <= time &&
+    (!job.nextAttemptAt || Date.parse(job.nextAttemptAt) <= time)
+  )
+}
+
+/**
+ * Remove a message that has been sent
+ */
+export function completeScheduledMessage(id: string): void {
+  try {
+    fs.unlinkSync(getScheduledPath(id))
+  } catch {
+    // Already cancelled
+  }
+}
+
+/**
+ * Record a failed send. The message is retried with backoff until
+ * MAX_SEND_ATTEMPTS, or kept as failed right away when `final` is set
+ * (e.g. it expired before it could be sent).
+ */
+export function failScheduledMessage(id: string, error: string, final = false): ScheduledMessage | null {
+  const job = getScheduledMessage(id)
+  if (!job) return null
+
+  job.attempts++
+  job.lastError = error
+  if (final || job.attempts >= MAX_SEND_ATTEMPTS) {
+    job.status = 'failed'
+    delete job.nextAttemptAt
+  } else {
+    job.nextAttemptAt = new Date(Date.now() + RETRY_BASE_DELAY_MS * Math.pow(2, job.attempts - 1)).toISOString()
+  }
+  writeScheduled(job)
+
+  return job
+}
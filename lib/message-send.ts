@@ -10,8 +10,12 @@
  *   2. Build AMP envelope + payload
  *   3. Apply content security
  *   4. Local → deliver(), Remote → HTTP forward, External+offline → relay queue
+ *      (attachment bytes go along; see lib/attachment-store.ts)
  *   5. Write sender's sent folder
  *   6. Return Message object for response compatibility
+ *
+ * With sendAt in the future, steps 4-5 are deferred: the message is stored in
+ * lib/message-scheduler.ts and sent again through sendFromUI() when it is due.
  */
 
 import crypto from 'crypto'
@@ -19,9 +23,19 @@ import { deliver } from '@/lib/message-delivery'
 import { writeToAMPSent } from '@/lib/amp-inbox-writer'
 import { applyContentSecurity } from '@/lib/content-security'
 import { queueMessage as queueToAMPRelay } from '@/lib/amp-relay'
-import { resolveAgentIdentifier, getMessage } from '@/lib/messageQueue'
+import { resolveAgentIdentifier, getMessage, resolveReplyThreadId } from '@/lib/messageQueue'
 import { getAgent } from '@/lib/agent-registry'
+import { scheduleMessage } from '@/lib/message-scheduler'
 import { verifySignature } from '@/lib/amp-keys'
+import { signMeshRequest } from '@/lib/mesh-auth'
+import { INBOX_RULE_FORWARD_MARKER } from '@/lib/inbox-rules'
+import {
+  describeAttachment,
+  encodeAttachmentData,
+  loadAttachmentFiles,
+  storeAttachmentFiles,
+  type AttachmentUpload,
+} from '@/lib/attachment-store'
 import { getHostById, getSelfHost, getSelfHostId, isSelf } from '@/lib/hosts-config-server.mjs'
 import type { AMPEnvelope, AMPPayload } from '@/lib/types/amp'
 import type { Message } from '@/lib/messageQueue'
@@ -85,7 +99,7 @@ function buildAMPEnvelope(message: Message): { envelope: AMPEnvelope; payload: A
     priority: message.priority,
     timestamp: message.timestamp,
     signature: message.amp?.signature || '',
-    thread_id: message.inReplyTo || msgIdNormalized,
+    thread_id: (message.threadId || message.inReplyTo || message.id).replace(/-/g, '_'),
   }
   if (message.inReplyTo) {
     envelope.in_reply_to = message.inReplyTo
@@ -94,6 +108,7 @@ function buildAMPEnvelope(message: Message): { envelope: AMPEnvelope; payload: A
     type: message.content.type,
     message: message.content.message,
     context: message.content.context,
+    attachments: message.content.attachments,
   }
   return { envelope, payload }
 }
@@ -109,6 +124,7 @@ export interface SendFromUIOptions {
   content: Message['content']
   priority?: Message['priority']
   inReplyTo?: string
+  threadId?: string  // Defaults to the thread of inReplyTo, or a new thread
   fromHost?: string
   toHost?: string
   fromAlias?: string
@@ -116,6 +132,9 @@ export interface SendFromUIOptions {
   fromLabel?: string
   toLabel?: string
   fromVerified?: boolean
+  attachments?: AttachmentUpload[]  // New files, validated by the caller; added to content.attachments
+  sendAt?: string     // ISO time to send at, validated by the caller (parseSendAt); past times send now
+  messageId?: string  // ID assigned when the message was scheduled
   amp?: {
     signature?: string
     senderPublicKey?: string
@@ -124,7 +143,7 @@ export interface SendFromUIOptions {
   }
 }
 
-export async function sendFromUI(options: SendFromUIOptions): Promise<{ message: Message; notified: boolean }> {
+export async function sendFromUI(options: SendFromUIOptions): Promise<{ message: Message; notified: boolean; scheduledFor?: string }> {
   const { from, to, subject, content } = options
 
   // Parse qualified name (identifier@host-id)
@@ -192,9 +211,31 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
     }
   }
 
+  // Replies join the thread of the message they answer, not just its ID
+  let threadId = options.threadId
+  if (!threadId && options.inReplyTo) {
+    threadId = fromAgent
+      ? await resolveReplyThreadId(fromAgent.agentId, options.inReplyTo)
+      : options.inReplyTo
+  }
+
+  // New files join the attachments the content already references (e.g. on a re-send)
+  const attachmentFiles = fromAgent
+    ? loadAttachmentFiles(fromAgent.agentId, content.attachments)
+    : new Map<string, Buffer>()
+  const newAttachments = (options.attachments || []).map(upload => {
+    const attachment = describeAttachment(upload)
+    attachmentFiles.set(attachment.digest!, upload.data)
+    return attachment
+  })
+  const messageContent: Message['content'] = newAttachments.length > 0
+    ? { ...content, attachments: [...(content.attachments || []), ...newAttachments] }
+    : content
+
   // Build internal Message object
+  const messageId = options.messageId || generateMessageId()
   const message: Message = {
-    id: generateMessageId(),
+    id: messageId,
     from: fromAgent?.agentId || from,
     fromAlias: options.fromAlias || fromAgent?.alias,
     fromLabel: options.fromLabel || fromAgent?.displayName,
@@ -210,8 +251,9 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
     subject,
     priority: options.priority || 'normal',
     status: 'unread',
-    content,
+    content: messageContent,
     inReplyTo: options.inReplyTo,
+    threadId: threadId || messageId,
     amp: options.amp ? {
       signature: options.amp.signature,
       senderPublicKey: options.amp.senderPublicKey,
@@ -221,6 +263,31 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
     } : undefined,
   }
 
+  // Scheduled: keep the files in the sender's store and send later by reference
+  if (options.sendAt && Date.parse(options.sendAt) > Date.now()) {
+    if (!fromAgent) {
+      throw new Error(`Cannot schedule a message from ${from}: sender is not a local agent`)
+    }
+    storeAttachmentFiles(fromAgent.agentId, newAttachments, attachmentFiles)
+    const request: SendFromUIOptions = {
+      ...options,
+      content: messageContent,
+      threadId: message.threadId,
+      attachments: undefined,
+      sendAt: undefined,
+    }
+    const scheduled = scheduleMessage({
+      id: messageId,
+      kind: 'ui',
+      senderAgentId: fromAgent.agentId,
+      to,
+      subject,
+      sendAt: new Date(options.sendAt).toISOString(),
+      request,
+    })
+    return { message, notified: false, scheduledFor: scheduled.sendAt }
+  }
+
   // Content security
   const { flags: securityFlags } = applyContentSecurity(
     message.content,
@@ -256,22 +323,28 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
     try {
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), 10_000)
-      const remoteResponse = await fetch(`${remoteHostUrl}/api/v1/route`, {
+      const url = `${remoteHostUrl}/api/v1/route`
+      const body = JSON.stringify({
+        from: remoteEnvelope.from,
+        to: toResolved.alias || toIdentifier,
+        subject,
+        payload: { type: content.type, message: content.message, context: content.context, attachments: messageContent.attachments },
+        attachment_data: encodeAttachmentData(attachmentFiles),
+        priority: options.priority || 'normal',
+        in_reply_to: options.inReplyTo,
+        thread_id: remoteEnvelope.thread_id,
+      })
+      const remoteResponse = await fetch(url, {
         method: 'POST',
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
           'X-Forwarded-From': selfHostId,
           'X-AMP-Envelope-Id': remoteEnvelope.id,
+          // The remote host only accepts forwarded requests signed by a trusted peer
+          ...await signMeshRequest('POST', url, body),
         },
-        body: JSON.stringify({
-          from: remoteEnvelope.from,
-          to: toResolved.alias || toIdentifier,
-          subject,
-          payload: { type: content.type, message: content.message, context: content.context },
-          priority: options.priority || 'normal',
-          in_reply_to: options.inReplyTo,
-        }),
+        body,
       })
       clearTimeout(timeoutId)
       if (!remoteResponse.ok) {
@@ -296,6 +369,7 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
       console.log(`[MessageSend] Recipient ${toResolved.alias} is AMP external agent - queuing to relay`)
       const { envelope, payload } = buildAMPEnvelope(message)
       const senderPublicKey = message.amp?.senderPublicKey || ''
+      storeAttachmentFiles(toResolved.agentId, payload.attachments, attachmentFiles)
       queueToAMPRelay(toResolved.agentId, envelope, payload, senderPublicKey)
     } else {
       // Local delivery via deliver()
@@ -308,6 +382,7 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
         payload,
         recipientAgentName: recipientName,
         senderPublicKeyHex: senderPubKey,
+        attachmentFiles,
         senderName: message.fromAlias || message.from,
         senderHost: fromHostId,
         recipientAgentId: toResolved.agentId,
@@ -326,6 +401,7 @@ export async function sendFromUI(options: SendFromUIOptions): Promise<{ message:
   const senderName = fromAgent?.alias || message.fromAlias || message.from
   const senderUUID = fromAgent?.agentId
   if (senderUUID) {
+    storeAttachmentFiles(senderUUID, newAttachments, attachmentFiles)
     const { envelope: sentEnvelope, payload: sentPayload } = buildAMPEnvelope(message)
     await writeToAMPSent(sentEnvelope, sentPayload, senderName, senderUUID)
   }
@@ -343,10 +419,11 @@ export interface ForwardFromUIOptions {
   toAgent: string
   forwardNote?: string
   providedOriginalMessage?: Message
+  byInboxRule?: boolean  // Forward action of an inbox rule (the copy is marked and not forwarded again)
 }
 
 export async function forwardFromUI(options: ForwardFromUIOptions): Promise<{ message: Message; notified: boolean }> {
-  const { originalMessageId, fromAgent, toAgent, forwardNote, providedOriginalMessage } = options
+  const { originalMessageId, fromAgent, toAgent, forwardNote, providedOriginalMessage, byInboxRule } = options
 
   const { identifier: toIdentifier, hostId: targetHostId } = parseQualifiedName(toAgent)
   const isTargetLocal = !targetHostId || isSelf(targetHostId)
@@ -397,6 +474,10 @@ export async function forwardFromUI(options: ForwardFromUIOptions): Promise<{ me
   const fromHostId = fromResolved.hostId || getHostName()
   const toHostId = targetHostId || toResolved.hostId || getHostName()
 
+  // Forwarded files come out of the forwarder's own attachment store
+  const attachments = originalMessage.content.attachments
+  const attachmentFiles = loadAttachmentFiles(fromResolved.agentId, attachments)
+
   const forwardedMessage: Message = {
     id: generateMessageId(),
     from: fromResolved.agentId,
@@ -414,6 +495,8 @@ export async function forwardFromUI(options: ForwardFromUIOptions): Promise<{ me
     content: {
       type: 'notification',
       message: forwardedContent,
+      context: byInboxRule ? { [INBOX_RULE_FORWARD_MARKER]: true } : undefined,
+      attachments,
     },
     forwardedFrom: {
       originalMessageId: originalMessage.id,
@@ -449,21 +532,25 @@ export async function forwardFromUI(options: ForwardFromUIOptions): Promise<{ me
     try {
       const controller = new AbortController()
       const timeoutId = setTimeout(() => controller.abort(), 10_000)
-      const remoteResponse = await fetch(`${remoteHostUrl}/api/v1/route`, {
+      const url = `${remoteHostUrl}/api/v1/route`
+      const body = JSON.stringify({
+        from: fwdEnvelope.from,
+        to: toResolved.alias || toIdentifier,
+        subject: forwardedMessage.subject,
+        payload: { type: 'notification', message: forwardedMessage.content.message, context: forwardedMessage.content.context, attachments },
+        attachment_data: encodeAttachmentData(attachmentFiles),
+        priority: forwardedMessage.priority || 'normal',
+      })
+      const remoteResponse = await fetch(url, {
         method: 'POST',
         signal: controller.signal,
         headers: {
           'Content-Type': 'application/json',
           'X-Forwarded-From': selfHostId,
           'X-AMP-Envelope-Id': fwdEnvelope.id,
+          ...await signMeshRequest('POST', url, body),
         },
-        body: JSON.stringify({
-          from: fwdEnvelope.from,
-          to: toResolved.alias || toIdentifier,
-          subject: forwardedMessage.subject,
-          payload: { type: 'notification', message: forwardedMessage.content.message },
-          priority: forwardedMessage.priority || 'normal',
-        }),
+        body,
       })
       clearTimeout(timeoutId)
       if (!remoteResponse.ok) {
@@ -487,6 +574,7 @@ export async function forwardFromUI(options: ForwardFromUIOptions): Promise<{ me
       // Queue to AMP relay for external agent to poll
       console.log(`[MessageSend] Forward recipient ${toResolved.alias} is AMP external agent - queuing to relay`)
       const { envelope, payload } = buildAMPEnvelope(forwardedMessage)
+      storeAttachmentFiles(toResolved.agentId, attachments, attachmentFiles)
       queueToAMPRelay(toResolved.agentId, envelope, payload, '')
     } else {
       // Local delivery via deliver()
@@ -497,12 +585,14 @@ export async function forwardFromUI(options: ForwardFromUIOptions): Promise<{ me
         payload,
         recipientAgentName: recipientName,
         senderPublicKeyHex: 'verified',  // Forwards are always from a local verified agent
+        attachmentFiles,
         senderName: fromResolved.alias || fromResolved.agentId,
         senderHost: fromHostId,
         recipientAgentId: toResolved.agentId,
         subject: forwardedMessage.subject,
         priority: forwardedMessage.priority,
         messageType: 'notification',
+        forwardedByRule: byInboxRule,
       })
       if (!result.delivered) {
         throw new Error(`Forward delivery failed for ${recipientName}: ${result.error || 'unknown error'}`)
@@ -6,6 +6,8 @@ import { getSelfHost, getSelfHostId, isSelf } from './hosts-config-server.mjs'
 import { getAgentBySession, getAgentByName, getAgentByNameAnyHost, getAgentByAlias, getAgentByAliasAnyHost, getAgentByPartialName, getAgent } from './agent-registry'
 import { parseSessionName, computeSessionName } from '@/types/agent'
 import type { Agent } from '@/types/agent'
+import { isAMPMessageExpired } from '@/lib/types/amp'
+import type { AMPAttachment } from '@/lib/types/amp'
 
 /**
  * Get this host's name for messages
@@ -41,13 +43,11 @@ export interface Message {
     type: 'request' | 'response' | 'notification' | 'update'
     message: string
     context?: Record<string, any>
-    attachments?: Array<{
-      name: string
-      path: string
-      type: string
-    }>
+    attachments?: AMPAttachment[]
   }
   inReplyTo?: string
+  threadId?: string      // ID of the first message in the conversation (AMP thread_id)
+  expiresAt?: string     // AMP expires_at; expired inbox messages are auto-archived on read
   forwardedFrom?: {
     originalMessageId: string
     originalFrom: string
@@ -84,6 +84,10 @@ export interface MessageSummary {
   status: 'unread' | 'read' | 'archived'
   type: 'request' | 'response' | 'notification' | 'update'
   preview: string
+  inReplyTo?: string
+  threadId?: string
+  expiresAt?: string
+  attachmentCount?: number
   viaSlack?: boolean  // True if message originated from Slack bridge
 }
 
@@ -223,14 +227,35 @@ function convertAMPToMessage(ampMsg: any): Message | null {
     toHost,
     timestamp: envelope.timestamp || new Date().toISOString(),
     subject: envelope.subject,
-    priority: envelope.priority || 'normal',
+    priority: ampMsg.local?.priority || envelope.priority || 'normal',
     status: status as Message['status'],
     content: {
       type: payload.type || 'notification',
       message: payload.message || '',
       context: payload.context || undefined,
+      attachments: Array.isArray(payload.attachments) && payload.attachments.length > 0 ? payload.attachments : undefined,
     },
-    inReplyTo: envelope.in_reply_to || undefined,
+    inReplyTo: envelope.in_reply_to ? normalizeMessageId(envelope.in_reply_to) : undefined,
+    threadId: normalizeMessageId(envelope.thread_id || envelope.in_reply_to || envelope.id),
+    expiresAt: envelope.expires_at || undefined,
+  }
+}
+
+/**
+ * Archive an expired inbox message in place, so stale messages (e.g. an old
+ * "urgent") stop showing as unread. Updates msg.status to match.
+ */
+async function archiveIfExpired(filePath: string, ampMsg: any, msg: Message): Promise<void> {
+  if (msg.status === 'archived' || !isAMPMessageExpired(msg.expiresAt)) return
+
+  msg.status = 'archived'
+  try {
+    if (ampMsg.metadata) ampMsg.metadata.status = 'archived'
+    if (ampMsg.local) ampMsg.local.status = 'archived'
+    await fs.writeFile(filePath, JSON.stringify(ampMsg, null, 2))
+    console.log(`[MessageQueue] Archived expired message ${msg.id} (expired ${msg.expiresAt})`)
+  } catch (error) {
+    console.warn(`[MessageQueue] Failed to archive expired message ${msg.id}:`, error)
   }
 }
 
@@ -245,10 +270,12 @@ async function collectMessagesFromAMPDir(
     priority?: Message['priority']
     from?: string
     to?: string
+    threadId?: string
     previewLength?: number  // Max chars for preview (default: 100)
   } | undefined,
   results: MessageSummary[],
   seenIds: Set<string>,
+  archiveExpired = false,  // Inbox: auto-archive messages past their expires_at
 ): Promise<void> {
   const maxPreview = filter?.previewLength ?? 100
   let entries: string[]
@@ -293,6 +320,7 @@ async function collectMessagesFromAMPDir(
           // AMP envelope format
           const msg = convertAMPToMessage(ampMsg)
           if (!msg) continue
+          if (archiveExpired) await archiveIfExpired(filePath, ampMsg, msg)
           summary = {
             id: msg.id,
             from: msg.from,
@@ -309,6 +337,10 @@ async function collectMessagesFromAMPDir(
             status: msg.status,
             type: msg.content.type,
             preview: msg.content.message.substring(0, maxPreview),
+            inReplyTo: msg.inReplyTo,
+            threadId: msg.threadId,
+            expiresAt: msg.expiresAt,
+            attachmentCount: msg.content.attachments?.length,
           }
         } else if (ampMsg.id && ampMsg.subject && ampMsg.envelope === undefined) {
           // Old flat format — ignore files without explicit status
@@ -331,6 +363,8 @@ async function collectMessagesFromAMPDir(
             status: ampMsg.status,
             type: ampMsg.content?.type || 'notification',
             preview: (ampMsg.content?.message || '').substring(0, maxPreview),
+            inReplyTo: ampMsg.inReplyTo,
+            threadId: normalizeMessageId(ampMsg.threadId || ampMsg.inReplyTo || ampMsg.id),
           }
         }
 
@@ -350,6 +384,7 @@ async function collectMessagesFromAMPDir(
         if (filter?.to) {
           if (summary.to !== filter.to && summary.toAlias !== filter.to) continue
         }
+        if (filter?.threadId && summary.threadId !== normalizeMessageId(filter.threadId)) continue
 
         seenIds.add(normalizedId)
         seenIds.add(altId)
@@ -588,7 +623,7 @@ export async function listInboxMessages(
   const allMessages: MessageSummary[] = []
   const seenIds = new Set<string>()
   const ampInboxDir = getAMPInboxDir(agent.agentId)
-  await collectMessagesFromAMPDir(ampInboxDir, filter, allMessages, seenIds)
+  await collectMessagesFromAMPDir(ampInboxDir, filter, allMessages, seenIds, true)
 
   // Sort by timestamp (newest first)
   allMessages.sort((a, b) => new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime())
@@ -665,7 +700,9 @@ export async function getMessage(
       const content = await fs.readFile(found.path, 'utf-8')
       const ampMsg = JSON.parse(content)
       if (found.isAMP) {
-        return convertAMPToMessage(ampMsg)
+        const msg = convertAMPToMessage(ampMsg)
+        if (msg && box === 'inbox') await archiveIfExpired(found.path, ampMsg, msg)
+        return msg
       }
       return ampMsg as Message
     } catch {
@@ -676,6 +713,137 @@ export async function getMessage(
   return null
 }
 
+/**
+ * Thread ID for a reply: the thread of the message being replied to (looked up
+ * in the agent's inbox, then its sent folder), or the replied-to ID itself when
+ * that message is not stored for this agent.
+ */
+export async function resolveReplyThreadId(agentIdentifier: string, inReplyTo: string): Promise<string> {
+  const parent = await getMessage(agentIdentifier, inReplyTo, 'inbox')
+    || await getMessage(agentIdentifier, inReplyTo, 'sent')
+  return parent?.threadId || normalizeMessageId(inReplyTo)
+}
+
+// === Threads ===
+
+/** A message in a thread, tagged with the folder it was read from */
+export interface MessageThreadEntry extends MessageSummary {
+  box: 'inbox' | 'sent'
+}
+
+export interface MessageThreadSummary {
+  threadId: string
+  subject: string         // Subject of the first message in the thread
+  participants: string[]  // Agent names, in order of first appearance
+  messageCount: number
+  unreadCount: number     // Unread inbox messages
+  lastMessage: MessageThreadEntry
+}
+
+export interface MessageThread {
+  threadId: string
+  subject: string
+  participants: string[]
+  messages: Array<Message & { box: 'inbox' | 'sent' }>  // Oldest first
+}
+
+/**
+ * Inbox and sent summaries for an agent, optionally limited to one thread.
+ * A message to self is stored in both folders and is kept once, as its inbox copy.
+ */
+async function collectThreadEntries(agentUUID: string, threadId?: string): Promise<MessageThreadEntry[]> {
+  const filter = threadId ? { threadId } : undefined
+  const inbox: MessageSummary[] = []
+  const sent: MessageSummary[] = []
+  await collectMessagesFromAMPDir(getAMPInboxDir(agentUUID), filter, inbox, new Set<string>(), true)
+  await collectMessagesFromAMPDir(getAMPSentDir(agentUUID), filter, sent, new Set<string>())
+
+  const inboxIds = new Set(inbox.map(m => m.id))
+  return [
+    ...inbox.map(m => ({ ...m, box: 'inbox' as const })),
+    ...sent.filter(m => !inboxIds.has(m.id)).map(m => ({ ...m, box: 'sent' as const })),
+  ].sort((a, b) => new Date(a.timestamp).getTime() - new Date(b.timestamp).getTime())
+}
+
+/** Distinct sender/recipient names of time-ordered messages */
+function threadParticipants(messages: Array<Pick<MessageSummary, 'from' | 'fromAlias' | 'to' | 'toAlias'>>): string[] {
+  const participants = new Set<string>()
+  for (const m of messages) {
+    participants.add(m.fromAlias || m.from)
+    participants.add(m.toAlias || m.to)
+  }
+  return [...participants].filter(Boolean)
+}
+
+/**
+ * List an agent's conversations, grouped by thread ID across inbox and sent.
+ * Threads are sorted by their last message (newest first).
+ */
+export async function listMessageThreads(
+  agentIdentifier: string,
+  options?: { limit?: number }
+): Promise<MessageThreadSummary[]> {
+  const agent = resolveAgent(agentIdentifier)
+  if (!agent?.agentId) {
+    return []
+  }
+
+  const byThread = new Map<string, MessageThreadEntry[]>()
+  for (const entry of await collectThreadEntries(agent.agentId)) {
+    const threadId = entry.threadId || entry.id
+    const entries = byThread.get(threadId)
+    if (entries) {
+      entries.push(entry)
+    } else {
+      byThread.set(threadId, [entry])
+    }
+  }
+
+  const threads: MessageThreadSummary[] = [...byThread.entries()].map(([threadId, entries]) => ({
+    threadId,
+    subject: entries[0].subject,
+    participants: threadParticipants(entries),
+    messageCount: entries.length,
+    unreadCount: entries.filter(e => e.box === 'inbox' && e.status === 'unread').length,
+    lastMessage: entries[entries.length - 1],
+  }))
+
+  threads.sort((a, b) => new Date(b.lastMessage.timestamp).getTime() - new Date(a.lastMessage.timestamp).getTime())
+
+  if (options?.limit && options.limit > 0) {
+    return threads.slice(0, options.limit)
+  }
+
+  return threads
+}
+
+/**
+ * Get every message of a thread from the agent's inbox and sent folder, oldest first.
+ * Returns null when the agent has no message in the thread.
+ */
+export async function getMessageThread(agentIdentifier: string, threadId: string): Promise<MessageThread | null> {
+  const agent = resolveAgent(agentIdentifier)
+  if (!agent?.agentId) return null
+
+  const entries = await collectThreadEntries(agent.agentId, threadId)
+  if (entries.length === 0) return null
+
+  const messages: MessageThread['messages'] = []
+  for (const entry of entries) {
+    const message = await getMessage(agent.agentId, entry.id, entry.box)
+    if (message) {
+      messages.push({ ...message, threadId: entry.threadId, box: entry.box })
+    }
+  }
+
+  return {
+    threadId: normalizeMessageId(threadId),
+    subject: entries[0].subject,
+    participants: threadParticipants(entries),
+    messages,
+  }
+}
+
 /**
  * Mark a message as read.
  * Finds message in UUID-keyed directory and updates it in place.
@@ -10,7 +10,8 @@
 import { getAgent, getAgentByName } from '@/lib/agent-registry'
 import { computeSessionName } from '@/types/agent'
 import { getSelfHostId, isSelf } from '@/lib/hosts-config-server.mjs'
-import { getRuntime } from '@/lib/agent-runtime'
+import { getRuntimeForAgent } from '@/lib/agent-runtime'
+import type { AgentRuntime } from '@/lib/agent-runtime'
 
 // Configuration (can be overridden via environment variables)
 const NOTIFICATIONS_ENABLED = process.env.NOTIFICATIONS_ENABLED !== 'false'
@@ -43,8 +44,7 @@ export interface NotificationResult {
  * Send a notification to a tmux session
  * Uses echo to display the message without interrupting the agent's work
  */
-async function sendTmuxNotification(sessionName: string, message: string): Promise<void> {
-  const runtime = getRuntime()
+async function sendTmuxNotification(runtime: AgentRuntime, sessionName: string, message: string): Promise<void> {
   // Target the first pane of the first window
   const target = `${sessionName}:0.0`
 
@@ -131,7 +131,7 @@ export async function notifyAgent(options: NotificationOptions): Promise<Notific
     const sessionName = computeSessionName(agent.name, primarySession.index)
 
     // Check if tmux session exists
-    const runtime = getRuntime()
+    const runtime = getRuntimeForAgent(agent)
     const sessionExists = await runtime.sessionExists(sessionName)
     if (!sessionExists) {
       console.log(`[Notify] tmux session ${sessionName} not found`)
@@ -140,7 +140,7 @@ export async function notifyAgent(options: NotificationOptions): Promise<Notific
 
     // Format and send the notification
     const notification = formatNotification(options)
-    await sendTmuxNotification(sessionName, notification)
+    await sendTmuxNotification(runtime, sessionName, notification)
 
     console.log(`[Notify] ✓ Notified ${agentName} about message from ${options.fromName}`)
     return { success: true, notified: true }
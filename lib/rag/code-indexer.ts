@@ -1,7 +1,8 @@
 /**
  * Code Graph Indexer
  * Stores parsed code graph data into CozoDB
- * Supports TypeScript, JavaScript, Ruby, and Python projects
+ * Supports TypeScript, JavaScript, Ruby and Python, plus Go, Rust, Java, C#,
+ * Kotlin and PHP through tree-sitter; mixed-language projects are indexed in full
  */
 
 import { AgentDatabase } from '@/lib/cozo-db'
@@ -28,6 +29,7 @@ export interface IndexStats {
   durationMs: number
   projectType?: string
   framework?: string
+  languages?: string[]
 }
 
 export interface DeltaIndexStats extends IndexStats {
@@ -75,6 +77,7 @@ export async function indexParsedFiles(
     durationMs: 0,
     projectType: projectInfo?.type,
     framework: projectInfo?.framework,
+    languages: projectInfo?.languages,
   }
 
   console.log(`[CodeIndexer] Indexing ${parsedFiles.length} files...`)
@@ -315,7 +318,7 @@ export async function indexProject(
   // Parse project using unified parser
   if (options.onProgress) options.onProgress('Parsing project files...')
 
-  const { files: parsedFiles } = await parseProjectUnified(projectPath, {
+  const { files: parsedFiles, projectInfo: parsedInfo } = await parseProjectUnified(projectPath, {
     includePatterns: options.includePatterns,
     excludePatterns: options.excludePatterns,
     onProgress: (filePath, index, total) => {
@@ -328,7 +331,7 @@ export async function indexProject(
   // Index into CozoDB
   if (options.onProgress) options.onProgress('Indexing into database...')
 
-  const stats = await indexParsedFiles(agentDb, parsedFiles, projectPath, projectInfo)
+  const stats = await indexParsedFiles(agentDb, parsedFiles, projectPath, parsedInfo)
 
   if (options.onProgress) options.onProgress('✅ Indexing complete')
 
@@ -759,7 +762,7 @@ export async function indexProjectDelta(
 
   // Scan for all current files in project
   if (options.onProgress) options.onProgress('Scanning project files...')
-  const { files: allParsedFiles } = await parseProjectUnified(projectPath, {
+  const { files: allParsedFiles, projectInfo: parsedInfo } = await parseProjectUnified(projectPath, {
     includePatterns: options.includePatterns,
     excludePatterns: options.excludePatterns,
     onProgress: (filePath, index, total) => {
@@ -792,6 +795,7 @@ export async function indexProjectDelta(
     durationMs: 0,
     projectType: projectInfo.type,
     framework: projectInfo.framework,
+    languages: parsedInfo.languages,
     filesNew: newFiles.length,
     filesModified: modifiedFiles.length,
     filesDeleted: deletedFiles.length,
@@ -835,7 +839,7 @@ export async function indexProjectDelta(
     if (options.onProgress) options.onProgress(`Indexing ${filesToIndex.length} changed files...`)
 
     // Index the changed files
-    const indexStats = await indexParsedFiles(agentDb, filesToIndex, projectPath, projectInfo)
+    const indexStats = await indexParsedFiles(agentDb, filesToIndex, projectPath, parsedInfo)
 
     stats.filesIndexed = indexStats.filesIndexed
     stats.functionsIndexed = indexStats.functionsIndexed
@@ -1,6 +1,6 @@
 /**
  * Database Schema Graph Indexer
- * Stores introspected PostgreSQL schema into CozoDB
+ * Stores an introspected schema (PostgreSQL, MySQL or SQLite - see db-introspector) into CozoDB
  */
 
 import { AgentDatabase } from '@/lib/cozo-db'
@@ -65,7 +65,7 @@ export async function indexDatabaseSchema(
 
     // Index tables
     for (const table of schema.tables) {
-      await indexTable(agentDb, table, stats)
+      await indexTable(agentDb, schema.schema_id, table, stats)
     }
 
     // Index views
@@ -138,11 +138,10 @@ export async function indexDatabaseSchema(
  */
 async function indexTable(
   agentDb: AgentDatabase,
+  schemaId: string,
   table: TableInfo,
   stats: DbIndexStats
 ): Promise<void> {
-  const schemaId = `schema:${table.schema_name}`
-
   // Insert table node
   await agentDb.run(`
     ?[id, name, schema] <- [[
@@ -358,6 +357,11 @@ export async function findTableDependents(
 
 /**
  * Query: Impact analysis - What breaks if I change this column type?
+ *
+ * The table may be bare ("orders") or schema-qualified ("public.orders",
+ * "main.orders", "shop.orders"). fk_edge stores tables as schema.table and the
+ * schema differs by engine (public, main, or the MySQL database name), so a
+ * bare name matches the table in any schema.
  */
 export async function analyzeColumnTypeChange(
   agentDb: AgentDatabase,
@@ -368,43 +372,62 @@ export async function analyzeColumnTypeChange(
   indexes: string[] // Indexes using this column
   views: string[] // Views potentially affected
 }> {
-  const tablePattern = `%${escapeString(tableName)}`
-  const columnPattern = escapeString(columnName)
-
-  // Find FK constraints
+  const { schema, table } = splitTableName(tableName)
+  const tableValue = escapeString(table)
+  const columnValue = escapeString(columnName)
+  const matchTable = (field: string) => schema
+    ? `${field} == '${escapeString(schema)}.${tableValue}'`
+    : `ends_with(${field}, '.${tableValue}')`
+
+  // Find FK constraints (either side of the edge)
   const fkResult = await agentDb.run(`
-    ?[src_table, from_col, to_table] :=
-      *fk_edge{src_table, src_col: from_col, dst_table: to_table},
-      (src_table ~~ '${tablePattern}', from_col = '${columnPattern}') or
-      (dst_table ~~ '${tablePattern}', dst_col: '${columnPattern}')
+    ?[src_table, src_col, dst_table, dst_col] :=
+      *fk_edge{src_table, src_col, dst_table, dst_col},
+      ${matchTable('src_table')}, src_col == '${columnValue}'
+    ?[src_table, src_col, dst_table, dst_col] :=
+      *fk_edge{src_table, src_col, dst_table, dst_col},
+      ${matchTable('dst_table')}, dst_col == '${columnValue}'
   `)
 
   // Find indexes
+  const schemaFilter = schema
+    ? `*schema_node{id: schema_id, name: schema_name}, schema_name == '${escapeString(schema)}',`
+    : ''
   const indexResult = await agentDb.run(`
     ?[index_name] :=
-      *table_node{id: table_id, name: table_name},
+      *table_node{id: table_id, name: table_name, schema: schema_id},
+      ${schemaFilter}
       *column_node{id: col_id, table: table_id, name: col_name},
       *index_on{index, column: col_id},
       *index_node{id: index, name: index_name},
-      table_name = '${escapeString(tableName)}',
-      col_name = '${columnPattern}'
+      table_name == '${tableValue}',
+      col_name == '${columnValue}'
   `)
 
-  // Find views (simplified)
+  // Find views (simplified - matches on the view's SQL text)
   const viewResult = await agentDb.run(`
     ?[view_name] :=
       *view_node{name: view_name, definition},
-      definition ~~ '%${escapeString(tableName)}%',
-      definition ~~ '%${columnPattern}%'
+      str_includes(definition, '${tableValue}'),
+      str_includes(definition, '${columnValue}')
   `)
 
   return {
-    foreignKeyConstraints: fkResult.rows.map((row: any[]) => `${row[0]}.${row[1]} → ${row[2]}`),
+    foreignKeyConstraints: fkResult.rows.map((row: any[]) => `${row[0]}.${row[1]} → ${row[2]}.${row[3]}`),
     indexes: indexResult.rows.map((row: any[]) => row[0]),
     views: viewResult.rows.map((row: any[]) => row[0]),
   }
 }
 
+/**
+ * Split "schema.table" into its parts; a bare name has no schema
+ */
+export function splitTableName(tableName: string): { schema: string | null; table: string } {
+  const dot = tableName.lastIndexOf('.')
+  if (dot === -1) return { schema: null, table: tableName }
+  return { schema: tableName.slice(0, dot), table: tableName.slice(dot + 1) }
+}
+
 /**
  * Escape single quotes for CozoDB
  */
@@ -0,0 +1,99 @@
+/**
+ * Database Schema Introspectors
+ * Engine-neutral entry point: every engine produces the same DbSchema shape,
+ * so the db-indexer and its queries work unchanged for PostgreSQL, MySQL and SQLite
+ */
+
+import type { DbSchema } from './pg-introspector'
+
+export type DbEngine = 'postgres' | 'mysql' | 'sqlite'
+
+export const DB_ENGINES: DbEngine[] = ['postgres', 'mysql', 'sqlite']
+
+export interface IntrospectOptions {
+  includeSchemas?: string[]
+  excludeSchemas?: string[]
+}
+
+export interface DbIntrospector {
+  readonly engine: DbEngine
+  introspect(options?: IntrospectOptions): Promise<DbSchema>
+  close(): Promise<void>
+}
+
+export interface DbConnectionConfig {
+  engine?: DbEngine
+  connectionString?: string
+  filePath?: string // SQLite database file
+}
+
+const SQLITE_EXTENSIONS = ['.db', '.sqlite', '.sqlite3', '.db3']
+
+/**
+ * Work out which engine a connection config targets.
+ * An explicit engine wins, then the URL scheme, then a SQLite file path.
+ */
+export function detectDbEngine(config: DbConnectionConfig): DbEngine | null {
+  if (config.engine) {
+    return DB_ENGINES.includes(config.engine) ? config.engine : null
+  }
+  if (config.filePath) return 'sqlite'
+
+  const connectionString = config.connectionString || ''
+  const scheme = connectionString.match(/^([a-z][a-z0-9+.-]*):/i)?.[1]?.toLowerCase()
+
+  switch (scheme) {
+    case 'postgres':
+    case 'postgresql':
+      return 'postgres'
+    case 'mysql':
+    case 'mariadb':
+      return 'mysql'
+    case 'sqlite':
+    case 'file':
+      return 'sqlite'
+  }
+
+  if (SQLITE_EXTENSIONS.some(ext => connectionString.toLowerCase().endsWith(ext))) {
+    return 'sqlite'
+  }
+  return null
+}
+
+/**
+ * Resolve the database file for a SQLite config (filePath, sqlite:/path or file:/path)
+ */
+export function resolveSqlitePath(config: DbConnectionConfig): string {
+  if (config.filePath) return config.filePath
+
+  const connectionString = config.connectionString || ''
+  if (connectionString.startsWith('file:')) {
+    return decodeURIComponent(new URL(connectionString).pathname)
+  }
+  return connectionString.replace(/^sqlite:(\/\/)?/i, '')
+}
+
+/**
+ * Open an introspector for the configured engine. Drivers are loaded lazily,
+ * so only the engine in use needs its driver installed.
+ */
+export async function createIntrospector(config: DbConnectionConfig): Promise<DbIntrospector> {
+  const engine = detectDbEngine(config)
+
+  switch (engine) {
+    case 'postgres': {
+      const { createPgIntrospector } = await import('./pg-introspector')
+      return createPgIntrospector(config.connectionString || '')
+    }
+    case 'mysql': {
+      const { createMysqlIntrospector } = await import('./mysql-introspector')
+      return createMysqlIntrospector(config.connectionString || '')
+    }
+    case 'sqlite': {
+      const { createSqliteIntrospector } = await import('./sqlite-introspector')
+      return createSqliteIntrospector(resolveSqlitePath(config))
+    }
+    default:
+      throw new Error('Cannot determine database engine; pass "engine" (postgres, mysql or sqlite)')
+  }
+}
@@ -11,6 +11,7 @@ import * as crypto from 'crypto'
 import { glob } from 'glob'
 import { AgentDatabase } from '../cozo-db'
 import { embedTexts, vectorToBuffer } from './embeddings'
+import { isVectorRelationCurrent } from './vector-models'
 import { extractTerms } from './keywords'
 
 // Document patterns to index
@@ -672,6 +673,12 @@ export async function searchDocsBySimilarity(
 }>> {
   const { cosine, bufferToVector } = await import('./embeddings')
 
+  // Vectors from another embedding model are never compared
+  if (!(await isVectorRelationCurrent(agentDb, 'doc_chunk_vec'))) {
+    console.log('[Doc Indexer] Document vectors are being re-embedded, skipping semantic search')
+    return []
+  }
+
   // Generate embedding for query
   const [queryVec] = await embedTexts([queryText])
 
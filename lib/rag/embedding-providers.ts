@@ -0,0 +1,207 @@
+/**
+ * Embedding Providers
+ *
+ * One embedding backend is active per host. The local transformers model lives
+ * in ./embeddings (it pulls in onnxruntime); this module holds the provider
+ * interface, the host configuration and the HTTP backends:
+ * - ollama: POST {endpoint}/api/embed
+ * - openai: POST {baseUrl}/embeddings (OpenAI, vLLM, llama.cpp server, LM Studio)
+ *
+ * Storage: ~/.aimaestro/embeddings.json
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+
+export type EmbeddingProviderName = 'transformers' | 'ollama' | 'openai'
+
+export interface EmbeddingConfig {
+  provider: EmbeddingProviderName
+  model: string
+  dimension: number
+  endpoint?: string       // Ollama URL or OpenAI-compatible base URL (…/v1)
+  apiKey?: string         // openai only; falls back to OPENAI_API_KEY
+  authHeader?: string     // openai only; default Authorization (sent as Bearer)
+}
+
+export interface EmbeddingProvider {
+  name: EmbeddingProviderName
+  model: string
+  dimension: number
+  embed(texts: string[]): Promise<Float32Array[]>
+}
+
+export const EMBEDDING_PROVIDERS: EmbeddingProviderName[] = ['transformers', 'ollama', 'openai']
+
+export const DEFAULT_EMBEDDING_CONFIG: EmbeddingConfig = {
+  provider: 'transformers',
+  model: 'Xenova/bge-small-en-v1.5',
+  dimension: 384
+}
+
+interface EmbeddingConfigFile {
+  version: 1
+  config: EmbeddingConfig
+}
+
+function configFilePath(): string {
+  return path.join(os.homedir(), '.aimaestro', 'embeddings.json')
+}
+
+/**
+ * Active embedding configuration (defaults when no file exists)
+ */
+export function loadEmbeddingConfig(): EmbeddingConfig {
+  try {
+    const filePath = configFilePath()
+    if (!fs.existsSync(filePath)) {
+      return { ...DEFAULT_EMBEDDING_CONFIG }
+    }
+    const parsed: EmbeddingConfigFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    return { ...DEFAULT_EMBEDDING_CONFIG, ...parsed.config }
+  } catch (error) {
+    console.error('[Embeddings] Failed to load embedding config:', error)
+    return { ...DEFAULT_EMBEDDING_CONFIG }
+  }
+}
+
+/**
+ * Persist the embedding configuration. An empty apiKey removes the stored key.
+ */
+export function saveEmbeddingConfig(config: EmbeddingConfig): EmbeddingConfig {
+  const next: EmbeddingConfig = { ...config }
+  if (!next.apiKey) {
+    delete next.apiKey
+  }
+  const filePath = configFilePath()
+  fs.mkdirSync(path.dirname(filePath), { recursive: true })
+  const file: EmbeddingConfigFile = { version: 1, config: next }
+  // The file may hold an API key
+  fs.writeFileSync(filePath, JSON.stringify(file, null, 2), { encoding: 'utf-8', mode: 0o600 })
+  return next
+}
+
+/**
+ * Modification time of the config file, used to notice changes made by
+ * another process (Next.js routes and the headless router share the file)
+ */
+export function embeddingConfigVersion(): number {
+  try {
+    return fs.statSync(configFilePath()).mtimeMs
+  } catch {
+    return 0
+  }
+}
+
+/**
+ * Identity of the vectors a config produces. Vectors with different
+ * signatures must never be compared.
+ */
+export function embeddingSignature(config: { provider: string; model: string; dimension: number }): string {
+  return `${config.provider}:${config.model}:${config.dimension}`
+}
+
+function checkDimensions(provider: string, vectors: number[][], expected: number): void {
+  const mismatch = vectors.find(v => v.length !== expected)
+  if (mismatch) {
+    throw new Error(`[Embeddings] ${provider} returned ${mismatch.length}-d vectors, expected ${expected}`)
+  }
+}
+
+export class OllamaEmbeddingProvider implements EmbeddingProvider {
+  name: EmbeddingProviderName = 'ollama'
+  model: string
+  dimension: number
+  endpoint: string
+
+  constructor(options: { model: string; dimension: number; endpoint?: string }) {
+    this.model = options.model
+    this.dimension = options.dimension
+    this.endpoint = (options.endpoint || 'http://localhost:11434').replace(/\/+$/, '')
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const response = await fetch(`${this.endpoint}/api/embed`, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify({ model: this.model, input: texts }),
+      signal: AbortSignal.timeout(120000)
+    })
+
+    if (!response.ok) {
+      throw new Error(`Ollama embeddings error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json() as { embeddings?: number[][] }
+    const vectors = data.embeddings || []
+    if (vectors.length !== texts.length) {
+      throw new Error(`[Embeddings] Ollama returned ${vectors.length} embeddings for ${texts.length} texts`)
+    }
+    checkDimensions('Ollama', vectors, this.dimension)
+    return vectors.map(v => Float32Array.from(v))
+  }
+}
+
+export class OpenAIEmbeddingProvider implements EmbeddingProvider {
+  name: EmbeddingProviderName = 'openai'
+  model: string
+  dimension: number
+  baseUrl: string
+  authHeader: string
+  private apiKey?: string
+
+  constructor(options: { model: string; dimension: number; endpoint?: string; apiKey?: string; authHeader?: string }) {
+    this.model = options.model
+    this.dimension = options.dimension
+    this.baseUrl = (options.endpoint || 'http://localhost:8000/v1').replace(/\/+$/, '')
+    this.authHeader = options.authHeader || 'Authorization'
+    this.apiKey = options.apiKey || process.env.OPENAI_API_KEY || undefined
+  }
+
+  async embed(texts: string[]): Promise<Float32Array[]> {
+    const headers: Record<string, string> = { 'Content-Type': 'application/json' }
+    if (this.apiKey) {
+      headers[this.authHeader] = this.authHeader.toLowerCase() === 'authorization'
+        ? `Bearer ${this.apiKey}`
+        : this.apiKey
+    }
+
+    const response = await fetch(`${this.baseUrl}/embeddings`, {
+      method: 'POST',
+      headers,
+      body: JSON.stringify({ model: this.model, input: texts, encoding_format: 'float' }),
+      signal: AbortSignal.timeout(120000)
+    })
+
+    if (!response.ok) {
+      throw new Error(`OpenAI-compatible embeddings error: ${response.status} ${response.statusText}`)
+    }
+
+    const data = await response.json() as { data?: Array<{ index: number; embedding: number[] }> }
+    const vectors = (data.data || [])
+      .slice()
+      .sort((a, b) => a.index - b.index)
+      .map(d => d.embedding)
+    if (vectors.length !== texts.length) {
+      throw new Error(`[Embeddings] Server returned ${vectors.length} embeddings for ${texts.length} texts`)
+    }
+    checkDimensions('OpenAI-compatible server', vectors, this.dimension)
+    return vectors.map(v => Float32Array.from(v))
+  }
+}
+
+/**
+ * Create an HTTP embedding provider. The transformers provider is created by
+ * ./embeddings so this module stays free of the ONNX runtime.
+ */
+export function createRemoteEmbeddingProvider(config: EmbeddingConfig): EmbeddingProvider {
+  switch (config.provider) {
+    case 'ollama':
+      return new OllamaEmbeddingProvider(config)
+    case 'openai':
+      return new OpenAIEmbeddingProvider(config)
+    default:
+      throw new Error(`Not a remote embedding provider: ${config.provider}`)
+  }
+}
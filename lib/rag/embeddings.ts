@@ -1,37 +1,52 @@
 /**
- * Local Embeddings Module
- * Uses @huggingface/transformers v3 for TypeScript-native embeddings
- * Model: bge-small-en-v1.5 (384-dimensional, English, optimized for retrieval)
+ * Embeddings Module
+ * Entry point for every embedding in RAG and memory. Dispatches to the host's
+ * configured provider (see ./embedding-providers): the local transformers
+ * model by default, or Ollama / an OpenAI-compatible /v1/embeddings server.
  *
- * v3 includes onnxruntime-node for native CPU performance (faster than WASM)
+ * Local model: @huggingface/transformers v3, bge-small-en-v1.5 by default
+ * (384-dimensional, English, optimized for retrieval). v3 includes
+ * onnxruntime-node for native CPU performance (faster than WASM)
  */
 
 import { pipeline, FeatureExtractionPipeline, env } from '@huggingface/transformers';
+import {
+  loadEmbeddingConfig,
+  embeddingConfigVersion,
+  createRemoteEmbeddingProvider,
+  type EmbeddingProvider,
+  type EmbeddingProviderName,
+} from './embedding-providers';
 
 // Configure for Node.js environment
 env.allowLocalModels = false;  // Use HuggingFace Hub
 env.useBrowserCache = false;   // Use filesystem cache in Node.js
 
-// Fast, local, CPU-friendly English embedding model
-const MODEL = 'Xenova/bge-small-en-v1.5';
-
 let extractor: FeatureExtractionPipeline | null = null;
 let extractorPromise: Promise<FeatureExtractionPipeline> | null = null;
+let extractorModel: string | null = null;
 
 /**
- * Get or initialize the embedding model (singleton pattern with race protection)
+ * Get or initialize the local embedding model (singleton pattern with race protection).
+ * Switching the configured model drops the loaded pipeline.
  */
-async function getExtractor(): Promise<FeatureExtractionPipeline> {
+async function getExtractor(model: string): Promise<FeatureExtractionPipeline> {
+  if (extractorModel !== model) {
+    extractor = null;
+    extractorPromise = null;
+    extractorModel = model;
+  }
+
   if (extractor) return extractor;
 
   // Prevent multiple simultaneous initializations
   if (extractorPromise) return extractorPromise;
 
   extractorPromise = (async () => {
-    console.log('[Embeddings] Loading model:', MODEL);
+    console.log('[Embeddings] Loading model:', model);
     const startTime = Date.now();
 
-    const ext = await pipeline('feature-extraction', MODEL, {
+    const ext = await pipeline('feature-extraction', model, {
       dtype: 'q8',  // Quantized for speed (was: quantized: true)
       device: 'auto',  // Let it choose best available (CPU in Node.js)
       progress_callback: (progress: any) => {
@@ -72,19 +87,10 @@ function l2Normalize(vec: Float32Array): Float32Array {
 }
 
 /**
- * Generate embeddings for one or more texts
- * @param texts - Array of strings to embed
- * @returns Array of L2-normalized Float32Array vectors (384-d each)
+ * Run the local transformers model
  */
-export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
-  // Filter out empty or invalid texts
-  const validTexts = texts.filter(t => t && typeof t === 'string' && t.trim().length > 0);
-
-  if (validTexts.length === 0) {
-    throw new Error('[Embeddings] No valid texts to embed');
-  }
-
-  const ex = await getExtractor();
+async function embedWithTransformers(model: string, dimension: number, validTexts: string[]): Promise<Float32Array[]> {
+  const ex = await getExtractor(model);
 
   // Get embeddings with mean pooling and normalization
   const output = await ex(validTexts, {
@@ -118,13 +124,13 @@ export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
   // Fallback to data/dims access
   if (output.data instanceof Float32Array) {
     data = output.data;
-    dims = output.dims || [validTexts.length, 384];
+    dims = output.dims || [validTexts.length, dimension];
   } else if (Array.isArray(output.data)) {
     data = output.data;
-    dims = output.dims || [validTexts.length, 384];
+    dims = output.dims || [validTexts.length, dimension];
   } else if (output instanceof Float32Array) {
     data = output;
-    dims = [validTexts.length, 384];
+    dims = [validTexts.length, dimension];
   } else {
     console.error('[Embeddings] Unexpected output structure:', {
       type: typeof output,
@@ -140,7 +146,7 @@ export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
 
   // Handle batch outputs - shape is [batch_size, embedding_dim]
   const batchSize = dims[0] || validTexts.length;
-  const embeddingDim = dims[1] || 384;
+  const embeddingDim = dims[1] || dimension;
 
   for (let i = 0; i < batchSize; i++) {
     const start = i * embeddingDim;
@@ -154,6 +160,61 @@ export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
   return results;
 }
 
+class TransformersEmbeddingProvider implements EmbeddingProvider {
+  name: EmbeddingProviderName = 'transformers';
+
+  constructor(public model: string, public dimension: number) {}
+
+  embed(texts: string[]): Promise<Float32Array[]> {
+    return embedWithTransformers(this.model, this.dimension, texts);
+  }
+}
+
+let activeProvider: EmbeddingProvider | null = null;
+let activeConfigVersion = -1;
+
+/**
+ * The host's active embedding provider (re-read when the config file changes)
+ */
+export function getEmbeddingProvider(): EmbeddingProvider {
+  const version = embeddingConfigVersion();
+  if (activeProvider && version === activeConfigVersion) return activeProvider;
+
+  const config = loadEmbeddingConfig();
+  activeProvider = config.provider === 'transformers'
+    ? new TransformersEmbeddingProvider(config.model, config.dimension)
+    : createRemoteEmbeddingProvider(config);
+  activeConfigVersion = version;
+  console.log(`[Embeddings] Using ${activeProvider.name} provider: ${activeProvider.model} (${activeProvider.dimension}-d)`);
+  return activeProvider;
+}
+
+/**
+ * Generate embeddings for one or more texts
+ * @param texts - Array of strings to embed
+ * @returns Array of L2-normalized Float32Array vectors (provider dimension each)
+ */
+export async function embedTexts(texts: string[]): Promise<Float32Array[]> {
+  // Filter out empty or invalid texts
+  const validTexts = texts.filter(t => t && typeof t === 'string' && t.trim().length > 0);
+
+  if (validTexts.length === 0) {
+    throw new Error('[Embeddings] No valid texts to embed');
+  }
+
+  const vectors = await getEmbeddingProvider().embed(validTexts);
+  // Remote servers do not all normalize; cosine() assumes unit vectors
+  return vectors.map(l2Normalize);
+}
+
+/**
+ * Embed a single text as a plain number array (memory and team memory storage)
+ */
+export async function embedText(text: string): Promise<number[]> {
+  const [vector] = await embedTexts([text]);
+  return Array.from(vector);
+}
+
 /**
  * Compute cosine similarity between two L2-normalized vectors
  * @param a - First vector
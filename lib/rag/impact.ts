@@ -0,0 +1,320 @@
+/**
+ * Code Graph Impact Analysis
+ * Answers "what breaks if I change this?" by walking the code graph backwards
+ * from changed files: callers (calls, component_calls), importers (imports)
+ * and subclasses (extends, includes), up to a depth limit.
+ */
+
+import type { AgentDatabase } from '@/lib/cozo-db'
+import { escapeForCozo } from '@/lib/cozo-utils'
+
+export type ImpactNodeKind = 'file' | 'function' | 'component'
+export type ImpactEdge = 'declares' | 'calls' | 'component_calls' | 'imports' | 'extends' | 'includes'
+
+export interface ImpactGraph {
+  files: { file_id: string; path: string; project_path: string }[]
+  functions: { fn_id: string; name: string; file_id: string }[]
+  components: { component_id: string; name: string; file_id: string; class_type: string }[]
+  calls: [string, string][]           // [caller_fn, callee_fn]
+  componentCalls: [string, string][]  // [component_id, fn_id]
+  imports: [string, string][]         // [from_file, to_file]
+  extends: [string, string][]         // [child_class, parent_class]
+  includes: [string, string][]        // [class_id, module_name]
+}
+
+export interface ImpactStep {
+  id: string
+  kind: ImpactNodeKind
+  name: string
+  edge?: ImpactEdge   // How this step was reached from the previous one
+}
+
+export interface ImpactedNode {
+  id: string
+  kind: ImpactNodeKind
+  name: string
+  file?: string
+  depth: number
+  path: ImpactStep[]  // From a changed file to this node
+}
+
+export interface ImpactReport {
+  depth: number
+  changed: { files: string[]; functions: string[]; components: string[] }
+  unmatched_files: string[]   // Requested paths that are not in the code graph
+  functions: ImpactedNode[]
+  components: ImpactedNode[]
+  files: ImpactedNode[]       // Files importing changed code
+  tests: ImpactedNode[]       // Test files containing or importing affected code
+  truncated: boolean
+}
+
+export const DEFAULT_IMPACT_DEPTH = 3
+export const MAX_IMPACT_DEPTH = 10
+const DEFAULT_MAX_NODES = 500
+
+const TEST_PATH_PATTERNS = [
+  /(^|\/)(__tests__|tests?|spec)\//,
+  /\.(test|spec)\.[cm]?[jt]sx?$/,
+  /_test\.(go|py)$/,
+  /(^|\/)test_[^/]+\.py$/,
+  /_spec\.rb$/,
+  /Tests?\.(java|kt|cs)$/,
+]
+
+export function isTestPath(filePath: string): boolean {
+  const normalized = filePath.replace(/\\/g, '/')
+  return TEST_PATH_PATTERNS.some(pattern => pattern.test(normalized))
+}
+
+/**
+ * Changed file paths from a unified diff (git diff output). Deleted files are
+ * kept: code that used them is affected too.
+ */
+export function parseDiffFiles(diff: string): string[] {
+  const files = new Set<string>()
+  for (const line of diff.split('\n')) {
+    const header = line.match(/^diff --git a\/(.+?) b\/(.+)$/)
+    if (header) {
+      files.add(header[2])
+      if (header[1] !== header[2]) files.add(header[1])
+      continue
+    }
+    const marker = line.match(/^(?:---|\+\+\+) [ab]\/(.+?)\s*$/)
+    if (marker) {
+      files.add(marker[1])
+    }
+  }
+  return Array.from(files)
+}
+
+/**
+ * Match requested paths (relative, absolute or repo-rooted) to graph files
+ */
+function matchChangedFiles(
+  graph: ImpactGraph,
+  requested: string[]
+): { matched: ImpactGraph['files']; unmatched: string[] } {
+  const matched = new Map<string, ImpactGraph['files'][number]>()
+  const unmatched: string[] = []
+
+  for (const raw of requested) {
+    const wanted = raw.replace(/\\/g, '/').replace(/^\.\//, '')
+    const hits = graph.files.filter(f => {
+      const relative = f.path.replace(/\\/g, '/')
+      const absolute = `${f.project_path.replace(/\/+$/, '')}/${relative}`
+      // A diff from the repository root names project files with a prefix
+      return wanted === relative || wanted === absolute || wanted.endsWith(`/${relative}`)
+    })
+    if (hits.length === 0) {
+      unmatched.push(raw)
+    }
+    for (const hit of hits) matched.set(hit.file_id, hit)
+  }
+
+  return { matched: Array.from(matched.values()), unmatched }
+}
+
+function groupBy(pairs: [string, string][], key: 0 | 1): Map<string, string[]> {
+  const map = new Map<string, string[]>()
+  for (const pair of pairs) {
+    const list = map.get(pair[key]) || []
+    list.push(pair[key === 0 ? 1 : 0])
+    map.set(pair[key], list)
+  }
+  return map
+}
+
+/**
+ * Walk the graph backwards from changed files. Breadth-first, so every node
+ * is reported with its shortest path.
+ */
+export function analyzeImpact(
+  graph: ImpactGraph,
+  changedPaths: string[],
+  options: { depth?: number; maxNodes?: number } = {}
+): ImpactReport {
+  const depth = Math.min(Math.max(options.depth ?? DEFAULT_IMPACT_DEPTH, 1), MAX_IMPACT_DEPTH)
+  const maxNodes = options.maxNodes ?? DEFAULT_MAX_NODES
+
+  const filesById = new Map(graph.files.map(f => [f.file_id, f]))
+  const filesByPath = new Map(graph.files.map(f => [f.path, f]))
+  const functionsById = new Map(graph.functions.map(f => [f.fn_id, f]))
+  const componentsById = new Map(graph.components.map(c => [c.component_id, c]))
+
+  const callersOf = groupBy(graph.calls, 1)
+  const componentCallersOf = groupBy(graph.componentCalls, 1)
+  const importersOf = groupBy(graph.imports, 1)
+  const subclassesOf = groupBy(graph.extends, 1)
+  const includersOf = groupBy(graph.includes, 1)
+
+  const describe = (id: string, kind: ImpactNodeKind): { name: string; file?: string } => {
+    if (kind === 'file') return { name: filesById.get(id)?.path || id, file: filesById.get(id)?.path }
+    const node = kind === 'function' ? functionsById.get(id) : componentsById.get(id)
+    return { name: node?.name || id, file: node ? filesById.get(node.file_id)?.path : undefined }
+  }
+
+  const { matched, unmatched } = matchChangedFiles(graph, changedPaths)
+  const report: ImpactReport = {
+    depth,
+    changed: { files: matched.map(f => f.path), functions: [], components: [] },
+    unmatched_files: unmatched,
+    functions: [],
+    components: [],
+    files: [],
+    tests: [],
+    truncated: false,
+  }
+
+  const visited = new Map<string, ImpactedNode>()
+  let queue: ImpactedNode[] = []
+
+  const visit = (from: ImpactedNode | null, id: string, kind: ImpactNodeKind, edge: ImpactEdge | undefined, level: number) => {
+    const key = `${kind}:${id}`
+    if (visited.has(key)) return null
+    const { name, file } = describe(id, kind)
+    const step: ImpactStep = { id, kind, name, ...(edge ? { edge } : {}) }
+    const node: ImpactedNode = { id, kind, name, file, depth: level, path: from ? [...from.path, step] : [step] }
+    visited.set(key, node)
+    return node
+  }
+
+  // Changed files and everything they declare are the starting points
+  const changedFileIds = new Set(matched.map(f => f.file_id))
+  for (const file of matched) {
+    const fileNode = visit(null, file.file_id, 'file', undefined, 0)!
+    queue.push(fileNode)
+    for (const fn of graph.functions.filter(f => f.file_id === file.file_id)) {
+      const node = visit(fileNode, fn.fn_id, 'function', 'declares', 0)
+      if (node) { queue.push(node); report.changed.functions.push(fn.name) }
+    }
+    for (const comp of graph.components.filter(c => c.file_id === file.file_id)) {
+      const node = visit(fileNode, comp.component_id, 'component', 'declares', 0)
+      if (node) { queue.push(node); report.changed.components.push(comp.name) }
+    }
+  }
+
+  const affected: ImpactedNode[] = []
+
+  for (let level = 1; level <= depth && queue.length > 0; level++) {
+    const next: ImpactedNode[] = []
+    const reach = (from: ImpactedNode, ids: string[] | undefined, kind: ImpactNodeKind, edge: ImpactEdge) => {
+      for (const id of ids || []) {
+        // Edges to external classes/modules point outside the project
+        if (id.startsWith('external:') || id.startsWith('module:')) continue
+        if (affected.length >= maxNodes) { report.truncated = true; return }
+        const node = visit(from, id, kind, edge, level)
+        if (node) { next.push(node); affected.push(node) }
+      }
+    }
+
+    for (const node of queue) {
+      if (node.kind === 'function') {
+        reach(node, callersOf.get(node.id), 'function', 'calls')
+        reach(node, componentCallersOf.get(node.id), 'component', 'component_calls')
+      } else if (node.kind === 'component') {
+        reach(node, subclassesOf.get(node.id), 'component', 'extends')
+        reach(node, includersOf.get(node.id), 'component', 'includes')
+      } else {
+        reach(node, importersOf.get(node.id), 'file', 'imports')
+      }
+    }
+    queue = next
+  }
+
+  const testFiles = new Set<string>()
+  for (const node of affected) {
+    if (node.kind === 'function') report.functions.push(node)
+    else if (node.kind === 'component') report.components.push(node)
+    else report.files.push(node)
+
+    const file = node.file
+    const fileEntry = file ? filesByPath.get(file) : undefined
+    if (file && fileEntry && !changedFileIds.has(fileEntry.file_id) && !testFiles.has(file) && isTestPath(file)) {
+      testFiles.add(file)
+      report.tests.push({ ...node, id: fileEntry.file_id, kind: 'file', name: file })
+    }
+  }
+
+  return report
+}
+
+function formatPath(node: ImpactedNode): string {
+  return node.path
+    .map((step, i) => i === 0 ? step.name : `${step.edge === 'declares' ? '→' : `← ${step.edge}`} ${step.name}`)
+    .join(' ')
+}
+
+/**
+ * Markdown summary of a report, for attaching to review tasks
+ */
+export function formatImpactMarkdown(report: ImpactReport): string {
+  const lines: string[] = [
+    `## Impact analysis (depth ${report.depth})`,
+    '',
+    `**Changed files:** ${report.changed.files.length > 0 ? report.changed.files.map(f => `\`${f}\``).join(', ') : 'none in the code graph'}`,
+  ]
+  if (report.unmatched_files.length > 0) {
+    lines.push(`**Not indexed:** ${report.unmatched_files.map(f => `\`${f}\``).join(', ')}`)
+  }
+
+  const section = (title: string, nodes: ImpactedNode[]) => {
+    if (nodes.length === 0) return
+    lines.push('', `### ${title} (${nodes.length})`, '')
+    for (const node of nodes) {
+      lines.push(`- \`${node.name}\`${node.file && node.kind !== 'file' ? ` (${node.file})` : ''}: ${formatPath(node)}`)
+    }
+  }
+
+  section('Affected functions', report.functions)
+  section('Affected components', report.components)
+  section('Importing files', report.files)
+  section('Tests to run', report.tests)
+
+  if (report.truncated) {
+    lines.push('', '_Result truncated; raise the limit or lower the depth._')
+  }
+  return lines.join('\n') + '\n'
+}
+
+/**
+ * Load the code graph of an agent (optionally one project) for impact analysis
+ */
+export async function loadImpactGraph(agentDb: AgentDatabase, projectPath?: string): Promise<ImpactGraph> {
+  const rows = async (query: string): Promise<any[][]> => {
+    try {
+      return (await agentDb.run(query)).rows
+    } catch (error: any) {
+      // Older databases may lack a relation; anything else is a real failure
+      if (error?.code === 'query::relation_not_found' || error?.message?.includes('relation_not_found')) {
+        return []
+      }
+      throw error
+    }
+  }
+
+  const projectFilter = projectPath ? `, project_path = ${escapeForCozo(projectPath)}` : ''
+  const files = (await rows(`?[file_id, path, project_path] := *files{file_id, path, project_path}${projectFilter}`))
+    .map(r => ({ file_id: r[0], path: r[1], project_path: r[2] }))
+  const fileIds = new Set(files.map(f => f.file_id))
+
+  const functions = (await rows(`?[fn_id, name, file_id] := *functions{fn_id, name, file_id}`))
+    .map(r => ({ fn_id: r[0], name: r[1], file_id: r[2] }))
+    .filter(f => fileIds.has(f.file_id))
+  const components = (await rows(`?[component_id, name, file_id, class_type] := *components{component_id, name, file_id, class_type}`))
+    .map(r => ({ component_id: r[0], name: r[1], file_id: r[2], class_type: r[3] || 'class' }))
+    .filter(c => fileIds.has(c.file_id))
+
+  const pairs = async (query: string) => (await rows(query)).map(r => [r[0], r[1]] as [string, string])
+
+  return {
+    files,
+    functions,
+    components,
+    calls: await pairs(`?[caller_fn, callee_fn] := *calls{caller_fn, callee_fn}`),
+    componentCalls: await pairs(`?[component_id, fn_id] := *component_calls{component_id, fn_id}`),
+    imports: await pairs(`?[from_file, to_file] := *imports{from_file, to_file}`),
+    extends: await pairs(`?[child_class, parent_class] := *extends{child_class, parent_class}`),
+    includes: await pairs(`?[class_id, module_name] := *includes{class_id, module_name}`),
+  }
+}
@@ -0,0 +1,355 @@
+/**
+ * MySQL / MariaDB Schema Introspector
+ * Queries information_schema; a MySQL "schema" is a database, so the connected
+ * database is introspected unless includeSchemas names others
+ */
+
+import { dbId } from './id'
+import type { DbIntrospector, IntrospectOptions } from './db-introspector'
+import type {
+  DbSchema,
+  SchemaInfo,
+  TableInfo,
+  ColumnInfo,
+  IndexInfo,
+  ConstraintInfo,
+  ForeignKeyInfo,
+  ViewInfo,
+  EnumInfo,
+  ProcedureInfo,
+} from './pg-introspector'
+
+/** The part of a mysql2/promise connection the introspector needs */
+export interface MysqlQueryable {
+  query(sql: string, values?: unknown[]): Promise<[unknown, unknown]>
+}
+
+type Row = Record<string, any>
+
+const SYSTEM_SCHEMAS = ['information_schema', 'mysql', 'performance_schema', 'sys']
+
+/**
+ * Create a DbIntrospector for a mysql:// connection string
+ */
+export async function createMysqlIntrospector(connectionString: string): Promise<DbIntrospector> {
+  const mysql = await import('mysql2/promise')
+  const connection = await mysql.createConnection(connectionString)
+
+  return {
+    engine: 'mysql',
+    introspect: (options) => introspectMysqlDatabase(connection, options),
+    close: () => connection.end(),
+  }
+}
+
+/**
+ * Introspect the connected MySQL database
+ */
+export async function introspectMysqlDatabase(
+  conn: MysqlQueryable,
+  options: IntrospectOptions = {}
+): Promise<DbSchema> {
+  console.log('[MySQL Introspector] Starting database introspection...')
+
+  const [dbRow] = await rows(conn, 'SELECT DATABASE() AS dbname')
+  const database: string | null = dbRow?.dbname ?? null
+  if (!database) {
+    throw new Error('MySQL connection string must name a database')
+  }
+
+  const includeSchemas = options.includeSchemas || [database]
+  const excludeSchemas = options.excludeSchemas || SYSTEM_SCHEMAS
+
+  const schemaRows = await rows(conn, `
+    SELECT SCHEMA_NAME AS schema_name
+    FROM information_schema.SCHEMATA
+    WHERE SCHEMA_NAME IN (?)
+    ORDER BY SCHEMA_NAME
+  `, [includeSchemas])
+
+  const schemas: SchemaInfo[] = []
+
+  for (const row of schemaRows) {
+    const schemaName: string = row.schema_name
+    if (excludeSchemas.includes(schemaName)) continue
+    console.log(`[MySQL Introspector] Processing schema: ${schemaName}`)
+
+    const schemaId = dbId.schema(database, schemaName)
+    const tables = await introspectTables(conn, schemaId, schemaName)
+
+    schemas.push({
+      schema_id: schemaId,
+      schema_name: schemaName,
+      tables,
+      views: await introspectViews(conn, schemaId, schemaName),
+      enums: collectEnums(schemaId, schemaName, tables),
+      procedures: await introspectRoutines(conn, schemaId, schemaName),
+    })
+  }
+
+  console.log('[MySQL Introspector] ✅ Introspection complete')
+
+  return { database, schemas }
+}
+
+async function introspectTables(conn: MysqlQueryable, schemaId: string, schemaName: string): Promise<TableInfo[]> {
+  const tableRows = await rows(conn, `
+    SELECT TABLE_NAME AS table_name
+    FROM information_schema.TABLES
+    WHERE TABLE_SCHEMA = ? AND TABLE_TYPE = 'BASE TABLE'
+    ORDER BY TABLE_NAME
+  `, [schemaName])
+
+  const tables: TableInfo[] = []
+
+  for (const row of tableRows) {
+    const tableName: string = row.table_name
+    const tableId = dbId.table(schemaId, tableName)
+
+    tables.push({
+      table_id: tableId,
+      table_name: tableName,
+      schema_name: schemaName,
+      columns: await introspectColumns(conn, tableId, schemaName, tableName),
+      indexes: await introspectIndexes(conn, tableId, schemaName, tableName),
+      constraints: await introspectConstraints(conn, tableId, schemaName, tableName),
+      foreign_keys: await introspectForeignKeys(conn, schemaName, tableName),
+    })
+  }
+
+  console.log(`[MySQL Introspector]   Found ${tables.length} tables in ${schemaName}`)
+  return tables
+}
+
+async function introspectColumns(
+  conn: MysqlQueryable,
+  tableId: string,
+  schemaName: string,
+  tableName: string
+): Promise<ColumnInfo[]> {
+  const result = await rows(conn, `
+    SELECT
+      COLUMN_NAME AS column_name,
+      DATA_TYPE AS data_type,
+      COLUMN_TYPE AS column_type,
+      IS_NULLABLE AS is_nullable,
+      COLUMN_DEFAULT AS column_default,
+      ORDINAL_POSITION AS ordinal_position
+    FROM information_schema.COLUMNS
+    WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+    ORDER BY ORDINAL_POSITION
+  `, [schemaName, tableName])
+
+  return result.map((row) => ({
+    column_id: dbId.column(tableId, row.column_name),
+    column_name: row.column_name,
+    table_id: tableId,
+    data_type: row.data_type,
+    udt_name: row.column_type, // e.g. varchar(255), int unsigned, enum('a','b')
+    is_nullable: row.is_nullable === 'YES',
+    column_default: row.column_default === null ? null : String(row.column_default),
+    ordinal_position: Number(row.ordinal_position),
+  }))
+}
+
+async function introspectIndexes(
+  conn: MysqlQueryable,
+  tableId: string,
+  schemaName: string,
+  tableName: string
+): Promise<IndexInfo[]> {
+  const result = await rows(conn, `
+    SELECT
+      INDEX_NAME AS index_name,
+      NON_UNIQUE AS non_unique,
+      INDEX_TYPE AS index_type,
+      COLUMN_NAME AS column_name
+    FROM information_schema.STATISTICS
+    WHERE TABLE_SCHEMA = ? AND TABLE_NAME = ?
+    ORDER BY INDEX_NAME, SEQ_IN_INDEX
+  `, [schemaName, tableName])
+
+  // STATISTICS has one row per indexed column
+  const indexes = new Map<string, IndexInfo>()
+  for (const row of result) {
+    let index = indexes.get(row.index_name)
+    if (!index) {
+      index = {
+        index_id: dbId.index(tableId, row.index_name),
+        index_name: row.index_name,
+        table_id: tableId,
+        is_unique: Number(row.non_unique) === 0,
+        is_primary: row.index_name === 'PRIMARY',
+        index_type: String(row.index_type).toLowerCase(),
+        columns: [],
+      }
+      indexes.set(row.index_name, index)
+    }
+    // Functional key parts have no column name
+    if (row.column_name) index.columns.push(row.column_name)
+  }
+
+  return Array.from(indexes.values())
+}
+
+async function introspectConstraints(
+  conn: MysqlQueryable,
+  tableId: string,
+  schemaName: string,
+  tableName: string
+): Promise<ConstraintInfo[]> {
+  const keyRows = await rows(conn, `
+    SELECT
+      tc.CONSTRAINT_NAME AS constraint_name,
+      tc.CONSTRAINT_TYPE AS constraint_type,
+      GROUP_CONCAT(kcu.COLUMN_NAME ORDER BY kcu.ORDINAL_POSITION SEPARATOR ', ') AS columns
+    FROM information_schema.TABLE_CONSTRAINTS tc
+    JOIN information_schema.KEY_COLUMN_USAGE kcu
+      ON kcu.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA
+      AND kcu.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+      AND kcu.TABLE_NAME = tc.TABLE_NAME
+    WHERE tc.TABLE_SCHEMA = ? AND tc.TABLE_NAME = ?
+      AND tc.CONSTRAINT_TYPE IN ('PRIMARY KEY', 'UNIQUE')
+    GROUP BY tc.CONSTRAINT_NAME, tc.CONSTRAINT_TYPE
+  `, [schemaName, tableName])
+
+  // CHECK_CONSTRAINTS exists from MySQL 8.0.16 / MariaDB 10.2
+  const checkRows = await rows(conn, `
+    SELECT
+      tc.CONSTRAINT_NAME AS constraint_name,
+      cc.CHECK_CLAUSE AS check_clause
+    FROM information_schema.TABLE_CONSTRAINTS tc
+    JOIN information_schema.CHECK_CONSTRAINTS cc
+      ON cc.CONSTRAINT_SCHEMA = tc.CONSTRAINT_SCHEMA
+      AND cc.CONSTRAINT_NAME = tc.CONSTRAINT_NAME
+    WHERE tc.TABLE_SCHEMA = ? AND tc.TABLE_NAME = ?
+      AND tc.CONSTRAINT_TYPE = 'CHECK'
+  `, [schemaName, tableName]).catch(() => [] as Row[])
+
+  return [
+    ...keyRows.map((row): ConstraintInfo => ({
+      constraint_id: dbId.constraint(tableId, row.constraint_name),
+      constraint_name: row.constraint_name,
+      table_id: tableId,
+      constraint_type: row.constraint_type,
+      definition: `${row.constraint_type} (${row.columns})`,
+    })),
+    ...checkRows.map((row): ConstraintInfo => ({
+      constraint_id: dbId.constraint(tableId, row.constraint_name),
+      constraint_name: row.constraint_name,
+      table_id: tableId,
+      constraint_type: 'CHECK',
+      definition: `CHECK (${row.check_clause})`,
+    })),
+  ]
+}
+
+async function introspectForeignKeys(
+  conn: MysqlQueryable,
+  schemaName: string,
+  tableName: string
+): Promise<ForeignKeyInfo[]> {
+  const result = await rows(conn, `
+    SELECT
+      kcu.CONSTRAINT_NAME AS constraint_name,
+      kcu.COLUMN_NAME AS from_column,
+      kcu.REFERENCED_TABLE_SCHEMA AS to_schema,
+      kcu.REFERENCED_TABLE_NAME AS to_table,
+      kcu.REFERENCED_COLUMN_NAME AS to_column,
+      rc.DELETE_RULE AS on_delete,
+      rc.UPDATE_RULE AS on_update
+    FROM information_schema.KEY_COLUMN_USAGE kcu
+    JOIN information_schema.REFERENTIAL_CONSTRAINTS rc
+      ON rc.CONSTRAINT_SCHEMA = kcu.CONSTRAINT_SCHEMA
+      AND rc.CONSTRAINT_NAME = kcu.CONSTRAINT_NAME
+    WHERE kcu.TABLE_SCHEMA = ? AND kcu.TABLE_NAME = ?
+      AND kcu.REFERENCED_TABLE_NAME IS NOT NULL
+    ORDER BY kcu.CONSTRAINT_NAME, kcu.ORDINAL_POSITION
+  `, [schemaName, tableName])
+
+  return result.map((row) => ({
+    fk_id: `fk:${schemaName}.${tableName}.${row.constraint_name}`,
+    fk_name: row.constraint_name,
+    from_table: `${schemaName}.${tableName}`,
+    from_column: row.from_column,
+    to_table: `${row.to_schema || schemaName}.${row.to_table}`,
+    to_column: row.to_column,
+    on_delete: row.on_delete,
+    on_update: row.on_update,
+  }))
+}
+
+async function introspectViews(conn: MysqlQueryable, schemaId: string, schemaName: string): Promise<ViewInfo[]> {
+  const result = await rows(conn, `
+    SELECT TABLE_NAME AS view_name, VIEW_DEFINITION AS definition
+    FROM information_schema.VIEWS
+    WHERE TABLE_SCHEMA = ?
+  `, [schemaName])
+
+  console.log(`[MySQL Introspector]   Found ${result.length} views in ${schemaName}`)
+
+  return result.map((row) => ({
+    view_id: dbId.view(schemaId, row.view_name),
+    view_name: row.view_name,
+    schema_name: schemaName,
+    definition: row.definition || '',
+    depends_on: [],
+  }))
+}
+
+async function introspectRoutines(conn: MysqlQueryable, schemaId: string, schemaName: string): Promise<ProcedureInfo[]> {
+  const result = await rows(conn, `
+    SELECT
+      ROUTINE_NAME AS proc_name,
+      ROUTINE_TYPE AS kind,
+      ROUTINE_DEFINITION AS definition
+    FROM information_schema.ROUTINES
+    WHERE ROUTINE_SCHEMA = ?
+  `, [schemaName])
+
+  console.log(`[MySQL Introspector]   Found ${result.length} procedures/functions in ${schemaName}`)
+
+  return result.map((row) => ({
+    proc_id: dbId.proc(schemaId, row.proc_name),
+    proc_name: row.proc_name,
+    schema_name: schemaName,
+    kind: row.kind === 'PROCEDURE' ? 'PROCEDURE' : 'FUNCTION',
+    language: 'sql',
+    definition: row.definition || '',
+  }))
+}
+
+/**
+ * MySQL enums are declared inline on the column; each one becomes an
+ * EnumInfo named <table>_<column>, the way PostgreSQL names implicit types
+ */
+function collectEnums(schemaId: string, schemaName: string, tables: TableInfo[]): EnumInfo[] {
+  const enums: EnumInfo[] = []
+
+  for (const table of tables) {
+    for (const column of table.columns) {
+      if (column.data_type !== 'enum') continue
+      const enumName = `${table.table_name}_${column.column_name}`
+      enums.push({
+        enum_id: dbId.enum(schemaId, enumName),
+        enum_name: enumName,
+        schema_name: schemaName,
+        values: parseEnumValues(column.udt_name),
+      })
+    }
+  }
+
+  return enums
+}
+
+/**
+ * Parse the values of a COLUMN_TYPE such as enum('draft','it''s done')
+ */
+export function parseEnumValues(columnType: string): string[] {
+  return Array.from(columnType.matchAll(/'((?:[^']|'')*)'/g), m => m[1].replace(/''/g, "'"))
+}
+
+async function rows(conn: MysqlQueryable, sql: string, values?: unknown[]): Promise<Row[]> {
+  const [result] = await conn.query(sql, values)
+  return result as Row[]
+}
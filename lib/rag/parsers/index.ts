@@ -1,14 +1,15 @@
 /**
  * Unified Parser Interface
- * Auto-detects project type and uses appropriate parser
+ * Auto-detects project type and parses every supported language in the project
  */
 
 import * as fs from 'fs'
 import * as path from 'path'
-import { ParsedFile, ProjectType, ParserOptions } from './types'
+import { ParsedFile, ProjectType, ParserOptions, Language } from './types'
 import { parseRubyProject } from './ruby-parser'
 import { parsePythonProject } from './python-parser'
 import { parseTypeScriptProjectRegex } from './typescript-regex-parser'
+import { parseTreeSitterProject } from './tree-sitter-parser'
 import { ParsedFile as TSParsedFile } from '../code-parser'
 
 // Re-export types
@@ -16,6 +17,7 @@ export * from './types'
 export { parseRubyFile, parseRubyProject } from './ruby-parser'
 export { parsePythonFile, parsePythonProject } from './python-parser'
 export { parseTypeScriptFile, parseTypeScriptProjectRegex } from './typescript-regex-parser'
+export { parseTreeSitterFile, parseTreeSitterProject, getTreeSitterLanguage, TREE_SITTER_EXTENSIONS } from './tree-sitter-parser'
 
 // Union type for both parser outputs
 export type AnyParsedFile = ParsedFile | TSParsedFile
@@ -68,6 +70,23 @@ export function detectProjectType(projectPath: string): ProjectType {
     return 'javascript'
   }
 
+  // Languages parsed with tree-sitter
+  if (fileExists(projectPath, 'go.mod')) {
+    return 'go'
+  }
+  if (fileExists(projectPath, 'Cargo.toml')) {
+    return 'rust'
+  }
+  if (['pom.xml', 'build.gradle', 'build.gradle.kts'].some(f => fileExists(projectPath, f))) {
+    return fileExists(projectPath, 'src/main/kotlin') ? 'kotlin' : 'java'
+  }
+  if (hasFileWithExtension(projectPath, ['.sln', '.csproj'])) {
+    return 'csharp'
+  }
+  if (fileExists(projectPath, 'composer.json')) {
+    return 'php'
+  }
+
   return 'unknown'
 }
 
@@ -78,6 +97,17 @@ function fileExists(basePath: string, fileName: string): boolean {
   return fs.existsSync(path.join(basePath, fileName))
 }
 
+/**
+ * Helper to check for a file with one of the given extensions in a directory
+ */
+function hasFileWithExtension(basePath: string, extensions: string[]): boolean {
+  try {
+    return fs.readdirSync(basePath).some(f => extensions.includes(path.extname(f)))
+  } catch {
+    return false
+  }
+}
+
 /**
  * Get detailed project info
  */
@@ -86,6 +116,7 @@ export interface ProjectInfo {
   framework?: string
   name?: string
   version?: string
+  languages?: Language[]  // Languages found while parsing (set by parseProject)
 }
 
 export function getProjectInfo(projectPath: string): ProjectInfo {
@@ -165,7 +196,24 @@ export function getProjectInfo(projectPath: string): ProjectInfo {
 }
 
 /**
- * Parse project using auto-detected parser
+ * Language parsers. Every parser runs on every project so mixed-language
+ * repositories (e.g. Go services next to a TypeScript frontend) are fully
+ * indexed; the detected project type only decides which one runs first.
+ */
+const LANGUAGE_PARSERS: {
+  name: string
+  projectTypes: ProjectType[]
+  parse: (projectPath: string, options: ParserOptions) => Promise<ParsedFile[]>
+}[] = [
+  // Regex parser is more stable than ts-morph for large/complex projects
+  { name: 'typescript', projectTypes: ['typescript', 'javascript'], parse: parseTypeScriptProjectRegex },
+  { name: 'ruby', projectTypes: ['ruby'], parse: parseRubyProject },
+  { name: 'python', projectTypes: ['python'], parse: parsePythonProject },
+  { name: 'tree-sitter', projectTypes: ['go', 'rust', 'java', 'csharp', 'kotlin', 'php'], parse: parseTreeSitterProject },
+]
+
+/**
+ * Parse every supported file in a project
  */
 export async function parseProject(
   projectPath: string,
@@ -175,37 +223,28 @@ export async function parseProject(
 
   console.log(`[Parser] Detected project type: ${projectInfo.type}${projectInfo.framework ? ` (${projectInfo.framework})` : ''}`)
 
-  let files: AnyParsedFile[] = []
-
-  switch (projectInfo.type) {
-    case 'ruby':
-      files = await parseRubyProject(projectPath, options)
-      break
-
-    case 'python':
-      files = await parsePythonProject(projectPath, options)
-      break
+  const parsers = [...LANGUAGE_PARSERS].sort((a, b) =>
+    Number(b.projectTypes.includes(projectInfo.type)) - Number(a.projectTypes.includes(projectInfo.type))
+  )
 
-    case 'typescript':
-    case 'javascript': {
-      // Use regex-based parser for all TypeScript/JavaScript projects
-      // Regex parser is more stable than ts-morph for large/complex projects
-      console.log(`[Parser] Using regex parser for ${projectInfo.type} project`)
-      files = await parseTypeScriptProjectRegex(projectPath, options)
-      break
-    }
+  const files: AnyParsedFile[] = []
+  const seen = new Set<string>()
 
-    case 'unknown': {
-      console.warn(`[Parser] Unknown project type for ${projectPath}, attempting regex parser`)
-      try {
-        files = await parseTypeScriptProjectRegex(projectPath, options)
-      } catch (err) {
-        console.error(`[Parser] Failed to parse unknown project type:`, err)
+  for (const parser of parsers) {
+    try {
+      for (const file of await parser.parse(projectPath, options)) {
+        if (seen.has(file.file_id)) continue
+        seen.add(file.file_id)
+        files.push(file)
       }
-      break
+    } catch (err) {
+      console.error(`[Parser] ${parser.name} parser failed for ${projectPath}:`, err)
     }
   }
 
+  projectInfo.languages = Array.from(new Set(files.flatMap(f => 'language' in f ? [f.language] : [])))
+  console.log(`[Parser] Parsed ${files.length} files (${projectInfo.languages.join(', ') || 'no supported languages'})`)
+
   return { files, projectInfo }
 }
 
@@ -371,7 +371,8 @@ export async function parsePythonProject(
       ignore: excludePatterns,
       absolute: true,
     })
-    files.push(...matches)
+    // Custom include patterns may match other languages' files
+    files.push(...matches.filter(f => /\.py$/.test(f)))
   }
 
   console.log(`[PythonParser] Found ${files.length} Python files`)
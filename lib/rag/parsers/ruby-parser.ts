@@ -376,7 +376,8 @@ export async function parseRubyProject(
       ignore: excludePatterns,
       absolute: true,
     })
-    files.push(...matches)
+    // Custom include patterns may match other languages' files
+    files.push(...matches.filter(f => /\.(rb|erb)$/.test(f)))
   }
 
   console.log(`[RubyParser] Found ${files.length} Ruby files`)
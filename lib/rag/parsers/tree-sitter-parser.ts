@@ -0,0 +1,567 @@
+/**
+ * Tree-sitter Code Parser
+ * Parses Go, Rust, Java, C#, Kotlin and PHP with tree-sitter WASM grammars
+ * (web-tree-sitter + tree-sitter-wasms) into the common ParsedFile shape
+ */
+
+import * as fs from 'fs'
+import * as path from 'path'
+import { glob } from 'glob'
+import type Parser from 'web-tree-sitter'
+import { ParsedFile, ParsedFunction, ParsedClass, ParsedImport, ParserOptions, Language, ClassType } from './types'
+import { codeId } from '../id'
+
+type SyntaxNode = Parser.SyntaxNode
+
+interface LanguageSpec {
+  grammar: string             // tree-sitter-wasms grammar name
+  extensions: string[]
+  classTypes: string[]        // Class-like declarations (class, struct, interface, trait)
+  functionTypes: string[]     // Functions, methods and constructors
+  callTypes: string[]
+  importTypes: string[]
+  packageTypes: string[]      // Package/namespace declaration used as module name
+  importSeparator?: string    // Path separator when imports name symbols (java.util.List)
+}
+
+const LANGUAGE_SPECS: Record<string, LanguageSpec> = {
+  go: {
+    grammar: 'go',
+    extensions: ['.go'],
+    classTypes: ['type_spec'],
+    functionTypes: ['function_declaration', 'method_declaration'],
+    callTypes: ['call_expression'],
+    importTypes: ['import_spec'],
+    packageTypes: ['package_clause'],
+  },
+  rs: {
+    grammar: 'rust',
+    extensions: ['.rs'],
+    classTypes: ['struct_item', 'enum_item', 'trait_item'],
+    functionTypes: ['function_item'],
+    callTypes: ['call_expression'],
+    importTypes: ['use_declaration'],
+    packageTypes: [],
+    importSeparator: '::',
+  },
+  java: {
+    grammar: 'java',
+    extensions: ['.java'],
+    classTypes: ['class_declaration', 'interface_declaration', 'enum_declaration', 'record_declaration'],
+    functionTypes: ['method_declaration', 'constructor_declaration'],
+    callTypes: ['method_invocation'],
+    importTypes: ['import_declaration'],
+    packageTypes: ['package_declaration'],
+    importSeparator: '.',
+  },
+  cs: {
+    grammar: 'c_sharp',
+    extensions: ['.cs'],
+    classTypes: ['class_declaration', 'interface_declaration', 'struct_declaration', 'record_declaration'],
+    functionTypes: ['method_declaration', 'constructor_declaration'],
+    callTypes: ['invocation_expression'],
+    importTypes: ['using_directive'],
+    packageTypes: ['namespace_declaration', 'file_scoped_namespace_declaration'],
+  },
+  kt: {
+    grammar: 'kotlin',
+    extensions: ['.kt', '.kts'],
+    classTypes: ['class_declaration', 'object_declaration'],
+    functionTypes: ['function_declaration'],
+    callTypes: ['call_expression'],
+    importTypes: ['import_header'],
+    packageTypes: ['package_header'],
+    importSeparator: '.',
+  },
+  php: {
+    grammar: 'php',
+    extensions: ['.php'],
+    classTypes: ['class_declaration', 'interface_declaration', 'trait_declaration'],
+    functionTypes: ['function_definition', 'method_declaration'],
+    callTypes: ['function_call_expression', 'member_call_expression', 'scoped_call_expression'],
+    importTypes: ['namespace_use_clause'],
+    packageTypes: ['namespace_definition'],
+    importSeparator: '\\',
+  },
+}
+
+const IDENTIFIER_TYPES = new Set([
+  'identifier', 'field_identifier', 'simple_identifier', 'type_identifier', 'name', 'property_identifier',
+])
+
+const MODIFIER_TYPES = new Set([
+  'modifiers', 'modifier', 'visibility_modifier', 'function_modifiers',
+])
+
+// Calls that never resolve to a function in the project
+const IGNORED_CALLS = new Set(['super', 'this', 'self', 'base', 'new'])
+
+/**
+ * File extensions handled by the tree-sitter parser
+ */
+export const TREE_SITTER_EXTENSIONS = Object.values(LANGUAGE_SPECS).flatMap(spec => spec.extensions)
+
+/**
+ * Language for a file path, or null when tree-sitter does not handle it
+ */
+export function getTreeSitterLanguage(filePath: string): Language | null {
+  const ext = path.extname(filePath).toLowerCase()
+  for (const [language, spec] of Object.entries(LANGUAGE_SPECS)) {
+    if (spec.extensions.includes(ext)) {
+      return language as Language
+    }
+  }
+  return null
+}
+
+// ============================================================================
+// Grammar loading
+// ============================================================================
+
+let parserModule: Promise<typeof Parser> | null = null
+const languages = new Map<string, Promise<Parser.Language>>()
+
+function grammarDir(): string {
+  return process.env.TREE_SITTER_WASM_DIR || path.join(process.cwd(), 'node_modules', 'tree-sitter-wasms', 'out')
+}
+
+/**
+ * Initialize web-tree-sitter once (loaded lazily: the runtime is WASM)
+ */
+function loadParserModule(): Promise<typeof Parser> {
+  if (!parserModule) {
+    parserModule = (async () => {
+      const mod = await import('web-tree-sitter')
+      const TreeSitter = ((mod as any).default || mod) as typeof Parser
+      await TreeSitter.init()
+      return TreeSitter
+    })()
+    parserModule.catch(() => { parserModule = null })
+  }
+  return parserModule
+}
+
+async function createParser(language: Language): Promise<Parser> {
+  const TreeSitter = await loadParserModule()
+  const spec = LANGUAGE_SPECS[language]
+
+  let grammar = languages.get(spec.grammar)
+  if (!grammar) {
+    grammar = TreeSitter.Language.load(path.join(grammarDir(), `tree-sitter-${spec.grammar}.wasm`))
+    languages.set(spec.grammar, grammar)
+    grammar.catch(() => languages.delete(spec.grammar))
+  }
+
+  const parser = new TreeSitter()
+  parser.setLanguage(await grammar)
+  return parser
+}
+
+// ============================================================================
+// Syntax helpers
+// ============================================================================
+
+/**
+ * Innermost identifier of a name or callee expression (a.b.c() -> c)
+ */
+function lastIdentifier(node: SyntaxNode | null): string | null {
+  if (!node) return null
+  if (IDENTIFIER_TYPES.has(node.type)) return node.text
+
+  const named = node.childForFieldName('field') || node.childForFieldName('name') || node.childForFieldName('function')
+  if (named) return lastIdentifier(named)
+
+  // Foo<T>() - the name comes before the type arguments
+  if (node.type === 'generic_name' || node.type === 'generic_type') {
+    return lastIdentifier(node.firstNamedChild)
+  }
+  return lastIdentifier(node.lastNamedChild)
+}
+
+function declarationName(node: SyntaxNode): string | null {
+  const named = node.childForFieldName('name')
+  if (named) return named.text
+  // Kotlin declarations have no field names
+  const identifier = node.namedChildren.find(c => c.type === 'type_identifier' || c.type === 'simple_identifier')
+  return identifier ? identifier.text : null
+}
+
+function modifierText(node: SyntaxNode): string {
+  return node.children
+    .filter(c => MODIFIER_TYPES.has(c.type))
+    .map(c => c.text)
+    .join(' ')
+}
+
+/**
+ * Bare type name: strips generics, qualification and pointers
+ */
+function baseTypeName(text: string): string {
+  return text
+    .replace(/<[\s\S]*$/, '')
+    .replace(/\[[\s\S]*$/, '')
+    .replace(/\([\s\S]*$/, '')
+    .replace(/[*&\s]/g, '')
+    .split(/::|\.|\\/)
+    .pop() || ''
+}
+
+function isExported(language: Language, node: SyntaxNode, name: string, inInterface: boolean): boolean {
+  const modifiers = modifierText(node)
+  switch (language) {
+    case 'go':
+      return /^[A-Z]/.test(name)
+    case 'rs':
+      return /\bpub\b/.test(modifiers)
+    case 'java':
+    case 'cs':
+      return inInterface || /\bpublic\b/.test(modifiers)
+    case 'kt':
+      return !/\b(private|internal|protected)\b/.test(modifiers)
+    case 'php':
+      return !/\b(private|protected)\b/.test(modifiers)
+    default:
+      return true
+  }
+}
+
+/**
+ * Parent class and implemented interfaces/traits of a class declaration
+ */
+function classHeritage(language: Language, node: SyntaxNode): { parent?: string; includes: string[] } {
+  const includes: string[] = []
+  let parent: string | undefined
+
+  switch (language) {
+    case 'java': {
+      const superclass = node.childForFieldName('superclass')
+      if (superclass?.firstNamedChild) parent = baseTypeName(superclass.firstNamedChild.text)
+      const interfaces = node.childForFieldName('interfaces') ||
+        node.namedChildren.find(c => c.type === 'extends_interfaces') || null
+      const typeList = interfaces?.namedChildren.find(c => c.type === 'type_list')
+      for (const type of typeList?.namedChildren || []) includes.push(baseTypeName(type.text))
+      break
+    }
+    case 'cs': {
+      const bases = node.childForFieldName('bases') || node.namedChildren.find(c => c.type === 'base_list') || null
+      const names = (bases?.namedChildren || []).map(b => baseTypeName(b.text)).filter(Boolean)
+      // C# lists the base class first; interfaces follow the I-prefix convention
+      if (node.type === 'class_declaration' && names.length > 0 && !/^I[A-Z]/.test(names[0])) {
+        parent = names.shift()
+      }
+      includes.push(...names)
+      break
+    }
+    case 'kt': {
+      for (const spec of node.namedChildren.filter(c => c.type === 'delegation_specifier')) {
+        const invocation = spec.namedChildren.find(c => c.type === 'constructor_invocation')
+        if (invocation && !parent) {
+          parent = baseTypeName(invocation.firstNamedChild?.text || '')
+        } else {
+          includes.push(baseTypeName(spec.text))
+        }
+      }
+      break
+    }
+    case 'php': {
+      const base = node.namedChildren.find(c => c.type === 'base_clause')
+      if (base?.firstNamedChild) parent = baseTypeName(base.firstNamedChild.text)
+      const interfaces = node.namedChildren.find(c => c.type === 'class_interface_clause')
+      for (const name of interfaces?.namedChildren || []) includes.push(baseTypeName(name.text))
+      break
+    }
+    case 'go': {
+      // Embedded struct fields: type Server struct { Base; *Logger }
+      const fields = node.childForFieldName('type')?.namedChildren.find(c => c.type === 'field_declaration_list')
+      for (const field of fields?.namedChildren || []) {
+        if (field.type === 'field_declaration' && !field.childForFieldName('name')) {
+          includes.push(baseTypeName(field.text))
+        }
+      }
+      break
+    }
+  }
+
+  return { parent: parent || undefined, includes: includes.filter(Boolean) }
+}
+
+/**
+ * Module path and imported names of one import node
+ */
+function parseImport(spec: LanguageSpec, node: SyntaxNode): { module: string; names: string[] }[] {
+  if (spec.grammar === 'go') {
+    const importPath = node.childForFieldName('path')?.text.replace(/^["`]|["`]$/g, '')
+    return importPath ? [{ module: importPath, names: [] }] : []
+  }
+
+  let text = node.text
+    .replace(/^\s*(pub(\([^)]*\))?\s+)?(global\s+)?(import|using|use)\s+/, '')
+    .replace(/^(static|global|function|const)\s+/, '')
+    .replace(/;\s*$/, '')
+    .replace(/\s+as\s+\w+/g, '')
+    .trim()
+
+  if (!spec.importSeparator) {
+    // C#: using Alias = Some.Namespace; imports the whole namespace
+    text = text.replace(/^\w+\s*=\s*/, '')
+    return text ? [{ module: text, names: [] }] : []
+  }
+
+  const sep = spec.importSeparator
+  const compact = text.replace(/\s+/g, '')
+  const group = compact.match(/^(.*?)(?:::|\\)?\{(.*)\}$/)
+  if (group) {
+    const names = group[2].split(',').map(n => n.split(sep).pop() || '').filter(Boolean)
+    return [{ module: group[1].replace(/(::|\\)$/, ''), names }]
+  }
+
+  const index = compact.lastIndexOf(sep)
+  if (index <= 0) {
+    return compact ? [{ module: compact, names: [] }] : []
+  }
+  return [{ module: compact.substring(0, index), names: [compact.substring(index + sep.length)] }]
+}
+
+function detectClassType(filePath: string, className: string): ClassType {
+  const normalizedPath = filePath.replace(/\\/g, '/')
+
+  if (/(^|\/)(tests?|spec)\//.test(normalizedPath) || /_test\.go$/.test(normalizedPath) ||
+      /Tests?$/.test(className)) {
+    return 'test'
+  }
+  if (className.endsWith('Controller') || /(^|\/)controllers?\//.test(normalizedPath)) {
+    return 'controller'
+  }
+  if (className.endsWith('Middleware') || /(^|\/)middlewares?\//.test(normalizedPath)) {
+    return 'middleware'
+  }
+  if (className.endsWith('Service') || /(^|\/)services?\//.test(normalizedPath)) {
+    return 'service'
+  }
+  if (className.endsWith('Validator')) {
+    return 'validator'
+  }
+  if (/(Job|Worker)$/.test(className) || /(^|\/)(jobs|workers)\//.test(normalizedPath)) {
+    return 'job'
+  }
+  if (/(^|\/)(models|entities)\//.test(normalizedPath)) {
+    return 'model'
+  }
+  if (/(^|\/)migrations?\//.test(normalizedPath)) {
+    return 'migration'
+  }
+  if (/(^|\/)(utils?|helpers?)\//.test(normalizedPath)) {
+    return 'util'
+  }
+  return 'class'
+}
+
+// ============================================================================
+// Parsing
+// ============================================================================
+
+/**
+ * Extract the code graph of one syntax tree
+ */
+function extractFile(language: Language, root: SyntaxNode, relativePath: string): ParsedFile {
+  const spec = LANGUAGE_SPECS[language]
+  const file_id = codeId.file(relativePath)
+
+  const functions: ParsedFunction[] = []
+  const classes: ParsedClass[] = []
+  const imports: ParsedImport[] = []
+  let moduleName = path.dirname(relativePath) === '.' ? '' : path.dirname(relativePath)
+
+  const findClass = (name: string) => classes.find(c => c.name === name)
+
+  const addFunction = (node: SyntaxNode, className: string | undefined, inInterface: boolean) => {
+    const name = declarationName(node)
+    if (!name) return
+
+    // Go methods name their type in the receiver: func (s *Server) Handle()
+    const receiver = node.childForFieldName('receiver')?.namedChildren[0]?.childForFieldName('type')
+    const owner = receiver ? baseTypeName(receiver.text) : className
+
+    const calls = new Set<string>()
+    for (const call of node.descendantsOfType(spec.callTypes)) {
+      const target = call.childForFieldName('name') || call.childForFieldName('function') || call.firstNamedChild
+      const callee = lastIdentifier(target)
+      if (callee && !IGNORED_CALLS.has(callee)) calls.add(callee)
+    }
+
+    functions.push({
+      fn_id: codeId.fn(relativePath, owner ? `${owner}.${name}` : name),
+      name,
+      file_id,
+      is_export: isExported(language, node, name, inInterface),
+      is_async: /\b(async|suspend)\b/.test(modifierText(node)),
+      language,
+      calls: Array.from(calls),
+      class_name: owner,
+    })
+
+    if (owner) findClass(owner)?.methods.push(name)
+  }
+
+  const walk = (node: SyntaxNode, className: string | undefined, inInterface: boolean) => {
+    for (const child of node.namedChildren) {
+      if (spec.packageTypes.includes(child.type)) {
+        const name = child.childForFieldName('name') ||
+          child.namedChildren.find(c => c.type !== 'comment' && c.type !== 'declaration_list' && c.type !== 'compound_statement')
+        if (name) moduleName = name.text.replace(/^package\s+/, '')
+        walk(child, className, inInterface)
+      } else if (spec.importTypes.includes(child.type)) {
+        for (const imp of parseImport(spec, child)) {
+          imports.push({ from_file: file_id, to_module: imp.module, imported_names: imp.names })
+        }
+      } else if (spec.classTypes.includes(child.type)) {
+        // Go type_spec covers aliases too; only structs and interfaces are classes
+        const goType = child.childForFieldName('type')?.type
+        if (language === 'go' && goType !== 'struct_type' && goType !== 'interface_type') continue
+
+        const name = declarationName(child)
+        if (!name) continue
+        const heritage = classHeritage(language, child)
+        classes.push({
+          class_id: codeId.component(relativePath, name),
+          name,
+          file_id,
+          class_type: detectClassType(relativePath, name),
+          parent_class: heritage.parent,
+          includes: heritage.includes,
+          language,
+          methods: [],
+        })
+        walk(child, name, /interface|trait/.test(child.type))
+      } else if (child.type === 'impl_item') {
+        // Rust: impl Trait for Type { ... } attaches methods and the trait to Type
+        const typeName = baseTypeName(child.childForFieldName('type')?.text || '')
+        const trait = child.childForFieldName('trait')
+        if (trait) findClass(typeName)?.includes?.push(baseTypeName(trait.text))
+        walk(child, typeName || className, false)
+      } else if (spec.functionTypes.includes(child.type)) {
+        addFunction(child, className, inInterface)
+      } else {
+        walk(child, className, inInterface)
+      }
+    }
+  }
+
+  walk(root, undefined, false)
+
+  return {
+    file_id,
+    path: relativePath,
+    moduleName,
+    language,
+    functions,
+    classes,
+    imports,
+  }
+}
+
+/**
+ * Parse a single file with its tree-sitter grammar
+ */
+export async function parseTreeSitterFile(filePath: string, content: string, projectPath: string): Promise<ParsedFile> {
+  const language = getTreeSitterLanguage(filePath)
+  if (!language) {
+    throw new Error(`No tree-sitter grammar for ${filePath}`)
+  }
+
+  const parser = await createParser(language)
+  const tree = parser.parse(content)
+  try {
+    return extractFile(language, tree.rootNode, path.relative(projectPath, filePath))
+  } finally {
+    // Trees and parsers live in the WASM heap
+    tree.delete()
+    parser.delete()
+  }
+}
+
+/**
+ * Parse every tree-sitter supported file in a project
+ */
+export async function parseTreeSitterProject(
+  projectPath: string,
+  options: ParserOptions = {}
+): Promise<ParsedFile[]> {
+  console.log(`[TreeSitterParser] Parsing project: ${projectPath}`)
+
+  const defaultPatterns = [
+    `**/*.{${TREE_SITTER_EXTENSIONS.map(ext => ext.substring(1)).join(',')}}`,
+  ]
+
+  const defaultExcludes = [
+    'node_modules/**',
+    'vendor/**',
+    'target/**',
+    'bin/**',
+    'obj/**',
+    'build/**',
+    'dist/**',
+    '.git/**',
+    '.gradle/**',
+    '.idea/**',
+    '**/*.pb.go',
+  ]
+
+  const includePatterns = options.includePatterns || defaultPatterns
+  const excludePatterns = options.excludePatterns || defaultExcludes
+
+  const files: string[] = []
+  for (const pattern of includePatterns) {
+    const matches = await glob(pattern, {
+      cwd: projectPath,
+      ignore: excludePatterns,
+      absolute: true,
+    })
+    files.push(...matches.filter(f => getTreeSitterLanguage(f)))
+  }
+
+  console.log(`[TreeSitterParser] Found ${files.length} source files`)
+  if (files.length === 0) return []
+
+  // One parser per language for the whole run
+  const parsers = new Map<Language, Parser>()
+  const parsedFiles: ParsedFile[] = []
+
+  try {
+    for (let i = 0; i < files.length; i++) {
+      const filePath = files[i]
+      const relativePath = path.relative(projectPath, filePath)
+      const language = getTreeSitterLanguage(filePath)!
+
+      if (options.onProgress) {
+        options.onProgress(relativePath, i + 1, files.length)
+      }
+
+      try {
+        let parser = parsers.get(language)
+        if (!parser) {
+          parser = await createParser(language)
+          parsers.set(language, parser)
+        }
+
+        const content = fs.readFileSync(filePath, 'utf-8')
+        const tree = parser.parse(content)
+        try {
+          parsedFiles.push(extractFile(language, tree.rootNode, relativePath))
+        } finally {
+          tree.delete()
+        }
+      } catch (err) {
+        console.error(`[TreeSitterParser] Failed to parse ${relativePath}:`, err)
+      }
+    }
+  } finally {
+    for (const parser of parsers.values()) parser.delete()
+  }
+
+  console.log(`[TreeSitterParser] Parsed ${parsedFiles.length} files`)
+  console.log(`[TreeSitterParser] Total functions: ${parsedFiles.reduce((sum, f) => sum + f.functions.length, 0)}`)
+  console.log(`[TreeSitterParser] Total classes: ${parsedFiles.reduce((sum, f) => sum + f.classes.length, 0)}`)
+
+  return parsedFiles
+}
@@ -2,12 +2,17 @@
  * Common types for all code parsers
  */
 
-export type ProjectType = 'typescript' | 'javascript' | 'ruby' | 'python' | 'unknown'
+export type ProjectType =
+  | 'typescript' | 'javascript' | 'ruby' | 'python'
+  | 'go' | 'rust' | 'java' | 'csharp' | 'kotlin' | 'php'
+  | 'unknown'
 
 export type Language =
   | 'ts' | 'tsx' | 'js' | 'jsx'  // TypeScript/JavaScript
   | 'rb' | 'erb'                  // Ruby
   | 'py'                          // Python
+  | 'go' | 'rs' | 'java' | 'cs'   // Tree-sitter: Go, Rust, Java, C#
+  | 'kt' | 'php'                  // Tree-sitter: Kotlin, PHP
 
 // Class/component types for better categorization
 export type ClassType =
@@ -383,7 +383,8 @@ export async function parseTypeScriptProjectRegex(
       ignore: excludePatterns,
       absolute: true,
     })
-    files.push(...matches)
+    // Custom include patterns may match other languages' files
+    files.push(...matches.filter(f => /\.(ts|tsx|js|jsx)$/.test(f)))
   }
 
   console.log(`[TypeScriptRegexParser] Found ${files.length} source files`)
@@ -5,6 +5,7 @@
 
 import { Pool, PoolConfig } from 'pg'
 import { dbId } from './id'
+import type { DbIntrospector, IntrospectOptions } from './db-introspector'
 
 export interface DbSchema {
   database: string
@@ -101,15 +102,24 @@ export function createPgPool(config: PoolConfig): Pool {
   return new Pool(config)
 }
 
+/**
+ * Create a DbIntrospector backed by a PostgreSQL pool
+ */
+export function createPgIntrospector(connectionString: string): DbIntrospector {
+  const pool = createPgPool({ connectionString })
+  return {
+    engine: 'postgres',
+    introspect: (options) => introspectDatabase(pool, options),
+    close: () => pool.end(),
+  }
+}
+
 /**
  * Introspect entire database schema
  */
 export async function introspectDatabase(
   pool: Pool,
-  options: {
-    includeSchemas?: string[] // Default: ['public']
-    excludeSchemas?: string[] // Default: ['information_schema', 'pg_catalog']
-  } = {}
+  options: IntrospectOptions = {} // Default: ['public'], excluding information_schema and pg_catalog
 ): Promise<DbSchema> {
   const includeSchemas = options.includeSchemas || ['public']
   const excludeSchemas = options.excludeSchemas || ['information_schema', 'pg_catalog', 'pg_toast']
@@ -0,0 +1,176 @@
+/**
+ * Background Re-embedding
+ *
+ * Rebuilds vector relations with the active embedding model after a model
+ * switch. One job per agent; progress is kept in memory and the finished
+ * model is recorded in vector_models. While a relation is being rebuilt its
+ * status is 'reembedding' and semantic search skips it.
+ *
+ * Team memory pools are shared files rather than relations; they are brought
+ * up to date once per team by reembedTeamMemories.
+ */
+
+import type { AgentDatabase } from '../cozo-db'
+import { escapeForCozo } from '../cozo-utils'
+import { setVectorModel, type VectorRelation } from '../cozo-schema-rag'
+import { rebuildMemoryVectors } from '../cozo-schema-memory'
+import { embedTexts, getEmbeddingProvider, vectorToBuffer } from './embeddings'
+import { loadEmbeddingConfig, embeddingSignature, type EmbeddingProviderName } from './embedding-providers'
+import { ensureVectorModels } from './vector-models'
+import { getStaleTeamMemories, updateTeamMemoryEmbeddings } from '../team-memory'
+
+const BATCH_SIZE = 32
+
+export interface ReembedJob {
+  agent_id: string
+  status: 'running' | 'completed' | 'failed'
+  relations: VectorRelation[]
+  target: { provider: EmbeddingProviderName; model: string; dimension: number }
+  progress: Partial<Record<VectorRelation, { done: number; total: number }>>
+  started_at: number
+  completed_at?: number
+  error?: string
+}
+
+// Source text for each vector relation
+const SOURCES: Record<VectorRelation, { key: string; query: string }> = {
+  msg_vec: { key: 'msg_id', query: '*messages{msg_id: id, text}' },
+  doc_chunk_vec: { key: 'chunk_id', query: '*doc_chunks{chunk_id: id, content: text}' },
+  memory_vec: { key: 'memory_id', query: '*memories{memory_id: id, content: text}' }
+}
+
+const jobs = new Map<string, ReembedJob>()
+const teamJobs = new Map<string, Promise<number>>()
+
+export function getReembedJob(agentId: string): ReembedJob | null {
+  return jobs.get(agentId) || null
+}
+
+/**
+ * Start re-embedding the given relations. Returns the running job if one is
+ * already in progress for the agent.
+ */
+export function startReembedJob(agentDb: AgentDatabase, agentId: string, relations: VectorRelation[]): ReembedJob {
+  const existing = jobs.get(agentId)
+  if (existing?.status === 'running') {
+    return existing
+  }
+
+  const provider = getEmbeddingProvider()
+  const job: ReembedJob = {
+    agent_id: agentId,
+    status: 'running',
+    relations,
+    target: { provider: provider.name, model: provider.model, dimension: provider.dimension },
+    progress: {},
+    started_at: Date.now()
+  }
+  jobs.set(agentId, job)
+
+  runReembedJob(agentDb, job).catch(error => {
+    console.error(`[Reembed] Job for ${agentId.substring(0, 8)} crashed:`, error)
+  })
+
+  return job
+}
+
+async function runReembedJob(agentDb: AgentDatabase, job: ReembedJob): Promise<void> {
+  console.log(`[Reembed] Agent ${job.agent_id.substring(0, 8)}: re-embedding ${job.relations.join(', ')} with ${job.target.model}`)
+  let current: VectorRelation | null = null
+
+  try {
+    for (const relation of job.relations) {
+      current = relation
+      await setVectorModel(agentDb, { relation, ...job.target, status: 'reembedding' })
+      await reembedRelation(agentDb, relation, job)
+      await setVectorModel(agentDb, { relation, ...job.target, status: 'ready' })
+    }
+    job.status = 'completed'
+    console.log(`[Reembed] Agent ${job.agent_id.substring(0, 8)}: done`)
+  } catch (error) {
+    job.status = 'failed'
+    job.error = error instanceof Error ? error.message : String(error)
+    console.error(`[Reembed] Agent ${job.agent_id.substring(0, 8)} failed on ${current}:`, error)
+    if (current) {
+      await setVectorModel(agentDb, { relation: current, ...job.target, status: 'failed' }).catch(() => {})
+    }
+  } finally {
+    job.completed_at = Date.now()
+  }
+
+  // The model was switched again while this job ran
+  if (job.status === 'completed' && embeddingSignature(loadEmbeddingConfig()) !== embeddingSignature(job.target)) {
+    await ensureVectorModels(agentDb, job.agent_id)
+  }
+}
+
+async function reembedRelation(agentDb: AgentDatabase, relation: VectorRelation, job: ReembedJob): Promise<void> {
+  const source = SOURCES[relation]
+
+  const countResult = await agentDb.run(`?[count(id)] := ${source.query}`)
+  const total = (countResult.rows?.[0]?.[0] as number) || 0
+  const progress = { done: 0, total }
+  job.progress[relation] = progress
+
+  // Old vectors are never kept next to new ones
+  if (relation === 'memory_vec') {
+    await rebuildMemoryVectors(agentDb, job.target.dimension)
+  } else {
+    await agentDb.run(`?[${source.key}, vec] := *${relation}{${source.key}, vec} :rm ${relation}`)
+  }
+
+  for (let offset = 0; offset < total; offset += BATCH_SIZE) {
+    const page = await agentDb.run(`
+      ?[id, text] := ${source.query}
+      :order id
+      :limit ${BATCH_SIZE}
+      :offset ${offset}
+    `)
+    const rows = page.rows
+      .map((row: unknown[]) => ({ id: row[0] as string, text: row[1] as string }))
+      .filter((row: { id: string; text: string }) => row.text && row.text.trim().length > 0)
+
+    if (rows.length > 0) {
+      const vectors = await embedTexts(rows.map((r: { text: string }) => r.text))
+      const values = rows.map((row: { id: string }, i: number) => relation === 'memory_vec'
+        ? `[${escapeForCozo(row.id)}, vec(${JSON.stringify(Array.from(vectors[i]))})]`
+        : `[${escapeForCozo(row.id)}, decode_base64('${vectorToBuffer(vectors[i]).toString('base64')}')]`
+      )
+      await agentDb.run(`?[${source.key}, vec] <- [${values.join(', ')}] :put ${relation}`)
+    }
+
+    progress.done = Math.min(offset + BATCH_SIZE, total)
+  }
+}
+
+/**
+ * Re-embed the memories of a team's pool built with another model. Returns
+ * the number of memories updated; joins the run already in progress for the
+ * team.
+ */
+export function reembedTeamMemories(teamId: string): Promise<number> {
+  const existing = teamJobs.get(teamId)
+  if (existing) return existing
+
+  const run = runTeamReembed(teamId).finally(() => teamJobs.delete(teamId))
+  teamJobs.set(teamId, run)
+  return run
+}
+
+async function runTeamReembed(teamId: string): Promise<number> {
+  const embeddingModel = embeddingSignature(loadEmbeddingConfig())
+  const stale = getStaleTeamMemories(teamId, embeddingModel)
+  if (stale.length === 0) return 0
+
+  console.log(`[Reembed] Team ${teamId.substring(0, 8)}: re-embedding ${stale.length} team memories with ${embeddingModel}`)
+  const embeddings = new Map<string, number[]>()
+  for (let offset = 0; offset < stale.length; offset += BATCH_SIZE) {
+    const batch = stale.slice(offset, offset + BATCH_SIZE)
+    const vectors = await embedTexts(batch.map(m => m.content))
+    batch.forEach((memory, i) => embeddings.set(memory.id, Array.from(vectors[i])))
+  }
+
+  // The model was switched again while embedding: leave the pool for the next run
+  if (embeddingSignature(loadEmbeddingConfig()) !== embeddingModel) return 0
+  return updateTeamMemoryEmbeddings(teamId, embeddings, embeddingModel)
+}
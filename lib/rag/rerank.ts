@@ -0,0 +1,212 @@
+/**
+ * Search Reranking
+ * Second stage for hybridSearch: re-scores the top fused candidates with
+ * the full message text.
+ *
+ * Rerankers:
+ * - bm25: Okapi BM25 over the candidate set, with camelCase/snake_case
+ *   identifiers split into parts and a boost for exact code symbol matches
+ * - cross-encoder: local ms-marco cross-encoder through @huggingface/transformers
+ *   (downloaded on first use, like the embedding model)
+ */
+
+export type RerankerName = 'none' | 'bm25' | 'cross-encoder'
+
+export const RERANKERS: RerankerName[] = ['none', 'bm25', 'cross-encoder']
+
+export interface RerankCandidate {
+  id: string
+  text: string
+}
+
+export interface RerankResult {
+  id: string
+  score: number
+  matched_symbols?: string[]
+}
+
+export interface Reranker {
+  name: Exclude<RerankerName, 'none'>
+  /** Scores every candidate; the order of the result is not significant */
+  rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult[]>
+}
+
+export interface Bm25Options {
+  k1?: number // Term frequency saturation (default: 1.2)
+  b?: number // Length normalization (default: 0.75)
+  symbolBoost?: number // Added per exact code symbol match (default: 0.5)
+}
+
+export const DEFAULT_CROSS_ENCODER_MODEL = 'Xenova/ms-marco-MiniLM-L-6-v2'
+
+/**
+ * Code identifiers in a query: anything with an inner capital, underscore,
+ * dot/:: path or call parentheses (getUserById, user_id, fs.readFile, Foo::bar, init())
+ */
+export function extractQuerySymbols(query: string): string[] {
+  const symbols = new Set<string>()
+  const pattern = /[A-Za-z_$][\w$]*(?:(?:\.|::)[A-Za-z_$][\w$]*)*(\(\))?/g
+
+  for (const match of query.matchAll(pattern)) {
+    const symbol = match[0].replace(/\(\)$/, '')
+    const isCall = Boolean(match[1])
+    if (isCall || /[a-z0-9][A-Z]|_|\.|::/.test(symbol.replace(/^_+/, ''))) {
+      symbols.add(symbol)
+    }
+  }
+
+  return [...symbols]
+}
+
+/**
+ * Lowercased tokens; identifiers also contribute their camelCase / snake_case parts
+ * so "getUserById" matches a query for "user id"
+ */
+export function tokenizeForRanking(text: string): string[] {
+  const tokens: string[] = []
+
+  for (const word of text.match(/[A-Za-z0-9_$]+/g) || []) {
+    const lower = word.toLowerCase()
+    tokens.push(lower)
+
+    const parts = word
+      .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+      .replace(/([A-Z]+)([A-Z][a-z])/g, '$1 $2')
+      .split(/[\s_$]+/)
+      .map(p => p.toLowerCase())
+      .filter(p => p.length > 0)
+    if (parts.length > 1) tokens.push(...parts)
+  }
+
+  return tokens
+}
+
+function escapeRegex(value: string): string {
+  return value.replace(/[.*+?^${}()|[\]\\]/g, '\\$&')
+}
+
+/**
+ * BM25 reranker with a code symbol boost. Document frequencies come from the
+ * candidate set itself, so scores are only comparable within one query.
+ */
+export class Bm25Reranker implements Reranker {
+  name = 'bm25' as const
+  private k1: number
+  private b: number
+  private symbolBoost: number
+
+  constructor(options: Bm25Options = {}) {
+    this.k1 = options.k1 ?? 1.2
+    this.b = options.b ?? 0.75
+    this.symbolBoost = options.symbolBoost ?? 0.5
+  }
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult[]> {
+    if (candidates.length === 0) return []
+
+    const queryTokens = Array.from(new Set(tokenizeForRanking(query)))
+    const symbols = extractQuerySymbols(query)
+
+    const docs = candidates.map(c => {
+      const freq = new Map<string, number>()
+      const tokens = tokenizeForRanking(c.text)
+      for (const token of tokens) freq.set(token, (freq.get(token) || 0) + 1)
+      return { id: c.id, text: c.text, freq, length: tokens.length }
+    })
+
+    const avgLength = docs.reduce((sum, d) => sum + d.length, 0) / docs.length || 1
+    const docFreq = new Map<string, number>()
+    for (const token of queryTokens) {
+      docFreq.set(token, docs.filter(d => d.freq.has(token)).length)
+    }
+
+    const raw = docs.map(doc => {
+      let score = 0
+      for (const token of queryTokens) {
+        const tf = doc.freq.get(token) || 0
+        if (tf === 0) continue
+        const df = docFreq.get(token) || 0
+        const idf = Math.log(1 + (docs.length - df + 0.5) / (df + 0.5))
+        score += idf * (tf * (this.k1 + 1)) / (tf + this.k1 * (1 - this.b + this.b * doc.length / avgLength))
+      }
+
+      // Exact, case-sensitive identifier matches (not inside a longer identifier)
+      const matched = symbols.filter(symbol =>
+        new RegExp(`(^|[^\\w$])${escapeRegex(symbol)}(?![\\w$])`).test(doc.text)
+      )
+
+      return { id: doc.id, bm25: score, matched }
+    })
+
+    // Normalize BM25 to [0, 1] so the symbol boost has a fixed weight
+    const maxBm25 = Math.max(...raw.map(r => r.bm25)) || 1
+
+    return raw.map(r => ({
+      id: r.id,
+      score: r.bm25 / maxBm25 + this.symbolBoost * r.matched.length,
+      matched_symbols: r.matched,
+    }))
+  }
+}
+
+let crossEncoder: { tokenizer: any; model: any } | null = null
+let crossEncoderPromise: Promise<{ tokenizer: any; model: any }> | null = null
+
+async function getCrossEncoder(modelName: string): Promise<{ tokenizer: any; model: any }> {
+  if (crossEncoder) return crossEncoder
+  if (crossEncoderPromise) return crossEncoderPromise
+
+  crossEncoderPromise = (async () => {
+    console.log('[Rerank] Loading cross-encoder:', modelName)
+    const { AutoTokenizer, AutoModelForSequenceClassification } = await import('@huggingface/transformers')
+    const tokenizer = await AutoTokenizer.from_pretrained(modelName)
+    const model = await AutoModelForSequenceClassification.from_pretrained(modelName, { dtype: 'q8' })
+    crossEncoder = { tokenizer, model }
+    return crossEncoder
+  })().catch((err) => {
+    // Let the next query retry instead of caching the failure
+    crossEncoderPromise = null
+    throw err
+  })
+
+  return crossEncoderPromise
+}
+
+/**
+ * Local cross-encoder: scores each (query, message) pair jointly
+ */
+export class CrossEncoderReranker implements Reranker {
+  name = 'cross-encoder' as const
+
+  constructor(private modelName = DEFAULT_CROSS_ENCODER_MODEL) {}
+
+  async rerank(query: string, candidates: RerankCandidate[]): Promise<RerankResult[]> {
+    if (candidates.length === 0) return []
+
+    const { tokenizer, model } = await getCrossEncoder(this.modelName)
+    const inputs = tokenizer(new Array(candidates.length).fill(query), {
+      text_pair: candidates.map(c => c.text),
+      padding: true,
+      truncation: true,
+    })
+    const { logits } = await model(inputs)
+    const rows = logits.tolist() as number[][]
+
+    // Sigmoid keeps scores in [0, 1] like the other signals in explain output
+    return candidates.map((c, i) => ({ id: c.id, score: 1 / (1 + Math.exp(-rows[i][0])) }))
+  }
+}
+
+/**
+ * Reranker for a name, or null for "none"
+ */
+export function createReranker(name: RerankerName): Reranker | null {
+  switch (name) {
+    case 'bm25':
+      return new Bm25Reranker()
+    case 'cross-encoder':
+      return new CrossEncoderReranker()
+    default:
+      return null
+  }
+}
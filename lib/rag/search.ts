@@ -6,7 +6,8 @@
  * 1. Term search in CozoDB (per-agent, portable)
  * 2. Embedding similarity search (semantic understanding)
  * 3. Merge results using RRF (Reciprocal Rank Fusion)
- * 4. Filter by keywords/symbols/time range
+ * 4. Optionally rerank the top candidates (BM25 + symbol boost or cross-encoder, see ./rerank)
+ * 5. Filter by keywords/symbols/time range
  *
  * Note: Global BM25 was removed - terms are stored per-agent in CozoDB
  */
@@ -14,7 +15,9 @@
 import { AgentDatabase } from '@/lib/cozo-db'
 import { getMessageVectors, getMessagesByIds, searchMessagesByTerm, searchMessagesBySymbol } from '@/lib/cozo-schema-rag'
 import { embedTexts, bufferToVector, cosine } from './embeddings'
+import { isVectorRelationCurrent } from './vector-models'
 import { extractTerms } from './keywords'
+import { createReranker, type RerankerName } from './rerank'
 
 export interface SearchResult {
   msg_id: string
@@ -24,6 +27,26 @@ export interface SearchResult {
   ts: number
   text: string
   matchType: 'lexical' | 'semantic' | 'hybrid'
+  explain?: SearchExplanation
+}
+
+/**
+ * Why a hybrid result ranked where it did (returned with the explain option).
+ * Ranks are 1-based; null means the message was not in that list.
+ */
+export interface SearchExplanation {
+  lexical_score: number // Fraction of query terms the message contains
+  lexical_rank: number | null
+  vector_score: number | null // Cosine similarity to the query embedding
+  vector_rank: number | null
+  fused_score: number
+  fused_rank: number
+  fusion: 'rrf' | 'weighted'
+  matched_terms: string[]
+  reranker: RerankerName
+  rerank_score: number | null
+  matched_symbols: string[]
+  final_rank: number
 }
 
 export interface SearchOptions {
@@ -36,6 +59,9 @@ export interface SearchOptions {
   roleFilter?: 'user' | 'assistant' | 'system' // Filter by message role
   conversationFile?: string // Filter by specific conversation file path
   timeRange?: { start: number; end: number } // Filter by timestamp range
+  rerank?: RerankerName // Second-stage reranker (default: none)
+  rerankDepth?: number // Fused candidates passed to the reranker (default: 50)
+  explain?: boolean // Attach a SearchExplanation to each result (default: false)
   // Legacy alias for backwards compatibility
   bm25Weight?: number
 }
@@ -50,6 +76,9 @@ const DEFAULT_OPTIONS: Required<Omit<SearchOptions, 'bm25Weight'>> = {
   roleFilter: undefined as any,
   conversationFile: undefined as any,
   timeRange: undefined as any,
+  rerank: 'none',
+  rerankDepth: 50,
+  explain: false,
 }
 
 /**
@@ -107,7 +136,9 @@ export async function hybridSearch(
 ): Promise<SearchResult[]> {
   // Handle legacy bm25Weight option
   const lexicalWeight = options.lexicalWeight ?? options.bm25Weight ?? DEFAULT_OPTIONS.lexicalWeight
-  const opts = { ...DEFAULT_OPTIONS, ...options, lexicalWeight }
+  // An option passed as undefined keeps its default
+  const given = Object.fromEntries(Object.entries(options).filter(([, value]) => value !== undefined))
+  const opts = { ...DEFAULT_OPTIONS, ...given, lexicalWeight }
 
   console.log(`[Search] Query: "${query}"`)
   console.log(`[Search] Options:`, opts)
@@ -123,15 +154,16 @@ export async function hybridSearch(
   const queryTerms = extractTerms(query)
   console.log(`[Search] Extracted ${queryTerms.length} terms from query`)
 
-  // Search for each term and collect results with frequency scoring
-  const termResults = new Map<string, number>() // msg_id -> count of matching terms
+  // Search for each term and collect the terms each message matched
+  const termResults = new Map<string, string[]>() // msg_id -> matching terms
 
   for (const term of queryTerms) {
     try {
       const matches = await searchMessagesByTerm(agentDb, term.toLowerCase())
       for (const match of matches) {
-        const count = termResults.get(match.msg_id) || 0
-        termResults.set(match.msg_id, count + 1)
+        const matched = termResults.get(match.msg_id) || []
+        if (!matched.includes(term)) matched.push(term)
+        termResults.set(match.msg_id, matched)
       }
     } catch (e) {
       // Term not found is not an error
@@ -140,7 +172,7 @@ export async function hybridSearch(
 
   // Sort by number of matching terms (more matches = higher score)
   const lexicalResults = Array.from(termResults.entries())
-    .map(([id, count]) => ({ id, score: count / queryTerms.length }))
+    .map(([id, terms]) => ({ id, score: terms.length / queryTerms.length }))
     .sort((a, b) => b.score - a.score)
     .slice(0, 100)
 
@@ -155,8 +187,8 @@ export async function hybridSearch(
   // Generate query embedding
   const [queryEmbedding] = await embedTexts([query])
 
-  // Get all message vectors from CozoDB
-  const allVectors = await getMessageVectors(agentDb)
+  // Get all message vectors from CozoDB (none while they are being re-embedded)
+  const allVectors = await isVectorRelationCurrent(agentDb, 'msg_vec') ? await getMessageVectors(agentDb) : []
   console.log(`[Search] Comparing against ${allVectors.length} message vectors`)
 
   // Compute cosine similarity for all vectors
@@ -206,18 +238,38 @@ export async function hybridSearch(
   // ============================================================================
   // 5. Fetch Message Content
   // ============================================================================
-  const topIds = filteredResults.slice(0, opts.limit * 2).map((r) => r.id) // Fetch 2x limit (before role/time filtering)
+  // Fetch 2x limit (before role/time filtering), or every candidate the reranker sees
+  const reranker = createReranker(opts.rerank)
+  const fetchCount = reranker ? Math.max(opts.limit * 2, opts.rerankDepth) : opts.limit * 2
+  const topIds = filteredResults.slice(0, fetchCount).map((r) => r.id)
   const messages = await getMessagesByIds(agentDb, topIds)
 
-  // Create lookup map for scores
+  // Lookup maps for scores and ranks
   const scoreMap = new Map(mergedResults.map((r) => [r.id, r.score]))
+  const fusedRankMap = new Map(mergedResults.map((r, i) => [r.id, i + 1]))
+
+  // ============================================================================
+  // 6. Rerank
+  // ============================================================================
+  const rerankScores = new Map<string, { score: number; matched_symbols?: string[] }>()
+
+  if (reranker) {
+    const candidates = messages
+      .filter((msg) => (fusedRankMap.get(msg.msg_id) || Infinity) <= opts.rerankDepth)
+      .map((msg) => ({ id: msg.msg_id, text: msg.text }))
+    console.log(`[Search] Reranking ${candidates.length} candidates with ${reranker.name}...`)
+
+    for (const result of await reranker.rerank(query, candidates)) {
+      rerankScores.set(result.id, result)
+    }
+  }
 
   // ============================================================================
-  // 6. Apply Role and Time Filters
+  // 7. Apply Role and Time Filters
   // ============================================================================
   let finalResults: SearchResult[] = messages.map((msg) => ({
     msg_id: msg.msg_id,
-    score: scoreMap.get(msg.msg_id) || 0,
+    score: rerankScores.get(msg.msg_id)?.score ?? scoreMap.get(msg.msg_id) ?? 0,
     conversation_file: msg.conversation_file,
     role: msg.role,
     ts: msg.ts,
@@ -229,6 +281,17 @@ export async function hybridSearch(
       : 'semantic') as 'lexical' | 'semantic' | 'hybrid',
   }))
 
+  // Reranked candidates first (by rerank score), then the rest in fused order
+  const fusedRank = (id: string) => fusedRankMap.get(id) || Infinity
+  finalResults.sort((a, b) => {
+    const ra = rerankScores.get(a.msg_id)
+    const rb = rerankScores.get(b.msg_id)
+    if (ra && rb && ra.score !== rb.score) return rb.score - ra.score
+    if (ra && !rb) return -1
+    if (rb && !ra) return 1
+    return fusedRank(a.msg_id) - fusedRank(b.msg_id)
+  })
+
   // Role filter
   if (opts.roleFilter) {
     finalResults = finalResults.filter((r) => r.role === opts.roleFilter)
@@ -250,10 +313,35 @@ export async function hybridSearch(
   }
 
   // ============================================================================
-  // 7. Return Top-K Results
+  // 8. Return Top-K Results
   // ============================================================================
   const topK = finalResults.slice(0, opts.limit)
 
+  if (opts.explain) {
+    const lexicalRankMap = new Map(lexicalResults.map((r, i) => [r.id, i + 1]))
+    const vectorScoreMap = new Map(semanticScores.map((r) => [r.id, r.score]))
+    const vectorRankMap = new Map(semanticScores.slice(0, 100).map((r, i) => [r.id, i + 1]))
+
+    topK.forEach((result, i) => {
+      const matchedTerms = termResults.get(result.msg_id) || []
+      const rerank = rerankScores.get(result.msg_id)
+      result.explain = {
+        lexical_score: queryTerms.length > 0 ? matchedTerms.length / queryTerms.length : 0,
+        lexical_rank: lexicalRankMap.get(result.msg_id) ?? null,
+        vector_score: vectorScoreMap.get(result.msg_id) ?? null,
+        vector_rank: vectorRankMap.get(result.msg_id) ?? null,
+        fused_score: scoreMap.get(result.msg_id) ?? 0,
+        fused_rank: fusedRankMap.get(result.msg_id) ?? 0,
+        fusion: opts.useRrf ? 'rrf' : 'weighted',
+        matched_terms: matchedTerms,
+        reranker: opts.rerank,
+        rerank_score: rerank?.score ?? null,
+        matched_symbols: rerank?.matched_symbols || [],
+        final_rank: i + 1,
+      }
+    })
+  }
+
   const durationMs = Date.now() - startTime
   console.log(`[Search] ✅ Returned ${topK.length} results in ${durationMs}ms`)
 
@@ -348,8 +436,8 @@ export async function semanticSearch(
   // Generate query embedding
   const [queryEmbedding] = await embedTexts([query])
 
-  // Get all message vectors
-  const allVectors = await getMessageVectors(agentDb)
+  // Get all message vectors (none while they are being re-embedded)
+  const allVectors = await isVectorRelationCurrent(agentDb, 'msg_vec') ? await getMessageVectors(agentDb) : []
 
   // Compute similarities
   const scores: Array<{ id: string; score: number }> = []
@@ -0,0 +1,249 @@
+/**
+ * SQLite Schema Introspector
+ * Reads sqlite_master and the PRAGMA table functions of a database file.
+ * Uses sql.js (WASM), so no native driver is needed and the file is read into
+ * memory - the original database is never written to.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import type { Database, SqlValue } from 'sql.js'
+import { dbId } from './id'
+import type { DbIntrospector } from './db-introspector'
+import type {
+  DbSchema,
+  TableInfo,
+  ColumnInfo,
+  IndexInfo,
+  ConstraintInfo,
+  ForeignKeyInfo,
+  ViewInfo,
+} from './pg-introspector'
+
+/** SQLite has a single schema per database file (attached databases are not read) */
+export const SQLITE_SCHEMA = 'main'
+
+type Row = Record<string, SqlValue>
+
+/**
+ * Create a DbIntrospector for a SQLite database file
+ */
+export async function createSqliteIntrospector(filePath: string): Promise<DbIntrospector> {
+  const { default: initSqlJs } = await import('sql.js')
+  const SQL = await initSqlJs()
+  const db = new SQL.Database(fs.readFileSync(filePath))
+  const database = path.basename(filePath, path.extname(filePath))
+
+  return {
+    engine: 'sqlite',
+    introspect: async () => introspectSqliteDatabase(db, database),
+    close: async () => db.close(),
+  }
+}
+
+/**
+ * Introspect an open SQLite database
+ */
+export function introspectSqliteDatabase(db: Database, database: string): DbSchema {
+  console.log(`[SQLite Introspector] Starting introspection of ${database}...`)
+
+  const schemaId = dbId.schema(database, SQLITE_SCHEMA)
+
+  const tables = query(db, `
+    SELECT name, sql FROM sqlite_master
+    WHERE type = 'table' AND name NOT LIKE 'sqlite_%'
+    ORDER BY name
+  `).map(row => introspectTable(db, schemaId, String(row.name), String(row.sql || '')))
+
+  const views: ViewInfo[] = query(db, `
+    SELECT name, sql FROM sqlite_master WHERE type = 'view' ORDER BY name
+  `).map(row => ({
+    view_id: dbId.view(schemaId, String(row.name)),
+    view_name: String(row.name),
+    schema_name: SQLITE_SCHEMA,
+    definition: String(row.sql || ''),
+    depends_on: [],
+  }))
+
+  console.log(`[SQLite Introspector]   Found ${tables.length} tables, ${views.length} views`)
+
+  return {
+    database,
+    schemas: [{
+      schema_id: schemaId,
+      schema_name: SQLITE_SCHEMA,
+      tables,
+      views,
+      enums: [],
+      procedures: [],
+    }],
+  }
+}
+
+function introspectTable(db: Database, schemaId: string, tableName: string, createSql: string): TableInfo {
+  const tableId = dbId.table(schemaId, tableName)
+  const columnRows = query(db, `SELECT * FROM pragma_table_info(?) ORDER BY cid`, [tableName])
+
+  const columns: ColumnInfo[] = columnRows.map(row => {
+    const declared = String(row.type || '').toLowerCase()
+    return {
+      column_id: dbId.column(tableId, String(row.name)),
+      column_name: String(row.name),
+      table_id: tableId,
+      data_type: declared || 'blob',
+      udt_name: columnAffinity(declared),
+      is_nullable: Number(row.notnull) === 0 && Number(row.pk) === 0,
+      column_default: row.dflt_value === null ? null : String(row.dflt_value),
+      ordinal_position: Number(row.cid) + 1,
+    }
+  })
+
+  const primaryKey = columnRows
+    .filter(row => Number(row.pk) > 0)
+    .sort((a, b) => Number(a.pk) - Number(b.pk))
+    .map(row => String(row.name))
+
+  const indexRows = query(db, `SELECT * FROM pragma_index_list(?)`, [tableName])
+  const indexes: IndexInfo[] = indexRows.map(row => ({
+    index_id: dbId.index(tableId, String(row.name)),
+    index_name: String(row.name),
+    table_id: tableId,
+    is_unique: Number(row.unique) === 1,
+    is_primary: row.origin === 'pk',
+    index_type: 'btree',
+    // Expression indexes report a NULL column name
+    columns: query(db, `SELECT name FROM pragma_index_info(?) ORDER BY seqno`, [String(row.name)])
+      .flatMap(col => (col.name === null ? [] : [String(col.name)])),
+  }))
+
+  const constraints: ConstraintInfo[] = []
+  if (primaryKey.length > 0) {
+    const name = `${tableName}_pkey`
+    constraints.push({
+      constraint_id: dbId.constraint(tableId, name),
+      constraint_name: name,
+      table_id: tableId,
+      constraint_type: 'PRIMARY KEY',
+      definition: `PRIMARY KEY (${primaryKey.join(', ')})`,
+    })
+  }
+  // origin 'u' marks the automatic index behind a UNIQUE table constraint
+  indexes.forEach((index, i) => {
+    if (indexRows[i].origin === 'u') {
+      constraints.push({
+        constraint_id: dbId.constraint(tableId, index.index_name),
+        constraint_name: index.index_name,
+        table_id: tableId,
+        constraint_type: 'UNIQUE',
+        definition: `UNIQUE (${index.columns.join(', ')})`,
+      })
+    }
+  })
+  extractCheckConstraints(createSql).forEach((check, i) => {
+    const name = check.name || `${tableName}_check${i + 1}`
+    constraints.push({
+      constraint_id: dbId.constraint(tableId, name),
+      constraint_name: name,
+      table_id: tableId,
+      constraint_type: 'CHECK',
+      definition: `CHECK (${check.expression})`,
+    })
+  })
+
+  // One row per column; composite keys share an id
+  const fkRows = query(db, `SELECT * FROM pragma_foreign_key_list(?) ORDER BY id, seq`, [tableName])
+  const fkNames = new Map<number, string>()
+  for (const row of fkRows) {
+    if (!fkNames.has(Number(row.id))) fkNames.set(Number(row.id), `${tableName}_${row.from}_fkey`)
+  }
+  const foreign_keys: ForeignKeyInfo[] = fkRows.map(row => {
+    const toTable = String(row.table)
+    const fromColumn = String(row.from)
+    // A missing "to" column means the parent's primary key
+    const toColumn = row.to === null
+      ? primaryKeyColumns(db, toTable)[Number(row.seq)] || 'rowid'
+      : String(row.to)
+    const name = fkNames.get(Number(row.id))!
+
+    return {
+      fk_id: `fk:${SQLITE_SCHEMA}.${tableName}.${name}`,
+      fk_name: name,
+      from_table: `${SQLITE_SCHEMA}.${tableName}`,
+      from_column: fromColumn,
+      to_table: `${SQLITE_SCHEMA}.${toTable}`,
+      to_column: toColumn,
+      on_delete: String(row.on_delete),
+      on_update: String(row.on_update),
+    }
+  })
+
+  return {
+    table_id: tableId,
+    table_name: tableName,
+    schema_name: SQLITE_SCHEMA,
+    columns,
+    indexes,
+    constraints,
+    foreign_keys,
+  }
+}
+
+function primaryKeyColumns(db: Database, tableName: string): string[] {
+  return query(db, `SELECT name, pk FROM pragma_table_info(?) WHERE pk > 0 ORDER BY pk`, [tableName])
+    .map(row => String(row.name))
+}
+
+/**
+ * Column type affinity, following https://www.sqlite.org/datatype3.html#determination_of_column_affinity
+ */
+export function columnAffinity(declaredType: string): string {
+  const type = declaredType.toUpperCase()
+  if (type.includes('INT')) return 'integer'
+  if (/CHAR|CLOB|TEXT/.test(type)) return 'text'
+  if (type === '' || type.includes('BLOB')) return 'blob'
+  if (/REAL|FLOA|DOUB/.test(type)) return 'real'
+  return 'numeric'
+}
+
+/**
+ * Pull CHECK constraints out of a CREATE TABLE statement - SQLite has no
+ * catalog for them. Parentheses are balanced so nested calls are kept intact.
+ */
+export function extractCheckConstraints(createSql: string): Array<{ name: string | null; expression: string }> {
+  const checks: Array<{ name: string | null; expression: string }> = []
+  const pattern = /(?:\bCONSTRAINT\s+["`[]?(\w+)["`\]]?\s+)?\bCHECK\s*\(/gi
+  let match: RegExpExecArray | null
+
+  while ((match = pattern.exec(createSql)) !== null) {
+    const start = pattern.lastIndex
+    let depth = 1
+    let i = start
+    let quote: string | null = null
+
+    for (; i < createSql.length && depth > 0; i++) {
+      const ch = createSql[i]
+      if (quote) {
+        if (ch === quote) quote = null
+      } else if (ch === "'" || ch === '"') {
+        quote = ch
+      } else if (ch === '(') {
+        depth++
+      } else if (ch === ')') {
+        depth--
+      }
+    }
+
+    checks.push({ name: match[1] || null, expression: createSql.slice(start, i - 1).trim() })
+    pattern.lastIndex = i
+  }
+
+  return checks
+}
+
+function query(db: Database, sql: string, params: SqlValue[] = []): Row[] {
+  const results = db.exec(sql, params)
+  if (results.length === 0) return []
+
+  const { columns, values } = results[0]
+  return values.map(row => Object.fromEntries(columns.map((column, i) => [column, row[i]])))
+}
@@ -0,0 +1,141 @@
+/**
+ * Vector Model Tracking
+ *
+ * Every vector relation records the embedding provider, model and dimension
+ * it was built with (vector_models table). Semantic search only compares a
+ * query against a relation built with the active model; a relation built with
+ * another model is re-embedded in the background by ./reembed.
+ */
+
+import type { AgentDatabase } from '../cozo-db'
+import {
+  getVectorModels,
+  setVectorModel,
+  type VectorModelRecord,
+  type VectorRelation
+} from '../cozo-schema-rag'
+import {
+  loadEmbeddingConfig,
+  embeddingSignature,
+  DEFAULT_EMBEDDING_CONFIG
+} from './embedding-providers'
+import { getTeamsForAgent, getStaleTeamMemories } from '../team-memory'
+
+export const VECTOR_RELATIONS: VectorRelation[] = ['msg_vec', 'doc_chunk_vec', 'memory_vec']
+
+const KEY_COLUMNS: Record<VectorRelation, string> = {
+  msg_vec: 'msg_id',
+  doc_chunk_vec: 'chunk_id',
+  memory_vec: 'memory_id'
+}
+
+type ModelIdentity = { provider: string; model: string; dimension: number }
+
+/**
+ * Model a relation's vectors were built with. Vectors written before models
+ * were tracked came from the default local model.
+ */
+export function effectiveVectorModel(record: VectorModelRecord | undefined): ModelIdentity & { status: string } {
+  if (record) return record
+  const { provider, model, dimension } = DEFAULT_EMBEDDING_CONFIG
+  return { provider, model, dimension, status: 'ready' }
+}
+
+export function isVectorModelCurrent(record: VectorModelRecord | undefined, config: ModelIdentity): boolean {
+  const effective = effectiveVectorModel(record)
+  return effective.status === 'ready' && embeddingSignature(effective) === embeddingSignature(config)
+}
+
+/**
+ * Decide which relations only need the active model recorded and which must
+ * be re-embedded. memory_vec has a fixed-size column, so even an empty one is
+ * rebuilt when the dimension changes.
+ */
+export function planVectorModelSync(
+  records: VectorModelRecord[],
+  counts: Record<VectorRelation, number>,
+  config: ModelIdentity
+): { stamp: VectorRelation[]; reembed: VectorRelation[] } {
+  const plan: { stamp: VectorRelation[]; reembed: VectorRelation[] } = { stamp: [], reembed: [] }
+
+  for (const relation of VECTOR_RELATIONS) {
+    const record = records.find(r => r.relation === relation)
+    const current = isVectorModelCurrent(record, config)
+
+    if (counts[relation] > 0) {
+      if (!current) plan.reembed.push(relation)
+      else if (!record) plan.stamp.push(relation)
+    } else if (relation === 'memory_vec' && effectiveVectorModel(record).dimension !== config.dimension) {
+      plan.reembed.push(relation)
+    } else if (!record || !current) {
+      plan.stamp.push(relation)
+    }
+  }
+
+  return plan
+}
+
+/**
+ * Whether a relation's vectors can be compared with vectors from the active model
+ */
+export async function isVectorRelationCurrent(agentDb: AgentDatabase, relation: VectorRelation): Promise<boolean> {
+  try {
+    const records = await getVectorModels(agentDb)
+    return isVectorModelCurrent(records.find(r => r.relation === relation), loadEmbeddingConfig())
+  } catch {
+    // vector_models missing (schema not migrated): keep the old behaviour
+    return true
+  }
+}
+
+/**
+ * Bring an agent database in line with the active embedding model, starting
+ * a background re-embed job for relations built with another model.
+ */
+export async function ensureVectorModels(
+  agentDb: AgentDatabase,
+  agentId: string
+): Promise<{ stamp: VectorRelation[]; reembed: VectorRelation[] }> {
+  const config = loadEmbeddingConfig()
+  const records = await getVectorModels(agentDb)
+
+  const counts = {} as Record<VectorRelation, number>
+  for (const relation of VECTOR_RELATIONS) {
+    const key = KEY_COLUMNS[relation]
+    const result = await agentDb.run(`?[count(${key})] := *${relation}{${key}}`)
+    counts[relation] = (result.rows?.[0]?.[0] as number) || 0
+  }
+
+  const plan = planVectorModelSync(records, counts, config)
+
+  for (const relation of plan.stamp) {
+    await setVectorModel(agentDb, {
+      relation,
+      provider: config.provider,
+      model: config.model,
+      dimension: config.dimension,
+      status: 'ready'
+    })
+  }
+
+  if (plan.reembed.length > 0) {
+    console.log(`[Embeddings] Agent ${agentId.substring(0, 8)}: ${plan.reembed.join(', ')} built with another model, re-embedding`)
+    // Loaded lazily: the re-embed job pulls in the embedding model
+    const { startReembedJob } = await import('./reembed')
+    startReembedJob(agentDb, agentId, plan.reembed)
+  }
+
+  // Team pools are shared, so whichever member opens first re-embeds them
+  const signature = embeddingSignature(config)
+  const staleTeams = getTeamsForAgent(agentId).filter(team => getStaleTeamMemories(team.id, signature).length > 0)
+  if (staleTeams.length > 0) {
+    const { reembedTeamMemories } = await import('./reembed')
+    for (const team of staleTeams) {
+      reembedTeamMemories(team.id).catch(error => {
+        console.error(`[Reembed] Team ${team.id.substring(0, 8)} failed:`, error)
+      })
+    }
+  }
+
+  return plan
+}
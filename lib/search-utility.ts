@@ -15,6 +15,7 @@ import {
   searchBySymbol,
   type SearchResult
 } from './rag/search'
+import type { RerankerName } from './rag/rerank'
 
 /**
  * Search Options for searchMessages
@@ -30,6 +31,8 @@ export interface SearchMessagesOptions {
   startTs?: number
   endTs?: number
   mode?: 'hybrid' | 'semantic' | 'term' | 'symbol'
+  rerank?: RerankerName // Hybrid mode only
+  explain?: boolean // Hybrid mode only
 }
 
 /**
@@ -75,7 +78,9 @@ export async function searchMessages(
     roleFilter,
     conversationFile,
     startTs,
-    endTs
+    endTs,
+    rerank,
+    explain
   } = options
 
   const searchOpts: Parameters<typeof hybridSearch>[2] = {
@@ -86,7 +91,9 @@ export async function searchMessages(
     semanticWeight,
     roleFilter,
     conversationFile,
-    timeRange: startTs && endTs ? { start: startTs, end: endTs } : undefined
+    timeRange: startTs && endTs ? { start: startTs, end: endTs } : undefined,
+    rerank,
+    explain
   }
 
   // Delegate to appropriate search function based on mode
@@ -0,0 +1,209 @@
+/**
+ * Task Activity - Append-only activity log, comments and attachments for team tasks
+ *
+ * Storage:
+ *   ~/.aimaestro/teams/task-activity-{teamId}.json   (one log per team)
+ *   ~/.aimaestro/teams/attachments-{teamId}/{taskId}/{attachmentId}   (raw bytes)
+ *
+ * Entries are only ever appended. Deleting a task leaves its history in place so
+ * the log stays a faithful record of who did what.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { v4 as uuidv4 } from 'uuid'
+import type {
+  Task,
+  TaskActivity,
+  TaskActivityFile,
+  TaskActor,
+  TaskAttachment,
+  TaskCommentThread,
+} from '@/types/task'
+
+const TEAMS_DIR = path.join(os.homedir(), '.aimaestro', 'teams')
+
+export const MAX_COMMENT_LENGTH = 10_000
+export const MAX_ATTACHMENT_BYTES = 10 * 1024 * 1024 // 10 MB
+
+type NewActivity = Omit<TaskActivity, 'id' | 'teamId' | 'taskId' | 'timestamp' | 'actor'>
+
+function activityFilePath(teamId: string): string {
+  return path.join(TEAMS_DIR, `task-activity-${teamId}.json`)
+}
+
+function attachmentsDir(teamId: string, taskId: string): string {
+  return path.join(TEAMS_DIR, `attachments-${teamId}`, taskId)
+}
+
+export function loadActivity(teamId: string): TaskActivity[] {
+  try {
+    const filePath = activityFilePath(teamId)
+    if (!fs.existsSync(filePath)) {
+      return []
+    }
+    const parsed: TaskActivityFile = JSON.parse(fs.readFileSync(filePath, 'utf-8'))
+    return Array.isArray(parsed.entries) ? parsed.entries : []
+  } catch (error) {
+    console.error(`Failed to load task activity for team ${teamId}:`, error)
+    return []
+  }
+}
+
+function appendActivity(teamId: string, taskId: string, actor: TaskActor, items: NewActivity[]): TaskActivity[] {
+  if (items.length === 0) return []
+
+  const timestamp = new Date().toISOString()
+  const appended = items.map(item => ({
+    id: uuidv4(),
+    teamId,
+    taskId,
+    actor,
+    timestamp,
+    ...item,
+  }))
+
+  try {
+    if (!fs.existsSync(TEAMS_DIR)) {
+      fs.mkdirSync(TEAMS_DIR, { recursive: true })
+    }
+    const file: TaskActivityFile = { version: 1, entries: [...loadActivity(teamId), ...appended] }
+    fs.writeFileSync(activityFilePath(teamId), JSON.stringify(file, null, 2), 'utf-8')
+  } catch (error) {
+    console.error(`Failed to save task activity for team ${teamId}:`, error)
+  }
+  return appended
+}
+
+/**
+ * Activity of one task, oldest first
+ */
+export function getTaskActivity(teamId: string, taskId: string): TaskActivity[] {
+  return loadActivity(teamId).filter(entry => entry.taskId === taskId)
+}
+
+export function recordTaskCreated(task: Task, actor: TaskActor): void {
+  appendActivity(task.teamId, task.id, actor, [{ type: 'created', to: task.status }])
+}
+
+/**
+ * Log the status, assignee and dependency changes between two versions of a task
+ */
+export function recordTaskChanges(previous: Task, task: Task, actor: TaskActor): TaskActivity[] {
+  const items: NewActivity[] = []
+
+  if (task.status !== previous.status) {
+    items.push({ type: 'status_changed', from: previous.status, to: task.status })
+  }
+
+  const previousAssignee = previous.assigneeAgentId || null
+  const assignee = task.assigneeAgentId || null
+  if (assignee !== previousAssignee) {
+    items.push({ type: 'assigned', from: previousAssignee, to: assignee })
+  }
+
+  const added = task.blockedBy.filter(id => !previous.blockedBy.includes(id))
+  const removed = previous.blockedBy.filter(id => !task.blockedBy.includes(id))
+  if (added.length > 0 || removed.length > 0) {
+    items.push({ type: 'dependencies_changed', added, removed })
+  }
+
+  return appendActivity(task.teamId, task.id, actor, items)
+}
+
+/**
+ * Post a comment, optionally as a reply to another comment on the same task
+ * @throws Error if parentId does not name a comment on this task
+ */
+export function addTaskComment(
+  teamId: string,
+  taskId: string,
+  body: string,
+  actor: TaskActor,
+  parentId?: string
+): TaskActivity {
+  if (parentId) {
+    const parent = getTaskActivity(teamId, taskId).find(e => e.id === parentId && e.type === 'comment')
+    if (!parent) {
+      throw new Error(`Parent comment ${parentId} not found on this task`)
+    }
+  }
+
+  const [comment] = appendActivity(teamId, taskId, actor, [
+    parentId ? { type: 'comment', body, parentId } : { type: 'comment', body },
+  ])
+  return comment
+}
+
+/**
+ * Comments of a task as threads: top-level comments oldest first, replies nested
+ */
+export function getTaskCommentThreads(teamId: string, taskId: string): TaskCommentThread[] {
+  const comments = getTaskActivity(teamId, taskId).filter(entry => entry.type === 'comment')
+  const threads = new Map<string, TaskCommentThread>(
+    comments.map(comment => [comment.id, { ...comment, replies: [] }])
+  )
+
+  const roots: TaskCommentThread[] = []
+  for (const comment of comments) {
+    const thread = threads.get(comment.id)!
+    const parent = comment.parentId ? threads.get(comment.parentId) : undefined
+    if (parent) {
+      parent.replies.push(thread)
+    } else {
+      roots.push(thread)
+    }
+  }
+  return roots
+}
+
+/**
+ * Attachments of a task, in upload order
+ */
+export function listTaskAttachments(teamId: string, taskId: string): TaskAttachment[] {
+  return getTaskActivity(teamId, taskId)
+    .filter(entry => entry.type === 'attachment_added' && entry.attachment)
+    .map(entry => entry.attachment!)
+}
+
+/**
+ * Store an attachment's bytes beside the team's tasks file and log it
+ */
+export function addTaskAttachment(
+  teamId: string,
+  taskId: string,
+  file: { filename: string; mimeType: string; data: Buffer },
+  actor: TaskActor
+): TaskAttachment {
+  const attachment: TaskAttachment = {
+    id: uuidv4(),
+    // Keep only the base name; the stored file is addressed by ID
+    filename: path.basename(file.filename),
+    mimeType: file.mimeType,
+    size: file.data.length,
+  }
+
+  const dir = attachmentsDir(teamId, taskId)
+  fs.mkdirSync(dir, { recursive: true })
+  fs.writeFileSync(path.join(dir, attachment.id), file.data)
+
+  appendActivity(teamId, taskId, actor, [{ type: 'attachment_added', attachment }])
+  return attachment
+}
+
+/**
+ * Read an attachment back. Returns null if it is unknown or its bytes are missing.
+ */
+export function readTaskAttachment(
+  teamId: string,
+  taskId: string,
+  attachmentId: string
+): { attachment: TaskAttachment; data: Buffer } | null {
+  const attachment = listTaskAttachments(teamId, taskId).find(a => a.id === attachmentId)
+  if (!attachment) return null
+
+  const filePath = path.join(attachmentsDir(teamId, taskId), attachment.id)
+  if (!fs.existsSync(filePath)) return null
+  return { attachment, data: fs.readFileSync(filePath) }
+}
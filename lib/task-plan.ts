@@ -0,0 +1,407 @@
+/**
+ * Task Plan - Parse markdown checklists and JSON/YAML plans into team tasks,
+ * and render a team's board back into a markdown plan.
+ *
+ * Markdown plans are nested checklists:
+ *
+ *   ## Release
+ *   1. [ ] Design the schema @backend {#schema}
+ *   2. [ ] Build the API @backend
+ *      - [ ] Auth endpoints
+ *      - [x] CRUD endpoints
+ *   - [ ] Write docs @writer {after=schema priority=2}
+ *
+ * Dependencies are inferred from structure:
+ *   - Nesting: a parent is blocked by each of its direct children
+ *   - Ordering: in a numbered list, each item is blocked by the item before it
+ *     (bullet lists are independent)
+ * A trailing {...} block sets a key (#key), explicit dependencies (after=a,b),
+ * status=... and priority=N. The first @mention names the assignee.
+ * Indented text under an item becomes its description. Headings start a new
+ * section, so ordering never crosses them.
+ *
+ * JSON/YAML plans describe the same tree:
+ *   { "sequential": true, "tasks": [{ "subject", "key", "assignee", "description",
+ *     "priority", "status", "done", "blockedBy": [...], "sequential", "subtasks": [...] }] }
+ */
+
+import matter from 'gray-matter'
+import type { Task, TaskPlanFormat, TaskPlanItem, TaskStatus } from '@/types/task'
+
+const VALID_STATUSES: TaskStatus[] = ['backlog', 'pending', 'in_progress', 'review', 'completed']
+
+const LIST_ITEM_RE = /^(\s*)([-*+]|\d+[.)])\s+(?:\[([ xX])\]\s+)?(.*)$/
+const HEADING_RE = /^\s{0,3}#{1,6}\s/
+const FENCE_RE = /^\s*(```|~~~)/
+const ATTRIBUTES_RE = /\s*\{([^{}]*)\}\s*$/
+const MENTION_RE = /(^|\s)@([\w.-]+)/g
+const KEY_RE = /^[\w.-]+$/
+
+/**
+ * Error in the plan itself (bad syntax, unknown reference). Maps to HTTP 400.
+ */
+export class TaskPlanError extends Error {
+  constructor(message: string) {
+    super(message)
+    this.name = 'TaskPlanError'
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Shared helpers
+// ---------------------------------------------------------------------------
+
+class PlanBuilder {
+  readonly items: TaskPlanItem[] = []
+  private keys = new Set<string>()
+
+  add(item: Omit<TaskPlanItem, 'key'> & { key?: string }): TaskPlanItem {
+    const key = item.key || `item-${this.items.length + 1}`
+    if (!KEY_RE.test(key)) {
+      throw new TaskPlanError(`Invalid key "${key}": use letters, digits, ".", "_" or "-"`)
+    }
+    if (this.keys.has(key)) {
+      throw new TaskPlanError(`Duplicate key "${key}"`)
+    }
+    if (!item.subject) {
+      throw new TaskPlanError(`Task ${key} has no subject`)
+    }
+    this.keys.add(key)
+
+    const planned: TaskPlanItem = { ...item, key }
+    this.items.push(planned)
+    return planned
+  }
+}
+
+function parseStatus(value: unknown, where: string): TaskStatus {
+  if (typeof value !== 'string' || !VALID_STATUSES.includes(value as TaskStatus)) {
+    throw new TaskPlanError(`${where}: status must be one of ${VALID_STATUSES.join(', ')}`)
+  }
+  return value as TaskStatus
+}
+
+function parsePriority(value: unknown, where: string): number {
+  const priority = typeof value === 'string' ? Number(value) : value
+  if (typeof priority !== 'number' || !Number.isInteger(priority)) {
+    throw new TaskPlanError(`${where}: priority must be an integer`)
+  }
+  return priority
+}
+
+function addDependency(item: TaskPlanItem, key: string) {
+  if (!item.blockedBy.includes(key)) {
+    item.blockedBy.push(key)
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Markdown
+// ---------------------------------------------------------------------------
+
+/**
+ * Split a checklist line into subject, assignee mention and {...} attributes
+ */
+function parseItemText(text: string, lineNumber: number) {
+  const where = `Line ${lineNumber}`
+  let subject = text
+  let key: string | undefined
+  let status: TaskStatus | undefined
+  let priority: number | undefined
+  const after: string[] = []
+
+  const attributes = subject.match(ATTRIBUTES_RE)
+  if (attributes) {
+    subject = subject.slice(0, attributes.index)
+    for (const token of attributes[1].trim().split(/\s+/).filter(Boolean)) {
+      if (token.startsWith('#')) {
+        key = token.slice(1)
+      } else if (token.startsWith('after=')) {
+        after.push(...token.slice('after='.length).split(',').map(k => k.replace(/^#/, '')).filter(Boolean))
+      } else if (token.startsWith('status=')) {
+        status = parseStatus(token.slice('status='.length), where)
+      } else if (token.startsWith('priority=')) {
+        priority = parsePriority(token.slice('priority='.length), where)
+      } else {
+        throw new TaskPlanError(`${where}: unknown attribute "${token}"`)
+      }
+    }
+  }
+
+  // "@backend." at the end of a sentence names "backend"
+  const mentions = Array.from(subject.matchAll(MENTION_RE), match => match[2].replace(/\.+$/, ''))
+  const distinct = Array.from(new Set(mentions.map(m => m.toLowerCase())))
+  if (distinct.length > 1) {
+    throw new TaskPlanError(`${where}: a task can only have one assignee (found @${mentions.join(', @')})`)
+  }
+  subject = subject.replace(MENTION_RE, '$1').replace(/\s+/g, ' ').trim()
+
+  return { subject, key, status, priority, after, assignee: mentions[0] }
+}
+
+function indentWidth(whitespace: string): number {
+  return whitespace.replace(/\t/g, '    ').length
+}
+
+/**
+ * Parse a markdown checklist into plan items
+ * @throws TaskPlanError on malformed items or attributes
+ */
+export function parseMarkdownPlan(markdown: string): TaskPlanItem[] {
+  const builder = new PlanBuilder()
+  const explicitAfter = new Map<TaskPlanItem, string[]>()
+
+  interface Open {
+    indent: number
+    item: TaskPlanItem
+    description: string[]
+  }
+  // Open list items, outermost first
+  let stack: Open[] = []
+  // Last numbered item per parent (null = top level) for ordering inference
+  let previousOrdered = new Map<TaskPlanItem | null, TaskPlanItem>()
+  let inFence = false
+
+  const finishDescriptions = (open: Open[]) => {
+    for (const entry of open) {
+      const description = entry.description.join('\n').trim()
+      if (description) entry.item.description = description
+    }
+  }
+
+  markdown.split(/\r?\n/).forEach((line, index) => {
+    const lineNumber = index + 1
+
+    if (FENCE_RE.test(line)) {
+      inFence = !inFence
+    }
+    if (inFence || FENCE_RE.test(line)) {
+      return
+    }
+
+    if (HEADING_RE.test(line)) {
+      finishDescriptions(stack)
+      stack = []
+      previousOrdered = new Map()
+      return
+    }
+
+    const match = line.match(LIST_ITEM_RE)
+    if (!match) {
+      const current = stack[stack.length - 1]
+      if (!current) return
+      if (!line.trim()) {
+        current.description.push('')
+      } else if (indentWidth(line.match(/^\s*/)![0]) > current.indent) {
+        // Descriptions escape lines that would otherwise read as list items
+        current.description.push(line.trim().replace(/^\\/, ''))
+      }
+      return
+    }
+
+    const [, whitespace, marker, checkbox, text] = match
+    const indent = indentWidth(whitespace)
+    while (stack.length > 0 && stack[stack.length - 1].indent >= indent) {
+      finishDescriptions([stack.pop()!])
+    }
+
+    const parsed = parseItemText(text, lineNumber)
+    const item = builder.add({
+      key: parsed.key,
+      subject: parsed.subject,
+      assignee: parsed.assignee,
+      priority: parsed.priority,
+      status: parsed.status || (checkbox && checkbox !== ' ' ? 'completed' : undefined),
+      blockedBy: [],
+    })
+    if (parsed.after.length > 0) {
+      explicitAfter.set(item, parsed.after)
+    }
+
+    const parent = stack.length > 0 ? stack[stack.length - 1].item : null
+    if (parent) {
+      addDependency(parent, item.key)
+    }
+    if (/^\d/.test(marker)) {
+      const previous = previousOrdered.get(parent)
+      if (previous) addDependency(item, previous.key)
+      previousOrdered.set(parent, item)
+    } else {
+      previousOrdered.delete(parent)
+    }
+
+    stack.push({ indent, item, description: [] })
+  })
+  finishDescriptions(stack)
+
+  // Explicit references may point forward, so apply them once every key is known
+  for (const [item, after] of explicitAfter) {
+    for (const ref of after) addDependency(item, ref)
+  }
+
+  return builder.items
+}
+
+// ---------------------------------------------------------------------------
+// JSON / YAML
+// ---------------------------------------------------------------------------
+
+/**
+ * Parse a YAML document (plans must be a mapping with a `tasks` list)
+ */
+function parseYaml(text: string): unknown {
+  try {
+    // gray-matter bundles a YAML parser for front matter; wrap the plan as one
+    return matter(`---\n${text}\n---\n`, {}).data
+  } catch (error) {
+    throw new TaskPlanError(`Invalid YAML: ${(error as Error).message}`)
+  }
+}
+
+/**
+ * Parse a JSON/YAML plan (string or already-parsed object) into plan items
+ * @throws TaskPlanError on malformed plans
+ */
+export function parseStructuredPlan(content: unknown, format: 'json' | 'yaml'): TaskPlanItem[] {
+  let plan = content
+  if (typeof content === 'string') {
+    if (format === 'json') {
+      try {
+        plan = JSON.parse(content)
+      } catch (error) {
+        throw new TaskPlanError(`Invalid JSON: ${(error as Error).message}`)
+      }
+    } else {
+      plan = parseYaml(content)
+    }
+  }
+
+  const root = Array.isArray(plan) ? { tasks: plan } : plan as Record<string, unknown>
+  if (!root || typeof root !== 'object' || !Array.isArray(root.tasks)) {
+    throw new TaskPlanError('Plan must have a "tasks" list')
+  }
+
+  const builder = new PlanBuilder()
+  const explicitAfter = new Map<TaskPlanItem, string[]>()
+
+  const visit = (nodes: unknown[], sequential: boolean, path: string): TaskPlanItem[] => {
+    const added: TaskPlanItem[] = []
+    let previous: TaskPlanItem | undefined
+
+    nodes.forEach((node, index) => {
+      const where = `${path}[${index}]`
+      if (!node || typeof node !== 'object' || Array.isArray(node)) {
+        throw new TaskPlanError(`${where} must be an object`)
+      }
+      const n = node as Record<string, unknown>
+      const subject = n.subject ?? n.title
+      if (typeof subject !== 'string' || !subject.trim()) {
+        throw new TaskPlanError(`${where}: subject is required`)
+      }
+      for (const field of ['key', 'assignee', 'description'] as const) {
+        if (n[field] !== undefined && typeof n[field] !== 'string') {
+          throw new TaskPlanError(`${where}: ${field} must be a string`)
+        }
+      }
+      if (n.blockedBy !== undefined && (!Array.isArray(n.blockedBy) || !n.blockedBy.every(d => typeof d === 'string'))) {
+        throw new TaskPlanError(`${where}: blockedBy must be a list of keys or task IDs`)
+      }
+      if (n.subtasks !== undefined && !Array.isArray(n.subtasks)) {
+        throw new TaskPlanError(`${where}: subtasks must be a list`)
+      }
+
+      const item = builder.add({
+        key: n.key as string | undefined,
+        subject: subject.trim(),
+        description: (n.description as string | undefined)?.trim() || undefined,
+        assignee: (n.assignee as string | undefined)?.replace(/^@/, ''),
+        priority: n.priority === undefined ? undefined : parsePriority(n.priority, where),
+        status: n.status !== undefined ? parseStatus(n.status, where) : n.done === true ? 'completed' : undefined,
+        blockedBy: [],
+      })
+      if (n.blockedBy) {
+        explicitAfter.set(item, n.blockedBy as string[])
+      }
+
+      if (sequential && previous) addDependency(item, previous.key)
+      previous = item
+
+      const children = visit((n.subtasks as unknown[] | undefined) || [], n.sequential === true, `${where}.subtasks`)
+      for (const child of children) addDependency(item, child.key)
+
+      added.push(item)
+    })
+    return added
+  }
+
+  visit(root.tasks as unknown[], root.sequential === true, 'tasks')
+
+  for (const [item, after] of explicitAfter) {
+    for (const ref of after) addDependency(item, ref)
+  }
+  return builder.items
+}
+
+/**
+ * Parse a plan in any supported format
+ */
+export function parsePlan(content: unknown, format: TaskPlanFormat): TaskPlanItem[] {
+  if (format === 'markdown') {
+    if (typeof content !== 'string') {
+      throw new TaskPlanError('Markdown plans must be a string')
+    }
+    return parseMarkdownPlan(content)
+  }
+  return parseStructuredPlan(content, format)
+}
+
+/**
+ * Guess the format of a plan sent without one
+ */
+export function detectPlanFormat(content: unknown): TaskPlanFormat {
+  if (typeof content !== 'string') return 'json'
+  const trimmed = content.trim()
+  if (trimmed.startsWith('{') || trimmed.startsWith('[')) return 'json'
+  if (/^\s*([-*+]|\d+[.)])\s+\[[ xX]\]/m.test(content) || HEADING_RE.test(trimmed)) return 'markdown'
+  return /^tasks\s*:/m.test(content) ? 'yaml' : 'markdown'
+}
+
+// ---------------------------------------------------------------------------
+// Export
+// ---------------------------------------------------------------------------
+
+/**
+ * Render tasks as a markdown plan that parseMarkdownPlan reads back into the
+ * same subjects, assignees, statuses, priorities and dependencies.
+ * Recurring templates are left out; they have no checklist equivalent.
+ */
+export function renderMarkdownPlan(
+  title: string,
+  tasks: Task[],
+  agentName: (agentId: string) => string | undefined
+): string {
+  const exported = tasks.filter(t => !t.recurrence)
+  const keys = new Map(exported.map((task, index) => [task.id, `t${index + 1}`]))
+
+  const lines = [`# ${title}`, '']
+  for (const task of exported) {
+    const attributes = [`#${keys.get(task.id)}`]
+    const after = task.blockedBy.map(id => keys.get(id)).filter(Boolean)
+    if (after.length > 0) attributes.push(`after=${after.join(',')}`)
+    if (task.status !== 'pending' && task.status !== 'completed') attributes.push(`status=${task.status}`)
+    if (task.priority !== undefined) attributes.push(`priority=${task.priority}`)
+
+    const assignee = task.assigneeAgentId ? agentName(task.assigneeAgentId) : undefined
+    const checkbox = task.status === 'completed' ? '[x]' : '[ ]'
+    // Keep literal braces and mentions in subjects from being read back as syntax
+    const subject = task.subject.replace(/[{}]/g, '').replace(/(^|\s)@/g, '$1')
+    lines.push(`- ${checkbox} ${subject}${assignee ? ` @${assignee}` : ''} {${attributes.join(' ')}}`)
+
+    for (const line of task.description ? task.description.split('\n') : []) {
+      const escaped = LIST_ITEM_RE.test(line) || HEADING_RE.test(line) ? `\\${line.trim()}` : line.trim()
+      lines.push(escaped ? `  ${escaped}` : '')
+    }
+  }
+
+  return lines.join('\n') + '\n'
+}
@@ -3,6 +3,9 @@
  *
  * Storage: ~/.aimaestro/teams/tasks-{teamId}.json (one per team)
  * Mirrors the pattern from lib/team-registry.ts
+ *
+ * Changes are recorded in the task activity log (lib/task-activity.ts) under the
+ * acting agent or user; callers that don't pass an actor are logged as the system.
  */
 
 import fs from 'fs'
@@ -10,10 +13,15 @@ import path from 'path'
 import os from 'os'
 import { v4 as uuidv4 } from 'uuid'
 import { loadAgents } from '@/lib/agent-registry'
-import type { Task, TaskWithDeps, TasksFile } from '@/types/task'
+import { emitTaskEvent } from '@/lib/webhook-service'
+import { buildRecurrence, computeNextRun } from '@/lib/task-schedule'
+import { recordTaskChanges, recordTaskCreated } from '@/lib/task-activity'
+import type { Task, TaskActor, TaskPlanItem, TaskRecurrenceInput, TaskWithDeps, TasksFile } from '@/types/task'
 
 const TEAMS_DIR = path.join(os.homedir(), '.aimaestro', 'teams')
 
+const SYSTEM_ACTOR: TaskActor = { type: 'system' }
+
 function ensureTeamsDir() {
   if (!fs.existsSync(TEAMS_DIR)) {
     fs.mkdirSync(TEAMS_DIR, { recursive: true })
@@ -52,6 +60,16 @@ export function saveTasks(teamId: string, tasks: Task[]): boolean {
   }
 }
 
+/**
+ * True if every task in `task.blockedBy` exists in `tasks` and is completed
+ */
+function allBlockersCompleted(task: Task, tasks: Task[]): boolean {
+  return task.blockedBy.every(depId => {
+    const dep = tasks.find(d => d.id === depId)
+    return dep && dep.status === 'completed'
+  })
+}
+
 /**
  * Resolve task dependencies and compute derived fields
  */
@@ -96,7 +114,9 @@ export function createTask(data: {
   assigneeAgentId?: string | null
   blockedBy?: string[]
   priority?: number
-}): Task {
+  dueAt?: string
+  recurrence?: TaskRecurrenceInput
+}, actor: TaskActor = SYSTEM_ACTOR): Task {
   const tasks = loadTasks(data.teamId)
   const now = new Date().toISOString()
 
@@ -105,19 +125,80 @@ export function createTask(data: {
     teamId: data.teamId,
     subject: data.subject,
     description: data.description,
-    status: 'pending',
+    // Recurring templates are never worked on directly; they stay in the backlog
+    status: data.recurrence ? 'backlog' : 'pending',
     assigneeAgentId: data.assigneeAgentId || null,
     blockedBy: data.blockedBy || [],
     priority: data.priority,
     createdAt: now,
     updatedAt: now,
   }
+  if (data.dueAt) {
+    task.dueAt = data.dueAt
+  }
+  if (data.recurrence) {
+    task.recurrence = buildRecurrence(data.recurrence, new Date(now))
+  }
 
   tasks.push(task)
   saveTasks(data.teamId, tasks)
+  recordTaskCreated(task, actor)
+
+  emitTaskEvent('task.created', data.teamId, task)
+    .catch(err => console.error('[Webhook] Failed to emit task.created:', err))
+
   return task
 }
 
+/**
+ * Create every task of an imported plan in one write. Plan keys in blockedBy
+ * are replaced by the new task IDs; other entries are existing task IDs.
+ * Callers validate references and cycles first.
+ */
+export function importTasks(
+  teamId: string,
+  items: Array<TaskPlanItem & { assigneeAgentId?: string | null }>,
+  actor: TaskActor = SYSTEM_ACTOR
+): Task[] {
+  const tasks = loadTasks(teamId)
+  const now = new Date().toISOString()
+  const ids = new Map(items.map(item => [item.key, uuidv4()]))
+
+  const created = items.map(item => {
+    const status = item.status || 'pending'
+    const task: Task = {
+      id: ids.get(item.key)!,
+      teamId,
+      subject: item.subject,
+      description: item.description,
+      status,
+      assigneeAgentId: item.assigneeAgentId || null,
+      blockedBy: item.blockedBy.map(ref => ids.get(ref) || ref),
+      priority: item.priority,
+      createdAt: now,
+      updatedAt: now,
+    }
+    if (status === 'in_progress' || status === 'review' || status === 'completed') {
+      task.startedAt = now
+    }
+    if (status === 'completed') {
+      task.completedAt = now
+    }
+    return task
+  })
+
+  tasks.push(...created)
+  saveTasks(teamId, tasks)
+
+  for (const task of created) {
+    recordTaskCreated(task, actor)
+    emitTaskEvent('task.created', teamId, task)
+      .catch(err => console.error('[Webhook] Failed to emit task.created:', err))
+  }
+
+  return created
+}
+
 export function getTask(teamId: string, taskId: string): Task | null {
   const tasks = loadTasks(teamId)
   return tasks.find(t => t.id === taskId) || null
@@ -129,22 +210,44 @@ export function getTask(teamId: string, taskId: string): Task | null {
 export function updateTask(
   teamId: string,
   taskId: string,
-  updates: Partial<Pick<Task, 'subject' | 'description' | 'status' | 'assigneeAgentId' | 'blockedBy' | 'priority'>>
+  updates: Partial<Pick<Task, 'subject' | 'description' | 'status' | 'assigneeAgentId' | 'blockedBy' | 'priority'>> & {
+    dueAt?: string | null                      // null clears the deadline
+    recurrence?: TaskRecurrenceInput | null    // null turns a template back into a plain task
+  },
+  actor: TaskActor = SYSTEM_ACTOR
 ): { task: Task | null; unblocked: Task[] } {
   const tasks = loadTasks(teamId)
   const index = tasks.findIndex(t => t.id === taskId)
   if (index === -1) return { task: null, unblocked: [] }
 
   const now = new Date().toISOString()
+  const previous = tasks[index]
   const wasCompleted = tasks[index].status === 'completed'
   const isNowCompleted = updates.status === 'completed'
+  const { dueAt, recurrence, ...fields } = updates
+  // Fields the caller left undefined keep their stored value
+  const defined = Object.fromEntries(Object.entries(fields).filter(([, value]) => value !== undefined))
 
   tasks[index] = {
     ...tasks[index],
-    ...updates,
+    ...defined,
     updatedAt: now,
   }
 
+  if (dueAt === null) {
+    delete tasks[index].dueAt
+  } else if (dueAt !== undefined) {
+    tasks[index].dueAt = dueAt
+  }
+  if (recurrence === null) {
+    delete tasks[index].recurrence
+  } else if (recurrence !== undefined) {
+    tasks[index].recurrence = {
+      ...buildRecurrence(recurrence, new Date(now)),
+      lastRunAt: previous.recurrence?.lastRunAt,
+    }
+  }
+
   // Set timestamps based on status changes
   if ((updates.status === 'in_progress' || updates.status === 'review') && !tasks[index].startedAt) {
     tasks[index].startedAt = now
@@ -156,25 +259,47 @@ export function updateTask(
   // Find newly unblocked tasks when a task is completed
   let unblocked: Task[] = []
   if (!wasCompleted && isNowCompleted) {
-    unblocked = tasks.filter(t => {
-      if (!t.blockedBy.includes(taskId)) return false
-      // Check if ALL blockers are now completed
-      return t.blockedBy.every(depId => {
-        const dep = tasks.find(d => d.id === depId)
-        return dep && dep.status === 'completed'
-      })
-    })
+    // Check if ALL blockers are now completed
+    unblocked = tasks.filter(t => t.blockedBy.includes(taskId) && allBlockersCompleted(t, tasks))
   }
 
   saveTasks(teamId, tasks)
+  recordTaskChanges(previous, tasks[index], actor)
+  emitTaskUpdateEvents(teamId, previous, tasks[index], unblocked)
   return { task: tasks[index], unblocked }
 }
 
+/**
+ * Fire webhooks for an update (fire and forget)
+ */
+function emitTaskUpdateEvents(teamId: string, previous: Task, task: Task, unblocked: Task[]): void {
+  const logError = (event: string) => (err: unknown) =>
+    console.error(`[Webhook] Failed to emit ${event}:`, err)
+
+  if (task.status !== previous.status) {
+    emitTaskEvent('task.status_changed', teamId, task, { previousStatus: previous.status, unblocked })
+      .catch(logError('task.status_changed'))
+  }
+  if ((task.assigneeAgentId || null) !== (previous.assigneeAgentId || null)) {
+    emitTaskEvent('task.assigned', teamId, task, {
+      previousStatus: previous.status,
+      previousAssigneeAgentId: previous.assigneeAgentId || null,
+    }).catch(logError('task.assigned'))
+  }
+  if (unblocked.length > 0) {
+    emitTaskEvent('task.unblocked', teamId, task, { previousStatus: previous.status, unblocked })
+      .catch(logError('task.unblocked'))
+  }
+}
+
 /**
  * Delete a task and clean up references in other tasks' blockedBy arrays
  */
 export function deleteTask(teamId: string, taskId: string): boolean {
   const tasks = loadTasks(teamId)
+  const deleted = tasks.find(t => t.id === taskId)
+  if (!deleted) return false
+
   const filtered = tasks
     .filter(t => t.id !== taskId)
     .map(t => ({
@@ -182,16 +307,95 @@ export function deleteTask(teamId: string, taskId: string): boolean {
       blockedBy: t.blockedBy.filter(id => id !== taskId),
     }))
 
-  if (filtered.length === tasks.length) return false
   saveTasks(teamId, filtered)
+
+  // Removing an incomplete blocker frees tasks that were only waiting on it
+  const unblocked = deleted.status === 'completed'
+    ? []
+    : filtered.filter(t =>
+        tasks.some(o => o.id === t.id && o.blockedBy.includes(taskId)) &&
+        allBlockersCompleted(t, filtered)
+      )
+
+  emitTaskEvent('task.deleted', teamId, deleted, { previousStatus: deleted.status, unblocked })
+    .catch(err => console.error('[Webhook] Failed to emit task.deleted:', err))
+  if (unblocked.length > 0) {
+    emitTaskEvent('task.unblocked', teamId, deleted, { previousStatus: deleted.status, unblocked })
+      .catch(err => console.error('[Webhook] Failed to emit task.unblocked:', err))
+  }
+
   return true
 }
 
 /**
- * Check if adding a dependency would create a circular reference
+ * Materialize one new instance of every recurring template in a team whose
+ * nextRunAt has passed. Instances are assigned to the template's assignee.
+ * Missed runs (e.g. while the server was down) collapse into one instance.
  */
-export function wouldCreateCycle(teamId: string, taskId: string, dependencyId: string): boolean {
+export function materializeDueTasks(teamId: string, now: Date = new Date()): Task[] {
   const tasks = loadTasks(teamId)
+  const nowIso = now.toISOString()
+  const instances: Task[] = []
+
+  for (const template of tasks) {
+    const recurrence = template.recurrence
+    if (!recurrence || new Date(recurrence.nextRunAt).getTime() > now.getTime()) continue
+
+    const instance: Task = {
+      id: uuidv4(),
+      teamId,
+      subject: template.subject,
+      description: template.description,
+      status: 'pending',
+      assigneeAgentId: template.assigneeAgentId || null,
+      blockedBy: [],
+      priority: template.priority,
+      createdAt: nowIso,
+      updatedAt: nowIso,
+      templateId: template.id,
+    }
+    if (recurrence.dueInMinutes) {
+      instance.dueAt = new Date(now.getTime() + recurrence.dueInMinutes * 60 * 1000).toISOString()
+    }
+
+    try {
+      recurrence.nextRunAt = computeNextRun(recurrence, now).toISOString()
+    } catch (error) {
+      // A cron that no longer matches would fire on every tick; stop the template instead
+      console.error(`[Tasks] Disabling recurrence of task ${template.id}:`, error)
+      delete template.recurrence
+    }
+    if (template.recurrence) {
+      template.recurrence.lastRunAt = nowIso
+    }
+
+    instances.push(instance)
+  }
+
+  if (instances.length === 0) return []
+
+  tasks.push(...instances)
+  saveTasks(teamId, tasks)
+
+  for (const instance of instances) {
+    recordTaskCreated(instance, { type: 'system', name: 'Scheduler' })
+    emitTaskEvent('task.created', teamId, instance)
+      .catch(err => console.error('[Webhook] Failed to emit task.created:', err))
+  }
+
+  return instances
+}
+
+/**
+ * Check if adding a dependency would create a circular reference.
+ * Pass `tasks` to check a board that has not been saved yet (plan import).
+ */
+export function wouldCreateCycle(
+  teamId: string,
+  taskId: string,
+  dependencyId: string,
+  tasks: Task[] = loadTasks(teamId)
+): boolean {
   const visited = new Set<string>()
 
   function hasCycle(currentId: string): boolean {
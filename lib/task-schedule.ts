@@ -0,0 +1,227 @@
+/**
+ * Task Schedule - Recurrence helpers for recurring team tasks
+ *
+ * A recurring task template either follows a standard 5-field cron expression
+ * (minute hour day-of-month month day-of-week, evaluated in server local time)
+ * or repeats every N minutes. lib/task-registry.ts uses these helpers to decide
+ * when the next instance of a template is due.
+ */
+
+import type { TaskRecurrence, TaskRecurrenceInput } from '@/types/task'
+
+interface CronSchedule {
+  minutes: Set<number>
+  hours: Set<number>
+  daysOfMonth: Set<number>
+  months: Set<number>
+  daysOfWeek: Set<number>
+  // Standard cron: when both day fields are restricted, either may match
+  dayOfMonthRestricted: boolean
+  dayOfWeekRestricted: boolean
+}
+
+const CRON_MACROS: Record<string, string> = {
+  '@yearly': '0 0 1 1 *',
+  '@annually': '0 0 1 1 *',
+  '@monthly': '0 0 1 * *',
+  '@weekly': '0 0 * * 0',
+  '@daily': '0 0 * * *',
+  '@midnight': '0 0 * * *',
+  '@hourly': '0 * * * *',
+}
+
+const MONTH_NAMES = ['jan', 'feb', 'mar', 'apr', 'may', 'jun', 'jul', 'aug', 'sep', 'oct', 'nov', 'dec']
+const DAY_NAMES = ['sun', 'mon', 'tue', 'wed', 'thu', 'fri', 'sat']
+
+// Upper bound for the next-run search (cron fields repeat at least every 4 years)
+const MAX_SEARCH_DAYS = 366 * 4 + 1
+
+/**
+ * Parse one cron field ("*", "5", "1-5", "*\/15", "mon-fri", "1,15") into its values
+ */
+function parseField(field: string, min: number, max: number, names?: string[], nameOffset = 0): Set<number> {
+  const values = new Set<number>()
+
+  const toNumber = (token: string): number => {
+    const named = names?.indexOf(token.toLowerCase()) ?? -1
+    const value = named >= 0 ? named + nameOffset : Number(token)
+    if (!Number.isInteger(value) || value < min || value > max) {
+      throw new Error(`value "${token}" out of range ${min}-${max}`)
+    }
+    return value
+  }
+
+  for (const part of field.split(',')) {
+    const [range, stepText] = part.split('/')
+    const step = stepText === undefined ? 1 : Number(stepText)
+    if (!Number.isInteger(step) || step < 1) {
+      throw new Error(`invalid step "${stepText}"`)
+    }
+
+    let start: number
+    let end: number
+    if (range === '*') {
+      start = min
+      end = max
+    } else if (range.includes('-')) {
+      const [from, to] = range.split('-')
+      start = toNumber(from)
+      end = toNumber(to)
+      if (start > end) throw new Error(`invalid range "${range}"`)
+    } else {
+      start = toNumber(range)
+      end = stepText === undefined ? start : max
+    }
+
+    for (let value = start; value <= end; value += step) {
+      values.add(value)
+    }
+  }
+
+  return values
+}
+
+/**
+ * Parse a 5-field cron expression or macro (@daily, @weekly, ...)
+ * @throws Error describing the first invalid field
+ */
+function parseCron(expression: string): CronSchedule {
+  const expanded = CRON_MACROS[expression.trim().toLowerCase()] || expression.trim()
+  const fields = expanded.split(/\s+/)
+  if (fields.length !== 5) {
+    throw new Error(`Invalid cron expression "${expression}": expected 5 fields`)
+  }
+
+  try {
+    const daysOfWeek = parseField(fields[4], 0, 7, DAY_NAMES)
+    if (daysOfWeek.has(7)) {
+      daysOfWeek.delete(7)
+      daysOfWeek.add(0)
+    }
+
+    return {
+      minutes: parseField(fields[0], 0, 59),
+      hours: parseField(fields[1], 0, 23),
+      daysOfMonth: parseField(fields[2], 1, 31),
+      months: parseField(fields[3], 1, 12, MONTH_NAMES, 1),
+      daysOfWeek,
+      dayOfMonthRestricted: fields[2] !== '*',
+      dayOfWeekRestricted: fields[4] !== '*',
+    }
+  } catch (error) {
+    throw new Error(`Invalid cron expression "${expression}": ${(error as Error).message}`)
+  }
+}
+
+function matchesDay(schedule: CronSchedule, date: Date): boolean {
+  const domMatch = schedule.daysOfMonth.has(date.getDate())
+  const dowMatch = schedule.daysOfWeek.has(date.getDay())
+
+  if (schedule.dayOfMonthRestricted && schedule.dayOfWeekRestricted) {
+    return domMatch || dowMatch
+  }
+  return domMatch && dowMatch
+}
+
+/**
+ * Check whether a cron expression is valid
+ */
+export function isValidCron(expression: string): boolean {
+  try {
+    parseCron(expression)
+    return true
+  } catch {
+    return false
+  }
+}
+
+/**
+ * Next time strictly after `after` that matches a cron expression
+ */
+export function nextCronTime(expression: string, after: Date): Date {
+  const schedule = parseCron(expression)
+
+  const candidate = new Date(after.getTime())
+  candidate.setSeconds(0, 0)
+  candidate.setMinutes(candidate.getMinutes() + 1)
+
+  const limit = after.getTime() + MAX_SEARCH_DAYS * 24 * 60 * 60 * 1000
+  while (candidate.getTime() <= limit) {
+    if (!schedule.months.has(candidate.getMonth() + 1)) {
+      candidate.setMonth(candidate.getMonth() + 1, 1)
+      candidate.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!matchesDay(schedule, candidate)) {
+      candidate.setDate(candidate.getDate() + 1)
+      candidate.setHours(0, 0, 0, 0)
+      continue
+    }
+    if (!schedule.hours.has(candidate.getHours())) {
+      candidate.setHours(candidate.getHours() + 1, 0, 0, 0)
+      continue
+    }
+    if (!schedule.minutes.has(candidate.getMinutes())) {
+      candidate.setMinutes(candidate.getMinutes() + 1, 0, 0)
+      continue
+    }
+    return candidate
+  }
+
+  throw new Error(`Cron expression "${expression}" never matches`)
+}
+
+/**
+ * Validate a recurrence spec from an API request.
+ * Returns an error message, or null when the spec is valid.
+ */
+export function validateRecurrence(input: unknown): string | null {
+  if (!input || typeof input !== 'object' || Array.isArray(input)) {
+    return 'recurrence must be an object with cron or intervalMinutes'
+  }
+
+  const { cron, intervalMinutes, dueInMinutes } = input as TaskRecurrenceInput
+  if ((cron === undefined) === (intervalMinutes === undefined)) {
+    return 'recurrence must set exactly one of cron or intervalMinutes'
+  }
+  if (cron !== undefined) {
+    if (typeof cron !== 'string') {
+      return 'recurrence.cron must be a string'
+    }
+    try {
+      nextCronTime(cron, new Date())
+    } catch (error) {
+      return (error as Error).message
+    }
+  }
+  if (intervalMinutes !== undefined && (!Number.isInteger(intervalMinutes) || intervalMinutes < 1)) {
+    return 'recurrence.intervalMinutes must be a positive integer'
+  }
+  if (dueInMinutes !== undefined && (!Number.isInteger(dueInMinutes) || dueInMinutes < 1)) {
+    return 'recurrence.dueInMinutes must be a positive integer'
+  }
+  return null
+}
+
+/**
+ * When a recurrence next fires after `after`
+ */
+export function computeNextRun(recurrence: TaskRecurrenceInput, after: Date): Date {
+  if (recurrence.intervalMinutes) {
+    return new Date(after.getTime() + recurrence.intervalMinutes * 60 * 1000)
+  }
+  return nextCronTime(recurrence.cron!, after)
+}
+
+/**
+ * Build a stored recurrence (with its first nextRunAt) from request input
+ */
+export function buildRecurrence(input: TaskRecurrenceInput, now: Date): TaskRecurrence {
+  const recurrence: TaskRecurrence = {
+    nextRunAt: computeNextRun(input, now).toISOString(),
+  }
+  if (input.cron !== undefined) recurrence.cron = input.cron.trim()
+  if (input.intervalMinutes !== undefined) recurrence.intervalMinutes = input.intervalMinutes
+  if (input.dueInMinutes !== undefined) recurrence.dueInMinutes = input.dueInMinutes
+  return recurrence
+}
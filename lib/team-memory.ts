@@ -0,0 +1,264 @@
+/**
+ * Team Memory - shared long-term memory pool per team
+ *
+ * Storage: ~/.aimaestro/teams/memory-{teamId}.json (one per team)
+ * Mirrors the pattern from lib/document-registry.ts
+ *
+ * Memories are published from an agent's own CozoDB memories (automatically
+ * after consolidation for the categories a team opts into, or on demand) and
+ * recalled by every member through buildMemoryContext in lib/memory/search.ts.
+ * Embeddings are computed by the caller so this module stays free of the
+ * embedding model. Each memory records the signature of the model that
+ * embedded it; vectors from another model are never compared, and
+ * lib/rag/reembed.ts brings a pool up to date after a model switch.
+ */
+
+import fs from 'fs'
+import path from 'path'
+import os from 'os'
+import { v4 as uuidv4 } from 'uuid'
+import { loadTeams } from './team-registry'
+import { DEFAULT_EMBEDDING_CONFIG, embeddingSignature } from './rag/embedding-providers'
+import type { Team } from '@/types/team'
+import type { TeamMemory, TeamMemoryCategory, TeamMemoryFile, TeamMemorySource } from '@/types/team-memory'
+
+const TEAMS_DIR = path.join(os.homedir(), '.aimaestro', 'teams')
+
+export const TEAM_MEMORY_CATEGORIES: TeamMemoryCategory[] = ['fact', 'decision', 'preference']
+
+// Same threshold consolidation uses to treat two memories as one
+const DUPLICATE_SIMILARITY = 0.85
+
+function ensureTeamsDir() {
+  if (!fs.existsSync(TEAMS_DIR)) {
+    fs.mkdirSync(TEAMS_DIR, { recursive: true })
+  }
+}
+
+function memoryFilePath(teamId: string): string {
+  return path.join(TEAMS_DIR, `memory-${teamId}.json`)
+}
+
+export function isTeamMemoryCategory(value: unknown): value is TeamMemoryCategory {
+  return typeof value === 'string' && (TEAM_MEMORY_CATEGORIES as string[]).includes(value)
+}
+
+export function loadTeamMemories(teamId: string): TeamMemory[] {
+  try {
+    ensureTeamsDir()
+    const filePath = memoryFilePath(teamId)
+    if (!fs.existsSync(filePath)) {
+      return []
+    }
+    const data = fs.readFileSync(filePath, 'utf-8')
+    const parsed: TeamMemoryFile = JSON.parse(data)
+    return Array.isArray(parsed.memories) ? parsed.memories : []
+  } catch (error) {
+    console.error(`Failed to load team memory for team ${teamId}:`, error)
+    return []
+  }
+}
+
+export function saveTeamMemories(teamId: string, memories: TeamMemory[]): boolean {
+  try {
+    ensureTeamsDir()
+    const file: TeamMemoryFile = { version: 1, memories }
+    // Not pretty-printed: every memory carries a 384-float embedding
+    fs.writeFileSync(memoryFilePath(teamId), JSON.stringify(file), 'utf-8')
+    return true
+  } catch (error) {
+    console.error(`Failed to save team memory for team ${teamId}:`, error)
+    return false
+  }
+}
+
+/**
+ * Cosine similarity; tolerates vectors that are not normalized.
+ */
+export function vectorSimilarity(a: number[], b: number[]): number {
+  if (a.length === 0 || a.length !== b.length) return 0
+  let dot = 0
+  let normA = 0
+  let normB = 0
+  for (let i = 0; i < a.length; i++) {
+    dot += a[i] * b[i]
+    normA += a[i] * a[i]
+    normB += b[i] * b[i]
+  }
+  if (normA === 0 || normB === 0) return 0
+  return dot / (Math.sqrt(normA) * Math.sqrt(normB))
+}
+
+/**
+ * Signature of the model a memory was embedded with. Memories published
+ * before signatures were recorded came from the default local model.
+ */
+export function teamMemoryModel(memory: TeamMemory): string {
+  return memory.embeddingModel || embeddingSignature(DEFAULT_EMBEDDING_CONFIG)
+}
+
+/**
+ * Memories in a team's pool embedded with a model other than the given one
+ */
+export function getStaleTeamMemories(teamId: string, embeddingModel: string): TeamMemory[] {
+  return loadTeamMemories(teamId).filter(m => teamMemoryModel(m) !== embeddingModel)
+}
+
+/**
+ * Store new embeddings for memories of a team's pool. The pool is re-read so
+ * memories published while the embeddings were computed are kept.
+ */
+export function updateTeamMemoryEmbeddings(
+  teamId: string,
+  embeddings: Map<string, number[]>,
+  embeddingModel: string
+): number {
+  const memories = loadTeamMemories(teamId)
+  let updated = 0
+  for (const memory of memories) {
+    const embedding = embeddings.get(memory.id)
+    if (!embedding) continue
+    memory.embedding = embedding
+    memory.embeddingModel = embeddingModel
+    updated++
+  }
+  if (updated > 0) saveTeamMemories(teamId, memories)
+  return updated
+}
+
+/**
+ * Add a memory to a team's pool. A near-identical memory of the same
+ * category is reinforced instead, recording the new publisher.
+ */
+export function publishTeamMemory(
+  teamId: string,
+  data: {
+    category: TeamMemoryCategory
+    content: string
+    context?: string
+    confidence: number
+    embedding: number[]
+    embeddingModel: string
+    source: Omit<TeamMemorySource, 'publishedAt'>
+  }
+): { memory: TeamMemory; action: 'created' | 'reinforced' | 'unchanged' } {
+  const memories = loadTeamMemories(teamId)
+  const now = new Date().toISOString()
+  const source: TeamMemorySource = { ...data.source, publishedAt: now }
+
+  // Republishing the same agent memory is a no-op
+  const republished = data.source.memoryId
+    ? memories.find(m => [m.source, ...(m.reinforcedBy || [])].some(s => s.agentId === source.agentId && s.memoryId === source.memoryId))
+    : undefined
+  if (republished) {
+    return { memory: republished, action: 'unchanged' }
+  }
+
+  const duplicate = memories.find(m =>
+    m.category === data.category &&
+    teamMemoryModel(m) === data.embeddingModel &&
+    vectorSimilarity(m.embedding, data.embedding) >= DUPLICATE_SIMILARITY
+  )
+  if (duplicate) {
+    duplicate.reinforcementCount += 1
+    duplicate.reinforcedBy = [...(duplicate.reinforcedBy || []), source]
+    duplicate.confidence = Math.max(duplicate.confidence, data.confidence)
+    duplicate.updatedAt = now
+    saveTeamMemories(teamId, memories)
+    return { memory: duplicate, action: 'reinforced' }
+  }
+
+  const memory: TeamMemory = {
+    id: uuidv4(),
+    teamId,
+    category: data.category,
+    content: data.content,
+    context: data.context,
+    confidence: data.confidence,
+    embedding: data.embedding,
+    embeddingModel: data.embeddingModel,
+    reinforcementCount: 0,
+    source,
+    createdAt: now,
+    updatedAt: now,
+  }
+  memories.push(memory)
+  saveTeamMemories(teamId, memories)
+  return { memory, action: 'created' }
+}
+
+export function deleteTeamMemory(teamId: string, memoryId: string): boolean {
+  const memories = loadTeamMemories(teamId)
+  const filtered = memories.filter(m => m.id !== memoryId)
+  if (filtered.length === memories.length) return false
+  saveTeamMemories(teamId, filtered)
+  return true
+}
+
+/**
+ * Rank a team's memories against a query embedding. Memories embedded with
+ * another model are skipped until they are re-embedded.
+ */
+export function searchTeamMemories(
+  teamId: string,
+  queryEmbedding: number[],
+  embeddingModel: string,
+  options: { limit?: number; categories?: string[]; minConfidence?: number; minSimilarity?: number } = {}
+): Array<{ memory: TeamMemory; similarity: number }> {
+  const limit = options.limit || 10
+  const minConfidence = options.minConfidence ?? 0
+  const minSimilarity = options.minSimilarity ?? 0
+
+  return loadTeamMemories(teamId)
+    .filter(m => !options.categories || options.categories.includes(m.category))
+    .filter(m => m.confidence >= minConfidence)
+    .filter(m => teamMemoryModel(m) === embeddingModel)
+    .map(memory => ({ memory, similarity: vectorSimilarity(memory.embedding, queryEmbedding) }))
+    .filter(r => r.similarity >= minSimilarity)
+    .sort((a, b) => b.similarity - a.similarity)
+    .slice(0, limit)
+}
+
+/**
+ * Teams the agent belongs to.
+ */
+export function getTeamsForAgent(agentId: string): Team[] {
+  return loadTeams().filter(t => t.agentIds.includes(agentId))
+}
+
+/**
+ * Publish a freshly consolidated memory to every team of the agent that
+ * shares its category. Returns the IDs of the teams it was published to.
+ */
+export function publishToAgentTeams(
+  agentId: string,
+  data: {
+    category: string
+    content: string
+    context?: string
+    confidence: number
+    embedding: number[]
+    embeddingModel: string
+    memoryId: string
+    conversationFile?: string
+  }
+): string[] {
+  if (!isTeamMemoryCategory(data.category)) return []
+  const category = data.category
+
+  const published: string[] = []
+  for (const team of getTeamsForAgent(agentId)) {
+    if (!team.memorySharing?.includes(category)) continue
+    publishTeamMemory(team.id, {
+      category,
+      content: data.content,
+      context: data.context,
+      confidence: data.confidence,
+      embedding: data.embedding,
+      embeddingModel: data.embeddingModel,
+      source: { agentId, memoryId: data.memoryId, conversationFile: data.conversationFile },
+    })
+    published.push(team.id)
+  }
+  return published
+}
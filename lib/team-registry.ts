@@ -9,6 +9,7 @@ import fs from 'fs'
 import path from 'path'
 import os from 'os'
 import { v4 as uuidv4 } from 'uuid'
+import { AMP_TEAM_PREFIX } from '@/lib/types/amp'
 import type { Team, TeamsFile } from '@/types/team'
 
 const AIMAESTRO_DIR = path.join(os.homedir(), '.aimaestro')
@@ -53,6 +54,25 @@ export function getTeam(id: string): Team | null {
   return teams.find(t => t.id === id) || null
 }
 
+/**
+ * AMP group address name of a team, e.g. "Backend Crew" -> "team-backend-crew"
+ */
+export function getTeamAddressName(team: Team): string {
+  const slug = team.name.toLowerCase().replace(/[^a-z0-9]+/g, '-').replace(/^-+|-+$/g, '')
+  return `${AMP_TEAM_PREFIX}${slug || team.id}`
+}
+
+/**
+ * Find the team behind a group address name ("team-{slug}" or "team-{id}")
+ */
+export function getTeamByAddressName(name: string): Team | null {
+  const normalized = name.toLowerCase()
+  if (!normalized.startsWith(AMP_TEAM_PREFIX)) return null
+  return loadTeams().find(t =>
+    getTeamAddressName(t) === normalized || `${AMP_TEAM_PREFIX}${t.id}` === normalized
+  ) || null
+}
+
 export function createTeam(data: { name: string; description?: string; agentIds: string[] }): Team {
   const teams = loadTeams()
   const now = new Date().toISOString()
@@ -71,14 +91,17 @@ export function createTeam(data: { name: string; description?: string; agentIds:
   return team
 }
 
-export function updateTeam(id: string, updates: Partial<Pick<Team, 'name' | 'description' | 'agentIds' | 'lastMeetingAt' | 'instructions' | 'lastActivityAt'>>): Team | null {
+export function updateTeam(id: string, updates: Partial<Pick<Team, 'name' | 'description' | 'agentIds' | 'lastMeetingAt' | 'instructions' | 'lastActivityAt' | 'autopilot' | 'memorySharing'>>): Team | null {
   const teams = loadTeams()
   const index = teams.findIndex(t => t.id === id)
   if (index === -1) return null
 
+  // Fields the caller left undefined keep their stored value
+  const defined = Object.fromEntries(Object.entries(updates).filter(([, value]) => value !== undefined))
+
   teams[index] = {
     ...teams[index],
-    ...updates,
+    ...defined,
     updatedAt: new Date().toISOString(),
   }
 
@@ -98,6 +98,32 @@ export function parseAMPAddress(address: string): {
   }
 }
 
+/** Local part of a broadcast address (`*@tenant`) */
+export const AMP_BROADCAST_NAME = '*'
+
+/** Prefix of team group addresses (`team-backend@tenant`) */
+export const AMP_TEAM_PREFIX = 'team-'
+
+/**
+ * Check whether the local part of an address names a group: a broadcast or a
+ * team. Team names still have to match a team in the registry to fan out.
+ */
+export function isAMPGroupName(name: string): boolean {
+  return name === AMP_BROADCAST_NAME || name.startsWith(AMP_TEAM_PREFIX)
+}
+
+/**
+ * Check whether an AMP expiration time has passed
+ *
+ * @param expiresAt - ISO 8601 expires_at value (missing or unparseable never expires)
+ * @param now - Reference time in ms (defaults to now)
+ */
+export function isAMPMessageExpired(expiresAt: string | null | undefined, now: number = Date.now()): boolean {
+  if (!expiresAt) return false
+  const time = Date.parse(expiresAt)
+  return !isNaN(time) && time <= now
+}
+
 // ============================================================================
 // Message Envelope (Protocol Layer)
 // ============================================================================
@@ -155,7 +181,7 @@ export interface AMPPayload {
   /** Structured context/metadata */
   context?: Record<string, unknown>
 
-  /** File attachments (paths or URLs) */
+  /** File attachments (stored by digest; legacy messages carry paths or URLs) */
   attachments?: AMPAttachment[]
 }
 
@@ -168,8 +194,16 @@ export interface AMPAttachment {
   url?: string
   type: string
   size?: number
+  /** SHA-256 of the bytes (hex) - the key in the recipient's attachment store */
+  digest?: string
 }
 
+/**
+ * Attachment bytes sent beside a payload, base64 keyed by digest.
+ * Kept out of the payload so signatures cover the references only.
+ */
+export type AMPAttachmentData = Record<string, string>
+
 /**
  * Complete AMP Message (envelope + payload)
  */
@@ -327,12 +361,27 @@ export interface AMPRouteRequest {
   /** Reply reference */
   in_reply_to?: string
 
+  /** Thread to file the message under (defaults to the thread of in_reply_to) */
+  thread_id?: string
+
+  /**
+   * Members of a group address to deliver to. Only honored on mesh-forwarded
+   * requests: the sending host expands the group and hands each host its members.
+   */
+  group_recipients?: string[]
+
   /** ISO 8601 expiration time for the message */
   expires_at?: string
 
+  /** ISO 8601 time to send the message at; the provider holds it until then */
+  send_at?: string
+
   /** Message payload */
   payload: AMPPayload
 
+  /** Bytes of the payload's attachments */
+  attachment_data?: AMPAttachmentData
+
   /**
    * Client-provided Ed25519 signature (base64)
    * The server will VERIFY this signature, not create one.
@@ -355,7 +404,7 @@ export interface AMPRouteResponse {
   id: string
 
   /** Delivery status */
-  status: 'delivered' | 'queued' | 'failed'
+  status: 'delivered' | 'queued' | 'scheduled' | 'failed'
 
   /** Delivery method used */
   method?: 'websocket' | 'webhook' | 'relay' | 'local' | 'mesh'
@@ -369,6 +418,12 @@ export interface AMPRouteResponse {
   /** Queue timestamp (if queued) */
   queued_at?: string
 
+  /** Send time (if scheduled) */
+  scheduled_for?: string
+
+  /** Per-member delivery status (group and broadcast addresses) */
+  recipients?: AMPRecipientStatus[]
+
   /** Error message (if failed or partial) */
   error?: string
 
@@ -376,6 +431,26 @@ export interface AMPRouteResponse {
   note?: string
 }
 
+/**
+ * Delivery status of one member of a group or broadcast message
+ */
+export interface AMPRecipientStatus {
+  /** Member address */
+  address: string
+
+  /** Delivery status for this member */
+  status: 'delivered' | 'queued' | 'failed'
+
+  /** Delivery method used */
+  method?: 'relay' | 'local' | 'mesh'
+
+  /** Host the member lives on (if not this one) */
+  remote_host?: string
+
+  /** Error message (if failed, or queued after a failed attempt) */
+  error?: string
+}
+
 // ============================================================================
 // Health & Info Types
 // ============================================================================
@@ -435,6 +510,7 @@ export type AMPErrorCode =
   | 'payload_too_large'     // Message payload exceeds size limit
   | 'missing_header'        // Required HTTP header is missing
   | 'duplicate_message'     // Message ID has already been delivered (replay protection)
+  | 'message_expired'       // Message expires_at has already passed
 
 /**
  * AMP error response
@@ -563,6 +639,7 @@ export interface AMPFederationDeliveryRequest {
   envelope: AMPEnvelope
   payload: AMPPayload
   sender_public_key: string
+  attachment_data?: AMPAttachmentData
 }
 
 /**
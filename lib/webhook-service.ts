@@ -9,10 +9,27 @@ import type {
   CreateWebhookRequest,
   WebhookEmailChangedPayload,
   WebhookAgentPayload,
+  WebhookPayload,
+  WebhookTaskPayload,
+  WebhookMeetingPayload,
+  WebhookDelivery,
+  WebhookDeliveryAttempt,
 } from '@/types/agent'
+import type { Task, TaskStatus } from '@/types/task'
+import type { Meeting } from '@/types/team'
 
 const AIMAESTRO_DIR = path.join(os.homedir(), '.aimaestro')
 const WEBHOOKS_FILE = path.join(AIMAESTRO_DIR, 'webhooks.json')
+const DELIVERIES_DIR = path.join(AIMAESTRO_DIR, 'webhook-deliveries')
+
+// Delivery queue tuning
+const DELIVERY_TIMEOUT_MS = 10000
+const MAX_DELIVERY_ATTEMPTS = 8           // After this many failures a delivery is dead-lettered
+const RETRY_BASE_DELAY_MS = 30 * 1000     // 30s, 1m, 2m, 4m, ... capped below
+const RETRY_MAX_DELAY_MS = 60 * 60 * 1000 // 1 hour
+const DELIVERY_LEASE_MS = 30 * 1000       // Attempt in flight; must exceed DELIVERY_TIMEOUT_MS
+const MAX_DELIVERY_HISTORY = 100          // Completed deliveries kept per webhook
+const QUEUE_POLL_INTERVAL_MS = 15 * 1000
 
 // ============================================================================
 // Storage
@@ -129,7 +146,17 @@ export function deleteWebhook(id: string): boolean {
   }
 
   webhooks.splice(index, 1)
-  return saveWebhooks(webhooks)
+  const saved = saveWebhooks(webhooks)
+
+  if (saved) {
+    try {
+      fs.rmSync(deliveriesFile(id), { force: true })
+    } catch (error) {
+      console.error('[Webhooks] Failed to remove delivery history:', error)
+    }
+  }
+
+  return saved
 }
 
 /**
@@ -177,57 +204,226 @@ function generateSignature(payload: string, secret: string): string {
     .digest('hex')
 }
 
+// ============================================================================
+// Delivery Queue
+// ============================================================================
+
 /**
- * Deliver a webhook payload to a subscriber
+ * Per-webhook delivery history file
  */
-async function deliverWebhook(
-  webhook: WebhookSubscription,
-  payload: WebhookEmailChangedPayload | WebhookAgentPayload
-): Promise<boolean> {
+function deliveriesFile(webhookId: string): string {
+  return path.join(DELIVERIES_DIR, `${webhookId}.json`)
+}
+
+/**
+ * Load the delivery history of a webhook (newest first)
+ */
+export function loadDeliveries(webhookId: string): WebhookDelivery[] {
   try {
-    const payloadString = JSON.stringify(payload)
-    const signature = generateSignature(payloadString, webhook.secret)
+    const file = deliveriesFile(webhookId)
+    if (!fs.existsSync(file)) {
+      return []
+    }
+
+    const data = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    return Array.isArray(data.deliveries) ? data.deliveries : []
+  } catch (error) {
+    console.error('[Webhooks] Failed to load deliveries:', error)
+    return []
+  }
+}
+
+/**
+ * Save the delivery history of a webhook, trimming old completed deliveries.
+ * Queued deliveries (pending/retrying) are never trimmed.
+ */
+function saveDeliveries(webhookId: string, deliveries: WebhookDelivery[]): boolean {
+  try {
+    if (!fs.existsSync(DELIVERIES_DIR)) {
+      fs.mkdirSync(DELIVERIES_DIR, { recursive: true })
+    }
+
+    let completed = 0
+    const kept = deliveries.filter(d => {
+      if (d.status === 'pending' || d.status === 'retrying') return true
+      completed++
+      return completed <= MAX_DELIVERY_HISTORY
+    })
+
+    fs.writeFileSync(
+      deliveriesFile(webhookId),
+      JSON.stringify({ version: 1, deliveries: kept }, null, 2),
+      'utf-8'
+    )
+    return true
+  } catch (error) {
+    console.error('[Webhooks] Failed to save deliveries:', error)
+    return false
+  }
+}
 
+/**
+ * Apply a change to a single delivery. The mutator returns false to abort
+ * without saving. Load-modify-save runs synchronously, so callers in the same
+ * process cannot interleave.
+ */
+function updateDelivery(
+  webhookId: string,
+  deliveryId: string,
+  mutate: (delivery: WebhookDelivery) => boolean | void
+): WebhookDelivery | null {
+  const deliveries = loadDeliveries(webhookId)
+  const delivery = deliveries.find(d => d.id === deliveryId)
+  if (!delivery) return null
+
+  if (mutate(delivery) === false) return null
+
+  saveDeliveries(webhookId, deliveries)
+  return delivery
+}
+
+/**
+ * Backoff before the retry that follows a failed attempt
+ */
+export function getRetryDelayMs(attempt: number): number {
+  return Math.min(RETRY_BASE_DELAY_MS * Math.pow(2, attempt - 1), RETRY_MAX_DELAY_MS)
+}
+
+/**
+ * Get a single delivery by ID
+ */
+export function getDelivery(webhookId: string, deliveryId: string): WebhookDelivery | null {
+  return loadDeliveries(webhookId).find(d => d.id === deliveryId) || null
+}
+
+/**
+ * Record a new delivery in the webhook's queue
+ */
+function enqueueDelivery(
+  webhook: WebhookSubscription,
+  event: WebhookEventType,
+  requestBody: string,
+  redeliveryOf?: string
+): WebhookDelivery {
+  const now = new Date().toISOString()
+  const delivery: WebhookDelivery = {
+    id: uuidv4(),
+    webhookId: webhook.id,
+    event,
+    requestBody,
+    status: 'pending',
+    attempts: [],
+    createdAt: now,
+    nextAttemptAt: now,
+  }
+  if (redeliveryOf) {
+    delivery.redeliveryOf = redeliveryOf
+  }
+
+  saveDeliveries(webhook.id, [delivery, ...loadDeliveries(webhook.id)])
+  return delivery
+}
+
+/**
+ * Make one HTTP attempt for a queued delivery and record the outcome.
+ * Returns null if the delivery is gone, finished, or leased by another attempt.
+ */
+async function attemptDelivery(
+  webhook: WebhookSubscription,
+  deliveryId: string
+): Promise<WebhookDelivery | null> {
+  const now = Date.now()
+  const claimed = updateDelivery(webhook.id, deliveryId, delivery => {
+    if (delivery.status === 'delivered' || delivery.status === 'dead') return false
+    if (delivery.lockedUntil && new Date(delivery.lockedUntil).getTime() > now) return false
+    delivery.lockedUntil = new Date(now + DELIVERY_LEASE_MS).toISOString()
+  })
+  if (!claimed) return null
+
+  const attempt: WebhookDeliveryAttempt = {
+    attempt: claimed.attempts.length + 1,
+    attemptedAt: new Date(now).toISOString(),
+    latencyMs: 0,
+  }
+
+  try {
     const response = await fetch(webhook.url, {
       method: 'POST',
       headers: {
         'Content-Type': 'application/json',
-        'X-Webhook-Signature': signature,
-        'X-Webhook-Event': payload.event,
+        'X-Webhook-Signature': generateSignature(claimed.requestBody, webhook.secret),
+        'X-Webhook-Event': claimed.event,
         'X-Webhook-Id': webhook.id,
+        'X-Webhook-Delivery': claimed.id,
       },
-      body: payloadString,
-      signal: AbortSignal.timeout(10000), // 10 second timeout
+      body: claimed.requestBody,
+      signal: AbortSignal.timeout(DELIVERY_TIMEOUT_MS),
     })
-
-    const success = response.ok
-    updateWebhookDeliveryStatus(webhook.id, success)
-
-    if (!success) {
-      console.error(`[Webhooks] Delivery failed to ${webhook.url}: ${response.status}`)
+    attempt.responseStatus = response.status
+    if (!response.ok) {
+      attempt.error = `HTTP ${response.status}`
+    }
+  } catch (error) {
+    attempt.error = error instanceof Error ? error.message : String(error)
+  }
+  attempt.latencyMs = Date.now() - now
+
+  const success = !attempt.error
+  const updated = updateDelivery(webhook.id, deliveryId, delivery => {
+    delivery.attempts.push(attempt)
+    delete delivery.lockedUntil
+
+    if (success) {
+      delivery.status = 'delivered'
+      delivery.completedAt = new Date().toISOString()
+      delete delivery.nextAttemptAt
+    } else if (delivery.attempts.length >= MAX_DELIVERY_ATTEMPTS) {
+      delivery.status = 'dead'
+      delivery.completedAt = new Date().toISOString()
+      delete delivery.nextAttemptAt
     } else {
-      console.log(`[Webhooks] Delivered ${payload.event} to ${webhook.url}`)
+      delivery.status = 'retrying'
+      delivery.nextAttemptAt = new Date(Date.now() + getRetryDelayMs(attempt.attempt)).toISOString()
     }
+  })
 
-    return success
-  } catch (error) {
-    console.error(`[Webhooks] Delivery error to ${webhook.url}:`, error)
-    updateWebhookDeliveryStatus(webhook.id, false)
-    return false
+  updateWebhookDeliveryStatus(webhook.id, success)
+
+  if (success) {
+    console.log(`[Webhooks] Delivered ${claimed.event} to ${webhook.url}`)
+  } else if (updated?.status === 'dead') {
+    console.error(`[Webhooks] Delivery ${claimed.id} to ${webhook.url} dead after ${attempt.attempt} attempts: ${attempt.error}`)
+  } else {
+    console.error(`[Webhooks] Delivery failed to ${webhook.url} (attempt ${attempt.attempt}): ${attempt.error}`)
   }
+
+  return updated
+}
+
+/**
+ * Queue a webhook payload for a subscriber and make the first attempt.
+ * Failed deliveries stay queued and are retried by processWebhookQueue().
+ */
+async function deliverWebhook(
+  webhook: WebhookSubscription,
+  payload: WebhookPayload
+): Promise<boolean> {
+  const delivery = enqueueDelivery(webhook, payload.event, JSON.stringify(payload))
+  const result = await attemptDelivery(webhook, delivery.id)
+  return result?.status === 'delivered'
 }
 
 /**
  * Emit an event to all subscribed webhooks
  */
 export async function emitWebhookEvent(
-  payload: WebhookEmailChangedPayload | WebhookAgentPayload
+  payload: WebhookPayload
 ): Promise<void> {
   const webhooks = loadWebhooks()
 
   // Find webhooks subscribed to this event
   const subscribers = webhooks.filter(w =>
-    w.events.includes(payload.event as WebhookEventType)
+    w.status !== 'inactive' && w.events.includes(payload.event as WebhookEventType)
   )
 
   if (subscribers.length === 0) {
@@ -236,12 +432,121 @@ export async function emitWebhookEvent(
 
   console.log(`[Webhooks] Emitting ${payload.event} to ${subscribers.length} subscriber(s)`)
 
-  // Deliver in parallel (fire-and-forget for now)
+  // Deliver in parallel; failures are retried from the queue
   await Promise.allSettled(
     subscribers.map(webhook => deliverWebhook(webhook, payload))
   )
 }
 
+/**
+ * Re-send a past delivery's exact request body as a new delivery
+ */
+export async function redeliver(
+  webhookId: string,
+  deliveryId: string
+): Promise<WebhookDelivery | null> {
+  const webhook = getWebhook(webhookId)
+  const original = getDelivery(webhookId, deliveryId)
+  if (!webhook || !original) {
+    return null
+  }
+
+  const delivery = enqueueDelivery(webhook, original.event, original.requestBody, original.id)
+  return (await attemptDelivery(webhook, delivery.id)) || getDelivery(webhookId, delivery.id)
+}
+
+/**
+ * Dead-letter the queued deliveries of a webhook that is no longer active
+ */
+function retireQueuedDeliveries(webhookId: string): void {
+  const now = new Date().toISOString()
+  const deliveries = loadDeliveries(webhookId)
+  const queued = deliveries.filter(d => d.status === 'pending' || d.status === 'retrying')
+  if (queued.length === 0) return
+
+  for (const delivery of queued) {
+    delivery.status = 'dead'
+    delivery.completedAt = now
+    delete delivery.nextAttemptAt
+    delete delivery.lockedUntil
+  }
+  saveDeliveries(webhookId, deliveries)
+  console.log(`[Webhooks] Dropped ${queued.length} queued deliver${queued.length === 1 ? 'y' : 'ies'} for inactive webhook ${webhookId}`)
+}
+
+/**
+ * Retry every queued delivery whose backoff has elapsed.
+ * Deliveries of inactive webhooks are dead-lettered instead of sent.
+ */
+export async function processWebhookQueue(): Promise<number> {
+  const now = Date.now()
+  let attempted = 0
+
+  for (const webhook of loadWebhooks()) {
+    if (webhook.status === 'inactive') {
+      retireQueuedDeliveries(webhook.id)
+      continue
+    }
+
+    const due = loadDeliveries(webhook.id).filter(d =>
+      (d.status === 'pending' || d.status === 'retrying') &&
+      (!d.nextAttemptAt || new Date(d.nextAttemptAt).getTime() <= now) &&
+      (!d.lockedUntil || new Date(d.lockedUntil).getTime() <= now)
+    )
+
+    // Oldest first, one at a time per webhook to preserve ordering
+    for (const delivery of due.reverse()) {
+      // The webhook may be deleted or deactivated while earlier deliveries run
+      const current = getWebhook(webhook.id)
+      if (!current || current.status === 'inactive') break
+      if (await attemptDelivery(current, delivery.id)) {
+        attempted++
+      }
+    }
+  }
+
+  return attempted
+}
+
+let queueTimer: NodeJS.Timeout | null = null
+let queueRunning = false
+
+/**
+ * Start the background retry worker (called once from server.mjs)
+ */
+export function startWebhookQueueWorker(intervalMs: number = QUEUE_POLL_INTERVAL_MS): void {
+  if (queueTimer) return
+
+  const tick = async () => {
+    if (queueRunning) return
+    queueRunning = true
+    try {
+      const attempted = await processWebhookQueue()
+      if (attempted > 0) {
+        console.log(`[Webhooks] Retried ${attempted} queued deliver${attempted === 1 ? 'y' : 'ies'}`)
+      }
+    } catch (error) {
+      console.error('[Webhooks] Queue worker error:', error)
+    } finally {
+      queueRunning = false
+    }
+  }
+
+  queueTimer = setInterval(tick, intervalMs)
+  queueTimer.unref?.()
+  tick()
+}
+
+/**
+ * Stop the background retry worker
+ */
+export function stopWebhookQueueWorker(): void {
+  if (queueTimer) {
+    clearInterval(queueTimer)
+    queueTimer = null
+  }
+}
+
 // ============================================================================
 // Event Helpers
 // ============================================================================
@@ -297,6 +602,53 @@ export async function emitAgentEvent(
   await emitWebhookEvent(payload)
 }
 
+/**
+ * Emit team task lifecycle event
+ */
+export async function emitTaskEvent(
+  event: WebhookTaskPayload['event'],
+  teamId: string,
+  task: Task,
+  details: {
+    previousStatus?: TaskStatus
+    previousAssigneeAgentId?: string | null
+    unblocked?: Task[]
+  } = {}
+): Promise<void> {
+  const payload: WebhookTaskPayload = {
+    event,
+    timestamp: new Date().toISOString(),
+    teamId,
+    task,
+    unblocked: details.unblocked || [],
+  }
+  if (details.previousStatus !== undefined) {
+    payload.previousStatus = details.previousStatus
+  }
+  if (details.previousAssigneeAgentId !== undefined) {
+    payload.previousAssigneeAgentId = details.previousAssigneeAgentId
+  }
+
+  await emitWebhookEvent(payload)
+}
+
+/**
+ * Emit team meeting lifecycle event
+ */
+export async function emitMeetingEvent(
+  event: WebhookMeetingPayload['event'],
+  meeting: Meeting
+): Promise<void> {
+  const payload: WebhookMeetingPayload = {
+    event,
+    timestamp: new Date().toISOString(),
+    teamId: meeting.teamId,
+    meeting,
+  }
+
+  await emitWebhookEvent(payload)
+}
+
 /**
  * Send a test webhook to verify connectivity
  */
@@ -48,6 +48,11 @@ const nextConfig = {
         'sharp': 'commonjs sharp',
         'pg': 'commonjs pg',
         'pg-native': 'commonjs pg-native',
+        'mysql2/promise': 'commonjs mysql2/promise',
+        // sql.js loads sql-wasm.wasm relative to its own file
+        'sql.js': 'commonjs sql.js',
+        // tree-sitter.js loads its WASM runtime relative to its own file
+        'web-tree-sitter': 'commonjs web-tree-sitter',
       })
     }
 
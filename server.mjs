@@ -372,10 +372,31 @@ if (!fs.existsSync(logsDir)) {
  * are shared between full and headless modes.
  */
 async function startServer(handleRequest) {
+  // Role-based access control, checked here so headless and full mode share it
+  const { authorizeRequest } = await import('./lib/access-control.ts')
+  const checkAccess = (req, pathname) => authorizeRequest({
+    method: req.method || 'GET',
+    pathname: pathname || '/',
+    remoteAddress: req.socket.remoteAddress,
+    authorization: req.headers.authorization,
+    cookie: req.headers.cookie,
+    forwardedFor: req.headers['x-forwarded-for'],
+  })
+
   const server = createServer(async (req, res) => {
     try {
       const parsedUrl = parse(req.url, true)
 
+      const access = checkAccess(req, parsedUrl.pathname)
+      if (!access.allowed) {
+        res.writeHead(access.status, {
+          'Content-Type': 'application/json',
+          ...(access.status === 401 ? { 'WWW-Authenticate': 'Bearer' } : {}),
+        })
+        res.end(JSON.stringify({ error: access.error }))
+        return
+      }
+
       // Internal endpoint for PTY debug info - served directly from server.mjs
       // This allows access to the in-memory sessions map
       if (parsedUrl.pathname === '/api/internal/pty-sessions') {
@@ -758,6 +779,13 @@ async function startServer(handleRequest) {
   server.on('upgrade', (request, socket, head) => {
     const { pathname, query } = parse(request.url, true)
 
+    const access = checkAccess(request, pathname)
+    if (!access.allowed) {
+      socket.write(`HTTP/1.1 ${access.status} ${access.status === 401 ? 'Unauthorized' : 'Forbidden'}\r\nConnection: close\r\n\r\n`)
+      socket.destroy()
+      return
+    }
+
     if (pathname === '/term') {
       wss.handleUpgrade(request, socket, head, (ws) => {
         wss.emit('connection', ws, request, query)
@@ -813,9 +841,11 @@ async function startServer(handleRequest) {
       }
     }
 
-    // NOTE: Container/cloud agent routing is not yet implemented
-    // Future: Check agent metadata for cloud deployment and proxy to container WebSocket
-    // Currently all agents are local tmux sessions
+    // Resolve the runtime that owns this session (host tmux, or tmux inside a
+    // Docker container for agents with runtime: 'docker')
+    const { getRuntimeForAgent } = await import('./lib/agent-runtime.ts')
+    const { getAgentBySession } = await import('./lib/agent-registry.ts')
+    const sessionRuntime = getRuntimeForAgent(getAgentBySession(sessionName))
 
     // Get or create session state (for traditional local tmux sessions)
     let sessionState = terminalSessions.get(sessionName)
@@ -833,8 +863,7 @@ async function startServer(handleRequest) {
         try {
           // Verify tmux session exists before attempting to attach
           if (attempt === 1) {
-            const { sessionExistsSync } = await import('./lib/agent-runtime.ts')
-            if (!sessionExistsSync(sessionName)) {
+            if (!(await sessionRuntime.sessionExists(sessionName))) {
               // tmux session does not exist
               console.error(`[PTY] tmux session "${sessionName}" does not exist`)
               try {
@@ -849,8 +878,7 @@ async function startServer(handleRequest) {
             }
           }
 
-          const { getRuntime: getRt } = await import('./lib/agent-runtime.ts')
-          const { command: attachCmd, args: attachArgs } = getRt().getAttachCommand(sessionName)
+          const { command: attachCmd, args: attachArgs } = sessionRuntime.getAttachCommand(sessionName)
           ptyProcess = pty.spawn(attachCmd, attachArgs, {
             name: 'xterm-256color',
             cols: 80,
@@ -1009,14 +1037,11 @@ async function startServer(handleRequest) {
     // The client can start typing immediately; history loads in the background
     setTimeout(async () => {
       try {
-        const { getRuntime: getRt } = await import('./lib/agent-runtime.ts')
-        const runtime = getRt()
-
         let historyContent = ''
         try {
           // Capture scrollback history (up to 2000 lines) WITHOUT escape sequences
           // Reduced from 5000 to 2000 for faster loading
-          historyContent = await runtime.capturePane(sessionName, 2000)
+          historyContent = await sessionRuntime.capturePane(sessionName, 2000)
         } catch (historyError) {
           console.error('Failed to capture history:', historyError)
         }
@@ -1182,6 +1207,30 @@ async function startServer(handleRequest) {
 
     // Start periodic orphaned PTY cleanup to prevent leaks
     startOrphanedPtyCleanup()
+
+    // Retry queued webhook deliveries (backoff + dead-letter)
+    try {
+      const { startWebhookQueueWorker } = await import('./lib/webhook-service.ts')
+      startWebhookQueueWorker()
+    } catch (error) {
+      console.error('[Webhooks] Failed to start delivery queue worker:', error)
+    }
+
+    // Materialize recurring team tasks as they come due
+    try {
+      const { startTaskScheduler } = await import('./services/teams-service.ts')
+      startTaskScheduler()
+    } catch (error) {
+      console.error('[Tasks] Failed to start recurring task scheduler:', error)
+    }
+
+    // Send scheduled messages (send_at) as they come due
+    try {
+      const { startMessageScheduler } = await import('./services/amp-service.ts')
+      startMessageScheduler()
+    } catch (error) {
+      console.error('[Scheduler] Failed to start message scheduler:', error)
+    }
   })
 
   // Graceful shutdown - kill PTYs FIRST before closing server
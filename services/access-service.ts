@@ -0,0 +1,194 @@
+/**
+ * Access Service
+ *
+ * Pure business logic for app/api/auth/** routes.
+ * No HTTP concepts (Request, Response, NextResponse) leak into this module;
+ * cookies are returned as response headers on the ServiceResult.
+ *
+ * Covers:
+ *   POST   /api/auth/login          -> loginWithToken
+ *   POST   /api/auth/logout         -> logout
+ *   GET    /api/auth/me             -> getCurrentAccess
+ *   GET    /api/auth/settings       -> getAccessControlSettings
+ *   PUT    /api/auth/settings       -> updateAccessControlSettings
+ *   GET    /api/auth/tokens         -> listTokens
+ *   POST   /api/auth/tokens         -> createToken
+ *   DELETE /api/auth/tokens/[id]    -> revokeToken
+ *   GET    /api/auth/audit          -> listAccessDenials
+ *
+ * Enforcement itself happens in server.mjs via lib/access-control.ts.
+ */
+
+import {
+  ACCESS_COOKIE,
+  AccessControlError,
+  getAccessSettings,
+  updateAccessSettings,
+  listAccessTokens,
+  createAccessToken,
+  revokeAccessToken,
+  resolveAccessToken,
+  extractAccessToken,
+  loadAccessAudit,
+} from '@/lib/access-control'
+import type { AccessAuditEntry, AccessPrincipal, AccessTokenSummary } from '@/types/access'
+
+// ---------------------------------------------------------------------------
+// Types
+// ---------------------------------------------------------------------------
+
+export interface ServiceResult<T> {
+  data?: T
+  error?: string
+  status: number  // HTTP-like status code for the route to use
+  headers?: Record<string, string>
+}
+
+export interface AccessSettingsResponse {
+  enabled: boolean
+  trustLocal: boolean
+  adminAgents: string[]
+}
+
+// ---------------------------------------------------------------------------
+// Constants
+// ---------------------------------------------------------------------------
+
+const SESSION_MAX_AGE_SECONDS = 30 * 24 * 60 * 60
+const DEFAULT_AUDIT_LIMIT = 100
+
+function sessionCookie(value: string, maxAge: number): string {
+  return `${ACCESS_COOKIE}=${encodeURIComponent(value)}; Path=/; HttpOnly; SameSite=Strict; Max-Age=${maxAge}`
+}
+
+// ===========================================================================
+// PUBLIC API -- called by API routes
+// ===========================================================================
+
+/**
+ * Exchange a token for a session cookie so the browser UI can use it.
+ */
+export function loginWithToken(body: { token?: unknown }): ServiceResult<{ principal: AccessPrincipal }> {
+  if (typeof body.token !== 'string' || !body.token.trim()) {
+    return { error: 'token is required', status: 400 }
+  }
+  const token = body.token.trim()
+  const principal = resolveAccessToken(token)
+  if (!principal) {
+    return { error: 'Invalid or expired token', status: 401 }
+  }
+  return {
+    data: { principal },
+    status: 200,
+    headers: { 'Set-Cookie': sessionCookie(token, SESSION_MAX_AGE_SECONDS) },
+  }
+}
+
+/**
+ * Clear the session cookie.
+ */
+export function logout(): ServiceResult<{ success: boolean }> {
+  return {
+    data: { success: true },
+    status: 200,
+    headers: { 'Set-Cookie': sessionCookie('', 0) },
+  }
+}
+
+/**
+ * Report whether access control is on and who the caller is.
+ */
+export function getCurrentAccess(
+  authorization: string | null,
+  cookie: string | null
+): ServiceResult<{ enabled: boolean; principal: AccessPrincipal | null }> {
+  const { enabled } = getAccessSettings()
+  const token = extractAccessToken(authorization, cookie)
+  return {
+    data: { enabled, principal: token ? resolveAccessToken(token) : null },
+    status: 200,
+  }
+}
+
+export function getAccessControlSettings(): ServiceResult<AccessSettingsResponse> {
+  return { data: getAccessSettings(), status: 200 }
+}
+
+export function updateAccessControlSettings(body: { enabled?: unknown; trustLocal?: unknown; adminAgents?: unknown }): ServiceResult<AccessSettingsResponse> {
+  if (body.enabled !== undefined && typeof body.enabled !== 'boolean') {
+    return { error: 'enabled must be a boolean', status: 400 }
+  }
+  if (body.trustLocal !== undefined && typeof body.trustLocal !== 'boolean') {
+    return { error: 'trustLocal must be a boolean', status: 400 }
+  }
+  if (body.adminAgents !== undefined &&
+      (!Array.isArray(body.adminAgents) || !body.adminAgents.every(id => typeof id === 'string' && id.length > 0))) {
+    return { error: 'adminAgents must be an array of agent IDs', status: 400 }
+  }
+  try {
+    return {
+      data: updateAccessSettings({
+        enabled: body.enabled,
+        trustLocal: body.trustLocal,
+        adminAgents: body.adminAgents as string[] | undefined,
+      }),
+      status: 200,
+    }
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return { error: error.message, status: 400 }
+    }
+    console.error('[Access] Failed to update settings:', error)
+    return { error: 'Failed to update access control settings', status: 500 }
+  }
+}
+
+export function listTokens(): ServiceResult<{ tokens: AccessTokenSummary[] }> {
+  return { data: { tokens: listAccessTokens() }, status: 200 }
+}
+
+/**
+ * Issue a token. The response is the only time the secret is shown.
+ */
+export function createToken(body: { name?: unknown; grants?: unknown; expiresAt?: unknown }): ServiceResult<{ token: string; record: AccessTokenSummary }> {
+  try {
+    const created = createAccessToken({
+      name: body.name as string,
+      grants: body.grants,
+      expiresAt: body.expiresAt as string | undefined,
+    })
+    return { data: created, status: 201 }
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return { error: error.message, status: 400 }
+    }
+    console.error('[Access] Failed to create token:', error)
+    return { error: 'Failed to create token', status: 500 }
+  }
+}
+
+export function revokeToken(id: string): ServiceResult<{ success: boolean }> {
+  try {
+    if (!revokeAccessToken(id)) {
+      return { error: 'Token not found', status: 404 }
+    }
+    return { data: { success: true }, status: 200 }
+  } catch (error) {
+    if (error instanceof AccessControlError) {
+      return { error: error.message, status: 409 }
+    }
+    console.error('[Access] Failed to revoke token:', error)
+    return { error: 'Failed to revoke token', status: 500 }
+  }
+}
+
+/**
+ * Denied requests, newest first.
+ */
+export function listAccessDenials(limit?: string | null): ServiceResult<{ entries: AccessAuditEntry[] }> {
+  const parsed = limit ? parseInt(limit, 10) : DEFAULT_AUDIT_LIMIT
+  if (isNaN(parsed) || parsed < 1) {
+    return { error: 'limit must be a positive integer', status: 400 }
+  }
+  return { data: { entries: loadAccessAudit().slice(0, parsed) }, status: 200 }
+}
@@ -6,7 +6,7 @@
  */
 
 import { getAgent } from '@/lib/agent-registry'
-import { getRuntime } from '@/lib/agent-runtime'
+import { getRuntimeForAgent } from '@/lib/agent-runtime'
 import * as fs from 'fs'
 import * as path from 'path'
 import * as crypto from 'crypto'
@@ -165,7 +165,7 @@ export async function getConversationMessages(
     const sessionName = agent.name || agent.alias
     if (sessionName) {
       try {
-        const runtime = getRuntime()
+        const runtime = getRuntimeForAgent(agent)
         const stdout = await runtime.capturePane(sessionName, 40)
         const tmuxLines = stdout.trim().split('\n')
         const recentLines = tmuxLines.slice(-10)
@@ -262,7 +262,7 @@ export async function sendChatMessage(
     return { error: 'Agent session is not online', status: 400 }
   }
 
-  const runtime = getRuntime()
+  const runtime = getRuntimeForAgent(agent)
   await runtime.sendKeys(sessionName, message, { literal: true, enter: true })
 
   console.log('[Chat Service] Message sent successfully')
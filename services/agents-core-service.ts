@@ -61,7 +61,8 @@ import { persistSession, unpersistSession } from '@/lib/session-persistence'
 import { initAgentAMPHome, getAgentAMPDir } from '@/lib/amp-inbox-writer'
 import { initializeAllAgents, getStartupStatus } from '@/lib/agent-startup'
 import { sessionActivity } from '@/services/shared-state'
-import { getRuntime } from '@/lib/agent-runtime'
+import { getRuntimeForAgent, getRuntimesForAgents } from '@/lib/agent-runtime'
+import type { AgentRuntime } from '@/lib/agent-runtime'
 import type { Host } from '@/types/host'
 
 // ---------------------------------------------------------------------------
@@ -199,12 +200,12 @@ function resolveStartCommand(program: string): string {
 }
 
 /**
- * Discover all tmux sessions on this host
+ * Discover all tmux sessions on this host (including sessions inside agent containers)
  */
 async function discoverLocalSessions(): Promise<DiscoveredSession[]> {
   try {
-    const runtime = getRuntime()
-    const discovered = await runtime.listSessions()
+    const runtimes = getRuntimesForAgents(loadAgents())
+    const discovered = (await Promise.all(runtimes.map(r => r.listSessions()))).flat()
 
     return discovered.map(disc => {
       const activityTimestamp = sessionActivity.get(disc.name)
@@ -317,13 +318,13 @@ function mergeAgentWithSession(
  * Non-fatal -- agent still works without AMP.
  */
 async function setupAMPForSession(
+  runtime: AgentRuntime,
   sessionName: string,
   agentName: string,
   agentId?: string
 ): Promise<string> {
   let ampDir = ''
   try {
-    const runtime = getRuntime()
     await initAgentAMPHome(agentName, agentId)
     ampDir = getAgentAMPDir(agentName, agentId)
     await runtime.setEnvironment(sessionName, 'AMP_DIR', ampDir)
@@ -1023,7 +1024,7 @@ export async function getAgentSessionStatus(agentId: string): Promise<ServiceRes
       }
     }
 
-    const runtime = getRuntime()
+    const runtime = getRuntimeForAgent(agent)
     const exists = await runtime.sessionExists(sessionName)
     const lastActivity = sessionActivity.get(sessionName) || null
     const timeSinceActivity = lastActivity ? Date.now() - lastActivity : null
@@ -1112,7 +1113,7 @@ export async function sendAgentSessionCommand(
       return { error: 'Agent has no name configured', status: 400 }
     }
 
-    const runtime = getRuntime()
+    const runtime = getRuntimeForAgent(agent)
     const exists = await runtime.sessionExists(sessionName)
     if (!exists) {
       return { error: 'Tmux session not found', status: 404 }
@@ -1181,7 +1182,7 @@ export async function unlinkOrDeleteAgentSession(
       return { error: 'Agent not found', status: 404 }
     }
 
-    const runtime = getRuntime()
+    const runtime = getRuntimeForAgent(agent)
     const sessionName = agent.name || agent.alias
 
     if (shouldDeleteAgent) {
@@ -1273,7 +1274,7 @@ export async function wakeAgent(agentId: string, params: WakeAgentParams): Promi
                             agent.preferences?.defaultWorkingDirectory ||
                             process.cwd()
 
-    const runtime = getRuntime()
+    const runtime = getRuntimeForAgent(agent)
     const sessionName = computeSessionName(agentName, sessionIndex)
 
     // Check if session already exists
@@ -1313,7 +1314,7 @@ export async function wakeAgent(agentId: string, params: WakeAgentParams): Promi
     })
 
     // Set up AMP
-    const ampDir = await setupAMPForSession(sessionName, agentName, agentId)
+    const ampDir = await setupAMPForSession(runtime, sessionName, agentName, agentId)
 
     // Start the AI program if requested
     if (startProgram) {
@@ -1407,7 +1408,7 @@ export async function hibernateAgent(agentId: string, params: HibernateAgentPara
       return { error: 'Agent has no name configured', status: 400 }
     }
 
-    const runtime = getRuntime()
+    const runtime = getRuntimeForAgent(agent)
     const sessionName = computeSessionName(agentName, sessionIndex)
 
     // Check if session exists
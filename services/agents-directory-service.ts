@@ -26,13 +26,22 @@ import {
   diagnoseHostIds,
   normalizeAllAgentHostIds,
 } from '@/lib/agent-registry'
+import { authenticatePeer, type MeshRequest } from '@/lib/mesh-auth'
 
 // ---------------------------------------------------------------------------
 // GET /api/agents/directory
 // ---------------------------------------------------------------------------
 
-export function getDirectory(): ServiceResult<any> {
+/**
+ * Only trusted peers may read the directory; the request must be signed.
+ */
+export function getDirectory(mesh: MeshRequest): ServiceResult<any> {
   try {
+    const peerAuth = authenticatePeer('GET', '/api/agents/directory', mesh)
+    if (!peerAuth.ok) {
+      return { error: peerAuth.error || 'Peer not trusted', status: peerAuth.status }
+    }
+
     rebuildLocalDirectory()
     const entries = getLocalEntriesForSync()
     const stats = getDirectoryStats()
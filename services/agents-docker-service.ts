@@ -175,6 +175,7 @@ export async function createDockerAgent(body: DockerCreateRequest): Promise<Serv
     const agents = loadAgents()
     const idx = agents.findIndex(a => a.id === agent.id)
     if (idx !== -1) {
+      agents[idx].runtime = 'docker'
       agents[idx].deployment = {
         type: 'cloud',
         cloud: {
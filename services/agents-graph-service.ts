@@ -15,8 +15,12 @@
  *   GET    /api/agents/:id/graph/code         -> queryCodeGraph
  *   POST   /api/agents/:id/graph/code         -> indexCodeGraph
  *   DELETE /api/agents/:id/graph/code         -> clearCodeGraph
+ *   POST   /api/agents/:id/graph/code/impact  -> analyzeCodeImpact
  */
 
+import fs from 'fs'
+import { execFile } from 'child_process'
+import { promisify } from 'util'
 import { agentRegistry } from '@/lib/agent'
 import { getAgent as getAgentFromRegistry } from '@/lib/agent-registry'
 import {
@@ -28,7 +32,7 @@ import {
   findTableDependents,
   analyzeColumnTypeChange,
 } from '@/lib/rag/db-indexer'
-import { introspectDatabase } from '@/lib/rag/pg-introspector'
+import { createIntrospector, detectDbEngine, resolveSqlitePath, type DbEngine } from '@/lib/rag/db-introspector'
 import {
   indexProject,
   indexProjectDelta,
@@ -39,6 +43,9 @@ import {
   initializeFileMetadata,
   getProjectFileMetadata,
 } from '@/lib/rag/code-indexer'
+import { analyzeImpact, formatImpactMarkdown, loadImpactGraph, parseDiffFiles } from '@/lib/rag/impact'
+
+const execFileAsync = promisify(execFile)
 
 // ---------------------------------------------------------------------------
 // Types
@@ -284,24 +291,43 @@ export async function queryDbGraph(
 
 export async function indexDbSchema(
   agentId: string,
-  body: { connectionString: string; clear?: boolean }
+  body: {
+    connectionString?: string
+    filePath?: string
+    engine?: DbEngine
+    includeSchemas?: string[]
+    clear?: boolean
+  }
 ): Promise<ServiceResult<any>> {
   try {
-    const { connectionString, clear = true } = body
+    const { connectionString, filePath, includeSchemas, clear = true } = body
+
+    if (!connectionString && !filePath) {
+      return { error: 'Missing required parameter: connectionString or filePath', status: 400 }
+    }
+
+    const engine = detectDbEngine(body)
+    if (!engine) {
+      return { error: 'Cannot determine database engine; pass "engine" (postgres, mysql or sqlite)', status: 400 }
+    }
 
-    if (!connectionString) {
-      return { error: 'Missing required parameter: connectionString', status: 400 }
+    if (engine === 'sqlite' && !fs.existsSync(resolveSqlitePath(body))) {
+      return { error: `SQLite database file not found: ${resolveSqlitePath(body)}`, status: 404 }
     }
 
-    console.log(`[Graph Service] Indexing database schema for agent ${agentId}`)
+    console.log(`[Graph Service] Indexing ${engine} database schema for agent ${agentId}`)
 
     const agent = await agentRegistry.getAgent(agentId)
     const agentDb = await agent.getDatabase()
 
     console.log(`[Graph Service] Introspecting database...`)
-    const { Pool } = await import('pg')
-    const pool = new Pool({ connectionString })
-    const dbSchema = await introspectDatabase(pool)
+    const introspector = await createIntrospector({ engine, connectionString, filePath })
+    let dbSchema
+    try {
+      dbSchema = await introspector.introspect(includeSchemas ? { includeSchemas } : {})
+    } finally {
+      await introspector.close()
+    }
 
     if (clear) {
       console.log(`[Graph Service] Clearing existing database schema graph...`)
@@ -311,7 +337,7 @@ export async function indexDbSchema(
     const stats = await indexDatabaseSchema(agentDb, dbSchema)
 
     return {
-      data: { success: true, agent_id: agentId, database: dbSchema.database, stats },
+      data: { success: true, agent_id: agentId, engine, database: dbSchema.database, stats },
       status: 200
     }
   } catch (error) {
@@ -1299,3 +1325,101 @@ export async function deleteCodeGraph(
     }
   }
 }
+
+// ===========================================================================
+// PUBLIC API — Impact Analysis (POST /api/agents/:id/graph/code/impact)
+// ===========================================================================
+
+/**
+ * Functions, components and test files affected by changing a set of files.
+ * Changed files come from a file list, a unified diff, or `git diff` against
+ * a ref in the project directory. format=markdown adds a summary for review tasks.
+ */
+export async function analyzeCodeImpact(
+  agentId: string,
+  body: {
+    files?: string[]
+    diff?: string
+    gitRef?: string
+    projectPath?: string
+    depth?: number
+    limit?: number
+    format?: 'json' | 'markdown'
+  }
+): Promise<ServiceResult<any>> {
+  try {
+    const { files, diff, gitRef, depth, limit, format } = body
+    let { projectPath } = body
+
+    if (files !== undefined && (!Array.isArray(files) || files.some(f => typeof f !== 'string'))) {
+      return { error: 'files must be an array of paths', status: 400 }
+    }
+    if (diff !== undefined && typeof diff !== 'string') {
+      return { error: 'diff must be a string', status: 400 }
+    }
+    if (gitRef !== undefined && (typeof gitRef !== 'string' || !/^[\w./~^@{}-]+$/.test(gitRef) || gitRef.startsWith('-'))) {
+      return { error: 'Invalid gitRef', status: 400 }
+    }
+    if (!files?.length && !diff && !gitRef) {
+      return { error: 'Provide files, diff or gitRef', status: 400 }
+    }
+    if (depth !== undefined && (!Number.isInteger(depth) || depth < 1)) {
+      return { error: 'depth must be a positive integer', status: 400 }
+    }
+    if (limit !== undefined && (!Number.isInteger(limit) || limit < 1)) {
+      return { error: 'limit must be a positive integer', status: 400 }
+    }
+
+    const changed = new Set<string>(files || [])
+    if (diff) {
+      for (const file of parseDiffFiles(diff)) changed.add(file)
+    }
+
+    if (gitRef) {
+      if (!projectPath) {
+        const registryAgent = getAgentFromRegistry(agentId)
+        projectPath = registryAgent?.workingDirectory ||
+                      registryAgent?.sessions?.[0]?.workingDirectory ||
+                      registryAgent?.preferences?.defaultWorkingDirectory
+        if (!projectPath) {
+          return { error: 'gitRef requires a projectPath or an agent working directory', status: 400 }
+        }
+      }
+      try {
+        const { stdout } = await execFileAsync('git', ['diff', '--name-only', '--relative', gitRef, '--'], {
+          cwd: projectPath,
+          maxBuffer: 10 * 1024 * 1024,
+        })
+        for (const file of stdout.split('\n').map(l => l.trim()).filter(Boolean)) changed.add(file)
+      } catch (error) {
+        return { error: `git diff failed: ${error instanceof Error ? error.message : String(error)}`, status: 400 }
+      }
+    }
+
+    console.log(`[Graph Service] analyzeCodeImpact Agent: ${agentId}, ${changed.size} changed files, depth ${depth ?? 'default'}`)
+
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const graph = await loadImpactGraph(agentDb, projectPath)
+    const report = analyzeImpact(graph, Array.from(changed), { depth, maxNodes: limit })
+
+    return {
+      data: {
+        success: true,
+        agent_id: agentId,
+        projectPath: projectPath || null,
+        result: report,
+        // Ready to paste into a review task
+        ...(format === 'markdown' ? { markdown: formatImpactMarkdown(report) } : {}),
+      },
+      status: 200
+    }
+  } catch (error) {
+    console.error('[Graph Service] analyzeCodeImpact Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
@@ -11,12 +11,20 @@
  *   GET    /api/agents/:id/memory/consolidate       -> getConsolidationStatus
  *   POST   /api/agents/:id/memory/consolidate       -> triggerConsolidation
  *   PATCH  /api/agents/:id/memory/consolidate       -> manageConsolidation
+ *   GET    /api/agents/:id/memory/settings          -> getMemorySettings
+ *   PUT    /api/agents/:id/memory/settings          -> updateMemorySettings
  *   GET    /api/agents/:id/memory/long-term         -> queryLongTermMemories
  *   DELETE /api/agents/:id/memory/long-term         -> deleteLongTermMemory
  *   PATCH  /api/agents/:id/memory/long-term         -> updateLongTermMemory
+ *   GET    /api/agents/:id/memory/conflicts         -> listMemoryConflicts
+ *   POST   /api/agents/:id/memory/conflicts/:cid    -> reviewMemoryConflict
+ *   GET    /api/agents/:id/memory/export            -> exportAgentMemories
+ *   POST   /api/agents/:id/memory/import            -> importAgentMemories
  *   GET    /api/agents/:id/search                   -> searchConversations
  *   POST   /api/agents/:id/search                   -> ingestConversations
  *   POST   /api/agents/:id/index-delta              -> runDeltaIndex
+ *   GET    /api/agents/:id/embeddings               -> getEmbeddingStatus
+ *   POST   /api/agents/:id/embeddings               -> triggerReembed
  *   GET    /api/agents/:id/tracking                 -> getTracking
  *   POST   /api/agents/:id/tracking                 -> initializeTracking
  *   GET    /api/agents/:id/metrics                  -> getMetrics
@@ -40,6 +48,7 @@ import { initializeRagSchema } from '@/lib/cozo-schema-rag'
 import { getAgent as getRegistryAgent, getAgentBySession, updateAgentMetrics, incrementAgentMetric, getAgent as getAgentFromFileRegistry } from '@/lib/agent-registry'
 import { getSelfHost } from '@/lib/hosts-config'
 import { hybridSearch, semanticSearch, searchByTerm, searchBySymbol } from '@/lib/rag/search'
+import { RERANKERS, type RerankerName } from '@/lib/rag/rerank'
 import { runIndexDelta } from '@/lib/index-delta'
 import {
   initializeTrackingSchema,
@@ -50,8 +59,11 @@ import {
   getAgentFullContext,
   getAgentWorkHistory
 } from '@/lib/cozo-schema'
-import { consolidateMemories, promoteMemories, pruneShortTermMemory } from '@/lib/memory/consolidate'
-import type { PreparedConversation, ConversationMessage } from '@/lib/memory/types'
+import { consolidateMemories, promoteMemories, pruneShortTermMemory, runMemoryMaintenance } from '@/lib/memory/consolidate'
+import type { PreparedConversation, ConversationMessage, LLMProviderPreference, MemorySettings } from '@/lib/memory/types'
+import { loadMemorySettings, saveMemorySettings, type MemorySettingsUpdate } from '@/lib/memory/settings'
+import { exportMemories, importMemories } from '@/lib/memory/transfer'
+import { parseMemoryExport, parseCategoryMap, MEMORY_CATEGORIES } from '@/lib/memory/portable'
 import {
   searchMemories,
   getMemoriesByType,
@@ -66,9 +78,27 @@ import {
   buildMemoryContext,
   getMemoryById
 } from '@/lib/memory/search'
-import type { MemoryCategory } from '@/lib/cozo-schema-memory'
+import {
+  getMemoryConflicts,
+  getMemoryConflict,
+  resolveMemoryConflict,
+  deleteMemoryConflicts,
+  supersedeMemory,
+  setMemoryTier,
+  pinMemory,
+  unpinMemory,
+  getPinnedMemoryIds,
+  type MemoryCategory,
+  type MemoryConflict,
+  type MemoryConflictStatus
+} from '@/lib/cozo-schema-memory'
 import { escapeForCozo } from '@/lib/cozo-utils'
-import { embedTexts } from '@/lib/rag/embeddings'
+import type { AgentDatabase } from '@/lib/cozo-db'
+import { embedText } from '@/lib/rag/embeddings'
+import { loadEmbeddingConfig } from '@/lib/rag/embedding-providers'
+import { getVectorModels } from '@/lib/cozo-schema-rag'
+import { VECTOR_RELATIONS, isVectorModelCurrent, ensureVectorModels } from '@/lib/rag/vector-models'
+import { getReembedJob, startReembedJob } from '@/lib/rag/reembed'
 import type { UpdateAgentMetricsRequest } from '@/types/agent'
 
 // ---------------------------------------------------------------------------
@@ -472,10 +502,12 @@ export async function getConsolidationStatus(agentId: string): Promise<ServiceRe
 
     const runsResult = await agentDb.run(`
       ?[run_id, started_at, completed_at, status, conversations_processed,
-        memories_created, memories_reinforced, memories_linked, llm_provider, error] :=
+        memories_created, memories_reinforced, memories_linked, llm_provider, error,
+        run_type, memories_promoted, memories_demoted, memories_archived, messages_pruned] :=
         *consolidation_runs{run_id, agent_id, started_at, completed_at, status,
           conversations_processed, memories_created, memories_reinforced, memories_linked,
-          llm_provider, error},
+          llm_provider, error, run_type, memories_promoted, memories_demoted,
+          memories_archived, messages_pruned},
         agent_id = '${agentId}'
 
       :order -started_at
@@ -515,7 +547,12 @@ export async function getConsolidationStatus(agentId: string): Promise<ServiceRe
           memories_reinforced: row[6],
           memories_linked: row[7],
           llm_provider: row[8],
-          error: row[9]
+          error: row[9],
+          run_type: row[10],
+          memories_promoted: row[11],
+          memories_demoted: row[12],
+          memories_archived: row[13],
+          messages_pruned: row[14]
         }))
       },
       status: 200
@@ -535,7 +572,8 @@ export async function triggerConsolidation(
 ): Promise<ServiceResult<any>> {
   try {
     const dryRun = options.dryRun || false
-    const provider = (options.provider || 'auto') as 'ollama' | 'claude' | 'auto'
+    const settings = loadMemorySettings(agentId).consolidation
+    const provider = (options.provider || settings.llmProvider) as LLMProviderPreference
     const maxConversations = options.maxConversations || 50
 
     const agent = await agentRegistry.getAgent(agentId)
@@ -565,7 +603,15 @@ export async function triggerConsolidation(
     const result = await consolidateMemories(agentDb, agentId, conversations, {
       dryRun,
       provider,
-      maxConversations
+      maxConversations,
+      minConfidence: settings.minConfidence,
+      ollamaModel: settings.ollamaModel,
+      ollamaEndpoint: settings.ollamaEndpoint,
+      claudeModel: settings.claudeModel,
+      openaiBaseUrl: settings.openaiBaseUrl,
+      openaiModel: settings.openaiModel,
+      openaiAuthHeader: settings.openaiAuthHeader,
+      openaiApiKey: settings.openaiApiKey
     })
 
     return {
@@ -591,12 +637,14 @@ export async function manageConsolidation(
   try {
     const agent = await agentRegistry.getAgent(agentId)
     const agentDb = await agent.getDatabase()
+    const retention = loadMemorySettings(agentId).retention
 
     switch (body.action) {
       case 'promote': {
         const result = await promoteMemories(agentDb, agentId, {
-          minReinforcements: body.minReinforcements,
-          minAgeDays: body.minAgeDays,
+          minReinforcements: body.minReinforcements ?? retention.warmToLongMinReinforcements,
+          minAgeDays: body.minAgeDays ?? retention.warmToLongPromotionDays,
+          decay: retention,
           dryRun: body.dryRun
         })
         return {
@@ -607,7 +655,7 @@ export async function manageConsolidation(
 
       case 'prune': {
         const result = await pruneShortTermMemory(agentDb, agentId, {
-          retentionDays: body.retentionDays,
+          retentionDays: body.retentionDays ?? retention.shortTermDays,
           dryRun: body.dryRun
         })
         return {
@@ -616,6 +664,17 @@ export async function manageConsolidation(
         }
       }
 
+      case 'maintain': {
+        const result = await runMemoryMaintenance(agentDb, agentId, {
+          retention,
+          dryRun: body.dryRun
+        })
+        return {
+          data: { success: result.status === 'completed', action: 'maintain', ...result },
+          status: 200
+        }
+      }
+
       default:
         return {
           error: `Unknown action: ${body.action}`,
@@ -631,10 +690,197 @@ export async function manageConsolidation(
   }
 }
 
+// ===========================================================================
+// PUBLIC API — Settings (GET/PUT /api/agents/:id/memory/settings)
+// ===========================================================================
+
+const LLM_PROVIDERS: LLMProviderPreference[] = ['auto', 'ollama', 'claude', 'openai']
+
+/**
+ * Settings as returned over the API: the OpenAI key is never echoed back
+ */
+function toPublicMemorySettings(settings: MemorySettings) {
+  const { openaiApiKey, ...consolidation } = settings.consolidation
+  return {
+    ...settings,
+    consolidation: { ...consolidation, openaiApiKeySet: !!openaiApiKey }
+  }
+}
+
+function isHttpUrl(value: unknown): boolean {
+  if (typeof value !== 'string') return false
+  try {
+    const url = new URL(value)
+    return url.protocol === 'http:' || url.protocol === 'https:'
+  } catch {
+    return false
+  }
+}
+
+type SettingRule =
+  | { type: 'boolean' }
+  | { type: 'number'; min: number; max: number; integer?: boolean }
+  | { type: 'enum'; values: readonly string[] }
+  | { type: 'string'; pattern?: RegExp; message?: string; allowEmpty?: boolean }
+  | { type: 'url' }
+  | { type: 'halfLives' }
+
+const DAYS = { type: 'number', min: 0, max: 36500, integer: true } as const
+const SCORE = { type: 'number', min: 0, max: 1 } as const
+const NAME = { type: 'string' } as const
+
+const MEMORY_SETTING_RULES: Record<keyof MemorySettings, Record<string, SettingRule>> = {
+  consolidation: {
+    enabled: { type: 'boolean' },
+    schedule: { type: 'enum', values: ['nightly', 'weekly', 'manual'] },
+    nightlyTime: { type: 'string', pattern: /^([01]\d|2[0-3]):[0-5]\d$/, message: 'must be a 24h time like "02:00"' },
+    llmProvider: { type: 'enum', values: LLM_PROVIDERS },
+    ollamaModel: NAME,
+    ollamaEndpoint: { type: 'url' },
+    claudeModel: NAME,
+    openaiBaseUrl: { type: 'url' },
+    openaiModel: NAME,
+    openaiAuthHeader: { type: 'string', pattern: /^[A-Za-z0-9-]+$/, message: 'must be a valid header name' },
+    openaiApiKey: { type: 'string', allowEmpty: true },  // Empty clears the stored key
+    minConfidence: SCORE,
+    maxMemoriesPerConversation: { type: 'number', min: 1, max: 100, integer: true },
+  },
+  retention: {
+    shortTermDays: DAYS,
+    pruneAfterConsolidation: { type: 'boolean' },
+    warmToLongPromotionDays: DAYS,
+    warmToLongMinReinforcements: { type: 'number', min: 0, max: 1000, integer: true },
+    decayHalfLifeDays: DAYS,
+    categoryHalfLifeDays: { type: 'halfLives' },
+    demoteBelowScore: SCORE,
+    archiveBelowScore: SCORE,
+  },
+  search: {
+    defaultLimit: { type: 'number', min: 1, max: 100, integer: true },
+    includeRelatedByDefault: { type: 'boolean' },
+    relatedDepth: { type: 'number', min: 1, max: 5, integer: true },
+  },
+}
+
+/**
+ * Check one setting against its rule. Returns an error message or null.
+ */
+function checkSetting(field: string, value: unknown, rule: SettingRule): string | null {
+  switch (rule.type) {
+    case 'boolean':
+      return typeof value === 'boolean' ? null : `${field} must be a boolean`
+    case 'number':
+      if (typeof value !== 'number' || !Number.isFinite(value) || value < rule.min || value > rule.max ||
+          (rule.integer && !Number.isInteger(value))) {
+        return `${field} must be ${rule.integer ? 'an integer' : 'a number'} between ${rule.min} and ${rule.max}`
+      }
+      return null
+    case 'enum':
+      return rule.values.includes(value as string) ? null : `Invalid ${field}. Use one of: ${rule.values.join(', ')}`
+    case 'string':
+      if (typeof value !== 'string' || (!rule.allowEmpty && !value.trim()) || value.length > 500) {
+        return `${field} must be a non-empty string`
+      }
+      return rule.pattern && !rule.pattern.test(value) ? `${field} ${rule.message}` : null
+    case 'url':
+      return isHttpUrl(value) ? null : `${field} must be an http(s) URL`
+    case 'halfLives': {
+      if (typeof value !== 'object' || value === null || Array.isArray(value)) {
+        return `${field} must be an object of category: days`
+      }
+      for (const [category, days] of Object.entries(value)) {
+        if (!(MEMORY_CATEGORIES as string[]).includes(category)) {
+          return `${field}: unknown category ${category}. Use one of: ${MEMORY_CATEGORIES.join(', ')}`
+        }
+        const error = checkSetting(`${field}.${category}`, days, DAYS)
+        if (error) return error
+      }
+      return null
+    }
+  }
+}
+
+/**
+ * Validate a settings update section by section. Unknown sections are
+ * rejected; unknown fields (e.g. openaiApiKeySet from a GET) are dropped.
+ */
+function parseMemorySettingsUpdate(body: unknown): { update: MemorySettingsUpdate } | { error: string } {
+  if (!body || typeof body !== 'object' || Array.isArray(body)) {
+    return { error: 'Settings are required' }
+  }
+
+  const update: Record<string, Record<string, unknown>> = {}
+  for (const [section, values] of Object.entries(body)) {
+    const rules = MEMORY_SETTING_RULES[section as keyof MemorySettings]
+    if (!rules) {
+      return { error: `Unknown settings section: ${section}. Use consolidation, retention or search` }
+    }
+    if (!values || typeof values !== 'object' || Array.isArray(values)) {
+      return { error: `${section} must be an object` }
+    }
+
+    update[section] = {}
+    for (const [field, value] of Object.entries(values)) {
+      const rule = rules[field]
+      if (!rule || value === undefined) continue
+      const error = checkSetting(field, value, rule)
+      if (error) return { error }
+      update[section][field] = value
+    }
+  }
+
+  return { update: update as MemorySettingsUpdate }
+}
+
+export function getMemorySettings(agentId: string): ServiceResult<any> {
+  if (!getRegistryAgent(agentId)) {
+    return { error: 'Agent not found', status: 404 }
+  }
+  return {
+    data: { success: true, agent_id: agentId, settings: toPublicMemorySettings(loadMemorySettings(agentId)) },
+    status: 200
+  }
+}
+
+export function updateMemorySettings(agentId: string, body: unknown): ServiceResult<any> {
+  try {
+    if (!getRegistryAgent(agentId)) {
+      return { error: 'Agent not found', status: 404 }
+    }
+    const parsed = parseMemorySettingsUpdate(body)
+    if ('error' in parsed) {
+      return { error: parsed.error, status: 400 }
+    }
+
+    const settings = saveMemorySettings(agentId, parsed.update)
+    return {
+      data: { success: true, agent_id: agentId, settings: toPublicMemorySettings(settings) },
+      status: 200
+    }
+  } catch (error) {
+    console.error('[Memory Service] updateMemorySettings Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
 // ===========================================================================
 // PUBLIC API — Long-Term Memory (GET/DELETE/PATCH /api/agents/:id/memory/long-term)
 // ===========================================================================
 
+/**
+ * Mark which memories are pinned (exempt from decay)
+ */
+async function withPinned<T extends { memory_id: string }>(
+  agentDb: AgentDatabase,
+  memories: T[]
+): Promise<Array<T & { pinned: boolean }>> {
+  const pinned = await getPinnedMemoryIds(agentDb)
+  return memories.map(m => ({ ...m, pinned: pinned.has(m.memory_id) }))
+}
+
 export async function queryLongTermMemories(
   agentId: string,
   params: {
@@ -664,12 +910,12 @@ export async function queryLongTermMemories(
     }
 
     if (view === 'recent') {
-      const memories = await getRecentMemories(agentDb, agentId, limit)
+      const memories = await withPinned(agentDb, await getRecentMemories(agentDb, agentId, limit))
       return { data: { success: true, agent_id: agentId, memories, count: memories.length }, status: 200 }
     }
 
     if (view === 'reinforced') {
-      const memories = await getMostReinforcedMemories(agentDb, agentId, limit)
+      const memories = await withPinned(agentDb, await getMostReinforcedMemories(agentDb, agentId, limit))
       return { data: { success: true, agent_id: agentId, memories, count: memories.length }, status: 200 }
     }
 
@@ -719,7 +965,8 @@ export async function queryLongTermMemories(
       if (!memory) {
         return { error: 'Memory not found', status: 404 }
       }
-      return { data: { success: true, agent_id: agentId, memory }, status: 200 }
+      const [annotated] = await withPinned(agentDb, [memory])
+      return { data: { success: true, agent_id: agentId, memory: annotated }, status: 200 }
     }
 
     if (category && !query) {
@@ -732,21 +979,22 @@ export async function queryLongTermMemories(
         case 'insight': memories = await getInsights(agentDb, agentId, limit); break
         default: memories = await getMemoriesByType(agentDb, agentId, category, { limit, includeRelated })
       }
-      return { data: { success: true, agent_id: agentId, category, memories, count: memories.length }, status: 200 }
+      const annotated = await withPinned(agentDb, memories)
+      return { data: { success: true, agent_id: agentId, category, memories: annotated, count: annotated.length }, status: 200 }
     }
 
     if (query) {
-      const memories = await searchMemories(agentDb, agentId, query, {
+      const memories = await withPinned(agentDb, await searchMemories(agentDb, agentId, query, {
         limit,
         includeRelated,
         categories: category ? [category] : undefined,
         minConfidence,
         tier: tier || undefined
-      })
+      }))
       return { data: { success: true, agent_id: agentId, query, memories, count: memories.length }, status: 200 }
     }
 
-    const memories = await getRecentMemories(agentDb, agentId, limit)
+    const memories = await withPinned(agentDb, await getRecentMemories(agentDb, agentId, limit))
     return { data: { success: true, agent_id: agentId, memories, count: memories.length }, status: 200 }
   } catch (error) {
     console.error('[Memory Service] queryLongTermMemories Error:', error)
@@ -789,6 +1037,8 @@ export async function deleteLongTermMemory(agentId: string, memoryId: string): P
         to_memory_id = '${memoryId}'
       :delete memory_links
     `)
+    await deleteMemoryConflicts(agentDb, memoryId)
+    await unpinMemory(agentDb, memoryId)
 
     return { data: { success: true, deleted: memoryId }, status: 200 }
   } catch (error) {
@@ -802,17 +1052,22 @@ export async function deleteLongTermMemory(agentId: string, memoryId: string): P
 
 export async function updateLongTermMemory(
   agentId: string,
-  body: { id: string; content?: string; category?: string; context?: string }
+  body: { id: string; content?: string; category?: string; context?: string; pinned?: boolean }
 ): Promise<ServiceResult<any>> {
   try {
-    const { id: memoryId, content, category, context } = body
+    const { id: memoryId, content, category, context, pinned } = body
 
     if (!memoryId) {
       return { error: 'Memory ID is required', status: 400 }
     }
 
-    if (!content && !category && context === undefined) {
-      return { error: 'At least one field (content, category, context) must be provided', status: 400 }
+    if (pinned !== undefined && typeof pinned !== 'boolean') {
+      return { error: 'pinned must be a boolean', status: 400 }
+    }
+
+    const editsContent = !!content || !!category || context !== undefined
+    if (!editsContent && pinned === undefined) {
+      return { error: 'At least one field (content, category, context, pinned) must be provided', status: 400 }
     }
 
     const agent = await agentRegistry.getAgent(agentId)
@@ -827,6 +1082,21 @@ export async function updateLongTermMemory(
       return { error: 'Memory does not belong to this agent', status: 403 }
     }
 
+    if (pinned === true) {
+      await pinMemory(agentDb, memoryId)
+      // Pinning brings an archived memory back into recall
+      if (memory.tier === 'archived') {
+        await setMemoryTier(agentDb, memoryId, 'warm')
+      }
+    } else if (pinned === false) {
+      await unpinMemory(agentDb, memoryId)
+    }
+
+    if (!editsContent) {
+      const [updatedMemory] = await withPinned(agentDb, [(await getMemoryById(agentDb, memoryId))!])
+      return { data: { success: true, memory: updatedMemory }, status: 200 }
+    }
+
     const newContent = content || memory.content
     const newCategory = category || memory.category
     const newContext = context !== undefined ? context : memory.context
@@ -851,8 +1121,7 @@ export async function updateLongTermMemory(
     `)
 
     if (content && content !== memory.content) {
-      const embeddings = await embedTexts([content])
-      const embeddingArray = Array.from(embeddings[0])
+      const embeddingArray = await embedText(content)
 
       await agentDb.run(`
         ?[memory_id, vec] <- [[${escapeForCozo(memoryId)}, vec(${JSON.stringify(embeddingArray)})]]
@@ -860,7 +1129,7 @@ export async function updateLongTermMemory(
       `)
     }
 
-    const updatedMemory = await getMemoryById(agentDb, memoryId)
+    const [updatedMemory] = await withPinned(agentDb, [(await getMemoryById(agentDb, memoryId))!])
 
     return { data: { success: true, memory: updatedMemory }, status: 200 }
   } catch (error) {
@@ -872,6 +1141,233 @@ export async function updateLongTermMemory(
   }
 }
 
+// ===========================================================================
+// PUBLIC API — Export / Import (GET /api/agents/:id/memory/export,
+//                               POST /api/agents/:id/memory/import)
+// ===========================================================================
+
+export async function exportAgentMemories(
+  agentId: string
+): Promise<ServiceResult<{ content: string; filename: string; memories: number; links: number }>> {
+  try {
+    const registryAgent = getRegistryAgent(agentId)
+    if (!registryAgent) {
+      return { error: 'Agent not found', status: 404 }
+    }
+
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const exported = await exportMemories(agentDb, agentId)
+    const name = (registryAgent.name || agentId).replace(/[^a-zA-Z0-9_-]/g, '_')
+    const date = new Date().toISOString().slice(0, 10)
+
+    return {
+      data: { ...exported, filename: `${name}-memories-${date}.jsonl` },
+      status: 200
+    }
+  } catch (error) {
+    console.error('[Memory Service] exportAgentMemories Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
+export async function importAgentMemories(
+  agentId: string,
+  content: string,
+  options: {
+    reembed?: boolean
+    dedupe?: boolean
+    categoryMap?: string | Record<string, string> | null
+    dryRun?: boolean
+  } = {}
+): Promise<ServiceResult<any>> {
+  try {
+    if (!getRegistryAgent(agentId)) {
+      return { error: 'Agent not found', status: 404 }
+    }
+    if (!content || !content.trim()) {
+      return { error: 'Request body must be a memory export (JSONL)', status: 400 }
+    }
+
+    let parsed
+    let categoryMap
+    try {
+      parsed = parseMemoryExport(content)
+      categoryMap = parseCategoryMap(options.categoryMap)
+    } catch (parseError) {
+      return { error: parseError instanceof Error ? parseError.message : 'Invalid memory export', status: 400 }
+    }
+
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const result = await importMemories(agentDb, agentId, parsed, {
+      reembed: options.reembed,
+      dedupe: options.dedupe,
+      categoryMap,
+      dryRun: options.dryRun
+    })
+
+    return {
+      data: {
+        success: true,
+        agent_id: agentId,
+        source_agent_id: parsed.header.agent_id,
+        dry_run: !!options.dryRun,
+        ...result
+      },
+      status: 200
+    }
+  } catch (error) {
+    console.error('[Memory Service] importAgentMemories Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
+// ===========================================================================
+// PUBLIC API — Conflict Review (GET /api/agents/:id/memory/conflicts,
+//                               POST /api/agents/:id/memory/conflicts/:cid)
+// ===========================================================================
+
+const CONFLICT_STATUSES: MemoryConflictStatus[] = ['pending', 'accepted', 'rejected']
+
+/**
+ * Load one side of a conflict with the conversations it came from
+ */
+async function getConflictSide(agentDb: AgentDatabase, memoryId: string): Promise<any | null> {
+  const result = await agentDb.run(`
+    ?[memory_id, category, tier, content, context, confidence, reinforcement_count,
+      created_at, source_conversations] :=
+      *memories{memory_id, category, tier, content, context, confidence, reinforcement_count,
+        created_at, source_conversations},
+      memory_id = ${escapeForCozo(memoryId)}
+  `)
+  if (result.rows.length === 0) return null
+
+  const row = result.rows[0]
+  let sourceConversations: string[] = []
+  try {
+    sourceConversations = row[8] ? JSON.parse(row[8] as string) : []
+  } catch {
+    sourceConversations = []
+  }
+
+  return {
+    memory_id: row[0] as string,
+    category: row[1] as string,
+    tier: row[2] as string,
+    content: row[3] as string,
+    context: row[4] as string | null,
+    confidence: row[5] as number,
+    reinforcement_count: row[6] as number,
+    created_at: row[7] as number,
+    source_conversations: sourceConversations
+  }
+}
+
+async function withConflictSides(agentDb: AgentDatabase, conflict: MemoryConflict): Promise<any | null> {
+  const [a, b] = await Promise.all([
+    getConflictSide(agentDb, conflict.memory_a),
+    getConflictSide(agentDb, conflict.memory_b)
+  ])
+  if (!a || !b) return null
+  return { ...conflict, memories: { a, b } }
+}
+
+export async function listMemoryConflicts(
+  agentId: string,
+  params: { status?: string | null; limit?: number }
+): Promise<ServiceResult<any>> {
+  try {
+    const status = params.status || 'pending'
+    if (status !== 'all' && !CONFLICT_STATUSES.includes(status as MemoryConflictStatus)) {
+      return { error: `Invalid status: ${status}. Use pending, accepted, rejected or all`, status: 400 }
+    }
+
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const conflicts = await getMemoryConflicts(agentDb, agentId, {
+      status: status === 'all' ? undefined : status as MemoryConflictStatus,
+      limit: params.limit
+    })
+
+    // Pairs where one memory has since been deleted are dropped
+    const withSides = (await Promise.all(conflicts.map(c => withConflictSides(agentDb, c)))).filter(Boolean)
+
+    return {
+      data: { success: true, agent_id: agentId, status, conflicts: withSides, count: withSides.length },
+      status: 200
+    }
+  } catch (error) {
+    console.error('[Memory Service] listMemoryConflicts Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
+/**
+ * Accept or reject a conflict. Accepting supersedes the losing memory
+ * (the suggested one unless winnerId picks the other side); rejecting keeps both.
+ */
+export async function reviewMemoryConflict(
+  agentId: string,
+  conflictId: string,
+  body: { action?: string; winnerId?: string }
+): Promise<ServiceResult<any>> {
+  try {
+    if (body.action !== 'accept' && body.action !== 'reject') {
+      return { error: 'action must be "accept" or "reject"', status: 400 }
+    }
+
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const conflict = await getMemoryConflict(agentDb, conflictId)
+    if (!conflict || conflict.agent_id !== agentId) {
+      return { error: 'Conflict not found', status: 404 }
+    }
+    if (conflict.status !== 'pending') {
+      return { error: `Conflict already ${conflict.status}`, status: 409 }
+    }
+
+    if (body.action === 'reject') {
+      await resolveMemoryConflict(agentDb, conflictId, 'rejected')
+    } else {
+      const winnerId = body.winnerId || conflict.suggested_winner
+      if (winnerId !== conflict.memory_a && winnerId !== conflict.memory_b) {
+        return { error: 'winnerId must be one of the conflicting memories', status: 400 }
+      }
+      const loserId = winnerId === conflict.memory_a ? conflict.memory_b : conflict.memory_a
+
+      if (!(await getMemoryById(agentDb, winnerId)) || !(await getMemoryById(agentDb, loserId))) {
+        return { error: 'Memory not found', status: 404 }
+      }
+
+      await supersedeMemory(agentDb, winnerId, loserId)
+      await resolveMemoryConflict(agentDb, conflictId, 'accepted', winnerId)
+    }
+
+    const updated = await getMemoryConflict(agentDb, conflictId)
+    return { data: { success: true, conflict: updated }, status: 200 }
+  } catch (error) {
+    console.error('[Memory Service] reviewMemoryConflict Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
 // ===========================================================================
 // PUBLIC API — Search (GET/POST /api/agents/:id/search)
 // ===========================================================================
@@ -890,13 +1386,17 @@ export async function searchConversations(
     useRrf?: boolean
     bm25Weight?: number
     semanticWeight?: number
+    rerank?: string
+    rerankDepth?: number
+    explain?: boolean
   }
 ): Promise<ServiceResult<any>> {
   try {
     const {
       query, mode = 'hybrid', limit = 10, minScore = 0,
       roleFilter, conversationFile, startTs, endTs,
-      useRrf = true, bm25Weight = 0.4, semanticWeight = 0.6
+      useRrf = true, bm25Weight = 0.4, semanticWeight = 0.6,
+      rerank = 'none', rerankDepth, explain = false
     } = params
 
     if (!query) {
@@ -907,6 +1407,18 @@ export async function searchConversations(
       return { error: 'Invalid mode. Must be: hybrid, semantic, term, or symbol', status: 400 }
     }
 
+    if (!RERANKERS.includes(rerank as RerankerName)) {
+      return { error: `Invalid rerank. Must be one of: ${RERANKERS.join(', ')}`, status: 400 }
+    }
+
+    if (!Number.isInteger(limit) || limit < 1) {
+      return { error: 'limit must be a positive integer', status: 400 }
+    }
+
+    if (rerankDepth !== undefined && (!Number.isInteger(rerankDepth) || rerankDepth < 1)) {
+      return { error: 'rerankDepth must be a positive integer', status: 400 }
+    }
+
     // Trigger delta indexing before search
     triggerBackgroundDeltaIndexing(agentId).catch((err) => {
       console.error('[Memory Service] Background delta indexing failed:', err)
@@ -926,7 +1438,10 @@ export async function searchConversations(
         semanticWeight,
         roleFilter: roleFilter || undefined,
         conversationFile: conversationFile || undefined,
-        timeRange: startTs && endTs ? { start: startTs, end: endTs } : undefined
+        timeRange: startTs && endTs ? { start: startTs, end: endTs } : undefined,
+        rerank: rerank as RerankerName,
+        rerankDepth,
+        explain,
       })
     } else if (mode === 'semantic') {
       results = await semanticSearch(agentDb, query, limit, conversationFile)
@@ -937,7 +1452,10 @@ export async function searchConversations(
     }
 
     return {
-      data: { success: true, agent_id: agentId, query, mode, results, count: results.length },
+      data: {
+        success: true, agent_id: agentId, query, mode, results, count: results.length,
+        ...(mode === 'hybrid' ? { rerank } : {}),
+      },
       status: 200
     }
   } catch (error) {
@@ -1004,6 +1522,91 @@ export async function runDeltaIndex(
   }
 }
 
+// ===========================================================================
+// PUBLIC API — Embeddings (GET/POST /api/agents/:id/embeddings)
+// ===========================================================================
+
+/**
+ * Embedding model of each vector relation and the current re-embed job
+ */
+export async function getEmbeddingStatus(agentId: string): Promise<ServiceResult<any>> {
+  try {
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const config = loadEmbeddingConfig()
+    const records = await getVectorModels(agentDb)
+
+    return {
+      data: {
+        success: true,
+        agent_id: agentId,
+        active: { provider: config.provider, model: config.model, dimension: config.dimension },
+        relations: VECTOR_RELATIONS.map(relation => {
+          const record = records.find(r => r.relation === relation)
+          return {
+            relation,
+            provider: record?.provider ?? null,
+            model: record?.model ?? null,
+            dimension: record?.dimension ?? null,
+            status: record?.status ?? null,
+            updated_at: record?.updated_at ?? null,
+            current: isVectorModelCurrent(record, config)
+          }
+        }),
+        job: getReembedJob(agentId)
+      },
+      status: 200
+    }
+  } catch (error) {
+    console.error('[Memory Service] getEmbeddingStatus Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
+/**
+ * Re-embed stale vector relations, or every relation with force
+ */
+export async function triggerReembed(
+  agentId: string,
+  body: { force?: boolean } = {}
+): Promise<ServiceResult<any>> {
+  try {
+    const agent = await agentRegistry.getAgent(agentId)
+    const agentDb = await agent.getDatabase()
+
+    const running = getReembedJob(agentId)
+    if (running?.status === 'running') {
+      return { error: 'A re-embed job is already running for this agent', status: 409 }
+    }
+
+    if (body.force) {
+      const job = startReembedJob(agentDb, agentId, VECTOR_RELATIONS)
+      return { data: { success: true, agent_id: agentId, job }, status: 202 }
+    }
+
+    const plan = await ensureVectorModels(agentDb, agentId)
+    return {
+      data: {
+        success: true,
+        agent_id: agentId,
+        reembedding: plan.reembed,
+        job: plan.reembed.length > 0 ? getReembedJob(agentId) : null
+      },
+      status: plan.reembed.length > 0 ? 202 : 200
+    }
+  } catch (error) {
+    console.error('[Memory Service] triggerReembed Error:', error)
+    return {
+      error: error instanceof Error ? error.message : 'Unknown error',
+      status: 500
+    }
+  }
+}
+
 // ===========================================================================
 // PUBLIC API — Tracking (GET/POST /api/agents/:id/tracking)
 // ===========================================================================
@@ -10,7 +10,12 @@
  * Covers:
  *   GET    /api/agents/:id/messages                     -> listMessages
  *   POST   /api/agents/:id/messages                     -> sendMessage
+ *   GET    /api/agents/:id/messages/threads             -> listMessageThreads
+ *   GET    /api/agents/:id/messages/threads/:threadId   -> getMessageThread
+ *   GET    /api/agents/:id/messages/scheduled           -> listScheduledMessages
+ *   DELETE /api/agents/:id/messages/scheduled/:messageId -> cancelScheduledMessage
  *   GET    /api/agents/:id/messages/:messageId           -> getMessage
+ *   GET    /api/agents/:id/messages/:messageId/attachments/:digest -> getMessageAttachment
  *   PATCH  /api/agents/:id/messages/:messageId           -> updateMessage
  *   DELETE /api/agents/:id/messages/:messageId           -> deleteMessage
  *   POST   /api/agents/:id/messages/:messageId           -> forwardMessage
@@ -24,6 +29,10 @@
  *   GET    /api/agents/:id/email/addresses/:address      -> getEmailAddress
  *   PATCH  /api/agents/:id/email/addresses/:address      -> updateEmailAddressOnAgent
  *   DELETE /api/agents/:id/email/addresses/:address      -> removeEmailAddressFromAgent
+ *   GET    /api/agents/:id/inbox-rules                   -> listInboxRules
+ *   POST   /api/agents/:id/inbox-rules                   -> addInboxRuleToAgent
+ *   PATCH  /api/agents/:id/inbox-rules/:ruleId           -> updateInboxRuleOnAgent
+ *   DELETE /api/agents/:id/inbox-rules/:ruleId           -> removeInboxRuleFromAgent
  *   GET    /api/agents/email-index                       -> getEmailIndex
  */
 
@@ -32,11 +41,19 @@ import {
   listAgentSentMessages,
   getAgentMessageStats,
   getAgentMessage,
+  getAgentMessageAttachment,
+  listAgentMessageThreads,
+  getAgentMessageThread,
+  listAgentScheduledMessages,
+  cancelAgentScheduledMessage,
   markAgentMessageAsRead,
   archiveAgentMessage,
   deleteAgentMessage,
 } from '@/lib/agent-messaging'
 import { sendFromUI, forwardFromUI } from '@/lib/message-send'
+import { parseSendAt } from '@/lib/message-scheduler'
+import { attachmentResponseHeaders, isValidDigest, readAttachmentInput, scanAttachment } from '@/lib/attachment-store'
+import { InboxRuleError, loadInboxRules, createInboxRule, updateInboxRule, deleteInboxRule } from '@/lib/inbox-rules'
 import type { Message } from '@/lib/messageQueue'
 import {
   getAgent,
@@ -64,6 +81,7 @@ export interface ServiceResult<T> {
   data?: T
   error?: string
   status: number
+  headers?: Record<string, string>
 }
 
 // ---------------------------------------------------------------------------
@@ -224,25 +242,39 @@ export async function listMessages(
 
 export async function sendMessage(
   agentId: string,
-  body: { to: string; subject: string; content: Message['content']; priority?: Message['priority']; inReplyTo?: string }
+  body: { to: string; subject: string; content: Message['content']; priority?: Message['priority']; inReplyTo?: string; threadId?: string; sendAt?: string }
 ): Promise<ServiceResult<any>> {
   try {
-    const { to, subject, content, priority, inReplyTo } = body
+    const { to, subject, content, priority, inReplyTo, threadId } = body
 
     if (!to || !subject || !content) {
       return { error: 'Missing required fields: to, subject, content', status: 400 }
     }
 
+    const schedule = parseSendAt(body.sendAt)
+    if (schedule.error !== undefined) {
+      return { error: schedule.error, status: 400 }
+    }
+
+    // content.attachments may carry new files as base64 { name, data }
+    const attachmentInput = readAttachmentInput(content.attachments)
+    if (attachmentInput.error !== undefined) {
+      return { error: attachmentInput.error, status: attachmentInput.status }
+    }
+
     const result = await sendFromUI({
       from: agentId,
       to,
       subject,
-      content,
+      content: { ...content, attachments: attachmentInput.attachments.length > 0 ? attachmentInput.attachments : undefined },
+      attachments: attachmentInput.uploads,
       priority,
       inReplyTo,
+      threadId,
+      sendAt: schedule.sendAt || undefined,
     })
 
-    return { data: { message: result.message, notified: result.notified }, status: 201 }
+    return { data: { message: result.message, notified: result.notified, scheduledFor: result.scheduledFor }, status: 201 }
   } catch (error) {
     const message = error instanceof Error ? error.message : 'Failed to send message'
     console.error('Failed to send message:', error)
@@ -250,6 +282,79 @@ export async function sendMessage(
   }
 }
 
+// ===========================================================================
+// PUBLIC API — Threads (GET /api/agents/:id/messages/threads[/:threadId])
+// ===========================================================================
+
+export async function listMessageThreads(
+  agentId: string,
+  params: { limit?: string | number }
+): Promise<ServiceResult<any>> {
+  try {
+    const limit = params.limit !== undefined ? parseInt(String(params.limit), 10) : undefined
+    if (limit !== undefined && (isNaN(limit) || limit < 1)) {
+      return { error: 'limit must be a positive integer', status: 400 }
+    }
+
+    const threads = await listAgentMessageThreads(agentId, { limit })
+    return { data: { threads }, status: 200 }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list threads'
+    console.error('Failed to list threads:', error)
+    return { error: message, status: 500 }
+  }
+}
+
+export async function getMessageThread(
+  agentId: string,
+  threadId: string
+): Promise<ServiceResult<any>> {
+  try {
+    const thread = await getAgentMessageThread(agentId, threadId)
+
+    if (!thread) {
+      return { error: 'Thread not found', status: 404 }
+    }
+
+    return { data: { thread }, status: 200 }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get thread'
+    console.error('Failed to get thread:', error)
+    return { error: message, status: 500 }
+  }
+}
+
+// ===========================================================================
+// PUBLIC API — Scheduled sends (GET/DELETE /api/agents/:id/messages/scheduled[/:messageId])
+// ===========================================================================
+
+export async function listScheduledMessages(agentId: string): Promise<ServiceResult<any>> {
+  try {
+    const scheduled = listAgentScheduledMessages(agentId)
+    return { data: { scheduled }, status: 200 }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to list scheduled messages'
+    console.error('Failed to list scheduled messages:', error)
+    return { error: message, status: 500 }
+  }
+}
+
+export async function cancelScheduledMessage(
+  agentId: string,
+  messageId: string
+): Promise<ServiceResult<any>> {
+  try {
+    if (!cancelAgentScheduledMessage(agentId, messageId)) {
+      return { error: 'Scheduled message not found', status: 404 }
+    }
+    return { data: { success: true }, status: 200 }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to cancel scheduled message'
+    console.error('Failed to cancel scheduled message:', error)
+    return { error: message, status: 500 }
+  }
+}
+
 // ===========================================================================
 // PUBLIC API — Single Message (GET/PATCH/DELETE/POST /api/agents/:id/messages/:messageId)
 // ===========================================================================
@@ -274,6 +379,42 @@ export async function getMessage(
   }
 }
 
+export async function getMessageAttachment(
+  agentId: string,
+  messageId: string,
+  digest: string,
+  box: 'inbox' | 'sent' = 'inbox'
+): Promise<ServiceResult<{ name: string; type: string; data: Buffer }>> {
+  try {
+    if (!isValidDigest(digest)) {
+      return { error: 'Invalid attachment digest', status: 400 }
+    }
+
+    const found = await getAgentMessageAttachment(agentId, messageId, digest, box)
+    if (!found) {
+      return { error: 'Attachment not found', status: 404 }
+    }
+
+    // The stored (sniffed) type wins over whatever the sender declared
+    const file = { path: found.filePath, name: found.attachment.name, type: found.info.type, digest }
+    const scan = await scanAttachment(file)
+    if (!scan.clean) {
+      console.warn(`[Attachments] Blocked ${file.name} (${digest}) for agent ${agentId}: ${scan.reason}`)
+      return { error: `Attachment blocked by scanner: ${scan.reason || 'flagged'}`, status: 403 }
+    }
+
+    return {
+      data: { name: file.name, type: file.type, data: found.data },
+      status: 200,
+      headers: attachmentResponseHeaders({ name: file.name, type: file.type, size: found.data.length }),
+    }
+  } catch (error) {
+    const message = error instanceof Error ? error.message : 'Failed to get attachment'
+    console.error('Failed to get attachment:', error)
+    return { error: message, status: 500 }
+  }
+}
+
 export async function updateMessage(
   agentId: string,
   messageId: string,
@@ -666,6 +807,80 @@ export function removeEmailAddressFromAgent(agentId: string, address: string): S
   }
 }
 
+// ===========================================================================
+// PUBLIC API — Inbox Rules (GET/POST /api/agents/:id/inbox-rules, PATCH/DELETE .../:ruleId)
+// ===========================================================================
+
+export function listInboxRules(agentId: string): ServiceResult<any> {
+  try {
+    const agent = getAgent(agentId)
+    if (!agent) {
+      return { error: 'Agent not found', status: 404 }
+    }
+
+    return { data: { agentId: agent.id, rules: loadInboxRules(agent.id) }, status: 200 }
+  } catch (error) {
+    console.error('Failed to list inbox rules:', error)
+    return { error: 'Failed to list inbox rules', status: 500 }
+  }
+}
+
+export function addInboxRuleToAgent(agentId: string, body: Record<string, unknown>): ServiceResult<any> {
+  try {
+    const agent = getAgent(agentId)
+    if (!agent) {
+      return { error: 'Agent not found', status: 404 }
+    }
+
+    const rule = createInboxRule(agent.id, body || {})
+    return { data: { rule, rules: loadInboxRules(agent.id) }, status: 201 }
+  } catch (error) {
+    if (error instanceof InboxRuleError) {
+      return { error: error.message, status: 400 }
+    }
+    console.error('Failed to create inbox rule:', error)
+    return { error: 'Failed to create inbox rule', status: 500 }
+  }
+}
+
+export function updateInboxRuleOnAgent(agentId: string, ruleId: string, body: Record<string, unknown>): ServiceResult<any> {
+  try {
+    const agent = getAgent(agentId)
+    if (!agent) {
+      return { error: 'Agent not found', status: 404 }
+    }
+
+    const rule = updateInboxRule(agent.id, ruleId, body || {})
+    if (!rule) {
+      return { error: 'Inbox rule not found', status: 404 }
+    }
+    return { data: { rule, rules: loadInboxRules(agent.id) }, status: 200 }
+  } catch (error) {
+    if (error instanceof InboxRuleError) {
+      return { error: error.message, status: 400 }
+    }
+    console.error('Failed to update inbox rule:', error)
+    return { error: 'Failed to update inbox rule', status: 500 }
+  }
+}
+
+export function removeInboxRuleFromAgent(agentId: string, ruleId: string): ServiceResult<any> {
+  try {
+    const agent = getAgent(agentId)
+    if (!agent) {
+      return { error: 'Agent not found', status: 404 }
+    }
+
+    if (!deleteInboxRule(agent.id, ruleId)) {
+      return { error: 'Inbox rule not found', status: 404 }
+    }
+    return { data: { success: true, rules: loadInboxRules(agent.id) }, status: 200 }
+  } catch (error) {
+    console.error('Failed to delete inbox rule:', error)
+    return { error: 'Failed to delete inbox rule', status: 500 }
+  }
+}
+
 // ===========================================================================
 // PUBLIC API — Email Index (GET /api/agents/email-index)
 // ===========================================================================
@@ -14,6 +14,7 @@
  *   DELETE /api/v1/messages/pending           -> acknowledgePendingMessage
  *   POST   /api/v1/messages/pending           -> batchAcknowledgeMessages
  *   POST   /api/v1/messages/:id/read          -> sendReadReceipt
+ *   GET    /api/v1/attachments/:digest        -> getAttachment
  *   GET    /api/v1/agents                     -> listAMPAgents
  *   GET    /api/v1/agents/me                  -> getAgentSelf
  *   PATCH  /api/v1/agents/me                  -> updateAgentSelf
@@ -23,6 +24,13 @@
  *   POST   /api/v1/auth/rotate-key            -> rotateKey
  *   POST   /api/v1/auth/rotate-keys           -> rotateKeypair
  *   POST   /api/v1/federation/deliver         -> deliverFederated
+ *
+ *   Group addresses (team-{name}@tenant, admin-only *@tenant) fan out in
+ *   dispatchRoute() with per-member status; remote members are forwarded
+ *   once per host.
+ *
+ *   startMessageScheduler() (server.mjs) -> runMessageScheduler every 30s
+ *   (send_at messages from routeMessage and sendFromUI)
  */
 
 import crypto from 'crypto'
@@ -35,10 +43,17 @@ import { authenticateRequest, createApiKey, hashApiKey, extractApiKeyFromHeader,
 import { saveKeyPair, loadKeyPair, calculateFingerprint, verifySignature, generateKeyPair } from '@/lib/amp-keys'
 import { queueMessage, getPendingMessages, acknowledgeMessage, acknowledgeMessages, cleanupAllExpiredMessages } from '@/lib/amp-relay'
 import { deliver } from '@/lib/message-delivery'
+import { decodeAttachmentData, storeAttachmentFiles, readStoredAttachment, scanAttachment, isValidDigest, attachmentResponseHeaders, MAX_MESSAGE_ATTACHMENT_BYTES } from '@/lib/attachment-store'
 import { deliverViaWebSocket } from '@/lib/amp-websocket'
-import { resolveAgentIdentifier } from '@/lib/messageQueue'
+import { resolveAgentIdentifier, resolveReplyThreadId } from '@/lib/messageQueue'
 import { getSelfHostId, getSelfHost, getHostById, isSelf, getOrganization } from '@/lib/hosts-config-server.mjs'
-import { AMP_PROTOCOL_VERSION, getAMPProviderDomain } from '@/lib/types/amp'
+import { authenticatePeer, signMeshRequest, type MeshRequest } from '@/lib/mesh-auth'
+import { sendFromUI, type SendFromUIOptions } from '@/lib/message-send'
+import { parseSendAt, scheduleMessage, getDueScheduledMessages, completeScheduledMessage, failScheduledMessage, type ScheduledMessage } from '@/lib/message-scheduler'
+import { getTeamByAddressName } from '@/lib/team-registry'
+import { isAdminAgent } from '@/lib/access-control'
+import { AMP_PROTOCOL_VERSION, AMP_BROADCAST_NAME, getAMPProviderDomain, isAMPMessageExpired, isAMPGroupName } from '@/lib/types/amp'
+import type { Agent } from '@/types/agent'
 import type {
   AMPHealthResponse,
   AMPInfoResponse,
@@ -46,11 +61,13 @@ import type {
   AMPRegistrationResponse,
   AMPRouteRequest,
   AMPRouteResponse,
+  AMPRecipientStatus,
   AMPPendingMessagesResponse,
   AMPAgentResolveResponse,
   AMPKeyRotationResponse,
   AMPEnvelope,
   AMPPayload,
+  AMPAttachmentData,
   AMPError,
   AMPNameTakenError,
 } from '@/lib/types/amp'
@@ -78,6 +95,8 @@ const SERVER_START_TIME = Date.now()
 const MESH_DISCOVERY_TIMEOUT_MS = 3000
 const FORWARD_TIMEOUT_MS = 10000
 const MAX_PAYLOAD_SIZE = 1024 * 1024  // 1 MB
+// Message plus base64-encoded attachments (4 bytes per 3)
+const MAX_ROUTE_BODY_SIZE = MAX_PAYLOAD_SIZE + Math.ceil(MAX_MESSAGE_ATTACHMENT_BYTES / 3) * 4
 const ROUTE_RATE_LIMIT_MAX = 60
 const ROUTE_RATE_LIMIT_WINDOW_MS = 60_000
 
@@ -340,22 +359,18 @@ async function forwardToHost(
   const timeoutId = setTimeout(() => controller.abort(), FORWARD_TIMEOUT_MS)
 
   try {
-    const response = await fetch(`${remoteHost.url}/api/v1/route`, {
-      method: 'POST',
-      signal: controller.signal,
-      headers: {
-        'Content-Type': 'application/json',
-        'X-Forwarded-From': selfHostId,
-        'X-AMP-Envelope-Id': envelope.id,
-        ...(envelope.signature ? { 'X-AMP-Signature': envelope.signature } : {}),
-      },
-      body: JSON.stringify({
+    const url = `${remoteHost.url}/api/v1/route`
+    const forwardBody = JSON.stringify({
         from: envelope.from,
         to: recipientName,
         subject: body.subject,
         payload: body.payload,
+        attachment_data: body.attachment_data,
         priority: body.priority,
         in_reply_to: body.in_reply_to,
+        thread_id: envelope.thread_id,
+        group_recipients: body.group_recipients,
+        expires_at: envelope.expires_at,
         signature: envelope.signature,
         _forwarded: {
           original_from: envelope.from,
@@ -364,6 +379,17 @@ async function forwardToHost(
           forwarded_at: envelope.timestamp
         }
       })
+    const response = await fetch(url, {
+      method: 'POST',
+      signal: controller.signal,
+      headers: {
+        'Content-Type': 'application/json',
+        'X-Forwarded-From': selfHostId,
+        'X-AMP-Envelope-Id': envelope.id,
+        ...(envelope.signature ? { 'X-AMP-Signature': envelope.signature } : {}),
+        ...await signMeshRequest('POST', url, forwardBody),
+      },
+      body: forwardBody,
     })
 
     if (!response.ok) {
@@ -383,6 +409,21 @@ async function forwardToHost(
   }
 }
 
+/**
+ * Queue a message for relay pickup. The recipient's attachment store lives on this
+ * host, so the bytes are stored now and fetched later via /api/v1/attachments.
+ */
+function queueWithAttachments(
+  agentId: string,
+  envelope: AMPEnvelope,
+  payload: AMPPayload,
+  senderPublicKey: string,
+  attachmentFiles: Map<string, Buffer>
+): void {
+  storeAttachmentFiles(agentId, payload.attachments, attachmentFiles)
+  queueMessage(agentId, envelope, payload, senderPublicKey)
+}
+
 /** Options for deliverLocally() */
 interface LocalDeliveryOptions {
   envelope: AMPEnvelope
@@ -393,6 +434,7 @@ interface LocalDeliveryOptions {
   senderName: string
   forwardedFrom: string | null
   senderPublicKeyHex: string | undefined
+  attachmentFiles: Map<string, Buffer>
   body: AMPRouteRequest
 }
 
@@ -400,13 +442,14 @@ interface LocalDeliveryOptions {
  * Deliver a message to a local agent via unified deliver() function.
  */
 async function deliverLocally(opts: LocalDeliveryOptions): Promise<void> {
-  const { envelope, payload, recipientAgentName, senderAgent, senderName, forwardedFrom, senderPublicKeyHex, body } = opts
+  const { envelope, payload, recipientAgentName, senderAgent, senderName, forwardedFrom, senderPublicKeyHex, attachmentFiles, body } = opts
 
   await deliver({
     envelope,
     payload,
     recipientAgentName,
     senderPublicKeyHex,
+    attachmentFiles,
     senderName,
     senderHost: senderAgent?.hostId || forwardedFrom || 'unknown',
     recipientAgentId: opts.localAgent.id,
@@ -416,6 +459,519 @@ async function deliverLocally(opts: LocalDeliveryOptions): Promise<void> {
   })
 }
 
+// ---------------------------------------------------------------------------
+// Group addresses (team-{name}@tenant, *@tenant)
+// ---------------------------------------------------------------------------
+
+/** One member of a group address */
+interface GroupMember {
+  name: string
+  address: string
+  agentId?: string              // Unset when a forwarded member is not known on this host
+  hostId?: string
+}
+
+type GroupResolution =
+  | { members: GroupMember[] }
+  | { error: AMPError; status: number }
+
+function toGroupMember(agent: Agent): GroupMember {
+  const name = agent.name || agent.alias || agent.id
+  const ampAddress = agent.metadata?.amp?.address as string | undefined
+  return {
+    name,
+    address: ampAddress || `${name}@${getAMPProviderDomain(getOrganization() || undefined)}`,
+    agentId: agent.id,
+    hostId: agent.hostId,
+  }
+}
+
+/**
+ * Expand a group address into its members, leaving out the sender.
+ * Teams come from lib/team-registry.ts; a broadcast (*) needs an admin agent
+ * and covers the whole registry, or one host's agents when the tenant names a host.
+ * Returns null when the name is not a known group, so it is routed as an agent name.
+ */
+function resolveGroupMembers(name: string, tenant: string | undefined, senderAgentId: string | null): GroupResolution | null {
+  if (name === AMP_BROADCAST_NAME) {
+    if (!senderAgentId || !isAdminAgent(senderAgentId)) {
+      return {
+        error: { error: 'forbidden', message: `Broadcasting to ${AMP_BROADCAST_NAME}@tenant requires an admin agent` },
+        status: 403
+      }
+    }
+    const hostScoped = !!tenant && (isSelf(tenant) || !!getHostById(tenant))
+    const agents = loadAgents().filter(a =>
+      !a.deletedAt && a.id !== senderAgentId &&
+      (!hostScoped || (isSelf(tenant!) ? !a.hostId || isSelf(a.hostId) : a.hostId === tenant))
+    )
+    return { members: agents.map(toGroupMember) }
+  }
+
+  const team = getTeamByAddressName(name)
+  if (!team) return null
+
+  const members = team.agentIds
+    .filter(id => id !== senderAgentId)
+    .map(id => getAgent(id))
+    .filter((agent): agent is Agent => !!agent)
+  return { members: members.map(toGroupMember) }
+}
+
+/** Members named by a mesh-forwarded group request, looked up on this host */
+function resolveForwardedGroupMembers(names: string[]): GroupMember[] {
+  const selfHostId = getSelfHostId()
+  return names.map(name => {
+    const agent = getAgentByName(name, selfHostId)
+    return agent ? { ...toGroupMember(agent), hostId: selfHostId } : { name, address: name }
+  })
+}
+
+/** Options for deliverToGroup() */
+interface GroupDeliveryOptions {
+  members: GroupMember[]
+  envelope: AMPEnvelope
+  payload: AMPPayload
+  body: AMPRouteRequest         // Forwarded to hosts with remote members
+  senderName: string
+  senderHost: string
+  senderPublicKeyHex: string | undefined
+  attachmentFiles: Map<string, Buffer>
+}
+
+/**
+ * Forward a group message to the members on one remote host in a single
+ * request. The remote host delivers to the names in group_recipients.
+ */
+async function forwardGroupToHost(hostId: string, members: GroupMember[], opts: GroupDeliveryOptions): Promise<AMPRecipientStatus[]> {
+  const { envelope, payload, body, senderPublicKeyHex, attachmentFiles } = opts
+
+  const queueAll = (error?: string): AMPRecipientStatus[] => members.map(member => {
+    queueWithAttachments(member.agentId!, envelope, payload, senderPublicKeyHex || '', attachmentFiles)
+    return { address: member.address, status: 'queued', method: 'relay', remote_host: hostId, ...(error ? { error } : {}) }
+  })
+
+  const remoteHost = getHostById(hostId)
+  if (!remoteHost) {
+    console.log(`[AMP Route] Host '${hostId}' not in config, queuing ${members.length} group member(s) for relay`)
+    return queueAll()
+  }
+
+  console.log(`[AMP Route] Forwarding ${envelope.to} to ${members.length} member(s) on ${hostId} via ${remoteHost.url}`)
+  const fwd = await forwardToHost(
+    remoteHost, envelope.to, envelope, { ...body, group_recipients: members.map(m => m.name) }, getSelfHostId()
+  )
+  if (!fwd.ok) {
+    console.error(`[AMP Route] Mesh delivery of ${envelope.to} to ${hostId} failed: ${fwd.error}`)
+    return queueAll(`Mesh delivery to ${hostId} failed, queued for retry`)
+  }
+
+  // The remote host reports per member; its addresses may use its own provider domain
+  const remoteStatuses = Array.isArray(fwd.result?.recipients) ? fwd.result.recipients as AMPRecipientStatus[] : []
+  return members.map(member => {
+    const remote = remoteStatuses.find(r => r.address.split('@')[0] === member.name)
+    return remote
+      ? { ...remote, address: member.address, method: remote.status === 'delivered' ? 'mesh' : remote.method, remote_host: hostId }
+      : { address: member.address, status: 'delivered', method: 'mesh', remote_host: hostId }
+  })
+}
+
+/**
+ * Deliver a group message to each member. Every copy carries the same
+ * envelope - addressed to the group, with the sender's signature and the
+ * group thread - so signatures still verify and replies join the group thread.
+ */
+async function deliverToGroup(opts: GroupDeliveryOptions): Promise<AMPRecipientStatus[]> {
+  const { members, envelope, payload, senderPublicKeyHex, attachmentFiles } = opts
+  const statuses: AMPRecipientStatus[] = []
+  const remoteMembers = new Map<string, GroupMember[]>()
+
+  for (const member of members) {
+    if (!member.agentId) {
+      statuses.push({ address: member.address, status: 'failed', error: `Recipient '${member.name}' not found` })
+      continue
+    }
+    if (member.hostId && !isSelf(member.hostId)) {
+      remoteMembers.set(member.hostId, [...(remoteMembers.get(member.hostId) || []), member])
+      continue
+    }
+
+    try {
+      const result = await deliver({
+        envelope,
+        payload,
+        recipientAgentName: member.name,
+        senderPublicKeyHex,
+        attachmentFiles,
+        senderName: opts.senderName,
+        senderHost: opts.senderHost,
+        recipientAgentId: member.agentId,
+        subject: envelope.subject,
+        priority: envelope.priority,
+        messageType: payload.type,
+      })
+      statuses.push(result.delivered
+        ? { address: member.address, status: 'delivered', method: 'local' }
+        : { address: member.address, status: 'failed', error: result.error || 'Delivery failed' })
+    } catch (error) {
+      console.error(`[AMP Route] Group delivery to ${member.name} failed:`, error)
+      queueWithAttachments(member.agentId, envelope, payload, senderPublicKeyHex || '', attachmentFiles)
+      statuses.push({ address: member.address, status: 'queued', method: 'relay', error: 'Direct delivery failed, queued for relay' })
+    }
+  }
+
+  for (const [hostId, hostMembers] of remoteMembers) {
+    statuses.push(...await forwardGroupToHost(hostId, hostMembers, opts))
+  }
+
+  return statuses
+}
+
+/**
+ * Route response for a group message. Fails only when no member got it;
+ * partial failures are reported per member.
+ */
+function groupRouteResult(
+  groupAddress: string,
+  messageId: string,
+  statuses: AMPRecipientStatus[],
+  headers?: Record<string, string>
+): ServiceResult<AMPRouteResponse | AMPError> {
+  if (statuses.length === 0) {
+    return {
+      data: { error: 'not_found', message: `Group '${groupAddress}' has no members to deliver to` } as AMPError,
+      status: 404
+    }
+  }
+
+  const failed = statuses.filter(s => s.status === 'failed').length
+  if (failed === statuses.length) {
+    return {
+      data: {
+        error: 'internal_error',
+        message: `Delivery to all ${failed} members of '${groupAddress}' failed`,
+        details: { recipients: statuses }
+      } as AMPError,
+      status: 502
+    }
+  }
+
+  const now = new Date().toISOString()
+  const queued = statuses.some(s => s.status === 'queued')
+  return {
+    data: {
+      id: messageId,
+      status: queued ? 'queued' : 'delivered',
+      ...(queued ? { queued_at: now } : { delivered_at: now }),
+      recipients: statuses,
+      ...(failed > 0 ? { error: `Delivery failed for ${failed} of ${statuses.length} members` } : {}),
+    } as AMPRouteResponse,
+    status: 200,
+    headers
+  }
+}
+
+/** An authenticated, validated /v1/route request ready to be routed */
+interface RouteDispatch {
+  body: AMPRouteRequest
+  agentId: string               // Authenticated sender (mesh-{hostId} for forwarded requests)
+  address?: string
+  forwardedFrom: string | null
+  attachmentFiles: Map<string, Buffer>
+  messageId?: string            // Assigned when the message was scheduled
+  headers?: Record<string, string>
+}
+
+/** What the message scheduler stores for a scheduled /v1/route request */
+interface ScheduledRouteRequest {
+  body: AMPRouteRequest         // attachment_data stays encoded until the send
+  agentId: string
+  address?: string
+  forwardedFrom: string | null
+}
+
+/**
+ * Build the envelope for a validated route request and deliver it
+ * (remote host, relay queue or local inbox).
+ */
+async function dispatchRoute(route: RouteDispatch): Promise<ServiceResult<AMPRouteResponse | AMPError>> {
+  const { body, agentId, address, forwardedFrom, attachmentFiles, headers } = route
+
+  // ── Sender Resolution ──────────────────────────────────────────────
+  const isMeshForwarded = !!forwardedFrom && agentId.startsWith('mesh-')
+  const senderAgent = isMeshForwarded ? null : getAgent(agentId)
+
+  if (!senderAgent && !isMeshForwarded) {
+    return {
+      data: { error: 'internal_error', message: 'Sender agent not found in registry' } as AMPError,
+      status: 500
+    }
+  }
+
+  const senderName = senderAgent?.name || senderAgent?.alias
+    || (isMeshForwarded && body.from ? body.from.split('@')[0] : 'unknown')
+
+  // ── Sender Address Validation for Mesh (D16) ──────────────────────
+  if (isMeshForwarded && body.from) {
+    const senderParsed = parseAMPAddress(body.from)
+    if (senderParsed) {
+      const fwdHost = getHostById(forwardedFrom!)
+      const expectedHostName = fwdHost?.name || forwardedFrom
+      if (senderParsed.tenant !== forwardedFrom && senderParsed.tenant !== expectedHostName) {
+        console.warn(`[AMP Route] Sender address tenant "${senderParsed.tenant}" does not match forwarding host "${forwardedFrom}" -- possible address spoofing`)
+      }
+    }
+  }
+
+  // ── Envelope Construction ──────────────────────────────────────────
+  const recipientParsed = parseAMPAddress(body.to)
+  const messageId = route.messageId || generateMessageId()
+  const now = new Date().toISOString()
+
+  // Replies join the thread of the message they answer (found in the sender's mailbox)
+  let threadId = body.thread_id
+  if (!threadId && body.in_reply_to) {
+    threadId = senderAgent
+      ? (await resolveReplyThreadId(senderAgent.id, body.in_reply_to)).replace(/-/g, '_')
+      : body.in_reply_to
+  }
+
+  let senderAddress: string
+  if (isMeshForwarded && body.from) {
+    senderAddress = body.from
+  } else if (senderAgent) {
+    const agentAmpAddress = senderAgent.metadata?.amp?.address as string | undefined
+    const agentName = senderAgent.name || senderAgent.alias || address!.split('@')[0]
+    senderAddress = agentAmpAddress || `${agentName}@${getAMPProviderDomain(getOrganization() || undefined)}`
+  } else {
+    senderAddress = address!
+  }
+
+  const envelope: AMPEnvelope = {
+    version: 'amp/0.1',
+    id: messageId,
+    from: senderAddress,
+    to: body.to,
+    subject: body.subject,
+    priority: body.priority || 'normal',
+    timestamp: now,
+    expires_at: body.expires_at,
+    signature: '',
+    in_reply_to: body.in_reply_to,
+    thread_id: threadId || messageId,
+  }
+
+  // ── Signature Handling ─────────────────────────────────────────────
+  const senderKeyPair = isMeshForwarded ? null : loadKeyPair(agentId)
+
+  if (body.signature) {
+    if (senderKeyPair?.publicHex) {
+      const payloadHash = crypto
+        .createHash('sha256')
+        .update(JSON.stringify(body.payload))
+        .digest('base64')
+
+      const signatureData = [
+        envelope.from, envelope.to, envelope.subject,
+        body.priority || 'normal', body.in_reply_to || '', payloadHash
+      ].join('|')
+
+      const isValid = verifySignature(signatureData, body.signature, senderKeyPair.publicHex)
+      if (!isValid) {
+        console.warn(`[AMP Route] Invalid signature from ${envelope.from}`)
+      } else {
+        console.log(`[AMP Route] Verified signature from ${envelope.from}`)
+      }
+    }
+    envelope.signature = body.signature
+  } else {
+    console.log(`[AMP Route] No signature provided by ${envelope.from}`)
+  }
+
+  // ── Provider Scope Check ───────────────────────────────────────────
+  const organization = getOrganization() || undefined
+  const providerDomain = getAMPProviderDomain(organization)
+
+  const isLocalProvider = !recipientParsed ||
+    recipientParsed.provider === providerDomain ||
+    recipientParsed.provider === 'aimaestro.local' ||
+    recipientParsed.provider.endsWith('.local')
+
+  if (!isLocalProvider) {
+    return {
+      data: {
+        error: 'external_provider',
+        message: `Recipient is on external provider "${recipientParsed?.provider}". Send directly to that provider using its route_url from your registration.`
+      } as AMPError,
+      status: 422
+    }
+  }
+
+  // ── Recipient Resolution ───────────────────────────────────────────
+  const recipientName = recipientParsed?.name || body.to.split('@')[0]
+  const selfHostIdValue = getSelfHostId()
+
+  const targetTenant = recipientParsed?.tenant
+
+  // ── Group Fan-out ──────────────────────────────────────────────────
+  if (isAMPGroupName(recipientName)) {
+    const group: GroupResolution | null = isMeshForwarded && Array.isArray(body.group_recipients)
+      ? { members: resolveForwardedGroupMembers(body.group_recipients) }
+      : resolveGroupMembers(recipientName, targetTenant, senderAgent?.id || null)
+
+    if (group && 'error' in group) {
+      return { data: group.error, status: group.status, headers }
+    }
+    if (group) {
+      const statuses = await deliverToGroup({
+        members: group.members,
+        envelope,
+        payload: body.payload,
+        body,
+        senderName,
+        senderHost: senderAgent?.hostId || forwardedFrom || 'unknown',
+        senderPublicKeyHex: senderKeyPair?.publicHex,
+        attachmentFiles,
+      })
+      return groupRouteResult(body.to, messageId, statuses, headers)
+    }
+  }
+
+  const isExplicitRemote = targetTenant
+    && !isSelf(targetTenant)
+    && targetTenant !== organization
+
+  let resolvedHostId: string | undefined
+  let resolvedAgentId: string | undefined
+
+  if (isMeshForwarded) {
+    const localAgent = getAgentByName(recipientName, selfHostIdValue)
+    if (localAgent) {
+      resolvedHostId = selfHostIdValue
+      resolvedAgentId = localAgent.id
+    } else {
+      const resolved = resolveAgentIdentifier(recipientName)
+      if (resolved?.agentId) {
+        resolvedAgentId = resolved.agentId
+        resolvedHostId = selfHostIdValue
+      }
+    }
+  } else if (isExplicitRemote) {
+    resolvedHostId = targetTenant
+  } else {
+    const meshResult = await checkMeshAgentExists(recipientName, MESH_DISCOVERY_TIMEOUT_MS)
+    if (meshResult.exists && meshResult.host) {
+      resolvedHostId = meshResult.host
+      resolvedAgentId = meshResult.agent?.id
+    }
+
+    if (!resolvedAgentId) {
+      const resolved = resolveAgentIdentifier(recipientName)
+      if (resolved?.agentId) {
+        resolvedAgentId = resolved.agentId
+        resolvedHostId = selfHostIdValue
+      }
+    }
+  }
+
+  // ── Remote Delivery ────────────────────────────────────────────────
+  if (resolvedHostId && !isSelf(resolvedHostId)) {
+    const remoteHost = getHostById(resolvedHostId)
+
+    if (!remoteHost) {
+      if (!resolvedAgentId) {
+        console.error(`[AMP Route] Host '${resolvedHostId}' not in config and no UUID for ${recipientName} -- cannot queue`)
+        return {
+          data: { error: 'not_found', message: `Recipient '${recipientName}' not found and target host '${resolvedHostId}' is not configured` } as AMPError,
+          status: 404
+        }
+      }
+      console.log(`[AMP Route] Host '${resolvedHostId}' not in config, queuing for relay`)
+      queueWithAttachments(resolvedAgentId, envelope, body.payload, senderKeyPair?.publicHex || '', attachmentFiles)
+      return {
+        data: { id: messageId, status: 'queued', method: 'relay', queued_at: now } as AMPRouteResponse,
+        status: 200,
+        headers: headers
+      }
+    }
+
+    console.log(`[AMP Route] Forwarding to ${recipientName}@${resolvedHostId} via ${remoteHost.url}`)
+    const fwd = await forwardToHost(remoteHost, recipientName, envelope, body, selfHostIdValue)
+
+    if (fwd.ok) {
+      return {
+        data: {
+          id: (fwd.result?.id as string) || messageId,
+          status: 'delivered', method: 'mesh', delivered_at: now, remote_host: resolvedHostId
+        } as AMPRouteResponse,
+        status: 200,
+        headers: headers
+      }
+    }
+
+    console.error(`[AMP Route] Mesh delivery to ${resolvedHostId} failed: ${fwd.error}`)
+    if (!resolvedAgentId) {
+      return {
+        data: { error: 'internal_error', message: `Mesh delivery to ${resolvedHostId} failed and no UUID to queue: ${fwd.error}` } as AMPError,
+        status: 502
+      }
+    }
+    queueWithAttachments(resolvedAgentId, envelope, body.payload, senderKeyPair?.publicHex || '', attachmentFiles)
+    return {
+      data: {
+        id: messageId, status: 'queued', method: 'relay', queued_at: now,
+        error: `Mesh delivery to ${resolvedHostId} failed, queued for retry`
+      } as AMPRouteResponse,
+      status: 200,
+      headers: headers
+    }
+  }
+
+  // ── Local Delivery ─────────────────────────────────────────────────
+  const localAgent = resolvedAgentId ? getAgent(resolvedAgentId) : null
+
+  if (!localAgent) {
+    if (!resolvedAgentId) {
+      return {
+        data: { error: 'not_found', message: `Recipient '${recipientName}' not found on any host` } as AMPError,
+        status: 404
+      }
+    }
+    queueWithAttachments(resolvedAgentId, envelope, body.payload, senderKeyPair?.publicHex || '', attachmentFiles)
+    return {
+      data: { id: messageId, status: 'queued', method: 'relay', queued_at: now } as AMPRouteResponse,
+      status: 200
+    }
+  }
+
+  const recipientAgentName = localAgent.name || localAgent.alias || recipientName
+
+  try {
+    await deliverLocally({
+      envelope, payload: body.payload, localAgent, recipientAgentName,
+      senderAgent, senderName, forwardedFrom, senderPublicKeyHex: senderKeyPair?.publicHex, attachmentFiles, body
+    })
+
+    return {
+      data: { id: messageId, status: 'delivered', method: 'local', delivered_at: now } as AMPRouteResponse,
+      status: 200,
+      headers: headers
+    }
+
+  } catch (error) {
+    console.error('[AMP Route] Local delivery failed:', error)
+    queueWithAttachments(localAgent.id, envelope, body.payload, senderKeyPair?.publicHex || '', attachmentFiles)
+    return {
+      data: {
+        id: messageId, status: 'queued', method: 'relay', queued_at: now,
+        error: 'Direct delivery failed, queued for relay'
+      } as AMPRouteResponse,
+      status: 200,
+      headers: headers
+    }
+  }
+}
+
 // ===========================================================================
 // PUBLIC API -- called by API routes
 // ===========================================================================
@@ -484,6 +1040,7 @@ export function getProviderInfo(): ServiceResult<AMPInfoResponse> {
         'local-delivery',
         'relay-queue',
         'mesh-routing',
+        'attachments',
       ],
       registration_modes: ['open'],
       rate_limits: {
@@ -737,22 +1294,25 @@ export async function routeMessage(
   forwardedFrom: string | null,
   envelopeIdHeader: string | null,
   signatureHeader: string | null,
-  contentLength: string | null
+  contentLength: string | null,
+  mesh?: MeshRequest
 ): Promise<ServiceResult<AMPRouteResponse | AMPError>> {
   try {
     // ── Authentication ─────────────────────────────────────────────────
     let auth = authenticateRequest(authHeader)
 
-    if (!auth.authenticated && forwardedFrom) {
-      const forwardingHost = getHostById(forwardedFrom)
-      if (forwardingHost) {
+    // Mesh-forwarded requests must be signed by the trusted host they claim to come from
+    if (!auth.authenticated && forwardedFrom && mesh) {
+      const peerAuth = authenticatePeer('POST', '/api/v1/route', mesh)
+      if (peerAuth.ok && peerAuth.hostId === forwardedFrom && getHostById(forwardedFrom)) {
         auth = {
           authenticated: true,
           agentId: `mesh-${forwardedFrom}`,
           tenantId: getOrganization() || 'default',
           address: `mesh@${forwardedFrom}`
         }
-        console.log(`[AMP Route] Accepting mesh-forwarded request from ${forwardedFrom} (signature NOT verified -- trusted host)`)
+      } else {
+        console.warn(`[AMP Route] Rejected mesh-forwarded request claiming ${forwardedFrom}: ${peerAuth.error || `signed by ${peerAuth.hostId}`}`)
       }
     }
 
@@ -763,6 +1323,13 @@ export async function routeMessage(
       }
     }
 
+    // ── Mesh-only Fields ───────────────────────────────────────────────
+    // Only forwardGroupToHost may name a group's members; a client could
+    // otherwise have a peer deliver to any agent under a group address
+    if (!auth.agentId?.startsWith('mesh-') && body.group_recipients !== undefined) {
+      body = { ...body, group_recipients: undefined }
+    }
+
     // ── Rate Limiting (S2) ────────────────────────────────────────────
     const rateLimitKey = auth.agentId || forwardedFrom || 'unknown'
     const rateLimit = checkRouteRateLimit(rateLimitKey)
@@ -781,9 +1348,9 @@ export async function routeMessage(
     }
 
     // ── Payload Size Limit (S10) ──────────────────────────────────────
-    if (contentLength && parseInt(contentLength, 10) > MAX_PAYLOAD_SIZE) {
+    if (contentLength && parseInt(contentLength, 10) > MAX_ROUTE_BODY_SIZE) {
       return {
-        data: { error: 'payload_too_large', message: `Payload exceeds maximum size of ${MAX_PAYLOAD_SIZE} bytes` } as AMPError,
+        data: { error: 'payload_too_large', message: `Payload exceeds maximum size of ${MAX_ROUTE_BODY_SIZE} bytes` } as AMPError,
         status: 413
       }
     }
@@ -814,248 +1381,75 @@ export async function routeMessage(
       }
     }
 
-    // ── Sender Resolution ──────────────────────────────────────────────
-    const isMeshForwarded = !!forwardedFrom && auth.agentId?.startsWith('mesh-')
-    const senderAgent = isMeshForwarded ? null : getAgent(auth.agentId!)
-
-    if (!senderAgent && !isMeshForwarded) {
+    // ── Expiry and Scheduling ──────────────────────────────────────────
+    if (body.expires_at !== undefined && (typeof body.expires_at !== 'string' || isNaN(Date.parse(body.expires_at)))) {
       return {
-        data: { error: 'internal_error', message: 'Sender agent not found in registry' } as AMPError,
-        status: 500
-      }
-    }
-
-    const senderName = senderAgent?.name || senderAgent?.alias
-      || (isMeshForwarded && body.from ? body.from.split('@')[0] : 'unknown')
-
-    // ── Sender Address Validation for Mesh (D16) ──────────────────────
-    if (isMeshForwarded && body.from) {
-      const senderParsed = parseAMPAddress(body.from)
-      if (senderParsed) {
-        const fwdHost = getHostById(forwardedFrom!)
-        const expectedHostName = fwdHost?.name || forwardedFrom
-        if (senderParsed.tenant !== forwardedFrom && senderParsed.tenant !== expectedHostName) {
-          console.warn(`[AMP Route] Sender address tenant "${senderParsed.tenant}" does not match forwarding host "${forwardedFrom}" -- possible address spoofing`)
-        }
-      }
-    }
-
-    // ── Envelope Construction ──────────────────────────────────────────
-    const recipientParsed = parseAMPAddress(body.to)
-    const messageId = generateMessageId()
-    const now = new Date().toISOString()
-
-    let senderAddress: string
-    if (isMeshForwarded && body.from) {
-      senderAddress = body.from
-    } else if (senderAgent) {
-      const agentAmpAddress = senderAgent.metadata?.amp?.address as string | undefined
-      const agentName = senderAgent.name || senderAgent.alias || auth.address!.split('@')[0]
-      senderAddress = agentAmpAddress || `${agentName}@${getAMPProviderDomain(getOrganization() || undefined)}`
-    } else {
-      senderAddress = auth.address!
-    }
-
-    const envelope: AMPEnvelope = {
-      version: 'amp/0.1',
-      id: messageId,
-      from: senderAddress,
-      to: body.to,
-      subject: body.subject,
-      priority: body.priority || 'normal',
-      timestamp: now,
-      expires_at: body.expires_at,
-      signature: '',
-      in_reply_to: body.in_reply_to,
-      thread_id: body.in_reply_to || messageId,
-    }
-
-    // ── Signature Handling ─────────────────────────────────────────────
-    const senderKeyPair = isMeshForwarded ? null : loadKeyPair(auth.agentId!)
-
-    if (body.signature) {
-      if (senderKeyPair?.publicHex) {
-        const payloadHash = crypto
-          .createHash('sha256')
-          .update(JSON.stringify(body.payload))
-          .digest('base64')
-
-        const signatureData = [
-          envelope.from, envelope.to, envelope.subject,
-          body.priority || 'normal', body.in_reply_to || '', payloadHash
-        ].join('|')
-
-        const isValid = verifySignature(signatureData, body.signature, senderKeyPair.publicHex)
-        if (!isValid) {
-          console.warn(`[AMP Route] Invalid signature from ${envelope.from}`)
-        } else {
-          console.log(`[AMP Route] Verified signature from ${envelope.from}`)
-        }
+        data: { error: 'invalid_field', message: 'expires_at must be an ISO 8601 timestamp', field: 'expires_at' } as AMPError,
+        status: 400
       }
-      envelope.signature = body.signature
-    } else {
-      console.log(`[AMP Route] No signature provided by ${envelope.from}`)
     }
-
-    // ── Provider Scope Check ───────────────────────────────────────────
-    const organization = getOrganization() || undefined
-    const providerDomain = getAMPProviderDomain(organization)
-
-    const isLocalProvider = !recipientParsed ||
-      recipientParsed.provider === providerDomain ||
-      recipientParsed.provider === 'aimaestro.local' ||
-      recipientParsed.provider.endsWith('.local')
-
-    if (!isLocalProvider) {
+    if (isAMPMessageExpired(body.expires_at)) {
       return {
-        data: {
-          error: 'external_provider',
-          message: `Recipient is on external provider "${recipientParsed?.provider}". Send directly to that provider using its route_url from your registration.`
-        } as AMPError,
-        status: 422
+        data: { error: 'message_expired', message: `Message expired at ${body.expires_at}`, field: 'expires_at' } as AMPError,
+        status: 400
       }
     }
-
-    // ── Recipient Resolution ───────────────────────────────────────────
-    const recipientName = recipientParsed?.name || body.to.split('@')[0]
-    const selfHostIdValue = getSelfHostId()
-
-    const targetTenant = recipientParsed?.tenant
-
-    const isExplicitRemote = targetTenant
-      && !isSelf(targetTenant)
-      && targetTenant !== organization
-
-    let resolvedHostId: string | undefined
-    let resolvedAgentId: string | undefined
-
-    if (isMeshForwarded) {
-      const localAgent = getAgentByName(recipientName, selfHostIdValue)
-      if (localAgent) {
-        resolvedHostId = selfHostIdValue
-        resolvedAgentId = localAgent.id
-      } else {
-        const resolved = resolveAgentIdentifier(recipientName)
-        if (resolved?.agentId) {
-          resolvedAgentId = resolved.agentId
-          resolvedHostId = selfHostIdValue
-        }
-      }
-    } else if (isExplicitRemote) {
-      resolvedHostId = targetTenant
-    } else {
-      const meshResult = await checkMeshAgentExists(recipientName, MESH_DISCOVERY_TIMEOUT_MS)
-      if (meshResult.exists && meshResult.host) {
-        resolvedHostId = meshResult.host
-        resolvedAgentId = meshResult.agent?.id
-      }
-
-      if (!resolvedAgentId) {
-        const resolved = resolveAgentIdentifier(recipientName)
-        if (resolved?.agentId) {
-          resolvedAgentId = resolved.agentId
-          resolvedHostId = selfHostIdValue
-        }
+    const schedule = parseSendAt(body.send_at, body.expires_at)
+    if (schedule.error !== undefined) {
+      return {
+        data: { error: 'invalid_field', message: schedule.error, field: 'send_at' } as AMPError,
+        status: 400
       }
     }
 
-    // ── Remote Delivery ────────────────────────────────────────────────
-    if (resolvedHostId && !isSelf(resolvedHostId)) {
-      const remoteHost = getHostById(resolvedHostId)
-
-      if (!remoteHost) {
-        if (!resolvedAgentId) {
-          console.error(`[AMP Route] Host '${resolvedHostId}' not in config and no UUID for ${recipientName} -- cannot queue`)
-          return {
-            data: { error: 'not_found', message: `Recipient '${recipientName}' not found and target host '${resolvedHostId}' is not configured` } as AMPError,
-            status: 404
-          }
-        }
-        console.log(`[AMP Route] Host '${resolvedHostId}' not in config, queuing for relay`)
-        queueMessage(resolvedAgentId, envelope, body.payload, senderKeyPair?.publicHex || '')
-        return {
-          data: { id: messageId, status: 'queued', method: 'relay', queued_at: now } as AMPRouteResponse,
-          status: 200,
-          headers: rateLimitHeaders
-        }
-      }
-
-      console.log(`[AMP Route] Forwarding to ${recipientName}@${resolvedHostId} via ${remoteHost.url}`)
-      const fwd = await forwardToHost(remoteHost, recipientName, envelope, body, selfHostIdValue)
-
-      if (fwd.ok) {
-        return {
-          data: {
-            id: (fwd.result?.id as string) || messageId,
-            status: 'delivered', method: 'mesh', delivered_at: now, remote_host: resolvedHostId
-          } as AMPRouteResponse,
-          status: 200,
-          headers: rateLimitHeaders
-        }
-      }
-
-      console.error(`[AMP Route] Mesh delivery to ${resolvedHostId} failed: ${fwd.error}`)
-      if (!resolvedAgentId) {
-        return {
-          data: { error: 'internal_error', message: `Mesh delivery to ${resolvedHostId} failed and no UUID to queue: ${fwd.error}` } as AMPError,
-          status: 502
-        }
-      }
-      queueMessage(resolvedAgentId, envelope, body.payload, senderKeyPair?.publicHex || '')
+    // ── Attachments ────────────────────────────────────────────────────
+    const decodedAttachments = decodeAttachmentData(body.payload.attachments, body.attachment_data)
+    if (decodedAttachments.error !== undefined) {
       return {
-        data: {
-          id: messageId, status: 'queued', method: 'relay', queued_at: now,
-          error: `Mesh delivery to ${resolvedHostId} failed, queued for retry`
-        } as AMPRouteResponse,
-        status: 200,
-        headers: rateLimitHeaders
+        data: { error: 'invalid_field', message: decodedAttachments.error, field: 'attachment_data' } as AMPError,
+        status: decodedAttachments.status
       }
     }
+    const attachmentFiles = decodedAttachments.files
 
-    // ── Local Delivery ─────────────────────────────────────────────────
-    const localAgent = resolvedAgentId ? getAgent(resolvedAgentId) : null
-
-    if (!localAgent) {
-      if (!resolvedAgentId) {
+    // ── Scheduled Send ─────────────────────────────────────────────────
+    if (schedule.sendAt) {
+      // Refuse broadcasts up front instead of when the scheduler sends them
+      if (body.to.split('@')[0] === AMP_BROADCAST_NAME && !isAdminAgent(auth.agentId!)) {
         return {
-          data: { error: 'not_found', message: `Recipient '${recipientName}' not found on any host` } as AMPError,
-          status: 404
+          data: { error: 'forbidden', message: `Broadcasting to ${AMP_BROADCAST_NAME}@tenant requires an admin agent` } as AMPError,
+          status: 403,
+          headers: rateLimitHeaders
         }
       }
-      queueMessage(resolvedAgentId, envelope, body.payload, senderKeyPair?.publicHex || '')
-      return {
-        data: { id: messageId, status: 'queued', method: 'relay', queued_at: now } as AMPRouteResponse,
-        status: 200
+      const messageId = generateMessageId()
+      const request: ScheduledRouteRequest = {
+        body: { ...body, send_at: undefined },
+        agentId: auth.agentId!,
+        address: auth.address,
+        forwardedFrom,
       }
-    }
-
-    const recipientAgentName = localAgent.name || localAgent.alias || recipientName
-
-    try {
-      await deliverLocally({
-        envelope, payload: body.payload, localAgent, recipientAgentName,
-        senderAgent, senderName, forwardedFrom, senderPublicKeyHex: senderKeyPair?.publicHex, body
+      scheduleMessage({
+        id: messageId,
+        kind: 'route',
+        senderAgentId: auth.agentId?.startsWith('mesh-') ? undefined : auth.agentId,
+        to: body.to,
+        subject: body.subject,
+        sendAt: schedule.sendAt,
+        expiresAt: body.expires_at,
+        request,
       })
-
-      return {
-        data: { id: messageId, status: 'delivered', method: 'local', delivered_at: now } as AMPRouteResponse,
-        status: 200,
-        headers: rateLimitHeaders
-      }
-
-    } catch (error) {
-      console.error('[AMP Route] Local delivery failed:', error)
-      queueMessage(localAgent.id, envelope, body.payload, senderKeyPair?.publicHex || '')
       return {
-        data: {
-          id: messageId, status: 'queued', method: 'relay', queued_at: now,
-          error: 'Direct delivery failed, queued for relay'
-        } as AMPRouteResponse,
+        data: { id: messageId, status: 'scheduled', scheduled_for: schedule.sendAt } as AMPRouteResponse,
         status: 200,
         headers: rateLimitHeaders
       }
     }
 
+    return await dispatchRoute({
+      body, agentId: auth.agentId!, address: auth.address, forwardedFrom, attachmentFiles, headers: rateLimitHeaders
+    })
+
   } catch (error) {
     console.error('[AMP Route] Error:', error)
     return {
@@ -1227,6 +1621,69 @@ export async function sendReadReceipt(
   }
 }
 
+// ---------------------------------------------------------------------------
+// GET /api/v1/attachments/:digest
+// ---------------------------------------------------------------------------
+
+/**
+ * Download a file from the calling agent's own attachment store. Agents only
+ * hold files that were sent to them (or that they sent), so no message lookup
+ * is needed. `name` is the file name from the payload reference.
+ */
+export async function getAttachment(
+  authHeader: string | null,
+  digest: string,
+  name?: string | null
+): Promise<ServiceResult<{ name: string; type: string; data: Buffer } | AMPError>> {
+  const auth = authenticateRequest(authHeader)
+
+  if (!auth.authenticated) {
+    return {
+      data: { error: auth.error || 'unauthorized', message: auth.message || 'Authentication required' } as AMPError,
+      status: 401
+    }
+  }
+
+  if (!isValidDigest(digest)) {
+    return {
+      data: { error: 'invalid_field', message: 'digest must be a hex SHA-256', field: 'digest' } as AMPError,
+      status: 400
+    }
+  }
+
+  const stored = readStoredAttachment(auth.agentId!, digest)
+  if (!stored) {
+    return {
+      data: { error: 'not_found', message: `Attachment ${digest} not found` } as AMPError,
+      status: 404
+    }
+  }
+
+  const fileName = name || digest
+  try {
+    const scan = await scanAttachment({ path: stored.filePath, name: fileName, type: stored.info.type, digest })
+    if (!scan.clean) {
+      console.warn(`[AMP Attachments] Blocked ${fileName} (${digest}) for ${auth.address}: ${scan.reason}`)
+      return {
+        data: { error: 'forbidden', message: `Attachment blocked by scanner: ${scan.reason || 'flagged'}` } as AMPError,
+        status: 403
+      }
+    }
+  } catch (error) {
+    console.error('[AMP Attachments] Scan failed:', error)
+    return {
+      data: { error: 'internal_error', message: 'Attachment scan failed' } as AMPError,
+      status: 500
+    }
+  }
+
+  return {
+    data: { name: fileName, type: stored.info.type, data: stored.data },
+    status: 200,
+    headers: attachmentResponseHeaders({ name: fileName, type: stored.info.type, size: stored.data.length })
+  }
+}
+
 // ---------------------------------------------------------------------------
 // GET /api/v1/agents
 // ---------------------------------------------------------------------------
@@ -1584,7 +2041,8 @@ export async function rotateKeypair(authHeader: string | null): Promise<ServiceR
 
 export async function deliverFederated(
   providerName: string | null,
-  body: { envelope: AMPEnvelope; payload: AMPPayload; sender_public_key?: string }
+  body: { envelope: AMPEnvelope; payload: AMPPayload; sender_public_key?: string; attachment_data?: AMPAttachmentData },
+  mesh?: MeshRequest
 ): Promise<ServiceResult<any>> {
   try {
     // ── Provider Identity ───────────────────────────────────────────────
@@ -1595,6 +2053,22 @@ export async function deliverFederated(
       }
     }
 
+    // Mesh hosts delivering as themselves must sign the request with their pinned key
+    if (mesh?.headers.signature || getHostById(providerName)) {
+      const peerAuth = mesh
+        ? authenticatePeer('POST', '/api/v1/federation/deliver', mesh)
+        : { ok: false, status: 401, hostId: undefined, error: 'Mesh signature required' }
+      if (!peerAuth.ok || peerAuth.hostId !== providerName) {
+        return {
+          data: {
+            error: 'unauthorized',
+            message: peerAuth.ok ? `Request signed by ${peerAuth.hostId}, not ${providerName}` : peerAuth.error || 'Peer not trusted'
+          } as AMPError,
+          status: peerAuth.ok ? 403 : peerAuth.status
+        }
+      }
+    }
+
     // ── Rate Limiting (per-provider) ─────────────────────────────────────
     const rateLimit = checkFederationRateLimit(providerName)
     if (!rateLimit.allowed) {
@@ -1614,6 +2088,22 @@ export async function deliverFederated(
         status: 400
       }
     }
+    if (isAMPMessageExpired(envelope.expires_at)) {
+      return {
+        data: { error: 'message_expired', message: `Message ${envelope.id} expired at ${envelope.expires_at}` } as AMPError,
+        status: 400
+      }
+    }
+
+    // Attachment bytes must match the digests in the (signed) payload
+    const decodedAttachments = decodeAttachmentData(payload.attachments, body.attachment_data)
+    if (decodedAttachments.error !== undefined) {
+      return {
+        data: { error: 'invalid_request', message: decodedAttachments.error } as AMPError,
+        status: decodedAttachments.status
+      }
+    }
+    const attachmentFiles = decodedAttachments.files
 
     // ── Replay Protection ───────────────────────────────────────────────
     if (!trackMessageId(envelope.id)) {
@@ -1645,12 +2135,42 @@ export async function deliverFederated(
 
     // ── Recipient Resolution ────────────────────────────────────────────
     const recipientName = envelope.to.split('@')[0]
+
+    // Group addresses fan out to the members this host knows about.
+    // Broadcasts need a local admin agent, so they are never accepted here.
+    if (isAMPGroupName(recipientName)) {
+      const group = resolveGroupMembers(recipientName, parseAMPAddress(envelope.to)?.tenant, null)
+      if (group && 'error' in group) {
+        return { data: group.error, status: group.status }
+      }
+      if (group) {
+        const statuses = await deliverToGroup({
+          members: group.members,
+          envelope,
+          payload,
+          body: {
+            to: envelope.to,
+            subject: envelope.subject,
+            priority: envelope.priority,
+            in_reply_to: envelope.in_reply_to,
+            payload,
+            attachment_data: body.attachment_data,
+          },
+          senderName: envelope.from.split('@')[0],
+          senderHost: providerName,
+          senderPublicKeyHex: signatureVerified ? sender_public_key : undefined,
+          attachmentFiles,
+        })
+        return groupRouteResult(envelope.to, envelope.id, statuses)
+      }
+    }
+
     const resolved = resolveAgentIdentifier(recipientName)
     const localAgent = resolved?.agentId ? getAgent(resolved.agentId) : null
 
     if (!localAgent) {
       if (resolved?.agentId) {
-        queueMessage(resolved.agentId, envelope, payload, sender_public_key || '')
+        queueWithAttachments(resolved.agentId, envelope, payload, sender_public_key || '', attachmentFiles)
         return {
           data: {
             id: envelope.id,
@@ -1673,6 +2193,7 @@ export async function deliverFederated(
       payload,
       recipientAgentName: localAgent.name || recipientName,
       senderPublicKeyHex: signatureVerified ? sender_public_key : undefined,
+      attachmentFiles,
       senderName: envelope.from.split('@')[0],
       senderHost: providerName,
       recipientAgentId: localAgent.id,
@@ -1699,3 +2220,98 @@ export async function deliverFederated(
     }
   }
 }
+
+// ---------------------------------------------------------------------------
+// Scheduled sends (send_at)
+// ---------------------------------------------------------------------------
+
+const MESSAGE_SCHEDULER_INTERVAL_MS = 30 * 1000
+
+/**
+ * Route one due scheduled message. Throws when it could not be sent.
+ */
+async function sendScheduledMessage(job: ScheduledMessage): Promise<void> {
+  if (job.kind === 'ui') {
+    await sendFromUI({ ...(job.request as SendFromUIOptions), messageId: job.id })
+    return
+  }
+
+  const { body, agentId, address, forwardedFrom } = job.request as ScheduledRouteRequest
+  const decodedAttachments = decodeAttachmentData(body.payload.attachments, body.attachment_data)
+  if (decodedAttachments.error !== undefined) {
+    throw new Error(decodedAttachments.error)
+  }
+
+  const result = await dispatchRoute({
+    body, agentId, address, forwardedFrom, attachmentFiles: decodedAttachments.files, messageId: job.id
+  })
+  if (result.status >= 400) {
+    throw new Error((result.data as AMPError | undefined)?.message || `Routing failed with status ${result.status}`)
+  }
+}
+
+/**
+ * Send every scheduled message that is due. Messages that expired while
+ * waiting are not sent; they stay listed as failed.
+ */
+export async function runMessageScheduler(now: Date = new Date()): Promise<number> {
+  let sent = 0
+
+  for (const job of getDueScheduledMessages(now)) {
+    if (isAMPMessageExpired(job.expiresAt, now.getTime())) {
+      failScheduledMessage(job.id, `Expired at ${job.expiresAt} before it could be sent`, true)
+      continue
+    }
+
+    try {
+      await sendScheduledMessage(job)
+      completeScheduledMessage(job.id)
+      sent++
+    } catch (error) {
+      const message = error instanceof Error ? error.message : String(error)
+      const updated = failScheduledMessage(job.id, message)
+      console.error(`[Scheduler] Failed to send ${job.id} (attempt ${updated?.attempts ?? '?'}${updated?.status === 'failed' ? ', giving up' : ''}): ${message}`)
+    }
+  }
+
+  if (sent > 0) {
+    console.log(`[Scheduler] Sent ${sent} scheduled message(s)`)
+  }
+  return sent
+}
+
+let messageSchedulerTimer: NodeJS.Timeout | null = null
+let messageSchedulerRunning = false
+
+/**
+ * Start the scheduled message worker (called once from server.mjs)
+ */
+export function startMessageScheduler(intervalMs: number = MESSAGE_SCHEDULER_INTERVAL_MS): void {
+  if (messageSchedulerTimer) return
+
+  const tick = async () => {
+    if (messageSchedulerRunning) return
+    messageSchedulerRunning = true
+    try {
+      await runMessageScheduler()
+    } catch (error) {
+      console.error('[Scheduler] Worker error:', error)
+    } finally {
+      messageSchedulerRunning = false
+    }
+  }
+
+  messageSchedulerTimer = setInterval(tick, intervalMs)
+  messageSchedulerTimer.unref?.()
+  tick()
+}
+
+/**
+ * Stop the scheduled message worker
+ */
+export function stopMessageScheduler(): void {
+  if (messageSchedulerTimer) {
+    clearInterval(messageSchedulerTimer)
+    messageSchedulerTimer = null
+  }
+}
@@ -7,6 +7,8 @@
  *
  * Covers:
  *   GET    /api/config                            -> getSystemConfig
+ *   GET    /api/config/embeddings                 -> getEmbeddingSettings
+ *   PUT    /api/config/embeddings                 -> updateEmbeddingSettings
  *   GET    /api/organization                      -> getOrganization
  *   POST   /api/organization                      -> setOrganizationName
  *   GET    /api/subconscious                      -> getSubconsciousStatus
@@ -31,6 +33,13 @@ import {
   setOrganization,
   isValidOrganizationName,
 } from '@/lib/hosts-config'
+import {
+  loadEmbeddingConfig,
+  saveEmbeddingConfig,
+  embeddingSignature,
+  EMBEDDING_PROVIDERS,
+  type EmbeddingConfig,
+} from '@/lib/rag/embedding-providers'
 import type {
   MemoryRunResult,
   MessageCheckResult,
@@ -280,6 +289,94 @@ export function getSystemConfig(): ServiceResult<SystemConfig> {
   }
 }
 
+// ---------------------------------------------------------------------------
+// GET/PUT /api/config/embeddings
+// ---------------------------------------------------------------------------
+
+/**
+ * Embedding config as returned over the API: the key is never echoed back
+ */
+function toPublicEmbeddingConfig(config: EmbeddingConfig) {
+  const { apiKey, ...rest } = config
+  return { ...rest, apiKeySet: !!apiKey, signature: embeddingSignature(config) }
+}
+
+/**
+ * Get the host's embedding provider configuration.
+ */
+export function getEmbeddingSettings(): ServiceResult<any> {
+  return {
+    data: { success: true, embeddings: toPublicEmbeddingConfig(loadEmbeddingConfig()) },
+    status: 200,
+  }
+}
+
+/**
+ * Switch the embedding provider or model. Loaded agents whose vectors were
+ * built with another model start re-embedding in the background; other
+ * agents do so the next time their database opens.
+ */
+export async function updateEmbeddingSettings(
+  body: Partial<EmbeddingConfig>
+): Promise<ServiceResult<any>> {
+  const current = loadEmbeddingConfig()
+  const next: EmbeddingConfig = { ...current, ...body }
+
+  if (!EMBEDDING_PROVIDERS.includes(next.provider)) {
+    return { error: `provider must be one of: ${EMBEDDING_PROVIDERS.join(', ')}`, status: 400 }
+  }
+  if (next.provider !== current.provider && (body.model === undefined || body.dimension === undefined)) {
+    return { error: 'model and dimension are required when changing provider', status: 400 }
+  }
+  if (typeof next.model !== 'string' || !next.model.trim()) {
+    return { error: 'model must be a non-empty string', status: 400 }
+  }
+  if (!Number.isInteger(next.dimension) || next.dimension < 1 || next.dimension > 8192) {
+    return { error: 'dimension must be an integer between 1 and 8192', status: 400 }
+  }
+  if (next.endpoint !== undefined && next.endpoint !== '') {
+    try {
+      const url = new URL(next.endpoint)
+      if (url.protocol !== 'http:' && url.protocol !== 'https:') throw new Error()
+    } catch {
+      return { error: 'endpoint must be an http(s) URL', status: 400 }
+    }
+  }
+  if (next.authHeader !== undefined && !/^[A-Za-z0-9-]+$/.test(next.authHeader)) {
+    return { error: 'authHeader must be a valid header name', status: 400 }
+  }
+  if (next.apiKey !== undefined && typeof next.apiKey !== 'string') {
+    return { error: 'apiKey must be a string', status: 400 }
+  }
+  if (!next.endpoint) delete next.endpoint
+
+  const saved = saveEmbeddingConfig(next)
+  const modelChanged = embeddingSignature(saved) !== embeddingSignature(current)
+
+  const reembedding: string[] = []
+  if (modelChanged) {
+    const { ensureVectorModels } = await import('@/lib/rag/vector-models')
+    for (const agent of agentRegistry.getAllAgents()) {
+      try {
+        const plan = await ensureVectorModels(await agent.getDatabase(), agent.getAgentId())
+        if (plan.reembed.length > 0) reembedding.push(agent.getAgentId())
+      } catch (error) {
+        console.error(`[Config API] Failed to start re-embed for ${agent.getAgentId()}:`, error)
+      }
+    }
+  }
+
+  return {
+    data: {
+      success: true,
+      embeddings: toPublicEmbeddingConfig(saved),
+      model_changed: modelChanged,
+      reembedding,
+    },
+    status: 200,
+  }
+}
+
 // ---------------------------------------------------------------------------
 // GET /api/organization
 // ---------------------------------------------------------------------------
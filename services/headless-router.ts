@@ -58,6 +58,14 @@ import {
   queryLongTermMemories,
   deleteLongTermMemory,
   updateLongTermMemory,
+  listMemoryConflicts,
+  getMemorySettings,
+  updateMemorySettings,
+  reviewMemoryConflict,
+  exportAgentMemories,
+  importAgentMemories,
+  getEmbeddingStatus,
+  triggerReembed,
   searchConversations,
   ingestConversations,
   runDeltaIndex,
@@ -77,6 +85,7 @@ import {
   queryCodeGraph,
   indexCodeGraph,
   deleteCodeGraph,
+  analyzeCodeImpact,
 } from '@/services/agents-graph-service'
 
 import {
@@ -86,6 +95,11 @@ import {
   updateMessage as updateAgentMessage,
   deleteMessageById as deleteAgentMessage,
   forwardMessage as forwardAgentMessage,
+  listMessageThreads as listAgentMessageThreads,
+  getMessageThread as getAgentMessageThread,
+  getMessageAttachment as getAgentMessageAttachment,
+  listScheduledMessages as listAgentScheduledMessages,
+  cancelScheduledMessage as cancelAgentScheduledMessage,
   listAMPAddresses,
   addAMPAddressToAgent,
   getAMPAddress,
@@ -96,6 +110,10 @@ import {
   getEmailAddressDetail,
   updateEmailAddressOnAgent,
   removeEmailAddressFromAgent,
+  listInboxRules,
+  addInboxRuleToAgent,
+  updateInboxRuleOnAgent,
+  removeInboxRuleFromAgent,
   queryEmailIndex,
 } from '@/services/agents-messaging-service'
 
@@ -165,6 +183,11 @@ import {
   getMeshStatus,
   registerPeer,
   exchangePeers,
+  getMeshTrust,
+  updatePeerTrust,
+  forgetPeerTrust,
+  createHostPairingToken,
+  readMeshHeaders,
 } from '@/services/hosts-service'
 
 import {
@@ -176,6 +199,7 @@ import {
   acknowledgePendingMessage,
   batchAcknowledgeMessages,
   sendReadReceipt,
+  getAttachment as getAMPAttachment,
   listAMPAgents,
   getAgentSelf,
   updateAgentSelf,
@@ -209,13 +233,25 @@ import {
   deleteTeamById,
   listTeamTasks,
   createTeamTask,
+  getTeamTask,
   updateTeamTask,
   deleteTeamTask,
+  listTaskActivity,
+  listTaskComments,
+  addTaskCommentToTask,
+  listAttachmentsOfTask,
+  uploadTaskAttachment,
+  getTaskAttachmentFile,
+  importTeamPlan,
+  exportTeamPlan,
   listTeamDocuments,
   createTeamDocument,
   getTeamDocument,
   updateTeamDocument,
   deleteTeamDocument,
+  listTeamMemory,
+  publishTeamMemoryEntry,
+  deleteTeamMemoryEntry,
   notifyTeamAgents,
 } from '@/services/teams-service'
 
@@ -225,8 +261,22 @@ import {
   getWebhookById,
   deleteWebhookById,
   testWebhookById,
+  listWebhookDeliveriesById,
+  redeliverWebhookDelivery,
 } from '@/services/webhooks-service'
 
+import {
+  loginWithToken,
+  logout,
+  getCurrentAccess,
+  getAccessControlSettings,
+  updateAccessControlSettings,
+  listTokens,
+  createToken,
+  revokeToken,
+  listAccessDenials,
+} from '@/services/access-service'
+
 import {
   listAllDomains,
   createNewDomain,
@@ -257,6 +307,8 @@ import {
   getConversationMessages,
   getExportJobStatus,
   deleteExportJob,
+  getEmbeddingSettings,
+  updateEmbeddingSettings,
 } from '@/services/config-service'
 
 // ---------------------------------------------------------------------------
@@ -317,6 +369,25 @@ function getHeader(req: IncomingMessage, name: string): string | null {
   return typeof val === 'string' ? val : null
 }
 
+/** Signed mesh headers plus the exact body bytes they were signed over */
+function getMeshRequest(req: IncomingMessage, body: string = '') {
+  return { headers: readMeshHeaders(name => getHeader(req, name)), body }
+}
+
+/** Read a JSON body while keeping the raw text for mesh signature checks */
+async function readSignedJsonBody(req: IncomingMessage): Promise<{ body: any; mesh: ReturnType<typeof getMeshRequest> }> {
+  const raw = (await readRawBody(req)).toString('utf-8')
+  let body: any = {}
+  if (raw) {
+    try {
+      body = JSON.parse(raw)
+    } catch {
+      throw new Error('Invalid JSON body')
+    }
+  }
+  return { body, mesh: getMeshRequest(req, raw) }
+}
+
 function getQuery(url: string): Record<string, string> {
   const parsed = parse(url, true)
   const q: Record<string, string> = {}
@@ -388,6 +459,13 @@ const routes: Route[] = [
   { method: 'GET', pattern: /^\/api\/config$/, paramNames: [], handler: async (_req, res) => {
     sendServiceResult(res, getSystemConfig())
   }},
+  { method: 'GET', pattern: /^\/api\/config\/embeddings$/, paramNames: [], handler: async (_req, res) => {
+    sendServiceResult(res, getEmbeddingSettings())
+  }},
+  { method: 'PUT', pattern: /^\/api\/config\/embeddings$/, paramNames: [], handler: async (req, res) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, await updateEmbeddingSettings(body))
+  }},
   { method: 'GET', pattern: /^\/api\/organization$/, paramNames: [], handler: async (_req, res) => {
     sendServiceResult(res, getOrganization())
   }},
@@ -538,8 +616,8 @@ const routes: Route[] = [
     }
   }},
   // Agent directory
-  { method: 'GET', pattern: /^\/api\/agents\/directory$/, paramNames: [], handler: async (_req, res) => {
-    sendServiceResult(res, getDirectory())
+  { method: 'GET', pattern: /^\/api\/agents\/directory$/, paramNames: [], handler: async (req, res) => {
+    sendServiceResult(res, getDirectory(getMeshRequest(req)))
   }},
   { method: 'GET', pattern: /^\/api\/agents\/directory\/lookup\/([^/]+)$/, paramNames: ['name'], handler: async (_req, res, params) => {
     sendServiceResult(res, lookupAgentByDirectoryName(params.name))
@@ -644,6 +722,53 @@ const routes: Route[] = [
   { method: 'DELETE', pattern: /^\/api\/agents\/([^/]+)\/memory\/long-term$/, paramNames: ['id'], handler: async (_req, res, params, query) => {
     sendServiceResult(res, await deleteLongTermMemory(params.id, query.id || ''))
   }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/memory\/settings$/, paramNames: ['id'], handler: async (_req, res, params) => {
+    sendServiceResult(res, getMemorySettings(params.id))
+  }},
+  { method: 'PUT', pattern: /^\/api\/agents\/([^/]+)\/memory\/settings$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, updateMemorySettings(params.id, body))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/memory\/conflicts$/, paramNames: ['id'], handler: async (_req, res, params, query) => {
+    sendServiceResult(res, await listMemoryConflicts(params.id, {
+      status: query.status,
+      limit: query.limit ? parseInt(query.limit) : undefined,
+    }))
+  }},
+  { method: 'POST', pattern: /^\/api\/agents\/([^/]+)\/memory\/conflicts\/([^/]+)$/, paramNames: ['id', 'conflictId'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, await reviewMemoryConflict(params.id, params.conflictId, body))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/memory\/export$/, paramNames: ['id'], handler: async (_req, res, params) => {
+    const result = await exportAgentMemories(params.id)
+    if (result.error || !result.data) {
+      sendJson(res, result.status, { error: result.error })
+      return
+    }
+    const { content, filename, memories, links } = result.data
+    sendBinary(res, 200, Buffer.from(content, 'utf-8'), {
+      'Content-Type': 'application/x-ndjson',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+      'X-Memory-Count': memories.toString(),
+      'X-Link-Count': links.toString(),
+    })
+  }},
+  { method: 'POST', pattern: /^\/api\/agents\/([^/]+)\/memory\/import$/, paramNames: ['id'], handler: async (req, res, params, query) => {
+    const content = (await readRawBody(req)).toString('utf-8')
+    sendServiceResult(res, await importAgentMemories(params.id, content, {
+      reembed: query.reembed === 'true',
+      dedupe: query.dedupe === 'true',
+      categoryMap: query.remap,
+      dryRun: query.dryRun === 'true',
+    }))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/embeddings$/, paramNames: ['id'], handler: async (_req, res, params) => {
+    sendServiceResult(res, await getEmbeddingStatus(params.id))
+  }},
+  { method: 'POST', pattern: /^\/api\/agents\/([^/]+)\/embeddings$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, await triggerReembed(params.id, { force: body.force === true }))
+  }},
   { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/memory$/, paramNames: ['id'], handler: async (_req, res, params) => {
     sendServiceResult(res, await getMemory(params.id))
   }},
@@ -657,7 +782,8 @@ const routes: Route[] = [
     sendServiceResult(res, await searchConversations(params.id, {
       query: query.q || query.query || '',
       mode: query.mode,
-      limit: query.limit ? parseInt(query.limit) : undefined,
+      // Number() rather than parseInt so '10abc' is rejected instead of read as 10
+      limit: query.limit ? Number(query.limit) : undefined,
       minScore: query.minScore ? parseFloat(query.minScore) : undefined,
       roleFilter: (query.roleFilter as any) || undefined,
       conversationFile: query.conversationFile,
@@ -666,6 +792,9 @@ const routes: Route[] = [
       useRrf: query.useRrf === 'true' ? true : query.useRrf === 'false' ? false : undefined,
       bm25Weight: query.bm25Weight ? parseFloat(query.bm25Weight) : undefined,
       semanticWeight: query.semanticWeight ? parseFloat(query.semanticWeight) : undefined,
+      rerank: query.rerank,
+      rerankDepth: query.rerankDepth ? Number(query.rerankDepth) : undefined,
+      explain: query.explain === 'true',
     }))
   }},
   { method: 'POST', pattern: /^\/api\/agents\/([^/]+)\/search$/, paramNames: ['id'], handler: async (req, res, params) => {
@@ -694,6 +823,10 @@ const routes: Route[] = [
   }},
 
   // Graph - code
+  { method: 'POST', pattern: /^\/api\/agents\/([^/]+)\/graph\/code\/impact$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, await analyzeCodeImpact(params.id, body))
+  }},
   { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/graph\/code$/, paramNames: ['id'], handler: async (_req, res, params, query) => {
     sendServiceResult(res, await queryCodeGraph(params.id, query as any))
   }},
@@ -863,7 +996,43 @@ const routes: Route[] = [
     sendServiceResult(res, addEmailAddressToAgent(params.id, body))
   }},
 
+  // Inbox rules
+  { method: 'PATCH', pattern: /^\/api\/agents\/([^/]+)\/inbox-rules\/([^/]+)$/, paramNames: ['id', 'ruleId'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, updateInboxRuleOnAgent(params.id, params.ruleId, body))
+  }},
+  { method: 'DELETE', pattern: /^\/api\/agents\/([^/]+)\/inbox-rules\/([^/]+)$/, paramNames: ['id', 'ruleId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, removeInboxRuleFromAgent(params.id, params.ruleId))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/inbox-rules$/, paramNames: ['id'], handler: async (_req, res, params) => {
+    sendServiceResult(res, listInboxRules(params.id))
+  }},
+  { method: 'POST', pattern: /^\/api\/agents\/([^/]+)\/inbox-rules$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, addInboxRuleToAgent(params.id, body))
+  }},
+
   // Agent messages
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/messages\/threads\/([^/]+)$/, paramNames: ['id', 'threadId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, await getAgentMessageThread(params.id, params.threadId))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/messages\/threads$/, paramNames: ['id'], handler: async (_req, res, params, query) => {
+    sendServiceResult(res, await listAgentMessageThreads(params.id, query))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/messages\/scheduled$/, paramNames: ['id'], handler: async (_req, res, params) => {
+    sendServiceResult(res, await listAgentScheduledMessages(params.id))
+  }},
+  { method: 'DELETE', pattern: /^\/api\/agents\/([^/]+)\/messages\/scheduled\/([^/]+)$/, paramNames: ['id', 'messageId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, await cancelAgentScheduledMessage(params.id, params.messageId))
+  }},
+  { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/messages\/([^/]+)\/attachments\/([^/]+)$/, paramNames: ['id', 'messageId', 'digest'], handler: async (_req, res, params, query) => {
+    const result = await getAgentMessageAttachment(params.id, params.messageId, params.digest, (query.box as any) || 'inbox')
+    if (result.error || !result.data) {
+      sendJson(res, result.status, { error: result.error })
+      return
+    }
+    sendBinary(res, 200, new Uint8Array(result.data.data), result.headers!)
+  }},
   { method: 'GET', pattern: /^\/api\/agents\/([^/]+)\/messages\/([^/]+)$/, paramNames: ['id', 'messageId'], handler: async (_req, res, params, query) => {
     sendServiceResult(res, await getAgentMessage(params.id, params.messageId, (query.box as any) || 'inbox'))
   }},
@@ -929,7 +1098,7 @@ const routes: Route[] = [
   // Hosts
   // =========================================================================
   { method: 'GET', pattern: /^\/api\/hosts\/identity$/, paramNames: [], handler: async (_req, res) => {
-    sendServiceResult(res, getHostIdentity())
+    sendServiceResult(res, await getHostIdentity())
   }},
   { method: 'GET', pattern: /^\/api\/hosts\/health$/, paramNames: [], handler: async (_req, res, _params, query) => {
     sendServiceResult(res, await checkRemoteHealth(query.url || ''))
@@ -941,19 +1110,32 @@ const routes: Route[] = [
     sendServiceResult(res, await triggerMeshSync())
   }},
   { method: 'POST', pattern: /^\/api\/hosts\/register-peer$/, paramNames: [], handler: async (req, res) => {
-    const body = await readJsonBody(req)
-    sendServiceResult(res, await registerPeer(body))
+    const { body, mesh } = await readSignedJsonBody(req)
+    sendServiceResult(res, await registerPeer(body, mesh))
   }},
   { method: 'POST', pattern: /^\/api\/hosts\/exchange-peers$/, paramNames: [], handler: async (req, res) => {
+    const { body, mesh } = await readSignedJsonBody(req)
+    sendServiceResult(res, await exchangePeers(body, mesh))
+  }},
+  { method: 'GET', pattern: /^\/api\/hosts\/trust$/, paramNames: [], handler: async (_req, res) => {
+    sendServiceResult(res, await getMeshTrust())
+  }},
+  { method: 'PUT', pattern: /^\/api\/hosts\/trust\/([^/]+)$/, paramNames: ['hostId'], handler: async (req, res, params) => {
     const body = await readJsonBody(req)
-    sendServiceResult(res, await exchangePeers(body))
+    sendServiceResult(res, updatePeerTrust(params.hostId, body))
+  }},
+  { method: 'DELETE', pattern: /^\/api\/hosts\/trust\/([^/]+)$/, paramNames: ['hostId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, forgetPeerTrust(params.hostId))
+  }},
+  { method: 'POST', pattern: /^\/api\/hosts\/pairing-token$/, paramNames: [], handler: async (_req, res) => {
+    sendServiceResult(res, createHostPairingToken())
   }},
   { method: 'GET', pattern: /^\/api\/hosts$/, paramNames: [], handler: async (_req, res) => {
     sendServiceResult(res, await listHosts())
   }},
-  { method: 'POST', pattern: /^\/api\/hosts$/, paramNames: [], handler: async (req, res) => {
-    const body = await readJsonBody(req)
-    sendServiceResult(res, await addNewHost(body))
+  { method: 'POST', pattern: /^\/api\/hosts$/, paramNames: [], handler: async (req, res, _params, query) => {
+    const { pairingToken, ...host } = await readJsonBody(req)
+    sendServiceResult(res, await addNewHost({ host, syncEnabled: query.sync !== 'false', pairingToken }))
   }},
   { method: 'PUT', pattern: /^\/api\/hosts\/([^/]+)$/, paramNames: ['id'], handler: async (req, res, params) => {
     const body = await readJsonBody(req)
@@ -978,7 +1160,7 @@ const routes: Route[] = [
     sendServiceResult(res, await registerAMPAgent(body, authHeader))
   }},
   { method: 'POST', pattern: /^\/api\/v1\/route$/, paramNames: [], handler: async (req, res) => {
-    const body = await readJsonBody(req)
+    const { body, mesh } = await readSignedJsonBody(req)
     const result = await routeMessage(
       body,
       getHeader(req, 'Authorization'),
@@ -986,6 +1168,7 @@ const routes: Route[] = [
       getHeader(req, 'X-AMP-Envelope-Id'),
       getHeader(req, 'X-AMP-Signature'),
       getHeader(req, 'Content-Length'),
+      mesh,
     )
     sendServiceResult(res, result)
   }},
@@ -1015,6 +1198,14 @@ const routes: Route[] = [
     } catch { /* No body is fine */ }
     sendServiceResult(res, await sendReadReceipt(authHeader, params.id, originalSender))
   }},
+  { method: 'GET', pattern: /^\/api\/v1\/attachments\/([^/]+)$/, paramNames: ['digest'], handler: async (req, res, params, query) => {
+    const result = await getAMPAttachment(getHeader(req, 'Authorization'), params.digest, query.name || null)
+    if (result.status !== 200 || !result.data || !('data' in result.data)) {
+      sendServiceResult(res, result)
+      return
+    }
+    sendBinary(res, 200, new Uint8Array(result.data.data), result.headers!)
+  }},
   { method: 'GET', pattern: /^\/api\/v1\/messages\/pending$/, paramNames: [], handler: async (req, res, _params, query) => {
     const authHeader = getHeader(req, 'Authorization')
     sendServiceResult(res, listPendingMessages(authHeader, query.limit ? parseInt(query.limit) : undefined))
@@ -1038,10 +1229,11 @@ const routes: Route[] = [
     sendServiceResult(res, await rotateKeypair(getHeader(req, 'Authorization')))
   }},
   { method: 'POST', pattern: /^\/api\/v1\/federation\/deliver$/, paramNames: [], handler: async (req, res) => {
-    const body = await readJsonBody(req)
+    const { body, mesh } = await readSignedJsonBody(req)
     const result = await deliverFederated(
       getHeader(req, 'X-AMP-Provider'),
       body,
+      mesh,
     )
     sendServiceResult(res, result)
   }},
@@ -1098,9 +1290,51 @@ const routes: Route[] = [
     const body = await readJsonBody(req)
     sendServiceResult(res, await notifyTeamAgents(body))
   }},
-  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)$/, paramNames: ['id', 'taskId'], handler: async (_req, res, _params) => {
-    // GET single task not implemented in route — taskId routes only have PUT/DELETE
-    sendJson(res, 405, { error: 'Method not allowed' })
+  { method: 'POST', pattern: /^\/api\/teams\/([^/]+)\/tasks\/import$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, importTeamPlan(params.id, body))
+  }},
+  { method: 'POST', pattern: /^\/api\/teams\/([^/]+)\/tasks\/export$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, exportTeamPlan(params.id, body))
+  }},
+  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)\/activity$/, paramNames: ['id', 'taskId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, listTaskActivity(params.id, params.taskId))
+  }},
+  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)\/comments$/, paramNames: ['id', 'taskId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, listTaskComments(params.id, params.taskId))
+  }},
+  { method: 'POST', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)\/comments$/, paramNames: ['id', 'taskId'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, addTaskCommentToTask(params.id, params.taskId, body))
+  }},
+  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)\/attachments\/([^/]+)$/, paramNames: ['id', 'taskId', 'attachmentId'], handler: async (_req, res, params) => {
+    const result = getTaskAttachmentFile(params.id, params.taskId, params.attachmentId)
+    if (result.error || !result.data) {
+      sendJson(res, result.status, { error: result.error })
+      return
+    }
+    const { attachment, data } = result.data
+    sendBinary(res, 200, new Uint8Array(data), {
+      'Content-Type': attachment.mimeType,
+      'Content-Disposition': `attachment; filename="${encodeURIComponent(attachment.filename)}"`,
+      'Content-Length': data.length.toString(),
+    })
+  }},
+  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)\/attachments$/, paramNames: ['id', 'taskId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, listAttachmentsOfTask(params.id, params.taskId))
+  }},
+  { method: 'POST', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)\/attachments$/, paramNames: ['id', 'taskId'], handler: async (req, res, params, query) => {
+    const data = await readRawBody(req)
+    sendServiceResult(res, uploadTaskAttachment(params.id, params.taskId, {
+      filename: query.filename || '',
+      mimeType: getHeader(req, 'content-type') || undefined,
+      data,
+      actorAgentId: query.actorAgentId || undefined,
+    }))
+  }},
+  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)$/, paramNames: ['id', 'taskId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, getTeamTask(params.id, params.taskId))
   }},
   { method: 'PUT', pattern: /^\/api\/teams\/([^/]+)\/tasks\/([^/]+)$/, paramNames: ['id', 'taskId'], handler: async (req, res, params) => {
     const body = await readJsonBody(req)
@@ -1133,6 +1367,20 @@ const routes: Route[] = [
     const body = await readJsonBody(req)
     sendServiceResult(res, createTeamDocument(params.id, body))
   }},
+  { method: 'DELETE', pattern: /^\/api\/teams\/([^/]+)\/memory\/([^/]+)$/, paramNames: ['id', 'memoryId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, deleteTeamMemoryEntry(params.id, params.memoryId))
+  }},
+  { method: 'GET', pattern: /^\/api\/teams\/([^/]+)\/memory$/, paramNames: ['id'], handler: async (_req, res, params, query) => {
+    sendServiceResult(res, await listTeamMemory(params.id, {
+      query: query.q,
+      category: query.category,
+      limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    }))
+  }},
+  { method: 'POST', pattern: /^\/api\/teams\/([^/]+)\/memory$/, paramNames: ['id'], handler: async (req, res, params) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, await publishTeamMemoryEntry(params.id, body))
+  }},
   { method: 'GET', pattern: /^\/api\/teams\/([^/]+)$/, paramNames: ['id'], handler: async (_req, res, params) => {
     sendServiceResult(res, getTeamById(params.id))
   }},
@@ -1154,6 +1402,15 @@ const routes: Route[] = [
   // =========================================================================
   // Webhooks
   // =========================================================================
+  { method: 'POST', pattern: /^\/api\/webhooks\/([^/]+)\/deliveries\/([^/]+)\/redeliver$/, paramNames: ['id', 'deliveryId'], handler: async (_req, res, params) => {
+    sendServiceResult(res, await redeliverWebhookDelivery(params.id, params.deliveryId))
+  }},
+  { method: 'GET', pattern: /^\/api\/webhooks\/([^/]+)\/deliveries$/, paramNames: ['id'], handler: async (_req, res, params, query) => {
+    sendServiceResult(res, listWebhookDeliveriesById(params.id, {
+      status: query.status,
+      limit: query.limit ? parseInt(query.limit, 10) : undefined,
+    }))
+  }},
   { method: 'POST', pattern: /^\/api\/webhooks\/([^/]+)\/test$/, paramNames: ['id'], handler: async (_req, res, params) => {
     sendServiceResult(res, await testWebhookById(params.id))
   }},
@@ -1171,6 +1428,40 @@ const routes: Route[] = [
     sendServiceResult(res, createNewWebhook(body))
   }},
 
+  // =========================================================================
+  // Access control (enforced in server.mjs; these manage tokens and settings)
+  // =========================================================================
+  { method: 'POST', pattern: /^\/api\/auth\/login$/, paramNames: [], handler: async (req, res) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, loginWithToken(body))
+  }},
+  { method: 'POST', pattern: /^\/api\/auth\/logout$/, paramNames: [], handler: async (_req, res) => {
+    sendServiceResult(res, logout())
+  }},
+  { method: 'GET', pattern: /^\/api\/auth\/me$/, paramNames: [], handler: async (req, res) => {
+    sendServiceResult(res, getCurrentAccess(getHeader(req, 'Authorization'), getHeader(req, 'Cookie')))
+  }},
+  { method: 'GET', pattern: /^\/api\/auth\/settings$/, paramNames: [], handler: async (_req, res) => {
+    sendServiceResult(res, getAccessControlSettings())
+  }},
+  { method: 'PUT', pattern: /^\/api\/auth\/settings$/, paramNames: [], handler: async (req, res) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, updateAccessControlSettings(body))
+  }},
+  { method: 'DELETE', pattern: /^\/api\/auth\/tokens\/([^/]+)$/, paramNames: ['id'], handler: async (_req, res, params) => {
+    sendServiceResult(res, revokeToken(params.id))
+  }},
+  { method: 'GET', pattern: /^\/api\/auth\/tokens$/, paramNames: [], handler: async (_req, res) => {
+    sendServiceResult(res, listTokens())
+  }},
+  { method: 'POST', pattern: /^\/api\/auth\/tokens$/, paramNames: [], handler: async (req, res) => {
+    const body = await readJsonBody(req)
+    sendServiceResult(res, createToken(body))
+  }},
+  { method: 'GET', pattern: /^\/api\/auth\/audit$/, paramNames: [], handler: async (_req, res, _params, query) => {
+    sendServiceResult(res, listAccessDenials(query.limit))
+  }},
+
   // =========================================================================
   // Domains
   // =========================================================================
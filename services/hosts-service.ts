@@ -16,6 +16,13 @@
  *   GET    /api/hosts/sync             -> getMeshStatus
  *   POST   /api/hosts/register-peer    -> registerPeer
  *   POST   /api/hosts/exchange-peers   -> exchangePeers
+ *   GET    /api/hosts/trust            -> getMeshTrust
+ *   PUT    /api/hosts/trust/[hostId]   -> updatePeerTrust
+ *   DELETE /api/hosts/trust/[hostId]   -> forgetPeerTrust
+ *   POST   /api/hosts/pairing-token    -> createHostPairingToken
+ *
+ * register-peer and exchange-peers only accept requests signed by a trusted
+ * peer (see lib/mesh-auth.ts).
  */
 
 import { exec } from 'child_process'
@@ -40,6 +47,18 @@ import {
   adoptOrganization,
 } from '@/lib/hosts-config'
 import { addHostWithSync, syncWithAllPeers, getPublicUrl, hasProcessedPropagation, markPropagationProcessed } from '@/lib/host-sync'
+import {
+  authenticatePeer,
+  getHostKeyPair,
+  getPeerTrust,
+  getTrustedPublicKey,
+  introducePeer,
+  listPeerTrust,
+  setPeerTrustState,
+  forgetPeer,
+  createPairingToken,
+  type MeshRequest,
+} from '@/lib/mesh-auth'
 import type { Host } from '@/types/host'
 import type {
   PeerRegistrationRequest,
@@ -48,6 +67,7 @@ import type {
   PeerExchangeResponse,
   HostIdentity,
   HostIdentityResponse,
+  PeerTrust,
 } from '@/types/host-sync'
 
 const execAsync = promisify(exec)
@@ -144,6 +164,7 @@ function getKnownHostIdentities(excludeId?: string): HostIdentity[] {
       name: h.name,
       url: h.url,
       description: h.description,
+      publicKey: getTrustedPublicKey(h.id),
     }))
 }
 
@@ -223,6 +244,35 @@ async function fetchVersionInfo(
   }
 }
 
+/**
+ * Fetch the remote host's mesh key fingerprint from /api/hosts/identity,
+ * so the operator can compare it out-of-band before adding the host.
+ */
+async function fetchMeshFingerprint(
+  url: URL,
+  timeout: number
+): Promise<{ hostId?: string; fingerprint?: string }> {
+  try {
+    const response = await fetch(`${url.protocol}//${url.host}/api/hosts/identity`, {
+      method: 'GET',
+      headers: {
+        'User-Agent': 'AI-Maestro-Health-Check',
+        'Accept': 'application/json'
+      },
+      signal: AbortSignal.timeout(timeout),
+      cache: 'no-store'
+    })
+
+    if (response.ok) {
+      const identity = await response.json()
+      return { hostId: identity.host?.id, fingerprint: identity.host?.fingerprint }
+    }
+    return {}
+  } catch {
+    return {}
+  }
+}
+
 /**
  * Fetch Docker availability from remote host's /api/docker/info endpoint.
  */
@@ -306,10 +356,14 @@ export async function listHosts(): Promise<ServiceResult<{ hosts: any[] }>> {
     const dockerStatusPromise = getDockerStatus()
 
     // Add isSelf flag to each host right away
-    const hostsWithSelf = hosts.map(host => ({
-      ...host,
-      isSelf: isSelf(host.id),
-    }))
+    const hostsWithSelf = hosts.map(host => {
+      const trust = isSelf(host.id) ? null : getPeerTrust(host.id)
+      return {
+        ...host,
+        isSelf: isSelf(host.id),
+        ...(trust ? { meshTrust: { state: trust.state, fingerprint: trust.fingerprint, source: trust.source, introducedBy: trust.introducedBy } } : {}),
+      }
+    })
 
     // Await Docker status (returns from cache instantly after first check)
     const docker = await dockerStatusPromise
@@ -336,11 +390,13 @@ export async function listHosts(): Promise<ServiceResult<{ hosts: any[] }>> {
 export interface AddHostParams {
   host: Host
   syncEnabled: boolean
+  /** Pairing token issued by the remote host (Settings → Hosts on that machine) */
+  pairingToken?: string
 }
 
 export async function addNewHost(params: AddHostParams): Promise<ServiceResult<any>> {
   try {
-    const { host, syncEnabled } = params
+    const { host, syncEnabled, pairingToken } = params
 
     // Validate required fields
     if (!host.id || !host.name || !host.url || !host.type) {
@@ -361,7 +417,7 @@ export async function addNewHost(params: AddHostParams): Promise<ServiceResult<a
 
     // Use sync-enabled add for remote hosts, regular add for local
     if (syncEnabled && host.type === 'remote') {
-      const syncResult = await addHostWithSync(host)
+      const syncResult = await addHostWithSync(host, { pairingToken: pairingToken?.trim() || undefined })
 
       return {
         data: {
@@ -451,9 +507,10 @@ export async function deleteExistingHost(id: string): Promise<ServiceResult<{ su
 // GET /api/hosts/identity — self host identity with org info
 // ---------------------------------------------------------------------------
 
-export function getHostIdentity(): ServiceResult<HostIdentityResponse> {
+export async function getHostIdentity(): Promise<ServiceResult<HostIdentityResponse>> {
   const selfHost = getSelfHost()
   const orgInfo = getOrganizationInfo()
+  const keyPair = await getHostKeyPair()
 
   // ALWAYS use the configured URL from hosts.json
   // NEVER use localhost - it's useless in a mesh network
@@ -472,6 +529,8 @@ export function getHostIdentity(): ServiceResult<HostIdentityResponse> {
         version: AI_MAESTRO_VERSION,
         tailscale,
         isSelf: true as const,
+        publicKey: keyPair.publicHex,
+        fingerprint: keyPair.fingerprint,
       },
       organization: orgInfo.organization || undefined,
       organizationSetAt: orgInfo.setAt || undefined,
@@ -505,9 +564,10 @@ export async function checkRemoteHealth(hostUrl: string): Promise<ServiceResult<
 
     if (result.success) {
       // Also fetch version info and Docker capabilities
-      const [versionResult, dockerResult] = await Promise.all([
+      const [versionResult, dockerResult, meshResult] = await Promise.all([
         fetchVersionInfo(parsedUrl, 3000),
         fetchDockerInfo(parsedUrl, 3000),
+        fetchMeshFingerprint(parsedUrl, 3000),
       ])
 
       return {
@@ -521,6 +581,8 @@ export async function checkRemoteHealth(hostUrl: string): Promise<ServiceResult<
             docker: dockerResult.available,
             dockerVersion: dockerResult.version,
           },
+          hostId: meshResult.hostId || null,
+          fingerprint: meshResult.fingerprint || null,
         },
         status: 200,
       }
@@ -674,7 +736,7 @@ export async function getMeshStatus(): Promise<ServiceResult<any>> {
 // POST /api/hosts/register-peer — accept peer registration
 // ---------------------------------------------------------------------------
 
-export async function registerPeer(body: PeerRegistrationRequest): Promise<ServiceResult<PeerRegistrationResponse>> {
+export async function registerPeer(body: PeerRegistrationRequest, mesh: MeshRequest): Promise<ServiceResult<PeerRegistrationResponse>> {
   try {
     // Validate request
     if (!body.host || !body.host.id || !body.host.name || !body.host.url) {
@@ -692,6 +754,30 @@ export async function registerPeer(body: PeerRegistrationRequest): Promise<Servi
       }
     }
 
+    // Only signed requests from trusted peers (or ones holding a pairing token) may register
+    const peerAuth = authenticatePeer('POST', '/api/hosts/register-peer', mesh, {
+      allowPairing: true,
+      name: body.host.name,
+      url: body.host.url,
+    })
+    const authError = !peerAuth.ok
+      ? peerAuth.error
+      : peerAuth.hostId !== body.host.id ? `Request signed by ${peerAuth.hostId} cannot register ${body.host.id}` : null
+    if (authError) {
+      console.warn(`[Host Sync] Rejected register-peer from ${body.host.id}: ${authError}`)
+      return {
+        data: {
+          success: false,
+          registered: false,
+          alreadyKnown: false,
+          host: getLocalHostIdentity(),
+          knownHosts: [],
+          error: authError,
+        },
+        status: peerAuth.ok ? 403 : peerAuth.status,
+      }
+    }
+
     // Check propagation depth to prevent infinite loops
     const propagationDepth = body.source?.propagationDepth || 0
     if (propagationDepth > MAX_PROPAGATION_DEPTH) {
@@ -901,7 +987,7 @@ export async function registerPeer(body: PeerRegistrationRequest): Promise<Servi
 // POST /api/hosts/exchange-peers — exchange peer lists
 // ---------------------------------------------------------------------------
 
-export async function exchangePeers(body: PeerExchangeRequest): Promise<ServiceResult<PeerExchangeResponse>> {
+export async function exchangePeers(body: PeerExchangeRequest, mesh: MeshRequest): Promise<ServiceResult<PeerExchangeResponse>> {
   try {
     // Validate request
     if (!body.fromHost || !body.knownHosts) {
@@ -917,6 +1003,28 @@ export async function exchangePeers(body: PeerExchangeRequest): Promise<ServiceR
       }
     }
 
+    // Peer lists are only accepted from trusted peers
+    const peerAuth = authenticatePeer('POST', '/api/hosts/exchange-peers', mesh, {
+      name: body.fromHost.name,
+      url: body.fromHost.url,
+    })
+    const authError = !peerAuth.ok
+      ? peerAuth.error
+      : peerAuth.hostId !== body.fromHost.id ? `Request signed by ${peerAuth.hostId} cannot speak for ${body.fromHost.id}` : null
+    if (authError) {
+      console.warn(`[Host Sync] Rejected exchange-peers from ${body.fromHost.id}: ${authError}`)
+      return {
+        data: {
+          success: false,
+          newlyAdded: [],
+          alreadyKnown: [],
+          unreachable: [],
+          error: authError,
+        },
+        status: peerAuth.ok ? 403 : peerAuth.status,
+      }
+    }
+
     // Check if we've already processed this propagation
     const propagationId = body.propagationId
     if (propagationId && hasProcessedPropagation(propagationId)) {
@@ -994,6 +1102,11 @@ export async function exchangePeers(body: PeerExchangeRequest): Promise<ServiceR
         continue
       }
 
+      // The sender is trusted, so the keys it shares are pinned for approval
+      if (peerHost.publicKey) {
+        introducePeer(peerHost.id, peerHost.publicKey, body.fromHost.id, { name: peerHost.name, url: peerHost.url })
+      }
+
       // Skip if it's the sender (we already know them from register-peer)
       if (peerHost.id === body.fromHost.id) {
         console.log(`[Host Sync] Skipping ${peerHost.name} (${peerHost.id}): is sender`)
@@ -1110,3 +1223,69 @@ export async function exchangePeers(body: PeerExchangeRequest): Promise<ServiceR
     }
   }
 }
+
+/** Re-exported so routes can build a MeshRequest without reaching into lib/ */
+export { readMeshHeaders } from '@/lib/mesh-auth'
+
+// ---------------------------------------------------------------------------
+// GET /api/hosts/trust — this host's fingerprint and pinned peer keys
+// ---------------------------------------------------------------------------
+
+export async function getMeshTrust(): Promise<ServiceResult<{
+  self: { hostId: string; publicKey: string; fingerprint: string }
+  peers: PeerTrust[]
+}>> {
+  try {
+    const keyPair = await getHostKeyPair()
+    return {
+      data: {
+        self: { hostId: getSelfHost().id, publicKey: keyPair.publicHex, fingerprint: keyPair.fingerprint },
+        peers: listPeerTrust(),
+      },
+      status: 200,
+    }
+  } catch (error) {
+    console.error('[Hosts API] Failed to load mesh trust:', error)
+    return { error: 'Failed to load mesh trust', status: 500 }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// PUT /api/hosts/trust/[hostId] — approve or revoke a peer
+// ---------------------------------------------------------------------------
+
+export function updatePeerTrust(hostId: string, body: { state?: unknown }): ServiceResult<{ peer: PeerTrust }> {
+  if (body.state !== 'trusted' && body.state !== 'revoked') {
+    return { error: 'state must be "trusted" or "revoked"', status: 400 }
+  }
+  const peer = setPeerTrustState(hostId, body.state)
+  if (!peer) {
+    return { error: `No key pinned for host ${hostId}`, status: 404 }
+  }
+  console.log(`[Host Sync] Peer ${hostId} ${body.state === 'trusted' ? 'approved' : 'revoked'} (${peer.fingerprint})`)
+  return { data: { peer }, status: 200 }
+}
+
+// ---------------------------------------------------------------------------
+// DELETE /api/hosts/trust/[hostId] — forget a pinned key
+// ---------------------------------------------------------------------------
+
+export function forgetPeerTrust(hostId: string): ServiceResult<{ success: boolean }> {
+  if (!forgetPeer(hostId)) {
+    return { error: `No key pinned for host ${hostId}`, status: 404 }
+  }
+  return { data: { success: true }, status: 200 }
+}
+
+// ---------------------------------------------------------------------------
+// POST /api/hosts/pairing-token — one-time token for a new peer
+// ---------------------------------------------------------------------------
+
+export function createHostPairingToken(): ServiceResult<{ token: string; expiresAt: string }> {
+  try {
+    return { data: createPairingToken(), status: 201 }
+  } catch (error) {
+    console.error('[Hosts API] Failed to create pairing token:', error)
+    return { error: 'Failed to create pairing token', status: 500 }
+  }
+}
@@ -35,6 +35,8 @@ import {
 import type { MessageSummary } from '@/lib/messageQueue'
 import { sendFromUI } from '@/lib/message-send'
 import { forwardFromUI } from '@/lib/message-send'
+import { readAttachmentInput } from '@/lib/attachment-store'
+import { parseSendAt } from '@/lib/message-scheduler'
 import { searchAgents } from '@/lib/agent-registry'
 import { getSelfHostId, getSelfHost } from '@/lib/hosts-config'
 import {
@@ -188,10 +190,12 @@ export interface SendMessageParams {
     type: 'request' | 'response' | 'notification' | 'update'
     message: string
     context?: Record<string, any>
-    attachments?: Array<{ name: string; path: string; type: string }>
+    // New files as { name, data (base64) }, or { name, type, digest } for stored ones
+    attachments?: Array<{ name: string; type?: string; size?: number; digest?: string; data?: string }>
   }
   priority?: 'low' | 'normal' | 'high' | 'urgent'
   inReplyTo?: string
+  threadId?: string
   fromHost?: string
   toHost?: string
   fromAlias?: string
@@ -199,6 +203,7 @@ export interface SendMessageParams {
   fromLabel?: string
   toLabel?: string
   fromVerified?: boolean
+  sendAt?: string  // ISO time; the message is held by the scheduler until then
 }
 
 export async function sendMessage(params: SendMessageParams): Promise<ServiceResult<any>> {
@@ -214,14 +219,26 @@ export async function sendMessage(params: SendMessageParams): Promise<ServiceRes
     return { error: 'Content must have type and message fields', status: 400 }
   }
 
+  const attachmentInput = readAttachmentInput(content.attachments)
+  if (attachmentInput.error !== undefined) {
+    return { error: attachmentInput.error, status: attachmentInput.status }
+  }
+
+  const schedule = parseSendAt(params.sendAt)
+  if (schedule.error !== undefined) {
+    return { error: schedule.error, status: 400 }
+  }
+
   try {
     const result = await sendFromUI({
       from,
       to,
       subject,
-      content,
+      content: { ...content, attachments: attachmentInput.attachments.length > 0 ? attachmentInput.attachments : undefined },
+      attachments: attachmentInput.uploads,
       priority: params.priority,
       inReplyTo: params.inReplyTo,
+      threadId: params.threadId,
       fromHost: params.fromHost,
       toHost: params.toHost,
       fromAlias: params.fromAlias,
@@ -229,12 +246,14 @@ export async function sendMessage(params: SendMessageParams): Promise<ServiceRes
       fromLabel: params.fromLabel,
       toLabel: params.toLabel,
       fromVerified: params.fromVerified,
+      sendAt: schedule.sendAt || undefined,
     })
 
     return {
       data: {
         message: result.message,
         notified: result.notified,
+        scheduledFor: result.scheduledFor,
       },
       status: 201,
     }
@@ -34,7 +34,7 @@ import { persistSession, loadPersistedSessions, unpersistSession } from '@/lib/s
 import { parseNameForDisplay } from '@/types/agent'
 import { initAgentAMPHome, getAgentAMPDir } from '@/lib/amp-inbox-writer'
 import { sessionActivity, broadcastStatusUpdate } from '@/services/shared-state'
-import { getRuntime } from '@/lib/agent-runtime'
+import { getRuntime, getRuntimeForAgent, getRuntimesForAgents } from '@/lib/agent-runtime'
 import crypto from 'crypto'
 
 const execAsync = promisify(exec)
@@ -200,8 +200,8 @@ async function fetchRemoteSessions(hostUrl: string, hostId: string): Promise<Ses
 /** Fetch local tmux sessions + cloud agents + Docker containers */
 async function fetchLocalSessions(hostId: string): Promise<Session[]> {
   try {
-    const runtime = getRuntime()
-    const discovered = await runtime.listSessions()
+    const runtimes = getRuntimesForAgents(loadAgents())
+    const discovered = (await Promise.all(runtimes.map(r => r.listSessions()))).flat()
 
     const sessions: Session[] = []
 
@@ -596,7 +596,7 @@ export async function deleteSession(sessionName: string): Promise<ServiceResult<
     return { data: { success: true, name: sessionName, type: 'cloud' }, status: 200 }
   }
 
-  const runtime = getRuntime()
+  const runtime = getRuntimeForAgent(agent)
   const exists = await runtime.sessionExists(sessionName)
   if (!exists) {
     return { error: 'Session not found', status: 404 }
@@ -641,7 +641,7 @@ export async function renameSession(oldName: string, newName: string): Promise<S
   }
 
   // Local tmux session
-  const runtime = getRuntime()
+  const runtime = getRuntimeForAgent(getAgentBySession(oldName))
   const oldExists = await runtime.sessionExists(oldName)
   if (!oldExists) {
     return { error: 'Session not found', status: 404 }
@@ -673,7 +673,7 @@ export async function sendCommand(
     return { error: 'Command is required', status: 400 }
   }
 
-  const runtime = getRuntime()
+  const runtime = getRuntimeForAgent(getAgentBySession(sessionName))
   const exists = await runtime.sessionExists(sessionName)
   if (!exists) {
     return { error: 'Tmux session not found', status: 404 }
@@ -708,7 +708,7 @@ export async function checkIdleStatus(sessionName: string): Promise<{
   timeSinceActivity: number | null
   idleThreshold: number
 }> {
-  const runtime = getRuntime()
+  const runtime = getRuntimeForAgent(getAgentBySession(sessionName))
   const exists = await runtime.sessionExists(sessionName)
   if (!exists) {
     return { sessionName, exists: false, idle: false, lastActivity: null, timeSinceActivity: null, idleThreshold: IDLE_THRESHOLD_MS }
@@ -726,8 +726,8 @@ export async function checkIdleStatus(sessionName: string): Promise<{
  */
 export async function listRestorableSessions(): Promise<{ sessions: any[]; count: number }> {
   const persistedSessions = loadPersistedSessions()
-  const runtime = getRuntime()
-  const discovered = await runtime.listSessions()
+  const runtimes = getRuntimesForAgents(loadAgents())
+  const discovered = (await Promise.all(runtimes.map(r => r.listSessions()))).flat()
   const activeSessions = discovered.map(s => s.name)
   const restorableSessions = persistedSessions.filter(
     session => !activeSessions.includes(session.id)
@@ -748,11 +748,11 @@ export async function restoreSessions(params: { sessionId?: string; all?: boolea
     return { error: 'No sessions to restore', status: 404 }
   }
 
-  const runtime = getRuntime()
   const results: RestoreResult[] = []
 
   for (const session of sessionsToRestore) {
     try {
+      const runtime = getRuntimeForAgent(getAgentBySession(session.id))
       const exists = await runtime.sessionExists(session.id)
       if (!exists) {
         await runtime.createSession(session.id, session.workingDirectory)
@@ -13,22 +13,61 @@
  *   DELETE /api/teams/[id]                     -> deleteTeamById
  *   GET    /api/teams/[id]/tasks               -> listTeamTasks
  *   POST   /api/teams/[id]/tasks               -> createTeamTask
+ *   POST   /api/teams/[id]/tasks/import        -> importTeamPlan
+ *   POST   /api/teams/[id]/tasks/export        -> exportTeamPlan
+ *   GET    /api/teams/[id]/tasks/[taskId]      -> getTeamTask
  *   PUT    /api/teams/[id]/tasks/[taskId]      -> updateTeamTask
  *   DELETE /api/teams/[id]/tasks/[taskId]      -> deleteTeamTask
+ *   GET    /api/teams/[id]/tasks/[taskId]/activity                   -> listTaskActivity
+ *   GET    /api/teams/[id]/tasks/[taskId]/comments                   -> listTaskComments
+ *   POST   /api/teams/[id]/tasks/[taskId]/comments                   -> addTaskCommentToTask
+ *   GET    /api/teams/[id]/tasks/[taskId]/attachments                -> listAttachmentsOfTask
+ *   POST   /api/teams/[id]/tasks/[taskId]/attachments                -> uploadTaskAttachment
+ *   GET    /api/teams/[id]/tasks/[taskId]/attachments/[attachmentId] -> getTaskAttachmentFile
  *   GET    /api/teams/[id]/documents            -> listTeamDocuments
  *   POST   /api/teams/[id]/documents            -> createTeamDocument
  *   GET    /api/teams/[id]/documents/[docId]    -> getTeamDocument
  *   PUT    /api/teams/[id]/documents/[docId]    -> updateTeamDocument
  *   DELETE /api/teams/[id]/documents/[docId]    -> deleteTeamDocument
+ *   GET    /api/teams/[id]/memory               -> listTeamMemory
+ *   POST   /api/teams/[id]/memory               -> publishTeamMemoryEntry
+ *   DELETE /api/teams/[id]/memory/[memoryId]    -> deleteTeamMemoryEntry
  *   POST   /api/teams/notify                    -> notifyTeamAgents
+ *
+ * Background:
+ *   startTaskScheduler() (server.mjs) -> runTaskScheduler every minute
  */
 
 import { loadTeams, createTeam, getTeam, updateTeam, deleteTeam } from '@/lib/team-registry'
-import { loadTasks, resolveTaskDeps, createTask, getTask, updateTask, deleteTask, wouldCreateCycle } from '@/lib/task-registry'
+import { loadTasks, resolveTaskDeps, createTask, importTasks, getTask, updateTask, deleteTask, wouldCreateCycle, materializeDueTasks } from '@/lib/task-registry'
 import { loadDocuments, createDocument, getDocument, updateDocument, deleteDocument } from '@/lib/document-registry'
-import type { TaskStatus } from '@/types/task'
-import { getAgent } from '@/lib/agent-registry'
+import { validateRecurrence } from '@/lib/task-schedule'
+import {
+  loadTeamMemories,
+  publishTeamMemory,
+  deleteTeamMemory,
+  searchTeamMemories,
+  isTeamMemoryCategory,
+  TEAM_MEMORY_CATEGORIES,
+} from '@/lib/team-memory'
+import { parsePlan, detectPlanFormat, renderMarkdownPlan, TaskPlanError } from '@/lib/task-plan'
+import {
+  getTaskActivity,
+  getTaskCommentThreads,
+  addTaskComment,
+  listTaskAttachments,
+  addTaskAttachment,
+  readTaskAttachment,
+  MAX_COMMENT_LENGTH,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/task-activity'
+import type { Task, TaskActor, TaskAttachment, TaskPlanFormat, TaskPlanItem, TaskRecurrenceInput, TaskStatus } from '@/types/task'
+import type { Team } from '@/types/team'
+import type { TeamMemory, TeamMemoryCategory } from '@/types/team-memory'
+import { getAgent, getAgentByNameAnyHost } from '@/lib/agent-registry'
 import { notifyAgent } from '@/lib/notification-service'
+import { sendFromUI } from '@/lib/message-send'
+import { getSelfHost } from '@/lib/hosts-config'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -53,6 +92,8 @@ export interface UpdateTeamParams {
   lastMeetingAt?: string
   instructions?: string
   lastActivityAt?: string
+  autopilot?: boolean
+  memorySharing?: TeamMemoryCategory[]
 }
 
 export interface CreateTaskParams {
@@ -61,6 +102,9 @@ export interface CreateTaskParams {
   assigneeAgentId?: string
   blockedBy?: string[]
   priority?: number
+  dueAt?: string
+  recurrence?: TaskRecurrenceInput
+  actorAgentId?: string  // Agent making the change; omitted for the web UI user
 }
 
 export interface UpdateTaskParams {
@@ -70,6 +114,35 @@ export interface UpdateTaskParams {
   assigneeAgentId?: string
   blockedBy?: string[]
   priority?: number
+  dueAt?: string | null
+  recurrence?: TaskRecurrenceInput | null
+  actorAgentId?: string
+}
+
+export interface ImportPlanParams {
+  content?: unknown          // Markdown/YAML text, JSON text or an already-parsed JSON plan
+  format?: TaskPlanFormat    // Detected from content when omitted
+  documentId?: string        // Import a team document (markdown) instead of content
+  dryRun?: boolean           // Validate and return the planned tasks without creating them
+  actorAgentId?: string
+}
+
+export interface ExportPlanParams {
+  title?: string
+  documentId?: string        // Overwrite this document instead of creating a new one
+}
+
+export interface AddTaskCommentParams {
+  body: string
+  parentId?: string     // Comment being replied to
+  actorAgentId?: string
+}
+
+export interface UploadTaskAttachmentParams {
+  filename: string
+  mimeType?: string
+  data: Buffer
+  actorAgentId?: string
 }
 
 export interface CreateDocumentParams {
@@ -89,10 +162,208 @@ export interface UpdateDocumentParams {
 export interface NotifyTeamParams {
   agentIds: string[]
   teamName: string
+  subject?: string     // Defaults to the meeting-start notice
+  messageId?: string
+}
+
+export interface ListTeamMemoryParams {
+  query?: string | null       // Semantic search; omit to list by reinforcement
+  category?: string | null
+  limit?: number
+}
+
+export interface PublishTeamMemoryParams {
+  agentId: string
+  memoryId?: string           // Publish one of the agent's long-term memories...
+  category?: TeamMemoryCategory // ...or provide the memory directly
+  content?: string
+  context?: string
+  confidence?: number
 }
 
 const VALID_TASK_STATUSES = ['backlog', 'pending', 'in_progress', 'review', 'completed']
 
+const PLAN_FORMATS: TaskPlanFormat[] = ['markdown', 'json', 'yaml']
+
+const TASK_SCHEDULER_INTERVAL_MS = 60 * 1000
+
+/**
+ * Validate optional dueAt / recurrence fields shared by task create and update.
+ * Returns an error message, or null when valid.
+ */
+function validateTaskSchedule(dueAt: unknown, recurrence: unknown): string | null {
+  if (dueAt !== undefined && dueAt !== null) {
+    if (typeof dueAt !== 'string' || isNaN(Date.parse(dueAt))) {
+      return 'dueAt must be an ISO date string'
+    }
+  }
+  if (recurrence !== undefined && recurrence !== null) {
+    return validateRecurrence(recurrence)
+  }
+  return null
+}
+
+/**
+ * Resolve who is acting on a task: a known agent by ID, otherwise the web UI user.
+ * Returns an error message for malformed IDs.
+ */
+function resolveTaskActor(actorAgentId: unknown): TaskActor | string {
+  if (actorAgentId === undefined || actorAgentId === null || actorAgentId === '') {
+    return { type: 'user' }
+  }
+  if (typeof actorAgentId !== 'string') {
+    return 'actorAgentId must be a string'
+  }
+  const agent = getAgent(actorAgentId)
+  return {
+    type: 'agent',
+    agentId: actorAgentId,
+    name: agent ? agent.label || agent.name || agent.alias : undefined,
+  }
+}
+
+/**
+ * Resolve an @mention to an agent ID: team members first (by name, alias,
+ * label or ID), then any agent by name or ID.
+ */
+function resolveMention(team: Team, mention: string): string | null {
+  const normalized = mention.toLowerCase()
+  for (const agentId of team.agentIds) {
+    const agent = getAgent(agentId)
+    if (!agent) continue
+    const names = [agent.name, agent.alias, agent.label, agent.id]
+    if (names.some(name => name?.toLowerCase() === normalized)) {
+      return agent.id
+    }
+  }
+  return getAgentByNameAnyHost(mention)?.id || getAgent(mention)?.id || null
+}
+
+/**
+ * Check a parsed plan against the board: every dependency must name a plan key
+ * or an existing task, and the new edges must not close a loop.
+ * Returns an error message, or null when the plan can be imported.
+ */
+function validatePlanDependencies(teamId: string, items: TaskPlanItem[], existing: Task[]): string | null {
+  const existingIds = new Set(existing.map(t => t.id))
+  const keys = new Set(items.map(item => item.key))
+
+  for (const item of items) {
+    if (existingIds.has(item.key)) {
+      return `Plan key "${item.key}" clashes with an existing task ID`
+    }
+    for (const ref of item.blockedBy) {
+      if (!keys.has(ref) && !existingIds.has(ref)) {
+        return `Task "${item.subject}" depends on unknown task "${ref}"`
+      }
+    }
+  }
+
+  // Existing tasks never wait on new ones, so only edges inside the plan can
+  // form a loop. Add them one at a time to a scratch board keyed by plan key.
+  const board: Task[] = [
+    ...existing.map(t => ({ ...t, blockedBy: [...t.blockedBy] })),
+    ...items.map(item => ({ ...item, id: item.key, teamId, status: 'pending' as TaskStatus, blockedBy: [] as string[], createdAt: '', updatedAt: '' })),
+  ]
+  const subjects = new Map(board.map(t => [t.id, t.subject]))
+
+  for (const item of items) {
+    const node = board.find(t => t.id === item.key)!
+    for (const ref of item.blockedBy) {
+      // wouldCreateCycle(team, a, b) reports whether `a` already waits on `b`;
+      // making this item wait on `ref` loops exactly when `ref` waits on the item
+      if (wouldCreateCycle(teamId, ref, item.key, board)) {
+        return `Plan has a dependency cycle between "${item.subject}" and "${subjects.get(ref)}"`
+      }
+      node.blockedBy.push(ref)
+    }
+  }
+  return null
+}
+
+/**
+ * Tell an assignee about a task through the team notification path (fire and forget)
+ */
+function notifyTaskAssignee(teamName: string, task: Task): void {
+  if (!task.assigneeAgentId) return
+
+  notifyTeamAgents({
+    agentIds: [task.assigneeAgentId],
+    teamName,
+    subject: `[${teamName}] Task assigned: ${task.subject}`,
+    messageId: `task-${task.id}-${Date.now()}`,
+  }).catch(err => console.error('[Tasks] Failed to notify assignee:', err))
+}
+
+/**
+ * Brief an agent over AMP on a task autopilot just started for them,
+ * with links to the completed upstream tasks.
+ */
+async function sendTaskDispatchMessage(team: Team, task: Task): Promise<void> {
+  const baseUrl = getSelfHost().url
+  const taskUrl = (taskId: string) => `${baseUrl}/api/teams/${team.id}/tasks/${taskId}`
+  const upstream = task.blockedBy
+    .map(depId => getTask(team.id, depId))
+    .filter((dep): dep is Task => dep !== null && dep.status === 'completed')
+
+  const lines = [
+    `Autopilot started a task for you on team "${team.name}".`,
+    '',
+    `Task: ${task.subject}`,
+    `Details: ${taskUrl(task.id)}`,
+  ]
+  if (task.description) {
+    lines.push('', task.description)
+  }
+  if (upstream.length > 0) {
+    lines.push('', 'Completed upstream tasks:')
+    for (const dep of upstream) {
+      lines.push(`- ${dep.subject}: ${taskUrl(dep.id)}`)
+    }
+  }
+  lines.push('', `Board: ${baseUrl}/teams/${team.id}`)
+
+  await sendFromUI({
+    from: 'maestro',
+    fromAlias: 'Maestro',
+    to: task.assigneeAgentId!,
+    subject: `[${team.name}] Task ready: ${task.subject}`,
+    content: {
+      type: 'request',
+      message: lines.join('\n'),
+      context: {
+        task: { id: task.id, teamId: team.id, subject: task.subject, url: taskUrl(task.id) },
+        upstream: upstream.map(dep => ({ id: dep.id, subject: dep.subject, completedAt: dep.completedAt, url: taskUrl(dep.id) })),
+      },
+    },
+  })
+}
+
+/**
+ * Autopilot: move newly unblocked To Do tasks that have an assignee to
+ * in_progress and message their agents. Backlog tasks (including recurring
+ * templates) are left for a human to schedule.
+ */
+function dispatchUnblockedTasks(team: Team, unblocked: Task[]): Task[] {
+  const dispatched: Task[] = []
+
+  for (const candidate of unblocked) {
+    if (!candidate.assigneeAgentId || candidate.status !== 'pending') continue
+
+    const { task } = updateTask(team.id, candidate.id, { status: 'in_progress' }, { type: 'system', name: 'Autopilot' })
+    if (!task) continue
+
+    dispatched.push(task)
+    sendTaskDispatchMessage(team, task)
+      .catch(err => console.error(`[Autopilot] Failed to message assignee of task ${task.id}:`, err))
+  }
+
+  if (dispatched.length > 0) {
+    console.log(`[Autopilot] Team ${team.name}: dispatched ${dispatched.length} unblocked task(s)`)
+  }
+  return dispatched
+}
+
 // ===========================================================================
 // PUBLIC API -- called by API routes
 // ===========================================================================
@@ -148,8 +419,14 @@ export function getTeamById(id: string): ServiceResult<{ team: any }> {
  */
 export function updateTeamById(id: string, params: UpdateTeamParams): ServiceResult<{ team: any }> {
   try {
-    const { name, description, agentIds, lastMeetingAt, instructions, lastActivityAt } = params
-    const team = updateTeam(id, { name, description, agentIds, lastMeetingAt, instructions, lastActivityAt })
+    const { name, description, agentIds, lastMeetingAt, instructions, lastActivityAt, autopilot, memorySharing } = params
+    if (autopilot !== undefined && typeof autopilot !== 'boolean') {
+      return { error: 'autopilot must be a boolean', status: 400 }
+    }
+    if (memorySharing !== undefined && (!Array.isArray(memorySharing) || !memorySharing.every(isTeamMemoryCategory))) {
+      return { error: `memorySharing must be a list of: ${TEAM_MEMORY_CATEGORIES.join(', ')}`, status: 400 }
+    }
+    const team = updateTeam(id, { name, description, agentIds, lastMeetingAt, instructions, lastActivityAt, autopilot, memorySharing })
     if (!team) {
       return { error: 'Team not found', status: 404 }
     }
@@ -198,12 +475,22 @@ export function createTeamTask(teamId: string, params: CreateTaskParams): Servic
     return { error: 'Team not found', status: 404 }
   }
 
-  const { subject, description, assigneeAgentId, blockedBy, priority } = params
+  const { subject, description, assigneeAgentId, blockedBy, priority, dueAt, recurrence, actorAgentId } = params
 
   if (!subject || typeof subject !== 'string' || !subject.trim()) {
     return { error: 'Subject is required', status: 400 }
   }
 
+  const actor = resolveTaskActor(actorAgentId)
+  if (typeof actor === 'string') {
+    return { error: actor, status: 400 }
+  }
+
+  const scheduleError = validateTaskSchedule(dueAt, recurrence)
+  if (scheduleError) {
+    return { error: scheduleError, status: 400 }
+  }
+
   // Validate blockedBy is an array of strings if provided
   if (blockedBy !== undefined) {
     if (!Array.isArray(blockedBy) || !blockedBy.every((id: unknown) => typeof id === 'string')) {
@@ -219,7 +506,13 @@ export function createTeamTask(teamId: string, params: CreateTaskParams): Servic
       assigneeAgentId,
       blockedBy,
       priority,
-    })
+      dueAt,
+      recurrence,
+    }, actor)
+    // Templates are assigned on each materialized instance, not on creation
+    if (!task.recurrence) {
+      notifyTaskAssignee(team.name, task)
+    }
     return { data: { task }, status: 201 }
   } catch (error) {
     console.error('Failed to create task:', error)
@@ -227,14 +520,33 @@ export function createTeamTask(teamId: string, params: CreateTaskParams): Servic
   }
 }
 
+/**
+ * Get a single task within a team, with resolved dependencies.
+ */
+export function getTeamTask(teamId: string, taskId: string): ServiceResult<{ task: any }> {
+  const team = getTeam(teamId)
+  if (!team) {
+    return { error: 'Team not found', status: 404 }
+  }
+
+  const tasks = loadTasks(teamId)
+  const task = resolveTaskDeps(tasks).find(t => t.id === taskId)
+  if (!task) {
+    return { error: 'Task not found', status: 404 }
+  }
+
+  return { data: { task }, status: 200 }
+}
+
 /**
  * Update a task within a team.
+ * With team autopilot on, completing a task dispatches what it unblocked.
  */
 export function updateTeamTask(
   teamId: string,
   taskId: string,
   params: UpdateTaskParams
-): ServiceResult<{ task: any; unblocked?: any[] }> {
+): ServiceResult<{ task: any; unblocked?: any[]; dispatched?: any[] }> {
   const team = getTeam(teamId)
   if (!team) {
     return { error: 'Team not found', status: 404 }
@@ -245,7 +557,12 @@ export function updateTeamTask(
     return { error: 'Task not found', status: 404 }
   }
 
-  const { subject, description, status, assigneeAgentId, blockedBy, priority } = params
+  const { subject, description, status, assigneeAgentId, blockedBy, priority, dueAt, recurrence, actorAgentId } = params
+
+  const actor = resolveTaskActor(actorAgentId)
+  if (typeof actor === 'string') {
+    return { error: actor, status: 400 }
+  }
 
   // Validate blockedBy to prevent circular dependencies
   if (Array.isArray(blockedBy)) {
@@ -267,6 +584,11 @@ export function updateTeamTask(
     return { error: 'Invalid status. Must be backlog, pending, in_progress, review, or completed', status: 400 }
   }
 
+  const scheduleError = validateTaskSchedule(dueAt, recurrence)
+  if (scheduleError) {
+    return { error: scheduleError, status: 400 }
+  }
+
   try {
     const result = updateTask(teamId, taskId, {
       subject,
@@ -275,12 +597,25 @@ export function updateTeamTask(
       assigneeAgentId,
       blockedBy,
       priority,
-    })
+      dueAt,
+      recurrence,
+    }, actor)
 
     if (!result.task) {
       return { error: 'Task not found', status: 404 }
     }
 
+    const reassigned = (result.task.assigneeAgentId || null) !== (existing.assigneeAgentId || null)
+    if (reassigned && !result.task.recurrence) {
+      notifyTaskAssignee(team.name, result.task)
+    }
+
+    if (team.autopilot && result.unblocked.length > 0) {
+      const dispatched = dispatchUnblockedTasks(team, result.unblocked)
+      const unblocked = result.unblocked.map(t => dispatched.find(d => d.id === t.id) || t)
+      return { data: { task: result.task, unblocked, dispatched }, status: 200 }
+    }
+
     return { data: { task: result.task, unblocked: result.unblocked }, status: 200 }
   } catch (error) {
     console.error('Failed to update task:', error)
@@ -305,6 +640,265 @@ export function deleteTeamTask(teamId: string, taskId: string): ServiceResult<{
   return { data: { success: true }, status: 200 }
 }
 
+// ---------------------------------------------------------------------------
+// Plan import / export
+// ---------------------------------------------------------------------------
+
+/**
+ * Bulk-create tasks from a markdown checklist or a JSON/YAML plan.
+ * See lib/task-plan.ts for the formats and how dependencies are inferred.
+ */
+export function importTeamPlan(teamId: string, params: ImportPlanParams): ServiceResult<{ tasks: any[]; dryRun?: boolean }> {
+  const team = getTeam(teamId)
+  if (!team) {
+    return { error: 'Team not found', status: 404 }
+  }
+
+  const { documentId, dryRun, actorAgentId } = params
+  let { content, format } = params
+
+  if (documentId !== undefined) {
+    const document = typeof documentId === 'string' ? getDocument(teamId, documentId) : null
+    if (!document) {
+      return { error: 'Document not found', status: 404 }
+    }
+    content = document.content
+    format = format || 'markdown'
+  }
+
+  if (content === undefined || content === null || content === '') {
+    return { error: 'content or documentId is required', status: 400 }
+  }
+  if (format !== undefined && !PLAN_FORMATS.includes(format)) {
+    return { error: `format must be one of ${PLAN_FORMATS.join(', ')}`, status: 400 }
+  }
+
+  const actor = resolveTaskActor(actorAgentId)
+  if (typeof actor === 'string') {
+    return { error: actor, status: 400 }
+  }
+
+  let items: TaskPlanItem[]
+  try {
+    items = parsePlan(content, format || detectPlanFormat(content))
+  } catch (error) {
+    if (error instanceof TaskPlanError) {
+      return { error: error.message, status: 400 }
+    }
+    throw error
+  }
+  if (items.length === 0) {
+    return { error: 'Plan contains no tasks', status: 400 }
+  }
+
+  const unknown: string[] = []
+  const resolved = items.map(item => {
+    if (!item.assignee) return { ...item, assigneeAgentId: null }
+    const assigneeAgentId = resolveMention(team, item.assignee)
+    if (!assigneeAgentId) unknown.push(`@${item.assignee}`)
+    return { ...item, assigneeAgentId }
+  })
+  if (unknown.length > 0) {
+    return { error: `Unknown agent(s): ${Array.from(new Set(unknown)).join(', ')}`, status: 400 }
+  }
+
+  const dependencyError = validatePlanDependencies(teamId, items, loadTasks(teamId))
+  if (dependencyError) {
+    return { error: dependencyError, status: 400 }
+  }
+
+  if (dryRun) {
+    return { data: { tasks: resolved, dryRun: true }, status: 200 }
+  }
+
+  try {
+    const tasks = importTasks(teamId, resolved, actor)
+    for (const task of tasks) {
+      if (task.status !== 'completed') {
+        notifyTaskAssignee(team.name, task)
+      }
+    }
+    return { data: { tasks }, status: 201 }
+  } catch (error) {
+    console.error('Failed to import plan:', error)
+    return { error: error instanceof Error ? error.message : 'Failed to import plan', status: 500 }
+  }
+}
+
+/**
+ * Save the team's board as a markdown plan document that importTeamPlan reads back.
+ */
+export function exportTeamPlan(teamId: string, params: ExportPlanParams = {}): ServiceResult<{ document: any }> {
+  const team = getTeam(teamId)
+  if (!team) {
+    return { error: 'Team not found', status: 404 }
+  }
+
+  const { title, documentId } = params
+  if (title !== undefined && (typeof title !== 'string' || !title.trim())) {
+    return { error: 'title must be a non-empty string', status: 400 }
+  }
+
+  const planTitle = title?.trim() || `${team.name} plan`
+  const content = renderMarkdownPlan(planTitle, loadTasks(teamId), agentId => getAgent(agentId)?.name)
+
+  try {
+    if (documentId) {
+      const document = updateDocument(teamId, documentId, { title: planTitle, content })
+      if (!document) {
+        return { error: 'Document not found', status: 404 }
+      }
+      return { data: { document }, status: 200 }
+    }
+
+    const document = createDocument({ teamId, title: planTitle, content, tags: ['plan'] })
+    return { data: { document }, status: 201 }
+  } catch (error) {
+    console.error('Failed to export plan:', error)
+    return { error: error instanceof Error ? error.message : 'Failed to export plan', status: 500 }
+  }
+}
+
+// ---------------------------------------------------------------------------
+// Task activity, comments & attachments
+// ---------------------------------------------------------------------------
+
+/**
+ * Check that a team and task exist. Returns an error result, or null when both do.
+ */
+function checkTeamTask(teamId: string, taskId: string): ServiceResult<never> | null {
+  if (!getTeam(teamId)) {
+    return { error: 'Team not found', status: 404 }
+  }
+  if (!getTask(teamId, taskId)) {
+    return { error: 'Task not found', status: 404 }
+  }
+  return null
+}
+
+/**
+ * Full activity timeline of a task (changes, comments, attachments), oldest first.
+ */
+export function listTaskActivity(teamId: string, taskId: string): ServiceResult<{ activity: any[] }> {
+  const notFound = checkTeamTask(teamId, taskId)
+  if (notFound) return notFound
+
+  return { data: { activity: getTaskActivity(teamId, taskId) }, status: 200 }
+}
+
+/**
+ * Comments on a task, threaded.
+ */
+export function listTaskComments(teamId: string, taskId: string): ServiceResult<{ comments: any[] }> {
+  const notFound = checkTeamTask(teamId, taskId)
+  if (notFound) return notFound
+
+  return { data: { comments: getTaskCommentThreads(teamId, taskId) }, status: 200 }
+}
+
+/**
+ * Post a comment (or a reply) on a task.
+ */
+export function addTaskCommentToTask(
+  teamId: string,
+  taskId: string,
+  params: AddTaskCommentParams
+): ServiceResult<{ comment: any }> {
+  const notFound = checkTeamTask(teamId, taskId)
+  if (notFound) return notFound
+
+  const { body, parentId, actorAgentId } = params
+  if (!body || typeof body !== 'string' || !body.trim()) {
+    return { error: 'Comment body is required', status: 400 }
+  }
+  if (body.length > MAX_COMMENT_LENGTH) {
+    return { error: `Comment body must be at most ${MAX_COMMENT_LENGTH} characters`, status: 400 }
+  }
+  if (parentId !== undefined && typeof parentId !== 'string') {
+    return { error: 'parentId must be a string', status: 400 }
+  }
+
+  const actor = resolveTaskActor(actorAgentId)
+  if (typeof actor === 'string') {
+    return { error: actor, status: 400 }
+  }
+
+  try {
+    const comment = addTaskComment(teamId, taskId, body.trim(), actor, parentId || undefined)
+    return { data: { comment }, status: 201 }
+  } catch (error) {
+    return { error: error instanceof Error ? error.message : 'Failed to add comment', status: 400 }
+  }
+}
+
+/**
+ * List the files attached to a task.
+ */
+export function listAttachmentsOfTask(teamId: string, taskId: string): ServiceResult<{ attachments: TaskAttachment[] }> {
+  const notFound = checkTeamTask(teamId, taskId)
+  if (notFound) return notFound
+
+  return { data: { attachments: listTaskAttachments(teamId, taskId) }, status: 200 }
+}
+
+/**
+ * Attach a file to a task.
+ */
+export function uploadTaskAttachment(
+  teamId: string,
+  taskId: string,
+  params: UploadTaskAttachmentParams
+): ServiceResult<{ attachment: TaskAttachment }> {
+  const notFound = checkTeamTask(teamId, taskId)
+  if (notFound) return notFound
+
+  const { filename, mimeType, data, actorAgentId } = params
+  if (!filename || typeof filename !== 'string' || !filename.trim()) {
+    return { error: 'filename is required', status: 400 }
+  }
+  if (!data || data.length === 0) {
+    return { error: 'Attachment is empty', status: 400 }
+  }
+  if (data.length > MAX_ATTACHMENT_BYTES) {
+    return { error: `Attachment exceeds ${MAX_ATTACHMENT_BYTES / (1024 * 1024)} MB limit`, status: 413 }
+  }
+
+  const actor = resolveTaskActor(actorAgentId)
+  if (typeof actor === 'string') {
+    return { error: actor, status: 400 }
+  }
+
+  try {
+    const attachment = addTaskAttachment(teamId, taskId, {
+      filename: filename.trim(),
+      mimeType: mimeType || 'application/octet-stream',
+      data,
+    }, actor)
+    return { data: { attachment }, status: 201 }
+  } catch (error) {
+    console.error('Failed to store task attachment:', error)
+    return { error: error instanceof Error ? error.message : 'Failed to store attachment', status: 500 }
+  }
+}
+
+/**
+ * Read an attachment's metadata and bytes for download.
+ */
+export function getTaskAttachmentFile(
+  teamId: string,
+  taskId: string,
+  attachmentId: string
+): ServiceResult<{ attachment: TaskAttachment; data: Buffer }> {
+  const notFound = checkTeamTask(teamId, taskId)
+  if (notFound) return notFound
+
+  const file = readTaskAttachment(teamId, taskId, attachmentId)
+  if (!file) {
+    return { error: 'Attachment not found', status: 404 }
+  }
+  return { data: file, status: 200 }
+}
+
 // ---------------------------------------------------------------------------
 // Documents CRUD
 // ---------------------------------------------------------------------------
@@ -408,6 +1002,149 @@ export function deleteTeamDocument(teamId: string, docId: string): ServiceResult
   return { data: { success: true }, status: 200 }
 }
 
+// ---------------------------------------------------------------------------
+// Team memory pool
+// ---------------------------------------------------------------------------
+
+/** Embeddings are large and only meaningful server-side */
+function toTeamMemorySummary(memory: TeamMemory): Omit<TeamMemory, 'embedding'> {
+  const { embedding, ...summary } = memory
+  return summary
+}
+
+async function embedForTeamMemory(text: string): Promise<{ embedding: number[]; embeddingModel: string }> {
+  // Loaded lazily: the embedding model is heavy and most team routes never need it
+  const { embedText } = await import('@/lib/rag/embeddings')
+  const { loadEmbeddingConfig, embeddingSignature } = await import('@/lib/rag/embedding-providers')
+  const embeddingModel = embeddingSignature(loadEmbeddingConfig())
+  return { embedding: await embedText(text), embeddingModel }
+}
+
+/**
+ * List or search a team's shared memories.
+ */
+export async function listTeamMemory(
+  teamId: string,
+  params: ListTeamMemoryParams = {}
+): Promise<ServiceResult<{ memories: any[] }>> {
+  const team = getTeam(teamId)
+  if (!team) {
+    return { error: 'Team not found', status: 404 }
+  }
+  if (params.category && !isTeamMemoryCategory(params.category)) {
+    return { error: `category must be one of: ${TEAM_MEMORY_CATEGORIES.join(', ')}`, status: 400 }
+  }
+
+  const limit = params.limit && params.limit > 0 ? params.limit : 50
+  const categories = params.category ? [params.category] : undefined
+
+  try {
+    if (params.query) {
+      const { embedding, embeddingModel } = await embedForTeamMemory(params.query)
+      const results = searchTeamMemories(teamId, embedding, embeddingModel, { limit, categories })
+      return {
+        data: { memories: results.map(r => ({ ...toTeamMemorySummary(r.memory), similarity: r.similarity })) },
+        status: 200,
+      }
+    }
+
+    const memories = loadTeamMemories(teamId)
+      .filter(m => !categories || categories.includes(m.category))
+      .sort((a, b) => b.reinforcementCount - a.reinforcementCount || b.updatedAt.localeCompare(a.updatedAt))
+      .slice(0, limit)
+    return { data: { memories: memories.map(toTeamMemorySummary) }, status: 200 }
+  } catch (error) {
+    console.error('Failed to list team memory:', error)
+    return { error: error instanceof Error ? error.message : 'Failed to list team memory', status: 500 }
+  }
+}
+
+/**
+ * Publish a memory to the team pool on behalf of a member agent.
+ */
+export async function publishTeamMemoryEntry(
+  teamId: string,
+  params: PublishTeamMemoryParams
+): Promise<ServiceResult<{ memory: any; action: string }>> {
+  const team = getTeam(teamId)
+  if (!team) {
+    return { error: 'Team not found', status: 404 }
+  }
+  if (!params.agentId || !team.agentIds.includes(params.agentId)) {
+    return { error: 'agentId must be a member of the team', status: 400 }
+  }
+
+  try {
+    let { category, content, context, confidence } = params
+    let conversationFile: string | undefined
+
+    if (params.memoryId) {
+      // Loaded lazily so team routes don't open agent databases unless publishing
+      const { agentRegistry } = await import('@/lib/agent')
+      const { getMemoryById } = await import('@/lib/memory/search')
+      const { escapeForCozo } = await import('@/lib/cozo-utils')
+      const agentDb = await (await agentRegistry.getAgent(params.agentId)).getDatabase()
+      const memory = await getMemoryById(agentDb, params.memoryId)
+      if (!memory || memory.agent_id !== params.agentId) {
+        return { error: 'Memory not found', status: 404 }
+      }
+      category = memory.category as TeamMemoryCategory
+      content = memory.content
+      context = memory.context || undefined
+      confidence = memory.confidence
+
+      const sources = await agentDb.run(`
+        ?[source_conversations] := *memories{memory_id, source_conversations}, memory_id = ${escapeForCozo(params.memoryId)}
+      `)
+      const raw = sources.rows[0]?.[0]
+      if (typeof raw === 'string') {
+        try {
+          conversationFile = (JSON.parse(raw) as string[])[0]
+        } catch {
+          // Provenance is best-effort
+        }
+      }
+    }
+
+    if (!isTeamMemoryCategory(category)) {
+      return { error: `category must be one of: ${TEAM_MEMORY_CATEGORIES.join(', ')}`, status: 400 }
+    }
+    if (!content || typeof content !== 'string' || !content.trim()) {
+      return { error: 'content is required', status: 400 }
+    }
+    if (confidence !== undefined && (typeof confidence !== 'number' || confidence < 0 || confidence > 1)) {
+      return { error: 'confidence must be between 0 and 1', status: 400 }
+    }
+
+    const result = publishTeamMemory(teamId, {
+      category,
+      content: content.trim(),
+      context,
+      confidence: confidence ?? 0.8,
+      ...await embedForTeamMemory(content.trim()),
+      source: { agentId: params.agentId, memoryId: params.memoryId, conversationFile },
+    })
+    return {
+      data: { memory: toTeamMemorySummary(result.memory), action: result.action },
+      status: result.action === 'created' ? 201 : 200,
+    }
+  } catch (error) {
+    console.error('Failed to publish team memory:', error)
+    return { error: error instanceof Error ? error.message : 'Failed to publish team memory', status: 500 }
+  }
+}
+
+/**
+ * Remove a memory from the team pool.
+ */
+export function deleteTeamMemoryEntry(teamId: string, memoryId: string): ServiceResult<{ success: boolean }> {
+  const deleted = deleteTeamMemory(teamId, memoryId)
+  if (!deleted) {
+    return { error: 'Memory not found', status: 404 }
+  }
+  return { data: { success: true }, status: 200 }
+}
+
 // ---------------------------------------------------------------------------
 // Notifications
 // ---------------------------------------------------------------------------
@@ -416,7 +1153,7 @@ export function deleteTeamDocument(teamId: string, docId: string): ServiceResult
  * Notify team agents about a meeting.
  */
 export async function notifyTeamAgents(params: NotifyTeamParams): Promise<ServiceResult<{ results: any[] }>> {
-  const { agentIds, teamName } = params
+  const { agentIds, teamName, subject, messageId } = params
 
   if (!agentIds || !Array.isArray(agentIds)) {
     return { error: 'agentIds array is required', status: 400 }
@@ -441,8 +1178,8 @@ export async function notifyTeamAgents(params: NotifyTeamParams): Promise<Servic
             agentName,
             agentHost: agent.hostId,
             fromName: 'AI Maestro',
-            subject: `Team "${teamName}" is starting`,
-            messageId: `meeting-${Date.now()}`,
+            subject: subject || `Team "${teamName}" is starting`,
+            messageId: messageId || `meeting-${Date.now()}`,
             messageType: 'notification',
           })
           return { agentId, agentName, ...result }
@@ -458,3 +1195,55 @@ export async function notifyTeamAgents(params: NotifyTeamParams): Promise<Servic
     return { error: error instanceof Error ? error.message : 'Failed to notify team', status: 500 }
   }
 }
+
+// ---------------------------------------------------------------------------
+// Recurring task scheduler
+// ---------------------------------------------------------------------------
+
+/**
+ * Materialize due instances of recurring task templates across all teams
+ * and notify their assignees.
+ */
+export function runTaskScheduler(now: Date = new Date()): Task[] {
+  const created: Task[] = []
+
+  for (const team of loadTeams()) {
+    try {
+      const instances = materializeDueTasks(team.id, now)
+      for (const instance of instances) {
+        notifyTaskAssignee(team.name, instance)
+      }
+      created.push(...instances)
+    } catch (error) {
+      console.error(`[Tasks] Scheduler failed for team ${team.id}:`, error)
+    }
+  }
+
+  if (created.length > 0) {
+    console.log(`[Tasks] Scheduler created ${created.length} recurring task instance(s)`)
+  }
+  return created
+}
+
+let schedulerTimer: NodeJS.Timeout | null = null
+
+/**
+ * Start the recurring task scheduler (called once from server.mjs)
+ */
+export function startTaskScheduler(intervalMs: number = TASK_SCHEDULER_INTERVAL_MS): void {
+  if (schedulerTimer) return
+
+  schedulerTimer = setInterval(() => runTaskScheduler(), intervalMs)
+  schedulerTimer.unref?.()
+  runTaskScheduler()
+}
+
+/**
+ * Stop the recurring task scheduler
+ */
+export function stopTaskScheduler(): void {
+  if (schedulerTimer) {
+    clearInterval(schedulerTimer)
+    schedulerTimer = null
+  }
+}
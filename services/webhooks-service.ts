@@ -11,6 +11,8 @@
  *   GET    /api/webhooks/[id]      -> getWebhookById
  *   DELETE /api/webhooks/[id]      -> deleteWebhookById
  *   POST   /api/webhooks/[id]/test -> testWebhookById
+ *   GET    /api/webhooks/[id]/deliveries -> listWebhookDeliveriesById
+ *   POST   /api/webhooks/[id]/deliveries/[deliveryId]/redeliver -> redeliverWebhookDelivery
  */
 
 import {
@@ -19,8 +21,15 @@ import {
   getWebhook,
   deleteWebhook,
   sendTestWebhook,
+  loadDeliveries,
+  redeliver,
 } from '@/lib/webhook-service'
-import type { CreateWebhookRequest, WebhookEventType } from '@/types/agent'
+import type {
+  CreateWebhookRequest,
+  WebhookDelivery,
+  WebhookDeliveryStatus,
+  WebhookEventType,
+} from '@/types/agent'
 
 // ---------------------------------------------------------------------------
 // Types
@@ -41,8 +50,17 @@ const VALID_EVENTS: WebhookEventType[] = [
   'agent.created',
   'agent.deleted',
   'agent.updated',
+  'task.created',
+  'task.status_changed',
+  'task.assigned',
+  'task.unblocked',
+  'task.deleted',
+  'meeting.started',
+  'meeting.ended',
 ]
 
+const VALID_DELIVERY_STATUSES: WebhookDeliveryStatus[] = ['pending', 'retrying', 'delivered', 'dead']
+
 // ===========================================================================
 // PUBLIC API -- called by API routes
 // ===========================================================================
@@ -207,3 +225,58 @@ export async function testWebhookById(id: string): Promise<ServiceResult<{ succe
     return { error: message, status: 500 }
   }
 }
+
+/**
+ * List a webhook's delivery history (newest first), optionally filtered by status.
+ */
+export function listWebhookDeliveriesById(
+  id: string,
+  options: { status?: string; limit?: number } = {}
+): ServiceResult<{ deliveries: WebhookDelivery[] }> {
+  if (options.status && !VALID_DELIVERY_STATUSES.includes(options.status as WebhookDeliveryStatus)) {
+    return { error: `Invalid status: ${options.status}. Valid statuses: ${VALID_DELIVERY_STATUSES.join(', ')}`, status: 400 }
+  }
+
+  try {
+    if (!getWebhook(id)) {
+      return { error: 'Webhook not found', status: 404 }
+    }
+
+    let deliveries = loadDeliveries(id)
+    if (options.status) {
+      deliveries = deliveries.filter(d => d.status === options.status)
+    }
+    if (options.limit && options.limit > 0) {
+      deliveries = deliveries.slice(0, options.limit)
+    }
+
+    return { data: { deliveries }, status: 200 }
+  } catch (error) {
+    console.error('Failed to list webhook deliveries:', error)
+    return { error: 'Failed to list webhook deliveries', status: 500 }
+  }
+}
+
+/**
+ * Re-send a past delivery's request body as a new delivery.
+ */
+export async function redeliverWebhookDelivery(
+  id: string,
+  deliveryId: string
+): Promise<ServiceResult<{ delivery: WebhookDelivery }>> {
+  try {
+    if (!getWebhook(id)) {
+      return { error: 'Webhook not found', status: 404 }
+    }
+
+    const delivery = await redeliver(id, deliveryId)
+    if (!delivery) {
+      return { error: 'Delivery not found', status: 404 }
+    }
+
+    return { data: { delivery }, status: 200 }
+  } catch (error) {
+    console.error('Failed to redeliver webhook:', error)
+    return { error: 'Failed to redeliver webhook', status: 500 }
+  }
+}
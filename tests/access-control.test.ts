@@ -0,0 +1,147 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-access-')
+})
+
+vi.mock('@/lib/team-registry', () => ({
+  getTeam: (id: string) => (id === 'team-1' ? { id: 'team-1', name: 'Backend' } : null),
+}))
+
+import {
+  authorizeRequest,
+  createAccessToken,
+  getRequiredAccess,
+  loadAccessAudit,
+  revokeAccessToken,
+  updateAccessSettings,
+  AccessControlError,
+} from '@/lib/access-control'
+
+const aimaestroDir = path.join(tmpHome, '.aimaestro')
+const REMOTE = '203.0.113.5'
+
+function request(method: string, pathname: string, token?: string) {
+  return authorizeRequest({
+    method,
+    pathname,
+    remoteAddress: REMOTE,
+    authorization: token ? `Bearer ${token}` : null,
+  })
+}
+
+beforeEach(() => {
+  fs.rmSync(aimaestroDir, { recursive: true, force: true })
+})
+
+afterAll(() => restoreHome())
+
+// ============================================================================
+// Route rules
+// ============================================================================
+
+describe('getRequiredAccess', () => {
+  it('requires operator for destructive endpoints and viewer for reads', () => {
+    expect(getRequiredAccess('GET', '/api/agents')).toEqual({ role: 'viewer' })
+    expect(getRequiredAccess('DELETE', '/api/agents/abc')).toEqual({ role: 'operator' })
+    expect(getRequiredAccess('POST', '/api/hosts')).toEqual({ role: 'operator' })
+    expect(getRequiredAccess('GET', '/api/sessions/s1/command')).toEqual({ role: 'operator' })
+    expect(getRequiredAccess('POST', '/api/auth/tokens')).toEqual({ role: 'admin' })
+  })
+
+  it('leaves AMP, peer pairing, sign-in and pages public', () => {
+    expect(getRequiredAccess('POST', '/api/v1/route')).toBeNull()
+    expect(getRequiredAccess('POST', '/api/hosts/register-peer')).toBeNull()
+    expect(getRequiredAccess('POST', '/api/auth/login')).toBeNull()
+    expect(getRequiredAccess('GET', '/settings')).toBeNull()
+  })
+
+  it('attaches the team for team routes', () => {
+    expect(getRequiredAccess('PUT', '/api/teams/team-1/tasks/t1')).toEqual({ role: 'operator', teamId: 'team-1' })
+  })
+})
+
+// ============================================================================
+// Enforcement
+// ============================================================================
+
+describe('authorizeRequest', () => {
+  it('allows everything while disabled', () => {
+    expect(request('DELETE', '/api/agents/abc').allowed).toBe(true)
+  })
+
+  it('refuses to enable without an admin token', () => {
+    expect(() => updateAccessSettings({ enabled: true })).toThrow(AccessControlError)
+  })
+
+  it('enforces role order and records denials', () => {
+    const admin = createAccessToken({ name: 'root', grants: [{ role: 'admin' }] })
+    const viewer = createAccessToken({ name: 'alice', grants: [{ role: 'viewer' }] })
+    updateAccessSettings({ enabled: true })
+
+    expect(request('GET', '/api/agents')).toMatchObject({ allowed: false, status: 401 })
+    expect(request('GET', '/api/agents', 'amt_bogus')).toMatchObject({ allowed: false, status: 401 })
+    expect(request('GET', '/api/agents', viewer.token).allowed).toBe(true)
+    expect(request('DELETE', '/api/agents/abc', viewer.token)).toMatchObject({ allowed: false, status: 403 })
+    expect(request('DELETE', '/api/agents/abc', admin.token).allowed).toBe(true)
+
+    const audit = loadAccessAudit()
+    expect(audit).toHaveLength(3)
+    expect(audit[0]).toMatchObject({
+      method: 'DELETE',
+      path: '/api/agents/abc',
+      principalName: 'alice',
+      requiredRole: 'operator',
+      reason: 'forbidden',
+      remoteAddress: REMOTE,
+    })
+    expect(audit.map(e => e.reason)).toEqual(['forbidden', 'invalid_token', 'unauthenticated'])
+  })
+
+  it('applies team-scoped grants only to that team', () => {
+    createAccessToken({ name: 'root', grants: [{ role: 'admin' }] })
+    const lead = createAccessToken({ name: 'lead', grants: [{ role: 'viewer' }, { role: 'operator', teamId: 'team-1' }] })
+    updateAccessSettings({ enabled: true })
+
+    expect(request('POST', '/api/teams/team-1/tasks', lead.token).allowed).toBe(true)
+    expect(request('POST', '/api/teams/team-2/tasks', lead.token).status).toBe(403)
+    expect(request('POST', '/api/agents', lead.token).status).toBe(403)
+    expect(() => createAccessToken({ name: 'x', grants: [{ role: 'viewer', teamId: 'missing' }] })).toThrow(/Team not found/)
+  })
+
+  it('trusts requests from this machine unless proxied', () => {
+    createAccessToken({ name: 'root', grants: [{ role: 'admin' }] })
+    updateAccessSettings({ enabled: true })
+
+    expect(authorizeRequest({ method: 'POST', pathname: '/api/auth/tokens', remoteAddress: '::ffff:127.0.0.1' }).allowed).toBe(true)
+    expect(authorizeRequest({
+      method: 'POST',
+      pathname: '/api/auth/tokens',
+      remoteAddress: '127.0.0.1',
+      forwardedFor: REMOTE,
+    }).status).toBe(401)
+
+    updateAccessSettings({ trustLocal: false })
+    expect(authorizeRequest({ method: 'GET', pathname: '/api/agents', remoteAddress: '127.0.0.1' }).status).toBe(401)
+  })
+
+  it('accepts the session cookie and rejects revoked tokens', () => {
+    const admin = createAccessToken({ name: 'root', grants: [{ role: 'admin' }] })
+    const ops = createAccessToken({ name: 'ops', grants: [{ role: 'operator' }] })
+    updateAccessSettings({ enabled: true })
+
+    const cookie = `theme=dark; aimaestro_token=${encodeURIComponent(ops.token)}`
+    expect(authorizeRequest({ method: 'POST', pathname: '/api/sessions/s1/command', remoteAddress: REMOTE, cookie }).allowed).toBe(true)
+
+    revokeAccessToken(ops.record.id)
+    expect(authorizeRequest({ method: 'POST', pathname: '/api/sessions/s1/command', remoteAddress: REMOTE, cookie }).status).toBe(401)
+    expect(() => revokeAccessToken(admin.record.id)).toThrow(/last admin token/)
+  })
+})
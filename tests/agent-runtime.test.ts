@@ -0,0 +1,120 @@
+import { describe, it, expect, vi, beforeEach } from 'vitest'
+
+// ============================================================================
+// Mocks (must be declared before imports)
+// ============================================================================
+
+const { execCalls } = vi.hoisted(() => ({ execCalls: [] as string[] }))
+
+// Record every shell command instead of running tmux/docker
+vi.mock('child_process', () => ({
+  exec: vi.fn((cmd: string, ...rest: any[]) => {
+    execCalls.push(cmd)
+    const cb = rest[rest.length - 1]
+    cb(null, { stdout: '', stderr: '' })
+  }),
+  execSync: vi.fn(),
+}))
+
+// ============================================================================
+// Imports (after mocks)
+// ============================================================================
+
+import {
+  TmuxRuntime,
+  DockerRuntime,
+  getRuntime,
+  getRuntimeForAgent,
+  getRuntimesForAgents,
+} from '@/lib/agent-runtime'
+
+beforeEach(() => {
+  execCalls.length = 0
+})
+
+// ============================================================================
+// DockerRuntime
+// ============================================================================
+
+describe('DockerRuntime', () => {
+  it('runs tmux commands through docker exec', async () => {
+    const runtime = new DockerRuntime('aim-backend')
+    await runtime.sendKeys('backend', 'ls -la', { literal: true, enter: true })
+
+    expect(execCalls).toHaveLength(1)
+    expect(execCalls[0]).toMatch(/^docker exec "aim-backend" tmux send-keys -t "backend" -l 'ls -la'/)
+  })
+
+  it('checks session existence inside the container', async () => {
+    const runtime = new DockerRuntime('aim-backend')
+    const exists = await runtime.sessionExists('backend')
+
+    expect(exists).toBe(true)
+    expect(execCalls[0]).toBe('docker exec "aim-backend" tmux has-session -t "backend" 2>/dev/null')
+  })
+
+  it('translates host working directories to the container workspace', async () => {
+    const runtime = new DockerRuntime('aim-backend', { hostWorkspace: '/home/me/project' })
+    await runtime.createSession('backend', '/home/me/project/api')
+    await runtime.createSession('backend_1', '/somewhere/else')
+
+    expect(execCalls[0]).toContain('-c "/workspace/api"')
+    expect(execCalls[1]).toContain('-c "/workspace"')
+  })
+
+  it('attaches with an interactive docker exec', () => {
+    const runtime = new DockerRuntime('aim-backend')
+    expect(runtime.getAttachCommand('backend')).toEqual({
+      command: 'docker',
+      args: ['exec', '-it', 'aim-backend', 'tmux', 'attach-session', '-t', 'backend'],
+    })
+  })
+})
+
+// ============================================================================
+// Runtime selection
+// ============================================================================
+
+describe('getRuntimeForAgent', () => {
+  it('returns the default runtime for tmux and unknown agents', () => {
+    expect(getRuntimeForAgent(null)).toBe(getRuntime())
+    expect(getRuntimeForAgent({ name: 'a', runtime: 'tmux', deployment: { type: 'local' } })).toBe(getRuntime())
+    expect(getRuntime()).toBeInstanceOf(TmuxRuntime)
+  })
+
+  it('returns a cached DockerRuntime keyed by container name', () => {
+    const agent = {
+      name: 'backend',
+      runtime: 'docker' as const,
+      deployment: {
+        type: 'cloud' as const,
+        cloud: { provider: 'local-container' as const, websocketUrl: 'ws://localhost:23001/term', containerName: 'aim-backend' },
+      },
+    }
+    const runtime = getRuntimeForAgent(agent)
+
+    expect(runtime.type).toBe('docker')
+    expect((runtime as DockerRuntime).containerName).toBe('aim-backend')
+    expect(getRuntimeForAgent(agent)).toBe(runtime)
+  })
+
+  it('derives the container name when the deployment does not record one', () => {
+    const runtime = getRuntimeForAgent({ name: 'worker', runtime: 'docker', deployment: { type: 'cloud' } })
+    expect((runtime as DockerRuntime).containerName).toBe('aim-worker')
+  })
+})
+
+describe('getRuntimesForAgents', () => {
+  it('lists the default runtime plus one runtime per container, skipping deleted agents', () => {
+    const runtimes = getRuntimesForAgents([
+      { name: 'a', runtime: 'tmux', deployment: { type: 'local' } },
+      { name: 'b', runtime: 'docker', deployment: { type: 'cloud' } },
+      { name: 'b', runtime: 'docker', deployment: { type: 'cloud' } },
+      { name: 'c', runtime: 'docker', deployment: { type: 'cloud' }, deletedAt: '2026-01-01T00:00:00Z' },
+    ])
+
+    expect(runtimes).toHaveLength(2)
+    expect(runtimes[0]).toBe(getRuntime())
+    expect(runtimes[1].type).toBe('docker')
+  })
+})
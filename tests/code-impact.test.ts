@@ -0,0 +1,149 @@
+import { describe, it, expect, vi } from 'vitest'
+
+const { db } = vi.hoisted(() => {
+  const db = {
+    queries: [] as string[],
+    run: async (query: string): Promise<{ rows: unknown[][] }> => {
+      db.queries.push(query)
+      return { rows: [] }
+    },
+  }
+  return { db }
+})
+
+vi.mock('@/lib/agent', () => ({
+  agentRegistry: { getAgent: async () => ({ getDatabase: async () => db }) },
+}))
+
+import { analyzeImpact, parseDiffFiles, isTestPath, formatImpactMarkdown, loadImpactGraph, type ImpactGraph } from '@/lib/rag/impact'
+import { analyzeCodeImpact } from '@/services/agents-graph-service'
+import type { AgentDatabase } from '@/lib/cozo-db'
+
+// auth.ts declares validateToken and BaseGuard
+//   handler.ts: handle() calls validateToken, imports auth.ts
+//   router.ts:  route() calls handle(), imports handler.ts
+//   admin.ts:   AdminGuard extends BaseGuard
+//   handler.test.ts: imports handler.ts
+function buildGraph(): ImpactGraph {
+  return {
+    files: [
+      { file_id: 'f-auth', path: 'lib/auth.ts', project_path: '/repo' },
+      { file_id: 'f-handler', path: 'lib/handler.ts', project_path: '/repo' },
+      { file_id: 'f-router', path: 'lib/router.ts', project_path: '/repo' },
+      { file_id: 'f-admin', path: 'lib/admin.ts', project_path: '/repo' },
+      { file_id: 'f-test', path: 'tests/handler.test.ts', project_path: '/repo' },
+    ],
+    functions: [
+      { fn_id: 'fn-validate', name: 'validateToken', file_id: 'f-auth' },
+      { fn_id: 'fn-handle', name: 'handle', file_id: 'f-handler' },
+      { fn_id: 'fn-route', name: 'route', file_id: 'f-router' },
+    ],
+    components: [
+      { component_id: 'c-base', name: 'BaseGuard', file_id: 'f-auth', class_type: 'class' },
+      { component_id: 'c-admin', name: 'AdminGuard', file_id: 'f-admin', class_type: 'class' },
+    ],
+    calls: [['fn-handle', 'fn-validate'], ['fn-route', 'fn-handle']],
+    componentCalls: [],
+    imports: [['f-handler', 'f-auth'], ['f-router', 'f-handler'], ['f-test', 'f-handler'], ['f-auth', 'module:jsonwebtoken']],
+    extends: [['c-admin', 'c-base'], ['c-base', 'external:Guard']],
+    includes: [],
+  }
+}
+
+describe('analyzeImpact', () => {
+  it('walks callers, importers and subclasses with the path that links them', () => {
+    const report = analyzeImpact(buildGraph(), ['lib/auth.ts'], { depth: 3 })
+
+    expect(report.changed).toEqual({ files: ['lib/auth.ts'], functions: ['validateToken'], components: ['BaseGuard'] })
+    expect(report.functions.map(f => [f.name, f.depth])).toEqual([['handle', 1], ['route', 2]])
+    expect(report.components.map(c => c.name)).toEqual(['AdminGuard'])
+    expect(report.files.map(f => f.name)).toEqual(['lib/handler.ts', 'lib/router.ts', 'tests/handler.test.ts'])
+
+    const route = report.functions.find(f => f.name === 'route')!
+    expect(route.path.map(s => [s.name, s.edge])).toEqual([
+      ['lib/auth.ts', undefined],
+      ['validateToken', 'declares'],
+      ['handle', 'calls'],
+      ['route', 'calls'],
+    ])
+
+    expect(report.tests.map(t => t.name)).toEqual(['tests/handler.test.ts'])
+  })
+
+  it('stops at the depth limit and reports paths outside the graph', () => {
+    const report = analyzeImpact(buildGraph(), ['/repo/lib/auth.ts', 'docs/README.md'], { depth: 1 })
+
+    expect(report.functions.map(f => f.name)).toEqual(['handle'])
+    expect(report.files.map(f => f.name)).toEqual(['lib/handler.ts'])
+    expect(report.tests).toEqual([])
+    expect(report.unmatched_files).toEqual(['docs/README.md'])
+  })
+
+  it('marks the report truncated when it hits the node limit', () => {
+    const report = analyzeImpact(buildGraph(), ['lib/auth.ts'], { depth: 3, maxNodes: 2 })
+    expect(report.truncated).toBe(true)
+    expect(report.functions.length + report.components.length + report.files.length).toBe(2)
+    expect(formatImpactMarkdown(report)).toContain('_Result truncated')
+  })
+})
+
+describe('parseDiffFiles', () => {
+  it('collects changed, renamed and deleted paths from a unified diff', () => {
+    const diff = [
+      'diff --git a/lib/auth.ts b/lib/auth.ts',
+      '--- a/lib/auth.ts',
+      '+++ b/lib/auth.ts',
+      '@@ -1,2 +1,2 @@',
+      'diff --git a/lib/old.ts b/lib/new.ts',
+      'diff --git a/lib/gone.ts b/lib/gone.ts',
+      '--- a/lib/gone.ts',
+      '+++ /dev/null',
+    ].join('\n')
+
+    expect(parseDiffFiles(diff).sort()).toEqual(['lib/auth.ts', 'lib/gone.ts', 'lib/new.ts', 'lib/old.ts'])
+  })
+})
+
+describe('isTestPath', () => {
+  it('recognizes test files across languages', () => {
+    expect(isTestPath('tests/handler.test.ts')).toBe(true)
+    expect(isTestPath('pkg/server_test.go')).toBe(true)
+    expect(isTestPath('src/test/java/UserServiceTest.java')).toBe(true)
+    expect(isTestPath('spec/models/user_spec.rb')).toBe(true)
+    expect(isTestPath('lib/latest.ts')).toBe(false)
+  })
+})
+
+describe('loadImpactGraph', () => {
+  it('escapes the project path', async () => {
+    db.queries = []
+    await loadImpactGraph(db as unknown as AgentDatabase, "/repo/it's\\here")
+
+    expect(db.queries[0]).toContain(`project_path = '/repo/it\\'s\\\\here'`)
+  })
+
+  it('skips missing relations but surfaces other errors', async () => {
+    const failing = (error: Error & { code?: string }) => ({
+      run: async (query: string) => {
+        if (query.includes('*includes{')) throw error
+        return { rows: [] }
+      },
+    }) as unknown as AgentDatabase
+
+    const missing = Object.assign(new Error('Cannot find requested stored relation'), { code: 'query::relation_not_found' })
+    expect((await loadImpactGraph(failing(missing))).includes).toEqual([])
+
+    await expect(loadImpactGraph(failing(new Error('parser::pest')))).rejects.toThrow('parser::pest')
+  })
+})
+
+describe('analyzeCodeImpact', () => {
+  it('rejects a limit that is not a positive integer', async () => {
+    for (const limit of [0, -1, 2.5, NaN]) {
+      expect(await analyzeCodeImpact('agent-1', { files: ['lib/auth.ts'], limit })).toEqual({
+        error: 'limit must be a positive integer',
+        status: 400,
+      })
+    }
+  })
+})
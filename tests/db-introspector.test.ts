@@ -0,0 +1,211 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import initSqlJs from 'sql.js'
+import { createIntrospector, detectDbEngine } from '@/lib/rag/db-introspector'
+import { introspectMysqlDatabase, parseEnumValues, type MysqlQueryable } from '@/lib/rag/mysql-introspector'
+import { extractCheckConstraints } from '@/lib/rag/sqlite-introspector'
+import { splitTableName } from '@/lib/rag/db-indexer'
+import type { DbSchema, TableInfo } from '@/lib/rag/pg-introspector'
+
+const FIXTURE = path.join(__dirname, 'fixtures', 'db', 'shop.sql')
+
+let tmpDir: string
+let dbFile: string
+
+// Build the SQLite database file from the SQL fixture
+beforeAll(async () => {
+  tmpDir = fs.mkdtempSync(path.join(os.tmpdir(), 'aim-db-introspect-'))
+  dbFile = path.join(tmpDir, 'shop.sqlite')
+
+  const SQL = await initSqlJs()
+  const db = new SQL.Database()
+  db.run(fs.readFileSync(FIXTURE, 'utf-8'))
+  fs.writeFileSync(dbFile, Buffer.from(db.export()))
+  db.close()
+})
+
+afterAll(() => {
+  fs.rmSync(tmpDir, { recursive: true, force: true })
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+function table(schema: DbSchema, name: string): TableInfo {
+  return schema.schemas[0].tables.find(t => t.table_name === name)!
+}
+
+describe('detectDbEngine', () => {
+  it('picks the engine from the explicit engine, URL scheme or file path', () => {
+    expect(detectDbEngine({ connectionString: 'postgresql://u@localhost/app' })).toBe('postgres')
+    expect(detectDbEngine({ connectionString: 'mysql://u@localhost/shop' })).toBe('mysql')
+    expect(detectDbEngine({ connectionString: 'sqlite:///var/data/app.db' })).toBe('sqlite')
+    expect(detectDbEngine({ connectionString: '/var/data/app.sqlite3' })).toBe('sqlite')
+    expect(detectDbEngine({ filePath: '/var/data/app' })).toBe('sqlite')
+    expect(detectDbEngine({ engine: 'mysql', connectionString: 'tcp://db:3306' })).toBe('mysql')
+    expect(detectDbEngine({ connectionString: 'redis://localhost' })).toBeNull()
+  })
+})
+
+describe('SQLite introspector', () => {
+  it('reads tables, columns, keys, indexes and views from a database file', async () => {
+    const introspector = await createIntrospector({ filePath: dbFile })
+    const schema = await introspector.introspect()
+    await introspector.close()
+
+    expect(introspector.engine).toBe('sqlite')
+    expect(schema.database).toBe('shop')
+    expect(schema.schemas.map(s => s.schema_id)).toEqual(['schema:shop.main'])
+    expect(schema.schemas[0].tables.map(t => t.table_name)).toEqual(['customers', 'order_items', 'orders'])
+
+    const customers = table(schema, 'customers')
+    expect(customers.table_id).toBe('table:schema:shop.main.customers')
+    expect(customers.columns.map(c => [c.column_name, c.data_type, c.udt_name, c.is_nullable])).toEqual([
+      ['id', 'integer', 'integer', false],
+      ['email', 'varchar(255)', 'text', false],
+      ['name', 'text', 'text', true],
+      ['created_at', 'datetime', 'numeric', true],
+    ])
+    expect(customers.columns[3].column_default).toBe('CURRENT_TIMESTAMP')
+    expect(customers.constraints.map(c => [c.constraint_type, c.definition])).toEqual([
+      ['PRIMARY KEY', 'PRIMARY KEY (id)'],
+      ['UNIQUE', 'UNIQUE (email)'],
+    ])
+
+    const orders = table(schema, 'orders')
+    expect(orders.indexes.find(i => i.index_name === 'orders_customer_idx')).toMatchObject({
+      index_id: 'idx:table:schema:shop.main.orders.orders_customer_idx',
+      is_unique: false,
+      columns: ['customer_id', 'status'],
+    })
+    expect(orders.constraints.filter(c => c.constraint_type === 'CHECK').map(c => [c.constraint_name, c.definition])).toEqual([
+      ['positive_total', 'CHECK (total >= 0)'],
+      ['orders_check2', "CHECK (status IN ('pending', 'paid', 'shipped'))"],
+    ])
+    // REFERENCES without a column resolves to the parent's primary key
+    expect(orders.foreign_keys).toEqual([{
+      fk_id: 'fk:main.orders.orders_customer_id_fkey',
+      fk_name: 'orders_customer_id_fkey',
+      from_table: 'main.orders',
+      from_column: 'customer_id',
+      to_table: 'main.customers',
+      to_column: 'id',
+      on_delete: 'CASCADE',
+      on_update: 'NO ACTION',
+    }])
+
+    const items = table(schema, 'order_items')
+    expect(items.indexes[0]).toMatchObject({ is_primary: true, columns: ['order_id', 'line'] })
+    expect(items.foreign_keys[0]).toMatchObject({ to_table: 'main.orders', on_update: 'RESTRICT' })
+
+    expect(schema.schemas[0].views.map(v => v.view_name)).toEqual(['customer_totals'])
+    expect(schema.schemas[0].views[0].definition).toContain('JOIN orders')
+  })
+
+  it('extracts named and unnamed CHECK constraints with nested parentheses', () => {
+    expect(extractCheckConstraints(`CREATE TABLE t (a INT CHECK (abs(a) < 10), CONSTRAINT "ok" CHECK (a <> ')'))`)).toEqual([
+      { name: null, expression: 'abs(a) < 10' },
+      { name: 'ok', expression: "a <> ')'" },
+    ])
+  })
+})
+
+describe('MySQL introspector', () => {
+  // information_schema rows for a shop database with the same tables as the SQLite fixture
+  function fakeConnection(): MysqlQueryable {
+    const respond = (sql: string, values: unknown[] = []): unknown[] => {
+      const [, tableName] = values as string[]
+      if (sql.includes('DATABASE()')) return [{ dbname: 'shop' }]
+      if (sql.includes('information_schema.SCHEMATA')) return [{ schema_name: 'shop' }]
+      if (sql.includes('information_schema.TABLES')) return [{ table_name: 'customers' }, { table_name: 'orders' }]
+      if (sql.includes('information_schema.COLUMNS')) {
+        return tableName === 'customers'
+          ? [
+              { column_name: 'id', data_type: 'int', column_type: 'int unsigned', is_nullable: 'NO', column_default: null, ordinal_position: 1 },
+              { column_name: 'email', data_type: 'varchar', column_type: 'varchar(255)', is_nullable: 'NO', column_default: null, ordinal_position: 2 },
+            ]
+          : [
+              { column_name: 'id', data_type: 'int', column_type: 'int unsigned', is_nullable: 'NO', column_default: null, ordinal_position: 1 },
+              { column_name: 'customer_id', data_type: 'int', column_type: 'int unsigned', is_nullable: 'NO', column_default: null, ordinal_position: 2 },
+              { column_name: 'status', data_type: 'enum', column_type: "enum('pending','paid','it''s shipped')", is_nullable: 'NO', column_default: 'pending', ordinal_position: 3 },
+            ]
+      }
+      if (sql.includes('information_schema.STATISTICS')) {
+        return tableName === 'customers'
+          ? [{ index_name: 'PRIMARY', non_unique: 0, index_type: 'BTREE', column_name: 'id' }]
+          : [
+              { index_name: 'PRIMARY', non_unique: 0, index_type: 'BTREE', column_name: 'id' },
+              { index_name: 'orders_customer_idx', non_unique: 1, index_type: 'BTREE', column_name: 'customer_id' },
+              { index_name: 'orders_customer_idx', non_unique: 1, index_type: 'BTREE', column_name: 'status' },
+            ]
+      }
+      if (sql.includes('CHECK_CONSTRAINTS')) return []
+      if (sql.includes('information_schema.TABLE_CONSTRAINTS')) {
+        return [{ constraint_name: 'PRIMARY', constraint_type: 'PRIMARY KEY', columns: 'id' }]
+      }
+      if (sql.includes('REFERENTIAL_CONSTRAINTS')) {
+        return tableName === 'orders'
+          ? [{ constraint_name: 'orders_customer_fk', from_column: 'customer_id', to_schema: 'shop', to_table: 'customers', to_column: 'id', on_delete: 'CASCADE', on_update: 'NO ACTION' }]
+          : []
+      }
+      if (sql.includes('information_schema.VIEWS')) {
+        return [{ view_name: 'customer_totals', definition: 'select `shop`.`customers`.`email` ...' }]
+      }
+      if (sql.includes('information_schema.ROUTINES')) {
+        return [{ proc_name: 'close_order', kind: 'PROCEDURE', definition: 'BEGIN END' }]
+      }
+      throw new Error(`Unexpected query: ${sql}`)
+    }
+    return { query: async (sql, values) => [respond(sql, values), []] }
+  }
+
+  it('produces the same DbSchema shape as the other engines', async () => {
+    const schema = await introspectMysqlDatabase(fakeConnection())
+
+    expect(schema.database).toBe('shop')
+    expect(schema.schemas[0].schema_id).toBe('schema:shop.shop')
+
+    const orders = table(schema, 'orders')
+    expect(orders.table_id).toBe('table:schema:shop.shop.orders')
+    expect(orders.columns[0]).toMatchObject({ column_id: 'col:table:schema:shop.shop.orders.id', data_type: 'int', udt_name: 'int unsigned', is_nullable: false })
+    expect(orders.indexes.map(i => [i.index_name, i.is_primary, i.is_unique, i.index_type, i.columns])).toEqual([
+      ['PRIMARY', true, true, 'btree', ['id']],
+      ['orders_customer_idx', false, false, 'btree', ['customer_id', 'status']],
+    ])
+    expect(orders.constraints).toEqual([expect.objectContaining({ constraint_type: 'PRIMARY KEY', definition: 'PRIMARY KEY (id)' })])
+    expect(orders.foreign_keys[0]).toMatchObject({ from_table: 'shop.orders', to_table: 'shop.customers', to_column: 'id', on_delete: 'CASCADE' })
+
+    expect(schema.schemas[0].enums).toEqual([{
+      enum_id: 'enum:schema:shop.shop.orders_status',
+      enum_name: 'orders_status',
+      schema_name: 'shop',
+      values: ['pending', 'paid', "it's shipped"],
+    }])
+    expect(schema.schemas[0].views.map(v => v.view_name)).toEqual(['customer_totals'])
+    expect(schema.schemas[0].procedures[0]).toMatchObject({ proc_name: 'close_order', kind: 'PROCEDURE', language: 'sql' })
+  })
+
+  it('requires a database in the connection', async () => {
+    const conn: MysqlQueryable = { query: async () => [[{ dbname: null }], []] }
+    await expect(introspectMysqlDatabase(conn)).rejects.toThrow(/must name a database/)
+  })
+
+  it('parses quoted enum values', () => {
+    expect(parseEnumValues("enum('a','b,c','d''e')")).toEqual(['a', 'b,c', "d'e"])
+  })
+})
+
+describe('splitTableName', () => {
+  it('splits schema-qualified names for every engine', () => {
+    expect(splitTableName('orders')).toEqual({ schema: null, table: 'orders' })
+    expect(splitTableName('public.orders')).toEqual({ schema: 'public', table: 'orders' })
+    expect(splitTableName('main.orders')).toEqual({ schema: 'main', table: 'orders' })
+  })
+})
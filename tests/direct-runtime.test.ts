@@ -0,0 +1,127 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes STATE_DIR)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-direct-')
+})
+
+import {
+  DirectRuntime,
+  translateKeys,
+  directSessionExistsSync,
+  renameDirectSessionSync,
+} from '@/lib/direct-runtime'
+import { createScrollback } from '@/lib/direct-session-scrollback.mjs'
+
+const stateDir = path.join(tmpHome, '.aimaestro', 'direct-sessions')
+
+function writeState(name: string, pid: number) {
+  fs.mkdirSync(stateDir, { recursive: true })
+  fs.writeFileSync(path.join(stateDir, `${name}.json`), JSON.stringify({
+    name,
+    pid,
+    childPid: pid,
+    cwd: '/work',
+    command: ['/bin/bash'],
+    socket: path.join(stateDir, `${name}.sock`),
+    createdAt: '2026-01-01T00:00:00.000Z',
+  }))
+  fs.writeFileSync(path.join(stateDir, `${name}.sock`), '')
+}
+
+beforeEach(() => {
+  fs.rmSync(stateDir, { recursive: true, force: true })
+})
+
+afterAll(() => restoreHome())
+
+// ============================================================================
+// translateKeys
+// ============================================================================
+
+describe('translateKeys', () => {
+  it('maps named keys and control sequences', () => {
+    expect(translateKeys('C-c')).toBe('\x03')
+    expect(translateKeys('Escape')).toBe('\x1b')
+    expect(translateKeys('exit Enter')).toBe('exit\r')
+  })
+
+  it('types quoted strings verbatim', () => {
+    expect(translateKeys(`"export AMP_DIR='/tmp/amp'; claude"`)).toBe(`export AMP_DIR='/tmp/amp'; claude`)
+    expect(translateKeys(`'echo "hi"' Enter`)).toBe('echo "hi"\r')
+  })
+
+  it('unescapes shell escapes inside double quotes', () => {
+    expect(translateKeys('"say \\"hi\\""')).toBe('say "hi"')
+  })
+})
+
+// ============================================================================
+// Session rediscovery
+// ============================================================================
+
+describe('DirectRuntime session discovery', () => {
+  it('rediscovers sessions whose host process is alive', async () => {
+    writeState('backend', process.pid)
+    const runtime = new DirectRuntime()
+
+    const sessions = await runtime.listSessions()
+    expect(sessions).toEqual([
+      { name: 'backend', windows: 1, createdAt: '2026-01-01T00:00:00.000Z', workingDirectory: '/work' },
+    ])
+    expect(await runtime.sessionExists('backend')).toBe(true)
+  })
+
+  it('removes state left behind by dead hosts', async () => {
+    writeState('stale', 999999999)
+    const runtime = new DirectRuntime()
+
+    expect(await runtime.listSessions()).toEqual([])
+    expect(fs.existsSync(path.join(stateDir, 'stale.json'))).toBe(false)
+    expect(fs.existsSync(path.join(stateDir, 'stale.sock'))).toBe(false)
+  })
+
+  it('renames state and socket files in place', () => {
+    writeState('old-name', process.pid)
+    renameDirectSessionSync('old-name', 'new-name')
+
+    expect(directSessionExistsSync('old-name')).toBe(false)
+    expect(directSessionExistsSync('new-name')).toBe(true)
+    expect(fs.existsSync(path.join(stateDir, 'new-name.sock'))).toBe(true)
+  })
+
+  it('attaches through the attach helper and the session socket', () => {
+    const { command, args } = new DirectRuntime().getAttachCommand('backend')
+    expect(command).toBe(process.execPath)
+    expect(args[0]).toMatch(/lib\/direct-session-attach\.mjs$/)
+    expect(args[1]).toBe(path.join(stateDir, 'backend.sock'))
+  })
+})
+
+// ============================================================================
+// Scrollback ring buffer
+// ============================================================================
+
+describe('direct session scrollback', () => {
+  it('captures PTY output written with CRLF line endings', () => {
+    const scrollback = createScrollback(100)
+    scrollback.record('$ ls\r\nREADME.md  lib\r\n')
+    scrollback.record('\x1b[32m$\x1b[0m ')
+
+    expect(scrollback.capture(100)).toBe('$ ls\nREADME.md  lib\n$ \n')
+  })
+
+  it('applies carriage-return overwrites and keeps only the last lines', () => {
+    const scrollback = createScrollback(2)
+    scrollback.record('one\r\ntwo\r\nprogress 10%\rprogress 100%\r\n')
+
+    expect(scrollback.capture(100)).toBe('two\nprogress 100%\n\n')
+    expect(scrollback.capture(1)).toBe('progress 100%\n\n')
+  })
+})
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-embeddings-')
+})
+
+import {
+  OllamaEmbeddingProvider,
+  OpenAIEmbeddingProvider,
+  loadEmbeddingConfig,
+  saveEmbeddingConfig,
+  DEFAULT_EMBEDDING_CONFIG,
+} from '@/lib/rag/embedding-providers'
+import { isVectorModelCurrent, planVectorModelSync } from '@/lib/rag/vector-models'
+import type { VectorModelRecord } from '@/lib/cozo-schema-rag'
+
+const fetchMock = vi.fn()
+
+function respondWith(body: unknown) {
+  fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => body })
+}
+
+beforeEach(() => {
+  fetchMock.mockReset()
+  vi.stubGlobal('fetch', fetchMock)
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+  fs.rmSync(path.join(tmpHome, '.aimaestro'), { recursive: true, force: true })
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+describe('HTTP embedding providers', () => {
+  it('embeds a batch through Ollama /api/embed', async () => {
+    const provider = new OllamaEmbeddingProvider({ model: 'nomic-embed-text', dimension: 2, endpoint: 'http://gpu:11434/' })
+    respondWith({ embeddings: [[1, 0], [0, 1]] })
+
+    const vectors = await provider.embed(['a', 'b'])
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://gpu:11434/api/embed')
+    expect(JSON.parse(fetchMock.mock.calls[0][1].body)).toEqual({ model: 'nomic-embed-text', input: ['a', 'b'] })
+    expect(vectors.map(v => Array.from(v))).toEqual([[1, 0], [0, 1]])
+  })
+
+  it('orders OpenAI-compatible results by index and sends a Bearer token', async () => {
+    const provider = new OpenAIEmbeddingProvider({ model: 'text-embedding-3-small', dimension: 2, apiKey: 'sk-test' })
+    respondWith({ data: [{ index: 1, embedding: [0, 1] }, { index: 0, embedding: [1, 0] }] })
+
+    const vectors = await provider.embed(['first', 'second'])
+
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/embeddings')
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-test')
+    expect(vectors.map(v => Array.from(v))).toEqual([[1, 0], [0, 1]])
+  })
+
+  it('rejects vectors that do not match the configured dimension', async () => {
+    const provider = new OllamaEmbeddingProvider({ model: 'nomic-embed-text', dimension: 768 })
+    respondWith({ embeddings: [[1, 0, 0]] })
+
+    await expect(provider.embed(['a'])).rejects.toThrow(/3-d vectors, expected 768/)
+  })
+})
+
+describe('embedding config', () => {
+  it('defaults to the local transformers model and round-trips a saved config', () => {
+    expect(loadEmbeddingConfig()).toEqual(DEFAULT_EMBEDDING_CONFIG)
+
+    saveEmbeddingConfig({ provider: 'openai', model: 'text-embedding-3-small', dimension: 1536, apiKey: '' })
+
+    const loaded = loadEmbeddingConfig()
+    expect(loaded).toMatchObject({ provider: 'openai', model: 'text-embedding-3-small', dimension: 1536 })
+    expect(loaded.apiKey).toBeUndefined()
+  })
+})
+
+describe('planVectorModelSync', () => {
+  const ollama = { provider: 'ollama', model: 'nomic-embed-text', dimension: 768 }
+
+  function record(relation: VectorModelRecord['relation'], identity: typeof ollama, status: VectorModelRecord['status'] = 'ready'): VectorModelRecord {
+    return { relation, ...identity, status, updated_at: 1 }
+  }
+
+  it('treats untracked vectors as built with the default model', () => {
+    expect(isVectorModelCurrent(undefined, DEFAULT_EMBEDDING_CONFIG)).toBe(true)
+    expect(isVectorModelCurrent(undefined, ollama)).toBe(false)
+    expect(isVectorModelCurrent(record('msg_vec', ollama, 'reembedding'), ollama)).toBe(false)
+  })
+
+  it('re-embeds populated relations and rebuilds an empty memory_vec on a dimension change', () => {
+    const plan = planVectorModelSync([], { msg_vec: 10, doc_chunk_vec: 0, memory_vec: 0 }, ollama)
+    expect(plan.reembed).toEqual(['msg_vec', 'memory_vec'])
+    expect(plan.stamp).toEqual(['doc_chunk_vec'])
+
+    const settled = planVectorModelSync(
+      [record('msg_vec', ollama), record('doc_chunk_vec', ollama), record('memory_vec', ollama)],
+      { msg_vec: 10, doc_chunk_vec: 4, memory_vec: 2 },
+      ollama
+    )
+    expect(settled).toEqual({ stamp: [], reembed: [] })
+  })
+})
@@ -0,0 +1,33 @@
+-- Fixture schema for the SQLite introspector tests
+PRAGMA foreign_keys = ON;
+
+CREATE TABLE customers (
+  id INTEGER PRIMARY KEY,
+  email VARCHAR(255) NOT NULL UNIQUE,
+  name TEXT,
+  created_at DATETIME DEFAULT CURRENT_TIMESTAMP
+);
+
+CREATE TABLE orders (
+  id INTEGER PRIMARY KEY,
+  customer_id INTEGER NOT NULL REFERENCES customers ON DELETE CASCADE,
+  status TEXT NOT NULL DEFAULT 'pending',
+  total DECIMAL(10, 2),
+  CONSTRAINT positive_total CHECK (total >= 0),
+  CHECK (status IN ('pending', 'paid', 'shipped'))
+);
+
+CREATE INDEX orders_customer_idx ON orders (customer_id, status);
+
+CREATE TABLE order_items (
+  order_id INTEGER NOT NULL,
+  line INTEGER NOT NULL,
+  sku TEXT NOT NULL,
+  PRIMARY KEY (order_id, line),
+  FOREIGN KEY (order_id) REFERENCES orders (id) ON DELETE CASCADE ON UPDATE RESTRICT
+);
+
+CREATE VIEW customer_totals AS
+  SELECT c.email, SUM(o.total) AS total
+  FROM customers c JOIN orders o ON o.customer_id = c.id
+  GROUP BY c.email;
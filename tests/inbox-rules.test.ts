@@ -0,0 +1,256 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+const { tmpHome, restoreHome, notifyAgent } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return { ...useTempHome('aim-inbox-rules-'), notifyAgent: vi.fn(async () => ({ notified: true })) }
+})
+
+vi.mock('@/lib/agent-registry', async () =>
+  (await import('./test-utils/service-mocks')).createAgentRegistryStub([
+    { id: 'alice-id', name: 'alice' },
+    { id: 'bob-id', name: 'bob' },
+    { id: 'carol-id', name: 'carol' },
+    { id: 'erin-id', name: 'erin', hostId: 'host-b' },
+  ])
+)
+
+vi.mock('@/lib/notification-service', () => ({ notifyAgent }))
+
+vi.mock('@/lib/amp-websocket', () => ({
+  isAgentConnectedViaWS: () => false,
+  deliverViaWebSocket: () => false,
+}))
+
+import { createInboxRule, updateInboxRule, deleteInboxRule, loadInboxRules, evaluateInboxRules, hasNestedQuantifier, INBOX_RULE_FORWARD_MARKER } from '@/lib/inbox-rules'
+import type { InboxRuleMessage } from '@/lib/inbox-rules'
+import { getMessage, listInboxMessages } from '@/lib/messageQueue'
+import { deliver } from '@/lib/message-delivery'
+import type { AMPEnvelope, AMPPayload } from '@/lib/types/amp'
+import { addHost, deleteHost } from '@/lib/hosts-config'
+import { clearHostsCache } from '@/lib/hosts-config-server.mjs'
+
+let seq = 0
+
+function deliverToBob(extra: Partial<AMPEnvelope> = {}, payload: AMPPayload = { type: 'notification', message: 'Build finished' }) {
+  const id = `msg_${++seq}_rules`
+  const envelope: AMPEnvelope = {
+    version: 'amp/0.1',
+    id,
+    from: 'ci-runner@host-b.aimaestro.local',
+    to: 'bob@host-a.aimaestro.local',
+    subject: 'Build #42 passed',
+    priority: 'normal',
+    timestamp: new Date().toISOString(),
+    signature: '',
+    thread_id: id,
+    ...extra,
+  }
+  return deliver({
+    envelope,
+    payload,
+    recipientAgentName: 'bob',
+    recipientAgentId: 'bob-id',
+    senderName: 'ci-runner',
+    subject: envelope.subject,
+    priority: envelope.priority,
+  }).then(result => ({ result, messageId: id.replace(/_/g, '-') }))
+}
+
+function message(extra: Partial<InboxRuleMessage> = {}): InboxRuleMessage {
+  return {
+    from: 'ci-runner@host-b.aimaestro.local',
+    senderName: 'ci-runner',
+    subject: 'Build #42 passed',
+    priority: 'normal',
+    contentType: 'notification',
+    fromVerified: false,
+    ...extra,
+  }
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  notifyAgent.mockClear()
+  for (const agentId of ['alice-id', 'bob-id', 'carol-id']) {
+    for (const rule of loadInboxRules(agentId)) deleteInboxRule(agentId, rule.id)
+  }
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+describe('rule validation', () => {
+  it('rejects invalid conditions and actions', () => {
+    expect(() => createInboxRule('bob-id', { name: 'x', actions: {} })).toThrow('at least one action')
+    expect(() => createInboxRule('bob-id', { name: 'x', conditions: { subjectPattern: '(' }, actions: { archive: true } })).toThrow('not a valid regular expression')
+    expect(() => createInboxRule('bob-id', { name: 'x', conditions: { priorities: ['huge'] }, actions: { archive: true } })).toThrow('conditions.priorities')
+    expect(() => createInboxRule('bob-id', { name: 'x', actions: { forwardTo: 'bob' } })).toThrow('cannot be the agent itself')
+    expect(() => createInboxRule('bob-id', { name: 'x', actions: { forwardTo: 'nobody' } })).toThrow('agent not found')
+    expect(() => createInboxRule('bob-id', { name: 'x', actions: { webhookUrl: 'file:///etc/passwd' } })).toThrow('http(s) URL')
+    expect(loadInboxRules('bob-id')).toEqual([])
+  })
+
+  it('stores forward targets as agent IDs and updates rules in place', () => {
+    const rule = createInboxRule('bob-id', { name: 'Hand off', actions: { forwardTo: 'carol' } })
+    expect(rule).toMatchObject({ enabled: true, conditions: {}, actions: { forwardTo: 'carol-id' } })
+
+    expect(updateInboxRule('bob-id', rule.id, { enabled: false })).toMatchObject({ enabled: false, actions: { forwardTo: 'carol-id' } })
+    expect(updateInboxRule('bob-id', 'missing', { enabled: true })).toBeNull()
+    expect(loadInboxRules('bob-id')).toHaveLength(1)
+  })
+})
+
+describe('subject patterns', () => {
+  it('rejects groups that repeat a quantifier', () => {
+    for (const pattern of ['(a+)+$', '(\\w*\\s?)*x', '((ab)*c)+', '(?:x|y+){2,}', '(a|aa)+$', '^(a|a?)+$']) {
+      expect(hasNestedQuantifier(pattern)).toBe(true)
+      expect(() => createInboxRule('bob-id', { name: 'x', conditions: { subjectPattern: pattern }, actions: { archive: true } }))
+        .toThrow('cannot repeat a group that contains a quantifier')
+    }
+    for (const pattern of ['^Build #\\d+ (passed|failed)$', '(a+)', '(ab)+', '[(a+)]+', '\\(a+\\)+', '(?:deploy|release) v\\d+']) {
+      expect(hasNestedQuantifier(pattern)).toBe(false)
+    }
+  })
+
+  it('never runs an unsafe pattern saved before the check', () => {
+    const rule = createInboxRule('bob-id', { name: 'Legacy', conditions: { subjectPattern: '^Build' }, actions: { archive: true } })
+    const file = path.join(tmpHome, '.agent-messaging', 'agents', 'bob-id', 'inbox-rules.json')
+    const stored = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    stored.rules[0].conditions.subjectPattern = '^(a+)+$'
+    fs.writeFileSync(file, JSON.stringify(stored))
+
+    const started = Date.now()
+    expect(evaluateInboxRules('bob-id', message({ subject: 'a'.repeat(40) + '!' }))).toBeNull()
+    expect(Date.now() - started).toBeLessThan(1000)
+    expect(loadInboxRules('bob-id')[0].id).toBe(rule.id)
+  })
+
+  it('matches only the start of a long subject', () => {
+    createInboxRule('bob-id', { name: 'Tail', conditions: { subjectPattern: 'passed$' }, actions: { archive: true } })
+
+    expect(evaluateInboxRules('bob-id', message({ subject: 'Build passed' }))).not.toBeNull()
+    expect(evaluateInboxRules('bob-id', message({ subject: 'x'.repeat(600) + ' passed' }))).toBeNull()
+  })
+})
+
+describe('evaluateInboxRules', () => {
+  it('matches every condition a rule sets', () => {
+    createInboxRule('bob-id', {
+      name: 'CI noise',
+      conditions: { from: 'ci-*', subjectPattern: 'passed$', priorities: ['low', 'normal'], contentTypes: ['notification'], fromVerified: false },
+      actions: { archive: true },
+    })
+
+    expect(evaluateInboxRules('bob-id', message())).toMatchObject({ archive: true })
+    expect(evaluateInboxRules('bob-id', message({ senderName: 'carol', from: 'carol@host-b.aimaestro.local' }))).toBeNull()
+    expect(evaluateInboxRules('bob-id', message({ subject: 'Build #43 FAILED' }))).toBeNull()
+    expect(evaluateInboxRules('bob-id', message({ priority: 'urgent' }))).toBeNull()
+    expect(evaluateInboxRules('bob-id', message({ contentType: 'alert' }))).toBeNull()
+    expect(evaluateInboxRules('bob-id', message({ fromVerified: true }))).toBeNull()
+  })
+
+  it('combines the actions of all matching enabled rules', () => {
+    createInboxRule('bob-id', { name: 'Read', actions: { markRead: true, escalatePriority: 'high' } })
+    createInboxRule('bob-id', { name: 'Quiet', conditions: { from: '*@host-b.aimaestro.local' }, actions: { suppressNotification: true, escalatePriority: 'urgent' } })
+    const disabled = createInboxRule('bob-id', { name: 'Off', actions: { archive: true } })
+    updateInboxRule('bob-id', disabled.id, { enabled: false })
+
+    const outcome = evaluateInboxRules('bob-id', message())
+    expect(outcome).toMatchObject({ archive: false, markRead: true, suppressNotification: true, priority: 'urgent' })
+    expect(outcome?.ruleIds).toHaveLength(2)
+
+    // Escalation never lowers a priority
+    deleteInboxRule('bob-id', outcome!.ruleIds[1])
+    expect(evaluateInboxRules('bob-id', message({ priority: 'urgent' }))?.priority).toBeUndefined()
+  })
+})
+
+describe('delivery', () => {
+  it('stores the rule outcome without touching the envelope', async () => {
+    createInboxRule('bob-id', { name: 'CI', conditions: { from: 'ci-runner' }, actions: { archive: true, escalatePriority: 'high' } })
+
+    const { result, messageId } = await deliverToBob()
+    expect(result.delivered).toBe(true)
+    expect(await getMessage('bob-id', messageId)).toMatchObject({ status: 'archived', priority: 'high' })
+    expect(notifyAgent).toHaveBeenCalledWith(expect.objectContaining({ priority: 'high' }))
+  })
+
+  it('suppresses the notification and marks the message read', async () => {
+    createInboxRule('bob-id', { name: 'Silent', actions: { markRead: true, suppressNotification: true } })
+
+    const { result, messageId } = await deliverToBob()
+    expect(result).toEqual({ delivered: true, notified: false })
+    expect(notifyAgent).not.toHaveBeenCalled()
+    expect(await getMessage('bob-id', messageId)).toMatchObject({ status: 'read' })
+  })
+
+  it('forwards once, even when the target forwards back', async () => {
+    createInboxRule('bob-id', { name: 'To carol', conditions: { subjectPattern: '^Incident' }, actions: { forwardTo: 'carol' } })
+    createInboxRule('carol-id', { name: 'Back to bob', actions: { forwardTo: 'bob' } })
+
+    await deliverToBob({ subject: 'Incident: API down', priority: 'urgent' }, { type: 'alert', message: 'API is down' })
+
+    const forwarded = await listInboxMessages('carol-id')
+    expect(forwarded).toHaveLength(1)
+    expect(forwarded[0].subject).toContain('Incident: API down')
+    expect(forwarded[0].preview).toContain('Forwarded by inbox rule')
+
+    // Bob has only the original; carol's rule did not bounce the forward back
+    expect((await listInboxMessages('bob-id')).filter(m => m.subject.includes('Incident'))).toHaveLength(1)
+  })
+  describe('across hosts', () => {
+    let routed: Array<{ url: string; body: Record<string, any> }>
+
+    beforeEach(() => {
+      routed = []
+      addHost({ id: 'host-b', name: 'Host B', url: 'http://host-b.test:23000' })
+      // Message sending reads hosts through the server module, which caches separately
+      clearHostsCache()
+      vi.stubGlobal('fetch', vi.fn(async (url: string, init: { body: string }) => {
+        routed.push({ url, body: JSON.parse(init.body) })
+        return { ok: true, json: async () => ({ id: 'remote', status: 'delivered' }) }
+      }))
+    })
+
+    afterEach(() => {
+      vi.unstubAllGlobals()
+      deleteHost('host-b')
+      clearHostsCache()
+    })
+
+    it('marks a forward to an agent on another host', async () => {
+      createInboxRule('bob-id', { name: 'To erin', actions: { forwardTo: 'erin' } })
+
+      await deliverToBob()
+
+      expect(routed).toHaveLength(1)
+      expect(routed[0].url).toBe('http://host-b.test:23000/api/v1/route')
+      expect(routed[0].body).toMatchObject({ to: 'erin', payload: { context: { [INBOX_RULE_FORWARD_MARKER]: true } } })
+    })
+
+    it('does not forward a marked copy that arrives from another host', async () => {
+      createInboxRule('bob-id', { name: 'To erin', actions: { forwardTo: 'erin' } })
+      createInboxRule('bob-id', { name: 'To carol', actions: { forwardTo: 'carol' } })
+
+      const { result } = await deliverToBob({ from: 'erin@host-b.aimaestro.local', subject: 'Fwd: Deploy blocked' }, {
+        type: 'notification',
+        message: 'Forwarded by inbox rule',
+        context: { [INBOX_RULE_FORWARD_MARKER]: true },
+      })
+
+      expect(result.delivered).toBe(true)
+      expect(routed).toHaveLength(0)
+      expect((await listInboxMessages('carol-id')).filter(m => m.subject.includes('Deploy blocked'))).toHaveLength(0)
+    })
+  })
+})
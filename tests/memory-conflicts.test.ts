@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// ============================================================================
+// Fake agent database: records every query and answers the few reads the
+// conflict review makes from an in-memory table
+// ============================================================================
+
+const { db } = vi.hoisted(() => {
+  const db = {
+    queries: [] as string[],
+    conflict: null as unknown[] | null,
+    memories: new Map<string, unknown[]>(),
+    run: async (query: string) => {
+      db.queries.push(query)
+      if (/:(put|update|rm|delete)\b/.test(query)) return { rows: [] }
+      if (query.includes('*memory_conflicts{')) return { rows: db.conflict ? [db.conflict] : [] }
+      if (query.includes('related[')) return { rows: [] }
+      const id = query.match(/memory_id = '([^']+)'/)?.[1]
+      const row = id ? db.memories.get(id) : undefined
+      return { rows: row ? [row] : [] }
+    },
+  }
+  return { db }
+})
+
+vi.mock('@/lib/agent', () => ({
+  agentRegistry: { getAgent: async () => ({ getDatabase: async () => db }) },
+}))
+
+import { supersedeMemory, getMemoriesByCategory, getRelatedMemories, ACTIVE_TIER_FILTER } from '@/lib/cozo-schema-memory'
+import { reviewMemoryConflict, deleteLongTermMemory } from '@/services/agents-memory-service'
+import type { AgentDatabase } from '@/lib/cozo-db'
+
+const agentDb = db as unknown as AgentDatabase
+
+function memoryRow(id: string, content: string) {
+  // getMemoryById columns
+  return [id, 'agent-1', 'long', 1, 'preference', content, null, 0.9, 2, 0, 1]
+}
+
+function writes() {
+  return db.queries.filter(q => /:(put|update)\b/.test(q))
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  db.queries = []
+  db.memories = new Map([
+    ['mem-old', memoryRow('mem-old', 'Prefers tabs')],
+    ['mem-new', memoryRow('mem-new', 'Prefers spaces')],
+  ])
+  // getMemoryConflict columns
+  db.conflict = ['conflict-1', 'agent-1', 'mem-old', 'mem-new', 'contradicts', 'mem-new', 'pending', null, 'run-1', 1, null]
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('supersedeMemory', () => {
+  it('links winner to loser and moves the loser to the superseded tier', async () => {
+    await supersedeMemory(agentDb, 'mem-new', 'mem-old')
+
+    const [link, update] = writes()
+    expect(link).toMatch(/'mem-new',\s*'mem-old',\s*'supersedes'[\s\S]*:put memory_links/)
+    expect(update).toMatch(/'mem-old',\s*'superseded'[\s\S]*:update memories/)
+  })
+})
+
+describe('inactive tiers', () => {
+  it('keeps superseded and archived memories out of category and related listings', async () => {
+    await getMemoriesByCategory(agentDb, 'agent-1', 'preference')
+    await getRelatedMemories(agentDb, 'mem-new')
+
+    expect(ACTIVE_TIER_FILTER).toBe(`tier != 'superseded', tier != 'archived'`)
+    expect(db.queries).toHaveLength(2)
+    for (const query of db.queries) {
+      expect(query).toContain(ACTIVE_TIER_FILTER)
+    }
+  })
+})
+
+describe('reviewMemoryConflict', () => {
+  it('supersedes the suggested loser on accept', async () => {
+    const result = await reviewMemoryConflict('agent-1', 'conflict-1', { action: 'accept' })
+
+    expect(result.status).toBe(200)
+    expect(writes().some(q => /'mem-old',\s*'superseded'/.test(q))).toBe(true)
+    expect(writes().some(q => /'conflict-1',\s*'accepted',\s*'mem-new'[\s\S]*:update memory_conflicts/.test(q))).toBe(true)
+  })
+
+  it('lets the reviewer pick the other side', async () => {
+    await reviewMemoryConflict('agent-1', 'conflict-1', { action: 'accept', winnerId: 'mem-old' })
+
+    expect(writes().some(q => /'mem-new',\s*'superseded'/.test(q))).toBe(true)
+    expect(writes().some(q => /'mem-old',\s*'superseded'/.test(q))).toBe(false)
+  })
+
+  it('keeps both memories on reject', async () => {
+    await reviewMemoryConflict('agent-1', 'conflict-1', { action: 'reject' })
+
+    expect(writes()).toHaveLength(1)
+    expect(writes()[0]).toMatch(/'conflict-1',\s*'rejected'/)
+  })
+
+  it('validates the action, the winner and the conflict state', async () => {
+    expect(await reviewMemoryConflict('agent-1', 'conflict-1', { action: 'merge' })).toMatchObject({ status: 400 })
+    expect(await reviewMemoryConflict('agent-1', 'conflict-1', { action: 'accept', winnerId: 'mem-other' })).toMatchObject({ status: 400 })
+    expect(await reviewMemoryConflict('agent-2', 'conflict-1', { action: 'accept' })).toMatchObject({ status: 404 })
+
+    db.conflict![6] = 'accepted'
+    expect(await reviewMemoryConflict('agent-1', 'conflict-1', { action: 'accept' })).toMatchObject({ status: 409 })
+    expect(writes()).toEqual([])
+  })
+})
+
+describe('deleteLongTermMemory', () => {
+  it('removes the pin along with the memory', async () => {
+    const result = await deleteLongTermMemory('agent-1', 'mem-old')
+
+    expect(result.status).toBe(200)
+    expect(db.queries.some(q => /\[\['mem-old'\]\][\s\S]*:rm memory_pins/.test(q))).toBe(true)
+  })
+})
@@ -0,0 +1,113 @@
+import { describe, it, expect } from 'vitest'
+import {
+  serializeMemoryExport,
+  parseMemoryExport,
+  parseCategoryMap,
+  MEMORY_EXPORT_VERSION,
+  type MemoryExportRecord,
+  type LinkExportRecord,
+} from '@/lib/memory/portable'
+
+const HEADER = {
+  agent_id: 'senior-backend',
+  exported_at: '2026-01-01T00:00:00.000Z',
+  embedding_model: 'Xenova/bge-small-en-v1.5',
+  embedding_dim: 3,
+}
+
+function memoryRecord(memoryId: string, content: string): MemoryExportRecord {
+  return {
+    type: 'memory',
+    memory: {
+      memory_id: memoryId,
+      tier: 'long',
+      system: 1,
+      category: 'fact',
+      content,
+      context: null,
+      source_conversations: ['/conv/a.jsonl'],
+      confidence: 0.9,
+      created_at: 1700000000000,
+      reinforcement_count: 3,
+      promoted_at: 1700000500000,
+      pinned: false,
+    },
+    embedding: [0.1, 0.2, 0.3],
+  }
+}
+
+const LINK: LinkExportRecord = {
+  type: 'link',
+  from_memory_id: 'mem-2',
+  to_memory_id: 'mem-1',
+  relationship: 'supports',
+  created_at: 1700000600000,
+}
+
+describe('serializeMemoryExport / parseMemoryExport', () => {
+  it('round-trips memories and links behind a versioned header', () => {
+    const text = serializeMemoryExport(HEADER, [memoryRecord('mem-1', 'Staging DB is on port 6543'), memoryRecord('mem-2', 'Use pgbouncer')], [LINK])
+    const lines = text.trim().split('\n')
+    expect(lines).toHaveLength(4)
+
+    const parsed = parseMemoryExport(text)
+    expect(parsed.header).toMatchObject({
+      type: 'header',
+      format: 'aimaestro-memory',
+      version: MEMORY_EXPORT_VERSION,
+      agent_id: 'senior-backend',
+      counts: { memories: 2, links: 1 },
+    })
+    expect(parsed.memories.map(m => m.memory.memory_id)).toEqual(['mem-1', 'mem-2'])
+    expect(parsed.memories[0].embedding).toEqual([0.1, 0.2, 0.3])
+    expect(parsed.links).toEqual([LINK])
+  })
+
+  it('rejects files without a header or from a newer version', () => {
+    expect(() => parseMemoryExport(JSON.stringify(memoryRecord('mem-1', 'x')))).toThrow(/header/)
+    const future = JSON.stringify({ type: 'header', format: 'aimaestro-memory', version: MEMORY_EXPORT_VERSION + 1 })
+    expect(() => parseMemoryExport(future)).toThrow(/Unsupported memory export version/)
+  })
+
+  it('reports the line of an invalid record', () => {
+    const text = serializeMemoryExport(HEADER, [memoryRecord('mem-1', 'x')], []) +
+      JSON.stringify({ ...LINK, relationship: 'likes' }) + '\n'
+    expect(() => parseMemoryExport(text)).toThrow(/^Line 3: unknown relationship/)
+    expect(() => parseMemoryExport(serializeMemoryExport(HEADER, [], []) + '{oops\n')).toThrow(/^Line 2: invalid JSON/)
+  })
+})
+
+describe('parseMemoryExport numeric fields', () => {
+  function withMemory(overrides: Record<string, unknown>, embedding?: unknown) {
+    const record = memoryRecord('mem-1', 'x')
+    return serializeMemoryExport(HEADER, [], []) +
+      JSON.stringify({ ...record, memory: { ...record.memory, ...overrides }, ...(embedding ? { embedding } : {}) }) + '\n'
+  }
+
+  it('rejects values that would be spliced into CozoScript', () => {
+    expect(() => parseMemoryExport(withMemory({ created_at: '0]] :rm memories {memory_id} <- [[\'mem-1\'' }))).toThrow(/^Line 2: created_at/)
+    expect(() => parseMemoryExport(withMemory({ reinforcement_count: 1.5 }))).toThrow(/^Line 2: reinforcement_count/)
+    expect(() => parseMemoryExport(withMemory({ reinforcement_count: -1 }))).toThrow(/^Line 2: reinforcement_count/)
+    expect(() => parseMemoryExport(withMemory({ promoted_at: 'null' }))).toThrow(/^Line 2: promoted_at/)
+    expect(() => parseMemoryExport(withMemory({ confidence: 2 }))).toThrow(/^Line 2: confidence/)
+    // JSON.parse turns 1e400 into Infinity
+    expect(() => parseMemoryExport(withMemory({}).replace('"created_at":1700000000000', '"created_at":1e400'))).toThrow(/^Line 2: created_at/)
+    expect(() => parseMemoryExport(withMemory({}, [0.1, 'x']))).toThrow(/^Line 2: embedding/)
+  })
+
+  it('accepts null promoted_at', () => {
+    expect(parseMemoryExport(withMemory({ tier: 'warm', promoted_at: null })).memories[0].memory.promoted_at).toBeNull()
+  })
+})
+
+describe('parseCategoryMap', () => {
+  it('accepts a query-string spec or an object', () => {
+    expect(parseCategoryMap('pattern:insight, reasoning:insight')).toEqual({ pattern: 'insight', reasoning: 'insight' })
+    expect(parseCategoryMap({ preference: 'decision' })).toEqual({ preference: 'decision' })
+    expect(parseCategoryMap(undefined)).toEqual({})
+  })
+
+  it('rejects unknown categories', () => {
+    expect(() => parseCategoryMap('pattern:trivia')).toThrow(/Invalid category mapping/)
+  })
+})
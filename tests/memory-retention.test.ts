@@ -0,0 +1,78 @@
+import { describe, it, expect } from 'vitest'
+import {
+  computeDecayScore,
+  getHalfLifeDays,
+  planRetention,
+  type RetentionCandidate,
+  type RetentionPolicy,
+} from '@/lib/memory/retention'
+
+const DAY_MS = 24 * 60 * 60 * 1000
+const NOW = Date.UTC(2026, 0, 1)
+
+const policy: RetentionPolicy = {
+  decayHalfLifeDays: 100,
+  categoryHalfLifeDays: { preference: 0, pattern: 10 },
+  demoteBelowScore: 0.3,
+  archiveBelowScore: 0.1,
+}
+
+function memory(overrides: Partial<RetentionCandidate> = {}): RetentionCandidate {
+  return {
+    memory_id: 'mem-1',
+    category: 'fact',
+    tier: 'long',
+    confidence: 0.8,
+    created_at: NOW - 200 * DAY_MS,
+    last_reinforced_at: NOW - 200 * DAY_MS,
+    last_accessed_at: null,
+    ...overrides,
+  }
+}
+
+describe('computeDecayScore', () => {
+  it('halves the confidence every half-life since the memory was last active', () => {
+    expect(computeDecayScore(memory(), 100, NOW)).toBeCloseTo(0.2)
+    expect(computeDecayScore(memory({ last_accessed_at: NOW - 100 * DAY_MS }), 100, NOW)).toBeCloseTo(0.4)
+    expect(computeDecayScore(memory({ last_reinforced_at: NOW }), 100, NOW)).toBeCloseTo(0.8)
+  })
+
+  it('never decays with a zero half-life', () => {
+    expect(computeDecayScore(memory(), 0, NOW)).toBe(0.8)
+  })
+})
+
+describe('getHalfLifeDays', () => {
+  it('prefers the per-category half-life', () => {
+    expect(getHalfLifeDays('pattern', policy)).toBe(10)
+    expect(getHalfLifeDays('preference', policy)).toBe(0)
+    expect(getHalfLifeDays('fact', policy)).toBe(100)
+  })
+})
+
+describe('planRetention', () => {
+  it('demotes fading long-term memories and archives fading warm ones', () => {
+    const plan = planRetention([
+      memory({ memory_id: 'long-faded' }),
+      memory({ memory_id: 'long-fresh', last_reinforced_at: NOW - DAY_MS }),
+      memory({ memory_id: 'warm-faded', tier: 'warm', created_at: NOW - 400 * DAY_MS, last_reinforced_at: NOW - 400 * DAY_MS }),
+      memory({ memory_id: 'warm-fading', tier: 'warm' }),
+    ], new Set(), policy, NOW)
+
+    expect(plan.demote).toEqual(['long-faded'])
+    expect(plan.archive).toEqual(['warm-faded'])
+    expect(plan.scores.get('warm-fading')).toBeCloseTo(0.2)
+  })
+
+  it('skips pinned memories and categories that are kept forever', () => {
+    const plan = planRetention([
+      memory({ memory_id: 'pinned' }),
+      memory({ memory_id: 'preference', category: 'preference' }),
+      memory({ memory_id: 'pattern', category: 'pattern', created_at: NOW - 30 * DAY_MS, last_reinforced_at: NOW - 30 * DAY_MS }),
+    ], new Set(['pinned']), policy, NOW)
+
+    expect(plan.demote).toEqual(['pattern'])
+    expect(plan.scores.has('pinned')).toBe(false)
+    expect(plan.scores.has('preference')).toBe(false)
+  })
+})
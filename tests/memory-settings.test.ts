@@ -0,0 +1,93 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-memory-settings-')
+})
+
+vi.mock('@/lib/agent-registry', async () =>
+  (await import('./test-utils/service-mocks')).createAgentRegistryStub([{ id: 'agent-1', name: 'agent-1' }])
+)
+
+vi.mock('@/lib/agent', () => ({ agentRegistry: {} }))
+
+import { loadMemorySettings, saveMemorySettings } from '@/lib/memory/settings'
+import { updateMemorySettings } from '@/services/agents-memory-service'
+import { DEFAULT_MEMORY_SETTINGS } from '@/lib/memory/types'
+
+beforeEach(() => {
+  fs.rmSync(path.join(tmpHome, '.aimaestro'), { recursive: true, force: true })
+})
+
+afterAll(() => restoreHome())
+
+describe('memory settings', () => {
+  it('falls back to defaults', () => {
+    expect(loadMemorySettings('agent-1')).toEqual(DEFAULT_MEMORY_SETTINGS)
+  })
+
+  it('merges updates per agent and keeps earlier overrides', () => {
+    saveMemorySettings('agent-1', { consolidation: { llmProvider: 'openai', openaiApiKey: 'sk-1' } })
+    const settings = saveMemorySettings('agent-1', { consolidation: { openaiModel: 'qwen2.5-7b' } })
+
+    expect(settings.consolidation).toMatchObject({
+      llmProvider: 'openai',
+      openaiModel: 'qwen2.5-7b',
+      openaiApiKey: 'sk-1',
+      ollamaModel: DEFAULT_MEMORY_SETTINGS.consolidation.ollamaModel,
+    })
+    expect(loadMemorySettings('agent-2').consolidation.llmProvider).toBe('auto')
+  })
+
+  it('clears the stored key with an empty string', () => {
+    saveMemorySettings('agent-1', { consolidation: { openaiApiKey: 'sk-1' } })
+    saveMemorySettings('agent-1', { consolidation: { openaiApiKey: '' } })
+
+    expect(loadMemorySettings('agent-1').consolidation.openaiApiKey).toBeUndefined()
+  })
+})
+
+describe('updateMemorySettings', () => {
+  it('validates every section', () => {
+    const invalid: unknown[] = [
+      'nightly',
+      { consolidation: 'openai' },
+      { consolidation: { schedule: 'hourly' } },
+      { consolidation: { nightlyTime: '25:00' } },
+      { consolidation: { maxMemoriesPerConversation: 2.5 } },
+      { retention: { shortTermDays: -1 } },
+      { retention: { decayHalfLifeDays: '180' } },
+      { retention: { archiveBelowScore: 2 } },
+      { retention: { categoryHalfLifeDays: { gossip: 10 } } },
+      { retention: { categoryHalfLifeDays: { pattern: NaN } } },
+      { search: { defaultLimit: 0 } },
+      { search: { includeRelatedByDefault: 'yes' } },
+      { ranking: {} },
+    ]
+    for (const body of invalid) {
+      expect(updateMemorySettings('agent-1', body).status, JSON.stringify(body)).toBe(400)
+    }
+    expect(fs.existsSync(path.join(tmpHome, '.aimaestro'))).toBe(false)
+  })
+
+  it('stores valid overrides and drops unknown fields', () => {
+    const result = updateMemorySettings('agent-1', {
+      consolidation: { openaiApiKeySet: true, minConfidence: 0.8 },
+      retention: { categoryHalfLifeDays: { preference: 0, pattern: 60 } },
+      search: { relatedDepth: 3 },
+    })
+
+    expect(result.status).toBe(200)
+    const settings = loadMemorySettings('agent-1')
+    expect(settings.consolidation.minConfidence).toBe(0.8)
+    expect(settings.consolidation).not.toHaveProperty('openaiApiKeySet')
+    expect(settings.retention.categoryHalfLifeDays).toEqual({ preference: 0, pattern: 60 })
+    expect(settings.search.relatedDepth).toBe(3)
+  })
+})
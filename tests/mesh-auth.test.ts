@@ -0,0 +1,149 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-mesh-')
+})
+
+// Requests are signed with this host's key, so "this host" plays the remote peer
+vi.mock('@/lib/hosts-config', () => ({
+  getSelfHost: () => ({ id: 'peer-b', name: 'Peer B', url: 'http://peer-b:23000' }),
+}))
+
+import {
+  authenticatePeer,
+  createPairingToken,
+  forgetPeer,
+  getHostKeyPair,
+  getPeerTrust,
+  introducePeer,
+  setPeerTrustState,
+  signMeshRequest,
+  trustPeerKey,
+  verifyMeshRequest,
+  MESH_HEADERS,
+  type MeshRequest,
+} from '@/lib/mesh-auth'
+import { generateKeyPair } from '@/lib/amp-keys'
+
+const trustFile = path.join(tmpHome, '.aimaestro', 'mesh-trust.json')
+const PATH = '/api/hosts/register-peer'
+
+async function signedRequest(body: string, options?: { pairingToken?: string }): Promise<MeshRequest> {
+  const headers = await signMeshRequest('POST', `http://peer-a:23000${PATH}`, body, options)
+  return {
+    headers: {
+      host: headers[MESH_HEADERS.host],
+      publicKey: headers[MESH_HEADERS.publicKey],
+      timestamp: headers[MESH_HEADERS.timestamp],
+      nonce: headers[MESH_HEADERS.nonce],
+      signature: headers[MESH_HEADERS.signature],
+      pairingToken: headers[MESH_HEADERS.pairingToken] || null,
+    },
+    body,
+  }
+}
+
+beforeEach(() => {
+  fs.rmSync(trustFile, { force: true })
+})
+
+afterAll(() => restoreHome())
+
+// ============================================================================
+// Signatures
+// ============================================================================
+
+describe('verifyMeshRequest', () => {
+  it('accepts a signed request and rejects tampering and replays', async () => {
+    const request = await signedRequest('{"hello":"world"}')
+    expect(verifyMeshRequest('POST', PATH, request)).toMatchObject({ valid: true, hostId: 'peer-b' })
+    expect(verifyMeshRequest('POST', PATH, request)).toMatchObject({ valid: false, error: 'Replayed mesh request' })
+
+    const tampered = await signedRequest('{"hello":"world"}')
+    expect(verifyMeshRequest('POST', PATH, { ...tampered, body: '{"hello":"mallory"}' }).valid).toBe(false)
+
+    const otherPath = await signedRequest('{}')
+    expect(verifyMeshRequest('POST', '/api/hosts/exchange-peers', otherPath).valid).toBe(false)
+  })
+
+  it('requires the signature headers', () => {
+    expect(verifyMeshRequest('POST', PATH, { headers: {}, body: '' })).toMatchObject({
+      valid: false,
+      error: 'Missing mesh signature headers',
+    })
+  })
+})
+
+// ============================================================================
+// Trust
+// ============================================================================
+
+describe('authenticatePeer', () => {
+  it('holds unknown peers as pending until approved', async () => {
+    const first = authenticatePeer('POST', PATH, await signedRequest('{}'), { name: 'Peer B' })
+    expect(first).toMatchObject({ ok: false, status: 403, pending: true, hostId: 'peer-b' })
+    expect(getPeerTrust('peer-b')).toMatchObject({ state: 'pending', source: 'request', name: 'Peer B' })
+
+    setPeerTrustState('peer-b', 'trusted')
+    expect(authenticatePeer('POST', PATH, await signedRequest('{}'))).toMatchObject({ ok: true, hostId: 'peer-b' })
+
+    setPeerTrustState('peer-b', 'revoked')
+    expect(authenticatePeer('POST', PATH, await signedRequest('{}'))).toMatchObject({ ok: false, status: 403 })
+  })
+
+  it('trusts a peer presenting a pairing token, once', async () => {
+    const { token } = createPairingToken()
+
+    // Pairing only counts where the endpoint allows it
+    expect(authenticatePeer('POST', PATH, await signedRequest('{}', { pairingToken: token })).ok).toBe(false)
+
+    const paired = authenticatePeer('POST', PATH, await signedRequest('{}', { pairingToken: token }), { allowPairing: true })
+    expect(paired.ok).toBe(true)
+    expect(getPeerTrust('peer-b')).toMatchObject({ state: 'trusted', source: 'pairing' })
+
+    // A spent token cannot pair again, even after the peer is forgotten
+    forgetPeer('peer-b')
+    const reused = authenticatePeer('POST', PATH, await signedRequest('{}', { pairingToken: token }), { allowPairing: true })
+    expect(reused).toMatchObject({ ok: false, pending: true })
+  })
+
+  it('rejects a key that differs from the pinned one', async () => {
+    const other = await generateKeyPair()
+    trustPeerKey('peer-b', other.publicHex, 'manual')
+
+    const result = authenticatePeer('POST', PATH, await signedRequest('{}'))
+    expect(result).toMatchObject({ ok: false, status: 403 })
+    expect(result.error).toMatch(/does not match the pinned key/)
+  })
+})
+
+describe('introducePeer', () => {
+  it('pins introduced keys for approval, only from trusted peers', async () => {
+    const self = await getHostKeyPair()
+    const newcomer = await generateKeyPair()
+    trustPeerKey('peer-b', self.publicHex, 'manual')
+
+    expect(introducePeer('peer-c', newcomer.publicHex, 'stranger')).toBe(false)
+    expect(getPeerTrust('peer-c')).toBeNull()
+
+    expect(introducePeer('peer-c', newcomer.publicHex, 'peer-b')).toBe(true)
+    const pinned = getPeerTrust('peer-c')
+    expect(pinned).toMatchObject({ state: 'pending', source: 'introduced', introducedBy: 'peer-b' })
+    expect(pinned?.fingerprint).toBeTruthy()
+
+    // An introduction never replaces a key that is already pinned, pending or not
+    const impostor = await generateKeyPair()
+    expect(introducePeer('peer-c', impostor.publicHex, 'peer-b')).toBe(false)
+    expect(getPeerTrust('peer-c')).toEqual(pinned)
+
+    // The operator approves it
+    expect(setPeerTrustState('peer-c', 'trusted')).toMatchObject({ state: 'trusted', introducedBy: 'peer-b' })
+  })
+})
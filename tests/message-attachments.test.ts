@@ -0,0 +1,169 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-message-attachments-')
+})
+
+vi.mock('@/lib/agent-registry', async () =>
+  (await import('./test-utils/service-mocks')).createAgentRegistryStub([
+    { id: 'bob-id', name: 'bob' },
+  ])
+)
+
+vi.mock('@/lib/notification-service', () => ({
+  notifyAgent: async () => ({ notified: false }),
+}))
+
+vi.mock('@/lib/amp-websocket', () => ({
+  isAgentConnectedViaWS: () => false,
+  deliverViaWebSocket: () => false,
+}))
+
+import fs from 'fs'
+import path from 'path'
+import {
+  sniffMimeType,
+  describeAttachment,
+  storeAttachment,
+  readStoredAttachment,
+  readAttachmentInput,
+  decodeAttachmentData,
+  encodeAttachmentData,
+  validateAttachmentUploads,
+  setAttachmentScanner,
+  MAX_ATTACHMENT_BYTES,
+} from '@/lib/attachment-store'
+import { deliver } from '@/lib/message-delivery'
+import { getMessageAttachment } from '@/services/agents-messaging-service'
+import type { AMPEnvelope } from '@/lib/types/amp'
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d])
+const DIFF = Buffer.from('diff --git a/x.ts b/x.ts\n--- a/x.ts\n+++ b/x.ts\n@@ -1 +1 @@\n-old\n+new\n')
+const LOG = Buffer.from('2026-01-01 10:00:00 INFO started\n2026-01-01 10:00:01 WARN slow\n')
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  setAttachmentScanner(null)
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+describe('sniffMimeType', () => {
+  it('detects types from content, not from the declared name', () => {
+    expect(sniffMimeType(PNG, 'notes.txt')).toBe('image/png')
+    expect(sniffMimeType(DIFF, 'change.txt')).toBe('text/x-diff')
+    expect(sniffMimeType(LOG, 'server.log')).toBe('text/plain')
+    expect(sniffMimeType(Buffer.from('{"a":1}'), 'data.json')).toBe('application/json')
+    expect(sniffMimeType(Buffer.from([0x00, 0x01, 0xfe, 0xff]), 'image.png')).toBe('application/octet-stream')
+  })
+
+  it('never reports SVG as an image', () => {
+    expect(sniffMimeType(Buffer.from('<svg xmlns="http://www.w3.org/2000/svg"><script/></svg>'), 'x.svg')).toBe('text/plain')
+  })
+})
+
+describe('attachment store', () => {
+  it('stores content once under its digest', () => {
+    const first = storeAttachment('bob-id', LOG, 'a.log')
+    const second = storeAttachment('bob-id', LOG, 'b.log')
+
+    expect(second).toEqual(first)
+    expect(first).toMatchObject({ type: 'text/plain', size: LOG.length })
+    expect(fs.readdirSync(path.join(tmpHome, '.agent-messaging', 'agents', 'bob-id', 'attachments')))
+      .toEqual([first.digest, `${first.digest}.json`])
+    expect(readStoredAttachment('bob-id', first.digest)?.data.equals(LOG)).toBe(true)
+    expect(readStoredAttachment('bob-id', '../../etc/passwd')).toBeNull()
+  })
+
+  it('enforces size and count limits', () => {
+    expect(validateAttachmentUploads([{ name: 'big.bin', data: Buffer.alloc(MAX_ATTACHMENT_BYTES + 1) }]))
+      .toMatchObject({ status: 413 })
+    expect(validateAttachmentUploads([{ name: 'empty.txt', data: Buffer.alloc(0) }])).toMatchObject({ status: 400 })
+    expect(readAttachmentInput(Array.from({ length: 11 }, (_, i) => ({ name: `f${i}`, data: 'eA==' }))))
+      .toMatchObject({ status: 400 })
+  })
+
+  it('splits send input into new files and stored references', () => {
+    const ref = describeAttachment({ name: 'x.png', data: PNG })
+    const input = readAttachmentInput([
+      { name: '../../change.diff', data: DIFF.toString('base64') },
+      { name: ref.name, type: ref.type, digest: ref.digest },
+    ])
+
+    expect(input.error).toBeUndefined()
+    if (input.error === undefined) {
+      expect(input.uploads.map(u => u.name)).toEqual(['../../change.diff'])
+      expect(describeAttachment(input.uploads[0]).name).toBe('change.diff')
+      expect(input.attachments).toEqual([{ name: 'x.png', type: 'image/png', size: undefined, digest: ref.digest }])
+    }
+  })
+})
+
+describe('attachment transfer', () => {
+  it('only accepts bytes that match a referenced digest', () => {
+    const ref = describeAttachment({ name: 'change.diff', data: DIFF })
+    const encoded = encodeAttachmentData(new Map([[ref.digest!, DIFF]]))
+
+    const ok = decodeAttachmentData([ref], encoded)
+    expect(ok.error).toBeUndefined()
+
+    expect(decodeAttachmentData([ref], { [ref.digest!]: LOG.toString('base64') })).toMatchObject({ status: 400 })
+    expect(decodeAttachmentData([], encoded)).toMatchObject({ status: 400 })
+  })
+
+  it('delivers files into the recipient store and serves them from the message', async () => {
+    const image = describeAttachment({ name: 'screenshot.png', data: PNG })
+    const diff = describeAttachment({ name: 'fix.diff', data: DIFF })
+    const envelope: AMPEnvelope = {
+      version: 'amp/0.1',
+      id: 'msg_500_att',
+      from: 'alice@host-b.aimaestro.local',
+      to: 'bob@host-a.aimaestro.local',
+      subject: 'Review please',
+      priority: 'normal',
+      timestamp: '2026-01-01T10:00:00.000Z',
+      signature: '',
+      thread_id: 'msg_500_att',
+    }
+
+    const result = await deliver({
+      envelope,
+      payload: { type: 'request', message: 'See attached', attachments: [image, diff] },
+      attachmentFiles: new Map([[image.digest!, PNG], [diff.digest!, DIFF]]),
+      recipientAgentName: 'bob',
+      recipientAgentId: 'bob-id',
+      senderName: 'alice',
+      subject: envelope.subject,
+    })
+    expect(result.delivered).toBe(true)
+
+    const download = await getMessageAttachment('bob-id', 'msg_500_att', diff.digest!)
+    expect(download.status).toBe(200)
+    expect(download.data?.data.equals(DIFF)).toBe(true)
+    expect(download.headers).toMatchObject({
+      'Content-Type': 'text/x-diff; charset=utf-8',
+      'Content-Disposition': 'inline; filename="fix.diff"',
+      'X-Content-Type-Options': 'nosniff',
+    })
+
+    expect((await getMessageAttachment('bob-id', 'msg_500_att', 'a'.repeat(64))).status).toBe(404)
+  })
+
+  it('refuses downloads the scan hook flags', async () => {
+    setAttachmentScanner(async file => ({ clean: file.type !== 'image/png', reason: 'EICAR test' }))
+    const image = describeAttachment({ name: 'screenshot.png', data: PNG })
+
+    const blocked = await getMessageAttachment('bob-id', 'msg_500_att', image.digest!)
+    expect(blocked).toMatchObject({ status: 403, error: 'Attachment blocked by scanner: EICAR test' })
+  })
+})
@@ -0,0 +1,181 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+
+const { restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-message-groups-')
+})
+
+vi.mock('@/lib/agent-registry', async () =>
+  (await import('./test-utils/service-mocks')).createAgentRegistryStub([
+    { id: 'alice-id', name: 'alice' },
+    { id: 'bob-id', name: 'bob' },
+    // carol lives on a host this one has no config for, so her copy goes to the relay
+    { id: 'carol-id', name: 'carol', hostId: 'host-b' },
+    { id: 'dave-id', name: 'dave' },
+  ])
+)
+
+vi.mock('@/lib/notification-service', () => ({
+  notifyAgent: async () => ({ notified: false }),
+}))
+
+vi.mock('@/lib/amp-websocket', () => ({
+  isAgentConnectedViaWS: () => false,
+  deliverViaWebSocket: () => false,
+}))
+
+import { createApiKey } from '@/lib/amp-auth'
+import { createTeam, getTeamAddressName } from '@/lib/team-registry'
+import { updateAccessSettings } from '@/lib/access-control'
+import { getMessage } from '@/lib/messageQueue'
+import { getPendingMessages } from '@/lib/amp-relay'
+import { addHost, deleteHost } from '@/lib/hosts-config'
+import { clearHostsCache } from '@/lib/hosts-config-server.mjs'
+import { routeMessage, deliverFederated } from '@/services/amp-service'
+import type { AMPRouteRequest, AMPRouteResponse } from '@/lib/types/amp'
+
+const TENANT = 'default.aimaestro.local'
+let aliceKey: string
+let bobKey: string
+
+function send(apiKey: string, body: Partial<AMPRouteRequest>) {
+  return routeMessage(
+    { subject: 'Deploy window', payload: { type: 'notification', message: 'Deploying at 5pm' }, ...body } as AMPRouteRequest,
+    `Bearer ${apiKey}`, null, null, null, null
+  )
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  aliceKey = createApiKey('alice-id', 'default', `alice@${TENANT}`)
+  bobKey = createApiKey('bob-id', 'default', `bob@${TENANT}`)
+  createTeam({ name: 'Backend', agentIds: ['alice-id', 'bob-id', 'carol-id'] })
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+describe('team addresses', () => {
+  it('derives the address name from the team name', () => {
+    expect(getTeamAddressName({ id: 't1', name: 'Backend Crew!', agentIds: [], createdAt: '', updatedAt: '' })).toBe('team-backend-crew')
+  })
+
+  it('fans out to every member but the sender with per-member status', async () => {
+    const result = await send(aliceKey, { to: `team-backend@${TENANT}`, signature: 'c2lnbmF0dXJl' })
+    const data = result.data as AMPRouteResponse
+
+    expect(result.status).toBe(200)
+    expect(data.status).toBe('queued')
+    expect(data.recipients).toEqual([
+      { address: `bob@${TENANT}`, status: 'delivered', method: 'local' },
+      { address: `carol@${TENANT}`, status: 'queued', method: 'relay', remote_host: 'host-b' },
+    ])
+
+    // Each copy keeps the group address and the sender's signature
+    const bobCopy = await getMessage('bob-id', data.id)
+    expect(bobCopy).toMatchObject({ to: 'team-backend', from: 'alice', threadId: data.id.replace(/_/g, '-') })
+    const [carolCopy] = getPendingMessages('carol-id').messages
+    expect(carolCopy.envelope).toMatchObject({ id: data.id, to: `team-backend@${TENANT}`, signature: 'c2lnbmF0dXJl' })
+
+    expect(await getMessage('alice-id', data.id)).toBeNull()
+  })
+
+  it('files replies to the group under the group thread', async () => {
+    const original = (await send(aliceKey, { to: `team-backend@${TENANT}` })).data as AMPRouteResponse
+    const reply = (await send(bobKey, { to: `team-backend@${TENANT}`, subject: 'Re: Deploy window', in_reply_to: original.id })).data as AMPRouteResponse
+
+    expect(reply.recipients?.map(r => r.address)).toEqual([`alice@${TENANT}`, `carol@${TENANT}`])
+    expect(await getMessage('alice-id', reply.id)).toMatchObject({ threadId: original.id.replace(/_/g, '-') })
+  })
+
+  it('routes names that match no team as agent names', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+    const result = await send(aliceKey, { to: `team-nobody@${TENANT}` })
+    expect(result.status).toBe(404)
+  })
+})
+
+describe('broadcast', () => {
+  it('is restricted to admin agents', async () => {
+    const denied = await send(bobKey, { to: `*@${TENANT}` })
+    expect(denied).toMatchObject({ status: 403, data: { error: 'forbidden' } })
+
+    updateAccessSettings({ adminAgents: ['alice-id'] })
+    const result = await send(aliceKey, { to: `*@${TENANT}` })
+    expect((result.data as AMPRouteResponse).recipients?.map(r => [r.address, r.status])).toEqual([
+      [`bob@${TENANT}`, 'delivered'],
+      [`dave@${TENANT}`, 'delivered'],
+      [`carol@${TENANT}`, 'queued'],
+    ])
+  })
+})
+
+describe('federation', () => {
+  it('fans group envelopes out to local members and refuses broadcasts', async () => {
+    const envelope = {
+      version: 'amp/0.1',
+      id: 'msg_700_fed',
+      from: 'erin@partner.example.com',
+      to: `team-backend@${TENANT}`,
+      subject: 'Incident',
+      priority: 'high' as const,
+      timestamp: new Date().toISOString(),
+      signature: '',
+      thread_id: 'msg_700_fed',
+    }
+    const payload = { type: 'alert' as const, message: 'API is down' }
+
+    const result = await deliverFederated('partner.example.com', { envelope, payload })
+    expect(result.data.recipients.map((r: { address: string; status: string }) => [r.address, r.status])).toEqual([
+      [`alice@${TENANT}`, 'delivered'],
+      [`bob@${TENANT}`, 'delivered'],
+      [`carol@${TENANT}`, 'queued'],
+    ])
+    expect(await getMessage('bob-id', 'msg-700-fed')).toMatchObject({ to: 'team-backend', subject: 'Incident' })
+
+    const broadcast = await deliverFederated('partner.example.com', {
+      envelope: { ...envelope, id: 'msg_701_fed', to: `*@${TENANT}` },
+      payload,
+    })
+    expect(broadcast).toMatchObject({ status: 403, data: { error: 'forbidden' } })
+  })
+})
+
+describe('mesh forwarding', () => {
+  let forwarded: Array<Record<string, unknown>>
+
+  beforeEach(() => {
+    forwarded = []
+    addHost({ id: 'host-b', name: 'Host B', url: 'http://host-b.test:23000' })
+    // The service reads hosts through the server module, which caches separately
+    clearHostsCache()
+    vi.stubGlobal('fetch', vi.fn(async (_url: string, init: { body: string }) => {
+      forwarded.push(JSON.parse(init.body))
+      return { ok: true, json: async () => ({ id: 'remote', status: 'delivered' }) }
+    }))
+  })
+
+  afterEach(() => {
+    vi.unstubAllGlobals()
+    deleteHost('host-b')
+    clearHostsCache()
+  })
+
+  it('names group members only when it forwards a group', async () => {
+    await send(aliceKey, { to: 'carol@host-b.aimaestro.local', group_recipients: ['bob', 'dave'] })
+    await send(aliceKey, { to: `team-backend@${TENANT}`, group_recipients: ['bob', 'dave'] })
+
+    expect(forwarded).toHaveLength(2)
+    expect(forwarded[0]).toMatchObject({ to: 'carol' })
+    expect(forwarded[0]).not.toHaveProperty('group_recipients')
+    expect(forwarded[1]).toMatchObject({ group_recipients: ['carol'] })
+  })
+})
@@ -0,0 +1,155 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-message-scheduling-')
+})
+
+vi.mock('@/lib/agent-registry', async () =>
+  (await import('./test-utils/service-mocks')).createAgentRegistryStub([
+    { id: 'alice-id', name: 'alice' },
+    { id: 'bob-id', name: 'bob' },
+  ])
+)
+
+vi.mock('@/lib/notification-service', () => ({
+  notifyAgent: async () => ({ notified: false }),
+}))
+
+vi.mock('@/lib/amp-websocket', () => ({
+  isAgentConnectedViaWS: () => false,
+  deliverViaWebSocket: () => false,
+}))
+
+import fs from 'fs'
+import { writeToAMPInbox } from '@/lib/amp-inbox-writer'
+import { listInboxMessages, getUnreadCount, getMessage } from '@/lib/messageQueue'
+import { deliver } from '@/lib/message-delivery'
+import { sendFromUI } from '@/lib/message-send'
+import { parseSendAt, scheduleMessage, listScheduledMessages, getScheduledMessage, cancelScheduledMessage } from '@/lib/message-scheduler'
+import { runMessageScheduler } from '@/services/amp-service'
+import type { AMPEnvelope } from '@/lib/types/amp'
+
+const HOUR = 60 * 60 * 1000
+const inHours = (hours: number) => new Date(Date.now() + hours * HOUR).toISOString()
+
+function envelope(id: string, extra: Partial<AMPEnvelope> = {}): AMPEnvelope {
+  return {
+    version: 'amp/0.1',
+    id,
+    from: 'carol@host-b.aimaestro.local',
+    to: 'bob@host-a.aimaestro.local',
+    subject: 'Deploy now',
+    priority: 'urgent',
+    timestamp: new Date().toISOString(),
+    signature: '',
+    thread_id: id,
+    ...extra,
+  }
+}
+
+beforeAll(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+describe('expires_at', () => {
+  it('auto-archives expired inbox messages on read', async () => {
+    const payload = { type: 'request' as const, message: 'Ship it' }
+    await writeToAMPInbox(envelope('msg_100_old', { expires_at: inHours(-1) }), payload, 'bob', undefined, 'bob-id')
+    await writeToAMPInbox(envelope('msg_200_new', { expires_at: inHours(1) }), payload, 'bob', undefined, 'bob-id')
+
+    expect(await getUnreadCount('bob-id')).toBe(1)
+
+    const inbox = await listInboxMessages('bob-id')
+    expect(inbox.find(m => m.id === 'msg-100-old')).toMatchObject({ status: 'archived' })
+    expect(inbox.find(m => m.id === 'msg-200-new')).toMatchObject({ status: 'unread' })
+
+    // Persisted, not just hidden
+    const stored = JSON.parse(fs.readFileSync(`${tmpHome}/.agent-messaging/agents/bob-id/messages/inbox/carol_host-b_aimaestro_local/msg_100_old.json`, 'utf-8'))
+    expect(stored.metadata.status).toBe('archived')
+    expect((await getMessage('bob-id', 'msg-100-old'))?.status).toBe('archived')
+  })
+
+  it('refuses to deliver expired messages', async () => {
+    const result = await deliver({
+      envelope: envelope('msg_300_late', { expires_at: inHours(-1) }),
+      payload: { type: 'request', message: 'Too late' },
+      recipientAgentName: 'bob',
+      recipientAgentId: 'bob-id',
+      senderName: 'carol',
+      subject: 'Deploy now',
+    })
+
+    expect(result).toMatchObject({ delivered: false, error: 'Message expired' })
+    expect(await getMessage('bob-id', 'msg-300-late')).toBeNull()
+  })
+})
+
+describe('parseSendAt', () => {
+  it('validates and normalizes send times', () => {
+    expect(parseSendAt(undefined)).toEqual({ sendAt: null })
+    expect(parseSendAt(inHours(-1))).toEqual({ sendAt: null })
+    expect(parseSendAt('tomorrow')).toMatchObject({ error: expect.stringContaining('ISO 8601') })
+    expect(parseSendAt(inHours(24 * 400))).toMatchObject({ error: expect.stringContaining('days ahead') })
+    expect(parseSendAt(inHours(2), inHours(1))).toMatchObject({ error: 'send_at must be before expires_at' })
+
+    const sendAt = inHours(2)
+    expect(parseSendAt(sendAt)).toEqual({ sendAt })
+  })
+})
+
+describe('scheduled sends', () => {
+  it('holds a UI message until send_at, then delivers it with the same ID', async () => {
+    const sendAt = inHours(2)
+    const result = await sendFromUI({
+      from: 'alice-id',
+      to: 'bob',
+      subject: 'Start the nightly migration',
+      content: { type: 'request', message: 'Run migrate.sh' },
+      sendAt,
+    })
+
+    expect(result.scheduledFor).toBe(sendAt)
+    expect(listScheduledMessages('alice-id').map(j => [j.id, j.kind, j.status])).toEqual([[result.message.id, 'ui', 'scheduled']])
+    expect(await getMessage('bob-id', result.message.id)).toBeNull()
+
+    expect(await runMessageScheduler()).toBe(0)
+    expect(await runMessageScheduler(new Date(Date.parse(sendAt) + 1000))).toBe(1)
+
+    const delivered = await getMessage('bob-id', result.message.id)
+    expect(delivered).toMatchObject({ subject: 'Start the nightly migration', status: 'unread' })
+    expect(getScheduledMessage(result.message.id)).toBeNull()
+  })
+
+  it('marks messages that expire while waiting as failed', async () => {
+    scheduleMessage({
+      id: 'msg-400-stale',
+      kind: 'ui',
+      senderAgentId: 'alice-id',
+      to: 'bob',
+      subject: 'Stale',
+      sendAt: inHours(-2),
+      expiresAt: inHours(-1),
+      request: { from: 'alice-id', to: 'bob', subject: 'Stale', content: { type: 'request', message: 'x' } },
+    })
+
+    expect(await runMessageScheduler()).toBe(0)
+    expect(getScheduledMessage('msg-400-stale')).toMatchObject({ status: 'failed', attempts: 1 })
+    expect(await getMessage('bob-id', 'msg-400-stale')).toBeNull()
+
+    expect(cancelScheduledMessage('msg-400-stale', 'bob-id')).toBe(false)
+    expect(cancelScheduledMessage('msg-400-stale', 'alice-id')).toBe(true)
+    expect(listScheduledMessages()).toEqual([])
+  })
+})
@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeAll, afterAll, beforeEach, afterEach } from 'vitest'
+
+const { restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-message-threads-')
+})
+
+vi.mock('@/lib/agent-registry', async () =>
+  (await import('./test-utils/service-mocks')).createAgentRegistryStub([
+    { id: 'alice-id', name: 'alice' },
+  ])
+)
+
+import { writeToAMPInbox, writeToAMPSent } from '@/lib/amp-inbox-writer'
+import { listMessageThreads, getMessageThread, resolveReplyThreadId, markMessageAsRead } from '@/lib/messageQueue'
+import type { AMPEnvelope } from '@/lib/types/amp'
+
+const ALICE = 'alice@host-a.aimaestro.local'
+const BOB = 'bob@host-b.aimaestro.local'
+const CAROL = 'carol@host-a.aimaestro.local'
+
+function envelope(id: string, from: string, to: string, subject: string, timestamp: string, extra: Partial<AMPEnvelope> = {}): AMPEnvelope {
+  return { version: 'amp/0.1', id, from, to, subject, priority: 'normal', timestamp, signature: '', thread_id: '', ...extra }
+}
+
+const payload = (message: string) => ({ type: 'request' as const, message })
+
+beforeAll(async () => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+
+  // bob opens a thread, alice replies (stored in her sent folder), bob answers the reply
+  await writeToAMPInbox(envelope('msg_100_a', BOB, ALICE, 'Deploy plan', '2026-01-01T10:00:00.000Z'), payload('Can we deploy today?'), 'alice', undefined, 'alice-id')
+  await writeToAMPSent(envelope('msg_200_b', ALICE, BOB, 'Re: Deploy plan', '2026-01-01T11:00:00.000Z', { in_reply_to: 'msg-100-a', thread_id: 'msg_100_a' }), payload('After lunch'), 'alice', 'alice-id')
+  await writeToAMPInbox(envelope('msg_300_c', BOB, ALICE, 'Re: Deploy plan', '2026-01-01T12:00:00.000Z', { in_reply_to: 'msg_200_b', thread_id: 'msg_100_a' }), payload('Works for me'), 'alice', undefined, 'alice-id')
+
+  // An unrelated conversation from carol, already read
+  await writeToAMPInbox(envelope('msg_150_d', CAROL, ALICE, 'Lunch', '2026-01-01T10:30:00.000Z'), payload('Pizza?'), 'alice', undefined, 'alice-id')
+  await markMessageAsRead('alice-id', 'msg-150-d')
+})
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+describe('listMessageThreads', () => {
+  it('groups inbox and sent messages by thread, newest activity first', async () => {
+    const threads = await listMessageThreads('alice-id')
+
+    expect(threads.map(t => t.threadId)).toEqual(['msg-100-a', 'msg-150-d'])
+    expect(threads[0]).toMatchObject({
+      subject: 'Deploy plan',
+      participants: ['bob', 'alice'],
+      messageCount: 3,
+      unreadCount: 2,
+      lastMessage: { id: 'msg-300-c', box: 'inbox', preview: 'Works for me' },
+    })
+    expect(threads[1]).toMatchObject({ participants: ['carol', 'alice'], messageCount: 1, unreadCount: 0 })
+  })
+
+  it('applies the limit after sorting', async () => {
+    const threads = await listMessageThreads('alice-id', { limit: 1 })
+    expect(threads.map(t => t.threadId)).toEqual(['msg-100-a'])
+  })
+
+  it('returns nothing for unknown agents', async () => {
+    expect(await listMessageThreads('nobody')).toEqual([])
+  })
+})
+
+describe('getMessageThread', () => {
+  it('merges inbox and sent items oldest first', async () => {
+    const thread = await getMessageThread('alice-id', 'msg_100_a')
+
+    expect(thread?.subject).toBe('Deploy plan')
+    expect(thread?.messages.map(m => [m.id, m.box, m.content.message])).toEqual([
+      ['msg-100-a', 'inbox', 'Can we deploy today?'],
+      ['msg-200-b', 'sent', 'After lunch'],
+      ['msg-300-c', 'inbox', 'Works for me'],
+    ])
+    expect(thread?.messages[2].inReplyTo).toBe('msg-200-b')
+  })
+
+  it('returns null for a thread the agent is not part of', async () => {
+    expect(await getMessageThread('alice-id', 'msg-999-z')).toBeNull()
+  })
+})
+
+describe('resolveReplyThreadId', () => {
+  it('answers to a reply stay in the root thread', async () => {
+    expect(await resolveReplyThreadId('alice-id', 'msg-300-c')).toBe('msg-100-a')
+    expect(await resolveReplyThreadId('alice-id', 'msg_200_b')).toBe('msg-100-a')
+  })
+
+  it('falls back to the replied-to ID for messages stored elsewhere', async () => {
+    expect(await resolveReplyThreadId('alice-id', 'msg_999_z')).toBe('msg-999-z')
+  })
+})
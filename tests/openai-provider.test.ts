@@ -0,0 +1,103 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import { OpenAICompatibleProvider } from '@/lib/memory/openai-provider'
+
+const fetchMock = vi.fn()
+
+function respondWithContent(content: unknown) {
+  fetchMock.mockResolvedValueOnce({
+    ok: true,
+    status: 200,
+    json: async () => ({
+      model: 'qwen2.5-7b',
+      choices: [{ message: { content: JSON.stringify(content) } }],
+      usage: { total_tokens: 321 },
+    }),
+  })
+}
+
+beforeEach(() => {
+  fetchMock.mockReset()
+  vi.stubGlobal('fetch', fetchMock)
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('OpenAICompatibleProvider', () => {
+  it('sends a JSON-schema constrained chat completion with the configured auth header', async () => {
+    const provider = new OpenAICompatibleProvider({
+      baseUrl: 'http://gpu-box:8000/v1/',
+      model: 'qwen2.5-7b',
+      authHeader: 'X-API-Key',
+      apiKey: 'secret',
+    })
+    respondWithContent({ memories: [], conversation_summary: '' })
+
+    await provider.extractMemories('[USER]: hello')
+
+    const [url, init] = fetchMock.mock.calls[0]
+    expect(url).toBe('http://gpu-box:8000/v1/chat/completions')
+    expect(init.headers['X-API-Key']).toBe('secret')
+    const body = JSON.parse(init.body)
+    expect(body.model).toBe('qwen2.5-7b')
+    expect(body.response_format.type).toBe('json_schema')
+    expect(body.response_format.json_schema.schema.required).toContain('memories')
+  })
+
+  it('uses a Bearer token on the Authorization header', async () => {
+    const provider = new OpenAICompatibleProvider({ apiKey: 'sk-test' })
+    fetchMock.mockResolvedValueOnce({ ok: true, status: 200, json: async () => ({ data: [{ id: 'default' }] }) })
+
+    expect(await provider.isAvailable()).toBe(true)
+    expect(fetchMock.mock.calls[0][0]).toBe('http://localhost:8000/v1/models')
+    expect(fetchMock.mock.calls[0][1].headers.Authorization).toBe('Bearer sk-test')
+  })
+
+  it('filters extracted memories by category, confidence and limit', async () => {
+    const provider = new OpenAICompatibleProvider()
+    respondWithContent({
+      memories: [
+        { category: 'fact', content: 'DB on 5432', context: '', confidence: 0.9 },
+        { category: 'decision', content: 'Use vitest', context: '', confidence: 0.95 },
+        { category: 'gossip', content: 'nope', context: '', confidence: 0.99 },
+        { category: 'fact', content: 'maybe', context: '', confidence: 0.4 },
+      ],
+      conversation_summary: 'setup',
+    })
+
+    const result = await provider.extractMemories('text', { minConfidence: 0.7, maxMemories: 1 })
+
+    expect(result.memories.map(m => m.content)).toEqual(['Use vitest'])
+    expect(result.extraction_metadata).toMatchObject({ model: 'qwen2.5-7b', tokens_used: 321 })
+  })
+
+  it('maps relationship indexes back to memory ids', async () => {
+    const provider = new OpenAICompatibleProvider()
+    respondWithContent({
+      relationships: [
+        { index: 1, relationship: 'contradicts', confidence: 0.9 },
+        { index: 0, relationship: 'supports', confidence: 0.5 },
+        { index: 7, relationship: 'supports', confidence: 0.9 },
+      ],
+    })
+
+    const relationships = await provider.findRelationships(
+      { category: 'fact', content: 'DB on 6543', confidence: 0.9 },
+      [
+        { memory_id: 'mem-a', content: 'Use Postgres', category: 'decision' },
+        { memory_id: 'mem-b', content: 'DB on 5432', category: 'fact' },
+      ]
+    )
+
+    expect(relationships).toEqual([{ memory_id: 'mem-b', relationship: 'contradicts', confidence: 0.9 }])
+  })
+
+  it('reports unavailable when the server is down', async () => {
+    fetchMock.mockRejectedValueOnce(new Error('ECONNREFUSED'))
+    expect(await new OpenAICompatibleProvider().isAvailable()).toBe(false)
+  })
+})
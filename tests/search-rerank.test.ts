@@ -0,0 +1,144 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+
+// ============================================================================
+// In-memory message store behind the CozoDB helpers
+// ============================================================================
+
+const { store } = vi.hoisted(() => ({
+  store: {
+    messages: [] as Array<{ msg_id: string; conversation_file: string; role: string; ts: number; text: string; terms: string[]; vec: number[] }>,
+  },
+}))
+
+vi.mock('@/lib/cozo-schema-rag', () => ({
+  searchMessagesByTerm: async (_db: unknown, term: string) =>
+    store.messages.filter(m => m.terms.includes(term)).map(m => ({ msg_id: m.msg_id })),
+  searchMessagesBySymbol: async () => [],
+  getMessageVectors: async () => store.messages.map(m => ({ msg_id: m.msg_id, vec: m.vec })),
+  // CozoDB returns rows sorted by key, not in the requested order
+  getMessagesByIds: async (_db: unknown, ids: string[]) =>
+    store.messages.filter(m => ids.includes(m.msg_id)).sort((a, b) => a.msg_id.localeCompare(b.msg_id)),
+}))
+
+vi.mock('@/lib/rag/embeddings', () => ({
+  embedTexts: async () => [Float32Array.from([1, 0])],
+  bufferToVector: (vec: number[]) => Float32Array.from(vec),
+  cosine: (a: Float32Array, b: Float32Array) => a[0] * b[0] + a[1] * b[1],
+}))
+
+vi.mock('@/lib/rag/vector-models', () => ({
+  isVectorRelationCurrent: async () => true,
+}))
+
+vi.mock('@/lib/agent', () => ({
+  agentRegistry: { getAgent: async () => ({ getDatabase: async () => ({}) }) },
+}))
+
+import { hybridSearch } from '@/lib/rag/search'
+import { searchConversations } from '@/services/agents-memory-service'
+import { Bm25Reranker, extractQuerySymbols, tokenizeForRanking } from '@/lib/rag/rerank'
+import type { AgentDatabase } from '@/lib/cozo-db'
+
+const agentDb = {} as AgentDatabase
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  // searchConversations kicks off delta indexing over HTTP
+  vi.stubGlobal('fetch', vi.fn(async () => ({ ok: false, status: 503 })))
+  store.messages = [
+    { msg_id: 'm3', conversation_file: 'c1.jsonl', role: 'assistant', ts: 1, text: 'The user lookup is slow today', terms: ['user', 'lookup'], vec: [0.9, 0.1] },
+    { msg_id: 'm2', conversation_file: 'c1.jsonl', role: 'assistant', ts: 2, text: 'Fixed getUserById to cache the user row', terms: ['getuserbyid', 'user'], vec: [0.2, 0.8] },
+    { msg_id: 'm1', conversation_file: 'c1.jsonl', role: 'user', ts: 3, text: 'Unrelated deployment notes', terms: ['deployment'], vec: [0.5, 0.5] },
+  ]
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+  vi.unstubAllGlobals()
+})
+
+describe('query symbols and tokens', () => {
+  it('treats camelCase, snake_case, paths and calls as symbols', () => {
+    expect(extractQuerySymbols('why is getUserById slow in user_repo or fs.readFile and init()?')).toEqual([
+      'getUserById', 'user_repo', 'fs.readFile', 'init',
+    ])
+    expect(extractQuerySymbols('plain words Only')).toEqual([])
+  })
+
+  it('splits identifiers into their parts', () => {
+    expect(tokenizeForRanking('getUserById HTTPServer')).toEqual(['getuserbyid', 'get', 'user', 'by', 'id', 'httpserver', 'http', 'server'])
+  })
+})
+
+describe('Bm25Reranker', () => {
+  it('ranks exact symbol matches above prose that only shares words', async () => {
+    const results = await new Bm25Reranker().rerank('getUserById user', [
+      { id: 'prose', text: 'the user asked about the user page' },
+      { id: 'code', text: 'changed getUserById(id) in the repo' },
+      { id: 'none', text: 'deployment notes' },
+    ])
+    const byId = Object.fromEntries(results.map(r => [r.id, r]))
+
+    expect(byId.code.matched_symbols).toEqual(['getUserById'])
+    expect(byId.code.score).toBeGreaterThan(byId.prose.score)
+    expect(byId.none.score).toBe(0)
+  })
+})
+
+describe('hybridSearch', () => {
+  it('orders results by fused score and explains each one', async () => {
+    const results = await hybridSearch(agentDb, 'user lookup', { explain: true })
+
+    expect(results.map(r => r.msg_id)).toEqual(['m3', 'm2', 'm1'])
+    expect(results[0].explain).toMatchObject({
+      lexical_score: 1,
+      lexical_rank: 1,
+      vector_rank: 1,
+      fused_rank: 1,
+      fusion: 'rrf',
+      matched_terms: ['user', 'lookup'],
+      reranker: 'none',
+      rerank_score: null,
+      final_rank: 1,
+    })
+    expect(results[0].explain!.vector_score).toBeCloseTo(0.9)
+    expect(results[2].explain).toMatchObject({ lexical_score: 0, lexical_rank: null, matched_terms: [] })
+  })
+
+  it('lets the BM25 reranker promote code identifier matches', async () => {
+    const results = await hybridSearch(agentDb, 'getUserById', { rerank: 'bm25', explain: true })
+
+    expect(results[0].msg_id).toBe('m2')
+    expect(results[0].explain).toMatchObject({ reranker: 'bm25', matched_symbols: ['getUserById'] })
+    expect(results[0].explain!.rerank_score).toBeGreaterThan(results[1].explain!.rerank_score!)
+  })
+
+  it('leaves results unexplained by default', async () => {
+    const results = await hybridSearch(agentDb, 'user')
+    expect(results.every(r => r.explain === undefined)).toBe(true)
+  })
+})
+
+describe('searchConversations', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  it('keeps the default rerank depth when none is given', async () => {
+    const result = await searchConversations('agent-1', { query: 'getUserById', rerank: 'bm25', rerankDepth: undefined })
+
+    expect(result.status).toBe(200)
+    expect(result.data.results.map((r: { msg_id: string }) => r.msg_id)[0]).toBe('m2')
+  })
+
+  it('rejects a limit or rerank depth that is not a positive integer', async () => {
+    for (const value of [NaN, 0, -3, 2.5]) {
+      expect(await searchConversations('agent-1', { query: 'user', limit: value })).toEqual({
+        error: 'limit must be a positive integer', status: 400,
+      })
+      expect(await searchConversations('agent-1', { query: 'user', rerank: 'bm25', rerankDepth: value })).toEqual({
+        error: 'rerankDepth must be a positive integer', status: 400,
+      })
+    }
+  })
+})
@@ -78,6 +78,8 @@ const {
 
 vi.mock('@/lib/agent-runtime', () => ({
   getRuntime: vi.fn().mockReturnValue(mockRuntime),
+  getRuntimeForAgent: vi.fn().mockReturnValue(mockRuntime),
+  getRuntimesForAgents: vi.fn().mockReturnValue([mockRuntime]),
 }))
 vi.mock('@/lib/agent-registry', () => mockAgentRegistry)
 vi.mock('@/lib/hosts-config', () => mockHostsConfig)
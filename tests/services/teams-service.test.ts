@@ -13,7 +13,7 @@ import { makeTeam, makeTask, makeDocument, makeAgent, resetFixtureCounter } from
 // Mocks — vi.hoisted() ensures these are available when vi.mock() runs
 // ============================================================================
 
-const { mockTeams, mockTasks, mockDocs, mockAgentRegistry, mockNotificationService } = vi.hoisted(() => ({
+const { mockTeams, mockTasks, mockTaskActivity, mockDocs, mockAgentRegistry, mockNotificationService, mockMessageSend } = vi.hoisted(() => ({
   mockTeams: {
     loadTeams: vi.fn(),
     createTeam: vi.fn(),
@@ -25,10 +25,22 @@ const { mockTeams, mockTasks, mockDocs, mockAgentRegistry, mockNotificationServi
     loadTasks: vi.fn(),
     resolveTaskDeps: vi.fn(),
     createTask: vi.fn(),
+    importTasks: vi.fn(),
     getTask: vi.fn(),
     updateTask: vi.fn(),
     deleteTask: vi.fn(),
     wouldCreateCycle: vi.fn(),
+    materializeDueTasks: vi.fn(),
+  },
+  mockTaskActivity: {
+    getTaskActivity: vi.fn(),
+    getTaskCommentThreads: vi.fn(),
+    addTaskComment: vi.fn(),
+    listTaskAttachments: vi.fn(),
+    addTaskAttachment: vi.fn(),
+    readTaskAttachment: vi.fn(),
+    MAX_COMMENT_LENGTH: 10_000,
+    MAX_ATTACHMENT_BYTES: 1024,
   },
   mockDocs: {
     loadDocuments: vi.fn(),
@@ -39,17 +51,26 @@ const { mockTeams, mockTasks, mockDocs, mockAgentRegistry, mockNotificationServi
   },
   mockAgentRegistry: {
     getAgent: vi.fn(),
+    getAgentByNameAnyHost: vi.fn(),
   },
   mockNotificationService: {
     notifyAgent: vi.fn(),
   },
+  mockMessageSend: {
+    sendFromUI: vi.fn(),
+  },
 }))
 
 vi.mock('@/lib/team-registry', () => mockTeams)
 vi.mock('@/lib/task-registry', () => mockTasks)
+vi.mock('@/lib/task-activity', () => mockTaskActivity)
 vi.mock('@/lib/document-registry', () => mockDocs)
 vi.mock('@/lib/agent-registry', () => mockAgentRegistry)
 vi.mock('@/lib/notification-service', () => mockNotificationService)
+vi.mock('@/lib/message-send', () => mockMessageSend)
+vi.mock('@/lib/hosts-config', () => ({
+  getSelfHost: () => ({ id: 'host-1', name: 'host-1', url: 'http://localhost:23000' }),
+}))
 
 // ============================================================================
 // Import module under test (after mocks)
@@ -63,6 +84,7 @@ import {
   deleteTeamById,
   listTeamTasks,
   createTeamTask,
+  getTeamTask,
   updateTeamTask,
   deleteTeamTask,
   listTeamDocuments,
@@ -71,6 +93,14 @@ import {
   updateTeamDocument,
   deleteTeamDocument,
   notifyTeamAgents,
+  runTaskScheduler,
+  listTaskActivity,
+  listTaskComments,
+  addTaskCommentToTask,
+  uploadTaskAttachment,
+  getTaskAttachmentFile,
+  importTeamPlan,
+  exportTeamPlan,
 } from '@/services/teams-service'
 
 // ============================================================================
@@ -237,6 +267,13 @@ describe('updateTeamById', () => {
     })
   })
 
+  it('rejects unknown memory sharing categories', () => {
+    const result = updateTeamById('team-1', { memorySharing: ['fact', 'gossip'] as any })
+
+    expect(result.status).toBe(400)
+    expect(mockTeams.updateTeam).not.toHaveBeenCalled()
+  })
+
   it('returns 404 when team not found', () => {
     mockTeams.updateTeam.mockReturnValue(null)
 
@@ -356,7 +393,7 @@ describe('createTeamTask', () => {
       assigneeAgentId: 'a1',
       blockedBy: ['t1'],
       priority: 1,
-    })
+    }, { type: 'user' })
   })
 
   it('trims subject whitespace', () => {
@@ -366,7 +403,8 @@ describe('createTeamTask', () => {
     createTeamTask('team-1', { subject: '  Build API  ' })
 
     expect(mockTasks.createTask).toHaveBeenCalledWith(
-      expect.objectContaining({ subject: 'Build API' })
+      expect.objectContaining({ subject: 'Build API' }),
+      { type: 'user' }
     )
   })
 
@@ -876,3 +914,300 @@ describe('notifyTeamAgents', () => {
     )
   })
 })
+
+// ============================================================================
+// Task schedules and assignment notifications
+// ============================================================================
+
+describe('task schedules', () => {
+  it('rejects invalid dueAt and recurrence specs', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam())
+    mockTasks.getTask.mockReturnValue(makeTask({ id: 't1' }))
+
+    expect(createTeamTask('team-1', { subject: 'X', dueAt: 'next week' }).status).toBe(400)
+    expect(createTeamTask('team-1', { subject: 'X', recurrence: { cron: 'every monday' } }).error).toMatch(/cron/)
+    expect(updateTeamTask('team-1', 't1', { recurrence: { intervalMinutes: -5 } }).status).toBe(400)
+    expect(mockTasks.createTask).not.toHaveBeenCalled()
+    expect(mockTasks.updateTask).not.toHaveBeenCalled()
+  })
+
+  it('notifies the assignee of a new task', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ name: 'Alpha' }))
+    mockTasks.createTask.mockReturnValue(makeTask({ subject: 'Audit deps', assigneeAgentId: 'a1' }))
+    mockAgentRegistry.getAgent.mockReturnValue(makeAgent({ id: 'a1', name: 'backend' }))
+    mockNotificationService.notifyAgent.mockResolvedValue({ success: true, notified: true })
+
+    createTeamTask('team-1', { subject: 'Audit deps', assigneeAgentId: 'a1' })
+
+    expect(mockNotificationService.notifyAgent).toHaveBeenCalledWith(
+      expect.objectContaining({ agentId: 'a1', subject: '[Alpha] Task assigned: Audit deps' })
+    )
+  })
+
+  it('notifies only when an update changes the assignee', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ name: 'Alpha' }))
+    mockTasks.getTask.mockReturnValue(makeTask({ id: 't1', assigneeAgentId: 'a1' }))
+    mockAgentRegistry.getAgent.mockReturnValue(makeAgent({ id: 'a2', name: 'frontend' }))
+    mockNotificationService.notifyAgent.mockResolvedValue({ success: true, notified: true })
+
+    mockTasks.updateTask.mockReturnValue({ task: makeTask({ id: 't1', assigneeAgentId: 'a1' }), unblocked: [] })
+    updateTeamTask('team-1', 't1', { subject: 'Renamed' })
+    expect(mockNotificationService.notifyAgent).not.toHaveBeenCalled()
+
+    mockTasks.updateTask.mockReturnValue({ task: makeTask({ id: 't1', assigneeAgentId: 'a2' }), unblocked: [] })
+    updateTeamTask('team-1', 't1', { assigneeAgentId: 'a2' })
+    expect(mockNotificationService.notifyAgent).toHaveBeenCalledWith(expect.objectContaining({ agentId: 'a2' }))
+  })
+
+  it('runTaskScheduler materializes due instances for every team and notifies assignees', () => {
+    const now = new Date('2026-03-01T09:00:00.000Z')
+    mockTeams.loadTeams.mockReturnValue([makeTeam({ id: 'team-1', name: 'Alpha' }), makeTeam({ id: 'team-2' })])
+    mockTasks.materializeDueTasks
+      .mockReturnValueOnce([makeTask({ subject: 'Weekly audit', assigneeAgentId: 'a1', templateId: 'tpl-1' })])
+      .mockReturnValueOnce([])
+    mockAgentRegistry.getAgent.mockReturnValue(makeAgent({ id: 'a1', name: 'backend' }))
+    mockNotificationService.notifyAgent.mockResolvedValue({ success: true, notified: true })
+
+    const created = runTaskScheduler(now)
+
+    expect(created).toHaveLength(1)
+    expect(mockTasks.materializeDueTasks).toHaveBeenCalledWith('team-1', now)
+    expect(mockTasks.materializeDueTasks).toHaveBeenCalledWith('team-2', now)
+    expect(mockNotificationService.notifyAgent).toHaveBeenCalledWith(
+      expect.objectContaining({ agentId: 'a1', subject: '[Alpha] Task assigned: Weekly audit' })
+    )
+  })
+})
+
+// ============================================================================
+// getTeamTask
+// ============================================================================
+
+describe('getTeamTask', () => {
+  it('returns the task with resolved dependencies', () => {
+    const task = makeTask({ id: 't1' })
+    mockTeams.getTeam.mockReturnValue(makeTeam())
+    mockTasks.loadTasks.mockReturnValue([task])
+    mockTasks.resolveTaskDeps.mockReturnValue([{ ...task, blocks: [], isBlocked: false }])
+
+    const result = getTeamTask('team-1', 't1')
+
+    expect(result.status).toBe(200)
+    expect(result.data?.task).toMatchObject({ id: 't1', isBlocked: false })
+  })
+
+  it('returns 404 for unknown tasks', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam())
+    mockTasks.loadTasks.mockReturnValue([])
+    mockTasks.resolveTaskDeps.mockReturnValue([])
+
+    expect(getTeamTask('team-1', 'nope').status).toBe(404)
+  })
+})
+
+// ============================================================================
+// Autopilot
+// ============================================================================
+
+describe('team autopilot', () => {
+  const upstream = makeTask({ id: 'up-1', subject: 'Design schema', status: 'completed' })
+  const ready = makeTask({ id: 'down-1', subject: 'Write migrations', description: 'Use the schema', assigneeAgentId: 'a1', blockedBy: ['up-1'] })
+  const unassigned = makeTask({ id: 'down-2', blockedBy: ['up-1'] })
+
+  function completeUpstream(autopilot: boolean) {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1', name: 'Alpha', autopilot }))
+    mockTasks.getTask.mockImplementation((_teamId: string, taskId: string) => (taskId === 'up-1' ? upstream : ready))
+    mockTasks.updateTask.mockImplementation((_teamId: string, taskId: string, updates: any) => (
+      taskId === 'up-1'
+        ? { task: upstream, unblocked: [ready, unassigned] }
+        : { task: { ...ready, ...updates }, unblocked: [] }
+    ))
+    mockMessageSend.sendFromUI.mockResolvedValue({ message: {}, notified: true })
+
+    return updateTeamTask('team-1', 'up-1', { status: 'completed' })
+  }
+
+  it('starts unblocked assigned tasks and messages their agents', () => {
+    const result = completeUpstream(true)
+
+    expect(mockTasks.updateTask).toHaveBeenCalledWith('team-1', 'down-1', { status: 'in_progress' }, { type: 'system', name: 'Autopilot' })
+    expect(mockTasks.updateTask).not.toHaveBeenCalledWith('team-1', 'down-2', expect.anything())
+    expect(result.data?.dispatched?.map((t: any) => t.id)).toEqual(['down-1'])
+    expect(result.data?.unblocked?.find((t: any) => t.id === 'down-1').status).toBe('in_progress')
+
+    const message = mockMessageSend.sendFromUI.mock.calls[0][0]
+    expect(message).toMatchObject({ from: 'maestro', to: 'a1', subject: '[Alpha] Task ready: Write migrations' })
+    expect(message.content.message).toContain('Use the schema')
+    expect(message.content.message).toContain('http://localhost:23000/api/teams/team-1/tasks/up-1')
+    expect(message.content.context.upstream).toEqual([
+      expect.objectContaining({ id: 'up-1', subject: 'Design schema' }),
+    ])
+  })
+
+  it('does nothing when autopilot is off', () => {
+    const result = completeUpstream(false)
+
+    expect(mockTasks.updateTask).toHaveBeenCalledTimes(1)
+    expect(mockMessageSend.sendFromUI).not.toHaveBeenCalled()
+    expect(result.data?.dispatched).toBeUndefined()
+  })
+})
+
+// ============================================================================
+// Task activity, comments & attachments
+// ============================================================================
+
+describe('task activity', () => {
+  it('returns 404 for an unknown task', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.getTask.mockReturnValue(null)
+
+    expect(listTaskActivity('team-1', 'missing').status).toBe(404)
+    expect(listTaskComments('team-1', 'missing').status).toBe(404)
+  })
+
+  it('records task updates under the acting agent', () => {
+    const existing = makeTask({ id: 'task-1', teamId: 'team-1' })
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.getTask.mockReturnValue(existing)
+    mockTasks.updateTask.mockReturnValue({ task: { ...existing, status: 'review' }, unblocked: [] })
+    mockAgentRegistry.getAgent.mockReturnValue(makeAgent({ id: 'agent-1', name: 'backend', label: undefined }))
+
+    updateTeamTask('team-1', 'task-1', { status: 'review', actorAgentId: 'agent-1' })
+
+    expect(mockTasks.updateTask.mock.calls[0][3]).toEqual({ type: 'agent', agentId: 'agent-1', name: 'backend' })
+  })
+
+  it('posts comments as the web UI user by default', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.getTask.mockReturnValue(makeTask({ id: 'task-1' }))
+    mockTaskActivity.addTaskComment.mockReturnValue({ id: 'c-1', type: 'comment', body: 'Looks good' })
+
+    const result = addTaskCommentToTask('team-1', 'task-1', { body: '  Looks good ' })
+
+    expect(result.status).toBe(201)
+    expect(mockTaskActivity.addTaskComment).toHaveBeenCalledWith('team-1', 'task-1', 'Looks good', { type: 'user' }, undefined)
+  })
+
+  it('rejects empty comments and unknown parents', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.getTask.mockReturnValue(makeTask({ id: 'task-1' }))
+    mockTaskActivity.addTaskComment.mockImplementation(() => {
+      throw new Error('Parent comment c-9 not found on this task')
+    })
+
+    expect(addTaskCommentToTask('team-1', 'task-1', { body: '   ' }).status).toBe(400)
+    const reply = addTaskCommentToTask('team-1', 'task-1', { body: 'Reply', parentId: 'c-9' })
+    expect(reply).toMatchObject({ status: 400, error: 'Parent comment c-9 not found on this task' })
+  })
+
+  it('enforces the attachment size limit', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.getTask.mockReturnValue(makeTask({ id: 'task-1' }))
+
+    const result = uploadTaskAttachment('team-1', 'task-1', { filename: 'big.bin', data: Buffer.alloc(2048) })
+
+    expect(result.status).toBe(413)
+    expect(mockTaskActivity.addTaskAttachment).not.toHaveBeenCalled()
+  })
+
+  it('defaults the attachment MIME type and returns 404 for missing files', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.getTask.mockReturnValue(makeTask({ id: 'task-1' }))
+    mockTaskActivity.addTaskAttachment.mockReturnValue({ id: 'a-1', filename: 'log.txt', mimeType: 'application/octet-stream', size: 3 })
+    mockTaskActivity.readTaskAttachment.mockReturnValue(null)
+
+    const upload = uploadTaskAttachment('team-1', 'task-1', { filename: 'log.txt', data: Buffer.from('abc') })
+
+    expect(upload.status).toBe(201)
+    expect(mockTaskActivity.addTaskAttachment.mock.calls[0][2]).toMatchObject({ mimeType: 'application/octet-stream' })
+    expect(getTaskAttachmentFile('team-1', 'task-1', 'a-1').status).toBe(404)
+  })
+})
+
+// ============================================================================
+// Plan import / export
+// ============================================================================
+
+describe('plan import', () => {
+  beforeEach(async () => {
+    // Cycle detection runs against a scratch board, so use the real implementation
+    const actual = await vi.importActual<typeof import('@/lib/task-registry')>('@/lib/task-registry')
+    mockTasks.wouldCreateCycle.mockImplementation(actual.wouldCreateCycle)
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1', name: 'Core', agentIds: ['agent-1'] }))
+    mockTasks.loadTasks.mockReturnValue([makeTask({ id: 'existing', teamId: 'team-1' })])
+    mockAgentRegistry.getAgent.mockImplementation((id: string) =>
+      id === 'agent-1' ? makeAgent({ id: 'agent-1', name: 'backend' }) : null
+    )
+    mockTasks.importTasks.mockImplementation((_teamId: string, items: any[]) =>
+      items.map(item => makeTask({ subject: item.subject, assigneeAgentId: item.assigneeAgentId }))
+    )
+  })
+
+  it('imports a markdown checklist and resolves @mentions to team members', () => {
+    const result = importTeamPlan('team-1', {
+      content: '1. [ ] Schema @Backend\n2. [ ] API {after=existing}',
+      actorAgentId: 'agent-1',
+    })
+
+    expect(result.status).toBe(201)
+    const [items, actor] = mockTasks.importTasks.mock.calls[0].slice(1)
+    expect(items[0]).toMatchObject({ key: 'item-1', assigneeAgentId: 'agent-1' })
+    expect(items[1].blockedBy).toEqual(['item-1', 'existing'])
+    expect(actor).toMatchObject({ type: 'agent', agentId: 'agent-1' })
+  })
+
+  it('rejects plans whose dependencies form a cycle', () => {
+    const result = importTeamPlan('team-1', {
+      format: 'json',
+      content: { tasks: [{ key: 'a', subject: 'A', blockedBy: ['b'] }, { key: 'b', subject: 'B', blockedBy: ['a'] }] },
+    })
+
+    expect(result.status).toBe(400)
+    expect(result.error).toMatch(/cycle/)
+    expect(mockTasks.importTasks).not.toHaveBeenCalled()
+  })
+
+  it('rejects unknown agents and dependencies', () => {
+    expect(importTeamPlan('team-1', { content: '- [ ] Task @nobody' }).error).toBe('Unknown agent(s): @nobody')
+    expect(importTeamPlan('team-1', { content: '- [ ] Task {after=missing}' }).error).toMatch(/unknown task "missing"/)
+  })
+
+  it('validates without creating tasks on a dry run', () => {
+    const result = importTeamPlan('team-1', { content: 'tasks:\n  - subject: One', dryRun: true })
+
+    expect(result.status).toBe(200)
+    expect(result.data?.tasks).toHaveLength(1)
+    expect(mockTasks.importTasks).not.toHaveBeenCalled()
+  })
+
+  it('imports from a team document', () => {
+    mockDocs.getDocument.mockReturnValue(makeDocument({ content: '- [ ] From doc' }))
+
+    expect(importTeamPlan('team-1', { documentId: 'doc-1' }).status).toBe(201)
+    expect(importTeamPlan('team-1', {}).status).toBe(400)
+  })
+})
+
+describe('plan export', () => {
+  it('saves the board as a markdown plan document', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1', name: 'Core' }))
+    mockTasks.loadTasks.mockReturnValue([makeTask({ subject: 'Ship it', assigneeAgentId: 'agent-1' })])
+    mockAgentRegistry.getAgent.mockReturnValue(makeAgent({ id: 'agent-1', name: 'backend' }))
+    mockDocs.createDocument.mockImplementation((data: any) => ({ id: 'doc-1', ...data }))
+
+    const result = exportTeamPlan('team-1')
+
+    expect(result.status).toBe(201)
+    expect(mockDocs.createDocument).toHaveBeenCalledWith(expect.objectContaining({ title: 'Core plan', tags: ['plan'] }))
+    expect(result.data?.document.content).toContain('- [ ] Ship it @backend {#t1}')
+  })
+
+  it('returns 404 when overwriting a missing document', () => {
+    mockTeams.getTeam.mockReturnValue(makeTeam({ id: 'team-1' }))
+    mockTasks.loadTasks.mockReturnValue([])
+    mockDocs.updateDocument.mockReturnValue(null)
+
+    expect(exportTeamPlan('team-1', { documentId: 'missing' }).status).toBe(404)
+  })
+})
@@ -0,0 +1,124 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-task-activity-')
+})
+
+import {
+  addTaskAttachment,
+  addTaskComment,
+  getTaskActivity,
+  getTaskCommentThreads,
+  listTaskAttachments,
+  readTaskAttachment,
+  recordTaskChanges,
+  recordTaskCreated,
+} from '@/lib/task-activity'
+import type { Task, TaskActor } from '@/types/task'
+
+const teamsDir = path.join(tmpHome, '.aimaestro', 'teams')
+const agent: TaskActor = { type: 'agent', agentId: 'agent-1', name: 'backend' }
+const user: TaskActor = { type: 'user' }
+
+function makeTask(overrides: Partial<Task> = {}): Task {
+  return {
+    id: 'task-1',
+    teamId: 'team-1',
+    subject: 'Task',
+    status: 'pending',
+    assigneeAgentId: null,
+    blockedBy: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+beforeEach(() => {
+  fs.rmSync(teamsDir, { recursive: true, force: true })
+})
+
+afterAll(() => restoreHome())
+
+// ============================================================================
+// Activity log
+// ============================================================================
+
+describe('task activity log', () => {
+  it('records status, assignee and dependency changes with the actor', () => {
+    const task = makeTask({ blockedBy: ['task-a'] })
+    recordTaskCreated(task, user)
+    recordTaskChanges(task, { ...task, status: 'in_progress', assigneeAgentId: 'agent-1', blockedBy: ['task-b'] }, agent)
+
+    const activity = getTaskActivity('team-1', 'task-1')
+    expect(activity.map(e => e.type)).toEqual(['created', 'status_changed', 'assigned', 'dependencies_changed'])
+    expect(activity[1]).toMatchObject({ from: 'pending', to: 'in_progress', actor: agent })
+    expect(activity[2]).toMatchObject({ from: null, to: 'agent-1' })
+    expect(activity[3]).toMatchObject({ added: ['task-b'], removed: ['task-a'] })
+    expect(activity[0].timestamp).toBeTruthy()
+  })
+
+  it('records nothing when tracked fields are unchanged', () => {
+    const task = makeTask()
+    expect(recordTaskChanges(task, { ...task, subject: 'Renamed' }, user)).toEqual([])
+    expect(getTaskActivity('team-1', 'task-1')).toEqual([])
+  })
+
+  it('keeps tasks of the same team apart', () => {
+    recordTaskCreated(makeTask(), user)
+    recordTaskCreated(makeTask({ id: 'task-2' }), user)
+    expect(getTaskActivity('team-1', 'task-2')).toHaveLength(1)
+  })
+})
+
+// ============================================================================
+// Comments
+// ============================================================================
+
+describe('task comments', () => {
+  it('nests replies under their parent comment', () => {
+    const root = addTaskComment('team-1', 'task-1', 'Started on this', agent)
+    const reply = addTaskComment('team-1', 'task-1', 'Thanks!', user, root.id)
+    addTaskComment('team-1', 'task-1', 'Second thread', user)
+
+    const threads = getTaskCommentThreads('team-1', 'task-1')
+    expect(threads.map(t => t.body)).toEqual(['Started on this', 'Second thread'])
+    expect(threads[0].replies.map(r => r.id)).toEqual([reply.id])
+  })
+
+  it('rejects replies to comments on another task', () => {
+    const other = addTaskComment('team-1', 'task-2', 'Elsewhere', user)
+    expect(() => addTaskComment('team-1', 'task-1', 'Reply', user, other.id)).toThrow(/not found/)
+  })
+})
+
+// ============================================================================
+// Attachments
+// ============================================================================
+
+describe('task attachments', () => {
+  it('stores bytes beside the tasks file and reads them back', () => {
+    const attachment = addTaskAttachment('team-1', 'task-1', {
+      filename: '../../notes.txt',
+      mimeType: 'text/plain',
+      data: Buffer.from('hello'),
+    }, agent)
+
+    expect(attachment).toMatchObject({ filename: 'notes.txt', mimeType: 'text/plain', size: 5 })
+    expect(fs.existsSync(path.join(teamsDir, 'attachments-team-1', 'task-1', attachment.id))).toBe(true)
+    expect(listTaskAttachments('team-1', 'task-1')).toEqual([attachment])
+    expect(readTaskAttachment('team-1', 'task-1', attachment.id)?.data.toString()).toBe('hello')
+    expect(getTaskActivity('team-1', 'task-1')[0]).toMatchObject({ type: 'attachment_added', actor: agent })
+  })
+
+  it('returns null for unknown attachments', () => {
+    expect(readTaskAttachment('team-1', 'task-1', 'missing')).toBeNull()
+  })
+})
@@ -0,0 +1,163 @@
+import { describe, it, expect } from 'vitest'
+import {
+  parseMarkdownPlan,
+  parseStructuredPlan,
+  detectPlanFormat,
+  renderMarkdownPlan,
+  TaskPlanError,
+} from '@/lib/task-plan'
+import type { Task, TaskPlanItem } from '@/types/task'
+
+function byKey(items: TaskPlanItem[]) {
+  return Object.fromEntries(items.map(item => [item.key, item]))
+}
+
+function makeTask(overrides: Partial<Task>): Task {
+  return {
+    id: 'task',
+    teamId: 'team-1',
+    subject: 'Task',
+    status: 'pending',
+    assigneeAgentId: null,
+    blockedBy: [],
+    createdAt: '2026-01-01T00:00:00.000Z',
+    updatedAt: '2026-01-01T00:00:00.000Z',
+    ...overrides,
+  }
+}
+
+// ============================================================================
+// Markdown
+// ============================================================================
+
+describe('parseMarkdownPlan', () => {
+  it('infers dependencies from nesting and numbered ordering', () => {
+    const items = parseMarkdownPlan([
+      '# Release',
+      '1. [ ] Design schema {#schema}',
+      '2. [ ] Build API',
+      '   - [ ] Auth',
+      '   - [x] CRUD',
+      '- [ ] Write docs',
+    ].join('\n'))
+
+    const plan = byKey(items)
+    expect(items.map(i => i.subject)).toEqual(['Design schema', 'Build API', 'Auth', 'CRUD', 'Write docs'])
+    // Numbered siblings run in order; a parent waits on its children
+    expect(plan['item-2'].blockedBy).toEqual(['schema', 'item-3', 'item-4'])
+    // Bullets are independent
+    expect(plan['item-3'].blockedBy).toEqual([])
+    expect(plan['item-5'].blockedBy).toEqual([])
+    expect(plan['item-4'].status).toBe('completed')
+  })
+
+  it('extracts @mentions, attributes and descriptions', () => {
+    const [first, second] = parseMarkdownPlan([
+      '- [ ] Ship release @backend. {#ship priority=2 status=review}',
+      '  Tag the build',
+      '',
+      '  \\- then announce it',
+      '- [ ] Follow up {after=ship}',
+    ].join('\n'))
+
+    expect(first).toMatchObject({
+      key: 'ship',
+      subject: 'Ship release',
+      assignee: 'backend',
+      priority: 2,
+      status: 'review',
+      description: 'Tag the build\n\n- then announce it',
+    })
+    expect(second.blockedBy).toEqual(['ship'])
+  })
+
+  it('does not carry ordering across headings', () => {
+    const items = parseMarkdownPlan(['## A', '1. [ ] One', '## B', '1. [ ] Two'].join('\n'))
+    expect(items[1].blockedBy).toEqual([])
+  })
+
+  it('rejects duplicate keys and multiple assignees', () => {
+    expect(() => parseMarkdownPlan('- [ ] A {#x}\n- [ ] B {#x}')).toThrow(TaskPlanError)
+    expect(() => parseMarkdownPlan('- [ ] Pair on it @alice @bob')).toThrow(/one assignee/)
+    expect(() => parseMarkdownPlan('- [ ] Bad {colour=red}')).toThrow(/unknown attribute/)
+  })
+})
+
+// ============================================================================
+// JSON / YAML
+// ============================================================================
+
+describe('parseStructuredPlan', () => {
+  it('parses JSON plans with subtasks, sequencing and explicit dependencies', () => {
+    const items = parseStructuredPlan({
+      sequential: true,
+      tasks: [
+        { key: 'a', subject: 'A', assignee: '@backend' },
+        { key: 'b', subject: 'B', subtasks: [{ key: 'b1', subject: 'B1', done: true }] },
+        { key: 'c', subject: 'C', blockedBy: ['existing-task'] },
+      ],
+    }, 'json')
+
+    const plan = byKey(items)
+    expect(plan.a.assignee).toBe('backend')
+    expect(plan.b.blockedBy).toEqual(['a', 'b1'])
+    expect(plan.b1.status).toBe('completed')
+    expect(plan.c.blockedBy).toEqual(['b', 'existing-task'])
+  })
+
+  it('parses YAML plans', () => {
+    const items = parseStructuredPlan([
+      'tasks:',
+      '  - subject: Migrate database',
+      '    priority: 1',
+      '    subtasks:',
+      '      - subject: Back up',
+    ].join('\n'), 'yaml')
+
+    expect(items.map(i => i.subject)).toEqual(['Migrate database', 'Back up'])
+    expect(items[0]).toMatchObject({ priority: 1, blockedBy: ['item-2'] })
+  })
+
+  it('reports malformed plans', () => {
+    expect(() => parseStructuredPlan('{', 'json')).toThrow(/Invalid JSON/)
+    expect(() => parseStructuredPlan({ steps: [] }, 'json')).toThrow(/"tasks" list/)
+    expect(() => parseStructuredPlan({ tasks: [{ title: 'X', status: 'done' }] }, 'json')).toThrow(/status must be/)
+  })
+})
+
+describe('detectPlanFormat', () => {
+  it('recognizes each format', () => {
+    expect(detectPlanFormat({ tasks: [] })).toBe('json')
+    expect(detectPlanFormat('{"tasks": []}')).toBe('json')
+    expect(detectPlanFormat('- [ ] Do it')).toBe('markdown')
+    expect(detectPlanFormat('tasks:\n  - subject: Do it')).toBe('yaml')
+  })
+})
+
+// ============================================================================
+// Export round trip
+// ============================================================================
+
+describe('renderMarkdownPlan', () => {
+  it('round-trips subjects, assignees, statuses and dependencies', () => {
+    const tasks = [
+      makeTask({ id: 'a', subject: 'Design', status: 'completed', assigneeAgentId: 'agent-1' }),
+      makeTask({ id: 'b', subject: 'Build', status: 'review', blockedBy: ['a'], priority: 1, description: 'Line one\n- not a subtask' }),
+      makeTask({ id: 'c', subject: 'Weekly sync', status: 'backlog', recurrence: { intervalMinutes: 60, nextRunAt: '2026-01-01T01:00:00.000Z' } }),
+    ]
+
+    const markdown = renderMarkdownPlan('Board', tasks, id => (id === 'agent-1' ? 'backend' : undefined))
+    const items = parseMarkdownPlan(markdown)
+
+    expect(items).toHaveLength(2) // recurring template left out
+    expect(items[0]).toMatchObject({ key: 't1', subject: 'Design', status: 'completed', assignee: 'backend' })
+    expect(items[1]).toMatchObject({
+      key: 't2',
+      subject: 'Build',
+      status: 'review',
+      priority: 1,
+      blockedBy: ['t1'],
+      description: 'Line one\n- not a subtask',
+    })
+  })
+})
@@ -39,6 +39,20 @@ vi.mock('@/lib/agent-registry', () => ({
   ]),
 }))
 
+const mockEmitTaskEvent = vi.hoisted(() => vi.fn((..._args: any[]) => Promise.resolve()))
+vi.mock('@/lib/webhook-service', () => ({
+  emitTaskEvent: mockEmitTaskEvent,
+}))
+
+const { mockRecordTaskCreated, mockRecordTaskChanges } = vi.hoisted(() => ({
+  mockRecordTaskCreated: vi.fn(),
+  mockRecordTaskChanges: vi.fn(),
+}))
+vi.mock('@/lib/task-activity', () => ({
+  recordTaskCreated: mockRecordTaskCreated,
+  recordTaskChanges: mockRecordTaskChanges,
+}))
+
 // ============================================================================
 // Import module under test (after mocks are declared)
 // ============================================================================
@@ -52,6 +66,8 @@ import {
   updateTask,
   deleteTask,
   wouldCreateCycle,
+  materializeDueTasks,
+  importTasks,
 } from '@/lib/task-registry'
 import type { Task } from '@/types/task'
 
@@ -259,6 +275,15 @@ describe('updateTask', () => {
     expect(result.task!.updatedAt).toBeDefined()
   })
 
+  it('keeps stored values for fields passed as undefined', () => {
+    const blocker = createTask({ teamId: 'team-1', subject: 'Blocker' })
+    const created = createTask({ teamId: 'team-1', subject: 'Keep Me', blockedBy: [blocker.id] })
+    const result = updateTask('team-1', created.id, { subject: undefined, blockedBy: undefined, status: 'in_progress' })
+
+    expect(result.task!.subject).toBe('Keep Me')
+    expect(result.task!.blockedBy).toEqual([blocker.id])
+  })
+
   it('sets startedAt when status changes to in_progress', () => {
     const created = createTask({ teamId: 'team-1', subject: 'Start Me' })
     const result = updateTask('team-1', created.id, { status: 'in_progress' })
@@ -393,6 +418,202 @@ describe('deleteTask', () => {
   })
 })
 
+// ============================================================================
+// Webhook events
+// ============================================================================
+
+describe('task webhook events', () => {
+  function emittedEvents(): string[] {
+    return mockEmitTaskEvent.mock.calls.map((call: any[]) => call[0])
+  }
+
+  it('emits task.created with the new task', () => {
+    const task = createTask({ teamId: 'team-1', subject: 'New' })
+    expect(mockEmitTaskEvent).toHaveBeenCalledWith('task.created', 'team-1', task)
+  })
+
+  it('emits task.status_changed with the previous status', () => {
+    const task = createTask({ teamId: 'team-1', subject: 'Move Me' })
+    mockEmitTaskEvent.mockClear()
+
+    updateTask('team-1', task.id, { status: 'in_progress' })
+
+    expect(mockEmitTaskEvent).toHaveBeenCalledWith(
+      'task.status_changed',
+      'team-1',
+      expect.objectContaining({ id: task.id, status: 'in_progress' }),
+      { previousStatus: 'pending', unblocked: [] }
+    )
+  })
+
+  it('emits task.assigned only when the assignee changes', () => {
+    const task = createTask({ teamId: 'team-1', subject: 'Assign Me' })
+    mockEmitTaskEvent.mockClear()
+
+    updateTask('team-1', task.id, { assigneeAgentId: 'agent-1' })
+    updateTask('team-1', task.id, { assigneeAgentId: 'agent-1', subject: 'Renamed' })
+
+    expect(emittedEvents()).toEqual(['task.assigned'])
+    expect(mockEmitTaskEvent.mock.calls[0][3]).toMatchObject({ previousAssigneeAgentId: null })
+  })
+
+  it('emits task.unblocked with the freed tasks when a blocker completes', () => {
+    const blocker = createTask({ teamId: 'team-1', subject: 'Blocker' })
+    const blocked = createTask({ teamId: 'team-1', subject: 'Blocked', blockedBy: [blocker.id] })
+    mockEmitTaskEvent.mockClear()
+
+    updateTask('team-1', blocker.id, { status: 'completed' })
+
+    expect(emittedEvents()).toEqual(['task.status_changed', 'task.unblocked'])
+    const unblockedCall = mockEmitTaskEvent.mock.calls[1] as any[]
+    expect(unblockedCall[3].unblocked.map((t: Task) => t.id)).toEqual([blocked.id])
+  })
+
+  it('emits task.deleted and task.unblocked when an incomplete blocker is deleted', () => {
+    const blocker = createTask({ teamId: 'team-1', subject: 'Blocker' })
+    const blocked = createTask({ teamId: 'team-1', subject: 'Blocked', blockedBy: [blocker.id] })
+    mockEmitTaskEvent.mockClear()
+
+    deleteTask('team-1', blocker.id)
+
+    expect(emittedEvents()).toEqual(['task.deleted', 'task.unblocked'])
+    const deletedCall = mockEmitTaskEvent.mock.calls[0] as any[]
+    expect(deletedCall[2].id).toBe(blocker.id)
+    expect(deletedCall[3].unblocked.map((t: Task) => t.id)).toEqual([blocked.id])
+  })
+
+  it('does not emit events for a missing task', () => {
+    deleteTask('team-1', 'non-existent')
+    updateTask('team-1', 'non-existent', { status: 'completed' })
+    expect(mockEmitTaskEvent).not.toHaveBeenCalled()
+  })
+})
+
+// ============================================================================
+// importTasks
+// ============================================================================
+
+describe('importTasks', () => {
+  it('creates all plan items in one write, mapping plan keys to new IDs', () => {
+    const existing = createTask({ teamId: 'team-1', subject: 'Existing' })
+
+    const created = importTasks('team-1', [
+      { key: 'api', subject: 'API', blockedBy: ['schema', existing.id], assigneeAgentId: 'agent-1' },
+      { key: 'schema', subject: 'Schema', blockedBy: [], status: 'completed' },
+    ])
+
+    const [api, schema] = created
+    expect(api.blockedBy).toEqual([schema.id, existing.id])
+    expect(api).toMatchObject({ status: 'pending', assigneeAgentId: 'agent-1' })
+    expect(schema.completedAt).toBeDefined()
+    expect(loadTasks('team-1')).toHaveLength(3)
+    expect(mockEmitTaskEvent).toHaveBeenCalledTimes(3)
+  })
+})
+
+// ============================================================================
+// Task activity
+// ============================================================================
+
+describe('task activity', () => {
+  it('records creation and updates under the acting agent', () => {
+    const actor = { type: 'agent' as const, agentId: 'agent-1', name: 'Backend Agent' }
+    const task = createTask({ teamId: 'team-1', subject: 'Tracked' }, actor)
+    updateTask('team-1', task.id, { status: 'in_progress' }, actor)
+
+    expect(mockRecordTaskCreated).toHaveBeenCalledWith(task, actor)
+    expect(mockRecordTaskChanges).toHaveBeenCalledWith(
+      expect.objectContaining({ id: task.id, status: 'pending' }),
+      expect.objectContaining({ id: task.id, status: 'in_progress' }),
+      actor
+    )
+  })
+
+  it('attributes changes to the system when no actor is given', () => {
+    const task = createTask({ teamId: 'team-1', subject: 'Untracked' })
+    expect(mockRecordTaskCreated).toHaveBeenCalledWith(task, { type: 'system' })
+  })
+})
+
+// ============================================================================
+// Recurring tasks
+// ============================================================================
+
+describe('recurring tasks', () => {
+  it('creates templates in the backlog with a computed nextRunAt', () => {
+    const template = createTask({
+      teamId: 'team-1',
+      subject: 'Dependency audit',
+      assigneeAgentId: 'agent-1',
+      recurrence: { intervalMinutes: 60 },
+    })
+
+    expect(template.status).toBe('backlog')
+    expect(new Date(template.recurrence!.nextRunAt).getTime())
+      .toBeCloseTo(new Date(template.createdAt).getTime() + 60 * 60 * 1000, -3)
+  })
+
+  it('materializes one assigned instance per due template and advances the schedule', () => {
+    saveTasks('team-1', [
+      makeTask({
+        id: 'template-1',
+        subject: 'Rebase feature branches',
+        status: 'backlog',
+        assigneeAgentId: 'agent-2',
+        priority: 1,
+        recurrence: { intervalMinutes: 60, dueInMinutes: 30, nextRunAt: '2026-03-01T09:00:00.000Z' },
+      }),
+      makeTask({
+        id: 'template-2',
+        status: 'backlog',
+        recurrence: { intervalMinutes: 60, nextRunAt: '2026-03-01T12:00:00.000Z' },
+      }),
+    ])
+
+    // Several missed runs collapse into one instance
+    const now = new Date('2026-03-01T11:15:00.000Z')
+    const instances = materializeDueTasks('team-1', now)
+
+    expect(instances).toHaveLength(1)
+    expect(instances[0]).toMatchObject({
+      subject: 'Rebase feature branches',
+      status: 'pending',
+      assigneeAgentId: 'agent-2',
+      priority: 1,
+      templateId: 'template-1',
+      dueAt: '2026-03-01T11:45:00.000Z',
+    })
+    expect(mockEmitTaskEvent).toHaveBeenCalledWith('task.created', 'team-1', instances[0])
+
+    const template = getTask('team-1', 'template-1')!
+    expect(template.recurrence).toMatchObject({
+      nextRunAt: '2026-03-01T12:15:00.000Z',
+      lastRunAt: '2026-03-01T11:15:00.000Z',
+    })
+    expect(loadTasks('team-1')).toHaveLength(3)
+
+    // Nothing else is due at the same instant
+    expect(materializeDueTasks('team-1', now)).toEqual([])
+  })
+
+  it('sets, replaces and clears dueAt and recurrence on update', () => {
+    const task = createTask({ teamId: 'team-1', subject: 'Schedule me' })
+
+    const scheduled = updateTask('team-1', task.id, {
+      dueAt: '2026-04-01T00:00:00.000Z',
+      recurrence: { cron: '0 9 * * 1' },
+    }).task!
+    expect(scheduled.dueAt).toBe('2026-04-01T00:00:00.000Z')
+    expect(scheduled.recurrence?.cron).toBe('0 9 * * 1')
+    expect(new Date(scheduled.recurrence!.nextRunAt).getDay()).toBe(1)
+
+    const cleared = updateTask('team-1', task.id, { dueAt: null, recurrence: null }).task!
+    expect(cleared.dueAt).toBeUndefined()
+    expect(cleared.recurrence).toBeUndefined()
+    expect(cleared.subject).toBe('Schedule me')
+  })
+})
+
 // ============================================================================
 // resolveTaskDeps
 // ============================================================================
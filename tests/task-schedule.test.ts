@@ -0,0 +1,53 @@
+import { describe, it, expect } from 'vitest'
+import { isValidCron, nextCronTime, validateRecurrence, computeNextRun } from '@/lib/task-schedule'
+
+/** Local-time date helper (cron is evaluated in server local time) */
+function local(year: number, month: number, day: number, hour = 0, minute = 0): Date {
+  return new Date(year, month - 1, day, hour, minute)
+}
+
+describe('nextCronTime', () => {
+  it('finds the next weekly run', () => {
+    // 2026-03-04 is a Wednesday; next Monday 09:00 is 2026-03-09
+    expect(nextCronTime('0 9 * * 1', local(2026, 3, 4, 12))).toEqual(local(2026, 3, 9, 9))
+    expect(nextCronTime('0 9 * * mon', local(2026, 3, 9, 8, 59))).toEqual(local(2026, 3, 9, 9))
+  })
+
+  it('is strictly after the reference time', () => {
+    expect(nextCronTime('0 9 * * *', local(2026, 3, 9, 9))).toEqual(local(2026, 3, 10, 9))
+  })
+
+  it('supports steps, ranges, lists and macros', () => {
+    expect(nextCronTime('*/15 * * * *', local(2026, 3, 1, 10, 7))).toEqual(local(2026, 3, 1, 10, 15))
+    expect(nextCronTime('30 8-10 * * *', local(2026, 3, 1, 10, 45))).toEqual(local(2026, 3, 2, 8, 30))
+    expect(nextCronTime('0 0 1,15 * *', local(2026, 3, 2))).toEqual(local(2026, 3, 15))
+    expect(nextCronTime('@monthly', local(2026, 12, 5))).toEqual(local(2027, 1, 1))
+  })
+
+  it('matches either day field when both are restricted', () => {
+    // The 13th or any Friday: 2026-03-06 is a Friday
+    expect(nextCronTime('0 0 13 * 5', local(2026, 3, 1))).toEqual(local(2026, 3, 6))
+  })
+
+  it('rejects malformed expressions', () => {
+    expect(isValidCron('0 9 * *')).toBe(false)
+    expect(isValidCron('61 * * * *')).toBe(false)
+    expect(isValidCron('*/0 * * * *')).toBe(false)
+    expect(isValidCron('0 9 * * 1-5')).toBe(true)
+  })
+})
+
+describe('validateRecurrence', () => {
+  it('requires exactly one of cron or intervalMinutes', () => {
+    expect(validateRecurrence({})).toMatch(/exactly one/)
+    expect(validateRecurrence({ cron: '@daily', intervalMinutes: 5 })).toMatch(/exactly one/)
+    expect(validateRecurrence({ intervalMinutes: 0 })).toMatch(/positive integer/)
+    expect(validateRecurrence({ cron: '0 0 31 2 *' })).toMatch(/never matches/)
+    expect(validateRecurrence({ cron: '@weekly', dueInMinutes: 120 })).toBeNull()
+  })
+
+  it('computes interval runs from the reference time', () => {
+    expect(computeNextRun({ intervalMinutes: 90 }, new Date('2026-03-01T00:00:00.000Z')))
+      .toEqual(new Date('2026-03-01T01:30:00.000Z'))
+  })
+})
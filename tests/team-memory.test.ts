@@ -0,0 +1,218 @@
+import { describe, it, expect, vi, beforeEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome, teams } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return { ...useTempHome('aim-team-memory-'), teams: [] as any[] }
+})
+
+vi.mock('@/lib/team-registry', () => ({
+  loadTeams: () => teams,
+}))
+
+vi.mock('@/lib/rag/embeddings', () => ({
+  embedTexts: async (texts: string[]) => texts.map(() => new Float32Array([0, 0, 1])),
+  embedText: async () => [0, 1, 0],
+}))
+
+import {
+  loadTeamMemories,
+  publishTeamMemory,
+  publishToAgentTeams,
+  searchTeamMemories,
+  deleteTeamMemory,
+  vectorSimilarity,
+  getStaleTeamMemories,
+} from '@/lib/team-memory'
+import { reembedTeamMemories } from '@/lib/rag/reembed'
+import { buildMemoryContext } from '@/lib/memory/search'
+import type { AgentDatabase } from '@/lib/cozo-db'
+import { DEFAULT_EMBEDDING_CONFIG, embeddingSignature } from '@/lib/rag/embedding-providers'
+
+const teamsDir = path.join(tmpHome, '.aimaestro', 'teams')
+
+const STAGING_DB = [1, 0, 0]
+const STAGING_DB_AGAIN = [0.98, 0.1, 0]
+const REACT_DECISION = [0, 1, 0]
+
+const MODEL = embeddingSignature(DEFAULT_EMBEDDING_CONFIG)
+const OTHER_MODEL = 'ollama:nomic-embed-text:3'
+
+beforeEach(() => {
+  fs.rmSync(teamsDir, { recursive: true, force: true })
+  teams.length = 0
+})
+
+afterAll(() => restoreHome())
+
+describe('vectorSimilarity', () => {
+  it('computes cosine similarity and guards mismatched vectors', () => {
+    expect(vectorSimilarity([1, 0], [1, 0])).toBeCloseTo(1)
+    expect(vectorSimilarity([1, 0], [0, 2])).toBeCloseTo(0)
+    expect(vectorSimilarity([1, 0], [1, 0, 0])).toBe(0)
+  })
+})
+
+describe('publishTeamMemory', () => {
+  it('creates a memory with provenance', () => {
+    const { memory, action } = publishTeamMemory('team-1', {
+      category: 'fact',
+      content: 'Staging DB is on port 6543',
+      confidence: 0.9,
+      embedding: STAGING_DB, embeddingModel: MODEL,
+      source: { agentId: 'backend', memoryId: 'mem-1', conversationFile: '/conv/a.jsonl' },
+    })
+
+    expect(action).toBe('created')
+    expect(memory).toMatchObject({
+      teamId: 'team-1',
+      category: 'fact',
+      reinforcementCount: 0,
+      source: { agentId: 'backend', memoryId: 'mem-1', conversationFile: '/conv/a.jsonl' },
+    })
+    expect(loadTeamMemories('team-1')).toHaveLength(1)
+  })
+
+  it('reinforces a near-duplicate from another agent instead of adding it', () => {
+    publishTeamMemory('team-1', {
+      category: 'fact', content: 'Staging DB is on port 6543', confidence: 0.8, embedding: STAGING_DB, embeddingModel: MODEL,
+      source: { agentId: 'backend', memoryId: 'mem-1' },
+    })
+    const second = publishTeamMemory('team-1', {
+      category: 'fact', content: 'The staging database listens on 6543', confidence: 0.95, embedding: STAGING_DB_AGAIN, embeddingModel: MODEL,
+      source: { agentId: 'frontend', memoryId: 'mem-9' },
+    })
+
+    expect(second.action).toBe('reinforced')
+    expect(second.memory.reinforcementCount).toBe(1)
+    expect(second.memory.confidence).toBe(0.95)
+    expect(second.memory.reinforcedBy?.map(s => s.agentId)).toEqual(['frontend'])
+    expect(loadTeamMemories('team-1')).toHaveLength(1)
+  })
+
+  it('ignores republishing the same agent memory', () => {
+    const input = {
+      category: 'fact' as const, content: 'Staging DB is on port 6543', confidence: 0.8, embedding: STAGING_DB, embeddingModel: MODEL,
+      source: { agentId: 'backend', memoryId: 'mem-1' },
+    }
+    publishTeamMemory('team-1', input)
+    const again = publishTeamMemory('team-1', input)
+
+    expect(again.action).toBe('unchanged')
+    expect(again.memory.reinforcementCount).toBe(0)
+  })
+})
+
+describe('searchTeamMemories', () => {
+  it('ranks by similarity and filters by category', () => {
+    publishTeamMemory('team-1', {
+      category: 'fact', content: 'Staging DB is on port 6543', confidence: 0.9, embedding: STAGING_DB, embeddingModel: MODEL,
+      source: { agentId: 'backend' },
+    })
+    publishTeamMemory('team-1', {
+      category: 'decision', content: 'We chose React over Vue', confidence: 0.9, embedding: REACT_DECISION, embeddingModel: MODEL,
+      source: { agentId: 'frontend' },
+    })
+
+    const results = searchTeamMemories('team-1', [0.9, 0.2, 0], MODEL)
+    expect(results.map(r => r.memory.content)).toEqual(['Staging DB is on port 6543', 'We chose React over Vue'])
+
+    const decisions = searchTeamMemories('team-1', [0.9, 0.2, 0], MODEL, { categories: ['decision'] })
+    expect(decisions).toHaveLength(1)
+  })
+
+  it('removes memories', () => {
+    const { memory } = publishTeamMemory('team-1', {
+      category: 'fact', content: 'x', confidence: 0.9, embedding: STAGING_DB, embeddingModel: MODEL, source: { agentId: 'backend' },
+    })
+    expect(deleteTeamMemory('team-1', memory.id)).toBe(true)
+    expect(deleteTeamMemory('team-1', memory.id)).toBe(false)
+  })
+})
+
+describe('publishToAgentTeams', () => {
+  it('publishes only to teams that share the category', () => {
+    teams.push(
+      { id: 'team-1', name: 'Backend', agentIds: ['backend', 'frontend'], memorySharing: ['fact', 'decision'] },
+      { id: 'team-2', name: 'Ops', agentIds: ['backend'] },
+      { id: 'team-3', name: 'Design', agentIds: ['frontend'], memorySharing: ['fact'] },
+    )
+
+    const memory = { content: 'Staging DB is on port 6543', confidence: 0.9, embedding: STAGING_DB, embeddingModel: MODEL, memoryId: 'mem-1' }
+    expect(publishToAgentTeams('backend', { ...memory, category: 'fact' })).toEqual(['team-1'])
+    expect(publishToAgentTeams('backend', { ...memory, category: 'pattern', memoryId: 'mem-2' })).toEqual([])
+    expect(loadTeamMemories('team-2')).toHaveLength(0)
+    expect(loadTeamMemories('team-3')).toHaveLength(0)
+  })
+})
+
+describe('buildMemoryContext', () => {
+  it('recalls decisions published to the team pool', async () => {
+    teams.push({ id: 'team-1', name: 'Backend', agentIds: ['backend', 'frontend'], memorySharing: ['decision'] })
+    publishTeamMemory('team-1', {
+      category: 'decision', content: 'We chose React over Vue', confidence: 0.9, embedding: REACT_DECISION, embeddingModel: MODEL,
+      source: { agentId: 'frontend', memoryId: 'mem-7' },
+    })
+    // The agent has no memories of its own
+    const agentDb = { run: async () => ({ rows: [] }) } as unknown as AgentDatabase
+
+    const context = await buildMemoryContext(agentDb, 'backend', 'which UI framework?')
+    expect(context).toContain('- [decision, team Backend] We chose React over Vue')
+  })
+})
+
+describe('embedding models', () => {
+  it('never compares vectors from different models', () => {
+    publishTeamMemory('team-1', {
+      category: 'fact', content: 'Staging DB is on port 6543', confidence: 0.9, embedding: STAGING_DB, embeddingModel: OTHER_MODEL,
+      source: { agentId: 'backend' },
+    })
+    const second = publishTeamMemory('team-1', {
+      category: 'fact', content: 'The staging database listens on 6543', confidence: 0.9, embedding: STAGING_DB_AGAIN, embeddingModel: MODEL,
+      source: { agentId: 'frontend' },
+    })
+
+    expect(second.action).toBe('created')
+    expect(searchTeamMemories('team-1', STAGING_DB, MODEL).map(r => r.memory.content)).toEqual(['The staging database listens on 6543'])
+    expect(getStaleTeamMemories('team-1', MODEL).map(m => m.embeddingModel)).toEqual([OTHER_MODEL])
+  })
+
+  it('treats memories without a signature as the default model', () => {
+    const { memory } = publishTeamMemory('team-1', {
+      category: 'fact', content: 'Staging DB is on port 6543', confidence: 0.9, embedding: STAGING_DB, embeddingModel: MODEL,
+      source: { agentId: 'backend' },
+    })
+    const file = path.join(teamsDir, 'memory-team-1.json')
+    const stored = JSON.parse(fs.readFileSync(file, 'utf-8'))
+    delete stored.memories[0].embeddingModel
+    fs.writeFileSync(file, JSON.stringify(stored))
+
+    expect(searchTeamMemories('team-1', STAGING_DB, MODEL).map(r => r.memory.id)).toEqual([memory.id])
+    expect(getStaleTeamMemories('team-1', MODEL)).toEqual([])
+  })
+
+  it('re-embeds memories built with another model', async () => {
+    publishTeamMemory('team-1', {
+      category: 'fact', content: 'Staging DB is on port 6543', confidence: 0.9, embedding: STAGING_DB, embeddingModel: OTHER_MODEL,
+      source: { agentId: 'backend' },
+    })
+    publishTeamMemory('team-1', {
+      category: 'decision', content: 'We chose React over Vue', confidence: 0.9, embedding: REACT_DECISION, embeddingModel: MODEL,
+      source: { agentId: 'frontend' },
+    })
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {})
+
+    expect(await reembedTeamMemories('team-1')).toBe(1)
+    expect(getStaleTeamMemories('team-1', MODEL)).toEqual([])
+    const memories = loadTeamMemories('team-1')
+    expect(memories.find(m => m.category === 'fact')?.embedding).toEqual([0, 0, 1])
+    expect(memories.find(m => m.category === 'decision')?.embedding).toEqual(REACT_DECISION)
+    expect(await reembedTeamMemories('team-1')).toBe(0)
+    log.mockRestore()
+  })
+})
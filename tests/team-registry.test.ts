@@ -165,6 +165,17 @@ describe('updateTeam', () => {
     expect(updated!.lastActivityAt).toBe(ts)
   })
 
+  it('keeps stored values for fields passed as undefined', () => {
+    const team = createTeam({ name: 'Keep Me', description: 'Desc', agentIds: ['a1'] })
+    updateTeam(team.id, { autopilot: true })
+    const updated = updateTeam(team.id, { name: undefined, agentIds: undefined, autopilot: undefined, description: 'New' })
+
+    expect(updated!.name).toBe('Keep Me')
+    expect(updated!.agentIds).toEqual(['a1'])
+    expect(updated!.autopilot).toBe(true)
+    expect(updated!.description).toBe('New')
+  })
+
   it('updates lastMeetingAt field', () => {
     const team = createTeam({ name: 'Meeting Team', agentIds: [] })
     const ts = '2025-06-15T10:30:00.000Z'
@@ -69,3 +69,38 @@ export function createChildProcessMock() {
     execSync: vi.fn(),
   }
 }
+
+// ---------------------------------------------------------------------------
+// Agent registry stub
+// ---------------------------------------------------------------------------
+
+export interface StubAgent {
+  id: string
+  name: string
+  hostId?: string
+  sessions?: unknown[]
+}
+
+/**
+ * In-memory stand-in for lib/agent-registry, for tests that run real
+ * messaging code against a fixed set of agents. Lookups resolve by ID or
+ * name; aliases, partial names and sessions never match.
+ *
+ *   vi.mock('@/lib/agent-registry', async () =>
+ *     (await import('./test-utils/service-mocks')).createAgentRegistryStub([{ id: 'bob-id', name: 'bob' }]))
+ */
+export function createAgentRegistryStub(stubAgents: StubAgent[]) {
+  const agents = stubAgents.map(a => ({ sessions: [], ...a }))
+  const byName = (name: string) => agents.find(a => a.name === name) || null
+  return {
+    loadAgents: () => agents,
+    getAgent: (id: string) => agents.find(a => a.id === id) || null,
+    resolveAlias: (alias: string) => byName(alias)?.id || null,
+    getAgentByName: byName,
+    getAgentByNameAnyHost: byName,
+    getAgentByAlias: () => null,
+    getAgentByAliasAnyHost: () => null,
+    getAgentByPartialName: () => null,
+    getAgentBySession: () => null,
+  }
+}
@@ -0,0 +1,32 @@
+/**
+ * Temporary HOME directory for tests that exercise file-backed lib modules.
+ *
+ * Most lib modules resolve their storage directories from os.homedir() at
+ * import time, so HOME must be switched before they load. Call useTempHome()
+ * from vi.hoisted(), which runs ahead of the test file's imports:
+ *
+ *   const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+ *     const { useTempHome } = await import('./test-utils/temp-home')
+ *     return useTempHome('aim-example-')
+ *   })
+ *
+ *   afterAll(() => restoreHome())
+ */
+
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+
+export function useTempHome(prefix: string) {
+  const originalHome = process.env.HOME
+  const tmpHome = fs.mkdtempSync(path.join(os.tmpdir(), prefix))
+  process.env.HOME = tmpHome
+
+  /** Restore the original HOME and delete the temporary one */
+  const restoreHome = () => {
+    process.env.HOME = originalHome
+    fs.rmSync(tmpHome, { recursive: true, force: true })
+  }
+
+  return { tmpHome, restoreHome }
+}
@@ -0,0 +1,112 @@
+import { describe, it, expect, vi, beforeEach, afterEach } from 'vitest'
+import fs from 'fs'
+import os from 'os'
+import path from 'path'
+import { parseTreeSitterFile, getTreeSitterLanguage } from '@/lib/rag/parsers/tree-sitter-parser'
+import { parseProject } from '@/lib/rag/parsers'
+
+const PROJECT = '/repo'
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('getTreeSitterLanguage', () => {
+  it('maps extensions to tree-sitter languages', () => {
+    expect(getTreeSitterLanguage('svc/main.go')).toBe('go')
+    expect(getTreeSitterLanguage('src/lib.rs')).toBe('rs')
+    expect(getTreeSitterLanguage('App/UserController.cs')).toBe('cs')
+    expect(getTreeSitterLanguage('web/app.ts')).toBeNull()
+  })
+})
+
+describe('parseTreeSitterFile', () => {
+  it('extracts Go structs, receiver methods, calls and imports', async () => {
+    const parsed = await parseTreeSitterFile(`${PROJECT}/svc/server.go`, `package api
+import (
+  "fmt"
+  h "net/http"
+)
+type Server struct {
+  Base
+  db *DB
+}
+func (s *Server) Handle(w h.ResponseWriter) { fmt.Println("x"); s.db.Query(); helper() }
+func helper() int { return compute(1) }
+`, PROJECT)
+
+    expect(parsed.language).toBe('go')
+    expect(parsed.moduleName).toBe('api')
+    expect(parsed.imports.map(i => i.to_module)).toEqual(['fmt', 'net/http'])
+    expect(parsed.classes).toHaveLength(1)
+    expect(parsed.classes[0]).toMatchObject({ name: 'Server', includes: ['Base'], methods: ['Handle'] })
+
+    const handle = parsed.functions.find(f => f.name === 'Handle')!
+    expect(handle).toMatchObject({ class_name: 'Server', is_export: true })
+    expect(handle.calls.sort()).toEqual(['Println', 'Query', 'helper'])
+    expect(parsed.functions.find(f => f.name === 'helper')).toMatchObject({ is_export: false, calls: ['compute'] })
+  })
+
+  it('attaches Rust impl methods and traits to their struct', async () => {
+    const parsed = await parseTreeSitterFile(`${PROJECT}/src/store.rs`, `use crate::db::{Pool, Conn};
+pub struct Store { pool: Pool }
+impl Cache for Store { fn get(&self) { self.load(); } }
+impl Store { pub async fn open() -> Self { Pool::connect() } }
+`, PROJECT)
+
+    expect(parsed.imports).toEqual([{ from_file: parsed.file_id, to_module: 'crate::db', imported_names: ['Pool', 'Conn'] }])
+    expect(parsed.classes[0]).toMatchObject({ name: 'Store', includes: ['Cache'], methods: ['get', 'open'] })
+    expect(parsed.functions.find(f => f.name === 'open')).toMatchObject({ is_export: true, is_async: true, calls: ['connect'] })
+    expect(parsed.functions.find(f => f.name === 'get')).toMatchObject({ is_export: false, calls: ['load'] })
+  })
+
+  it('reads Java and C# inheritance and visibility', async () => {
+    const java = await parseTreeSitterFile(`${PROJECT}/src/UserService.java`, `package com.acme.users;
+import java.util.List;
+public class UserService extends BaseService implements Service {
+  public List<User> find(String q) { return repo.findAll(q); }
+  private void audit() { log("x"); }
+}
+`, PROJECT)
+    expect(java.moduleName).toBe('com.acme.users')
+    expect(java.imports[0]).toMatchObject({ to_module: 'java.util', imported_names: ['List'] })
+    expect(java.classes[0]).toMatchObject({ parent_class: 'BaseService', includes: ['Service'], class_type: 'service' })
+    expect(java.functions.map(f => [f.name, f.is_export])).toEqual([['find', true], ['audit', false]])
+
+    const csharp = await parseTreeSitterFile(`${PROJECT}/Api/UserController.cs`, `using App.Data;
+namespace App.Api {
+  public class UserController : ControllerBase, IDisposable {
+    public async Task<User> Get(int id) { return await _repo.FindAsync(id); }
+  }
+}
+`, PROJECT)
+    expect(csharp.moduleName).toBe('App.Api')
+    expect(csharp.classes[0]).toMatchObject({ parent_class: 'ControllerBase', includes: ['IDisposable'], class_type: 'controller' })
+    expect(csharp.functions[0]).toMatchObject({ name: 'Get', is_async: true, calls: ['FindAsync'] })
+  })
+})
+
+describe('parseProject', () => {
+  it('indexes every supported language regardless of the detected project type', async () => {
+    const dir = fs.mkdtempSync(path.join(os.tmpdir(), 'aim-polyglot-'))
+    try {
+      fs.writeFileSync(path.join(dir, 'package.json'), JSON.stringify({ devDependencies: { typescript: '5' } }))
+      fs.mkdirSync(path.join(dir, 'web'))
+      fs.writeFileSync(path.join(dir, 'web', 'app.ts'), 'export function render() { return 1 }\n')
+      fs.mkdirSync(path.join(dir, 'svc'))
+      fs.writeFileSync(path.join(dir, 'svc', 'main.go'), 'package main\nfunc main() { serve() }\n')
+
+      const { files, projectInfo } = await parseProject(dir)
+
+      expect(projectInfo.type).toBe('typescript')
+      expect(projectInfo.languages?.sort()).toEqual(['go', 'ts'])
+      expect(files.map(f => f.path).sort()).toEqual(['svc/main.go', 'web/app.ts'])
+    } finally {
+      fs.rmSync(dir, { recursive: true, force: true })
+    }
+  })
+})
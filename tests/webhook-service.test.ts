@@ -0,0 +1,162 @@
+import { describe, it, expect, vi, beforeEach, afterEach, afterAll } from 'vitest'
+import fs from 'fs'
+import path from 'path'
+
+// ============================================================================
+// Isolated home directory (must be set before the module computes its paths)
+// ============================================================================
+
+const { tmpHome, restoreHome } = await vi.hoisted(async () => {
+  const { useTempHome } = await import('./test-utils/temp-home')
+  return useTempHome('aim-webhooks-')
+})
+
+import {
+  createWebhook,
+  deleteWebhook,
+  emitAgentEvent,
+  loadDeliveries,
+  loadWebhooks,
+  saveWebhooks,
+  processWebhookQueue,
+  redeliver,
+  getRetryDelayMs,
+} from '@/lib/webhook-service'
+
+const fetchMock = vi.fn()
+
+function respondWith(status: number) {
+  fetchMock.mockResolvedValueOnce({ ok: status >= 200 && status < 300, status })
+}
+
+beforeEach(() => {
+  fs.rmSync(path.join(tmpHome, '.aimaestro'), { recursive: true, force: true })
+  fetchMock.mockReset()
+  vi.stubGlobal('fetch', fetchMock)
+  vi.useFakeTimers({ toFake: ['Date'] })
+  vi.setSystemTime(new Date('2026-03-01T00:00:00.000Z'))
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.useRealTimers()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+afterAll(() => restoreHome())
+
+function subscribe() {
+  return createWebhook({ url: 'https://example.com/hook', events: ['agent.created'] })
+}
+
+// ============================================================================
+// Delivery queue
+// ============================================================================
+
+describe('webhook delivery queue', () => {
+  it('records successful deliveries with response code and request body', async () => {
+    const webhook = subscribe()
+    respondWith(200)
+
+    await emitAgentEvent('agent.created', 'agent-1', 'backend', 'host-1')
+
+    const [delivery] = loadDeliveries(webhook.id)
+    expect(delivery.status).toBe('delivered')
+    expect(delivery.attempts).toHaveLength(1)
+    expect(delivery.attempts[0]).toMatchObject({ attempt: 1, responseStatus: 200 })
+    expect(JSON.parse(delivery.requestBody)).toMatchObject({ event: 'agent.created', agent: { id: 'agent-1' } })
+    expect(fetchMock.mock.calls[0][1].headers['X-Webhook-Delivery']).toBe(delivery.id)
+  })
+
+  it('schedules a retry with exponential backoff after a failure', async () => {
+    const webhook = subscribe()
+    respondWith(500)
+
+    await emitAgentEvent('agent.created', 'agent-1', 'backend', 'host-1')
+
+    const [delivery] = loadDeliveries(webhook.id)
+    expect(delivery.status).toBe('retrying')
+    expect(delivery.attempts[0]).toMatchObject({ responseStatus: 500, error: 'HTTP 500' })
+    expect(delivery.nextAttemptAt).toBe('2026-03-01T00:00:30.000Z')
+    expect(delivery.lockedUntil).toBeUndefined()
+
+    // Not due yet
+    expect(await processWebhookQueue()).toBe(0)
+
+    vi.setSystemTime(new Date('2026-03-01T00:00:31.000Z'))
+    respondWith(204)
+    expect(await processWebhookQueue()).toBe(1)
+
+    const [retried] = loadDeliveries(webhook.id)
+    expect(retried.status).toBe('delivered')
+    expect(retried.attempts.map(a => a.attempt)).toEqual([1, 2])
+  })
+
+  it('dead-letters a delivery after the maximum number of attempts', async () => {
+    const webhook = subscribe()
+    fetchMock.mockRejectedValue(new Error('connect ECONNREFUSED'))
+
+    await emitAgentEvent('agent.created', 'agent-1', 'backend', 'host-1')
+    for (let i = 0; i < 10; i++) {
+      vi.setSystemTime(new Date(Date.now() + getRetryDelayMs(8)))
+      await processWebhookQueue()
+    }
+
+    const [delivery] = loadDeliveries(webhook.id)
+    expect(delivery.status).toBe('dead')
+    expect(delivery.attempts).toHaveLength(8)
+    expect(delivery.attempts[7].error).toBe('connect ECONNREFUSED')
+    expect(delivery.nextAttemptAt).toBeUndefined()
+  })
+
+  it('drops queued deliveries of a deactivated webhook', async () => {
+    const webhook = subscribe()
+    respondWith(500)
+    await emitAgentEvent('agent.created', 'agent-1', 'backend', 'host-1')
+
+    saveWebhooks(loadWebhooks().map(w => ({ ...w, status: 'inactive' as const })))
+    vi.setSystemTime(new Date('2026-03-01T00:01:00.000Z'))
+    expect(await processWebhookQueue()).toBe(0)
+
+    const [delivery] = loadDeliveries(webhook.id)
+    expect(delivery.status).toBe('dead')
+    expect(delivery.attempts).toHaveLength(1)
+    expect(delivery.nextAttemptAt).toBeUndefined()
+
+    // New events are not queued for it either
+    await emitAgentEvent('agent.created', 'agent-2', 'frontend', 'host-1')
+    expect(loadDeliveries(webhook.id)).toHaveLength(1)
+    expect(fetchMock).toHaveBeenCalledTimes(1)
+  })
+
+  it('caps the backoff delay', () => {
+    expect(getRetryDelayMs(1)).toBe(30_000)
+    expect(getRetryDelayMs(3)).toBe(120_000)
+    expect(getRetryDelayMs(20)).toBe(60 * 60 * 1000)
+  })
+
+  it('redelivers the original request body as a new delivery', async () => {
+    const webhook = subscribe()
+    respondWith(500)
+    await emitAgentEvent('agent.created', 'agent-1', 'backend', 'host-1')
+    const [original] = loadDeliveries(webhook.id)
+
+    respondWith(200)
+    const delivery = await redeliver(webhook.id, original.id)
+
+    expect(delivery).toMatchObject({ status: 'delivered', redeliveryOf: original.id, requestBody: original.requestBody })
+    expect(loadDeliveries(webhook.id).map(d => d.id)).toEqual([delivery!.id, original.id])
+    expect(await redeliver(webhook.id, 'missing')).toBeNull()
+  })
+
+  it('removes delivery history with the webhook', async () => {
+    const webhook = subscribe()
+    respondWith(200)
+    await emitAgentEvent('agent.created', 'agent-1', 'backend', 'host-1')
+
+    expect(deleteWebhook(webhook.id)).toBe(true)
+    expect(loadDeliveries(webhook.id)).toEqual([])
+  })
+})
@@ -0,0 +1,64 @@
+/**
+ * Access control types
+ *
+ * API tokens carry one or more role grants. A grant without a teamId applies
+ * to every route; a grant with a teamId only applies to /api/teams/{teamId}/**.
+ * Roles are ordered: viewer < operator < admin.
+ */
+
+export type AccessRole = 'viewer' | 'operator' | 'admin'
+
+export interface AccessGrant {
+  role: AccessRole
+  teamId?: string          // Scope the grant to a single team
+}
+
+export interface AccessToken {
+  id: string               // UUID
+  name: string             // Person or integration the token belongs to ("alice", "ci-bot")
+  tokenHash: string        // sha256 of the secret; the secret itself is never stored
+  prefix: string           // First characters of the secret, for recognizing it in lists
+  grants: AccessGrant[]
+  createdAt: string        // ISO
+  expiresAt?: string       // ISO
+  lastUsedAt?: string      // ISO, updated at most once a minute
+  revokedAt?: string       // ISO
+}
+
+/** Token as returned by the API (hash stripped) */
+export type AccessTokenSummary = Omit<AccessToken, 'tokenHash'>
+
+export interface AccessControlFile {
+  version: 1
+  enabled: boolean         // When false every request is allowed (pre-RBAC behavior)
+  trustLocal: boolean      // Requests from this machine act as admin (local agents, CLI scripts)
+  tokens: AccessToken[]
+  adminAgents: string[]    // AMP agent IDs with admin rights (e.g. *@tenant broadcasts)
+}
+
+/** Who made a request, once their token has been resolved */
+export interface AccessPrincipal {
+  id: string               // Token ID, or 'local' for trusted requests from this machine
+  name: string
+  grants: AccessGrant[]
+}
+
+export type AccessDenialReason = 'unauthenticated' | 'invalid_token' | 'forbidden'
+
+export interface AccessAuditEntry {
+  id: string
+  timestamp: string        // ISO
+  method: string
+  path: string
+  remoteAddress?: string
+  principalId?: string
+  principalName?: string
+  requiredRole: AccessRole
+  teamId?: string
+  reason: AccessDenialReason
+}
+
+export interface AccessAuditFile {
+  version: 1
+  entries: AccessAuditEntry[]
+}
@@ -15,6 +15,8 @@
 // AgentSkillsConfig is also used locally by the Agent interface below
 export type { AgentSkillsConfig, AgentMarketplaceSkill, AgentCustomSkill } from './marketplace'
 import type { AgentSkillsConfig } from './marketplace'
+import type { Task, TaskStatus } from './task'
+import type { Meeting } from './team'
 
 // ============================================================================
 // AMP Identity Types (Cryptographic Identity for Messaging)
@@ -215,7 +217,8 @@ export interface Agent {
   // Hooks (event-triggered scripts)
   hooks?: Record<string, string>  // event -> script path
 
-  // Runtime type (default: 'tmux') — future: 'docker' | 'api' | 'direct'
+  // Runtime type (default: 'tmux'). 'docker' drives tmux inside deployment.cloud.containerName,
+  // 'direct' runs the session under node-pty without tmux (lib/direct-runtime.ts)
   runtime?: 'tmux' | 'docker' | 'api' | 'direct'
 
   // Runtime state (set by API, not persisted)
@@ -634,13 +637,24 @@ export interface AMPAddressIndexEntry {
 // ============================================================================
 
 /**
- * Webhook event types for agent identity changes
+ * Webhook event types for agent identity changes, team tasks and meetings
  */
 export type WebhookEventType =
   | 'agent.email.changed'
   | 'agent.created'
   | 'agent.deleted'
   | 'agent.updated'
+  | WebhookTaskEventType
+  | WebhookMeetingEventType
+
+export type WebhookTaskEventType =
+  | 'task.created'
+  | 'task.status_changed'
+  | 'task.assigned'
+  | 'task.unblocked'
+  | 'task.deleted'
+
+export type WebhookMeetingEventType = 'meeting.started' | 'meeting.ended'
 
 /**
  * Webhook subscription
@@ -658,6 +672,41 @@ export interface WebhookSubscription {
   failureCount?: number
 }
 
+/**
+ * Lifecycle of a queued webhook delivery
+ * pending -> delivered, or pending -> retrying (backoff) -> delivered | dead
+ */
+export type WebhookDeliveryStatus = 'pending' | 'retrying' | 'delivered' | 'dead'
+
+/**
+ * One HTTP attempt of a webhook delivery
+ */
+export interface WebhookDeliveryAttempt {
+  attempt: number                   // 1-based attempt number
+  attemptedAt: string
+  responseStatus?: number           // HTTP status (absent on network errors/timeouts)
+  latencyMs: number
+  error?: string
+}
+
+/**
+ * A queued webhook delivery with its attempt history
+ * Stored in ~/.aimaestro/webhook-deliveries/{webhookId}.json
+ */
+export interface WebhookDelivery {
+  id: string
+  webhookId: string
+  event: WebhookEventType
+  requestBody: string               // Exact JSON body sent (and signed)
+  status: WebhookDeliveryStatus
+  attempts: WebhookDeliveryAttempt[]
+  createdAt: string
+  nextAttemptAt?: string            // When the next retry is due (pending/retrying)
+  lockedUntil?: string              // Attempt in flight; other workers skip until then
+  completedAt?: string              // When delivered or dead-lettered
+  redeliveryOf?: string             // Original delivery ID for manual redeliveries
+}
+
 /**
  * Request to create a webhook subscription
  * POST /api/webhooks
@@ -700,6 +749,44 @@ export interface WebhookAgentPayload {
   }
 }
 
+/**
+ * Webhook payload for team task lifecycle events
+ *
+ * - task.created:        task is the new task
+ * - task.status_changed: previousStatus is set; unblocked lists tasks whose
+ *                        last blocker was just completed
+ * - task.assigned:       previousAssigneeAgentId is set
+ * - task.unblocked:      task is the completed/deleted blocker; unblocked lists
+ *                        the tasks that are now free to start
+ * - task.deleted:        task is the deleted task (as it was before deletion)
+ */
+export interface WebhookTaskPayload {
+  event: WebhookTaskEventType
+  timestamp: string
+  teamId: string
+  task: Task
+  previousStatus?: TaskStatus
+  previousAssigneeAgentId?: string | null
+  unblocked: Task[]
+}
+
+/**
+ * Webhook payload for team meeting lifecycle events
+ */
+export interface WebhookMeetingPayload {
+  event: WebhookMeetingEventType
+  timestamp: string
+  teamId: string | null
+  meeting: Meeting
+}
+
+/** Any payload deliverable to a webhook subscriber */
+export type WebhookPayload =
+  | WebhookEmailChangedPayload
+  | WebhookAgentPayload
+  | WebhookTaskPayload
+  | WebhookMeetingPayload
+
 // ============================================================================
 // Email Domains
 // ============================================================================
@@ -17,6 +17,8 @@ export interface HostIdentity {
   description?: string
   /** All known IPs, hostnames, URLs for duplicate detection */
   aliases?: string[]
+  /** Ed25519 mesh key (hex). Lets a trusted peer introduce hosts it vouches for. */
+  publicKey?: string
 }
 
 /**
@@ -27,6 +29,8 @@ export interface HostIdentityResponse {
     version: string
     tailscale: boolean
     isSelf: true  // Always true - this is the host serving the API
+    publicKey: string    // Ed25519 mesh key (hex)
+    fingerprint: string  // "SHA256:..." - compare out of band before trusting
   }
   /** Organization name (if set) */
   organization?: string
@@ -152,3 +156,51 @@ export interface HostWithSyncStatus extends Host {
   lastSyncSuccess?: string
   syncError?: string
 }
+
+// ============================================================================
+// Mesh Trust
+// ============================================================================
+
+/**
+ * Whether we accept signed mesh requests from a peer.
+ * pending: seen a signed request but nobody approved it yet
+ */
+export type PeerTrustState = 'pending' | 'trusted' | 'revoked'
+
+/**
+ * How a peer's key came to be pinned
+ * - pairing:    presented a one-time pairing token we issued
+ * - manual:     an operator approved it, or added the host by URL
+ * - introduced: a trusted peer shared it during peer exchange
+ * - request:    first seen on an incoming request (pending until approved)
+ */
+export type PeerTrustSource = 'pairing' | 'manual' | 'introduced' | 'request'
+
+export interface PeerTrust {
+  hostId: string           // Host ID the peer signs with
+  publicKey: string        // Pinned Ed25519 key (hex)
+  fingerprint: string
+  state: PeerTrustState
+  source: PeerTrustSource
+  introducedBy?: string    // Host ID, for source 'introduced'
+  name?: string
+  url?: string
+  firstSeenAt: string      // ISO
+  updatedAt: string        // ISO
+  lastSeenAt?: string      // ISO, last verified request
+}
+
+export interface PairingToken {
+  id: string
+  tokenHash: string        // sha256 of the token
+  createdAt: string        // ISO
+  expiresAt: string        // ISO
+  usedBy?: string          // Host ID that redeemed it
+  usedAt?: string          // ISO
+}
+
+export interface MeshTrustFile {
+  version: 1
+  peers: PeerTrust[]
+  pairingTokens: PairingToken[]
+}
@@ -60,6 +60,14 @@ export interface Host {
   /** Whether this host is the current machine (set by API, not stored) */
   isSelf?: boolean
 
+  /** Pinned mesh key for this host (set by API, not stored) */
+  meshTrust?: {
+    state: 'pending' | 'trusted' | 'revoked'
+    fingerprint: string
+    source: string
+    introducedBy?: string
+  }
+
   /** Runtime capabilities detected on this host */
   capabilities?: {
     docker?: boolean
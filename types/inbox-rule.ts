@@ -0,0 +1,43 @@
+/**
+ * Inbox rule types
+ *
+ * Each agent has an ordered list of rules evaluated when a message is
+ * delivered to it. A rule matches when every condition it sets matches;
+ * the actions of all matching rules are combined.
+ */
+
+import type { AMPEnvelope, AMPPayload } from '@/lib/types/amp'
+
+export type InboxRulePriority = AMPEnvelope['priority']
+
+export interface InboxRuleConditions {
+  from?: string            // Sender name or address; "*" wildcards allowed (e.g. "ci-*", "*@partner.example.com")
+  subjectPattern?: string  // Case-insensitive regular expression tested against the subject
+  priorities?: InboxRulePriority[]
+  contentTypes?: AMPPayload['type'][]
+  fromVerified?: boolean   // Match only signed (true) or only unsigned (false) senders
+}
+
+export interface InboxRuleActions {
+  archive?: boolean
+  markRead?: boolean
+  forwardTo?: string       // Name or ID of a local agent
+  suppressNotification?: boolean  // No tmux notification
+  escalatePriority?: InboxRulePriority  // Raise the priority to at least this level
+  webhookUrl?: string      // POST the message here (same format as AMP webhook delivery)
+}
+
+export interface InboxRule {
+  id: string               // UUID
+  name: string
+  enabled: boolean
+  conditions: InboxRuleConditions
+  actions: InboxRuleActions
+  createdAt: string        // ISO
+  updatedAt: string        // ISO
+}
+
+export interface InboxRulesFile {
+  version: 1
+  rules: InboxRule[]
+}
@@ -7,6 +7,21 @@
 
 export type TaskStatus = 'backlog' | 'pending' | 'in_progress' | 'review' | 'completed'
 
+/**
+ * Recurrence spec for a recurring task template.
+ * Exactly one of `cron` or `intervalMinutes` is set.
+ */
+export interface TaskRecurrence {
+  cron?: string                  // 5-field cron ("0 9 * * 1" = Mondays 09:00, server local time)
+  intervalMinutes?: number       // Or: every N minutes
+  dueInMinutes?: number          // Instance dueAt = materialization time + N minutes
+  nextRunAt: string              // Next time an instance is materialized (computed)
+  lastRunAt?: string             // Last time an instance was materialized
+}
+
+/** Recurrence fields accepted from API callers (run times are computed) */
+export type TaskRecurrenceInput = Pick<TaskRecurrence, 'cron' | 'intervalMinutes' | 'dueInMinutes'>
+
 export interface Task {
   id: string                     // UUID
   teamId: string                 // Team this task belongs to
@@ -20,6 +35,9 @@ export interface Task {
   updatedAt: string
   startedAt?: string
   completedAt?: string
+  dueAt?: string                 // ISO deadline
+  recurrence?: TaskRecurrence    // Set on recurring templates only
+  templateId?: string            // Instances: the recurring template they came from
 }
 
 export interface TaskWithDeps extends Task {
@@ -32,3 +50,67 @@ export interface TasksFile {
   version: 1
   tasks: Task[]
 }
+
+/** Who performed a task change */
+export interface TaskActor {
+  type: 'agent' | 'user' | 'system'
+  agentId?: string               // Set for agents
+  name?: string                  // Display name at the time of the action
+}
+
+export type TaskActivityType =
+  | 'created'
+  | 'status_changed'
+  | 'assigned'
+  | 'dependencies_changed'
+  | 'comment'
+  | 'attachment_added'
+
+/** File attached to a task (bytes live next to the team's tasks file) */
+export interface TaskAttachment {
+  id: string
+  filename: string
+  mimeType: string
+  size: number
+}
+
+/** One entry in a task's append-only activity log */
+export interface TaskActivity {
+  id: string
+  teamId: string
+  taskId: string
+  type: TaskActivityType
+  actor: TaskActor
+  timestamp: string
+  from?: string | null           // status_changed / assigned: previous value
+  to?: string | null             // status_changed / assigned: new value
+  added?: string[]               // dependencies_changed: task IDs added to blockedBy
+  removed?: string[]             // dependencies_changed: task IDs removed from blockedBy
+  body?: string                  // comment: text
+  parentId?: string              // comment: ID of the comment this replies to
+  attachment?: TaskAttachment    // attachment_added
+}
+
+/** A comment with its replies nested (GET .../comments) */
+export interface TaskCommentThread extends TaskActivity {
+  replies: TaskCommentThread[]
+}
+
+export interface TaskActivityFile {
+  version: 1
+  entries: TaskActivity[]
+}
+
+/** Supported plan formats for bulk import (POST /api/teams/[id]/tasks/import) */
+export type TaskPlanFormat = 'markdown' | 'json' | 'yaml'
+
+/** One task parsed from a plan, before it is given an ID */
+export interface TaskPlanItem {
+  key: string                    // Plan-local reference ({#key} / "key"), generated when omitted
+  subject: string
+  description?: string
+  assignee?: string              // @mention or agent name, resolved via the agent registry
+  priority?: number
+  status?: TaskStatus            // Defaults to pending
+  blockedBy: string[]            // Keys of other plan items, or IDs of tasks already on the board
+}
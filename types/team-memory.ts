@@ -0,0 +1,38 @@
+/**
+ * Team memory types for the shared memory pool
+ *
+ * Agents on a team publish selected long-term memories (facts, decisions,
+ * preferences) to a pool every member can recall, with provenance back to
+ * the agent and conversation the memory came from.
+ */
+
+/** Long-term memory categories that can be shared with a team */
+export type TeamMemoryCategory = 'fact' | 'decision' | 'preference'
+
+export interface TeamMemorySource {
+  agentId: string          // Agent that published the memory
+  memoryId?: string        // Memory ID in that agent's own database
+  conversationFile?: string // Conversation the memory was extracted from
+  publishedAt: string      // ISO
+}
+
+export interface TeamMemory {
+  id: string              // UUID
+  teamId: string
+  category: TeamMemoryCategory
+  content: string
+  context?: string
+  confidence: number      // 0.0-1.0
+  embedding: number[]     // Same model as agent memories
+  embeddingModel?: string // Signature (provider:model:dimension) of that model; absent = default model
+  reinforcementCount: number // Times another publish matched this memory
+  source: TeamMemorySource   // First publisher
+  reinforcedBy?: TeamMemorySource[] // Later publishers of the same memory
+  createdAt: string       // ISO
+  updatedAt: string       // ISO
+}
+
+export interface TeamMemoryFile {
+  version: 1
+  memories: TeamMemory[]
+}
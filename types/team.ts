@@ -5,6 +5,8 @@
  * a "war room" for multi-agent coordination sessions.
  */
 
+import type { TeamMemoryCategory } from './team-memory'
+
 export interface Team {
   id: string              // UUID
   name: string            // "Backend Squad"
@@ -15,6 +17,8 @@ export interface Team {
   updatedAt: string       // ISO
   lastMeetingAt?: string  // ISO - last time a meeting was started with this team
   lastActivityAt?: string // ISO - updated on any team interaction
+  autopilot?: boolean     // Dispatch newly unblocked, assigned tasks to their agents automatically
+  memorySharing?: TeamMemoryCategory[] // Memory categories members publish to the team pool after consolidation
 }
 
 export interface TeamsFile {